@@ -4,12 +4,14 @@ import type { LucideIcon } from 'lucide-react'
 import { BarChart3, Building2, CalendarRange, Dumbbell, MessageSquare, UserCircle2, Users } from 'lucide-react'
 import { Link, Navigate, Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom'
 import style from './App.module.css'
-import { apiGet } from './apiClient'
-import { apiRoutes } from './apiRoutes'
+import { apiCall } from './apiClient'
+import { apiEndpoints } from './apiEndpoints'
 import { getDefaultRouteByRole, type AccountRole } from './authz'
 import { CloseIcon, MenuIcon } from './components/icons'
 import RoundIconButton from './components/RoundIconButton'
 import { RequireAuth, RequireRole } from './components/RouteGuards'
+import { useOfflineSync } from './hooks/useOfflineSync'
+import { uiConfirm } from './ui'
 import { useAuth } from './useAuth'
 import { useTeamScope } from './useTeamScope'
 import AccountPage from './pages/AccountPage'
@@ -78,6 +80,7 @@ export default function App() {
   const showSidebarShell = !isHome && !isPublicPlateau && !isInviteAccept && !isMobileAuth
   const [menuOpen, setMenuOpen] = React.useState(false)
   const [messageUnreadCount, setMessageUnreadCount] = React.useState(0)
+  const offlineSync = useOfflineSync(Boolean(me))
   const headerHeight = 64
   const pageWidth = 980
 
@@ -88,6 +91,26 @@ export default function App() {
     navigate('/')
   }
 
+  const handleOfflineSyncClick = () => {
+    if (offlineSync.conflictCount > 0) {
+      const overwrite = uiConfirm(
+        `${offlineSync.conflictCount} modification(s) hors ligne entrent en conflit avec des changements faits entre-temps.\n`
+        + 'OK pour écraser avec vos modifications, Annuler pour les abandonner.',
+      )
+      void offlineSync.resolve(overwrite ? 'overwrite' : 'discard')
+      return
+    }
+    void offlineSync.replay()
+  }
+
+  const offlineSyncLabel = offlineSync.conflictCount > 0
+    ? `${offlineSync.conflictCount} conflit${offlineSync.conflictCount > 1 ? 's' : ''}`
+    : offlineSync.syncing
+      ? 'Synchronisation…'
+      : offlineSync.pendingCount > 0
+        ? `${offlineSync.pendingCount} en attente`
+        : (!offlineSync.online ? 'Hors ligne' : null)
+
   const navItems = React.useMemo(() => {
     if (!me) return [] as NavItem[]
     const roleItems = NAV_ITEMS.filter((item) => item.roles.includes(me.role))
@@ -108,8 +131,8 @@ export default function App() {
         return
       }
       try {
-        const payload = await apiGet<{ count: number }>(apiRoutes.teamMessages.unreadCount)
-        setMessageUnreadCount(Math.max(0, Number(payload.count) || 0))
+        const payload = await apiCall(apiEndpoints.teamMessages.unreadCount())
+        setMessageUnreadCount(payload.count)
       } catch {
         setMessageUnreadCount(0)
       }
@@ -168,6 +191,17 @@ export default function App() {
                 izifoot
               </span>
             )}
+            {me && offlineSyncLabel ? (
+              <button
+                type="button"
+                className={`${style.offlineSyncBadge} ${offlineSync.conflictCount > 0 ? style.offlineSyncBadgeConflict : ''}`.trim()}
+                onClick={handleOfflineSyncClick}
+                disabled={offlineSync.syncing || (!offlineSync.online && offlineSync.conflictCount === 0)}
+                title="Modifications hors ligne"
+              >
+                {offlineSyncLabel}
+              </button>
+            ) : null}
           </header>
           {showSidebarShell && menuOpen && (
             <div
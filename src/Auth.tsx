@@ -2,6 +2,7 @@
 import React, { useEffect, useState } from 'react';
 import { useLocation } from 'react-router-dom';
 import { api, type Me } from './api';
+import { bindOfflineSession, clearOfflineSession } from './apiClient';
 import { canManageClub, canWrite, isReadOnlyRole } from './authz';
 import { AuthCtx } from './useAuth';
 
@@ -20,6 +21,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const refresh = async () => {
     try {
       const u = await api.me();
+      await bindOfflineSession(u.id);
       setMe(u);
     } catch {
       setMe(null);
@@ -38,6 +40,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     const onUnauthorized = () => {
+      void clearOfflineSession();
       setMe(null);
       setLoading(false);
     };
@@ -49,6 +52,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setLoading(true);
     try {
       const u = await api.login(email, password);
+      await bindOfflineSession(u.id);
       setMe(u);
     } finally {
       setLoading(false);
@@ -59,6 +63,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setLoading(true);
     try {
       const u = await api.register(email, password, clubName);
+      await bindOfflineSession(u.id);
       setMe(u);
     } finally {
       setLoading(false);
@@ -66,8 +71,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const logout = async () => {
-    await api.logout();
-    setMe(null);
+    try {
+      await api.logout();
+    } finally {
+      await clearOfflineSession();
+      setMe(null);
+    }
   };
 
   const updateMe = (nextMe: Me) => {
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ResponseValidationError,
+  isClubMe,
+  isMatchdayCarpool,
+  isTeam,
+  isTrainingIntentResponse,
+  validateCount,
+  validateListOf,
+  validateMatch,
+  validateMatchDetails,
+  validateMatchdaySummary,
+  validateWith,
+} from './apiValidation'
+import type { Matchday } from '../types/api'
+
+describe('validateWith', () => {
+  it('passes well-formed payloads through', () => {
+    const club = { id: 'c1', name: 'US Izi', currentSeason: { id: 's1', startDate: '2025-09-01', endDate: '2026-06-30' } }
+    expect(validateWith(isClubMe, 'club')(club)).toBe(club)
+  })
+
+  it('rejects payloads missing required fields', () => {
+    expect(() => validateWith(isClubMe, 'club')({ name: 'US Izi' })).toThrow(ResponseValidationError)
+    expect(() => validateWith(isClubMe, 'club')(null)).toThrow('Réponse inattendue du serveur (club).')
+  })
+})
+
+describe('validateListOf', () => {
+  it('accepts plain arrays and items envelopes, dropping malformed rows', () => {
+    const teams = validateListOf(isTeam, 'équipes')
+    expect(teams([{ id: 't1', name: 'U11' }, { id: '', name: 'ghost' }])).toEqual([{ id: 't1', name: 'U11' }])
+    expect(teams({ items: [{ id: 't2', name: 'U13' }] })).toEqual([{ id: 't2', name: 'U13' }])
+  })
+
+  it('rejects non-list payloads', () => {
+    expect(() => validateListOf(isTeam, 'équipes')({ error: 'nope' })).toThrow(ResponseValidationError)
+  })
+})
+
+describe('response normalizers', () => {
+  it('defaults missing match scorers', () => {
+    expect(validateMatch({ id: 'm1', teams: [] }).scorers).toEqual([])
+  })
+
+  it('coerces unread counts and rejects garbage', () => {
+    expect(validateCount({ count: '3' })).toEqual({ count: 3 })
+    expect(validateCount({ count: -2 })).toEqual({ count: 0 })
+    expect(() => validateCount({})).toThrow(ResponseValidationError)
+  })
+
+  it('keeps only well-formed embedded players of a match', () => {
+    const details = validateMatchDetails({ id: 'm1', teams: [], playersById: { p1: { id: 'p1', name: 'Léa' }, p2: { id: 'p2' } } })
+    expect(details.playersById).toEqual({ p1: { id: 'p1', name: 'Léa' } })
+  })
+
+  it('reads the legacy plateau key of matchday summaries', () => {
+    const summary = validateMatchdaySummary<{ matchday: Matchday; convocations: unknown[] }>({
+      plateau: { id: 'md1', date: '2026-03-14' },
+      convocations: [],
+    })
+    expect(summary).toEqual({ matchday: { id: 'md1', date: '2026-03-14' }, convocations: [] })
+    expect(() => validateMatchdaySummary({ convocations: [] })).toThrow(ResponseValidationError)
+  })
+})
+
+describe('page resource guards', () => {
+  it('requires both carpool lists', () => {
+    expect(isMatchdayCarpool({ offers: [], requests: [] })).toBe(true)
+    expect(isMatchdayCarpool({ offers: [] })).toBe(false)
+  })
+
+  it('requires the intent summary and accepts a missing item list', () => {
+    const summary = { presentCount: 2, absentCount: 1, unknownCount: 0, totalPlayers: 3 }
+    expect(isTrainingIntentResponse({ trainingId: 't1', summary, myIntent: null, canRespond: false })).toBe(true)
+    expect(isTrainingIntentResponse({ trainingId: 't1', summary, items: 'none' })).toBe(false)
+    expect(isTrainingIntentResponse({ trainingId: 't1' })).toBe(false)
+  })
+})
@@ -0,0 +1,178 @@
+import { normalizeMatchdayPayload } from './matchday'
+import type {
+  AttendanceRow,
+  ClubCoach,
+  ClubMe,
+  DiagramSummary,
+  Drill,
+  InvitationDetails,
+  LinkedChild,
+  MatchDetails,
+  MatchLite,
+  Matchday,
+  MatchdayCarpool,
+  Player,
+  PlayerInvitationStatusResponse,
+  Season,
+  Team,
+  TeamMessage,
+  Training,
+  TrainingDrill,
+  TrainingIntentResponse,
+  TrainingRoleAssignment,
+  TrainingSeries,
+} from '../types/api'
+
+export type ResponseValidator<T> = (value: unknown) => T
+
+export class ResponseValidationError extends Error {
+  details?: unknown
+
+  constructor(message: string, details?: unknown) {
+    super(message)
+    this.name = 'ResponseValidationError'
+    this.details = details
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function hasStringFields(value: unknown, ...keys: string[]): value is Record<string, unknown> {
+  return isRecord(value) && keys.every((key) => isNonEmptyString(value[key]))
+}
+
+export function isSeason(value: unknown): value is Season {
+  return hasStringFields(value, 'id', 'startDate', 'endDate')
+}
+
+export function isClubMe(value: unknown): value is ClubMe {
+  if (!hasStringFields(value, 'id')) return false
+  return typeof value.name === 'string' && (value.currentSeason == null || isSeason(value.currentSeason))
+}
+
+export function isTeam(value: unknown): value is Team {
+  return hasStringFields(value, 'id') && typeof value.name === 'string'
+}
+
+export function isPlayer(value: unknown): value is Player {
+  return hasStringFields(value, 'id') && typeof value.name === 'string'
+}
+
+export function isTraining(value: unknown): value is Training {
+  return hasStringFields(value, 'id', 'date')
+}
+
+export function isMatchday(value: unknown): value is Matchday {
+  return hasStringFields(value, 'id', 'date')
+}
+
+export function isMatchLite(value: unknown): value is MatchLite {
+  return hasStringFields(value, 'id') && Array.isArray(value.teams)
+}
+
+export function isDrill(value: unknown): value is Drill {
+  return hasStringFields(value, 'id') && typeof value.title === 'string'
+}
+
+export function isDiagramSummary(value: unknown): value is DiagramSummary {
+  return hasStringFields(value, 'id')
+}
+
+export function isAttendanceRow(value: unknown): value is AttendanceRow {
+  return hasStringFields(value, 'session_id', 'playerId')
+    && (value.session_type === 'TRAINING' || value.session_type === 'PLATEAU')
+    && typeof value.present === 'boolean'
+}
+
+export function isTrainingRoleAssignment(value: unknown): value is TrainingRoleAssignment {
+  return hasStringFields(value, 'id', 'role', 'playerId')
+}
+
+export function isTrainingDrill(value: unknown): value is TrainingDrill {
+  return hasStringFields(value, 'id', 'drillId')
+}
+
+export function isTrainingIntentResponse(value: unknown): value is TrainingIntentResponse {
+  return hasStringFields(value, 'trainingId') && isRecord(value.summary)
+    && (value.items === undefined || Array.isArray(value.items))
+}
+
+export function isTrainingSeries(value: unknown): value is TrainingSeries {
+  return hasStringFields(value, 'id', 'startTime', 'startDate', 'endDate') && Array.isArray(value.weekdays)
+}
+
+export function isMatchdayCarpool(value: unknown): value is MatchdayCarpool {
+  return isRecord(value) && Array.isArray(value.offers) && Array.isArray(value.requests)
+}
+
+export function isPlayerInvitationStatus(value: unknown): value is PlayerInvitationStatusResponse {
+  return hasStringFields(value, 'status')
+}
+
+export function isClubCoach(value: unknown): value is ClubCoach {
+  return hasStringFields(value, 'id') && typeof value.email === 'string'
+}
+
+export function isInvitationDetails(value: unknown): value is InvitationDetails {
+  return hasStringFields(value, 'id', 'email', 'role', 'status')
+}
+
+export function isLinkedChild(value: unknown): value is LinkedChild {
+  return hasStringFields(value, 'id')
+}
+
+export function isTeamMessage(value: unknown): value is TeamMessage {
+  return hasStringFields(value, 'id', 'createdAt') && typeof value.content === 'string'
+}
+
+export function validateWith<T>(guard: (value: unknown) => value is T, label: string): ResponseValidator<T> {
+  return (value) => {
+    if (guard(value)) return value
+    throw new ResponseValidationError(`Réponse inattendue du serveur (${label}).`, value)
+  }
+}
+
+// Accepts legacy plain arrays as well as `{ items }` envelopes, and drops malformed rows
+// instead of failing the whole list.
+export function validateListOf<T>(guard: (value: unknown) => value is T, label: string): ResponseValidator<T[]> {
+  return (value) => {
+    const items = Array.isArray(value)
+      ? value
+      : isRecord(value) && Array.isArray(value.items) ? value.items : null
+    if (!items) throw new ResponseValidationError(`Réponse inattendue du serveur (${label}).`, value)
+    return items.filter(guard)
+  }
+}
+
+export function validateMatch(value: unknown): MatchLite {
+  if (!isMatchLite(value)) throw new ResponseValidationError('Réponse inattendue du serveur (match).', value)
+  return { ...value, scorers: Array.isArray(value.scorers) ? value.scorers : [] }
+}
+
+export function validateMatchDetails(value: unknown): MatchDetails {
+  const match = validateMatch(value)
+  const rawPlayers = isRecord(value) && isRecord(value.playersById) ? value.playersById : {}
+  const playersById = Object.fromEntries(
+    Object.entries(rawPlayers).filter((entry): entry is [string, Player] => isPlayer(entry[1])),
+  )
+  return { ...match, playersById }
+}
+
+export function validateCount(value: unknown): { count: number } {
+  const count = isRecord(value) ? Number(value.count) : Number.NaN
+  if (!Number.isFinite(count)) throw new ResponseValidationError('Réponse inattendue du serveur (compteur).', value)
+  return { count: Math.max(0, count) }
+}
+
+// Summary bodies differ per page; only the matchday envelope (or its legacy `plateau` name) is checked.
+export function validateMatchdaySummary<T extends { matchday: Matchday }>(value: unknown): T {
+  const matchday = isRecord(value) ? value.matchday ?? value.plateau : null
+  if (!isMatchday(matchday)) throw new ResponseValidationError('Réponse inattendue du serveur (plateau).', value)
+  return normalizeMatchdayPayload<T>(value)
+}
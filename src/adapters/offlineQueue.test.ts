@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest'
+import { HttpError } from '../http'
+import {
+  enqueueMutation,
+  isCacheableGet,
+  isQueueableMutation,
+  offlineCacheKey,
+  queueOfflineMutation,
+  readOfflineQueueStatus,
+  readResourceVersion,
+  recordSuccessfulWrite,
+  replayMutations,
+  resolveConflicts,
+} from './offlineQueue'
+import { createMemoryOfflineStore } from './offlineStore'
+
+describe('offline queue policy', () => {
+  it('caches roster, matchday and training reads only', () => {
+    expect(isCacheableGet('/players?limit=100&offset=0')).toBe(true)
+    expect(isCacheableGet('/matchday/abc/summary')).toBe(true)
+    expect(isCacheableGet('/trainings')).toBe(true)
+    expect(isCacheableGet('/team-messages')).toBe(false)
+    expect(isCacheableGet('/playersX')).toBe(false)
+    expect(isCacheableGet('/matches/m1')).toBe(true)
+    expect(isCacheableGet('/matches/m1/live-state?_=1')).toBe(false)
+    expect(isCacheableGet('/matches/live-states?ids=m1,m2')).toBe(false)
+  })
+
+  it('queues attendance toggles, training intents and match score edits', () => {
+    expect(isQueueableMutation('POST', '/attendance')).toBe(true)
+    expect(isQueueableMutation('post', '/trainings/t1/intent')).toBe(true)
+    expect(isQueueableMutation('PUT', '/matches/m1')).toBe(true)
+    expect(isQueueableMutation('DELETE', '/matches/m1')).toBe(false)
+    expect(isQueueableMutation('POST', '/players')).toBe(false)
+  })
+
+  it('scopes cache keys by account and team', () => {
+    expect(offlineCacheKey('/players', 'team-1', 'u1')).toBe('u1:team-1:/players')
+    expect(offlineCacheKey('/players', null, null)).toBe('anonymous:all:/players')
+    expect(offlineCacheKey('/players', 'team-1', 'u2')).not.toBe(offlineCacheKey('/players', 'team-1', 'u1'))
+  })
+
+  it('reads updatedAt or falls back to a stable content hash', () => {
+    expect(readResourceVersion({ id: 'm1', updatedAt: '2026-01-01T10:00:00Z' })).toBe('2026-01-01T10:00:00Z')
+    expect(readResourceVersion({ b: 1, a: 2 })).toBe(readResourceVersion({ a: 2, b: 1 }))
+    expect(readResourceVersion({ a: 1 })).not.toBe(readResourceVersion({ a: 2 }))
+    expect(readResourceVersion([])).toBeNull()
+  })
+})
+
+describe('enqueueMutation', () => {
+  it('collapses successive offline edits of the same resource', async () => {
+    const store = createMemoryOfflineStore()
+    await enqueueMutation(store, { method: 'PUT', path: '/matches/m1', body: { score: 1 }, userId: 'u1', teamId: null, baseVersion: 'v1' }, 1)
+    await enqueueMutation(store, { method: 'PUT', path: '/matches/m1', body: { score: 2 }, userId: 'u1', teamId: null, baseVersion: 'v2' }, 2)
+    const mutations = await store.listMutations()
+    expect(mutations).toHaveLength(1)
+    expect(mutations[0]).toMatchObject({ body: { score: 2 }, baseVersion: 'v1' })
+  })
+})
+
+describe('replayMutations', () => {
+  it('sends pending mutations in order and empties the queue', async () => {
+    const store = createMemoryOfflineStore()
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: { present: true }, userId: 'u1', teamId: 't1', baseVersion: null }, 1)
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: { present: false }, userId: 'u1', teamId: 't1', baseVersion: null }, 2)
+    const send = vi.fn().mockResolvedValue({})
+    const summary = await replayMutations(store, 'u1', { send, fetchCurrent: vi.fn() })
+    expect(send.mock.calls.map(([mutation]) => mutation.body)).toEqual([{ present: true }, { present: false }])
+    expect(summary).toEqual({ pendingCount: 0, conflictCount: 0, sentCount: 2, interrupted: false })
+  })
+
+  it('parks a mutation as conflict when the server copy changed', async () => {
+    const store = createMemoryOfflineStore()
+    await enqueueMutation(store, { method: 'PUT', path: '/matches/m1', body: {}, userId: 'u1', teamId: null, baseVersion: 'v1' })
+    const send = vi.fn()
+    const summary = await replayMutations(store, 'u1', { send, fetchCurrent: vi.fn().mockResolvedValue({ updatedAt: 'v2' }) })
+    expect(send).not.toHaveBeenCalled()
+    expect(summary.conflictCount).toBe(1)
+
+    await resolveConflicts(store, 'overwrite')
+    expect(await readOfflineQueueStatus(store)).toEqual({ pendingCount: 1, conflictCount: 0 })
+    expect((await store.listMutations())[0].baseVersion).toBeNull()
+  })
+
+  it('stops on network errors and keeps the remaining mutations', async () => {
+    const store = createMemoryOfflineStore()
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: {}, userId: 'u1', teamId: null, baseVersion: null }, 1)
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: {}, userId: 'u1', teamId: null, baseVersion: null }, 2)
+    const summary = await replayMutations(store, 'u1', {
+      send: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+      fetchCurrent: vi.fn(),
+    })
+    expect(summary).toMatchObject({ pendingCount: 2, interrupted: true, sentCount: 0 })
+  })
+
+  it('only replays the writes queued by the signed-in account', async () => {
+    const store = createMemoryOfflineStore()
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: { present: true }, userId: 'u1', teamId: 't1', baseVersion: null }, 1)
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: { present: false }, userId: 'u2', teamId: 't1', baseVersion: null }, 2)
+    const send = vi.fn().mockResolvedValue({})
+    const summary = await replayMutations(store, 'u2', { send, fetchCurrent: vi.fn() })
+    expect(send.mock.calls.map(([mutation]) => mutation.body)).toEqual([{ present: false }])
+    expect(summary).toMatchObject({ sentCount: 1, pendingCount: 1 })
+  })
+
+  it('drops mutations whose target no longer exists', async () => {
+    const store = createMemoryOfflineStore()
+    await enqueueMutation(store, { method: 'PUT', path: '/matches/gone', body: {}, userId: 'u1', teamId: null, baseVersion: null })
+    const summary = await replayMutations(store, 'u1', {
+      send: vi.fn().mockRejectedValue(new HttpError(404, 'not found')),
+      fetchCurrent: vi.fn(),
+    })
+    expect(summary).toMatchObject({ pendingCount: 0, conflictCount: 0 })
+  })
+})
+
+describe('recordSuccessfulWrite', () => {
+  const key = offlineCacheKey('/matches/m1', 't1', 'u1')
+
+  it('does not report the coach own online edit as a conflict on replay', async () => {
+    const store = createMemoryOfflineStore()
+    await store.writeResponse({ key, data: { id: 'm1', updatedAt: 'v1' }, storedAt: 1 })
+
+    // Online write: the server answers with the new version.
+    await recordSuccessfulWrite(store, { method: 'PUT', path: '/matches/m1', teamId: 't1', userId: 'u1', response: { id: 'm1', updatedAt: 'v2' } })
+    // Offline write to the same match, replayed once the network is back.
+    const queued = await queueOfflineMutation(store, { method: 'PUT', path: '/matches/m1', body: { score: 3 }, userId: 'u1', teamId: 't1' })
+    expect(queued.baseVersion).toBe('v2')
+
+    const send = vi.fn().mockResolvedValue({ id: 'm1', updatedAt: 'v3' })
+    const summary = await replayMutations(store, 'u1', { send, fetchCurrent: vi.fn().mockResolvedValue({ id: 'm1', updatedAt: 'v2' }) })
+    expect(summary).toMatchObject({ sentCount: 1, conflictCount: 0, pendingCount: 0 })
+    expect((await store.readResponse(key))?.data).toEqual({ id: 'm1', updatedAt: 'v3' })
+  })
+
+  it('drops the cached read when the answer carries no version', async () => {
+    const store = createMemoryOfflineStore()
+    await store.writeResponse({ key, data: { id: 'm1', score: 1 }, storedAt: 1 })
+    await recordSuccessfulWrite(store, { method: 'PUT', path: '/matches/m1', teamId: 't1', userId: 'u1', response: { id: 'm1', score: 2 } })
+    expect(await store.readResponse(key)).toBeNull()
+    const queued = await queueOfflineMutation(store, { method: 'PUT', path: '/matches/m1', body: {}, userId: 'u1', teamId: 't1' })
+    expect(queued.baseVersion).toBeNull()
+  })
+})
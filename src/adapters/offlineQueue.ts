@@ -0,0 +1,218 @@
+import { HttpError } from '../http'
+import type { OfflineStore, QueuedMutation, QueuedMutationMethod } from './offlineStore'
+
+export const OFFLINE_QUEUE_UPDATED_EVENT = 'izifoot:offline-queue-updated'
+
+const CACHEABLE_GET_PREFIXES = ['/players', '/matchday', '/matches', '/trainings', '/attendance']
+
+// A stale live state served as fresh would be merged back by the live sync (and could reopen a finished
+// session): offline, the sync must see it as unreachable instead.
+const UNCACHEABLE_GET_PATTERNS = [/\/live-states?$/]
+
+const QUEUEABLE_MUTATIONS: Array<{ method: QueuedMutationMethod; pattern: RegExp }> = [
+  { method: 'POST', pattern: /^\/attendance$/ },
+  { method: 'POST', pattern: /^\/trainings\/[^/?]+\/intent$/ },
+  { method: 'PUT', pattern: /^\/matches\/[^/?]+$/ },
+]
+
+export type OfflineQueueStatus = {
+  pendingCount: number
+  conflictCount: number
+}
+
+export type OfflineReplaySummary = OfflineQueueStatus & {
+  sentCount: number
+  interrupted: boolean
+}
+
+export class OfflineQueuedError extends Error {
+  mutationId: string
+
+  constructor(mutationId: string) {
+    super('Hors connexion : la modification sera synchronisée au retour du réseau.')
+    this.name = 'OfflineQueuedError'
+    this.mutationId = mutationId
+  }
+}
+
+function stripQuery(path: string) {
+  const index = path.indexOf('?')
+  return index >= 0 ? path.slice(0, index) : path
+}
+
+export function isCacheableGet(path: string): boolean {
+  const pathname = stripQuery(path)
+  if (UNCACHEABLE_GET_PATTERNS.some((pattern) => pattern.test(pathname))) return false
+  return CACHEABLE_GET_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+}
+
+export function isQueueableMutation(method: string, path: string): boolean {
+  const normalizedMethod = method.toUpperCase()
+  const pathname = stripQuery(path)
+  return QUEUEABLE_MUTATIONS.some((rule) => rule.method === normalizedMethod && rule.pattern.test(pathname))
+}
+
+// Cached reads hold roster and medical data: a key never matches across accounts, nor across teams.
+export function offlineCacheKey(path: string, teamId: string | null, userId: string | null): string {
+  return `${userId || 'anonymous'}:${teamId || 'all'}:${path}`
+}
+
+// fetch() rejects with a TypeError when the network is unreachable; HTTP errors come back as HttpError.
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function hashString(value: string): string {
+  let hash = 5381
+  for (let index = 0; index < value.length; index += 1) {
+    hash = ((hash << 5) + hash + value.charCodeAt(index)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
+function readExplicitVersion(raw: Record<string, unknown>): string | null {
+  for (const key of ['updatedAt', 'updated_at', 'version']) {
+    const value = raw[key]
+    if (typeof value === 'string' && value.trim()) return value
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+  }
+  return null
+}
+
+export function readResourceVersion(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null
+  const raw = data as Record<string, unknown>
+  return readExplicitVersion(raw) ?? `hash:${hashString(stableStringify(raw))}`
+}
+
+// A successful write makes the cached read of the resource stale, and queued edits take their base
+// version from that cache. A PUT answer carrying its version replaces the cached read; otherwise the
+// entry is dropped, since a content hash of the write answer may not match the hash of the read.
+export async function recordSuccessfulWrite(
+  store: OfflineStore,
+  write: { method: QueuedMutationMethod; path: string; teamId: string | null; userId: string | null; response: unknown },
+  now = Date.now(),
+): Promise<void> {
+  if (!isCacheableGet(write.path)) return
+  const key = offlineCacheKey(write.path, write.teamId, write.userId)
+  const response = write.response
+  const isResource = Boolean(response) && typeof response === 'object' && !Array.isArray(response)
+  if (write.method === 'PUT' && isResource && readExplicitVersion(response as Record<string, unknown>)) {
+    await store.writeResponse({ key, data: response, storedAt: now })
+    return
+  }
+  await store.deleteResponse(key)
+}
+
+// The base version is the one the coach last saw, read from the cached GET of the same path.
+export async function queueOfflineMutation(
+  store: OfflineStore,
+  input: Pick<QueuedMutation, 'method' | 'path' | 'body' | 'userId' | 'teamId'>,
+  now = Date.now(),
+): Promise<QueuedMutation> {
+  const cached = input.method === 'POST'
+    ? null
+    : await store.readResponse(offlineCacheKey(input.path, input.teamId, input.userId)).catch(() => null)
+  return enqueueMutation(store, { ...input, baseVersion: cached ? readResourceVersion(cached.data) : null }, now)
+}
+
+export async function enqueueMutation(
+  store: OfflineStore,
+  input: Pick<QueuedMutation, 'method' | 'path' | 'body' | 'userId' | 'teamId' | 'baseVersion'>,
+  now = Date.now(),
+): Promise<QueuedMutation> {
+  const existing = await store.listMutations()
+  // Deux modifications hors ligne de la même ressource: seule la dernière compte (sauf pour les créations).
+  if (input.method === 'PUT') {
+    const previous = existing.find((item) => (
+      item.method === 'PUT' && item.path === input.path && item.userId === input.userId && item.status === 'pending'
+    ))
+    if (previous) {
+      const merged = { ...previous, body: input.body, createdAt: now }
+      await store.saveMutation(merged)
+      return merged
+    }
+  }
+  const mutation: QueuedMutation = {
+    ...input,
+    id: `mut-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+    status: 'pending',
+    error: null,
+  }
+  await store.saveMutation(mutation)
+  return mutation
+}
+
+export async function readOfflineQueueStatus(store: OfflineStore): Promise<OfflineQueueStatus> {
+  const mutations = await store.listMutations()
+  return {
+    pendingCount: mutations.filter((item) => item.status === 'pending').length,
+    conflictCount: mutations.filter((item) => item.status === 'conflict').length,
+  }
+}
+
+// Replays the pending mutations of the signed-in account in order. A mutation whose target changed on
+// the server since it was queued is parked as a conflict instead of overwriting someone else's edit.
+export async function replayMutations(
+  store: OfflineStore,
+  userId: string | null,
+  handlers: {
+    send: (mutation: QueuedMutation) => Promise<unknown>
+    fetchCurrent: (mutation: QueuedMutation) => Promise<unknown>
+  },
+): Promise<OfflineReplaySummary> {
+  let sentCount = 0
+  let interrupted = false
+  for (const mutation of await store.listMutations()) {
+    if (mutation.status !== 'pending' || mutation.userId !== userId) continue
+    try {
+      if (mutation.baseVersion) {
+        const current = await handlers.fetchCurrent(mutation)
+        const currentVersion = readResourceVersion(current)
+        if (currentVersion && currentVersion !== mutation.baseVersion) {
+          await store.saveMutation({ ...mutation, status: 'conflict', error: 'Modifiée sur le serveur entre-temps.' })
+          continue
+        }
+      }
+      const response = await handlers.send(mutation)
+      await store.deleteMutation(mutation.id)
+      await recordSuccessfulWrite(store, { ...mutation, response }).catch(() => undefined)
+      sentCount += 1
+    } catch (err: unknown) {
+      if (isNetworkError(err)) {
+        interrupted = true
+        break
+      }
+      if (err instanceof HttpError && err.status === 404) {
+        await store.deleteMutation(mutation.id)
+        continue
+      }
+      await store.saveMutation({
+        ...mutation,
+        status: 'conflict',
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+  return { ...(await readOfflineQueueStatus(store)), sentCount, interrupted }
+}
+
+export async function resolveConflicts(store: OfflineStore, strategy: 'discard' | 'overwrite') {
+  for (const mutation of await store.listMutations()) {
+    if (mutation.status !== 'conflict') continue
+    if (strategy === 'discard') await store.deleteMutation(mutation.id)
+    else await store.saveMutation({ ...mutation, status: 'pending', baseVersion: null, error: null })
+  }
+}
@@ -0,0 +1,141 @@
+export type QueuedMutationMethod = 'POST' | 'PUT' | 'DELETE'
+
+export type QueuedMutation = {
+  id: string
+  method: QueuedMutationMethod
+  path: string
+  body?: unknown
+  // Account that queued the write: it is only replayed under that account's session.
+  userId: string | null
+  teamId: string | null
+  baseVersion: string | null
+  createdAt: number
+  status: 'pending' | 'conflict'
+  error?: string | null
+}
+
+export type CachedResponse = {
+  key: string
+  data: unknown
+  storedAt: number
+}
+
+export type OfflineStore = {
+  readResponse: (key: string) => Promise<CachedResponse | null>
+  writeResponse: (entry: CachedResponse) => Promise<void>
+  deleteResponse: (key: string) => Promise<void>
+  listMutations: () => Promise<QueuedMutation[]>
+  saveMutation: (mutation: QueuedMutation) => Promise<void>
+  deleteMutation: (id: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+const DB_NAME = 'izifoot-offline'
+const DB_VERSION = 1
+const RESPONSES_STORE = 'responses'
+const MUTATIONS_STORE = 'mutations'
+
+function sortByCreation(mutations: QueuedMutation[]) {
+  return mutations.slice().sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id))
+}
+
+export function createMemoryOfflineStore(): OfflineStore {
+  const responses = new Map<string, CachedResponse>()
+  const mutations = new Map<string, QueuedMutation>()
+  return {
+    async readResponse(key) {
+      return responses.get(key) ?? null
+    },
+    async writeResponse(entry) {
+      responses.set(entry.key, entry)
+    },
+    async deleteResponse(key) {
+      responses.delete(key)
+    },
+    async listMutations() {
+      return sortByCreation(Array.from(mutations.values()))
+    },
+    async saveMutation(mutation) {
+      mutations.set(mutation.id, mutation)
+    },
+    async deleteMutation(id) {
+      mutations.delete(id)
+    },
+    async clear() {
+      responses.clear()
+      mutations.clear()
+    },
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function createIndexedDbOfflineStore(factory: IDBFactory): OfflineStore {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  function openDb() {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = factory.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(RESPONSES_STORE)) db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' })
+          if (!db.objectStoreNames.contains(MUTATIONS_STORE)) db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return dbPromise
+  }
+
+  async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+    const db = await openDb()
+    return promisifyRequest(run(db.transaction(name, mode).objectStore(name)))
+  }
+
+  return {
+    async readResponse(key) {
+      const entry = await withStore<CachedResponse | undefined>(RESPONSES_STORE, 'readonly', (store) => store.get(key))
+      return entry ?? null
+    },
+    async writeResponse(entry) {
+      await withStore(RESPONSES_STORE, 'readwrite', (store) => store.put(entry))
+    },
+    async deleteResponse(key) {
+      await withStore(RESPONSES_STORE, 'readwrite', (store) => store.delete(key))
+    },
+    async listMutations() {
+      return sortByCreation(await withStore<QueuedMutation[]>(MUTATIONS_STORE, 'readonly', (store) => store.getAll()))
+    },
+    async saveMutation(mutation) {
+      await withStore(MUTATIONS_STORE, 'readwrite', (store) => store.put(mutation))
+    },
+    async deleteMutation(id) {
+      await withStore(MUTATIONS_STORE, 'readwrite', (store) => store.delete(id))
+    },
+    async clear() {
+      await withStore(RESPONSES_STORE, 'readwrite', (store) => store.clear())
+      await withStore(MUTATIONS_STORE, 'readwrite', (store) => store.clear())
+    },
+  }
+}
+
+let sharedStore: OfflineStore | null = null
+
+export function getOfflineStore(): OfflineStore {
+  if (!sharedStore) {
+    sharedStore = typeof indexedDB !== 'undefined'
+      ? createIndexedDbOfflineStore(indexedDB)
+      : createMemoryOfflineStore()
+  }
+  return sharedStore
+}
@@ -14,6 +14,7 @@ import {
   normalizePaginatedResponse,
   withPagination,
 } from './pagination'
+import { validateListOf } from './apiValidation'
 
 type Item = { id: string; label: string }
 
@@ -110,4 +111,28 @@ describe('pagination adapter', () => {
     ])
     expect(apiGetMock).toHaveBeenCalledTimes(2)
   })
+
+  it('apiGetAllItems validates every page of an endpoint without losing the offset', async () => {
+    apiGetMock
+      .mockResolvedValueOnce({
+        items: [{ id: '1', label: 'A' }, { id: '', label: 'broken' }],
+        pagination: { limit: 2, offset: 0, returned: 2 },
+      })
+      .mockResolvedValueOnce({
+        items: [{ id: '3', label: 'C' }],
+        pagination: { limit: 2, offset: 2, returned: 1 },
+      })
+    const endpoint = {
+      method: 'GET' as const,
+      path: '/players?rosterStatus=all',
+      validate: validateListOf((value: unknown): value is Item => Boolean((value as Item).id), 'items'),
+    }
+
+    const { signal } = new AbortController()
+
+    const result = await apiGetAllItems(endpoint, { limit: 2, signal })
+
+    expect(result).toEqual([{ id: '1', label: 'A' }, { id: '3', label: 'C' }])
+    expect(apiGetMock).toHaveBeenLastCalledWith('/players?rosterStatus=all&limit=2&offset=2', { signal })
+  })
 })
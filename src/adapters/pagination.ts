@@ -1,4 +1,5 @@
 import { apiGet } from '../apiClient'
+import type { ApiEndpoint } from '../apiEndpoints'
 import type { Drill, DrillsResponse, PaginationMeta, PaginatedResponse } from '../types/api'
 
 type PaginationInput = {
@@ -109,16 +110,22 @@ export function mergeById<T extends { id: string }>(existing: T[], incoming: T[]
   return Array.from(map.values())
 }
 
+// Takes a plain path, or a list endpoint whose validator then checks the items of every page.
 export async function apiGetAllItems<T>(
-  path: string,
-  options: { limit?: number; maxPages?: number } = {},
+  source: string | ApiEndpoint<T[]>,
+  options: { limit?: number; maxPages?: number; signal?: AbortSignal } = {},
 ): Promise<T[]> {
   const limit = options.limit ?? 100
   const maxPages = options.maxPages ?? 50
+  const path = typeof source === 'string' ? source : source.path
+  const readItems = (raw: unknown, offset: number): PaginatedResponse<T> => {
+    const normalized = normalizePaginatedResponse<T>(raw, { limit, offset })
+    return typeof source === 'string' ? normalized : { ...normalized, items: source.validate(raw) }
+  }
 
   const firstPath = withPagination(path, { limit, offset: 0 })
-  const firstRaw = await apiGet<unknown>(firstPath)
-  const first = normalizePaginatedResponse<T>(firstRaw, { limit, offset: 0 })
+  const firstRaw = await apiGet<unknown>(firstPath, { signal: options.signal })
+  const first = readItems(firstRaw, 0)
 
   if (!hasExplicitPagination(firstRaw)) {
     return first.items
@@ -130,8 +137,8 @@ export async function apiGetAllItems<T>(
 
   while (canLoadMore(pagination) && pageCount < maxPages) {
     const offset = nextOffset(pagination)
-    const raw = await apiGet<unknown>(withPagination(path, { limit, offset }))
-    const page = normalizePaginatedResponse<T>(raw, { limit, offset })
+    const raw = await apiGet<unknown>(withPagination(path, { limit, offset }), { signal: options.signal })
+    const page = readItems(raw, offset)
     all.push(...page.items)
     pagination = page.pagination
     pageCount += 1
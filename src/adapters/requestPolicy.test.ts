@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest'
+import { HttpError } from '../http'
+import { backoffDelay, createInFlightDeduper, isRetryableError, withRetry } from './requestPolicy'
+
+const noSleep = () => Promise.resolve()
+
+describe('request policy', () => {
+  it('retries gateway errors, rate limits and network failures only', () => {
+    expect(isRetryableError(new HttpError(503, 'unavailable'))).toBe(true)
+    expect(isRetryableError(new HttpError(429, 'slow down'))).toBe(true)
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isRetryableError(new HttpError(400, 'bad request'))).toBe(false)
+    expect(isRetryableError(new HttpError(500, 'boom'))).toBe(false)
+  })
+
+  it('backs off exponentially', () => {
+    expect([0, 1, 2].map((attempt) => backoffDelay(attempt, 300))).toEqual([300, 900, 2700])
+  })
+})
+
+describe('withRetry', () => {
+  it('returns the first successful attempt', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new HttpError(502, 'bad gateway'))
+      .mockResolvedValueOnce('ok')
+    await expect(withRetry(run, { retries: 2, baseDelayMs: 1, sleep: noSleep })).resolves.toBe('ok')
+    expect(run).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up after the retry budget', async () => {
+    const run = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+    await expect(withRetry(run, { retries: 2, baseDelayMs: 1, sleep: noSleep })).rejects.toBeInstanceOf(TypeError)
+    expect(run).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry client errors', async () => {
+    const run = vi.fn().mockRejectedValue(new HttpError(404, 'not found'))
+    await expect(withRetry(run, { retries: 2, baseDelayMs: 1, sleep: noSleep })).rejects.toBeInstanceOf(HttpError)
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops retrying once the caller aborts', async () => {
+    const controller = new AbortController()
+    const run = vi.fn().mockImplementation(() => {
+      controller.abort()
+      return Promise.reject(new TypeError('Failed to fetch'))
+    })
+    await expect(withRetry(run, { retries: 2, baseDelayMs: 1, signal: controller.signal, sleep: noSleep })).rejects.toBeInstanceOf(TypeError)
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('createInFlightDeduper', () => {
+  it('shares one request between concurrent callers and releases it afterwards', async () => {
+    const dedupe = createInFlightDeduper()
+    const run = vi.fn().mockResolvedValue('players')
+    const [a, b] = await Promise.all([dedupe('/players', run), dedupe('/players', run)])
+    expect([a, b]).toEqual(['players', 'players'])
+    expect(run).toHaveBeenCalledTimes(1)
+
+    await dedupe('/players', run)
+    expect(run).toHaveBeenCalledTimes(2)
+  })
+})
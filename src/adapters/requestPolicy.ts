@@ -0,0 +1,75 @@
+import { HttpError } from '../http'
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+
+type RetryOptions = {
+  retries: number
+  baseDelayMs: number
+  signal?: AbortSignal
+  shouldRetry?: (err: unknown) => boolean
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError')
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof HttpError) return RETRYABLE_STATUSES.has(err.status)
+  return err instanceof TypeError
+}
+
+export function backoffDelay(attempt: number, baseDelayMs: number): number {
+  return baseDelayMs * 3 ** attempt
+}
+
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal))
+      return
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    function onAbort() {
+      clearTimeout(timeoutId)
+      reject(abortReason(signal as AbortSignal))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export async function withRetry<T>(run: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isRetryableError
+  const sleep = options.sleep ?? abortableSleep
+  let attempt = 0
+  for (;;) {
+    try {
+      return await run()
+    } catch (err: unknown) {
+      if (attempt >= options.retries || options.signal?.aborted || !shouldRetry(err)) throw err
+      await sleep(backoffDelay(attempt, options.baseDelayMs), options.signal)
+      attempt += 1
+    }
+  }
+}
+
+// Concurrent callers asking for the same key share one in-flight promise.
+export function createInFlightDeduper() {
+  const inFlight = new Map<string, Promise<unknown>>()
+  return function dedupe<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const existing = inFlight.get(key)
+    if (existing) return existing as Promise<T>
+    const promise = run().finally(() => {
+      inFlight.delete(key)
+    })
+    inFlight.set(key, promise)
+    return promise
+  }
+}
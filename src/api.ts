@@ -1,36 +1,10 @@
 // src/api.ts
+import { requestJson } from './apiClient'
 import { apiRoutes } from './apiRoutes'
+import { API_BASE, HttpError } from './http'
 import { normalizeManagedTeamIds, normalizeRole, normalizeString, type AccountRole } from './authz'
 
-const rawApiBase =
-  import.meta.env?.VITE_API_URL ??
-  import.meta.env?.VITE_API_BASE ??
-  import.meta.env?.VITE_API_BASE_URL
-
-const DEFAULT_API_BASE = 'https://api.izifoot.fr'
-
-export class HttpError extends Error {
-  status: number
-  details?: unknown
-  url?: string
-  method?: string
-
-  constructor(status: number, message: string, options?: { details?: unknown; url?: string; method?: string }) {
-    super(message)
-    this.name = 'HttpError'
-    this.status = status
-    this.details = options?.details
-    this.url = options?.url
-    this.method = options?.method
-  }
-}
-
-function resolveApiBase(): string {
-  if (rawApiBase) return String(rawApiBase).replace(/\/+$/, '')
-  return DEFAULT_API_BASE
-}
-
-export const API_BASE = resolveApiBase()
+export { API_BASE, HttpError } from './http'
 
 export type Me = {
   id: string
@@ -74,46 +48,8 @@ function normalizeMe(input: unknown): Me {
   }
 }
 
-async function parseError(res: Response): Promise<{ message: string; raw: unknown }> {
-  const contentType = res.headers.get('content-type') || ''
-
-  if (contentType.includes('application/json')) {
-    const json = await res.json().catch(() => null)
-    const msg = (json && typeof json === 'object' ? (json as { error?: unknown; message?: unknown }) : null)
-    if (typeof msg?.error === 'string' && msg.error.trim()) return { message: msg.error, raw: json }
-    if (typeof msg?.message === 'string' && msg.message.trim()) return { message: msg.message, raw: json }
-    return { message: `HTTP ${res.status}`, raw: json }
-  }
-
-  const text = await res.text().catch(() => '')
-  if (text.trim()) return { message: text, raw: text }
-
-  if (res.status === 403) return { message: 'Accès non autorisé pour ce rôle', raw: null }
-  if (res.status === 401) return { message: 'Session expirée. Veuillez vous reconnecter.', raw: null }
-  return { message: `HTTP ${res.status}`, raw: null }
-}
-
-async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
-  const url = `${API_BASE}${path}`
-  const method = typeof options.method === 'string' ? options.method.toUpperCase() : 'GET'
-  const res = await fetch(url, {
-    credentials: 'include',
-    headers: { 'Content-Type': 'application/json', ...(options.headers || {}) },
-    ...options,
-  })
-
-  if (!res.ok) {
-    if (res.status === 401 && typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('izifoot:unauthorized'))
-    }
-    const parsed = await parseError(res)
-    if (typeof window !== 'undefined') {
-      console.error('[API] HTTP error', { url, method, status: res.status, response: parsed.raw })
-    }
-    throw new HttpError(res.status, parsed.message, { details: parsed.raw, url, method })
-  }
-
-  return res.json()
+function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  return requestJson<T>(path, options)
 }
 
 export const api = {
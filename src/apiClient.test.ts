@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { enqueueMutation, offlineCacheKey } from './adapters/offlineQueue'
+import { getOfflineStore } from './adapters/offlineStore'
+import { clearOfflineSession } from './apiClient'
+
+describe('clearOfflineSession', () => {
+  it('empties the cached reads and the queued writes on logout', async () => {
+    const store = getOfflineStore()
+    const key = offlineCacheKey('/players', 't1', 'u1')
+    await store.writeResponse({ key, data: [{ id: 'p1', medicalNote: 'Entorse' }], storedAt: 1 })
+    await enqueueMutation(store, { method: 'POST', path: '/attendance', body: { present: true }, userId: 'u1', teamId: 't1', baseVersion: null })
+
+    await clearOfflineSession()
+
+    expect(await store.readResponse(key)).toBeNull()
+    expect(await store.listMutations()).toEqual([])
+  })
+})
@@ -1,8 +1,45 @@
-import { API_BASE, HttpError } from './api'
+import { API_BASE, HttpError, parseErrorResponse } from './http'
+import type { ResponseValidator } from './adapters/apiValidation'
+import {
+  OFFLINE_QUEUE_UPDATED_EVENT,
+  OfflineQueuedError,
+  isCacheableGet,
+  isNetworkError,
+  isQueueableMutation,
+  offlineCacheKey,
+  queueOfflineMutation,
+  recordSuccessfulWrite,
+  replayMutations,
+  type OfflineReplaySummary,
+} from './adapters/offlineQueue'
+import { getOfflineStore, type QueuedMutation, type QueuedMutationMethod } from './adapters/offlineStore'
+import { createInFlightDeduper, withRetry } from './adapters/requestPolicy'
+import type { ApiEndpoint } from './apiEndpoints'
+
+export { API_BASE, HttpError }
+
+const GET_RETRIES = 2
+const GET_RETRY_BASE_DELAY_MS = 300
+
+export type ApiRequestOptions = {
+  signal?: AbortSignal
+}
+
+const dedupeGet = createInFlightDeduper()
+
+const OFFLINE_USER_STORAGE_KEY = 'izifoot.offlineUserId'
+
+function readActiveTeamId(): string | null {
+  return typeof localStorage !== 'undefined' ? localStorage.getItem('izifoot.activeTeamId') : null
+}
+
+function readOfflineUserId(): string | null {
+  return typeof localStorage !== 'undefined' ? localStorage.getItem(OFFLINE_USER_STORAGE_KEY) : null
+}
 
 function authHeaders(): Record<string, string> {
   const token = typeof localStorage !== 'undefined' ? localStorage.getItem('token') : null
-  const activeTeamId = typeof localStorage !== 'undefined' ? localStorage.getItem('izifoot.activeTeamId') : null
+  const activeTeamId = readActiveTeamId()
   const headers: Record<string, string> = {}
   if (token) headers.Authorization = `Bearer ${token}`
   if (activeTeamId) {
@@ -23,95 +60,143 @@ function buildUrl(path: string, cacheBust: boolean): string {
   return cacheBust ? withCacheBust(raw) : raw
 }
 
-async function parseError(res: Response): Promise<string> {
-  const contentType = res.headers.get('content-type') || ''
-
-  if (contentType.includes('application/json')) {
-    const json = await res.json().catch(() => null)
-    const msg = (json && typeof json === 'object' ? (json as { error?: unknown; message?: unknown }) : null)
-    if (typeof msg?.error === 'string' && msg.error.trim()) return msg.error
-    if (typeof msg?.message === 'string' && msg.message.trim()) return msg.message
-  }
-
-  const text = await res.text().catch(() => '')
-  if (text.trim()) return text
-
-  if (res.status === 403) return 'Accès non autorisé pour ce rôle'
-  if (res.status === 401) return 'Session expirée. Veuillez vous reconnecter.'
-  return `HTTP ${res.status}`
-}
-
-async function parseErrorWithRaw(res: Response): Promise<{ message: string; raw: unknown }> {
-  const contentType = res.headers.get('content-type') || ''
-
-  if (contentType.includes('application/json')) {
-    const json = await res.json().catch(() => null)
-    const msg = (json && typeof json === 'object' ? (json as { error?: unknown; message?: unknown }) : null)
-    if (typeof msg?.error === 'string' && msg.error.trim()) return { message: msg.error, raw: json }
-    if (typeof msg?.message === 'string' && msg.message.trim()) return { message: msg.message, raw: json }
-    return { message: `HTTP ${res.status}`, raw: json }
-  }
-
-  const text = await res.text().catch(() => '')
-  if (text.trim()) return { message: text, raw: text }
-
-  if (res.status === 403) return { message: 'Accès non autorisé pour ce rôle', raw: null }
-  if (res.status === 401) return { message: 'Session expirée. Veuillez vous reconnecter.', raw: null }
-  return { message: `HTTP ${res.status}`, raw: null }
-}
-
 export function apiUrl(path: string): string {
   return buildUrl(path, false)
 }
 
-async function requestJson<T>(
+export async function requestJson<T>(
   path: string,
   init: RequestInit = {},
-  options: { cacheBust?: boolean } = {}
+  options: { cacheBust?: boolean; validate?: ResponseValidator<T> } = {}
 ): Promise<T> {
-  const res = await fetch(buildUrl(path, Boolean(options.cacheBust)), {
+  const url = buildUrl(path, Boolean(options.cacheBust))
+  const method = typeof init.method === 'string' ? init.method.toUpperCase() : 'GET'
+  const { headers, ...rest } = init
+  const res = await fetch(url, {
     credentials: 'include',
     cache: 'no-store',
-    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...(init.headers || {}) },
-    ...init,
+    ...rest,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...(headers || {}) },
   })
 
   if (!res.ok) {
     if (res.status === 401 && typeof window !== 'undefined') {
       window.dispatchEvent(new CustomEvent('izifoot:unauthorized'))
     }
-    const cloned = res.clone()
-    const parsed = await parseErrorWithRaw(cloned).catch(async () => ({ message: await parseError(res), raw: null as unknown }))
+    const parsed = await parseErrorResponse(res)
     if (typeof window !== 'undefined') {
-      console.error('[API_CLIENT] HTTP error', {
-        url: buildUrl(path, Boolean(options.cacheBust)),
-        method: typeof init.method === 'string' ? init.method.toUpperCase() : 'GET',
-        status: res.status,
-        response: parsed.raw,
-      })
+      console.error('[API_CLIENT] HTTP error', { url, method, status: res.status, response: parsed.raw })
+    }
+    throw new HttpError(res.status, parsed.message, { details: parsed.raw, url, method })
+  }
+
+  const data: unknown = res.status === 204 ? null : await res.json()
+  return options.validate ? options.validate(data) : data as T
+}
+
+function notifyOfflineQueueUpdated() {
+  if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(OFFLINE_QUEUE_UPDATED_EVENT))
+}
+
+function teamHeaders(teamId: string | null): Record<string, string> {
+  return teamId ? { 'X-Team-Id': teamId, 'X-Active-Team-Id': teamId } : {}
+}
+
+function fetchGet<T>(path: string, options: ApiRequestOptions): Promise<T> {
+  const run = () => withRetry(() => requestJson<T>(path, { signal: options.signal }, { cacheBust: true }), {
+    retries: typeof navigator !== 'undefined' && navigator.onLine === false ? 0 : GET_RETRIES,
+    baseDelayMs: GET_RETRY_BASE_DELAY_MS,
+    signal: options.signal,
+  })
+  // Un appel annulable garde sa propre requête pour que l'annulation ne touche pas les autres appelants.
+  if (options.signal) return run()
+  return dedupeGet(offlineCacheKey(path, readActiveTeamId(), readOfflineUserId()), run)
+}
+
+export async function apiGet<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  const cacheKey = offlineCacheKey(path, readActiveTeamId(), readOfflineUserId())
+  try {
+    const data = await fetchGet<T>(path, options)
+    if (isCacheableGet(path)) {
+      void getOfflineStore().writeResponse({ key: cacheKey, data, storedAt: Date.now() }).catch(() => undefined)
     }
-    throw new HttpError(res.status, parsed.message, {
-      details: parsed.raw,
-      url: buildUrl(path, Boolean(options.cacheBust)),
-      method: typeof init.method === 'string' ? init.method.toUpperCase() : 'GET',
+    return data
+  } catch (err: unknown) {
+    if (!isNetworkError(err) || !isCacheableGet(path)) throw err
+    const cached = await getOfflineStore().readResponse(cacheKey).catch(() => null)
+    if (!cached) throw err
+    return cached.data as T
+  }
+}
+
+async function sendMutation<T>(
+  method: QueuedMutationMethod,
+  path: string,
+  body?: unknown,
+  options: ApiRequestOptions = {},
+): Promise<T> {
+  const teamId = readActiveTeamId()
+  const userId = readOfflineUserId()
+  let response: T
+  try {
+    response = await requestJson<T>(path, {
+      method,
+      signal: options.signal,
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
     })
+  } catch (err: unknown) {
+    if (!isNetworkError(err) || !isQueueableMutation(method, path)) throw err
+    const queued = await queueOfflineMutation(getOfflineStore(), { method, path, body, userId, teamId })
+    notifyOfflineQueueUpdated()
+    throw new OfflineQueuedError(queued.id)
   }
+  await recordSuccessfulWrite(getOfflineStore(), { method, path, teamId, userId, response }).catch(() => undefined)
+  return response
+}
 
-  return res.json()
+export function apiPost<T>(path: string, body: unknown, options?: ApiRequestOptions): Promise<T> {
+  return sendMutation<T>('POST', path, body, options)
 }
 
-export function apiGet<T>(path: string): Promise<T> {
-  return requestJson<T>(path, {}, { cacheBust: true })
+export function apiPut<T>(path: string, body: unknown, options?: ApiRequestOptions): Promise<T> {
+  return sendMutation<T>('PUT', path, body, options)
 }
 
-export function apiPost<T>(path: string, body: unknown): Promise<T> {
-  return requestJson<T>(path, { method: 'POST', body: JSON.stringify(body) })
+export function apiDelete<T = unknown>(path: string, options?: ApiRequestOptions): Promise<T> {
+  return sendMutation<T>('DELETE', path, undefined, options)
+}
+
+export async function apiCall<T>(endpoint: ApiEndpoint<T>, body?: unknown, options?: ApiRequestOptions): Promise<T> {
+  const raw = endpoint.method === 'GET'
+    ? await apiGet<unknown>(endpoint.path, options)
+    : await sendMutation<unknown>(endpoint.method, endpoint.path, body, options)
+  return endpoint.validate(raw)
+}
+
+export async function replayOfflineMutations(): Promise<OfflineReplaySummary> {
+  const summary = await replayMutations(getOfflineStore(), readOfflineUserId(), {
+    send: (mutation: QueuedMutation) => requestJson(mutation.path, {
+      method: mutation.method,
+      headers: teamHeaders(mutation.teamId),
+      ...(mutation.body === undefined ? {} : { body: JSON.stringify(mutation.body) }),
+    }),
+    fetchCurrent: (mutation: QueuedMutation) => requestJson(mutation.path, { headers: teamHeaders(mutation.teamId) }, { cacheBust: true }),
+  })
+  notifyOfflineQueueUpdated()
+  return summary
 }
 
-export function apiPut<T>(path: string, body: unknown): Promise<T> {
-  return requestJson<T>(path, { method: 'PUT', body: JSON.stringify(body) })
+// Cached reads and queued writes belong to the signed-in account: switching account starts from an empty store.
+export async function bindOfflineSession(userId: string): Promise<void> {
+  const previous = readOfflineUserId()
+  if (previous && previous !== userId) await clearOfflineSession()
+  if (typeof localStorage !== 'undefined') localStorage.setItem(OFFLINE_USER_STORAGE_KEY, userId)
 }
 
-export function apiDelete<T = unknown>(path: string): Promise<T> {
-  return requestJson<T>(path, { method: 'DELETE' })
+// Called on logout and when the session expires, so the next person on the device neither reads this
+// account's roster offline nor replays its writes.
+export async function clearOfflineSession(): Promise<void> {
+  if (typeof localStorage !== 'undefined') localStorage.removeItem(OFFLINE_USER_STORAGE_KEY)
+  await getOfflineStore().clear().catch(() => undefined)
+  notifyOfflineQueueUpdated()
 }
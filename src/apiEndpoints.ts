@@ -0,0 +1,192 @@
+import {
+  isAttendanceRow,
+  isClubCoach,
+  isClubMe,
+  isDiagramSummary,
+  isDrill,
+  isInvitationDetails,
+  isLinkedChild,
+  isMatchday,
+  isMatchdayCarpool,
+  isPlayer,
+  isPlayerInvitationStatus,
+  isSeason,
+  isTeam,
+  isTeamMessage,
+  isTraining,
+  isTrainingDrill,
+  isTrainingIntentResponse,
+  isTrainingRoleAssignment,
+  isTrainingSeries,
+  validateCount,
+  validateListOf,
+  validateMatchDetails,
+  validateMatchdaySummary,
+  validateWith,
+  type ResponseValidator,
+} from './adapters/apiValidation'
+import { appendQueryParams, normalizeDrillsResponse, normalizePaginatedResponse, withPagination } from './adapters/pagination'
+import { apiRoutes } from './apiRoutes'
+import { validateLiveMatchStates, type PersistedLiveMatchState } from './features/liveMatchSync'
+import type {
+  AttendanceRow,
+  ClubCoach,
+  ClubMe,
+  DiagramSummary,
+  DrillsResponse,
+  InvitationDetails,
+  LinkedChild,
+  MatchDetails,
+  Matchday,
+  MatchdayCarpool,
+  PaginatedResponse,
+  PaginationMeta,
+  Player,
+  PlayerInvitationStatusResponse,
+  Season,
+  Team,
+  TeamMessage,
+  Training,
+  TrainingDrill,
+  TrainingIntentResponse,
+  TrainingRolesResponse,
+  TrainingSeries,
+} from './types/api'
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export type ApiEndpoint<TResponse> = {
+  method: ApiMethod
+  path: string
+  validate: ResponseValidator<TResponse>
+}
+
+export type PageWindow = {
+  limit: number
+  offset: number
+}
+
+type QueryParams = Record<string, string | number | boolean | null | undefined>
+
+function get<T>(path: string, validate: ResponseValidator<T>): ApiEndpoint<T> {
+  return { method: 'GET', path, validate }
+}
+
+// The pagination meta is read from the raw body so `returned`, and thus the next offset, still counts
+// the malformed rows that validateListOf drops.
+function page<T>(path: string, window: PageWindow, validateItems: ResponseValidator<T[]>): ApiEndpoint<PaginatedResponse<T>> {
+  return get(withPagination(path, window), (value) => ({
+    ...normalizePaginatedResponse<unknown>(value, window),
+    items: validateItems(value),
+  }))
+}
+
+const validateClubMe = validateWith(isClubMe, 'club')
+const validateTeams = validateListOf(isTeam, 'équipes')
+const validateSeasons = validateListOf(isSeason, 'saisons')
+const validatePlayer = validateWith(isPlayer, 'joueur')
+const validateTraining = validateWith(isTraining, 'entraînement')
+const validateMatchday = validateWith(isMatchday, 'plateau')
+const validatePlayers = validateListOf(isPlayer, 'joueurs')
+const validateTrainings = validateListOf(isTraining, 'entraînements')
+const validateMatchdays = validateListOf(isMatchday, 'plateaux')
+const validateDrills = validateListOf(isDrill, 'exercices')
+const validateDiagrams = validateListOf(isDiagramSummary, 'diagrammes')
+const validateAttendance = validateListOf(isAttendanceRow, 'présences')
+const validateTrainingDrills = validateListOf(isTrainingDrill, 'exercices de la séance')
+const validateTrainingRoles = validateListOf(isTrainingRoleAssignment, 'rôles')
+const validateTrainingIntent = validateWith(isTrainingIntentResponse, 'intentions')
+const validateTrainingSeries = validateWith(isTrainingSeries, 'série')
+const validateCarpool = validateWith(isMatchdayCarpool, 'covoiturage')
+const validateInvitationStatus = validateWith(isPlayerInvitationStatus, 'statut d’invitation')
+const validateCoach = validateWith(isClubCoach, 'coach')
+const validateCoaches = validateListOf(isClubCoach, 'coachs')
+const validateInvitation = validateWith(isInvitationDetails, 'invitation')
+const validateLinkedChild = validateWith(isLinkedChild, 'enfant')
+const validateTeamMessages = validateListOf(isTeamMessage, 'messages')
+const validateDiagram = validateWith(isDiagramSummary, 'diagramme')
+
+export const apiEndpoints = {
+  auth: {
+    invitationByToken: (token: string): ApiEndpoint<InvitationDetails> =>
+      get(apiRoutes.auth.invitationByToken(token), validateInvitation),
+  },
+  me: {
+    // Parents without a linked child get `null`.
+    child: (): ApiEndpoint<LinkedChild | null> =>
+      get(apiRoutes.meChild, (value) => (value == null ? null : validateLinkedChild(value))),
+  },
+  clubs: {
+    me: (): ApiEndpoint<ClubMe> => get(apiRoutes.clubs.me, validateClubMe),
+    seasons: (): ApiEndpoint<Season[]> => get(apiRoutes.clubs.seasons, validateSeasons),
+    coaches: (): ApiEndpoint<ClubCoach[]> => get(apiRoutes.clubs.coaches, validateCoaches),
+  },
+  coaches: {
+    byId: (id: string): ApiEndpoint<ClubCoach> => get(apiRoutes.coaches.byId(id), validateCoach),
+  },
+  teams: {
+    list: (): ApiEndpoint<Team[]> => get(apiRoutes.teams.list, validateTeams),
+  },
+  players: {
+    list: (params: QueryParams = {}): ApiEndpoint<Player[]> =>
+      get(appendQueryParams(apiRoutes.players.list, params), validatePlayers),
+    page: (window: PageWindow, params: QueryParams = {}): ApiEndpoint<PaginatedResponse<Player>> =>
+      page(appendQueryParams(apiRoutes.players.list, params), window, validatePlayers),
+    byId: (id: string): ApiEndpoint<Player> => get(apiRoutes.players.byId(id), validatePlayer),
+    invitationStatus: (id: string): ApiEndpoint<PlayerInvitationStatusResponse> =>
+      get(apiRoutes.players.invitationStatus(id), validateInvitationStatus),
+  },
+  trainings: {
+    page: (window: PageWindow): ApiEndpoint<PaginatedResponse<Training>> => page(apiRoutes.trainings.list, window, validateTrainings),
+    byId: (id: string): ApiEndpoint<Training> => get(apiRoutes.trainings.byId(id), validateTraining),
+    drills: (id: string): ApiEndpoint<TrainingDrill[]> => get(apiRoutes.trainings.drills(id), validateTrainingDrills),
+    roles: (id: string): ApiEndpoint<TrainingRolesResponse> =>
+      get(apiRoutes.trainings.roles(id), (value) => ({ items: validateTrainingRoles(value) })),
+    intent: (id: string): ApiEndpoint<TrainingIntentResponse> => get(apiRoutes.trainings.intent(id), validateTrainingIntent),
+  },
+  trainingSeries: {
+    byId: (id: string): ApiEndpoint<TrainingSeries> => get(apiRoutes.trainingSeries.byId(id), validateTrainingSeries),
+  },
+  matchday: {
+    page: (window: PageWindow): ApiEndpoint<PaginatedResponse<Matchday>> => page(apiRoutes.matchday.list, window, validateMatchdays),
+    byId: (id: string): ApiEndpoint<Matchday> => get(apiRoutes.matchday.byId(id), validateMatchday),
+    summary: <T extends { matchday: Matchday }>(id: string, params: QueryParams = {}): ApiEndpoint<T> =>
+      get(appendQueryParams(apiRoutes.matchday.summary(id), params), validateMatchdaySummary<T>),
+  },
+  public: {
+    matchdayByToken: <T extends { matchday: Matchday }>(token: string): ApiEndpoint<T> =>
+      get(apiRoutes.public.matchdayByToken(token), validateMatchdaySummary<T>),
+  },
+  carpool: {
+    byMatchday: (matchdayId: string): ApiEndpoint<MatchdayCarpool> => get(apiRoutes.carpool.byMatchday(matchdayId), validateCarpool),
+  },
+  matches: {
+    byId: (id: string): ApiEndpoint<MatchDetails> => get(apiRoutes.matches.byId(id), validateMatchDetails),
+    liveStates: (ids: string[]): ApiEndpoint<Record<string, PersistedLiveMatchState>> =>
+      get(appendQueryParams(apiRoutes.matches.liveStates, { ids: ids.join(',') }), validateLiveMatchStates),
+  },
+  drills: {
+    // The list also carries the library's categories and tags.
+    page: (window: PageWindow): ApiEndpoint<DrillsResponse & { pagination: PaginationMeta }> =>
+      get(withPagination(apiRoutes.drills.list, window), (value) => ({
+        ...normalizeDrillsResponse(value, window),
+        items: validateDrills(value),
+      })),
+    diagrams: (drillId: string): ApiEndpoint<DiagramSummary[]> => get(apiRoutes.drills.diagrams(drillId), validateDiagrams),
+  },
+  diagrams: {
+    byId: (id: string): ApiEndpoint<DiagramSummary> => get(apiRoutes.diagrams.byId(id), validateDiagram),
+  },
+  trainingDrills: {
+    diagrams: (trainingDrillId: string): ApiEndpoint<DiagramSummary[]> =>
+      get(apiRoutes.trainingDrills.diagrams(trainingDrillId), validateDiagrams),
+  },
+  attendance: {
+    bySession: (sessionType: 'TRAINING' | 'PLATEAU', sessionId: string): ApiEndpoint<AttendanceRow[]> =>
+      get(apiRoutes.attendance.bySession(sessionType, sessionId), validateAttendance),
+  },
+  teamMessages: {
+    list: (): ApiEndpoint<TeamMessage[]> => get(apiRoutes.teamMessages.list, validateTeamMessages),
+    unreadCount: (): ApiEndpoint<{ count: number }> => get(apiRoutes.teamMessages.unreadCount, validateCount),
+  },
+} as const
@@ -39,6 +39,11 @@ export const apiRoutes = {
     byId: (id: string) => `/players/${enc(id)}`,
     rosterStatus: (id: string) => `/players/${enc(id)}/roster-status`,
     parentById: (id: string, parentId: string) => `/players/${enc(id)}/parents/${enc(parentId)}`,
+    injuries: (id: string) => `/players/${enc(id)}/injuries`,
+    injuryById: (id: string, injuryId: string) => `/players/${enc(id)}/injuries/${enc(injuryId)}`,
+    documentByType: (id: string, type: string) => `/players/${enc(id)}/documents/${enc(type)}`,
+    documentAttachment: (id: string, type: string) => `/players/${enc(id)}/documents/${enc(type)}/attachment`,
+    documentsBulk: '/players/documents/bulk',
     invite: (id: string) => `/players/${enc(id)}/invite`,
     inviteQr: (id: string) => `/players/${enc(id)}/invite/qr`,
     invitationStatus: (id: string) => `/players/${enc(id)}/invitation-status`,
@@ -53,15 +58,37 @@ export const apiRoutes = {
     drillById: (trainingId: string, trainingDrillId: string) =>
       `/trainings/${enc(trainingId)}/drills/${enc(trainingDrillId)}`,
   },
+  trainingSeries: {
+    list: '/training-series',
+    byId: (id: string) => `/training-series/${enc(id)}`,
+  },
+  curriculums: {
+    list: '/curriculums',
+    byId: (id: string) => `/curriculums/${enc(id)}`,
+  },
   matchday: {
     list: '/matchday',
     byId: (id: string) => `/matchday/${enc(id)}`,
     share: (id: string) => `/matchday/${enc(id)}/share`,
     summary: (id: string) => `/matchday/${enc(id)}/summary`,
     teamsAbsence: (id: string) => `/matchday/${enc(id)}/teams/absence`,
+    convocations: (id: string) => `/matchday/${enc(id)}/convocations`,
+    convocationNotifications: (id: string) => `/matchday/${enc(id)}/convocations/notifications`,
+    convocationReminders: (id: string) => `/matchday/${enc(id)}/convocations/reminders`,
+  },
+  carpool: {
+    byMatchday: (matchdayId: string) => `/matchday/${enc(matchdayId)}/carpool`,
+    offers: (matchdayId: string) => `/matchday/${enc(matchdayId)}/carpool/offers`,
+    offerById: (id: string) => `/carpool/offers/${enc(id)}`,
+    requests: (matchdayId: string) => `/matchday/${enc(matchdayId)}/carpool/requests`,
+    requestById: (id: string) => `/carpool/requests/${enc(id)}`,
   },
   public: {
     matchdayByToken: (token: string) => `/public/matchday/${enc(token)}`,
+    calendarByToken: (token: string) => `/public/calendar/${enc(token)}.ics`,
+  },
+  calendarFeeds: {
+    share: '/calendar-feeds',
   },
   player: {
     matchday: '/player/matchday',
@@ -84,6 +111,9 @@ export const apiRoutes = {
     list: '/matches',
     byId: (id: string) => `/matches/${enc(id)}`,
     byMatchday: (matchdayId: string) => `/matches?matchdayId=${enc(matchdayId)}`,
+    events: (id: string) => `/matches/${enc(id)}/events`,
+    liveState: (id: string) => `/matches/${enc(id)}/live-state`,
+    liveStates: '/matches/live-states',
   },
   attendance: {
     list: '/attendance',
@@ -0,0 +1,90 @@
+import { useState } from 'react'
+import { toErrorMessage } from '../errors'
+import { ABSENCE_REASONS, ABSENCE_REASON_LABELS, MAX_ABSENCE_NOTE_LENGTH } from '../features/absenceReasons'
+import type { AbsenceReason } from '../types/api'
+import { CloseIcon } from './icons'
+import './AbsenceReasonModal.css'
+
+type AbsenceReasonModalProps = {
+  initialReason?: AbsenceReason | null
+  initialNote?: string | null
+  onSubmit: (reason: AbsenceReason | null, note: string) => Promise<void>
+  onClose: () => void
+}
+
+export default function AbsenceReasonModal({ initialReason, initialNote, onSubmit, onClose }: AbsenceReasonModalProps) {
+  const [reason, setReason] = useState<AbsenceReason | null>(initialReason ?? null)
+  const [note, setNote] = useState(initialNote ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function submit() {
+    setSaving(true)
+    setError(null)
+    try {
+      await onSubmit(reason, note)
+      onClose()
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="absence-reason-overlay" role="dialog" aria-modal="true" aria-label="Signaler une absence" onClick={() => !saving && onClose()}>
+      <form
+        className="absence-reason-modal"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault()
+          void submit()
+        }}
+      >
+        <div className="absence-reason-head">
+          <strong>Signaler une absence</strong>
+          <button type="button" className="absence-reason-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={saving}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+
+        <div className="absence-reason-options" role="radiogroup" aria-label="Motif">
+          {ABSENCE_REASONS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={reason === value}
+              className={`absence-reason-chip ${reason === value ? 'is-active' : ''}`}
+              onClick={() => setReason(reason === value ? null : value)}
+            >
+              {ABSENCE_REASON_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        <label className="absence-reason-field">
+          Précision (facultatif)
+          <textarea
+            value={note}
+            maxLength={MAX_ABSENCE_NOTE_LENGTH}
+            rows={3}
+            placeholder="Ex: entorse, retour prévu la semaine prochaine"
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </label>
+        <p className="absence-reason-note">Le motif et la précision sont visibles par les coachs de l’équipe.</p>
+
+        {error && <p className="absence-reason-error">{error}</p>}
+
+        <div className="absence-reason-actions">
+          <button type="button" className="absence-reason-btn" onClick={onClose} disabled={saving}>
+            Annuler
+          </button>
+          <button type="submit" className="absence-reason-btn is-primary" disabled={saving}>
+            {saving ? 'Envoi…' : 'Confirmer l’absence'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import type { AttendanceHeatmapCell, AttendanceStatus } from '../features/attendanceAnalytics'
+import './AttendanceHeatmap.css'
+
+type AttendanceHeatmapProps = {
+  weeks: AttendanceHeatmapCell[][]
+}
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  PRESENT: 'Présent',
+  EXCUSED: 'Absence excusée',
+  UNEXCUSED: 'Absence non excusée',
+}
+
+const WEEKDAY_LABELS = ['L', 'M', 'M', 'J', 'V', 'S', 'D']
+
+function formatDayKey(dayKey: string) {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  return new Intl.DateTimeFormat('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' }).format(new Date(year, month - 1, day))
+}
+
+function cellTitle(cell: AttendanceHeatmapCell) {
+  if (!cell.status) return formatDayKey(cell.dayKey)
+  const suffix = cell.sessions > 1 ? ` (${cell.sessions} séances)` : ''
+  return `${formatDayKey(cell.dayKey)}: ${STATUS_LABELS[cell.status]}${suffix}`
+}
+
+export default function AttendanceHeatmap({ weeks }: AttendanceHeatmapProps) {
+  return (
+    <div className="attendance-heatmap">
+      <div className="attendance-heatmap-grid">
+        {WEEKDAY_LABELS.map((label, dayIndex) => (
+          <div key={`row-${dayIndex}`} className="attendance-heatmap-row">
+            <span className="attendance-heatmap-weekday">{dayIndex % 2 === 0 ? label : ''}</span>
+            {weeks.map((week) => {
+              const cell = week[dayIndex]
+              return (
+                <span
+                  key={cell.dayKey}
+                  className={`attendance-heatmap-cell ${cell.inRange ? '' : 'is-out'} ${cell.status ? `is-${cell.status.toLowerCase()}` : ''}`}
+                  title={cell.inRange ? cellTitle(cell) : undefined}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="attendance-heatmap-legend">
+        {(Object.keys(STATUS_LABELS) as AttendanceStatus[]).map((status) => (
+          <span key={status}>
+            <span className={`attendance-heatmap-cell is-${status.toLowerCase()}`} />
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { toErrorMessage } from '../errors'
+import { toWebcalUrl } from '../features/icalendar'
+import { CloseIcon } from './icons'
+import './CalendarExportModal.css'
+
+type CalendarExportModalProps = {
+  title: string
+  onDownload: () => Promise<void>
+  onCreateFeed: () => Promise<string>
+  onClose: () => void
+}
+
+export default function CalendarExportModal({ title, onDownload, onCreateFeed, onClose }: CalendarExportModalProps) {
+  const [busy, setBusy] = useState<'download' | 'feed' | null>(null)
+  const [feedUrl, setFeedUrl] = useState('')
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function download() {
+    setBusy('download')
+    setError(null)
+    try {
+      await onDownload()
+    } catch (err: unknown) {
+      setError(`Export impossible: ${toErrorMessage(err)}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function createFeed() {
+    setBusy('feed')
+    setError(null)
+    setCopied(false)
+    try {
+      setFeedUrl(await onCreateFeed())
+    } catch (err: unknown) {
+      setError(`Erreur génération du lien d’abonnement: ${toErrorMessage(err)}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function copyFeedUrl() {
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+    } catch {
+      setError('Impossible de copier automatiquement le lien.')
+    }
+  }
+
+  return (
+    <div className="calendar-export-overlay" role="dialog" aria-modal="true" aria-label={title} onClick={() => !busy && onClose()}>
+      <div className="calendar-export-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="calendar-export-head">
+          <strong>{title}</strong>
+          <button type="button" className="calendar-export-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={busy !== null}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+
+        <section className="calendar-export-section">
+          <h4>Fichier agenda (.ics)</h4>
+          <p className="calendar-export-note">
+            Entraînements et compétitions à importer une fois dans Google Agenda, Outlook ou Calendrier.
+          </p>
+          <button type="button" className="calendar-export-btn" onClick={() => void download()} disabled={busy !== null}>
+            {busy === 'download' ? 'Préparation…' : 'Télécharger'}
+          </button>
+        </section>
+
+        <section className="calendar-export-section">
+          <h4>Abonnement</h4>
+          <p className="calendar-export-note">
+            L’agenda abonné se met à jour tout seul, séances annulées comprises. Toute personne ayant le lien peut voir le planning.
+          </p>
+          {feedUrl ? (
+            <>
+              <input className="calendar-export-url" value={feedUrl} readOnly onFocus={(e) => e.target.select()} aria-label="Lien d’abonnement" />
+              <div className="calendar-export-actions">
+                <button type="button" className="calendar-export-btn" onClick={() => void copyFeedUrl()}>
+                  {copied ? 'Lien copié' : 'Copier le lien'}
+                </button>
+                <a className="calendar-export-btn is-primary" href={toWebcalUrl(feedUrl)}>
+                  S’abonner
+                </a>
+              </div>
+            </>
+          ) : (
+            <button type="button" className="calendar-export-btn" onClick={() => void createFeed()} disabled={busy !== null}>
+              {busy === 'feed' ? 'Génération…' : 'Générer le lien d’abonnement'}
+            </button>
+          )}
+        </section>
+
+        {error && <p className="calendar-export-error">{error}</p>}
+      </div>
+    </div>
+  )
+}
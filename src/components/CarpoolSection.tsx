@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  MAX_CARPOOL_SEATS,
+  buildCarpoolBoard,
+  buildDirectionsUrl,
+  createCarpoolOfferDraft,
+  listPlayersWithoutTransport,
+  validateCarpoolOffer,
+  type CarpoolOfferDraft,
+} from '../features/carpool'
+import type { CarpoolOffer, CarpoolRequest, MatchdayCarpool, Player } from '../types/api'
+import './CarpoolSection.css'
+
+type CarpoolSectionProps = {
+  carpool: MatchdayCarpool
+  players: Player[]
+  expectedPlayerIds: Set<string>
+  destination: string | null
+  meetingTimeLabel: string
+  // Missing transports are only worth flagging until the meeting time.
+  meetingDate: Date | null
+  currentUserId: string | null
+  canManage: boolean
+  onCreateOffer: (draft: CarpoolOfferDraft) => Promise<void>
+  onDeleteOffer: (offer: CarpoolOffer) => Promise<void>
+  onRequestSeat: (playerId: string, note: string) => Promise<void>
+  onCancelRequest: (request: CarpoolRequest) => Promise<void>
+  onAssignRequest: (request: CarpoolRequest, offerId: string | null) => Promise<void>
+}
+
+export default function CarpoolSection({
+  carpool,
+  players,
+  expectedPlayerIds,
+  destination,
+  meetingTimeLabel,
+  meetingDate,
+  currentUserId,
+  canManage,
+  onCreateOffer,
+  onDeleteOffer,
+  onRequestSeat,
+  onCancelRequest,
+  onAssignRequest,
+}: CarpoolSectionProps) {
+  const [form, setForm] = useState<'OFFER' | 'REQUEST' | null>(null)
+  const [draft, setDraft] = useState<CarpoolOfferDraft>(createCarpoolOfferDraft)
+  const [requestPlayerId, setRequestPlayerId] = useState('')
+  const [requestNote, setRequestNote] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const playerNameById = useMemo(() => new Map(players.map((player) => [player.id, player.name] as const)), [players])
+  const board = useMemo(() => buildCarpoolBoard(carpool.offers, carpool.requests), [carpool])
+  const withoutTransport = useMemo(
+    () => listPlayersWithoutTransport(expectedPlayerIds, carpool.offers, carpool.requests),
+    [carpool, expectedPlayerIds],
+  )
+  const openOffers = board.offers.filter((offer) => offer.seatsLeft > 0)
+  const beforeMeeting = !meetingDate || Date.now() < meetingDate.getTime()
+  const playerName = (playerId: string) => playerNameById.get(playerId) || 'Joueur'
+  const isMine = (item: { ownerUserId?: string | null }) => Boolean(currentUserId && item.ownerUserId === currentUserId)
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      return true
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function submitOffer() {
+    const validation = validateCarpoolOffer(draft)
+    if (validation) {
+      setError(validation)
+      return
+    }
+    if (await run(() => onCreateOffer(draft))) {
+      setForm(null)
+      setDraft(createCarpoolOfferDraft())
+    }
+  }
+
+  async function submitRequest() {
+    if (!requestPlayerId) {
+      setError('Choisis le joueur à emmener.')
+      return
+    }
+    if (await run(() => onRequestSeat(requestPlayerId, requestNote.trim()))) {
+      setForm(null)
+      setRequestPlayerId('')
+      setRequestNote('')
+    }
+  }
+
+  return (
+    <section className="details-card carpool-card">
+      <div className="card-head">
+        <h3>Covoiturage</h3>
+        {destination && (
+          <div className="head-actions">
+            <a className="carpool-link" href={buildDirectionsUrl(destination)} target="_blank" rel="noreferrer">
+              Itinéraire
+            </a>
+          </div>
+        )}
+      </div>
+      <p className="muted-line">
+        {destination ? `Destination: ${destination}` : 'Destination à définir'} · Rendez-vous {meetingTimeLabel}
+      </p>
+
+      {canManage && beforeMeeting && withoutTransport.length > 0 && (
+        <div className="carpool-alert">
+          <strong>{withoutTransport.length} joueur(s) sans transport</strong>
+          <span>
+            {withoutTransport.map((item) => `${playerName(item.playerId)}${item.requested ? ' (demande en attente)' : ''}`).join(', ')}
+          </span>
+        </div>
+      )}
+
+      {board.offers.length === 0 ? (
+        <p className="muted-line">Aucune place proposée pour le moment.</p>
+      ) : (
+        <ul className="carpool-list">
+          {board.offers.map((offer) => (
+            <li key={offer.id} className="carpool-offer">
+              <div className="carpool-offer-head">
+                <strong>{offer.driverName}</strong>
+                <span className={`carpool-seats ${offer.seatsLeft === 0 ? 'is-full' : ''}`}>
+                  {offer.seatsLeft === 0 ? 'Complet' : `${offer.seatsLeft} place(s) libre(s)`}
+                </span>
+              </div>
+              <p>Départ {offer.departureTime} · {offer.departurePoint}</p>
+              {offer.note && <p className="carpool-note">{offer.note}</p>}
+              <p className="carpool-passengers">
+                {[offer.playerId ? playerName(offer.playerId) : null, ...offer.passengers.map((p) => playerName(p.playerId))]
+                  .filter(Boolean)
+                  .join(', ') || 'Aucun passager'}
+              </p>
+              {(canManage || isMine(offer)) && (
+                <div className="carpool-actions">
+                  {offer.passengers.map((passenger) => (
+                    <button key={passenger.id} type="button" className="carpool-btn" disabled={busy} onClick={() => void run(() => onAssignRequest(passenger, null))}>
+                      Retirer {playerName(passenger.playerId)}
+                    </button>
+                  ))}
+                  <button type="button" className="carpool-btn is-danger" disabled={busy} onClick={() => void run(() => onDeleteOffer(offer))}>
+                    Supprimer
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {board.pending.length > 0 && (
+        <div className="carpool-pending">
+          <h4>Demandes de place</h4>
+          <ul className="carpool-list">
+            {board.pending.map((request) => (
+              <li key={request.id} className="carpool-request">
+                <span>
+                  {playerName(request.playerId)}
+                  {request.note ? <small> · {request.note}</small> : null}
+                </span>
+                <span className="carpool-actions">
+                  {openOffers.length > 0 && (
+                    <select
+                      aria-label={`Placer ${playerName(request.playerId)}`}
+                      value=""
+                      disabled={busy}
+                      onChange={(e) => e.target.value && void run(() => onAssignRequest(request, e.target.value))}
+                    >
+                      <option value="">Placer dans…</option>
+                      {openOffers
+                        .filter((offer) => canManage || isMine(offer))
+                        .map((offer) => <option key={offer.id} value={offer.id}>{offer.driverName} ({offer.departureTime})</option>)}
+                    </select>
+                  )}
+                  {(canManage || isMine(request)) && (
+                    <button type="button" className="carpool-btn" disabled={busy} onClick={() => void run(() => onCancelRequest(request))}>
+                      Annuler
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {form === 'OFFER' && (
+        <form
+          className="carpool-form"
+          onSubmit={(e) => {
+            e.preventDefault()
+            void submitOffer()
+          }}
+        >
+          <label>
+            Places libres
+            <input
+              type="number"
+              min={1}
+              max={MAX_CARPOOL_SEATS}
+              value={draft.seats}
+              onChange={(e) => setDraft({ ...draft, seats: Number(e.target.value) })}
+            />
+          </label>
+          <label>
+            Point de départ
+            <input value={draft.departurePoint} placeholder="Ex: parking du gymnase" onChange={(e) => setDraft({ ...draft, departurePoint: e.target.value })} />
+          </label>
+          <label>
+            Heure de départ
+            <input type="time" value={draft.departureTime} onChange={(e) => setDraft({ ...draft, departureTime: e.target.value })} />
+          </label>
+          <label>
+            Mon enfant (déjà dans la voiture)
+            <select value={draft.playerId} onChange={(e) => setDraft({ ...draft, playerId: e.target.value })}>
+              <option value="">—</option>
+              {players.map((player) => <option key={player.id} value={player.id}>{player.name}</option>)}
+            </select>
+          </label>
+          <label>
+            Précision
+            <input value={draft.note} placeholder="Ex: retour possible après le dernier match" onChange={(e) => setDraft({ ...draft, note: e.target.value })} />
+          </label>
+          <div className="carpool-actions">
+            <button type="button" className="carpool-btn" onClick={() => setForm(null)} disabled={busy}>Annuler</button>
+            <button type="submit" className="carpool-btn is-primary" disabled={busy}>Proposer</button>
+          </div>
+        </form>
+      )}
+
+      {form === 'REQUEST' && (
+        <form
+          className="carpool-form"
+          onSubmit={(e) => {
+            e.preventDefault()
+            void submitRequest()
+          }}
+        >
+          <label>
+            Joueur
+            <select value={requestPlayerId} onChange={(e) => setRequestPlayerId(e.target.value)}>
+              <option value="">Choisir…</option>
+              {players.map((player) => <option key={player.id} value={player.id}>{player.name}</option>)}
+            </select>
+          </label>
+          <label>
+            Précision
+            <input value={requestNote} placeholder="Ex: départ depuis le centre-ville" onChange={(e) => setRequestNote(e.target.value)} />
+          </label>
+          <div className="carpool-actions">
+            <button type="button" className="carpool-btn" onClick={() => setForm(null)} disabled={busy}>Annuler</button>
+            <button type="submit" className="carpool-btn is-primary" disabled={busy}>Demander</button>
+          </div>
+        </form>
+      )}
+
+      {form === null && (
+        <div className="carpool-actions">
+          <button type="button" className="carpool-btn is-primary" onClick={() => { setError(null); setForm('OFFER') }}>
+            Proposer des places
+          </button>
+          <button type="button" className="carpool-btn" onClick={() => { setError(null); setForm('REQUEST') }}>
+            Demander une place
+          </button>
+        </div>
+      )}
+
+      {error && <p className="carpool-error">{error}</p>}
+    </section>
+  )
+}
@@ -0,0 +1,329 @@
+import { useMemo, useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  CURRICULUM_WEEKDAY_OPTIONS,
+  MAX_CYCLE_WEEKS,
+  createCurriculumCycle,
+  planCurriculumSessions,
+  setCycleWeekCount,
+  type CurriculumDraft,
+  type PlannedCurriculumSession,
+  type SeasonDateRange,
+} from '../features/curriculum'
+import type { CurriculumCycle, Drill, HolidayPeriod } from '../types/api'
+import { uiConfirm } from '../ui'
+import { CloseIcon } from './icons'
+import './CurriculumPlannerModal.css'
+
+type CurriculumPlannerModalProps = {
+  initial: CurriculumDraft
+  season: SeasonDateRange
+  drills: Drill[]
+  existingDayKeys: Set<string>
+  onSave: (draft: CurriculumDraft) => Promise<CurriculumDraft>
+  onGenerate: (
+    draft: CurriculumDraft,
+    sessions: PlannedCurriculumSession[],
+    onProgress: (done: number, total: number) => void,
+  ) => Promise<void>
+  onClose: () => void
+}
+
+function uid() {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+function formatDayKey(dayKey: string) {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  return new Intl.DateTimeFormat('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' }).format(new Date(year, month - 1, day))
+}
+
+export default function CurriculumPlannerModal({
+  initial,
+  season,
+  drills,
+  existingDayKeys,
+  onSave,
+  onGenerate,
+  onClose,
+}: CurriculumPlannerModalProps) {
+  const [draft, setDraft] = useState<CurriculumDraft>(initial)
+  const [busy, setBusy] = useState<'save' | 'generate' | null>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const drillById = useMemo(() => new Map(drills.map((drill) => [drill.id, drill])), [drills])
+  const sessions = useMemo(() => planCurriculumSessions(draft, existingDayKeys), [draft, existingDayKeys])
+  const toCreate = sessions.filter((session) => !session.alreadyPlanned)
+
+  function update(patch: Partial<CurriculumDraft>) {
+    setDraft((prev) => ({ ...prev, ...patch }))
+    setMessage(null)
+  }
+
+  function updateCycle(cycleId: string, change: (cycle: CurriculumCycle) => CurriculumCycle) {
+    setDraft((prev) => ({ ...prev, cycles: prev.cycles.map((cycle) => (cycle.id === cycleId ? change(cycle) : cycle)) }))
+    setMessage(null)
+  }
+
+  function updateWeek(cycleId: string, weekIndex: number, drillIds: string[]) {
+    updateCycle(cycleId, (cycle) => ({ ...cycle, weeks: cycle.weeks.map((week, index) => (index === weekIndex ? drillIds : week)) }))
+  }
+
+  function updateHoliday(holidayId: string, patch: Partial<HolidayPeriod>) {
+    update({ holidays: draft.holidays.map((period) => (period.id === holidayId ? { ...period, ...patch } : period)) })
+  }
+
+  function toggleWeekday(weekday: number) {
+    update({
+      weekdays: draft.weekdays.includes(weekday)
+        ? draft.weekdays.filter((value) => value !== weekday)
+        : [...draft.weekdays, weekday].sort((a, b) => a - b),
+    })
+  }
+
+  async function save() {
+    setBusy('save')
+    setError(null)
+    try {
+      setDraft(await onSave(draft))
+      setMessage('Programme enregistré.')
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function generate() {
+    if (toCreate.length === 0) return
+    if (!uiConfirm(`Créer ${toCreate.length} entraînement(s) du ${formatDayKey(toCreate[0].dayKey)} au ${formatDayKey(toCreate[toCreate.length - 1].dayKey)} ?`)) return
+    setBusy('generate')
+    setError(null)
+    try {
+      // Saved first so a retry after a failure updates the same programme.
+      const saved = await onSave(draft)
+      setDraft(saved)
+      await onGenerate(saved, toCreate, (done, total) => setProgress(`Création ${done}/${total}…`))
+      onClose()
+    } catch (err: unknown) {
+      setError(`Génération interrompue: ${toErrorMessage(err)}`)
+    } finally {
+      setBusy(null)
+      setProgress(null)
+    }
+  }
+
+  const disabled = busy !== null
+
+  return (
+    <div className="curriculum-overlay" role="dialog" aria-modal="true" aria-label="Programme de la saison" onClick={() => !disabled && onClose()}>
+      <div className="curriculum-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="curriculum-head">
+          <input
+            className="curriculum-title-input"
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+            aria-label="Nom du programme"
+            disabled={disabled}
+          />
+          <button type="button" className="curriculum-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={disabled}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+
+        <section className="curriculum-section">
+          <h4>Séances</h4>
+          <div className="curriculum-weekdays" aria-label="Jours d'entraînement">
+            {CURRICULUM_WEEKDAY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                className={draft.weekdays.includes(option.value) ? 'is-active' : ''}
+                aria-pressed={draft.weekdays.includes(option.value)}
+                onClick={() => toggleWeekday(option.value)}
+                disabled={disabled}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="curriculum-grid">
+            <label>
+              Début
+              <input type="time" value={draft.startTime} onChange={(e) => update({ startTime: e.target.value })} disabled={disabled} />
+            </label>
+            <label>
+              Fin
+              <input type="time" value={draft.endTime ?? ''} onChange={(e) => update({ endTime: e.target.value || null })} disabled={disabled} />
+            </label>
+            <label>
+              Du
+              <input type="date" value={draft.startDate} min={season.startDate} max={season.endDate} onChange={(e) => update({ startDate: e.target.value })} disabled={disabled} />
+            </label>
+            <label>
+              Au
+              <input type="date" value={draft.endDate} min={season.startDate} max={season.endDate} onChange={(e) => update({ endDate: e.target.value })} disabled={disabled} />
+            </label>
+          </div>
+          <p className="curriculum-note">Saison du {formatDayKey(season.startDate)} au {formatDayKey(season.endDate)}.</p>
+        </section>
+
+        <section className="curriculum-section">
+          <h4>Vacances</h4>
+          {draft.holidays.map((period) => (
+            <div key={period.id} className="curriculum-holiday">
+              <input value={period.label} placeholder="Ex. Toussaint" onChange={(e) => updateHoliday(period.id, { label: e.target.value })} disabled={disabled} />
+              <input type="date" value={period.startDate} aria-label="Début des vacances" onChange={(e) => updateHoliday(period.id, { startDate: e.target.value })} disabled={disabled} />
+              <input type="date" value={period.endDate} aria-label="Fin des vacances" onChange={(e) => updateHoliday(period.id, { endDate: e.target.value })} disabled={disabled} />
+              <button
+                type="button"
+                aria-label="Supprimer la période"
+                onClick={() => update({ holidays: draft.holidays.filter((candidate) => candidate.id !== period.id) })}
+                disabled={disabled}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="curriculum-link-btn"
+            onClick={() => update({ holidays: [...draft.holidays, { id: uid(), label: '', startDate: '', endDate: '' }] })}
+            disabled={disabled}
+          >
+            + Ajouter une période
+          </button>
+        </section>
+
+        <section className="curriculum-section">
+          <h4>Cycles</h4>
+          {draft.cycles.length === 0 && <p className="curriculum-note">Ajoutez un cycle, par exemple six semaines de conservation du ballon.</p>}
+          {draft.cycles.map((cycle, cycleIndex) => (
+            <div key={cycle.id} className="curriculum-cycle">
+              <div className="curriculum-cycle-head">
+                <strong>Cycle {cycleIndex + 1}</strong>
+                <label>
+                  Semaines
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_CYCLE_WEEKS}
+                    value={cycle.weeks.length}
+                    onChange={(e) => updateCycle(cycle.id, (current) => setCycleWeekCount(current, Number(e.target.value)))}
+                    disabled={disabled}
+                  />
+                </label>
+                <button
+                  type="button"
+                  aria-label="Supprimer le cycle"
+                  onClick={() => update({ cycles: draft.cycles.filter((candidate) => candidate.id !== cycle.id) })}
+                  disabled={disabled}
+                >
+                  ✕
+                </button>
+              </div>
+              <input
+                value={cycle.title}
+                placeholder="Thème, ex. Conservation du ballon"
+                onChange={(e) => updateCycle(cycle.id, (current) => ({ ...current, title: e.target.value }))}
+                disabled={disabled}
+              />
+              <textarea
+                rows={2}
+                value={cycle.objectives}
+                placeholder="Objectifs du cycle"
+                onChange={(e) => updateCycle(cycle.id, (current) => ({ ...current, objectives: e.target.value }))}
+                disabled={disabled}
+              />
+              {cycle.weeks.map((week, weekIndex) => (
+                <div key={weekIndex} className="curriculum-week">
+                  <span className="curriculum-week-label">S{weekIndex + 1}</span>
+                  <div className="curriculum-week-drills">
+                    {week.map((drillId) => (
+                      <span key={drillId} className="curriculum-drill-chip">
+                        {drillById.get(drillId)?.title ?? 'Exercice supprimé'}
+                        <button
+                          type="button"
+                          aria-label="Retirer l'exercice"
+                          onClick={() => updateWeek(cycle.id, weekIndex, week.filter((id) => id !== drillId))}
+                          disabled={disabled}
+                        >
+                          ✕
+                        </button>
+                      </span>
+                    ))}
+                    <select
+                      value=""
+                      aria-label={`Ajouter un exercice en semaine ${weekIndex + 1}`}
+                      onChange={(e) => { if (e.target.value) updateWeek(cycle.id, weekIndex, [...week, e.target.value]) }}
+                      disabled={disabled}
+                    >
+                      <option value="">+ Exercice</option>
+                      {drills.filter((drill) => !week.includes(drill.id)).map((drill) => (
+                        <option key={drill.id} value={drill.id}>{drill.title}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {weekIndex === 0 && cycle.weeks.length > 1 && week.length > 0 && (
+                    <button
+                      type="button"
+                      className="curriculum-link-btn"
+                      onClick={() => updateCycle(cycle.id, (current) => ({ ...current, weeks: current.weeks.map(() => [...week]) }))}
+                      disabled={disabled}
+                    >
+                      Copier sur toutes les semaines
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+          <button
+            type="button"
+            className="curriculum-link-btn"
+            onClick={() => update({ cycles: [...draft.cycles, createCurriculumCycle(uid())] })}
+            disabled={disabled}
+          >
+            + Ajouter un cycle
+          </button>
+        </section>
+
+        <section className="curriculum-section">
+          <h4>Aperçu</h4>
+          {sessions.length === 0 ? (
+            <p className="curriculum-note">Choisissez au moins un jour et un cycle pour voir les séances.</p>
+          ) : (
+            <>
+              <p className="curriculum-note">
+                {toCreate.length} séance(s) à créer
+                {sessions.length > toCreate.length ? `, ${sessions.length - toCreate.length} jour(s) déjà planifié(s) ignoré(s)` : ''}.
+              </p>
+              <ul className="curriculum-preview">
+                {sessions.map((session) => (
+                  <li key={session.dayKey} className={session.alreadyPlanned ? 'is-skipped' : ''}>
+                    <span>{formatDayKey(session.dayKey)}</span>
+                    <span>{session.cycleTitle || 'Cycle sans titre'} · S{session.weekNumber}</span>
+                    <span>{session.alreadyPlanned ? 'Déjà planifié' : `${session.drillIds.length} exercice(s)`}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </section>
+
+        {error && <p className="curriculum-error">{error}</p>}
+        <div className="curriculum-actions">
+          {(progress || message) && <span className="curriculum-note">{progress || message}</span>}
+          <button type="button" className="curriculum-secondary-btn" onClick={() => void save()} disabled={disabled}>
+            {busy === 'save' ? 'Enregistrement…' : 'Enregistrer'}
+          </button>
+          <button type="button" className="curriculum-primary-btn" onClick={() => void generate()} disabled={disabled || toCreate.length === 0}>
+            {busy === 'generate' ? 'Génération…' : `Générer ${toCreate.length} séance(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
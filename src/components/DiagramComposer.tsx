@@ -1,22 +1,71 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './DiagramComposer.css'
+import {
+  EMPTY_DIAGRAM_HISTORY,
+  applyItemPositions,
+  computeAlignment,
+  computeDistribution,
+  duplicateFrameForward,
+  moveItemsAcrossFrames,
+  pasteItems,
+  recordDiagramChange,
+  redoDiagramChange,
+  selectItemsInRect,
+  undoDiagramChange,
+  type AlignMode,
+  type DiagramClipboard,
+  type DiagramHistory,
+  type DistributeAxis,
+  type SelectionRect,
+} from '../features/diagramEditing'
 import { FullscreenIcon, OrientationIcon, PauseIcon, PlayIcon, SkipBackIcon, StepBackIcon, StepForwardIcon } from './icons'
+import DiagramItemShape from './DiagramItemShape'
+import DiagramTimeline from './DiagramTimeline'
 import {
+  LINE_STYLE_OPTIONS,
   MAX_STEPS,
   createEmptyDiagramData,
+  getArrowControl,
   getFieldSizeForQuarterTurns,
+  getPlaybackFps,
+  getDiagramItemLabel,
+  getMovementControl,
+  getMovementTiming,
+  getTransitionDurationMs,
+  interpolateTimedItems,
+  setMovementTiming,
+  type MovementTiming,
   type Arrow,
-  getPlayerFill,
-  interpolateItem,
+  type LineStyle,
   normalizeRotationQuarterTurns,
+  orderItemsForRender,
   type Item,
   type DiagramData,
   PLAYER_COLOR_OPTIONS,
   type PlayerColor,
   rotateDiagramClockwise,
+  type ZoneShape,
 } from './diagramShared'
 
-export type Tool = 'select' | 'player' | 'cone' | 'cup' | 'ball' | 'post' | 'arrow'
+export type Tool =
+  | 'select'
+  | 'player'
+  | 'cone'
+  | 'cup'
+  | 'ball'
+  | 'post'
+  | 'goal'
+  | 'ladder'
+  | 'hurdle'
+  | 'number'
+  | 'text'
+  | LineStyle
+  | 'zone-rect'
+  | 'zone-ellipse'
+
+const EQUIPMENT_TOOLS: Tool[] = ['cone', 'cup', 'post', 'goal', 'ladder', 'hurdle']
+const ELEMENT_TOOLS: Tool[] = ['player', 'ball', 'number', 'text']
+const DRAWING_TOOLS: Tool[] = ['pass', 'run', 'dribble', 'zone-rect', 'zone-ellipse']
 
 interface Props {
   value: DiagramData
@@ -27,6 +76,15 @@ interface Props {
 
 const GRID_SIZE = 20
 
+const ALIGN_OPTIONS: Array<{ value: AlignMode; label: string; icon: string }> = [
+  { value: 'left', label: 'Aligner à gauche', icon: '⇤' },
+  { value: 'center', label: 'Centrer horizontalement', icon: '↔' },
+  { value: 'right', label: 'Aligner à droite', icon: '⇥' },
+  { value: 'top', label: 'Aligner en haut', icon: '⤒' },
+  { value: 'middle', label: 'Centrer verticalement', icon: '↕' },
+  { value: 'bottom', label: 'Aligner en bas', icon: '⤓' },
+]
+
 function uid() {
   return Math.random().toString(36).slice(2, 10)
 }
@@ -34,7 +92,7 @@ function uid() {
 function cloneItems(items: Item[]): Item[] {
   return items.map((item) => {
     if (item.type === 'arrow') {
-      return { ...item, from: { ...item.from }, to: { ...item.to } }
+      return { ...item, from: { ...item.from }, to: { ...item.to }, ...(item.control ? { control: { ...item.control } } : {}) }
     }
     return { ...item }
   })
@@ -46,21 +104,39 @@ function snap(value: number): number {
 
 export default function DiagramComposer({ value, onChange, className, minHeight = 320 }: Props) {
   const [tool, setTool] = useState<Tool>('select')
-  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [history, setHistory] = useState<DiagramHistory>(EMPTY_DIAGRAM_HISTORY)
+  const [clipboard, setClipboard] = useState<DiagramClipboard | null>(null)
+  const [marquee, setMarquee] = useState<SelectionRect | null>(null)
   const [activeFrameIndex, setActiveFrameIndex] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [transitionFromIndex, setTransitionFromIndex] = useState<number | null>(null)
   const [transitionProgress, setTransitionProgress] = useState(0)
+  const rootRef = useRef<HTMLDivElement | null>(null)
   const svgRef = useRef<SVGSVGElement | null>(null)
   const stageRef = useRef<HTMLDivElement | null>(null)
-  const dragRef = useRef<{ id: string; dx: number; dy: number } | null>(null)
+  const dragRef = useRef<{
+    ids: string[]
+    origin: { x: number; y: number }
+    anchor: { x: number; y: number }
+    startFrames: DiagramData['frames']
+    dx: number
+    dy: number
+  } | null>(null)
+  const marqueeRef = useRef<{ additive: boolean } | null>(null)
+  // Changes made while this key is set (one pointer gesture, typing in one field) are undone together.
+  const historyKeyRef = useRef<string | null>(null)
+  const lastEmittedRef = useRef<DiagramData>(value)
   const arrowRef = useRef<{ id: string } | null>(null)
+  const controlRef = useRef<{ id: string } | null>(null)
+  const movementRef = useRef<{ id: string } | null>(null)
+  const zoneRef = useRef<{ id: string; origin: { x: number; y: number } } | null>(null)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [isPseudoFullscreen, setIsPseudoFullscreen] = useState(false)
   const effectiveFullscreen = isFullscreen || isPseudoFullscreen
 
   const frames = value.frames.length ? value.frames : createEmptyDiagramData().frames
-  const fps = Math.max(1, Math.min(8, Math.round(value.fps || 2)))
+  const fps = getPlaybackFps(value.fps)
   const rotationQuarterTurns = normalizeRotationQuarterTurns(value.rotationQuarterTurns, value.orientation)
   const fieldSize = getFieldSizeForQuarterTurns(rotationQuarterTurns)
   const isPortrait = rotationQuarterTurns % 2 === 1
@@ -78,6 +154,39 @@ export default function DiagramComposer({ value, onChange, className, minHeight
     if (activeFrameIndex >= frames.length) setActiveFrameIndex(frames.length - 1)
   }, [activeFrameIndex, frames.length])
 
+  // A diagram loaded from outside starts a fresh history.
+  useEffect(() => {
+    if (value === lastEmittedRef.current) return
+    lastEmittedRef.current = value
+    setHistory(EMPTY_DIAGRAM_HISTORY)
+  }, [value])
+
+  function applyChange(next: DiagramData) {
+    const before = value
+    setHistory((current) => recordDiagramChange(current, { before, after: next, mergeKey: historyKeyRef.current }))
+    lastEmittedRef.current = next
+    onChange(next)
+  }
+
+  function restoreFromHistory(result: { history: DiagramHistory; data: DiagramData } | null) {
+    if (!result) return
+    historyKeyRef.current = null
+    setHistory(result.history)
+    setIsPlaying(false)
+    setTransitionFromIndex(null)
+    setTransitionProgress(0)
+    lastEmittedRef.current = result.data
+    onChange(result.data)
+  }
+
+  function undo() {
+    restoreFromHistory(undoDiagramChange(history))
+  }
+
+  function redo() {
+    restoreFromHistory(redoDiagramChange(history))
+  }
+
   function getPoint(evt: React.PointerEvent): { x: number; y: number } {
     const svg = svgRef.current
     if (!svg) return { x: 0, y: 0 }
@@ -91,7 +200,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
   }
 
   function updateCurrentFrameItems(updater: (items: Item[]) => Item[]) {
-    onChange({
+    applyChange({
       ...value,
       frames: frames.map((frame, index) => (index === activeFrameIndex ? { ...frame, items: updater(frame.items) } : frame)),
     })
@@ -99,19 +208,19 @@ export default function DiagramComposer({ value, onChange, className, minHeight
 
   function addPersistentItem(item: Item) {
     const nextFrames = frames.map((frame) => ({ ...frame, items: [...frame.items, cloneItems([item])[0]] }))
-    onChange({ ...value, frames: nextFrames })
-    setSelectedId(item.id)
+    applyChange({ ...value, frames: nextFrames })
+    setSelectedIds([item.id])
   }
 
-  function removeItemEverywhere(itemId: string) {
-    onChange({
+  function removeItemsEverywhere(itemIds: string[]) {
+    applyChange({
       ...value,
-      frames: frames.map((frame) => ({ ...frame, items: frame.items.filter((it) => it.id !== itemId) })),
+      frames: frames.map((frame) => ({ ...frame, items: frame.items.filter((it) => !itemIds.includes(it.id)) })),
     })
   }
 
   function updateItemEverywhere(itemId: string, updater: (item: Item) => Item) {
-    onChange({
+    applyChange({
       ...value,
       frames: frames.map((frame) => ({
         ...frame,
@@ -120,28 +229,87 @@ export default function DiagramComposer({ value, onChange, className, minHeight
     })
   }
 
-  function updateItemFromCurrentForward(itemId: string, updater: (item: Item) => Item) {
-    onChange({
+  function updateMovementTiming(itemId: string, timing: MovementTiming | null) {
+    applyChange({
       ...value,
-      frames: frames.map((frame, index) => ({
-        ...frame,
-        items: index < activeFrameIndex
-          ? frame.items
-          : frame.items.map((item) => (item.id === itemId ? updater(item) : item)),
-      })),
+      frames: frames.map((frame, index) => (index === activeFrameIndex ? setMovementTiming(frame, itemId, timing) : frame)),
     })
   }
 
   function deleteSelected() {
-    if (!selectedId) return
-    if (!window.confirm('Supprimer cet élément sur toutes les étapes ?')) return
-    removeItemEverywhere(selectedId)
-    setSelectedId(null)
+    if (selectedItems.length === 0) return
+    removeItemsEverywhere(selectedItems.map((item) => item.id))
+    setSelectedIds([])
+  }
+
+  function copySelection() {
+    if (selectedItems.length === 0) return
+    setClipboard({ sourceFrameIndex: activeFrameIndex, items: cloneItems(selectedItems) })
+  }
+
+  function pasteClipboard() {
+    if (!clipboard || isPlaying) return
+    const result = pasteItems(frames, activeFrameIndex, clipboard, uid)
+    applyChange({ ...value, frames: result.frames })
+    setSelectedIds(result.pastedIds)
+    if (clipboard.sourceFrameIndex === activeFrameIndex) {
+      // Pasting again keeps offsetting from the latest copies instead of stacking on them.
+      const pasted = result.frames[activeFrameIndex].items.filter((item) => result.pastedIds.includes(item.id))
+      setClipboard({ sourceFrameIndex: activeFrameIndex, items: cloneItems(pasted) })
+    }
+  }
+
+  function alignSelection(mode: AlignMode) {
+    applyChange({ ...value, frames: applyItemPositions(frames, activeFrameIndex, computeAlignment(activeFrame.items, selectedIds, mode)) })
+  }
+
+  function distributeSelection(axis: DistributeAxis) {
+    applyChange({ ...value, frames: applyItemPositions(frames, activeFrameIndex, computeDistribution(activeFrame.items, selectedIds, axis)) })
+  }
+
+  function duplicateStepAndContinue() {
+    const nextFrames = duplicateFrameForward(frames, activeFrameIndex)
+    if (!nextFrames) return
+    const target = frames[activeFrameIndex + 1]
+    if (
+      JSON.stringify(target.items) !== JSON.stringify(activeFrame.items)
+      && !window.confirm(`Remplacer l'étape ${activeFrameIndex + 2} par une copie de l'étape ${activeFrameIndex + 1} ?`)
+    ) return
+    applyChange({ ...value, frames: nextFrames })
+    goToStep(activeFrameIndex + 1)
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return
+    const key = e.key.toLowerCase()
+    const withModifier = e.ctrlKey || e.metaKey
+    if (withModifier && key === 'z') {
+      e.preventDefault()
+      if (e.shiftKey) redo()
+      else undo()
+    } else if (withModifier && key === 'y') {
+      e.preventDefault()
+      redo()
+    } else if (withModifier && key === 'c') {
+      e.preventDefault()
+      copySelection()
+    } else if (withModifier && key === 'v') {
+      e.preventDefault()
+      pasteClipboard()
+    } else if (withModifier && key === 'a') {
+      e.preventDefault()
+      if (!isPlaying) setSelectedIds(activeFrame.items.map((item) => item.id))
+    } else if (key === 'delete' || key === 'backspace') {
+      e.preventDefault()
+      deleteSelected()
+    } else if (key === 'escape') {
+      setSelectedIds([])
+    }
   }
 
   function resetCurrentStep() {
     if (!window.confirm('Réinitialiser complètement le diagramme ?')) return
-    onChange({
+    applyChange({
       ...value,
       frames: createEmptyDiagramData().frames,
     })
@@ -149,7 +317,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
     setIsPlaying(false)
     setTransitionFromIndex(null)
     setTransitionProgress(0)
-    setSelectedId(null)
+    setSelectedIds([])
   }
 
   function goToStep(index: number) {
@@ -158,13 +326,21 @@ export default function DiagramComposer({ value, onChange, className, minHeight
     setTransitionFromIndex(null)
     setTransitionProgress(0)
     setActiveFrameIndex(index)
-    setSelectedId(null)
+    setSelectedIds([])
   }
 
   function goToPreviousStep() {
     goToStep(activeFrameIndex - 1)
   }
 
+  function onPropertyFocus(e: React.FocusEvent) {
+    if (e.target instanceof HTMLInputElement) historyKeyRef.current = uid()
+  }
+
+  function onPropertyBlur() {
+    historyKeyRef.current = null
+  }
+
   const animateToNextStep = useCallback((keepPlaying: boolean) => {
     if (activeFrameIndex >= frames.length - 1) {
       setIsPlaying(false)
@@ -174,7 +350,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
     }
 
     const fromIndex = activeFrameIndex
-    const duration = Math.max(220, Math.round(1000 / fps))
+    const duration = getTransitionDurationMs(frames[fromIndex].items, frames[fromIndex + 1], fps)
     const start = performance.now()
     setTransitionFromIndex(fromIndex)
     setTransitionProgress(0)
@@ -195,7 +371,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
 
     raf = window.requestAnimationFrame(tick)
     return () => window.cancelAnimationFrame(raf)
-  }, [activeFrameIndex, fps, frames.length])
+  }, [activeFrameIndex, fps, frames])
 
   function goToNextStep() {
     if (isPlaying) return
@@ -204,7 +380,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
 
   function startPlayback() {
     if (frames.length <= 1) return
-    setSelectedId(null)
+    setSelectedIds([])
     setTransitionFromIndex(null)
     setTransitionProgress(0)
     if (activeFrameIndex >= frames.length - 1) setActiveFrameIndex(0)
@@ -212,7 +388,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
   }
 
   function toggleOrientation() {
-    onChange(rotateDiagramClockwise({ ...value, frames }))
+    applyChange(rotateDiagramClockwise({ ...value, frames }))
   }
 
   async function toggleFullscreen() {
@@ -275,36 +451,51 @@ export default function DiagramComposer({ value, onChange, className, minHeight
       return
     }
 
-    if (tool === 'cone') {
-      addPersistentItem({ type: 'cone', id: uid(), x: p.x, y: p.y })
+    if (tool === 'cone' || tool === 'cup' || tool === 'ball' || tool === 'post' || tool === 'goal' || tool === 'ladder' || tool === 'hurdle') {
+      addPersistentItem({ type: tool, id: uid(), x: p.x, y: p.y })
       return
     }
 
-    if (tool === 'cup') {
-      addPersistentItem({ type: 'cup', id: uid(), x: p.x, y: p.y })
+    if (tool === 'number') {
+      const highest = frames.reduce(
+        (max, frame) => frame.items.reduce((current, item) => (item.type === 'number' ? Math.max(current, item.value) : current), max),
+        0,
+      )
+      addPersistentItem({ type: 'number', id: uid(), x: p.x, y: p.y, value: highest + 1, color: 'blue' })
       return
     }
 
-    if (tool === 'ball') {
-      addPersistentItem({ type: 'ball', id: uid(), x: p.x, y: p.y })
+    if (tool === 'text') {
+      addPersistentItem({ type: 'text', id: uid(), x: p.x, y: p.y, text: 'Texte' })
       return
     }
 
-    if (tool === 'post') {
-      addPersistentItem({ type: 'post', id: uid(), x: p.x, y: p.y })
+    if (tool === 'zone-rect' || tool === 'zone-ellipse') {
+      const id = uid()
+      const shape: ZoneShape = tool === 'zone-ellipse' ? 'ellipse' : 'rect'
+      zoneRef.current = { id, origin: p }
+      addPersistentItem({ type: 'zone', id, x: p.x, y: p.y, width: 10, height: 10, shape, color: 'green' })
       return
     }
 
-    if (tool === 'arrow') {
+    if (tool === 'pass' || tool === 'run' || tool === 'dribble') {
       const id = uid()
       arrowRef.current = { id }
-      const arrow: Arrow = { type: 'arrow', id, from: p, to: p }
+      const arrow: Arrow = { type: 'arrow', id, from: p, to: p, style: tool }
       updateCurrentFrameItems((items) => [...items, arrow])
-      setSelectedId(id)
+      setSelectedIds([id])
       return
     }
 
-    setSelectedId(null)
+    marqueeRef.current = { additive: e.shiftKey }
+    setMarquee({ x1: raw.x, y1: raw.y, x2: raw.x, y2: raw.y })
+    if (!e.shiftKey) setSelectedIds([])
+  }
+
+  function onCanvasDownCapture(e: React.PointerEvent<SVGSVGElement>) {
+    historyKeyRef.current = uid()
+    e.currentTarget.setPointerCapture?.(e.pointerId)
+    rootRef.current?.focus({ preventScroll: true })
   }
 
   function onCanvasMove(e: React.PointerEvent) {
@@ -312,61 +503,119 @@ export default function DiagramComposer({ value, onChange, className, minHeight
     const p = { x: snap(raw.x), y: snap(raw.y) }
 
     if (dragRef.current) {
-      const { id, dx, dy } = dragRef.current
-      const currentItem = activeFrame.items.find((item) => item.id === id)
-      const nextX = snap(p.x + dx)
-      const nextY = snap(p.y + dy)
-      if (currentItem && (currentItem.type === 'cone' || currentItem.type === 'cup' || currentItem.type === 'post')) {
-        updateItemEverywhere(id, (item) => (item.type === 'arrow' ? item : { ...item, x: nextX, y: nextY }))
-      } else if (currentItem && (currentItem.type === 'player' || currentItem.type === 'ball')) {
-        updateItemFromCurrentForward(id, (item) => (item.type === 'arrow' ? item : { ...item, x: nextX, y: nextY }))
-      } else {
-        updateCurrentFrameItems((items) =>
-          items.map((it) => {
-            if (it.id !== id) return it
-            if (it.type === 'arrow') return it
-            return { ...it, x: nextX, y: nextY }
-          }),
-        )
+      const drag = dragRef.current
+      // The grabbed item snaps to the grid, the rest of the group keeps its relative position.
+      const dx = snap(drag.anchor.x + raw.x - drag.origin.x) - drag.anchor.x
+      const dy = snap(drag.anchor.y + raw.y - drag.origin.y) - drag.anchor.y
+      if (dx !== drag.dx || dy !== drag.dy) {
+        drag.dx = dx
+        drag.dy = dy
+        applyChange({ ...value, frames: moveItemsAcrossFrames(drag.startFrames, activeFrameIndex, drag.ids, dx, dy) })
       }
     }
 
+    if (marqueeRef.current) {
+      setMarquee((current) => (current ? { ...current, x2: raw.x, y2: raw.y } : current))
+    }
+
     if (arrowRef.current) {
       updateCurrentFrameItems((items) =>
         items.map((it) => (it.id === arrowRef.current!.id && it.type === 'arrow' ? { ...it, to: p } : it)),
       )
     }
+
+    if (controlRef.current) {
+      // The control point is not snapped so curves stay smooth.
+      updateCurrentFrameItems((items) =>
+        items.map((it) => (it.id === controlRef.current!.id && it.type === 'arrow' ? { ...it, control: raw } : it)),
+      )
+    }
+
+    if (movementRef.current) {
+      const { id } = movementRef.current
+      updateMovementTiming(id, { ...getMovementTiming(activeFrame, id, fps), path: 'curved', control: raw })
+    }
+
+    if (zoneRef.current) {
+      const { id, origin } = zoneRef.current
+      updateItemEverywhere(id, (item) => (item.type === 'zone'
+        ? {
+            ...item,
+            x: (origin.x + p.x) / 2,
+            y: (origin.y + p.y) / 2,
+            width: Math.max(10, Math.abs(p.x - origin.x)),
+            height: Math.max(10, Math.abs(p.y - origin.y)),
+          }
+        : item))
+    }
   }
 
   function onCanvasUp() {
+    if (marqueeRef.current && marquee) {
+      const inside = selectItemsInRect(activeFrame.items, marquee)
+      const additive = marqueeRef.current.additive
+      setSelectedIds((current) => (additive ? [...current, ...inside.filter((id) => !current.includes(id))] : inside))
+    }
+    marqueeRef.current = null
+    setMarquee(null)
+    historyKeyRef.current = null
     dragRef.current = null
     arrowRef.current = null
+    controlRef.current = null
+    movementRef.current = null
+    zoneRef.current = null
+  }
+
+  function startControlDrag(item: Arrow, e: React.PointerEvent) {
+    e.stopPropagation()
+    controlRef.current = { id: item.id }
+    setSelectedIds([item.id])
+  }
+
+  function startMovementControlDrag(itemId: string, e: React.PointerEvent) {
+    e.stopPropagation()
+    movementRef.current = { id: itemId }
   }
 
   function startDrag(item: Item, e: React.PointerEvent) {
     e.stopPropagation()
-    if (item.type === 'arrow') return
-    const p = getPoint(e)
-    dragRef.current = { id: item.id, dx: item.x - p.x, dy: item.y - p.y }
-    setSelectedId(item.id)
+    if (isPlaying) return
+    if (e.shiftKey) {
+      setSelectedIds((current) => (current.includes(item.id) ? current.filter((id) => id !== item.id) : [...current, item.id]))
+      return
+    }
+    const ids = selectedIds.includes(item.id) ? selectedIds : [item.id]
+    setSelectedIds(ids)
+    dragRef.current = {
+      ids,
+      origin: getPoint(e),
+      anchor: item.type === 'arrow' ? item.from : { x: item.x, y: item.y },
+      startFrames: frames,
+      dx: 0,
+      dy: 0,
+    }
   }
 
   const displayItems = useMemo(() => {
     if (transitionFromIndex === null || transitionFromIndex >= frames.length - 1) return activeFrame.items
-    const fromItems = frames[transitionFromIndex]?.items || []
-    const toItems = frames[transitionFromIndex + 1]?.items || activeFrame.items
-    const fromMap = new Map(fromItems.map((item) => [item.id, item]))
-    const toIds = new Set(toItems.map((item) => item.id))
-    const interpolated = toItems.map((item) => interpolateItem(fromMap.get(item.id), item, transitionProgress))
-    if (transitionProgress < 1) {
-      fromItems.forEach((item) => {
-        if (!toIds.has(item.id)) interpolated.push(item)
-      })
-    }
-    return interpolated
-  }, [activeFrame.items, frames, transitionFromIndex, transitionProgress])
+    const fromItems = frames[transitionFromIndex].items
+    const toFrame = frames[transitionFromIndex + 1]
+    const duration = getTransitionDurationMs(fromItems, toFrame, fps)
+    return interpolateTimedItems(fromItems, toFrame, transitionProgress * duration, fps)
+  }, [activeFrame.items, fps, frames, transitionFromIndex, transitionProgress])
 
-  const selected = useMemo(() => activeFrame.items.find((it) => it.id === selectedId) || null, [activeFrame.items, selectedId])
+  const selectedItems = useMemo(() => activeFrame.items.filter((it) => selectedIds.includes(it.id)), [activeFrame.items, selectedIds])
+  const selected = selectedItems.length === 1 ? selectedItems[0] : null
+  const alignableCount = selectedItems.filter((item) => item.type !== 'arrow').length
+  const previousFrame = activeFrameIndex > 0 ? frames[activeFrameIndex - 1] : null
+  // Path of the selected item from the previous step, with a handle to bend it when the move is curved.
+  const movement = useMemo(() => {
+    if (!selected || selected.type === 'arrow' || !previousFrame || isPlaying || transitionFromIndex !== null) return null
+    const from = previousFrame.items.find((item) => item.id === selected.id)
+    if (!from || from.type === 'arrow' || (from.x === selected.x && from.y === selected.y)) return null
+    const timing = getMovementTiming(activeFrame, selected.id, fps)
+    return { id: selected.id, from, to: selected, timing, control: getMovementControl(from, selected, timing) }
+  }, [activeFrame, fps, isPlaying, previousFrame, selected, transitionFromIndex])
   const progressRatio = frames.length <= 1
     ? 1
     : Math.min(
@@ -378,11 +627,11 @@ export default function DiagramComposer({ value, onChange, className, minHeight
       )
 
   return (
-    <div className={`diagram-composer ${className || ''}`}>
+    <div className={`diagram-composer ${className || ''}`} ref={rootRef} tabIndex={-1} onKeyDown={onKeyDown}>
       <div className="diagram-toolbar" role="toolbar" aria-label="Outils du diagramme">
         <div className="toolbar-group">
           <IconButton active={tool === 'select'} onClick={() => setTool('select')} label="Sélection" icon="⌖" />
-          <IconButton active={false} onClick={deleteSelected} label="Supprimer" icon="⌫" disabled={!selectedId} danger />
+          <IconButton active={false} onClick={deleteSelected} label="Supprimer (Suppr)" icon="⌫" disabled={selectedItems.length === 0} danger />
           <IconButton
             active={false}
             onClick={resetCurrentStep}
@@ -391,29 +640,53 @@ export default function DiagramComposer({ value, onChange, className, minHeight
             disabled={frames.every((frame) => frame.items.length === 0)}
           />
         </div>
+        <div className="toolbar-group">
+          <IconButton active={false} onClick={undo} label="Annuler (Ctrl+Z)" icon="↶" disabled={history.past.length === 0} />
+          <IconButton active={false} onClick={redo} label="Rétablir (Ctrl+Maj+Z)" icon="↷" disabled={history.future.length === 0} />
+          <IconButton active={false} onClick={copySelection} label="Copier (Ctrl+C)" icon="⧉" disabled={selectedItems.length === 0} />
+          <IconButton active={false} onClick={pasteClipboard} label="Coller (Ctrl+V)" icon="⎘" disabled={!clipboard || isPlaying} />
+        </div>
         <div className="toolbar-group toolbar-grow">
           <label className="material-picker">
             <span>Matériel</span>
             <select
-              value={tool === 'cone' || tool === 'cup' || tool === 'post' ? tool : ''}
+              value={EQUIPMENT_TOOLS.includes(tool) ? tool : ''}
               onChange={(e) => setTool((e.target.value || 'select') as Tool)}
             >
               <option value="">Choisir un matériel</option>
               <option value="cone">Cône</option>
               <option value="cup">Coupelle</option>
               <option value="post">Poteau</option>
+              <option value="goal">Mini-but</option>
+              <option value="ladder">Échelle de rythme</option>
+              <option value="hurdle">Haie</option>
             </select>
           </label>
           <label className="material-picker">
             <span>Éléments</span>
             <select
-              value={tool === 'player' || tool === 'ball' || tool === 'arrow' ? tool : ''}
+              value={ELEMENT_TOOLS.includes(tool) ? tool : ''}
               onChange={(e) => setTool((e.target.value || 'select') as Tool)}
             >
               <option value="">Choisir un élément</option>
               <option value="player">Joueur</option>
               <option value="ball">Ballon</option>
-              <option value="arrow">Flèche</option>
+              <option value="number">Numéro</option>
+              <option value="text">Texte</option>
+            </select>
+          </label>
+          <label className="material-picker">
+            <span>Tracés</span>
+            <select
+              value={DRAWING_TOOLS.includes(tool) ? tool : ''}
+              onChange={(e) => setTool((e.target.value || 'select') as Tool)}
+            >
+              <option value="">Choisir un tracé</option>
+              {LINE_STYLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+              <option value="zone-rect">Zone rectangulaire</option>
+              <option value="zone-ellipse">Zone ronde</option>
             </select>
           </label>
         </div>
@@ -474,6 +747,7 @@ export default function DiagramComposer({ value, onChange, className, minHeight
           viewBox={`0 0 ${fieldWidth} ${fieldHeight}`}
           className="diagram-canvas"
           style={{ minHeight: effectiveFullscreen ? 'calc(100vh - 190px)' : minHeight }}
+          onPointerDownCapture={onCanvasDownCapture}
           onPointerDown={onCanvasDown}
           onPointerMove={onCanvasMove}
           onPointerUp={onCanvasUp}
@@ -493,7 +767,48 @@ export default function DiagramComposer({ value, onChange, className, minHeight
               <rect x={penaltyX} y={fieldHeight - 45} width={120} height={40} fill="none" stroke="#c7e2c7" />
             </>
           )}
-          {displayItems.map((item) => renderItem(item, selectedId, startDrag, setSelectedId))}
+          {movement && (
+            <path
+              d={movement.timing.path === 'curved'
+                ? `M${movement.from.x},${movement.from.y} Q${movement.control.x},${movement.control.y} ${movement.to.x},${movement.to.y}`
+                : `M${movement.from.x},${movement.from.y} L${movement.to.x},${movement.to.y}`}
+              fill="none"
+              stroke="#0284c7"
+              strokeWidth={1.5}
+              strokeDasharray="3 4"
+              pointerEvents="none"
+            />
+          )}
+          {orderItemsForRender(displayItems).map((item) => renderItem(item, selectedIds, selectedItems.length === 1, startDrag, startControlDrag))}
+          {movement?.timing.path === 'curved' && (
+            <rect
+              x={movement.control.x - 6}
+              y={movement.control.y - 6}
+              width={12}
+              height={12}
+              rx={2}
+              fill="#fff"
+              stroke="#0284c7"
+              strokeWidth={2}
+              style={{ cursor: 'grab' }}
+              onPointerDown={(e) => startMovementControlDrag(movement.id, e)}
+            >
+              <title>Glisser pour courber la trajectoire</title>
+            </rect>
+          )}
+          {marquee && (
+            <rect
+              x={Math.min(marquee.x1, marquee.x2)}
+              y={Math.min(marquee.y1, marquee.y2)}
+              width={Math.abs(marquee.x2 - marquee.x1)}
+              height={Math.abs(marquee.y2 - marquee.y1)}
+              fill="#7dd3fc"
+              fillOpacity={0.15}
+              stroke="#0284c7"
+              strokeDasharray="4 3"
+              pointerEvents="none"
+            />
+          )}
         </svg>
 
         <div className="step-buttons" aria-label="Sélection des étapes">
@@ -507,17 +822,69 @@ export default function DiagramComposer({ value, onChange, className, minHeight
               {index + 1}
             </button>
           ))}
+          <button
+            type="button"
+            className="tool-btn duplicate-step-btn"
+            onClick={duplicateStepAndContinue}
+            disabled={isPlaying || activeFrameIndex >= frames.length - 1}
+            title="Copier cette étape dans la suivante et l'afficher"
+          >
+            Dupliquer l'étape et continuer
+          </button>
         </div>
       </div>
 
+      {previousFrame && !isPlaying && (
+        <div onFocusCapture={onPropertyFocus} onBlurCapture={onPropertyBlur}>
+          <DiagramTimeline
+            fromItems={previousFrame.items}
+            frame={activeFrame}
+            stepIndex={activeFrameIndex}
+            fps={fps}
+            selectedIds={selectedIds}
+            onSelect={(itemId) => setSelectedIds([itemId])}
+            onChange={updateMovementTiming}
+          />
+        </div>
+      )}
+
+      {selectedItems.length > 1 && !isPlaying && (
+        <>
+          <div className="selected-indicator">
+            {selectedItems.length} éléments sélectionnés
+          </div>
+          {alignableCount > 1 && (
+            <div className="diagram-align-actions" role="group" aria-label="Alignement">
+              {ALIGN_OPTIONS.map((option) => (
+                <IconButton key={option.value} active={false} onClick={() => alignSelection(option.value)} label={option.label} icon={option.icon} />
+              ))}
+              <IconButton
+                active={false}
+                onClick={() => distributeSelection('horizontal')}
+                label="Répartir horizontalement"
+                icon="⋯"
+                disabled={alignableCount < 3}
+              />
+              <IconButton
+                active={false}
+                onClick={() => distributeSelection('vertical')}
+                label="Répartir verticalement"
+                icon="⋮"
+                disabled={alignableCount < 3}
+              />
+            </div>
+          )}
+        </>
+      )}
+
       {selected && !isPlaying && (
         <div className="selected-indicator">
-          Élément sélectionné : {getItemLabel(selected)}
+          Élément sélectionné : {getDiagramItemLabel(selected)}
         </div>
       )}
 
       {selected && selected.type === 'player' && !isPlaying && (
-        <div className="diagram-properties">
+        <div className="diagram-properties" onFocusCapture={onPropertyFocus} onBlurCapture={onPropertyBlur}>
           <label>
             Couleur
             <select
@@ -544,121 +911,194 @@ export default function DiagramComposer({ value, onChange, className, minHeight
           </label>
         </div>
       )}
+
+      {selected && (selected.type === 'number' || selected.type === 'zone') && !isPlaying && (
+        <div className="diagram-properties" onFocusCapture={onPropertyFocus} onBlurCapture={onPropertyBlur}>
+          <label>
+            Couleur
+            <select
+              value={selected.color}
+              onChange={(e) => {
+                const color = e.target.value as PlayerColor
+                updateItemEverywhere(selected.id, (item) => (item.type === 'number' || item.type === 'zone' ? { ...item, color } : item))
+              }}
+            >
+              {PLAYER_COLOR_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {selected.type === 'number' ? (
+            <label>
+              Numéro
+              <input
+                type="number"
+                min={1}
+                value={selected.value}
+                onChange={(e) => {
+                  const numberValue = Math.max(1, Math.trunc(Number(e.target.value)) || 1)
+                  updateItemEverywhere(selected.id, (item) => (item.type === 'number' ? { ...item, value: numberValue } : item))
+                }}
+              />
+            </label>
+          ) : (
+            <label>
+              Forme
+              <select
+                value={selected.shape}
+                onChange={(e) => {
+                  const shape = e.target.value as ZoneShape
+                  updateItemEverywhere(selected.id, (item) => (item.type === 'zone' ? { ...item, shape } : item))
+                }}
+              >
+                <option value="rect">Rectangle</option>
+                <option value="ellipse">Ronde</option>
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
+      {selected && selected.type === 'text' && !isPlaying && (
+        <div className="diagram-properties" onFocusCapture={onPropertyFocus} onBlurCapture={onPropertyBlur}>
+          <label>
+            Texte
+            <input
+              value={selected.text}
+              maxLength={60}
+              onChange={(e) => {
+                const text = e.target.value
+                updateItemEverywhere(selected.id, (item) => (item.type === 'text' ? { ...item, text } : item))
+              }}
+            />
+          </label>
+        </div>
+      )}
+
+      {selected && (selected.type === 'goal' || selected.type === 'ladder' || selected.type === 'hurdle') && !isPlaying && (
+        <div className="diagram-properties">
+          <button
+            type="button"
+            className="tool-btn"
+            onClick={() => updateItemEverywhere(selected.id, (item) => (
+              item.type === 'goal' || item.type === 'ladder' || item.type === 'hurdle'
+                ? { ...item, angle: ((item.angle ?? 0) + 45) % 360 }
+                : item
+            ))}
+          >
+            Pivoter de 45°
+          </button>
+        </div>
+      )}
+
+      {selected && selected.type === 'arrow' && !isPlaying && (
+        <div className="diagram-properties">
+          <label>
+            Tracé
+            <select
+              value={selected.style ?? 'pass'}
+              onChange={(e) => {
+                const style = e.target.value as LineStyle
+                updateCurrentFrameItems((items) => items.map((it) => (it.id === selected.id && it.type === 'arrow' ? { ...it, style } : it)))
+              }}
+            >
+              {LINE_STYLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="tool-btn"
+            disabled={!selected.control}
+            onClick={() => updateCurrentFrameItems((items) => items.map((it) => {
+              if (it.id !== selected.id || it.type !== 'arrow') return it
+              const straight: Arrow = { ...it }
+              delete straight.control
+              return straight
+            }))}
+          >
+            Redresser
+          </button>
+        </div>
+      )}
     </div>
   )
 }
 
 function renderItem(
   item: Item,
-  selectedId: string | null,
+  selectedIds: string[],
+  showHandles: boolean,
   startDrag: (item: Item, e: React.PointerEvent) => void,
-  setSelectedId: (id: string | null) => void,
+  startControlDrag: (item: Arrow, e: React.PointerEvent) => void,
 ) {
+  const isSelected = selectedIds.includes(item.id)
+
   if (item.type === 'arrow') {
-    const isSelected = selectedId === item.id
+    const control = getArrowControl(item)
     return (
-      <g key={item.id}>
-        <defs>
-          <marker id={`arrow-${item.id}`} markerWidth="8" markerHeight="8" refX="6" refY="3" orient="auto">
-            <path d="M0,0 L0,6 L6,3 Z" fill="#111827" />
-          </marker>
-        </defs>
-        <line
-          x1={item.from.x}
-          y1={item.from.y}
-          x2={item.to.x}
-          y2={item.to.y}
-          stroke={isSelected ? '#0284c7' : '#111827'}
-          strokeWidth={isSelected ? 3 : 2}
-          markerEnd={`url(#arrow-${item.id})`}
-          onPointerDown={(e) => {
-            e.stopPropagation()
-            setSelectedId(item.id)
-          }}
-        />
+      <g key={item.id} onPointerDown={(e) => startDrag(item, e)}>
+        <DiagramItemShape item={item} markerPrefix="arrow" selected={isSelected} />
         {isSelected && (
-          <line
-            x1={item.from.x}
-            y1={item.from.y}
-            x2={item.to.x}
-            y2={item.to.y}
-            stroke="#7dd3fc"
-            strokeWidth={8}
-            strokeOpacity={0.28}
-            strokeLinecap="round"
-            pointerEvents="none"
-          />
+          <>
+            <path
+              d={item.control
+                ? `M${item.from.x},${item.from.y} Q${control.x},${control.y} ${item.to.x},${item.to.y}`
+                : `M${item.from.x},${item.from.y} L${item.to.x},${item.to.y}`}
+              fill="none"
+              stroke="#7dd3fc"
+              strokeWidth={8}
+              strokeOpacity={0.28}
+              strokeLinecap="round"
+              pointerEvents="none"
+            />
+            {showHandles && (
+              <circle
+                cx={control.x}
+                cy={control.y}
+                r={7}
+                fill="#fff"
+                stroke="#0284c7"
+                strokeWidth={2}
+                style={{ cursor: 'grab' }}
+                onPointerDown={(e) => startControlDrag(item, e)}
+              >
+                <title>Glisser pour courber la ligne</title>
+              </circle>
+            )}
+          </>
         )}
       </g>
     )
   }
 
-  if (item.type === 'cone') {
-    const isSelected = selectedId === item.id
-    return (
-      <g key={item.id} onPointerDown={(e) => startDrag(item, e)}>
-        {isSelected && <circle cx={item.x} cy={item.y + 2} r={18} fill="#7dd3fc" fillOpacity={0.26} />}
-        <polygon
-          points={`${item.x},${item.y - 10} ${item.x - 10},${item.y + 10} ${item.x + 10},${item.y + 10}`}
-          fill="#f97316"
-          stroke={isSelected ? '#0284c7' : '#7c2d12'}
-          strokeWidth={isSelected ? 2.4 : 1}
-        />
-      </g>
-    )
-  }
-
-  if (item.type === 'cup') {
-    const isSelected = selectedId === item.id
-    return (
-      <g key={item.id} onPointerDown={(e) => startDrag(item, e)}>
-        {isSelected && <circle cx={item.x} cy={item.y} r={18} fill="#7dd3fc" fillOpacity={0.26} />}
-        <circle cx={item.x} cy={item.y} r={10} fill="#fde047" stroke={isSelected ? '#0284c7' : '#a16207'} strokeWidth={isSelected ? 2.4 : 1} />
-        <circle cx={item.x} cy={item.y} r={4} fill="#fffbeb" stroke={isSelected ? '#0284c7' : '#a16207'} strokeWidth={isSelected ? 1.8 : 1} />
-      </g>
-    )
-  }
-
-  if (item.type === 'ball') {
-    const isSelected = selectedId === item.id
-    return (
-      <g key={item.id} onPointerDown={(e) => startDrag(item, e)}>
-        {isSelected && <circle cx={item.x} cy={item.y} r={18} fill="#7dd3fc" fillOpacity={0.26} />}
-        <circle cx={item.x} cy={item.y} r={10} fill="#ffffff" stroke={isSelected ? '#0284c7' : '#111827'} strokeWidth={isSelected ? 2.4 : 1} />
-        <path d={`M${item.x - 5},${item.y} L${item.x + 5},${item.y} M${item.x},${item.y - 5} L${item.x},${item.y + 5}`} stroke="#111827" strokeWidth={1.2} />
-      </g>
-    )
-  }
-
-  if (item.type === 'post') {
-    const isSelected = selectedId === item.id
-    return (
-      <g key={item.id} onPointerDown={(e) => startDrag(item, e)}>
-        {isSelected && <circle cx={item.x} cy={item.y} r={20} fill="#7dd3fc" fillOpacity={0.26} />}
-        <rect x={item.x - 4} y={item.y - 16} width={8} height={32} rx={2} fill="#94a3b8" stroke={isSelected ? '#0284c7' : '#334155'} strokeWidth={isSelected ? 2.4 : 1} />
-      </g>
-    )
-  }
-
-  const isSelected = selectedId === item.id
   return (
     <g key={item.id} onPointerDown={(e) => startDrag(item, e)}>
-      {isSelected && <circle cx={item.x} cy={item.y} r={21} fill="#7dd3fc" fillOpacity={0.28} />}
-      <circle cx={item.x} cy={item.y} r={14} fill={getPlayerFill(item.color)} stroke={isSelected ? '#0284c7' : '#111827'} strokeWidth={isSelected ? 2.6 : 1} />
-      <text x={item.x} y={item.y + 4} textAnchor="middle" fontSize="12" fill="white" fontWeight={700}>
-        {item.label || ''}
-      </text>
+      {isSelected && getSelectionHalo(item)}
+      <DiagramItemShape item={item} markerPrefix="arrow" selected={isSelected} />
     </g>
   )
 }
 
-function getItemLabel(item: Item): string {
-  if (item.type === 'player') return 'Joueur'
-  if (item.type === 'cone') return 'Cône'
-  if (item.type === 'cup') return 'Coupelle'
-  if (item.type === 'ball') return 'Ballon'
-  if (item.type === 'post') return 'Poteau'
-  return 'Flèche'
+function getSelectionHalo(item: Exclude<Item, Arrow>) {
+  if (item.type === 'zone') {
+    return (
+      <rect
+        x={item.x - item.width / 2 - 4}
+        y={item.y - item.height / 2 - 4}
+        width={item.width + 8}
+        height={item.height + 8}
+        rx={6}
+        fill="#7dd3fc"
+        fillOpacity={0.18}
+      />
+    )
+  }
+  if (item.type === 'ladder') return <circle cx={item.x} cy={item.y} r={36} fill="#7dd3fc" fillOpacity={0.22} />
+  if (item.type === 'player') return <circle cx={item.x} cy={item.y} r={21} fill="#7dd3fc" fillOpacity={0.28} />
+  if (item.type === 'post' || item.type === 'goal' || item.type === 'text') return <circle cx={item.x} cy={item.y} r={22} fill="#7dd3fc" fillOpacity={0.26} />
+  return <circle cx={item.x} cy={item.y + (item.type === 'cone' ? 2 : 0)} r={18} fill="#7dd3fc" fillOpacity={0.26} />
 }
 
 function IconButton({
@@ -0,0 +1,124 @@
+import { useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  buildDiagramAnimation,
+  buildDiagramExportFileName,
+  exportDiagramGif,
+  exportDiagramVideo,
+  exportStoryboardPng,
+  printStoryboard,
+  renderDiagramStoryboard,
+  shareOrDownloadFile,
+  type DiagramMarkupRenderer,
+} from '../features/diagramExport'
+import { CloseIcon } from './icons'
+import DiagramFieldSvg from './DiagramFieldSvg'
+import { getFieldSizeForQuarterTurns, type DiagramFrame } from './diagramShared'
+import './DiagramExportModal.css'
+
+type DiagramExportModalProps = {
+  frames: DiagramFrame[]
+  fps: number
+  quarterTurns: number
+  title?: string
+  onClose: () => void
+}
+
+type ExportKind = 'gif' | 'video' | 'png' | 'pdf'
+
+// react-dom/server is only needed once an export starts, keep it out of the main bundle.
+async function loadMarkupRenderer(quarterTurns: number): Promise<DiagramMarkupRenderer> {
+  const { renderToStaticMarkup } = await import('react-dom/server')
+  return (items, size) => renderToStaticMarkup(
+    <DiagramFieldSvg items={items} quarterTurns={quarterTurns} width={size.width} height={size.height} />,
+  )
+}
+
+export default function DiagramExportModal({ frames, fps, quarterTurns, title, onClose }: DiagramExportModalProps) {
+  const [running, setRunning] = useState<ExportKind | null>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const field = getFieldSizeForQuarterTurns(quarterTurns)
+  const documentTitle = title || 'Diagramme'
+  const canRecordVideo = typeof MediaRecorder !== 'undefined'
+
+  async function run(kind: ExportKind) {
+    const printWindow = kind === 'pdf' ? window.open('', '_blank') : null
+    if (kind === 'pdf' && !printWindow) {
+      setError("Autorisez les fenêtres pop-up pour imprimer la planche.")
+      return
+    }
+    setRunning(kind)
+    setError(null)
+    setProgress(null)
+    try {
+      const renderMarkup = await loadMarkupRenderer(quarterTurns)
+      const onProgress = (done: number, total: number) => setProgress(
+        kind === 'video' && done === total ? 'Enregistrement de la vidéo…' : `Rendu des images ${done}/${total}…`,
+      )
+      if (kind === 'gif' || kind === 'video') {
+        const animation = buildDiagramAnimation(frames, fps)
+        if (kind === 'gif') {
+          const blob = await exportDiagramGif({ animation, size: field, renderMarkup, onProgress })
+          await shareOrDownloadFile(blob, buildDiagramExportFileName(title, 'gif'), documentTitle)
+        } else {
+          const blob = await exportDiagramVideo({ animation, size: field, renderMarkup, onProgress })
+          const extension = blob.type === 'video/mp4' ? 'mp4' : 'webm'
+          await shareOrDownloadFile(blob, buildDiagramExportFileName(title, extension), documentTitle)
+        }
+      } else {
+        const canvas = await renderDiagramStoryboard({ frames, field, title: documentTitle, renderMarkup })
+        if (kind === 'png') {
+          await shareOrDownloadFile(await exportStoryboardPng(canvas), buildDiagramExportFileName(title, 'png'), documentTitle)
+        } else if (printWindow) {
+          printStoryboard(printWindow, canvas, documentTitle)
+        }
+      }
+      setProgress(null)
+    } catch (err: unknown) {
+      printWindow?.close()
+      setError(`Export impossible: ${toErrorMessage(err)}`)
+      setProgress(null)
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  const busy = running !== null
+
+  return (
+    <div className="diagram-export-overlay" role="dialog" aria-modal="true" aria-label="Exporter le diagramme" onClick={() => !busy && onClose()}>
+      <div className="diagram-export-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="diagram-export-head">
+          <div>
+            <h3>Exporter le diagramme</h3>
+            <p>{frames.length} étape(s), animation à {fps} image(s)/s.</p>
+          </div>
+          <button type="button" className="diagram-export-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={busy}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+        {error && <p className="diagram-export-error">{error}</p>}
+        <div className="diagram-export-options">
+          <button type="button" onClick={() => void run('gif')} disabled={busy || frames.length <= 1}>
+            <strong>GIF animé</strong>
+            <span>Lecture en boucle, idéal pour WhatsApp.</span>
+          </button>
+          <button type="button" onClick={() => void run('video')} disabled={busy || frames.length <= 1 || !canRecordVideo}>
+            <strong>Vidéo</strong>
+            <span>{canRecordVideo ? 'MP4 ou WebM selon le navigateur.' : 'Non disponible sur ce navigateur.'}</span>
+          </button>
+          <button type="button" onClick={() => void run('png')} disabled={busy}>
+            <strong>Planche PNG</strong>
+            <span>Toutes les étapes côte à côte.</span>
+          </button>
+          <button type="button" onClick={() => void run('pdf')} disabled={busy}>
+            <strong>Planche PDF</strong>
+            <span>Impression ou « Enregistrer au format PDF ».</span>
+          </button>
+        </div>
+        {busy && <p className="diagram-export-progress">{progress || 'Préparation…'}</p>}
+      </div>
+    </div>
+  )
+}
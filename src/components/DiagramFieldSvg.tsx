@@ -0,0 +1,49 @@
+import type { CSSProperties } from 'react'
+import DiagramItemShape from './DiagramItemShape'
+import { getFieldSizeForQuarterTurns, orderItemsForRender, type Item } from './diagramShared'
+
+type DiagramFieldSvgProps = {
+  items: Item[]
+  quarterTurns: number
+  style?: CSSProperties
+  // Intrinsic pixel size, needed when the markup is rasterized outside the page (exports).
+  width?: number
+  height?: number
+  // Keeps arrow marker ids unique when several fields end up in the same document.
+  markerPrefix?: string
+}
+
+export default function DiagramFieldSvg({ items, quarterTurns, style, width, height, markerPrefix = 'player-arrow' }: DiagramFieldSvgProps) {
+  const fieldSize = getFieldSizeForQuarterTurns(quarterTurns)
+  const isPortrait = quarterTurns % 2 === 1
+  const fieldWidth = fieldSize.width
+  const fieldHeight = fieldSize.height
+  const innerWidth = fieldWidth - 10
+  const innerHeight = fieldHeight - 10
+  const midX = fieldWidth / 2
+  const midY = fieldHeight / 2
+  const penaltyY = fieldHeight / 2 - 60
+  const penaltyX = fieldWidth / 2 - 60
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${fieldWidth} ${fieldHeight}`} width={width} height={height} style={style}>
+      <rect x={5} y={5} width={innerWidth} height={innerHeight} rx={8} ry={8} fill="white" stroke="#c7e2c7" />
+      {!isPortrait ? (
+        <>
+          <line x1={midX} y1={5} x2={midX} y2={fieldHeight - 5} stroke="#c7e2c7" strokeDasharray="4 4" />
+          <rect x={5} y={penaltyY} width={40} height={120} fill="none" stroke="#c7e2c7" />
+          <rect x={fieldWidth - 45} y={penaltyY} width={40} height={120} fill="none" stroke="#c7e2c7" />
+        </>
+      ) : (
+        <>
+          <line x1={5} y1={midY} x2={fieldWidth - 5} y2={midY} stroke="#c7e2c7" strokeDasharray="4 4" />
+          <rect x={penaltyX} y={5} width={120} height={40} fill="none" stroke="#c7e2c7" />
+          <rect x={penaltyX} y={fieldHeight - 45} width={120} height={40} fill="none" stroke="#c7e2c7" />
+        </>
+      )}
+      {orderItemsForRender(items).map((item) => (
+        <DiagramItemShape key={item.id} item={item} markerPrefix={markerPrefix} />
+      ))}
+    </svg>
+  )
+}
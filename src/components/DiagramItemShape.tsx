@@ -0,0 +1,165 @@
+import { buildArrowPath, getPlayerFill, type Item } from './diagramShared'
+
+type DiagramItemShapeProps = {
+  item: Item
+  // Arrow marker ids must be unique within the document.
+  markerPrefix: string
+  selected?: boolean
+}
+
+const SELECTED_STROKE = '#0284c7'
+
+// Drawing of one diagram item, shared by the composer, the player and the exports.
+export default function DiagramItemShape({ item, markerPrefix, selected = false }: DiagramItemShapeProps) {
+  if (item.type === 'arrow') {
+    const stroke = selected ? SELECTED_STROKE : '#111827'
+    const markerId = `${markerPrefix}-${item.id}`
+    return (
+      <g>
+        <defs>
+          <marker id={markerId} markerWidth="8" markerHeight="8" refX="6" refY="3" orient="auto">
+            <path d="M0,0 L0,6 L6,3 Z" fill={stroke} />
+          </marker>
+        </defs>
+        <path
+          d={buildArrowPath(item)}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={selected ? 3 : 2}
+          strokeDasharray={item.style === 'run' ? '7 5' : undefined}
+          strokeLinejoin="round"
+          markerEnd={`url(#${markerId})`}
+        />
+      </g>
+    )
+  }
+
+  if (item.type === 'zone') {
+    const fill = getPlayerFill(item.color)
+    const common = {
+      fill,
+      fillOpacity: 0.16,
+      stroke: selected ? SELECTED_STROKE : fill,
+      strokeWidth: selected ? 2.4 : 1.5,
+      strokeDasharray: '6 4',
+    }
+    return item.shape === 'ellipse'
+      ? <ellipse cx={item.x} cy={item.y} rx={item.width / 2} ry={item.height / 2} {...common} />
+      : <rect x={item.x - item.width / 2} y={item.y - item.height / 2} width={item.width} height={item.height} rx={4} {...common} />
+  }
+
+  if (item.type === 'cone') {
+    return (
+      <polygon
+        points={`${item.x},${item.y - 10} ${item.x - 10},${item.y + 10} ${item.x + 10},${item.y + 10}`}
+        fill="#f97316"
+        stroke={selected ? SELECTED_STROKE : '#7c2d12'}
+        strokeWidth={selected ? 2.4 : 1}
+      />
+    )
+  }
+
+  if (item.type === 'cup') {
+    const stroke = selected ? SELECTED_STROKE : '#a16207'
+    return (
+      <g>
+        <circle cx={item.x} cy={item.y} r={10} fill="#fde047" stroke={stroke} strokeWidth={selected ? 2.4 : 1} />
+        <circle cx={item.x} cy={item.y} r={4} fill="#fffbeb" stroke={stroke} strokeWidth={selected ? 1.8 : 1} />
+      </g>
+    )
+  }
+
+  if (item.type === 'ball') {
+    return (
+      <g>
+        <circle cx={item.x} cy={item.y} r={10} fill="#ffffff" stroke={selected ? SELECTED_STROKE : '#111827'} strokeWidth={selected ? 2.4 : 1} />
+        <path d={`M${item.x - 5},${item.y} L${item.x + 5},${item.y} M${item.x},${item.y - 5} L${item.x},${item.y + 5}`} stroke="#111827" strokeWidth={1.2} />
+      </g>
+    )
+  }
+
+  if (item.type === 'post') {
+    return (
+      <rect x={item.x - 4} y={item.y - 16} width={8} height={32} rx={2} fill="#94a3b8" stroke={selected ? SELECTED_STROKE : '#334155'} strokeWidth={selected ? 2.4 : 1} />
+    )
+  }
+
+  if (item.type === 'goal') {
+    const stroke = selected ? SELECTED_STROKE : '#334155'
+    return (
+      <g transform={`rotate(${item.angle ?? 0} ${item.x} ${item.y})`}>
+        <rect x={item.x - 18} y={item.y - 7} width={36} height={14} fill="#f8fafc" stroke="#cbd5e1" />
+        <path
+          d={`M${item.x - 12},${item.y - 7} L${item.x - 12},${item.y + 7} M${item.x - 6},${item.y - 7} L${item.x - 6},${item.y + 7} M${item.x},${item.y - 7} L${item.x},${item.y + 7} M${item.x + 6},${item.y - 7} L${item.x + 6},${item.y + 7} M${item.x + 12},${item.y - 7} L${item.x + 12},${item.y + 7}`}
+          stroke="#cbd5e1"
+        />
+        <path
+          d={`M${item.x - 18},${item.y + 7} L${item.x - 18},${item.y - 7} L${item.x + 18},${item.y - 7} L${item.x + 18},${item.y + 7}`}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={selected ? 3.2 : 2.6}
+        />
+      </g>
+    )
+  }
+
+  if (item.type === 'ladder') {
+    const stroke = selected ? SELECTED_STROKE : '#ca8a04'
+    const rungs = [-24, -12, 0, 12, 24]
+    return (
+      <g transform={`rotate(${item.angle ?? 0} ${item.x} ${item.y})`}>
+        <rect x={item.x - 9} y={item.y - 32} width={18} height={64} fill="none" stroke={stroke} strokeWidth={selected ? 2.4 : 1.6} />
+        <path d={rungs.map((offset) => `M${item.x - 9},${item.y + offset} L${item.x + 9},${item.y + offset}`).join(' ')} stroke={stroke} strokeWidth={1.4} />
+      </g>
+    )
+  }
+
+  if (item.type === 'hurdle') {
+    const stroke = selected ? SELECTED_STROKE : '#9a3412'
+    return (
+      <g transform={`rotate(${item.angle ?? 0} ${item.x} ${item.y})`}>
+        <path d={`M${item.x - 12},${item.y - 3} L${item.x - 12},${item.y + 5} M${item.x + 12},${item.y - 3} L${item.x + 12},${item.y + 5}`} stroke="#334155" strokeWidth={2} />
+        <rect x={item.x - 15} y={item.y - 5} width={30} height={5} rx={2} fill="#fb923c" stroke={stroke} strokeWidth={selected ? 2 : 1} />
+      </g>
+    )
+  }
+
+  if (item.type === 'number') {
+    return (
+      <g>
+        <circle cx={item.x} cy={item.y} r={11} fill="#fff" stroke={selected ? SELECTED_STROKE : getPlayerFill(item.color)} strokeWidth={selected ? 3 : 2.2} />
+        <text x={item.x} y={item.y + 4} textAnchor="middle" fontSize="12" fill="#0f172a" fontWeight={700} fontFamily="Arial, sans-serif">
+          {item.value}
+        </text>
+      </g>
+    )
+  }
+
+  if (item.type === 'text') {
+    return (
+      <text
+        x={item.x}
+        y={item.y + 5}
+        textAnchor="middle"
+        fontSize="14"
+        fontWeight={600}
+        fill={selected ? SELECTED_STROKE : '#0f172a'}
+        stroke="#ffffff"
+        strokeWidth={3}
+        paintOrder="stroke"
+        fontFamily="Arial, sans-serif"
+      >
+        {item.text || 'Texte'}
+      </text>
+    )
+  }
+
+  return (
+    <g>
+      <circle cx={item.x} cy={item.y} r={14} fill={getPlayerFill(item.color)} stroke={selected ? SELECTED_STROKE : '#111827'} strokeWidth={selected ? 2.6 : 1} />
+      <text x={item.x} y={item.y + 4} textAnchor="middle" fontSize="12" fill="white" fontWeight={700} fontFamily="Arial, sans-serif">
+        {item.label || ''}
+      </text>
+    </g>
+  )
+}
@@ -1,117 +1,141 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import DiagramExportModal from './DiagramExportModal'
+import DiagramFieldSvg from './DiagramFieldSvg'
 import {
-  getFieldSizeForQuarterTurns,
-  getPlayerFill,
-  interpolateItem,
+  buildDiagramTimeline,
+  getDiagramItemsAtTime,
+  getPlaybackFps,
+  getPlaybackFrames,
+  getTimelineStepIndex,
   normalizeDiagramData,
   normalizeRotationQuarterTurns,
-  rotateDiagramToQuarterTurns,
 } from './diagramShared'
-import { FullscreenIcon, OrientationIcon, PauseIcon, PlayIcon, SkipBackIcon, StepBackIcon, StepForwardIcon } from './icons'
+import { DownloadIcon, FullscreenIcon, OrientationIcon, PauseIcon, PlayIcon, SkipBackIcon, StepBackIcon, StepForwardIcon } from './icons'
 
 interface Props {
   data: unknown
+  // Used to name exported files.
+  title?: string
 }
 
-export default function DiagramPlayer({ data }: Props) {
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1).replace('.', ',')} s`
+}
+
+export default function DiagramPlayer({ data, title }: Props) {
   const normalized = useMemo(() => normalizeDiagramData(data), [data])
   const [rotationQuarterTurns, setRotationQuarterTurns] = useState<number>(
     normalizeRotationQuarterTurns(normalized.rotationQuarterTurns, normalized.orientation),
   )
-  const frames = useMemo(() => {
-    const oriented = rotateDiagramToQuarterTurns(normalized, rotationQuarterTurns)
-    const compressed = oriented.frames.filter((frame, index, list) => {
-      if (index === 0) return true
-      return JSON.stringify(frame.items) !== JSON.stringify(list[index - 1].items)
-    })
-    return compressed.length > 0 ? compressed : oriented.frames.slice(0, 1)
-  }, [normalized, rotationQuarterTurns])
-  const fps = Math.max(1, Math.min(8, Math.round(normalized.fps || 2)))
-  const [activeIndex, setActiveIndex] = useState(0)
+  const frames = useMemo(() => getPlaybackFrames(normalized, rotationQuarterTurns), [normalized, rotationQuarterTurns])
+  const fps = getPlaybackFps(normalized.fps)
+  const timeline = useMemo(() => buildDiagramTimeline(frames, fps), [frames, fps])
+  const [timeMs, setTimeMs] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
-  const [transitionFromIndex, setTransitionFromIndex] = useState<number | null>(null)
-  const [transitionProgress, setTransitionProgress] = useState(0)
+  const [loopEnabled, setLoopEnabled] = useState(false)
+  const [loopStart, setLoopStart] = useState(0)
+  const [loopEnd, setLoopEnd] = useState(1)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [isPseudoFullscreen, setIsPseudoFullscreen] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
   const stageRef = useRef<HTMLDivElement | null>(null)
+  // "Suivant" plays up to the next step and pauses there.
+  const stopAtRef = useRef<number | null>(null)
+  const timeRef = useRef(0)
   const effectiveFullscreen = isFullscreen || isPseudoFullscreen
-  const fieldSize = getFieldSizeForQuarterTurns(rotationQuarterTurns)
-  const isPortrait = rotationQuarterTurns % 2 === 1
-  const fieldWidth = fieldSize.width
-  const fieldHeight = fieldSize.height
-  const innerWidth = fieldWidth - 10
-  const innerHeight = fieldHeight - 10
-  const midX = fieldWidth / 2
-  const midY = fieldHeight / 2
-  const penaltyY = fieldHeight / 2 - 60
-  const penaltyX = fieldWidth / 2 - 60
+
+  const lastStep = frames.length - 1
+  const safeLoopStart = Math.min(loopStart, Math.max(0, lastStep - 1))
+  const safeLoopEnd = Math.min(lastStep, Math.max(safeLoopStart + 1, loopEnd))
+  const looping = loopEnabled && frames.length > 1
+  const rangeStartMs = looping ? timeline.stepStartsMs[safeLoopStart] : 0
+  const rangeEndMs = looping ? timeline.stepStartsMs[safeLoopEnd] : timeline.totalMs
+  const activeIndex = getTimelineStepIndex(timeline, timeMs)
 
   useEffect(() => {
-    setActiveIndex(0)
+    setTimeMs(0)
     setIsPlaying(false)
-    setTransitionFromIndex(null)
-    setTransitionProgress(0)
+    setLoopEnabled(false)
+    setLoopStart(0)
+    setLoopEnd(1)
+    stopAtRef.current = null
     setRotationQuarterTurns(normalizeRotationQuarterTurns(normalized.rotationQuarterTurns, normalized.orientation))
   }, [data, normalized.orientation, normalized.rotationQuarterTurns])
 
-  function goToPrevious() {
-    if (activeIndex <= 0) return
+  function pause() {
     setIsPlaying(false)
-    setTransitionFromIndex(null)
-    setTransitionProgress(0)
-    setActiveIndex((idx) => Math.max(0, idx - 1))
+    stopAtRef.current = null
+  }
+
+  function goToPrevious() {
+    pause()
+    const currentStart = timeline.stepStartsMs[activeIndex]
+    setTimeMs(timeMs > currentStart ? currentStart : timeline.stepStartsMs[Math.max(0, activeIndex - 1)])
   }
 
   function restart() {
-    setIsPlaying(false)
-    setTransitionFromIndex(null)
-    setTransitionProgress(0)
-    setActiveIndex(0)
+    pause()
+    setTimeMs(rangeStartMs)
   }
 
-  const animateToNext = useCallback((keepPlaying: boolean) => {
-    if (activeIndex >= frames.length - 1) {
-      setIsPlaying(false)
-      setTransitionFromIndex(null)
-      setTransitionProgress(0)
+  function goToNext() {
+    if (isPlaying || activeIndex >= lastStep) return
+    stopAtRef.current = timeline.stepStartsMs[activeIndex + 1]
+    setIsPlaying(true)
+  }
+
+  function togglePlayback() {
+    if (frames.length <= 1) return
+    if (isPlaying) {
+      pause()
       return
     }
-    const fromIndex = activeIndex
-    const duration = Math.max(220, Math.round(1000 / fps))
-    const start = performance.now()
-    setTransitionFromIndex(fromIndex)
-    setTransitionProgress(0)
+    stopAtRef.current = null
+    if (timeMs >= rangeEndMs || timeMs < rangeStartMs) setTimeMs(rangeStartMs)
+    setIsPlaying(true)
+  }
+
+  function scrub(nextMs: number) {
+    pause()
+    setTimeMs(Math.min(timeline.totalMs, Math.max(0, nextMs)))
+  }
+
+  useEffect(() => {
+    timeRef.current = timeMs
+  }, [timeMs])
 
+  useEffect(() => {
+    if (!isPlaying) return
     let raf = 0
+    let previous = performance.now()
     const tick = (now: number) => {
-      const progress = Math.min(1, (now - start) / duration)
-      setTransitionProgress(progress)
-      if (progress < 1) {
+      let next = timeRef.current + (now - previous)
+      previous = now
+      let keepPlaying = true
+      const stopAt = stopAtRef.current
+      if (stopAt !== null && next >= stopAt) {
+        next = stopAt
+        keepPlaying = false
+      } else if (next >= rangeEndMs) {
+        if (looping && rangeEndMs > rangeStartMs) {
+          next = rangeStartMs + ((next - rangeStartMs) % (rangeEndMs - rangeStartMs))
+        } else {
+          next = rangeEndMs
+          keepPlaying = false
+        }
+      }
+      timeRef.current = next
+      setTimeMs(next)
+      if (keepPlaying) {
         raf = window.requestAnimationFrame(tick)
-        return
+      } else {
+        stopAtRef.current = null
+        setIsPlaying(false)
       }
-      setTransitionFromIndex(null)
-      setTransitionProgress(0)
-      setActiveIndex(Math.min(fromIndex + 1, frames.length - 1))
-      if (!keepPlaying) setIsPlaying(false)
     }
-
     raf = window.requestAnimationFrame(tick)
     return () => window.cancelAnimationFrame(raf)
-  }, [activeIndex, fps, frames.length])
-
-  function goToNext() {
-    if (isPlaying) return
-    animateToNext(false)
-  }
-
-  function togglePlayback() {
-    if (frames.length <= 1) return
-    if (activeIndex >= frames.length - 1) setActiveIndex(0)
-    setTransitionFromIndex(null)
-    setTransitionProgress(0)
-    setIsPlaying((current) => !current)
-  }
+  }, [isPlaying, looping, rangeEndMs, rangeStartMs])
 
   function toggleOrientation() {
     setRotationQuarterTurns((current) => (current + 1) % 4)
@@ -157,40 +181,7 @@ export default function DiagramPlayer({ data }: Props) {
     }
   }, [effectiveFullscreen])
 
-  useEffect(() => {
-    if (!isPlaying || frames.length <= 1) return
-    if (activeIndex >= frames.length - 1) {
-      setIsPlaying(false)
-      return
-    }
-    return animateToNext(true)
-  }, [activeIndex, animateToNext, frames.length, isPlaying])
-
-  const displayItems = useMemo(() => {
-    const activeItems = frames[Math.min(activeIndex, frames.length - 1)]?.items || []
-    if (transitionFromIndex === null || transitionFromIndex >= frames.length - 1) return activeItems
-    const fromItems = frames[transitionFromIndex]?.items || []
-    const toItems = frames[transitionFromIndex + 1]?.items || activeItems
-    const fromMap = new Map(fromItems.map((item) => [item.id, item]))
-    const toIds = new Set(toItems.map((item) => item.id))
-    const interpolated = toItems.map((item) => interpolateItem(fromMap.get(item.id), item, transitionProgress))
-    if (transitionProgress < 1) {
-      fromItems.forEach((item) => {
-        if (!toIds.has(item.id)) interpolated.push(item)
-      })
-    }
-    return interpolated
-  }, [activeIndex, frames, transitionFromIndex, transitionProgress])
-
-  const progressRatio = frames.length <= 1
-    ? 1
-    : Math.min(
-        1,
-        Math.max(
-          0,
-          ((transitionFromIndex ?? activeIndex) + (transitionFromIndex === null ? 0 : transitionProgress)) / (frames.length - 1),
-        ),
-      )
+  const displayItems = useMemo(() => getDiagramItemsAtTime(frames, timeline, timeMs, fps), [fps, frames, timeline, timeMs])
 
   if (frames.length === 0) return null
 
@@ -213,97 +204,56 @@ export default function DiagramPlayer({ data }: Props) {
 
   return (
     <div style={stageStyle} ref={stageRef}>
-      <svg
-        viewBox={`0 0 ${fieldWidth} ${fieldHeight}`}
+      <DiagramFieldSvg
+        items={displayItems}
+        quarterTurns={rotationQuarterTurns}
         style={{ width: '100%', minHeight: effectiveFullscreen ? 'calc(100vh - 190px)' : 320, border: '1px solid #e5e7eb', borderRadius: 12, background: '#f8fff8' }}
-      >
-        <rect x={5} y={5} width={innerWidth} height={innerHeight} rx={8} ry={8} fill="white" stroke="#c7e2c7" />
-        {!isPortrait ? (
-          <>
-            <line x1={midX} y1={5} x2={midX} y2={fieldHeight - 5} stroke="#c7e2c7" strokeDasharray="4 4" />
-            <rect x={5} y={penaltyY} width={40} height={120} fill="none" stroke="#c7e2c7" />
-            <rect x={fieldWidth - 45} y={penaltyY} width={40} height={120} fill="none" stroke="#c7e2c7" />
-          </>
-        ) : (
-          <>
-            <line x1={5} y1={midY} x2={fieldWidth - 5} y2={midY} stroke="#c7e2c7" strokeDasharray="4 4" />
-            <rect x={penaltyX} y={5} width={120} height={40} fill="none" stroke="#c7e2c7" />
-            <rect x={penaltyX} y={fieldHeight - 45} width={120} height={40} fill="none" stroke="#c7e2c7" />
-          </>
-        )}
-        {displayItems.map((item) => {
-          if (item.type === 'arrow') {
-            return (
-              <g key={item.id}>
-                <defs>
-                  <marker id={`player-arrow-${item.id}`} markerWidth="8" markerHeight="8" refX="6" refY="3" orient="auto">
-                    <path d="M0,0 L0,6 L6,3 Z" fill="#111827" />
-                  </marker>
-                </defs>
-                <line
-                  x1={item.from.x}
-                  y1={item.from.y}
-                  x2={item.to.x}
-                  y2={item.to.y}
-                  stroke="#111827"
-                  strokeWidth={2}
-                  markerEnd={`url(#player-arrow-${item.id})`}
-                />
-              </g>
-            )
-          }
-          if (item.type === 'cone') {
-            return (
-              <polygon
-                key={item.id}
-                points={`${item.x},${item.y - 10} ${item.x - 10},${item.y + 10} ${item.x + 10},${item.y + 10}`}
-                fill="#f97316"
-                stroke="#7c2d12"
-              />
-            )
-          }
-          if (item.type === 'cup') {
-            return (
-              <g key={item.id}>
-                <circle cx={item.x} cy={item.y} r={10} fill="#fde047" stroke="#a16207" />
-                <circle cx={item.x} cy={item.y} r={4} fill="#fffbeb" stroke="#a16207" />
-              </g>
-            )
-          }
-          if (item.type === 'ball') {
-            return (
-              <g key={item.id}>
-                <circle cx={item.x} cy={item.y} r={10} fill="#ffffff" stroke="#111827" />
-                <path d={`M${item.x - 5},${item.y} L${item.x + 5},${item.y} M${item.x},${item.y - 5} L${item.x},${item.y + 5}`} stroke="#111827" strokeWidth={1.2} />
-              </g>
-            )
-          }
-          if (item.type === 'post') {
-            return (
-              <g key={item.id}>
-                <rect x={item.x - 4} y={item.y - 16} width={8} height={32} rx={2} fill="#94a3b8" stroke="#334155" />
-              </g>
-            )
-          }
-          return (
-            <g key={item.id}>
-              <circle cx={item.x} cy={item.y} r={14} fill={getPlayerFill(item.color)} stroke="#111827" />
-              <text x={item.x} y={item.y + 4} textAnchor="middle" fontSize="12" fill="white" fontWeight={700}>
-                {item.label || ''}
-              </text>
-            </g>
-          )
-        })}
-      </svg>
-      <div style={progressTrackStyle} aria-hidden="true">
-        <div style={{ ...progressFillStyle, width: `${Math.round(progressRatio * 100)}%` }} />
-      </div>
+      />
+      {frames.length > 1 && (
+        <div style={timelineRowStyle}>
+          <input
+            type="range"
+            min={0}
+            max={timeline.totalMs}
+            step={10}
+            value={Math.round(timeMs)}
+            onChange={(e) => scrub(Number(e.target.value))}
+            style={scrubberStyle}
+            aria-label="Position dans l'animation"
+          />
+          <span style={timeLabelStyle}>
+            Étape {activeIndex + 1}/{frames.length} · {formatSeconds(timeMs)} / {formatSeconds(timeline.totalMs)}
+          </span>
+        </div>
+      )}
+      {frames.length > 2 && (
+        <div style={loopRowStyle}>
+          <label style={loopLabelStyle}>
+            <input type="checkbox" checked={loopEnabled} onChange={(e) => setLoopEnabled(e.target.checked)} />
+            Boucler
+          </label>
+          <label style={loopLabelStyle}>
+            de l'étape
+            <select value={safeLoopStart} onChange={(e) => setLoopStart(Number(e.target.value))} disabled={!loopEnabled}>
+              {frames.slice(0, -1).map((frame, index) => (
+                <option key={frame.id} value={index}>{index + 1}</option>
+              ))}
+            </select>
+          </label>
+          <label style={loopLabelStyle}>
+            à l'étape
+            <select value={safeLoopEnd} onChange={(e) => setLoopEnd(Number(e.target.value))} disabled={!loopEnabled}>
+              {frames.map((frame, index) => (index > safeLoopStart ? <option key={frame.id} value={index}>{index + 1}</option> : null))}
+            </select>
+          </label>
+        </div>
+      )}
       <div style={playerBarStyle}>
         <div style={playerControlsStyle}>
-          <button type="button" onClick={restart} disabled={activeIndex === 0 && !isPlaying} style={playerButtonStyle} aria-label="Début" title="Début">
+          <button type="button" onClick={restart} disabled={timeMs === rangeStartMs && !isPlaying} style={playerButtonStyle} aria-label="Début" title="Début">
             <SkipBackIcon size={28} />
           </button>
-          <button type="button" onClick={goToPrevious} disabled={activeIndex === 0} style={playerButtonStyle} aria-label="Précédent" title="Précédent">
+          <button type="button" onClick={goToPrevious} disabled={timeMs === 0} style={playerButtonStyle} aria-label="Précédent" title="Précédent">
             <StepBackIcon size={28} />
           </button>
           <button
@@ -321,6 +271,18 @@ export default function DiagramPlayer({ data }: Props) {
           </button>
         </div>
         <div style={playerRightActionsStyle}>
+          <button
+            type="button"
+            onClick={() => {
+              pause()
+              setExportOpen(true)
+            }}
+            style={playerButtonStyle}
+            aria-label="Exporter (GIF, vidéo, planche)"
+            title="Exporter (GIF, vidéo, planche)"
+          >
+            <DownloadIcon size={24} />
+          </button>
           <button
             type="button"
             onClick={toggleOrientation}
@@ -341,6 +303,15 @@ export default function DiagramPlayer({ data }: Props) {
           </button>
         </div>
       </div>
+      {exportOpen && (
+        <DiagramExportModal
+          frames={frames}
+          fps={fps}
+          quarterTurns={rotationQuarterTurns}
+          title={title}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
     </div>
   )
 }
@@ -381,17 +352,33 @@ const playerRightActionsStyle: React.CSSProperties = {
   marginLeft: 'auto',
 }
 
-const progressTrackStyle: React.CSSProperties = {
+const timelineRowStyle: React.CSSProperties = {
+  display: 'grid',
+  gap: 4,
+}
+
+const scrubberStyle: React.CSSProperties = {
   width: '100%',
-  height: 8,
-  borderRadius: 999,
-  background: '#e2e8f0',
-  overflow: 'hidden',
+  accentColor: '#16a34a',
 }
 
-const progressFillStyle: React.CSSProperties = {
-  height: '100%',
-  borderRadius: 999,
-  background: 'linear-gradient(90deg, #16a34a 0%, #22c55e 100%)',
-  transition: 'width 140ms linear',
+const timeLabelStyle: React.CSSProperties = {
+  fontSize: 12,
+  color: '#64748b',
+  textAlign: 'right',
+}
+
+const loopRowStyle: React.CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  gap: 12,
+  fontSize: 13,
+  color: '#334155',
+}
+
+const loopLabelStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: 6,
 }
@@ -0,0 +1,100 @@
+import {
+  MIN_MOVEMENT_MS,
+  clampMovementMs,
+  getDiagramItemLabel,
+  getMovedItemIds,
+  getMovementTiming,
+  getTransitionDurationMs,
+  type DiagramFrame,
+  type Item,
+  type MovementPath,
+  type MovementTiming,
+} from './diagramShared'
+
+type DiagramTimelineProps = {
+  fromItems: Item[]
+  frame: DiagramFrame
+  stepIndex: number
+  fps: number
+  selectedIds: string[]
+  onSelect: (itemId: string) => void
+  onChange: (itemId: string, timing: MovementTiming | null) => void
+}
+
+function toSeconds(ms: number): number {
+  return Math.round(ms / 100) / 10
+}
+
+// Per-item timing of the moves from the previous step into `frame`, drawn as bars on the step duration.
+export default function DiagramTimeline({ fromItems, frame, stepIndex, fps, selectedIds, onSelect, onChange }: DiagramTimelineProps) {
+  const movedIds = getMovedItemIds(fromItems, frame.items)
+  const totalMs = getTransitionDurationMs(fromItems, frame, fps)
+
+  return (
+    <section className="diagram-timeline" aria-label="Chronologie des déplacements">
+      <div className="diagram-timeline-head">
+        <strong>Chronologie étape {stepIndex} → {stepIndex + 1}</strong>
+        <span>{toSeconds(totalMs).toString().replace('.', ',')} s</span>
+      </div>
+      {movedIds.length === 0 ? (
+        <p className="diagram-timeline-empty">Aucun déplacement vers cette étape : déplacez un joueur ou le ballon pour régler son départ et sa durée.</p>
+      ) : (
+        movedIds.map((id) => {
+          const item = frame.items.find((candidate) => candidate.id === id)!
+          const timing = getMovementTiming(frame, id, fps)
+          const custom = Boolean(frame.timings?.[id])
+          const update = (patch: Partial<MovementTiming>) => onChange(id, { ...timing, ...patch })
+          return (
+            <div key={id} className={`diagram-timeline-row ${selectedIds.includes(id) ? 'selected' : ''}`}>
+              <button type="button" className="diagram-timeline-label" onClick={() => onSelect(id)}>
+                {getDiagramItemLabel(item)}{item.type === 'player' && item.label ? ` ${item.label}` : ''}
+              </button>
+              <div className="diagram-timeline-track" aria-hidden="true">
+                <div
+                  className={`diagram-timeline-bar ${custom ? 'custom' : ''}`}
+                  style={{ left: `${(timing.delayMs / totalMs) * 100}%`, width: `${(timing.durationMs / totalMs) * 100}%` }}
+                />
+              </div>
+              <div className="diagram-timeline-fields">
+                <label>
+                  Départ (s)
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    value={toSeconds(timing.delayMs)}
+                    onChange={(e) => update({ delayMs: clampMovementMs(Number(e.target.value) * 1000, 0, timing.delayMs) })}
+                  />
+                </label>
+                <label>
+                  Durée (s)
+                  <input
+                    type="number"
+                    min={MIN_MOVEMENT_MS / 1000}
+                    max={10}
+                    step={0.1}
+                    value={toSeconds(timing.durationMs)}
+                    onChange={(e) => update({ durationMs: clampMovementMs(Number(e.target.value) * 1000, MIN_MOVEMENT_MS, timing.durationMs) })}
+                  />
+                </label>
+                {item.type !== 'arrow' && (
+                  <label>
+                    Trajectoire
+                    <select value={timing.path} onChange={(e) => update({ path: e.target.value as MovementPath })}>
+                      <option value="straight">Droite</option>
+                      <option value="curved">Courbe</option>
+                    </select>
+                  </label>
+                )}
+                <button type="button" className="tool-btn" disabled={!custom} onClick={() => onChange(id, null)}>
+                  Par défaut
+                </button>
+              </div>
+            </div>
+          )
+        })
+      )}
+    </section>
+  )
+}
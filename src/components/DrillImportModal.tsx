@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  buildDrillImportPayload,
+  detectDrillImportDuplicates,
+  getDefaultDrillImportAction,
+  parseDrillExportFile,
+  suggestLabelMapping,
+  toDrillMatchKey,
+  type DrillImportAction,
+  type DrillImportParseResult,
+} from '../features/drillTransfer'
+import type { Drill, DrillVisibility } from '../types/api'
+import { CloseIcon } from './icons'
+import type { DiagramData } from './diagramShared'
+import './DrillImportModal.css'
+
+export type DrillImportItem = {
+  // Position in the file, so drills already created can leave the preview when the import stops midway.
+  index: number
+  payload: Omit<Drill, 'id'>
+  diagram: DiagramData | null
+}
+
+type DrillImportModalProps = {
+  // Whole library visible to the user, null while it loads; used for duplicate titles.
+  library: Drill[] | null
+  categories: string[]
+  tags: string[]
+  teamId: string | null
+  visibilityOptions: Array<{ value: DrillVisibility; label: string }>
+  defaultVisibility: DrillVisibility
+  // Calls onImported after each drill is created, with whether its diagram could be saved; rejects on the first failing drill.
+  onImport: (items: DrillImportItem[], onImported: (item: DrillImportItem, diagramSaved: boolean) => void) => Promise<void>
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<DrillImportAction, string> = {
+  create: 'Importer',
+  copy: 'Importer une copie',
+  skip: 'Ignorer',
+}
+
+function formatMissingDiagrams(titles: string[]) {
+  return `Diagramme non enregistré pour ${titles.length} exercice(s) importé(s), à refaire depuis leur fiche: ${titles.join(', ')}.`
+}
+
+export default function DrillImportModal({
+  library,
+  categories,
+  tags,
+  teamId,
+  visibilityOptions,
+  defaultVisibility,
+  onImport,
+  onClose,
+}: DrillImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [parsed, setParsed] = useState<DrillImportParseResult | null>(null)
+  const [actions, setActions] = useState<DrillImportAction[]>([])
+  const [categoryMap, setCategoryMap] = useState<Record<string, string>>({})
+  const [tagMap, setTagMap] = useState<Record<string, string>>({})
+  const [visibility, setVisibility] = useState<DrillVisibility>(defaultVisibility)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importedIndexes, setImportedIndexes] = useState<ReadonlySet<number>>(new Set())
+
+  const rows = useMemo(
+    () => (parsed && library ? detectDrillImportDuplicates(parsed.drills, library) : []),
+    [library, parsed],
+  )
+  const selectedCount = actions.filter((action, index) => action !== 'skip' && !importedIndexes.has(index)).length
+
+  async function readFile(file: File | undefined) {
+    if (!file) return
+    setError(null)
+    setParsed(null)
+    setImportedIndexes(new Set())
+    setFileName(file.name)
+    try {
+      const result = parseDrillExportFile(await file.text())
+      if (result.drills.length === 0) throw new Error('Aucun exercice valide dans ce fichier.')
+      setParsed(result)
+      setActions(detectDrillImportDuplicates(result.drills, library ?? []).map(getDefaultDrillImportAction))
+      setCategoryMap(suggestLabelMapping(result.drills.map((entry) => entry.category), categories))
+      setTagMap(suggestLabelMapping(result.drills.flatMap((entry) => entry.tags), tags))
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+    }
+  }
+
+  async function submit() {
+    if (!parsed || importing || selectedCount === 0) return
+    const takenTitles = new Set((library ?? []).map((drill) => toDrillMatchKey(drill.title)))
+    const items: DrillImportItem[] = []
+    rows.forEach((row, index) => {
+      const action = actions[index]
+      if (action === 'skip' || importedIndexes.has(index)) return
+      items.push({
+        index,
+        payload: buildDrillImportPayload(row.entry, { action, categoryMap, tagMap, teamId, visibility, takenTitles }),
+        diagram: row.entry.diagram,
+      })
+    })
+    let done = 0
+    const withoutDiagram: string[] = []
+    setImporting(true)
+    setError(null)
+    setProgress(`Import 0/${items.length}…`)
+    try {
+      await onImport(items, (item, diagramSaved) => {
+        done += 1
+        if (!diagramSaved) withoutDiagram.push(item.payload.title)
+        setImportedIndexes((prev) => new Set(prev).add(item.index))
+        setProgress(`Import ${done}/${items.length}…`)
+      })
+      if (withoutDiagram.length === 0) onClose()
+      else setError(formatMissingDiagrams(withoutDiagram))
+    } catch (err: unknown) {
+      setError([
+        done > 0
+          ? `Import interrompu après ${done} exercice(s), retirés de l’aperçu: ${toErrorMessage(err)}`
+          : `Import interrompu: ${toErrorMessage(err)}`,
+        withoutDiagram.length > 0 ? formatMissingDiagrams(withoutDiagram) : '',
+      ].filter(Boolean).join(' '))
+    } finally {
+      setImporting(false)
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="drill-import-overlay" role="dialog" aria-modal="true" aria-label="Importer des exercices" onClick={() => !importing && onClose()}>
+      <div className="drill-import-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="drill-import-head">
+          <div>
+            <h3>Importer des exercices</h3>
+            <p>Fichier .izifoot.json exporté depuis la bibliothèque d’un club.</p>
+          </div>
+          <button type="button" className="drill-import-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={importing}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+
+        <label className="drill-import-file">
+          <span>{fileName ?? 'Choisir un fichier'}</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            disabled={importing || !library}
+            onChange={(e) => { void readFile(e.target.files?.[0]) }}
+          />
+        </label>
+        {!library && <p className="drill-import-note">Chargement de la bibliothèque…</p>}
+        {error && <p className="drill-import-error">{error}</p>}
+        {parsed && parsed.warnings.length > 0 && (
+          <ul className="drill-import-warnings">
+            {parsed.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+
+        {parsed && (
+          <>
+            <section className="drill-import-section">
+              <h4>Exercices ({rows.length - importedIndexes.size})</h4>
+              <div className="drill-import-rows">
+                {rows.map((row, index) => (importedIndexes.has(index) ? null : (
+                  <div key={index} className={`drill-import-row ${actions[index] === 'skip' ? 'is-skipped' : ''}`}>
+                    <div>
+                      <strong>{row.entry.title}</strong>
+                      <span>
+                        {row.entry.category}
+                        {row.entry.diagram ? ' · diagramme' : ''}
+                        {row.entry.tags.length > 0 ? ` · ${row.entry.tags.join(', ')}` : ''}
+                      </span>
+                      {row.duplicateOf && <span className="drill-import-duplicate">Déjà dans la bibliothèque</span>}
+                      {!row.duplicateOf && row.duplicateInFile && <span className="drill-import-duplicate">En double dans le fichier</span>}
+                    </div>
+                    <select
+                      value={actions[index]}
+                      disabled={importing}
+                      onChange={(e) => {
+                        const value = e.target.value as DrillImportAction
+                        setActions((prev) => prev.map((action, i) => (i === index ? value : action)))
+                      }}
+                    >
+                      {(['create', 'copy', 'skip'] as const)
+                        .filter((action) => action !== 'copy' || row.duplicateOf || row.duplicateInFile)
+                        .map((action) => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+                    </select>
+                  </div>
+                )))}
+              </div>
+            </section>
+
+            <section className="drill-import-section">
+              <h4>Catégories</h4>
+              {Object.keys(categoryMap).map((category) => (
+                <label key={category} className="drill-import-mapping">
+                  <span>{category}</span>
+                  <input
+                    list="drill-import-categories"
+                    value={categoryMap[category]}
+                    disabled={importing}
+                    onChange={(e) => setCategoryMap((prev) => ({ ...prev, [category]: e.target.value }))}
+                  />
+                </label>
+              ))}
+              <datalist id="drill-import-categories">
+                {categories.map((category) => <option key={category} value={category} />)}
+              </datalist>
+            </section>
+
+            {Object.keys(tagMap).length > 0 && (
+              <section className="drill-import-section">
+                <h4>Tags</h4>
+                <p className="drill-import-note">Laissez vide pour ne pas importer le tag.</p>
+                {Object.keys(tagMap).map((tag) => (
+                  <label key={tag} className="drill-import-mapping">
+                    <span>{tag}</span>
+                    <input
+                      list="drill-import-tags"
+                      value={tagMap[tag]}
+                      disabled={importing}
+                      onChange={(e) => setTagMap((prev) => ({ ...prev, [tag]: e.target.value }))}
+                    />
+                  </label>
+                ))}
+                <datalist id="drill-import-tags">
+                  {tags.map((tag) => <option key={tag} value={tag} />)}
+                </datalist>
+              </section>
+            )}
+
+            <label className="drill-import-mapping">
+              <span>Visibilité</span>
+              <select value={visibility} disabled={importing} onChange={(e) => setVisibility(e.target.value as DrillVisibility)}>
+                {visibilityOptions.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+          </>
+        )}
+
+        <div className="drill-import-actions">
+          {progress && <span className="drill-import-note">{progress}</span>}
+          <button type="button" onClick={onClose} disabled={importing}>Annuler</button>
+          <button type="button" className="is-primary" onClick={() => void submit()} disabled={!parsed || importing || selectedCount === 0}>
+            {importing ? 'Import…' : `Importer ${selectedCount} exercice(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
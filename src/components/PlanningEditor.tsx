@@ -1,5 +1,14 @@
 // src/components/PlanningEditor.tsx
 import React, { useEffect, useMemo, useState } from 'react'
+import {
+  POOL_NAMES,
+  buildKnockoutRounds,
+  poolQualifierEntrants,
+  splitIntoPools,
+  type KnockoutGame,
+  type TournamentGameMeta,
+  type TournamentKnockoutMode,
+} from '../features/tournament'
 import AttendanceAccordion from './AttendanceAccordion'
 
 /** ==== Types (compatibles backend) ==== */
@@ -15,8 +24,12 @@ export type PlanningData = {
   regenSeed?: number;
   tournamentFormat?: 'ELIMINATION' | 'CHAMPIONNAT';
   tournamentWithPools?: boolean;
+  poolCount?: number;
+  qualifiersPerPool?: number;
+  tournamentKnockoutMode?: TournamentKnockoutMode;
+  knockoutWinners?: Record<string, string>;
   teams?: TeamEntry[];
-  slots: { time: string; games: { pitch: number; A: string; B: string }[] }[];
+  slots: { time: string; games: ({ pitch: number; A: string; B: string } & TournamentGameMeta)[] }[];
 };
 
 type Team = {
@@ -30,6 +43,7 @@ type Match = {
   id: string;
   a: Team;
   b: Team;
+  meta?: TournamentGameMeta;
 };
 
 type TeamEntry = {
@@ -302,50 +316,67 @@ function buildRoundRobinRounds(teams: Team[], seed: number): Match[][] {
   return rounds
 }
 
-function buildEliminationRounds(teams: Team[], seed: number): Match[][] {
-  const rounds: Match[][] = []
-  if (teams.length < 2) return rounds
-  const seededTeams = seededShuffle(teams, seed || 1)
-  let nextSyntheticId = Math.max(0, ...teams.map((team) => team.id)) + 1
-  let currentRound = seededTeams
-  let roundIndex = 0
+function buildPoolRounds(teams: Team[], poolCount: number, seed: number): Match[][] {
+  const pools = splitIntoPools(seededShuffle(teams, seed || 1), poolCount)
+  const poolRounds = pools.map((poolTeams, poolIndex) => {
+    const pool = POOL_NAMES[poolIndex]
+    return buildRoundRobinRounds(poolTeams, seed + poolIndex).map((games) => games.map((match) => ({
+      ...match,
+      id: `pool:${pool}:${match.id}`,
+      meta: { stage: 'POOL' as const, pool },
+    })))
+  })
+  // Same round index of every pool is played together.
+  const roundsCount = Math.max(0, ...poolRounds.map((rounds) => rounds.length))
+  return Array.from({ length: roundsCount }, (_, index) => poolRounds.flatMap((rounds) => rounds[index] ?? []))
+}
 
-  while (currentRound.length > 1) {
-    const games: Match[] = []
-    const nextRound: Team[] = []
-    for (let index = 0; index < currentRound.length; index += 2) {
-      const lhs = currentRound[index]
-      const rhs = currentRound[index + 1]
-      if (!rhs) {
-        nextRound.push(lhs)
-        continue
-      }
-      games.push({ id: `elim:${roundIndex}:${index / 2}`, a: lhs, b: rhs })
-      nextRound.push({
-        id: nextSyntheticId++,
-        label: `Vainqueur ${lhs.label} vs ${rhs.label}`,
-        club: '',
-        teamNumber: null,
-      })
+// Knockout teams that are not known yet are synthetic teams named after their source
+// ("1er Poule A", "Vainqueur Demi-finale 1"); the game meta keeps the source to resolve them later.
+function toKnockoutMatches(rounds: KnockoutGame[][], teams: Team[]): Match[][] {
+  const teamByLabel = new Map(teams.map((team) => [team.label, team] as const))
+  let nextSyntheticId = Math.max(0, ...teams.map((team) => team.id)) + 1
+  const teamFor = (label: string) => {
+    let team = teamByLabel.get(label)
+    if (!team) {
+      team = { id: nextSyntheticId++, label, club: '', teamNumber: null }
+      teamByLabel.set(label, team)
     }
-    if (games.length > 0) rounds.push(games)
-    currentRound = nextRound
-    roundIndex += 1
+    return team
   }
-  return rounds
+  return rounds.map((games) => games.map((game) => ({
+    id: `ko:${game.meta.tieId}:${game.meta.leg}`,
+    a: teamFor(game.A),
+    b: teamFor(game.B),
+    meta: game.meta,
+  })))
 }
 
 function buildTournamentRounds(
   teams: Team[],
-  format: 'ELIMINATION' | 'CHAMPIONNAT',
-  withPools: boolean,
+  settings: {
+    format: 'ELIMINATION' | 'CHAMPIONNAT'
+    withPools: boolean
+    poolCount: number
+    qualifiersPerPool: number
+    knockoutMode: TournamentKnockoutMode
+  },
   seed: number
 ): Match[][] {
-  const championshipRounds = buildRoundRobinRounds(teams, seed || 1)
-  if (format === 'CHAMPIONNAT') return championshipRounds
-  const eliminationRounds = buildEliminationRounds(teams, (seed || 1) + 1000)
-  if (withPools) return [...championshipRounds, ...eliminationRounds]
-  return eliminationRounds
+  if (settings.format === 'CHAMPIONNAT') return buildRoundRobinRounds(teams, seed || 1)
+  if (!settings.withPools) {
+    const entrants = seededShuffle(teams, (seed || 1) + 1000).map((team) => ({ label: team.label }))
+    return toKnockoutMatches(buildKnockoutRounds(entrants, settings.knockoutMode), teams)
+  }
+  const poolRounds = buildPoolRounds(teams, settings.poolCount, seed || 1)
+  const poolNames = Array.from(new Set(poolRounds.flat().map((match) => match.meta?.pool ?? '')))
+    .filter(Boolean)
+    .sort()
+  const smallestPool = Math.min(...poolNames.map((pool) => new Set(
+    poolRounds.flat().filter((match) => match.meta?.pool === pool).flatMap((match) => [match.a.id, match.b.id])
+  ).size))
+  const entrants = poolQualifierEntrants(poolNames, clamp(settings.qualifiersPerPool, 1, smallestPool))
+  return [...poolRounds, ...toKnockoutMatches(buildKnockoutRounds(entrants, settings.knockoutMode), teams)]
 }
 
 function packTournamentRounds(rounds: Match[][], pitches: number) {
@@ -437,6 +468,13 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
     value?.tournamentFormat === 'ELIMINATION' ? 'ELIMINATION' : 'CHAMPIONNAT'
   )
   const [tournamentWithPools, setTournamentWithPools] = useState(Boolean(value?.tournamentWithPools))
+  const [poolCount, setPoolCount] = useState(typeof value?.poolCount === 'number' ? value.poolCount : 2)
+  const [qualifiersPerPool, setQualifiersPerPool] = useState(
+    typeof value?.qualifiersPerPool === 'number' ? value.qualifiersPerPool : 2
+  )
+  const [knockoutMode, setKnockoutMode] = useState<TournamentKnockoutMode>(
+    value?.tournamentKnockoutMode ?? 'SINGLE'
+  )
   const isTournament = competitionType === 'TOURNOI'
 
   useEffect(() => {
@@ -451,6 +489,9 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
     setAllowRematches(typeof value.allowRematches === 'boolean' ? value.allowRematches : false)
     setTournamentFormat(value.tournamentFormat === 'ELIMINATION' ? 'ELIMINATION' : 'CHAMPIONNAT')
     setTournamentWithPools(Boolean(value.tournamentWithPools))
+    setPoolCount(typeof value.poolCount === 'number' ? clamp(value.poolCount, 1) : 2)
+    setQualifiersPerPool(typeof value.qualifiersPerPool === 'number' ? clamp(value.qualifiersPerPool, 1) : 2)
+    setKnockoutMode(value.tournamentKnockoutMode ?? 'SINGLE')
     setRegenKey(typeof value.regenSeed === 'number' ? value.regenSeed : 1)
   }, [
     value,
@@ -464,6 +505,9 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
     setAllowRematches,
     setTournamentFormat,
     setTournamentWithPools,
+    setPoolCount,
+    setQualifiersPerPool,
+    setKnockoutMode,
     setRegenKey,
   ])
 
@@ -482,8 +526,16 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
   )
   const teams = useMemo(() => parseTeams(teamsText), [teamsText])
   const tournamentRounds = useMemo(
-    () => (isTournament ? buildTournamentRounds(teams, tournamentFormat, tournamentWithPools, regenKey || 1) : []),
-    [isTournament, teams, tournamentFormat, tournamentWithPools, regenKey]
+    () => (isTournament
+      ? buildTournamentRounds(teams, {
+        format: tournamentFormat,
+        withPools: tournamentWithPools,
+        poolCount,
+        qualifiersPerPool,
+        knockoutMode,
+      }, regenKey || 1)
+      : []),
+    [isTournament, teams, tournamentFormat, tournamentWithPools, poolCount, qualifiersPerPool, knockoutMode, regenKey]
   )
   const matches = useMemo(() => {
     if (isTournament) return tournamentRounds.flat()
@@ -499,6 +551,9 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
     return packSchedule(shuffledMatches, Math.max(1, pitches), Math.max(1, restEveryX))
   }, [isTournament, tournamentRounds, shuffledMatches, pitches, restEveryX])
 
+  const usesKnockout = isTournament && tournamentFormat === 'ELIMINATION'
+  const usesPools = usesKnockout && tournamentWithPools
+
   // 3) Remonter le JSON (pour sauvegarde côté parent)
   useEffect(() => {
     const exportObj: PlanningData = {
@@ -511,10 +566,14 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
       regenSeed: regenKey,
       tournamentFormat: isTournament ? tournamentFormat : undefined,
       tournamentWithPools: isTournament ? tournamentWithPools : undefined,
+      poolCount: usesPools ? poolCount : undefined,
+      qualifiersPerPool: usesPools ? qualifiersPerPool : undefined,
+      tournamentKnockoutMode: usesKnockout ? knockoutMode : undefined,
+      knockoutWinners: usesKnockout ? value?.knockoutWinners : undefined,
       teams: teamEntries,
       slots: agenda.map((slot) => ({
         time: fmtTime(addMinutes(parsedStart!, slot.timeIndex * slotMinutes)),
-        games: slot.games.map((g) => ({ pitch: g.pitch, A: g.match.a.label, B: g.match.b.label })),
+        games: slot.games.map((g) => ({ pitch: g.pitch, A: g.match.a.label, B: g.match.b.label, ...g.match.meta })),
       })),
     }
     onChange?.(exportObj)
@@ -531,6 +590,12 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
     allowRematches,
     tournamentFormat,
     tournamentWithPools,
+    poolCount,
+    qualifiersPerPool,
+    knockoutMode,
+    usesPools,
+    usesKnockout,
+    value?.knockoutWinners,
     regenKey,
     teamEntries,
     isTournament,
@@ -795,6 +860,38 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
                       Matchs de poules
                     </label>
                   )}
+                  {usesPools && (
+                    <>
+                      <label style={{ display: 'grid', gap: 6 }}>
+                        Nombre de poules
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          <button type="button" onClick={() => setPoolCount((prev) => clamp(prev - 1, 1))} style={stepperButtonStyle} aria-label="Diminuer le nombre de poules">−</button>
+                          <output style={{ minWidth: 32, textAlign: 'center', fontWeight: 700 }}>{poolCount}</output>
+                          <button type="button" onClick={() => setPoolCount((prev) => clamp(prev + 1, 1, Math.max(1, Math.floor(teams.length / 2))))} style={stepperButtonStyle} aria-label="Augmenter le nombre de poules">+</button>
+                        </div>
+                      </label>
+                      <label style={{ display: 'grid', gap: 6 }}>
+                        Qualifiés par poule
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          <button type="button" onClick={() => setQualifiersPerPool((prev) => clamp(prev - 1, 1))} style={stepperButtonStyle} aria-label="Diminuer le nombre de qualifiés par poule">−</button>
+                          <output style={{ minWidth: 32, textAlign: 'center', fontWeight: 700 }}>{qualifiersPerPool}</output>
+                          <button type="button" onClick={() => setQualifiersPerPool((prev) => clamp(prev + 1, 1, 8))} style={stepperButtonStyle} aria-label="Augmenter le nombre de qualifiés par poule">+</button>
+                        </div>
+                      </label>
+                    </>
+                  )}
+                  {usesKnockout && (
+                    <label style={{ display: 'grid', gap: 6 }}>
+                      Phase finale
+                      <select
+                        value={knockoutMode}
+                        onChange={(event) => setKnockoutMode(event.target.value as TournamentKnockoutMode)}
+                      >
+                        <option value="SINGLE">Match unique</option>
+                        <option value="HOME_AWAY">Aller-retour</option>
+                      </select>
+                    </label>
+                  )}
                 </div>
               ) : (
                 <>
@@ -893,7 +990,11 @@ const PlanningEditor: React.FC<Props> = ({ value, onChange, onMetaChange, compet
                               gap: 6,
                             }}
                           >
-                            <div style={{ fontSize: 12, fontWeight: 700, color: '#475569' }}>Terrain {i + 1}</div>
+                            <div style={{ fontSize: 12, fontWeight: 700, color: '#475569' }}>
+                              Terrain {i + 1}
+                              {match?.meta?.stage === 'POOL' && ` · Poule ${match.meta.pool}`}
+                              {match?.meta?.stage === 'KNOCKOUT' && ` · Phase finale${match.meta.leg === 2 ? ' (retour)' : ''}`}
+                            </div>
                             {match ? (
                               <>
                                 <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontWeight: 600 }}>
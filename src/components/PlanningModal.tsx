@@ -11,6 +11,8 @@ type PlanningModalProps = {
   onSaved: (planning: Planning) => void
   initialTeamLabel?: string
   competitionType?: 'PLATEAU' | 'MATCH' | 'TOURNOI'
+  // Réglages du matchday (poules, aller-retour) appliqués tant que la rotation ne les a pas enregistrés.
+  tournamentDefaults?: Pick<PlanningData, 'tournamentFormat' | 'tournamentWithPools' | 'tournamentKnockoutMode'>
 }
 
 const DEFAULT_PLANNING_DATA: PlanningData = {
@@ -38,16 +40,18 @@ export default function PlanningModal({
   onSaved,
   initialTeamLabel,
   competitionType = 'PLATEAU',
+  tournamentDefaults,
 }: PlanningModalProps) {
   const initialData = useMemo<PlanningData>(() => {
-    if (planning?.data) return planning.data as PlanningData
+    if (planning?.data) return { ...tournamentDefaults, ...(planning.data as PlanningData) }
     const label = String(initialTeamLabel || '').trim()
-    if (!label) return DEFAULT_PLANNING_DATA
+    if (!label) return { ...DEFAULT_PLANNING_DATA, ...tournamentDefaults }
     return {
       ...DEFAULT_PLANNING_DATA,
+      ...tournamentDefaults,
       teams: [{ label, color: '#1d4ed8' }],
     }
-  }, [initialTeamLabel, planning?.data])
+  }, [initialTeamLabel, planning?.data, tournamentDefaults])
 
   const [dataObj, setDataObj] = useState<PlanningData | null>(initialData)
   const [saving, setSaving] = useState(false)
@@ -17,6 +17,7 @@ export type PlateauRotationDisplayGame = {
 export type PlateauRotationDisplaySlot = {
   key: string
   time?: string
+  isCurrent?: boolean
   games: PlateauRotationDisplayGame[]
 }
 
@@ -173,8 +174,13 @@ export function PlateauRotationContent({
       ) : null}
       <div className="rotation-slots">
         {slots.map((slot) => (
-          <div key={slot.key} className="rotation-slot-row">
-            {slot.time ? <div className="rotation-slot-time">{slot.time}</div> : null}
+          <div key={slot.key} className={`rotation-slot-row ${slot.isCurrent ? 'is-current' : ''}`}>
+            {slot.time ? (
+              <div className="rotation-slot-time">
+                {slot.time}
+                {slot.isCurrent ? <span className="rotation-slot-live-badge">En cours</span> : null}
+              </div>
+            ) : null}
             <div className="rotation-slot-games">
               {slot.games.map((game) => (
                 <div
@@ -0,0 +1,124 @@
+import { useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  DOCUMENT_ATTACHMENT_TYPES,
+  PLAYER_DOCUMENT_STATE_LABELS,
+  PLAYER_DOCUMENT_STATUSES,
+  type PlayerDocumentRow,
+} from '../features/playerDocuments'
+import type { PlayerDocumentStatus, PlayerDocumentType } from '../types/api'
+import './PlayerDocumentsChecklist.css'
+
+type DocumentDraft = {
+  status: PlayerDocumentStatus
+  expiresAt: string
+}
+
+type PlayerDocumentsChecklistProps = {
+  rows: PlayerDocumentRow[]
+  onSave: (type: PlayerDocumentType, changes: { status: PlayerDocumentStatus; expiresAt: string | null }) => Promise<void>
+  onUpload: (type: PlayerDocumentType, file: File) => Promise<void>
+}
+
+function draftFromRow(row: PlayerDocumentRow): DocumentDraft {
+  return {
+    status: row.document?.status ?? 'MISSING',
+    expiresAt: (row.document?.expiresAt || '').slice(0, 10),
+  }
+}
+
+export default function PlayerDocumentsChecklist({ rows, onSave, onUpload }: PlayerDocumentsChecklistProps) {
+  const [drafts, setDrafts] = useState<Partial<Record<PlayerDocumentType, DocumentDraft>>>({})
+  const [busyType, setBusyType] = useState<PlayerDocumentType | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function run(type: PlayerDocumentType, action: () => Promise<void>) {
+    setBusyType(type)
+    setError(null)
+    try {
+      await action()
+      setDrafts((prev) => {
+        const next = { ...prev }
+        delete next[type]
+        return next
+      })
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+    } finally {
+      setBusyType(null)
+    }
+  }
+
+  return (
+    <div className="player-documents">
+      <ul className="player-documents-list">
+        {rows.map((row) => {
+          const saved = draftFromRow(row)
+          const draft = drafts[row.type] ?? saved
+          const dirty = draft.status !== saved.status || draft.expiresAt !== saved.expiresAt
+          const busy = busyType === row.type
+          return (
+            <li key={row.type} className="player-documents-row">
+              <div className="player-documents-row-head">
+                <strong>{row.label}</strong>
+                <span className={`player-documents-state is-${row.state.toLowerCase()}`}>{PLAYER_DOCUMENT_STATE_LABELS[row.state]}</span>
+              </div>
+              <div className="player-documents-fields">
+                <select
+                  aria-label={`Statut ${row.label}`}
+                  value={draft.status}
+                  disabled={busy}
+                  onChange={(event) => setDrafts((prev) => ({ ...prev, [row.type]: { ...draft, status: event.target.value as PlayerDocumentStatus } }))}
+                >
+                  {PLAYER_DOCUMENT_STATUSES.map((status) => (
+                    <option key={status} value={status}>{PLAYER_DOCUMENT_STATE_LABELS[status]}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  aria-label={`Expiration ${row.label}`}
+                  value={draft.expiresAt}
+                  disabled={busy}
+                  onChange={(event) => setDrafts((prev) => ({ ...prev, [row.type]: { ...draft, expiresAt: event.target.value } }))}
+                />
+                {dirty && (
+                  <button
+                    type="button"
+                    className="player-invite-btn"
+                    disabled={busy}
+                    onClick={() => { void run(row.type, () => onSave(row.type, { status: draft.status, expiresAt: draft.expiresAt || null })) }}
+                  >
+                    {busy ? 'Enregistrement...' : 'Enregistrer'}
+                  </button>
+                )}
+              </div>
+              <div className="player-documents-attachment">
+                {row.document?.attachmentUrl ? (
+                  <a href={row.document.attachmentUrl} target="_blank" rel="noreferrer">
+                    {row.document.attachmentName || 'Voir le fichier'}
+                  </a>
+                ) : (
+                  <span>Aucun fichier</span>
+                )}
+                <label className="player-documents-upload">
+                  {row.document?.attachmentUrl ? 'Remplacer' : 'Joindre'}
+                  <input
+                    type="file"
+                    accept={DOCUMENT_ATTACHMENT_TYPES.join(',')}
+                    disabled={busy}
+                    onChange={(event) => {
+                      const file = event.target.files?.[0]
+                      event.target.value = ''
+                      if (file) void run(row.type, () => onUpload(row.type, file))
+                    }}
+                  />
+                </label>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+      {error && <p className="player-documents-error">{error}</p>}
+    </div>
+  )
+}
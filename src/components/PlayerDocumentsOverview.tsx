@@ -0,0 +1,166 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toErrorMessage } from '../errors'
+import {
+  PLAYER_DOCUMENT_LABELS,
+  PLAYER_DOCUMENT_STATE_LABELS,
+  PLAYER_DOCUMENT_STATUSES,
+  PLAYER_DOCUMENT_TYPES,
+  buildDocumentChecklist,
+  summarizeDocumentStates,
+} from '../features/playerDocuments'
+import type { Player, PlayerDocumentStatus, PlayerDocumentType, Team } from '../types/api'
+import './PlayerDocumentsOverview.css'
+
+type PlayerDocumentsOverviewProps = {
+  players: Player[]
+  teams: Team[]
+  onBulkUpdate: (playerIds: string[], type: PlayerDocumentType, status: PlayerDocumentStatus) => Promise<void>
+}
+
+export default function PlayerDocumentsOverview({ players, teams, onBulkUpdate }: PlayerDocumentsOverviewProps) {
+  const [teamId, setTeamId] = useState('')
+  const [incompleteOnly, setIncompleteOnly] = useState(true)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [bulkType, setBulkType] = useState<PlayerDocumentType>('LICENCE')
+  const [bulkStatus, setBulkStatus] = useState<PlayerDocumentStatus>('VALID')
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const teamNameById = useMemo(() => new Map(teams.map((team) => [team.id, team.name] as const)), [teams])
+  const teamPlayers = useMemo(
+    () => (teamId ? players.filter((player) => player.teamId === teamId) : players),
+    [players, teamId],
+  )
+  const summary = useMemo(() => summarizeDocumentStates(teamPlayers), [teamPlayers])
+  const rows = useMemo(
+    () => teamPlayers
+      .map((player) => ({ player, checklist: buildDocumentChecklist(player) }))
+      .filter((row) => !incompleteOnly || row.checklist.some((item) => item.state !== 'VALID'))
+      .sort((a, b) => a.player.name.localeCompare(b.player.name, 'fr-FR')),
+    [incompleteOnly, teamPlayers],
+  )
+  const selectedIds = rows.map((row) => row.player.id).filter((id) => selected.has(id))
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length
+
+  function toggle(playerId: string) {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(playerId)) next.delete(playerId)
+      else next.add(playerId)
+      return next
+    })
+  }
+
+  async function applyBulkStatus() {
+    if (selectedIds.length === 0) return
+    setApplying(true)
+    setError(null)
+    try {
+      await onBulkUpdate(selectedIds, bulkType, bulkStatus)
+      setSelected(new Set())
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  return (
+    <div className="documents-overview">
+      <div className="documents-overview-summary">
+        {PLAYER_DOCUMENT_TYPES.map((type) => {
+          const counts = summary[type]
+          const toFix = counts.MISSING + counts.REJECTED + counts.EXPIRED
+          return (
+            <article key={type} className="documents-overview-stat">
+              <strong>{PLAYER_DOCUMENT_LABELS[type]}</strong>
+              <span>{counts.VALID} valides · {counts.PENDING} à vérifier</span>
+              <span className={toFix > 0 ? 'is-alert' : ''}>{toFix} manquants, refusés ou expirés</span>
+            </article>
+          )
+        })}
+      </div>
+
+      <div className="documents-overview-filters">
+        <select aria-label="Filtrer par équipe" value={teamId} onChange={(event) => setTeamId(event.target.value)}>
+          <option value="">Toutes les équipes</option>
+          {teams.map((team) => <option key={team.id} value={team.id}>{team.name}</option>)}
+        </select>
+        <label>
+          <input type="checkbox" checked={incompleteOnly} onChange={(event) => setIncompleteOnly(event.target.checked)} />
+          Dossiers incomplets uniquement
+        </label>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="documents-overview-bulk">
+          <span>{selectedIds.length} joueur(s) sélectionné(s)</span>
+          <select aria-label="Document" value={bulkType} onChange={(event) => setBulkType(event.target.value as PlayerDocumentType)}>
+            {PLAYER_DOCUMENT_TYPES.map((type) => <option key={type} value={type}>{PLAYER_DOCUMENT_LABELS[type]}</option>)}
+          </select>
+          <select aria-label="Statut" value={bulkStatus} onChange={(event) => setBulkStatus(event.target.value as PlayerDocumentStatus)}>
+            {PLAYER_DOCUMENT_STATUSES.map((status) => <option key={status} value={status}>{PLAYER_DOCUMENT_STATE_LABELS[status]}</option>)}
+          </select>
+          <button type="button" onClick={() => { void applyBulkStatus() }} disabled={applying}>
+            {applying ? 'Mise à jour...' : 'Appliquer'}
+          </button>
+        </div>
+      )}
+      {error && <p className="documents-overview-error">{error}</p>}
+
+      {rows.length === 0 ? (
+        <p className="documents-overview-empty">{incompleteOnly ? 'Tous les dossiers sont complets.' : 'Aucun joueur.'}</p>
+      ) : (
+        <div className="documents-overview-table-wrap">
+          <table className="documents-overview-table">
+            <thead>
+              <tr>
+                <th>
+                  <input
+                    type="checkbox"
+                    aria-label="Tout sélectionner"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map((row) => row.player.id)))}
+                  />
+                </th>
+                <th>Joueur</th>
+                <th>Équipe</th>
+                {PLAYER_DOCUMENT_TYPES.map((type) => <th key={type}>{PLAYER_DOCUMENT_LABELS[type]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ player, checklist }) => {
+                const stateByType = new Map(checklist.map((item) => [item.type, item.state] as const))
+                return (
+                  <tr key={player.id}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        aria-label={`Sélectionner ${player.name}`}
+                        checked={selected.has(player.id)}
+                        onChange={() => toggle(player.id)}
+                      />
+                    </td>
+                    <td><Link to={`/effectif/${encodeURIComponent(player.id)}`}>{player.name}</Link></td>
+                    <td>{(player.teamId && teamNameById.get(player.teamId)) || player.teamName || '—'}</td>
+                    {PLAYER_DOCUMENT_TYPES.map((type) => {
+                      const state = stateByType.get(type)
+                      return (
+                        <td key={type}>
+                          {state
+                            ? <span className={`documents-overview-state is-${state.toLowerCase()}`}>{PLAYER_DOCUMENT_STATE_LABELS[state]}</span>
+                            : <span className="documents-overview-na">—</span>}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useMemo, useState, type ReactNode } from 'react'
-import type { Player } from '../types/api'
+import { ABSENCE_REASON_LABELS } from '../features/absenceReasons'
+import type { AbsenceReason, Player } from '../types/api'
 import SelectionModal from './SelectionModal'
 
 type PlayersPresenceSectionProps = {
@@ -7,6 +8,12 @@ type PlayersPresenceSectionProps = {
   presentPlayerIds: Set<string>
   intentByPlayerId?: Record<string, 'PRESENT' | 'ABSENT' | 'UNKNOWN'>
   onTogglePresence: (playerId: string, present: boolean) => void | Promise<void>
+  // When provided, absent players can be marked as excused.
+  excusedPlayerIds?: Set<string>
+  onToggleExcused?: (playerId: string, excused: boolean) => void | Promise<void>
+  // Reasons declared with an "absent" intent, and their aggregated summary for the card.
+  absenceReasonByPlayerId?: Record<string, { reason: AbsenceReason | null; note: string | null }>
+  absenceSummary?: string
   cardDisabled?: boolean
   selectionDisabled?: boolean
   selectionDisabledMessage?: ReactNode
@@ -45,6 +52,10 @@ export default function PlayersPresenceSection({
   presentPlayerIds,
   intentByPlayerId,
   onTogglePresence,
+  excusedPlayerIds,
+  onToggleExcused,
+  absenceReasonByPlayerId,
+  absenceSummary,
   cardDisabled = false,
   selectionDisabled = false,
   selectionDisabledMessage,
@@ -76,6 +87,7 @@ export default function PlayersPresenceSection({
             <span>{presentPlayerIds.size}/{players.length}</span>
           </div>
         </div>
+        {absenceSummary && <p className="muted-line">Absences signalées: {absenceSummary}</p>}
         <div className="players-avatar-stack">
           {presentPlayers.length === 0 ? (
             <p className="muted-line">Aucun joueur présent.</p>
@@ -110,6 +122,8 @@ export default function PlayersPresenceSection({
         {players.map((player) => {
           const present = presentPlayerIds.has(player.id)
           const intent = intentByPlayerId?.[player.id] ?? 'UNKNOWN'
+          const excused = excusedPlayerIds?.has(player.id) ?? false
+          const declared = intent === 'ABSENT' ? absenceReasonByPlayerId?.[player.id] : undefined
           return (
             <label key={player.id} className="attendance-row">
               <span style={{ display: 'inline-flex', alignItems: 'center', gap: 8 }}>
@@ -117,6 +131,22 @@ export default function PlayersPresenceSection({
                 <span className={`intent-badge intent-badge--${intent.toLowerCase()}`}>
                   {intent === 'PRESENT' ? '✓' : intent === 'ABSENT' ? '✕' : '?'}
                 </span>
+                {declared && (declared.reason || declared.note) && (
+                  <span className="absence-reason-tag" title={declared.note ?? undefined}>
+                    {[declared.reason ? ABSENCE_REASON_LABELS[declared.reason] : '', declared.note ?? ''].filter(Boolean).join(': ')}
+                  </span>
+                )}
+                {onToggleExcused && !present && (
+                  <button
+                    type="button"
+                    className={`absence-excuse-btn ${excused ? 'is-active' : ''}`}
+                    aria-pressed={excused}
+                    disabled={selectionDisabled}
+                    onClick={() => { void onToggleExcused(player.id, !excused) }}
+                  >
+                    {excused ? 'Absence excusée' : 'Excuser'}
+                  </button>
+                )}
               </span>
               <input
                 type="checkbox"
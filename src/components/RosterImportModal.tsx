@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  ROSTER_IMPORT_FIELDS,
+  buildRosterImportPayload,
+  buildRosterImportRows,
+  getDefaultRosterImportAction,
+  getRosterImportActions,
+  guessColumnMapping,
+  type RosterColumnMapping,
+  type RosterImportAction,
+  type RosterImportField,
+  type RosterImportRow,
+} from '../features/rosterImport'
+import { SPREADSHEET_ACCEPT, readSpreadsheetFile, type SpreadsheetRows } from '../features/spreadsheet'
+import type { Player } from '../types/api'
+import { CloseIcon } from './icons'
+import './RosterImportModal.css'
+
+export type RosterImportItem = {
+  // File line, so lines already sent can leave the preview when the import stops midway.
+  line: number
+  // Player to update, null to create a new one.
+  playerId: string | null
+  payload: Record<string, unknown>
+}
+
+type RosterImportModalProps = {
+  // Whole club roster, null while it loads; used for duplicate detection.
+  existingPlayers: Player[] | null
+  positions: readonly string[]
+  undefinedPosition: string
+  teamId: string | null
+  formatPosition: (position: string) => string
+  // Calls onImported after each line is saved; rejects on the first failing line.
+  onImport: (items: RosterImportItem[], onImported: (item: RosterImportItem) => void) => Promise<void>
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<RosterImportAction, string> = {
+  create: 'Créer',
+  update: 'Mettre à jour',
+  skip: 'Ignorer',
+}
+
+function formatDay(dayKey: string): string {
+  return dayKey ? dayKey.split('-').reverse().join('/') : '—'
+}
+
+function resolveAction(row: RosterImportRow, override: RosterImportAction | undefined): RosterImportAction {
+  return override && getRosterImportActions(row).includes(override) ? override : getDefaultRosterImportAction(row)
+}
+
+export default function RosterImportModal({
+  existingPlayers,
+  positions,
+  undefinedPosition,
+  teamId,
+  formatPosition,
+  onImport,
+  onClose,
+}: RosterImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [sheet, setSheet] = useState<SpreadsheetRows | null>(null)
+  const [mapping, setMapping] = useState<RosterColumnMapping | null>(null)
+  const [overrides, setOverrides] = useState<Record<number, RosterImportAction>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importedLines, setImportedLines] = useState<ReadonlySet<number>>(new Set())
+
+  const headers = sheet?.[0] ?? []
+  const rows = useMemo(
+    () => (sheet && mapping && existingPlayers
+      ? buildRosterImportRows(sheet, mapping, existingPlayers, { positions }).filter((row) => !importedLines.has(row.line))
+      : []),
+    [existingPlayers, importedLines, mapping, positions, sheet],
+  )
+  const actions = rows.map((row) => resolveAction(row, overrides[row.line]))
+  const createCount = actions.filter((action) => action === 'create').length
+  const updateCount = actions.filter((action) => action === 'update').length
+  const selectedCount = createCount + updateCount
+  const hasNameColumn = mapping !== null && (mapping.firstName !== null || mapping.fullName !== null)
+
+  async function readFile(file: File | undefined) {
+    if (!file) return
+    setError(null)
+    setSheet(null)
+    setMapping(null)
+    setOverrides({})
+    setImportedLines(new Set())
+    setFileName(file.name)
+    try {
+      const result = await readSpreadsheetFile(file)
+      if (result.length < 2) throw new Error('Aucun joueur dans ce fichier: la première ligne doit contenir les en-têtes.')
+      setSheet(result)
+      setMapping(guessColumnMapping(result[0]))
+    } catch (err: unknown) {
+      setError(toErrorMessage(err))
+    }
+  }
+
+  function updateMapping(field: RosterImportField, value: string) {
+    setMapping((prev) => (prev ? { ...prev, [field]: value === '' ? null : Number(value) } : prev))
+    setOverrides({})
+  }
+
+  async function submit() {
+    if (importing || selectedCount === 0) return
+    const items: RosterImportItem[] = []
+    rows.forEach((row, index) => {
+      const action = actions[index]
+      if (action === 'skip') return
+      items.push({
+        line: row.line,
+        playerId: action === 'update' ? row.duplicateOf?.id ?? null : null,
+        payload: buildRosterImportPayload(row.values, { action, teamId, undefinedPosition }),
+      })
+    })
+    let done = 0
+    setImporting(true)
+    setError(null)
+    setProgress(`Import 0/${items.length}…`)
+    try {
+      await onImport(items, (item) => {
+        done += 1
+        setImportedLines((prev) => new Set(prev).add(item.line))
+        setProgress(`Import ${done}/${items.length}…`)
+      })
+      onClose()
+    } catch (err: unknown) {
+      setError(done > 0
+        ? `Import interrompu après ${done} joueur(s), retirés de l’aperçu: ${toErrorMessage(err)}`
+        : `Import interrompu: ${toErrorMessage(err)}`)
+    } finally {
+      setImporting(false)
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="roster-import-overlay" role="dialog" aria-modal="true" aria-label="Importer des joueurs" onClick={() => !importing && onClose()}>
+      <div className="roster-import-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="roster-import-head">
+          <div>
+            <h3>Importer des joueurs</h3>
+            <p>Fichier .csv ou .xlsx (export des licences par exemple), une ligne par joueur sous une ligne d’en-têtes.</p>
+          </div>
+          <button type="button" className="roster-import-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={importing}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+
+        <label className="roster-import-file">
+          <span>{fileName ?? 'Choisir un fichier'}</span>
+          <input
+            type="file"
+            accept={SPREADSHEET_ACCEPT}
+            disabled={importing || !existingPlayers}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              void readFile(file)
+            }}
+          />
+        </label>
+        {!existingPlayers && <p className="roster-import-note">Chargement de l’effectif…</p>}
+        {error && <p className="roster-import-error">{error}</p>}
+
+        {sheet && mapping && (
+          <>
+            <section className="roster-import-section">
+              <h4>Colonnes</h4>
+              <div className="roster-import-mapping">
+                {ROSTER_IMPORT_FIELDS.map(({ field, label }) => (
+                  <label key={field}>
+                    <span>{label}</span>
+                    <select value={mapping[field] ?? ''} disabled={importing} onChange={(e) => updateMapping(field, e.target.value)}>
+                      <option value="">Non importé</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Colonne ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {!hasNameColumn && <p className="roster-import-error">Choisissez la colonne du prénom (ou du nom complet).</p>}
+            </section>
+
+            <section className="roster-import-section">
+              <h4>Aperçu ({rows.length} ligne(s))</h4>
+              <p className="roster-import-note">
+                {createCount} à créer · {updateCount} à mettre à jour · {rows.length - selectedCount} ignorée(s)
+              </p>
+              <div className="roster-import-table-wrap">
+                <table className="roster-import-table">
+                  <thead>
+                    <tr>
+                      <th>Ligne</th>
+                      <th>Joueur</th>
+                      <th>Naissance</th>
+                      <th>Licence</th>
+                      <th>Poste</th>
+                      <th>Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr key={row.line} className={actions[index] === 'skip' ? 'is-skipped' : ''}>
+                        <td>{row.line}</td>
+                        <td>
+                          <strong>{[row.values.firstName, row.values.lastName].filter(Boolean).join(' ') || '—'}</strong>
+                          {row.errors.map((message) => <span key={message} className="roster-import-issue is-error">{message}</span>)}
+                          {row.warnings.map((message) => <span key={message} className="roster-import-issue">{message}</span>)}
+                          {row.duplicateOf && <span className="roster-import-issue">Déjà inscrit: {row.duplicateOf.name}</span>}
+                          {!row.duplicateOf && row.duplicateInFile && <span className="roster-import-issue">En double dans le fichier</span>}
+                        </td>
+                        <td>{formatDay(row.values.dateOfBirth)}</td>
+                        <td>{row.values.licence || '—'}</td>
+                        <td>{row.values.primaryPosition ? formatPosition(row.values.primaryPosition) : '—'}</td>
+                        <td>
+                          <select
+                            aria-label={`Action ligne ${row.line}`}
+                            value={actions[index]}
+                            disabled={importing}
+                            onChange={(e) => {
+                              const value = e.target.value as RosterImportAction
+                              setOverrides((prev) => ({ ...prev, [row.line]: value }))
+                            }}
+                          >
+                            {getRosterImportActions(row).map((action) => (
+                              <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </>
+        )}
+
+        <div className="roster-import-actions">
+          {progress && <span className="roster-import-note">{progress}</span>}
+          <button type="button" onClick={onClose} disabled={importing}>Annuler</button>
+          <button type="button" className="is-primary" onClick={() => void submit()} disabled={importing || selectedCount === 0}>
+            {importing ? 'Import…' : `Importer ${selectedCount} joueur(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react'
+import { toErrorMessage } from '../errors'
+import {
+  planRotationDay,
+  setPlannedGoalkeeper,
+  togglePlannedStarter,
+  type PlannableMatch,
+  type PlannedLineup,
+} from '../features/rotationPlanner'
+import type { Player } from '../types/api'
+import './RotationPlannerModal.css'
+
+type RotationPlannerModalProps = {
+  matches: PlannableMatch[]
+  players: Player[]
+  startersPerMatch: number
+  matchMinutes: number
+  onAccept: (planned: PlannableMatch, lineup: PlannedLineup) => Promise<void>
+  onClose: () => void
+}
+
+export default function RotationPlannerModal({
+  matches,
+  players,
+  startersPerMatch,
+  matchMinutes,
+  onAccept,
+  onClose,
+}: RotationPlannerModalProps) {
+  // Edited and accepted lineups are fixed; every other match is re-planned around them.
+  const [fixedLineups, setFixedLineups] = useState<Record<string, PlannedLineup>>({})
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set())
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const plan = useMemo(
+    () => planRotationDay({ matches, players, startersPerMatch, matchMinutes, fixed: fixedLineups }),
+    [fixedLineups, matchMinutes, matches, players, startersPerMatch],
+  )
+  const lineupByMatchId = useMemo(() => new Map(plan.lineups.map((lineup) => [lineup.matchId, lineup] as const)), [plan])
+  const nameById = useMemo(() => new Map(players.map((player) => [player.id, player.name] as const)), [players])
+  const summaryRows = useMemo(() => (
+    players
+      .map((player) => ({
+        playerId: player.id,
+        name: player.name,
+        minutes: plan.loadByPlayerId.get(player.id) ?? 0,
+        starts: plan.lineups.filter((lineup) => lineup.starters.includes(player.id)).length,
+        goalkeeperTurns: plan.goalkeeperTurnsByPlayerId.get(player.id) ?? 0,
+      }))
+      .sort((a, b) => a.minutes - b.minutes || a.name.localeCompare(b.name))
+  ), [plan, players])
+
+  function editLineup(matchId: string, update: (lineup: PlannedLineup) => PlannedLineup) {
+    const current = lineupByMatchId.get(matchId)
+    if (!current || acceptedIds.has(matchId)) return
+    setFixedLineups((prev) => ({ ...prev, [matchId]: update(current) }))
+  }
+
+  function resetEdits() {
+    setFixedLineups((prev) => Object.fromEntries(Object.entries(prev).filter(([matchId]) => acceptedIds.has(matchId))))
+  }
+
+  async function accept(planned: PlannableMatch): Promise<boolean> {
+    const lineup = lineupByMatchId.get(planned.matchId)
+    if (!lineup) return false
+    setSavingId(planned.matchId)
+    setError(null)
+    try {
+      await onAccept(planned, lineup)
+      setFixedLineups((prev) => ({ ...prev, [planned.matchId]: lineup }))
+      setAcceptedIds((prev) => new Set(prev).add(planned.matchId))
+      return true
+    } catch (err: unknown) {
+      setError(`Erreur enregistrement composition: ${toErrorMessage(err)}`)
+      return false
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  // Accepting never changes the other lineups (they were planned around this one), so the
+  // current plan can be saved match after match.
+  async function acceptAll() {
+    for (const planned of matches) {
+      if (acceptedIds.has(planned.matchId)) continue
+      if (!(await accept(planned))) break
+    }
+  }
+
+  const busy = savingId !== null
+
+  return (
+    <>
+      <div className="modal-overlay" onClick={() => !busy && onClose()} />
+      <div className="drill-modal rotation-planner-modal" role="dialog" aria-modal="true" aria-label="Planifier les compositions du plateau">
+        <div className="drill-modal-head">
+          <h3>Compositions de la journée</h3>
+          <button type="button" onClick={onClose} disabled={busy}>✕</button>
+        </div>
+        <p className="muted-line">
+          {players.length} joueur(s) présent(s), {startersPerMatch} titulaire(s) par match. Cliquez sur un joueur pour l’échanger
+          entre titulaires et remplaçants : les matchs suivants sont rééquilibrés.
+        </p>
+        {error && <div className="inline-alert error">{error}</div>}
+        {players.length === 0 ? (
+          <div className="rotation-empty-state">Aucun joueur présent : cochez les présences avant de planifier.</div>
+        ) : (
+          <div className="rotation-planner-matches">
+            {matches.map((planned) => {
+              const lineup = lineupByMatchId.get(planned.matchId)
+              if (!lineup) return null
+              const accepted = acceptedIds.has(planned.matchId)
+              const edited = Boolean(fixedLineups[planned.matchId]) && !accepted
+              return (
+                <article key={planned.matchId} className={`rotation-planner-match ${accepted ? 'is-accepted' : ''}`}>
+                  <div className="rotation-planner-match-head">
+                    <strong>{planned.slotTime} · {planned.opponent}</strong>
+                    {accepted ? <span className="rotation-planner-tag">Acceptée</span> : edited ? <span className="rotation-planner-tag">Modifiée</span> : null}
+                  </div>
+                  <label className="rotation-planner-goalkeeper">
+                    Gardien
+                    <select
+                      value={lineup.goalkeeperId ?? ''}
+                      disabled={accepted || busy}
+                      onChange={(event) => editLineup(planned.matchId, (current) => setPlannedGoalkeeper(current, event.target.value || null))}
+                    >
+                      <option value="">—</option>
+                      {players.map((player) => <option key={player.id} value={player.id}>{player.name}</option>)}
+                    </select>
+                  </label>
+                  <div className="rotation-planner-chips">
+                    {[...lineup.starters, ...lineup.subs].map((playerId) => {
+                      const isStarter = lineup.starters.includes(playerId)
+                      return (
+                        <button
+                          key={playerId}
+                          type="button"
+                          className={`rotation-planner-chip ${isStarter ? 'is-starter' : ''} ${lineup.goalkeeperId === playerId ? 'is-goalkeeper' : ''}`}
+                          disabled={accepted || busy}
+                          onClick={() => editLineup(planned.matchId, (current) => togglePlannedStarter(current, playerId))}
+                        >
+                          {nameById.get(playerId) || 'Joueur inconnu'}
+                        </button>
+                      )
+                    })}
+                  </div>
+                  {lineup.starters.length !== startersPerMatch && (
+                    <p className="rotation-planner-warning">{lineup.starters.length}/{startersPerMatch} titulaires</p>
+                  )}
+                  {!accepted && (
+                    <button type="button" className="rotation-edit-link" disabled={busy} onClick={() => { void accept(planned) }}>
+                      {savingId === planned.matchId ? 'Enregistrement…' : 'Accepter'}
+                    </button>
+                  )}
+                </article>
+              )
+            })}
+          </div>
+        )}
+        {summaryRows.length > 0 && (
+          <table className="rotation-planner-summary">
+            <thead>
+              <tr>
+                <th>Joueur</th>
+                <th>Titulaire</th>
+                <th>Gardien</th>
+                <th>Minutes prévues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaryRows.map((row) => (
+                <tr key={row.playerId}>
+                  <td>{row.name}</td>
+                  <td>{row.starts}/{matches.length}</td>
+                  <td>{row.goalkeeperTurns}</td>
+                  <td>{Math.round(row.minutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+          <button
+            type="button"
+            onClick={resetEdits}
+            disabled={busy}
+            style={{ border: '1px solid #d1d5db', borderRadius: 8, background: '#fff', padding: '8px 12px' }}
+          >
+            Recalculer
+          </button>
+          <button
+            type="button"
+            onClick={() => { void acceptAll() }}
+            disabled={busy || players.length === 0 || acceptedIds.size === matches.length}
+            style={{ border: '1px solid #0b65c2', borderRadius: 8, background: '#0b65c2', color: '#fff', padding: '8px 12px' }}
+          >
+            Tout accepter
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,120 @@
+import type { BracketTie, StandingRow, TournamentResolution } from '../features/tournament'
+import './TournamentBracket.css'
+
+type TournamentStandingsTableProps = {
+  rows: StandingRow[]
+  // Rows above this rank are highlighted as qualified for the knockout stage.
+  qualifiedCount?: number
+}
+
+type TournamentBracketProps = {
+  resolution: TournamentResolution
+  qualifiedPerPool?: number
+  pickingTieId?: string | null
+  onPickWinner?: (tie: BracketTie, team: string) => void
+}
+
+export function TournamentStandingsTable({ rows, qualifiedCount = 0 }: TournamentStandingsTableProps) {
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table className="tournament-standings">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Équipe</th>
+            <th>Pts</th>
+            <th>J</th>
+            <th>G</th>
+            <th>N</th>
+            <th>P</th>
+            <th>BP</th>
+            <th>BC</th>
+            <th>Diff</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={`standing-${row.team}`} className={index < qualifiedCount ? 'is-qualified' : undefined}>
+              <td style={{ fontWeight: 700 }}>{index + 1}</td>
+              <td>{row.team}</td>
+              <td style={{ fontWeight: 700 }}>{row.points}</td>
+              <td>{row.played}</td>
+              <td>{row.won}</td>
+              <td>{row.draw}</td>
+              <td>{row.lost}</td>
+              <td>{row.gf}</td>
+              <td>{row.ga}</td>
+              <td>{row.gd > 0 ? `+${row.gd}` : row.gd}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function TieTeamRow({ tie, side, pickingTieId, onPickWinner }: {
+  tie: BracketTie
+  side: 'A' | 'B'
+  pickingTieId?: string | null
+  onPickWinner?: (tie: BracketTie, team: string) => void
+}) {
+  const team = side === 'A' ? tie.teamA : tie.teamB
+  const placeholder = side === 'A' ? tie.placeholderA : tie.placeholderB
+  const aggregate = side === 'A' ? tie.aggregateA : tie.aggregateB
+  const isWinner = Boolean(team) && tie.winner === team
+  return (
+    <div className={`tournament-tie-team ${isWinner ? 'is-winner' : ''} ${tie.winner && !isWinner ? 'is-out' : ''}`}>
+      <span className={team ? undefined : 'is-placeholder'}>{team ?? placeholder}</span>
+      {tie.legs.length > 1 && tie.legs.map((leg) => (
+        <span key={leg.gameKey} className="tournament-tie-leg">{side === 'A' ? (leg.scoreA ?? '-') : (leg.scoreB ?? '-')}</span>
+      ))}
+      <strong className="tournament-tie-score">{aggregate ?? ''}</strong>
+      {tie.needsDecision && team && onPickWinner && (
+        <button type="button" disabled={Boolean(pickingTieId)} onClick={() => onPickWinner(tie, team)}>
+          Qualifier
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default function TournamentBracket({ resolution, qualifiedPerPool = 0, pickingTieId, onPickWinner }: TournamentBracketProps) {
+  const namedPools = resolution.pools.filter((pool) => pool.pool)
+  return (
+    <div className="tournament-bracket">
+      {namedPools.length > 0 && (
+        <div className="tournament-pools">
+          {namedPools.map((pool) => (
+            <div key={pool.pool} className="tournament-pool">
+              <h4>
+                Poule {pool.pool}
+                {!pool.complete && <span className="tournament-pool-status">en cours</span>}
+              </h4>
+              <TournamentStandingsTable rows={pool.standings} qualifiedCount={pool.complete ? qualifiedPerPool : 0} />
+            </div>
+          ))}
+        </div>
+      )}
+      {resolution.rounds.length > 0 && (
+        <div className="tournament-rounds">
+          {resolution.rounds.map((round) => (
+            <div key={round.round} className="tournament-round">
+              <h4>{round.label}</h4>
+              {round.ties.map((tie) => (
+                <div key={tie.tieId} className="tournament-tie">
+                  <TieTeamRow tie={tie} side="A" pickingTieId={pickingTieId} onPickWinner={onPickWinner} />
+                  <TieTeamRow tie={tie} side="B" pickingTieId={pickingTieId} onPickWinner={onPickWinner} />
+                  {tie.needsDecision && <div className="tournament-tie-note">Égalité : vainqueur à désigner</div>}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {resolution.champion && (
+        <div className="tournament-champion">Vainqueur du tournoi : <strong>{resolution.champion}</strong></div>
+      )}
+    </div>
+  )
+}
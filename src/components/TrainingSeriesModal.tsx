@@ -0,0 +1,128 @@
+import { useMemo, useState } from 'react'
+import { toErrorMessage } from '../errors'
+import { CURRICULUM_WEEKDAY_OPTIONS } from '../features/curriculum'
+import { MAX_SERIES_DAYS, describeTrainingSeries, expandTrainingSeries, type TrainingSeriesDraft } from '../features/trainingSeries'
+import { CloseIcon } from './icons'
+import './TrainingSeriesModal.css'
+
+type TrainingSeriesModalProps = {
+  initial: TrainingSeriesDraft
+  onCreate: (draft: TrainingSeriesDraft) => Promise<void>
+  onClose: () => void
+}
+
+function formatDayKey(dayKey: string) {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  return new Intl.DateTimeFormat('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' }).format(new Date(year, month - 1, day))
+}
+
+export default function TrainingSeriesModal({ initial, onCreate, onClose }: TrainingSeriesModalProps) {
+  const [draft, setDraft] = useState<TrainingSeriesDraft>(initial)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const occurrences = useMemo(() => expandTrainingSeries(draft), [draft])
+  const tooLong = useMemo(() => {
+    const start = new Date(`${draft.startDate}T00:00:00`)
+    const end = new Date(`${draft.endDate}T00:00:00`)
+    return end.getTime() - start.getTime() >= MAX_SERIES_DAYS * 24 * 60 * 60 * 1000
+  }, [draft.startDate, draft.endDate])
+
+  function update(patch: Partial<TrainingSeriesDraft>) {
+    setDraft((prev) => ({ ...prev, ...patch }))
+  }
+
+  function toggleWeekday(weekday: number) {
+    update({
+      weekdays: draft.weekdays.includes(weekday)
+        ? draft.weekdays.filter((value) => value !== weekday)
+        : [...draft.weekdays, weekday].sort((a, b) => a - b),
+    })
+  }
+
+  async function create() {
+    if (occurrences.length === 0 || tooLong) return
+    setBusy(true)
+    setError(null)
+    try {
+      await onCreate(draft)
+      onClose()
+    } catch (err: unknown) {
+      setError(`Création interrompue: ${toErrorMessage(err)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="training-series-overlay" role="dialog" aria-modal="true" aria-label="Créer une série" onClick={() => !busy && onClose()}>
+      <div className="training-series-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="training-series-head">
+          <strong>Créer une série d’entraînements</strong>
+          <button type="button" className="training-series-close" aria-label="Fermer la fenetre" onClick={onClose} disabled={busy}>
+            <CloseIcon size={18} />
+          </button>
+        </div>
+
+        <div className="training-series-weekdays" aria-label="Jours d'entraînement">
+          {CURRICULUM_WEEKDAY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={draft.weekdays.includes(option.value) ? 'is-active' : ''}
+              aria-pressed={draft.weekdays.includes(option.value)}
+              onClick={() => toggleWeekday(option.value)}
+              disabled={busy}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="training-series-grid">
+          <label>
+            Début
+            <input type="time" value={draft.startTime} onChange={(e) => update({ startTime: e.target.value })} disabled={busy} />
+          </label>
+          <label>
+            Fin
+            <input type="time" value={draft.endTime ?? ''} onChange={(e) => update({ endTime: e.target.value || null })} disabled={busy} />
+          </label>
+          <label>
+            Du
+            <input type="date" value={draft.startDate} onChange={(e) => update({ startDate: e.target.value })} disabled={busy} />
+          </label>
+          <label>
+            Au
+            <input type="date" value={draft.endDate} onChange={(e) => update({ endDate: e.target.value })} disabled={busy} />
+          </label>
+        </div>
+
+        {tooLong ? (
+          <p className="training-series-error">Une série ne peut pas dépasser {MAX_SERIES_DAYS} jours.</p>
+        ) : occurrences.length > 0 ? (
+          <p className="training-series-note">
+            {describeTrainingSeries(draft)} · {occurrences.length} séance(s) du {formatDayKey(occurrences[0].seriesDate)} au {formatDayKey(occurrences[occurrences.length - 1].seriesDate)}
+          </p>
+        ) : (
+          <p className="training-series-note">Aucune séance sur cette période.</p>
+        )}
+        {error && <p className="training-series-error">{error}</p>}
+
+        <div className="training-series-actions">
+          <button type="button" className="training-series-secondary-btn" onClick={onClose} disabled={busy}>
+            Annuler
+          </button>
+          <button
+            type="button"
+            className="training-series-primary-btn"
+            onClick={() => void create()}
+            disabled={busy || occurrences.length === 0 || tooLong}
+          >
+            {busy ? 'Création…' : `Créer ${occurrences.length} séance(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import DiagramFieldSvg from './DiagramFieldSvg'
+import { getPlaybackFrames, hasDiagramContent, normalizeRotationQuarterTurns, type DiagramData } from './diagramShared'
+import { formatSheetDuration, type ExpectedAttendance, type TrainingSheetTimeline } from '../features/trainingSheet'
+
+type TrainingSessionSheetProps = {
+  title: string
+  dateLabel: string
+  timeLabel: string
+  cancelled?: boolean
+  timeline: TrainingSheetTimeline
+  diagramsByTrainingDrillId: Map<string, DiagramData>
+  roles: Array<{ role: string; playerName: string }>
+  attendance: ExpectedAttendance
+}
+
+function SheetDiagram({ data, markerPrefix }: { data: DiagramData; markerPrefix: string }) {
+  const quarterTurns = normalizeRotationQuarterTurns(data.rotationQuarterTurns, data.orientation)
+  const steps = getPlaybackFrames(data, quarterTurns)
+  return (
+    <div className={`sheet-diagram-steps ${steps.length === 1 ? 'is-single' : ''}`}>
+      {steps.map((step, index) => (
+        <div key={step.id} className="sheet-diagram-step">
+          {steps.length > 1 && <span>Étape {index + 1}</span>}
+          <DiagramFieldSvg items={step.items} quarterTurns={quarterTurns} markerPrefix={`${markerPrefix}-${index}`} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Printable session sheet, rendered to static markup and printed from a separate window.
+export default function TrainingSessionSheet({
+  title,
+  dateLabel,
+  timeLabel,
+  cancelled,
+  timeline,
+  diagramsByTrainingDrillId,
+  roles,
+  attendance,
+}: TrainingSessionSheetProps) {
+  return (
+    <main>
+      <header>
+        <h1>{title}{cancelled ? ' (annulé)' : ''}</h1>
+        <p className="sheet-subtitle">
+          {dateLabel}
+          {timeLabel ? ` · ${timeLabel}` : ''}
+          {timeline.totalMinutes > 0 ? ` · ${formatSheetDuration(timeline.totalMinutes)} d’exercices` : ''}
+        </p>
+      </header>
+
+      <h2>Déroulé</h2>
+      {timeline.rows.length === 0 ? (
+        <p className="sheet-muted">Aucun exercice prévu pour cette séance.</p>
+      ) : (
+        <table className="sheet-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Horaire</th>
+              <th>Exercice</th>
+              <th>Durée</th>
+              <th>Cumul</th>
+            </tr>
+          </thead>
+          <tbody>
+            {timeline.rows.map((row, index) => (
+              <tr key={row.trainingDrillId}>
+                <td>{index + 1}</td>
+                <td>{row.startLabel && row.endLabel ? `${row.startLabel} – ${row.endLabel}` : '—'}</td>
+                <td>
+                  <strong>{row.title}</strong>
+                  {row.category ? <span className="sheet-muted"> · {row.category}</span> : null}
+                </td>
+                <td>{row.durationMinutes != null ? `${row.durationMinutes} min` : '—'}</td>
+                <td>{formatSheetDuration(row.cumulativeMinutes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {timeline.rows.length > 0 && <h2>Exercices</h2>}
+      {timeline.rows.map((row, index) => {
+        const diagram = diagramsByTrainingDrillId.get(row.trainingDrillId)
+        return (
+          <section key={row.trainingDrillId} className="sheet-drill">
+            <div className="sheet-drill-head">
+              <h3>{index + 1}. {row.title}</h3>
+              <span className="sheet-drill-time">
+                {row.startLabel ? `${row.startLabel} · ` : ''}
+                {row.durationMinutes != null ? `${row.durationMinutes} min` : 'durée libre'}
+              </span>
+            </div>
+            {row.description && <p>{row.description}</p>}
+            {row.notes && <p className="sheet-notes"><strong>Notes :</strong> {row.notes}</p>}
+            {diagram && hasDiagramContent(diagram) && <SheetDiagram data={diagram} markerPrefix={`sheet-${row.trainingDrillId}`} />}
+          </section>
+        )
+      })}
+
+      <div className="sheet-columns">
+        <section>
+          <h2>Rôles</h2>
+          {roles.length === 0 ? (
+            <p className="sheet-muted">Aucun rôle attribué.</p>
+          ) : (
+            <ul className="sheet-list">
+              {roles.map((line) => (
+                <li key={`${line.role}-${line.playerName}`}><strong>{line.role}</strong> : {line.playerName}</li>
+              ))}
+            </ul>
+          )}
+        </section>
+        <section>
+          <h2>Présences prévues ({attendance.expected.length})</h2>
+          {attendance.expected.length === 0 ? (
+            <p className="sheet-muted">Aucun joueur confirmé.</p>
+          ) : (
+            <ul className="sheet-list">
+              {attendance.expected.map((player) => <li key={player.id}>☐ {player.name}</li>)}
+            </ul>
+          )}
+          {attendance.unknown.length > 0 && (
+            <p className="sheet-muted">Sans réponse : {attendance.unknown.map((player) => player.name).join(', ')}</p>
+          )}
+          {attendance.absent.length > 0 && (
+            <p className="sheet-muted">Absents : {attendance.absent.map((player) => player.name).join(', ')}</p>
+          )}
+        </section>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildArrowPath,
+  buildDiagramTimeline,
+  getDiagramItemsAtTime,
+  getTimelineStepIndex,
+  getTransitionDurationMs,
+  interpolateItem,
+  interpolateTimedItems,
+  normalizeDiagramData,
+  orderItemsForRender,
+  rotateDiagramClockwise,
+  summarizeDiagramMaterials,
+  type DiagramFrame,
+  type Item,
+} from './diagramShared'
+
+const richItems = [
+  { type: 'arrow', id: 'a1', from: { x: 10, y: 10 }, to: { x: 100, y: 10 }, style: 'dribble', control: { x: 55, y: 60 } },
+  { type: 'goal', id: 'g1', x: 300, y: 40, angle: 90 },
+  { type: 'ladder', id: 'l1', x: 200, y: 200 },
+  { type: 'hurdle', id: 'h1', x: 220, y: 120, angle: -45 },
+  { type: 'number', id: 'n1', x: 40, y: 60, value: 3, color: 'red' },
+  { type: 'text', id: 't1', x: 80, y: 300, text: 'Départ' },
+  { type: 'zone', id: 'z1', x: 150, y: 150, width: 120, height: 80, shape: 'ellipse', color: 'yellow' },
+]
+
+describe('normalizeDiagramData', () => {
+  it('keeps existing diagrams unchanged', () => {
+    const legacy = {
+      frames: [{ id: 'f1', name: 'Etape 1', items: [
+        { type: 'player', id: 'p1', x: 20, y: 40, label: '9', color: 'red' },
+        { type: 'arrow', id: 'a1', from: { x: 1, y: 2 }, to: { x: 3, y: 4 } },
+      ] }],
+      fps: 3,
+    }
+    const normalized = normalizeDiagramData(legacy)
+    expect(normalized.frames[0].items).toEqual(legacy.frames[0].items)
+    expect(normalized.fps).toBe(3)
+  })
+
+  it('accepts the new primitives and survives a JSON round trip', () => {
+    const normalized = normalizeDiagramData({ frames: [{ id: 'f1', name: 'Etape 1', items: richItems }] })
+    expect(normalized.frames[0].items).toEqual([
+      richItems[0],
+      richItems[1],
+      richItems[2],
+      { ...richItems[3], angle: 315 },
+      richItems[4],
+      richItems[5],
+      richItems[6],
+    ])
+    expect(normalizeDiagramData(JSON.stringify(normalized)).frames[0].items).toEqual(normalized.frames[0].items)
+  })
+
+  it('repairs invalid values instead of dropping the item', () => {
+    const [zone, arrow, numberItem] = normalizeDiagramData({ frames: [{ items: [
+      { type: 'zone', id: 'z', x: 5, y: 5, width: -3, shape: 'star', color: 'pink' },
+      { type: 'arrow', id: 'a', from: { x: 0, y: 0 }, to: { x: 1, y: 1 }, style: 'cross' },
+      { type: 'number', id: 'n', x: 0, y: 0, value: 'x' },
+    ] }] }).frames[0].items
+    expect(zone).toMatchObject({ width: 10, height: 10, shape: 'rect', color: 'green' })
+    expect(arrow).not.toHaveProperty('style')
+    expect(numberItem).toMatchObject({ value: 1, color: 'blue' })
+  })
+})
+
+describe('new primitives', () => {
+  it('interpolates zones, curves and labels', () => {
+    const zoneFrom = { type: 'zone', id: 'z', x: 0, y: 0, width: 20, height: 40, shape: 'rect', color: 'blue' } as Item
+    const zoneTo = { ...zoneFrom, x: 100, width: 60 } as Item
+    expect(interpolateItem(zoneFrom, zoneTo, 0.5)).toMatchObject({ x: 50, width: 40, height: 40 })
+
+    const straight = { type: 'arrow', id: 'a', from: { x: 0, y: 0 }, to: { x: 100, y: 0 } } as Item
+    const curved = { ...straight, control: { x: 50, y: 100 } } as Item
+    expect(interpolateItem(straight, curved, 0.5)).toMatchObject({ control: { x: 50, y: 50 } })
+
+    const text = { type: 'text', id: 't', x: 0, y: 0, text: 'A' } as Item
+    expect(interpolateItem(text, { ...text, x: 10 } as Item, 0.5)).toMatchObject({ x: 5, text: 'A' })
+  })
+
+  it('rotates zones and directed equipment with the pitch', () => {
+    const data = normalizeDiagramData({ frames: [{ id: 'f1', name: 'Etape 1', items: richItems }] })
+    const rotated = rotateDiagramClockwise(data).frames[0].items
+    expect(rotated.find((item) => item.id === 'z1')).toMatchObject({ width: 80, height: 120 })
+    expect(rotated.find((item) => item.id === 'g1')).toMatchObject({ angle: 0 })
+    expect(rotated.find((item) => item.id === 'h1')).toMatchObject({ angle: 225 })
+    expect(rotated.find((item) => item.id === 'a1')).toHaveProperty('control')
+  })
+
+  it('keeps a mini-goal opening toward the same spot of the pitch', () => {
+    // A goal at angle 0 opens toward +y; the cone sits right in front of its opening.
+    const data = normalizeDiagramData({
+      frames: [{ id: 'f1', name: 'Etape 1', items: [
+        { type: 'goal', id: 'g', x: 200, y: 200, angle: 0 },
+        { type: 'cone', id: 'c', x: 200, y: 260 },
+      ] }],
+    })
+    const items = rotateDiagramClockwise(data).frames[0].items
+    const goal = items.find((item) => item.id === 'g') as Extract<Item, { type: 'goal' }>
+    const cone = items.find((item) => item.id === 'c') as Extract<Item, { type: 'cone' }>
+    const radians = ((goal.angle ?? 0) * Math.PI) / 180
+    const opening = { x: -Math.sin(radians), y: Math.cos(radians) }
+    const toCone = { x: cone.x - goal.x, y: cone.y - goal.y }
+    const length = Math.hypot(toCone.x, toCone.y)
+    expect(opening.x * (toCone.x / length) + opening.y * (toCone.y / length)).toBeCloseTo(1)
+  })
+
+  it('draws zones first, and dribbles as a wavy path', () => {
+    const items = normalizeDiagramData({ frames: [{ items: richItems }] }).frames[0].items
+    expect(orderItemsForRender(items)[0].type).toBe('zone')
+    const pass = { type: 'arrow', id: 'a', from: { x: 0, y: 0 }, to: { x: 100, y: 0 }, style: 'pass' } as const
+    expect(buildArrowPath(pass)).toBe('M0,0 L100,0')
+    expect(buildArrowPath({ ...pass, control: { x: 50, y: 40 } })).toBe('M0,0 Q50,40 100,0')
+    const dribble = buildArrowPath({ ...pass, style: 'dribble' })
+    expect(dribble.split(' L').length).toBeGreaterThan(10)
+    expect(dribble.endsWith('100.0,0.0')).toBe(true)
+  })
+
+  it('lists the new equipment in the materials summary', () => {
+    expect(summarizeDiagramMaterials({ frames: [{ items: richItems }] })).toEqual(['1 mini-but', '1 échelle de rythme', '1 haie'])
+  })
+})
+
+describe('movement timings', () => {
+  const ball = (x: number, y = 0) => ({ type: 'ball', id: 'b1', x, y }) as Item
+  const player = (x: number) => ({ type: 'player', id: 'p1', x, y: 100, color: 'blue', label: '' }) as Item
+  const frames: DiagramFrame[] = [
+    { id: 'f1', name: 'Etape 1', items: [ball(0), player(0)] },
+    {
+      id: 'f2',
+      name: 'Etape 2',
+      items: [ball(100), player(100)],
+      timings: { b1: { delayMs: 400, durationMs: 200, path: 'straight' } },
+    },
+    { id: 'f3', name: 'Etape 3', items: [ball(100), player(100)] },
+  ]
+
+  it('lasts until the last movement of each step ends', () => {
+    // fps 2 -> untimed moves take 500 ms, the ball waits 400 ms then moves for 200 ms.
+    expect(getTransitionDurationMs(frames[0].items, frames[1], 2)).toBe(600)
+    expect(getTransitionDurationMs(frames[1].items, frames[2], 2)).toBe(500)
+    const timeline = buildDiagramTimeline(frames, 2)
+    expect(timeline).toEqual({ stepStartsMs: [0, 600, 1100], totalMs: 1100 })
+    expect(getTimelineStepIndex(timeline, 599)).toBe(0)
+    expect(getTimelineStepIndex(timeline, 600)).toBe(1)
+    expect(getTimelineStepIndex(timeline, 5000)).toBe(2)
+  })
+
+  it('applies delay and duration per item', () => {
+    const timeline = buildDiagramTimeline(frames, 2)
+    const at = (ms: number) => getDiagramItemsAtTime(frames, timeline, ms, 2)
+    expect(at(250)).toMatchObject([{ id: 'b1', x: 0 }, { id: 'p1', x: 50 }])
+    expect(at(500)).toMatchObject([{ id: 'b1', x: 50 }, { id: 'p1', x: 100 }])
+    expect(at(2000)).toEqual(frames[2].items)
+  })
+
+  it('moves along a curve through the control point', () => {
+    const curved: DiagramFrame = {
+      id: 'f2',
+      name: 'Etape 2',
+      items: [ball(100)],
+      timings: { b1: { delayMs: 0, durationMs: 1000, path: 'curved', control: { x: 50, y: 100 } } },
+    }
+    expect(interpolateTimedItems([ball(0)], curved, 500, 2)[0]).toMatchObject({ x: 50, y: 50 })
+  })
+
+  it('keeps valid timings of existing items and rotates their control point', () => {
+    const data = normalizeDiagramData({
+      frames: [
+        { id: 'f1', items: [ball(0)] },
+        {
+          id: 'f2',
+          items: [ball(100)],
+          timings: {
+            b1: { delayMs: -50, durationMs: 99999, path: 'curved', control: { x: 5, y: 5 } },
+            gone: { delayMs: 0, durationMs: 300, path: 'straight' },
+          },
+        },
+      ],
+    })
+    expect(data.frames[0]).not.toHaveProperty('timings')
+    expect(data.frames[1].timings).toEqual({ b1: { delayMs: 0, durationMs: 10000, path: 'curved', control: { x: 5, y: 5 } } })
+    expect(rotateDiagramClockwise(data).frames[1].timings?.b1.control).toEqual({ x: 5, y: 595 })
+  })
+})
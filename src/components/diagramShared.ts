@@ -6,13 +6,46 @@ export interface ConeNode { type: 'cone'; id: UUID; x: number; y: number }
 export interface CupNode { type: 'cup'; id: UUID; x: number; y: number }
 export interface BallNode { type: 'ball'; id: UUID; x: number; y: number }
 export interface PostNode { type: 'post'; id: UUID; x: number; y: number }
-export interface Arrow { type: 'arrow'; id: UUID; from: { x: number; y: number }; to: { x: number; y: number } }
-export type Item = PlayerNode | ConeNode | CupNode | BallNode | PostNode | Arrow
+// Equipment that has a direction; angle in degrees, clockwise.
+export interface MiniGoalNode { type: 'goal'; id: UUID; x: number; y: number; angle?: number }
+export interface LadderNode { type: 'ladder'; id: UUID; x: number; y: number; angle?: number }
+export interface HurdleNode { type: 'hurdle'; id: UUID; x: number; y: number; angle?: number }
+export interface NumberNode { type: 'number'; id: UUID; x: number; y: number; value: number; color: PlayerColor }
+export interface TextNode { type: 'text'; id: UUID; x: number; y: number; text: string }
+// Shaded area, x/y is the centre like the other nodes.
+export interface ZoneNode { type: 'zone'; id: UUID; x: number; y: number; width: number; height: number; shape: ZoneShape; color: PlayerColor }
+// Arrows without style are the original plain arrows (drawn like a pass). A control point bends the line
+// into a quadratic curve.
+export interface Arrow {
+  type: 'arrow'
+  id: UUID
+  from: { x: number; y: number }
+  to: { x: number; y: number }
+  style?: LineStyle
+  control?: { x: number; y: number }
+}
+export type Item = PlayerNode | ConeNode | CupNode | BallNode | PostNode | MiniGoalNode | LadderNode | HurdleNode | NumberNode | TextNode | ZoneNode | Arrow
+export type PointItem = Exclude<Item, Arrow>
+export type LineStyle = 'pass' | 'run' | 'dribble'
+export type ZoneShape = 'rect' | 'ellipse'
+
+export type MovementPath = 'straight' | 'curved'
+
+// How one item moves from the previous step into this one. Delay and duration are measured from the start
+// of the step transition; a curved path bends through `control` (or a default bend when not set).
+export interface MovementTiming {
+  delayMs: number
+  durationMs: number
+  path: MovementPath
+  control?: { x: number; y: number }
+}
 
 export interface DiagramFrame {
   id: string
   name: string
   items: Item[]
+  // Keyed by item id; items without an entry move over the default step transition.
+  timings?: Record<UUID, MovementTiming>
 }
 
 export interface DiagramData {
@@ -32,7 +65,18 @@ export const PLAYER_COLOR_OPTIONS: Array<{ value: PlayerColor; label: string; fi
   { value: 'orange', label: 'Orange', fill: '#f97316' },
 ]
 
+export const LINE_STYLE_OPTIONS: Array<{ value: LineStyle; label: string }> = [
+  { value: 'pass', label: 'Passe' },
+  { value: 'run', label: 'Course' },
+  { value: 'dribble', label: 'Conduite' },
+]
+
+// Equipment stays in place across steps; these items only move from the current step onwards.
+export const MOVING_ITEM_TYPES: ReadonlyArray<Item['type']> = ['player', 'ball', 'number', 'text']
+
 export const MAX_STEPS = 10
+export const MIN_MOVEMENT_MS = 100
+export const MAX_MOVEMENT_MS = 10000
 export const LANDSCAPE_FIELD_SIZE = { width: 600, height: 380 }
 export const PORTRAIT_FIELD_SIZE = { width: 380, height: 600 }
 const FIELD_MARGIN = 5
@@ -56,6 +100,42 @@ function ensureTenFrames(frames: DiagramFrame[]): DiagramFrame[] {
   return normalized
 }
 
+function toPoint(input: unknown): { x: number; y: number } {
+  const point = input as Record<string, unknown> | undefined
+  return { x: Number(point?.x) || 0, y: Number(point?.y) || 0 }
+}
+
+function toPlayerColor(input: unknown, fallback: PlayerColor): PlayerColor {
+  return PLAYER_COLOR_OPTIONS.some((option) => option.value === input) ? input as PlayerColor : fallback
+}
+
+function toAngle(input: unknown): number | undefined {
+  const angle = Number(input)
+  return Number.isFinite(angle) && angle !== 0 ? ((Math.round(angle) % 360) + 360) % 360 : undefined
+}
+
+export function clampMovementMs(input: unknown, min: number, fallback: number): number {
+  const value = Number(input)
+  return Number.isFinite(value) ? Math.min(MAX_MOVEMENT_MS, Math.max(min, Math.round(value))) : fallback
+}
+
+function normalizeTimings(input: unknown, items: Item[]): Record<UUID, MovementTiming> | undefined {
+  if (!input || typeof input !== 'object') return undefined
+  const ids = new Set(items.map((item) => item.id))
+  const entries = Object.entries(input as Record<string, unknown>).flatMap(([id, rawTiming]) => {
+    if (!ids.has(id) || !rawTiming || typeof rawTiming !== 'object') return []
+    const timing = rawTiming as Record<string, unknown>
+    const normalized: MovementTiming = {
+      delayMs: clampMovementMs(timing.delayMs, 0, 0),
+      durationMs: clampMovementMs(timing.durationMs, MIN_MOVEMENT_MS, 1000),
+      path: timing.path === 'curved' ? 'curved' : 'straight',
+      ...(timing.control && typeof timing.control === 'object' ? { control: toPoint(timing.control) } : {}),
+    }
+    return [[id, normalized] as const]
+  })
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
 function normalizeItems(items: unknown): Item[] {
   if (!Array.isArray(items)) return []
   return items.flatMap((rawItem) => {
@@ -63,6 +143,8 @@ function normalizeItems(items: unknown): Item[] {
     const item = rawItem as Record<string, unknown>
     const type = item.type
     const id = typeof item.id === 'string' ? item.id : uid()
+    const x = Number(item.x) || 0
+    const y = Number(item.y) || 0
 
     if (type === 'player') {
       const color = typeof item.color === 'string'
@@ -73,30 +155,53 @@ function normalizeItems(items: unknown): Item[] {
       return [{
         type: 'player' as const,
         id,
-        x: Number(item.x) || 0,
-        y: Number(item.y) || 0,
+        x,
+        y,
         label: typeof item.label === 'string' ? item.label : '',
         color,
       }]
     }
 
     if (type === 'cone' || type === 'cup' || type === 'ball' || type === 'post') {
+      return [{ type, id, x, y }] as Item[]
+    }
+
+    if (type === 'goal' || type === 'ladder' || type === 'hurdle') {
+      const angle = toAngle(item.angle)
+      return [{ type, id, x, y, ...(angle !== undefined ? { angle } : {}) }] as Item[]
+    }
+
+    if (type === 'number') {
+      const value = Math.trunc(Number(item.value))
+      return [{ type: 'number' as const, id, x, y, value: Number.isFinite(value) && value > 0 ? value : 1, color: toPlayerColor(item.color, 'blue') }]
+    }
+
+    if (type === 'text') {
+      return [{ type: 'text' as const, id, x, y, text: typeof item.text === 'string' ? item.text : '' }]
+    }
+
+    if (type === 'zone') {
       return [{
-        type,
+        type: 'zone' as const,
         id,
-        x: Number(item.x) || 0,
-        y: Number(item.y) || 0,
-      }] as Item[]
+        x,
+        y,
+        width: Math.max(10, Number(item.width) || 0),
+        height: Math.max(10, Number(item.height) || 0),
+        shape: item.shape === 'ellipse' ? 'ellipse' as const : 'rect' as const,
+        color: toPlayerColor(item.color, 'green'),
+      }]
     }
 
     if (type === 'arrow') {
-      const from = item.from as Record<string, unknown> | undefined
-      const to = item.to as Record<string, unknown> | undefined
+      const style = LINE_STYLE_OPTIONS.some((option) => option.value === item.style) ? item.style as LineStyle : undefined
       return [{
         type: 'arrow' as const,
         id,
-        from: { x: Number(from?.x) || 0, y: Number(from?.y) || 0 },
-        to: { x: Number(to?.x) || 0, y: Number(to?.y) || 0 },
+        from: toPoint(item.from),
+        to: toPoint(item.to),
+        ...(style ? { style } : {}),
+        ...(item.control && typeof item.control === 'object' ? { control: toPoint(item.control) } : {}),
       }]
     }
 
@@ -150,8 +255,17 @@ function mapItemClockwise(item: Item, fromTurns: number): Item {
       ...item,
       from: mapPointClockwise(item.from, fromTurns),
       to: mapPointClockwise(item.to, fromTurns),
+      ...(item.control ? { control: mapPointClockwise(item.control, fromTurns) } : {}),
     }
   }
+  if (item.type === 'zone') {
+    return { ...item, ...mapPointClockwise({ x: item.x, y: item.y }, fromTurns), width: item.height, height: item.width }
+  }
+  // With y pointing down, mapPointClockwise turns the content a quarter counter-clockwise (right becomes up),
+  // so directed equipment turns by -90° to keep facing the same spot of the pitch.
+  if (item.type === 'goal' || item.type === 'ladder' || item.type === 'hurdle') {
+    return { ...item, ...mapPointClockwise({ x: item.x, y: item.y }, fromTurns), angle: ((item.angle ?? 0) + 270) % 360 }
+  }
   return {
     ...item,
     ...mapPointClockwise({ x: item.x, y: item.y }, fromTurns),
@@ -168,6 +282,14 @@ export function rotateDiagramClockwise(data: DiagramData): DiagramData {
     frames: data.frames.map((frame) => ({
       ...frame,
       items: frame.items.map((item) => mapItemClockwise(item, fromTurns)),
+      ...(frame.timings
+        ? {
+            timings: Object.fromEntries(Object.entries(frame.timings).map(([id, timing]) => [
+              id,
+              timing.control ? { ...timing, control: mapPointClockwise(timing.control, fromTurns) } : timing,
+            ])),
+          }
+        : {}),
     })),
   }
 }
@@ -202,11 +324,14 @@ export function normalizeDiagramData(input: unknown): DiagramData {
 
     if (Array.isArray(maybeFrames) && maybeFrames.length > 0) {
       const frames = maybeFrames.map((frame, idx) => {
-        const raw = frame as { id?: unknown; name?: unknown; items?: unknown }
+        const raw = frame as { id?: unknown; name?: unknown; items?: unknown; timings?: unknown }
+        const items = normalizeItems(raw.items)
+        const timings = normalizeTimings(raw.timings, items)
         return {
           id: typeof raw.id === 'string' ? raw.id : uid(),
           name: typeof raw.name === 'string' ? raw.name : `Etape ${idx + 1}`,
-          items: normalizeItems(raw.items),
+          items,
+          ...(timings ? { timings } : {}),
         }
       })
       return {
@@ -238,11 +363,11 @@ export function hasDiagramContent(data: DiagramData): boolean {
 
 export function summarizeDiagramMaterials(input: unknown): string[] {
   const data = normalizeDiagramData(input)
-  const maxCounts = { cone: 0, cup: 0, ball: 0, post: 0, players: 0 }
+  const maxCounts = { cone: 0, cup: 0, ball: 0, post: 0, goal: 0, ladder: 0, hurdle: 0, players: 0 }
   const colors = new Set<PlayerColor>()
 
   data.frames.forEach((frame) => {
-    const counts = { cone: 0, cup: 0, ball: 0, post: 0, players: 0 }
+    const counts = { cone: 0, cup: 0, ball: 0, post: 0, goal: 0, ladder: 0, hurdle: 0, players: 0 }
     frame.items.forEach((item) => {
       if (item.type === 'player') {
         counts.players += 1
@@ -255,12 +380,17 @@ export function summarizeDiagramMaterials(input: unknown): string[] {
         counts.ball += 1
       } else if (item.type === 'post') {
         counts.post += 1
+      } else if (item.type === 'goal' || item.type === 'ladder' || item.type === 'hurdle') {
+        counts[item.type] += 1
       }
     })
     maxCounts.cone = Math.max(maxCounts.cone, counts.cone)
     maxCounts.cup = Math.max(maxCounts.cup, counts.cup)
     maxCounts.ball = Math.max(maxCounts.ball, counts.ball)
     maxCounts.post = Math.max(maxCounts.post, counts.post)
+    maxCounts.goal = Math.max(maxCounts.goal, counts.goal)
+    maxCounts.ladder = Math.max(maxCounts.ladder, counts.ladder)
+    maxCounts.hurdle = Math.max(maxCounts.hurdle, counts.hurdle)
     maxCounts.players = Math.max(maxCounts.players, counts.players)
   })
 
@@ -269,10 +399,28 @@ export function summarizeDiagramMaterials(input: unknown): string[] {
   if (maxCounts.cone > 0) lines.push(`${maxCounts.cone} cône${maxCounts.cone > 1 ? 's' : ''}`)
   if (maxCounts.ball > 0) lines.push(`${maxCounts.ball} ballon${maxCounts.ball > 1 ? 's' : ''}`)
   if (maxCounts.post > 0) lines.push(`${maxCounts.post} poteau${maxCounts.post > 1 ? 'x' : ''}`)
+  if (maxCounts.goal > 0) lines.push(`${maxCounts.goal} mini-but${maxCounts.goal > 1 ? 's' : ''}`)
+  if (maxCounts.ladder > 0) lines.push(`${maxCounts.ladder} échelle${maxCounts.ladder > 1 ? 's' : ''} de rythme`)
+  if (maxCounts.hurdle > 0) lines.push(`${maxCounts.hurdle} haie${maxCounts.hurdle > 1 ? 's' : ''}`)
   if (colors.size >= 2 && maxCounts.players > 0) lines.push('chasubles')
   return lines
 }
 
+export function getDiagramItemLabel(item: Item): string {
+  if (item.type === 'player') return 'Joueur'
+  if (item.type === 'cone') return 'Cône'
+  if (item.type === 'cup') return 'Coupelle'
+  if (item.type === 'ball') return 'Ballon'
+  if (item.type === 'post') return 'Poteau'
+  if (item.type === 'goal') return 'Mini-but'
+  if (item.type === 'ladder') return 'Échelle de rythme'
+  if (item.type === 'hurdle') return 'Haie'
+  if (item.type === 'number') return `Numéro ${item.value}`
+  if (item.type === 'text') return 'Texte'
+  if (item.type === 'zone') return item.shape === 'ellipse' ? 'Zone ronde' : 'Zone rectangulaire'
+  return LINE_STYLE_OPTIONS.find((option) => option.value === item.style)?.label || 'Flèche'
+}
+
 export function getPlayerFill(color: PlayerColor): string {
   return PLAYER_COLOR_OPTIONS.find((option) => option.value === color)?.fill || '#3b82f6'
 }
@@ -281,29 +429,194 @@ export function lerp(a: number, b: number, progress: number): number {
   return a + (b - a) * progress
 }
 
+function lerpPoint(a: { x: number; y: number }, b: { x: number; y: number }, progress: number) {
+  return { x: lerp(a.x, b.x, progress), y: lerp(a.y, b.y, progress) }
+}
+
+export function getArrowControl(arrow: Arrow): { x: number; y: number } {
+  return arrow.control ?? { x: (arrow.from.x + arrow.to.x) / 2, y: (arrow.from.y + arrow.to.y) / 2 }
+}
+
 export function interpolateItem(fromItem: Item | undefined, toItem: Item, progress: number): Item {
   if (!fromItem || fromItem.type !== toItem.type) return toItem
 
-  if (toItem.type === 'player' && fromItem.type === 'player') {
-    return { ...toItem, x: lerp(fromItem.x, toItem.x, progress), y: lerp(fromItem.y, toItem.y, progress) }
-  }
-
-  if (
-    (toItem.type === 'cone' && fromItem.type === 'cone') ||
-    (toItem.type === 'cup' && fromItem.type === 'cup') ||
-    (toItem.type === 'ball' && fromItem.type === 'ball') ||
-    (toItem.type === 'post' && fromItem.type === 'post')
-  ) {
-    return { ...toItem, x: lerp(fromItem.x, toItem.x, progress), y: lerp(fromItem.y, toItem.y, progress) }
+  if (toItem.type === 'arrow' && fromItem.type === 'arrow') {
+    const bent = Boolean(fromItem.control || toItem.control)
+    return {
+      ...toItem,
+      from: lerpPoint(fromItem.from, toItem.from, progress),
+      to: lerpPoint(fromItem.to, toItem.to, progress),
+      ...(bent ? { control: lerpPoint(getArrowControl(fromItem), getArrowControl(toItem), progress) } : {}),
+    }
   }
 
-  if (toItem.type === 'arrow' && fromItem.type === 'arrow') {
+  if (toItem.type === 'zone' && fromItem.type === 'zone') {
     return {
       ...toItem,
-      from: { x: lerp(fromItem.from.x, toItem.from.x, progress), y: lerp(fromItem.from.y, toItem.from.y, progress) },
-      to: { x: lerp(fromItem.to.x, toItem.to.x, progress), y: lerp(fromItem.to.y, toItem.to.y, progress) },
+      ...lerpPoint(fromItem, toItem, progress),
+      width: lerp(fromItem.width, toItem.width, progress),
+      height: lerp(fromItem.height, toItem.height, progress),
     }
   }
 
+  if (toItem.type !== 'arrow' && fromItem.type !== 'arrow') {
+    return { ...toItem, ...lerpPoint(fromItem, toItem, progress) }
+  }
+
   return toItem
 }
+
+// Zones are drawn first so they shade the pitch without hiding players and equipment.
+export function orderItemsForRender(items: Item[]): Item[] {
+  return [...items.filter((item) => item.type === 'zone'), ...items.filter((item) => item.type !== 'zone')]
+}
+
+// Path of a line item: straight or quadratic curve, wavy for dribbles. The wave fades out before the end
+// so the arrow head keeps the line direction.
+export function buildArrowPath(arrow: Arrow): string {
+  const { from, to } = arrow
+  const control = arrow.control
+  if (arrow.style !== 'dribble') {
+    return control
+      ? `M${from.x},${from.y} Q${control.x},${control.y} ${to.x},${to.y}`
+      : `M${from.x},${from.y} L${to.x},${to.y}`
+  }
+  const c = getArrowControl(arrow)
+  const pointAt = (t: number) => ({
+    x: (1 - t) * (1 - t) * from.x + 2 * (1 - t) * t * c.x + t * t * to.x,
+    y: (1 - t) * (1 - t) * from.y + 2 * (1 - t) * t * c.y + t * t * to.y,
+  })
+  const length = Math.hypot(c.x - from.x, c.y - from.y) + Math.hypot(to.x - c.x, to.y - c.y)
+  const waves = Math.max(1, Math.round(length / 24))
+  const samples = waves * 8
+  const points: string[] = []
+  for (let index = 0; index <= samples; index += 1) {
+    const t = index / samples
+    const point = pointAt(t)
+    const ahead = pointAt(Math.min(1, t + 0.01))
+    const behind = pointAt(Math.max(0, t - 0.01))
+    const dx = ahead.x - behind.x
+    const dy = ahead.y - behind.y
+    const norm = Math.hypot(dx, dy) || 1
+    const amplitude = 4 * Math.sin(t * waves * Math.PI * 2) * Math.min(1, (1 - t) / 0.2)
+    points.push(`${(point.x - (dy / norm) * amplitude).toFixed(1)},${(point.y + (dx / norm) * amplitude).toFixed(1)}`)
+  }
+  return `M${points.join(' L')}`
+}
+
+export function getPlaybackFps(fps: number | undefined): number {
+  return Math.max(1, Math.min(8, Math.round(fps || 2)))
+}
+
+export function getStepTransitionMs(fps: number): number {
+  return Math.max(220, Math.round(1000 / fps))
+}
+
+// Steps as played back: the diagram rotated to the requested quarter turns, identical consecutive steps dropped.
+export function getPlaybackFrames(data: DiagramData, quarterTurns: number): DiagramFrame[] {
+  const oriented = rotateDiagramToQuarterTurns(data, quarterTurns)
+  const compressed = oriented.frames.filter((frame, index, list) => {
+    if (index === 0) return true
+    return JSON.stringify(frame.items) !== JSON.stringify(list[index - 1].items)
+  })
+  return compressed.length > 0 ? compressed : oriented.frames.slice(0, 1)
+}
+
+// Items present on both steps whose state changes, i.e. the movements of the transition.
+export function getMovedItemIds(fromItems: Item[], toItems: Item[]): string[] {
+  const fromMap = new Map(fromItems.map((item) => [item.id, item]))
+  return toItems
+    .filter((item) => {
+      const from = fromMap.get(item.id)
+      return Boolean(from) && JSON.stringify(from) !== JSON.stringify(item)
+    })
+    .map((item) => item.id)
+}
+
+export function getMovementTiming(frame: DiagramFrame, itemId: string, fps: number): MovementTiming {
+  return frame.timings?.[itemId] ?? { delayMs: 0, durationMs: getStepTransitionMs(fps), path: 'straight' }
+}
+
+export function setMovementTiming(frame: DiagramFrame, itemId: string, timing: MovementTiming | null): DiagramFrame {
+  const timings = { ...frame.timings }
+  if (timing) timings[itemId] = timing
+  else delete timings[itemId]
+  const next: DiagramFrame = { ...frame, timings }
+  if (Object.keys(timings).length === 0) delete next.timings
+  return next
+}
+
+// Default bend of a curved movement: a quarter of its length to the left of the straight line.
+export function getMovementControl(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  timing: MovementTiming,
+): { x: number; y: number } {
+  if (timing.control) return timing.control
+  return { x: (from.x + to.x) / 2 + (to.y - from.y) * 0.25, y: (from.y + to.y) / 2 - (to.x - from.x) * 0.25 }
+}
+
+// A step lasts until its last movement ends; untimed movements use the diagram's step transition.
+export function getTransitionDurationMs(fromItems: Item[], toFrame: DiagramFrame, fps: number): number {
+  const moved = getMovedItemIds(fromItems, toFrame.items)
+  if (moved.length === 0) return getStepTransitionMs(fps)
+  return Math.max(...moved.map((id) => {
+    const timing = getMovementTiming(toFrame, id, fps)
+    return timing.delayMs + timing.durationMs
+  }))
+}
+
+// Items shown `elapsedMs` into the move from one step to the next. Items removed by the next step stay visible
+// until the whole transition ends.
+export function interpolateTimedItems(fromItems: Item[], toFrame: DiagramFrame, elapsedMs: number, fps: number): Item[] {
+  const fromMap = new Map(fromItems.map((item) => [item.id, item]))
+  const toIds = new Set(toFrame.items.map((item) => item.id))
+  const interpolated = toFrame.items.map((item) => {
+    const from = fromMap.get(item.id)
+    const timing = getMovementTiming(toFrame, item.id, fps)
+    const progress = Math.min(1, Math.max(0, (elapsedMs - timing.delayMs) / timing.durationMs))
+    const next = interpolateItem(from, item, progress)
+    if (timing.path !== 'curved' || !from || from.type === 'arrow' || next.type === 'arrow' || from.type !== item.type) return next
+    const control = getMovementControl(from, item, timing)
+    const rest = 1 - progress
+    return {
+      ...next,
+      x: rest * rest * from.x + 2 * rest * progress * control.x + progress * progress * item.x,
+      y: rest * rest * from.y + 2 * rest * progress * control.y + progress * progress * item.y,
+    }
+  })
+  if (elapsedMs < getTransitionDurationMs(fromItems, toFrame, fps)) {
+    fromItems.forEach((item) => {
+      if (!toIds.has(item.id)) interpolated.push(item)
+    })
+  }
+  return interpolated
+}
+
+// Whole playback on one clock: stepStartsMs[k] is the time at which step k is reached.
+export type DiagramTimeline = {
+  stepStartsMs: number[]
+  totalMs: number
+}
+
+export function buildDiagramTimeline(frames: DiagramFrame[], fps: number): DiagramTimeline {
+  const stepStartsMs = frames.length > 0 ? [0] : []
+  for (let index = 1; index < frames.length; index += 1) {
+    stepStartsMs.push(stepStartsMs[index - 1] + getTransitionDurationMs(frames[index - 1].items, frames[index], fps))
+  }
+  return { stepStartsMs, totalMs: stepStartsMs[stepStartsMs.length - 1] ?? 0 }
+}
+
+// Last step reached at `timeMs`.
+export function getTimelineStepIndex(timeline: DiagramTimeline, timeMs: number): number {
+  let index = 0
+  while (index < timeline.stepStartsMs.length - 1 && timeline.stepStartsMs[index + 1] <= timeMs) index += 1
+  return index
+}
+
+export function getDiagramItemsAtTime(frames: DiagramFrame[], timeline: DiagramTimeline, timeMs: number, fps: number): Item[] {
+  if (frames.length === 0) return []
+  const index = getTimelineStepIndex(timeline, timeMs)
+  if (index >= frames.length - 1) return frames[frames.length - 1].items
+  return interpolateTimedItems(frames[index].items, frames[index + 1], timeMs - timeline.stepStartsMs[index], fps)
+}
@@ -7,6 +7,7 @@ import {
   ChevronRight,
   CircleDot,
   Dice5,
+  Download,
   GripVertical,
   Maximize,
   Menu,
@@ -101,6 +102,10 @@ export function OrientationIcon(props: IconProps) {
   return renderIcon(RotateCw, props)
 }
 
+export function DownloadIcon(props: IconProps) {
+  return renderIcon(Download, props)
+}
+
 export function FullscreenIcon(props: IconProps) {
   return renderIcon(Maximize, props)
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyIntentChange,
+  buildTrainingIntentPayload,
+  countAbsenceReasons,
+  formatAbsenceReasonCounts,
+  MAX_ABSENCE_NOTE_LENGTH,
+} from './absenceReasons'
+
+describe('buildTrainingIntentPayload', () => {
+  it('only sends a reason and a trimmed note with an absence', () => {
+    expect(buildTrainingIntentPayload(true, 'INJURY', 'Cheville')).toEqual({ present: true })
+    expect(buildTrainingIntentPayload(false, 'INJURY', '  Cheville  ')).toEqual({ present: false, reason: 'INJURY', note: 'Cheville' })
+    expect(buildTrainingIntentPayload(false, null, '   ')).toEqual({ present: false })
+    expect(buildTrainingIntentPayload(false, 'OTHER', 'x'.repeat(500)).note).toHaveLength(MAX_ABSENCE_NOTE_LENGTH)
+  })
+})
+
+describe('applyIntentChange', () => {
+  const summary = { presentCount: 3, absentCount: 1, unknownCount: 6, totalPlayers: 10, absenceReasons: { SCHOOL: 1 } }
+
+  it('moves the answer and its reason between counters', () => {
+    expect(applyIntentChange(summary, { intent: null }, { intent: 'ABSENT', reason: 'ILLNESS' })).toEqual({
+      presentCount: 3,
+      absentCount: 2,
+      unknownCount: 5,
+      totalPlayers: 10,
+      absenceReasons: { SCHOOL: 1, ILLNESS: 1 },
+    })
+    expect(applyIntentChange(summary, { intent: 'ABSENT', reason: 'SCHOOL' }, { intent: 'PRESENT' })).toEqual({
+      presentCount: 4,
+      absentCount: 0,
+      unknownCount: 6,
+      totalPlayers: 10,
+      absenceReasons: {},
+    })
+  })
+})
+
+describe('absence reason counts', () => {
+  it('counts reasons of declared absences and formats them in a fixed order', () => {
+    const counts = countAbsenceReasons([
+      { intent: 'ABSENT', reason: 'SCHOOL' },
+      { intent: 'ABSENT', reason: 'INJURY' },
+      { intent: 'ABSENT', reason: 'SCHOOL' },
+      { intent: 'ABSENT' },
+      { intent: 'PRESENT', reason: 'FAMILY' },
+    ])
+    expect(counts).toEqual({ SCHOOL: 2, INJURY: 1 })
+    expect(formatAbsenceReasonCounts(counts)).toBe('Blessure (1), École (2)')
+    expect(formatAbsenceReasonCounts(null)).toBe('')
+  })
+})
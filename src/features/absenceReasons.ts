@@ -0,0 +1,82 @@
+import type { AbsenceReason, Training } from '../types/api'
+
+export const ABSENCE_REASONS: AbsenceReason[] = ['INJURY', 'ILLNESS', 'SCHOOL', 'FAMILY', 'OTHER']
+
+export const ABSENCE_REASON_LABELS: Record<AbsenceReason, string> = {
+  INJURY: 'Blessure',
+  ILLNESS: 'Maladie',
+  SCHOOL: 'École',
+  FAMILY: 'Famille',
+  OTHER: 'Autre',
+}
+
+export const MAX_ABSENCE_NOTE_LENGTH = 200
+
+export type AbsenceReasonCounts = Partial<Record<AbsenceReason, number>>
+
+export type IntentSummary = NonNullable<Training['intentSummary']>
+
+export type TrainingIntentPayload = {
+  present: boolean
+  reason?: AbsenceReason
+  note?: string
+}
+
+export type TrainingIntentChoice = {
+  intent: 'PRESENT' | 'ABSENT' | null
+  reason?: AbsenceReason | null
+}
+
+export function isAbsenceReason(value: unknown): value is AbsenceReason {
+  return typeof value === 'string' && (ABSENCE_REASONS as string[]).includes(value)
+}
+
+// A reason and a note only travel with an absence; an empty note is dropped.
+export function buildTrainingIntentPayload(present: boolean, reason?: AbsenceReason | null, note?: string | null): TrainingIntentPayload {
+  if (present) return { present }
+  const trimmedNote = (note ?? '').trim().slice(0, MAX_ABSENCE_NOTE_LENGTH)
+  return {
+    present,
+    ...(reason ? { reason } : {}),
+    ...(trimmedNote ? { note: trimmedNote } : {}),
+  }
+}
+
+function shiftReason(counts: AbsenceReasonCounts, reason: AbsenceReason | null | undefined, delta: number) {
+  if (!reason) return
+  const next = Math.max(0, (counts[reason] ?? 0) + delta)
+  if (next > 0) counts[reason] = next
+  else delete counts[reason]
+}
+
+// Optimistic update of the coach-facing summary when one account changes its answer.
+export function applyIntentChange(summary: IntentSummary, previous: TrainingIntentChoice, next: TrainingIntentChoice): IntentSummary {
+  let presentCount = summary.presentCount
+  let absentCount = summary.absentCount
+  if (previous.intent === 'PRESENT') presentCount = Math.max(0, presentCount - 1)
+  if (previous.intent === 'ABSENT') absentCount = Math.max(0, absentCount - 1)
+  if (next.intent === 'PRESENT') presentCount += 1
+  if (next.intent === 'ABSENT') absentCount += 1
+  const absenceReasons: AbsenceReasonCounts = { ...(summary.absenceReasons ?? {}) }
+  if (previous.intent === 'ABSENT') shiftReason(absenceReasons, previous.reason, -1)
+  if (next.intent === 'ABSENT') shiftReason(absenceReasons, next.reason, 1)
+  const unknownCount = Math.max(0, summary.totalPlayers - presentCount - absentCount)
+  return { ...summary, presentCount, absentCount, unknownCount, absenceReasons }
+}
+
+export function countAbsenceReasons(items: Array<{ intent: string; reason?: AbsenceReason | null }>): AbsenceReasonCounts {
+  const counts: AbsenceReasonCounts = {}
+  for (const item of items) {
+    if (item.intent === 'ABSENT') shiftReason(counts, item.reason, 1)
+  }
+  return counts
+}
+
+// "Blessure (2), École (1)" in the fixed reason order; empty when no reason was given.
+export function formatAbsenceReasonCounts(counts: AbsenceReasonCounts | null | undefined): string {
+  if (!counts) return ''
+  return ABSENCE_REASONS
+    .filter((reason) => (counts[reason] ?? 0) > 0)
+    .map((reason) => `${ABSENCE_REASON_LABELS[reason]} (${counts[reason]})`)
+    .join(', ')
+}
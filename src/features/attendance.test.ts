@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest'
+import { OfflineQueuedError } from '../adapters/offlineQueue'
 import { apiRoutes } from '../apiRoutes'
-import { applyAttendanceValue, buildAttendancePayload, extractPresentPlayerIds, persistAttendanceToggle } from './attendance'
+import { applyAttendanceValue, buildAttendancePayload, extractExcusedPlayerIds, extractPresentPlayerIds, persistAttendanceToggle } from './attendance'
 
 describe('buildAttendancePayload', () => {
   it('builds payload for check with present true', () => {
@@ -30,6 +31,13 @@ describe('buildAttendancePayload', () => {
       present: false,
     })
   })
+
+  it('only sends the excused flag and absence reason for absences', () => {
+    const input = { sessionType: 'TRAINING' as const, sessionId: 'training-1', playerId: 'player-2', excused: true, absenceReason: 'INJURY' as const }
+    expect(buildAttendancePayload({ ...input, present: false })).toMatchObject({ present: false, excused: true, absenceReason: 'INJURY' })
+    expect(buildAttendancePayload({ ...input, present: true })).not.toHaveProperty('excused')
+    expect(buildAttendancePayload({ ...input, present: true })).not.toHaveProperty('absenceReason')
+  })
 })
 
 describe('persistAttendanceToggle', () => {
@@ -66,6 +74,28 @@ describe('persistAttendanceToggle', () => {
   })
 })
 
+describe('persistAttendanceToggle offline', () => {
+  it('resolves when the toggle was queued for later replay', async () => {
+    const apiPost = vi.fn().mockRejectedValue(new OfflineQueuedError('mut-1'))
+    await expect(persistAttendanceToggle(apiPost, {
+      sessionType: 'TRAINING',
+      sessionId: 'training-1',
+      playerId: 'player-1',
+      present: true,
+    })).resolves.toMatchObject({ present: true })
+  })
+
+  it('still rejects on HTTP errors', async () => {
+    const apiPost = vi.fn().mockRejectedValue(new Error('HTTP 500'))
+    await expect(persistAttendanceToggle(apiPost, {
+      sessionType: 'TRAINING',
+      sessionId: 'training-1',
+      playerId: 'player-1',
+      present: true,
+    })).rejects.toThrow('HTTP 500')
+  })
+})
+
 describe('applyAttendanceValue', () => {
   it('adds player when present true and removes when present false', () => {
     const start = new Set(['player-1'])
@@ -85,3 +115,14 @@ describe('extractPresentPlayerIds', () => {
     expect(Array.from(presentIds.values())).toEqual(['p2'])
   })
 })
+
+describe('extractExcusedPlayerIds', () => {
+  it('returns absent players marked as excused', () => {
+    const excusedIds = extractExcusedPlayerIds([
+      { session_type: 'TRAINING', session_id: 's1', playerId: 'p1', present: false, excused: true },
+      { session_type: 'TRAINING', session_id: 's1', playerId: 'p2', present: false },
+      { session_type: 'TRAINING', session_id: 's1', playerId: 'p3', present: true, excused: true },
+    ])
+    expect(Array.from(excusedIds.values())).toEqual(['p1'])
+  })
+})
@@ -1,5 +1,6 @@
+import { OfflineQueuedError } from '../adapters/offlineQueue'
 import { apiRoutes } from '../apiRoutes'
-import type { AttendanceRow } from '../types/api'
+import type { AbsenceReason, AttendanceRow } from '../types/api'
 
 export type AttendanceSessionType = 'TRAINING' | 'PLATEAU'
 
@@ -8,6 +9,8 @@ export type AttendancePayload = {
   session_id: string
   playerId: string
   present: boolean
+  excused?: boolean
+  absenceReason?: AbsenceReason | null
 }
 
 type AttendanceToggleInput = {
@@ -15,6 +18,8 @@ type AttendanceToggleInput = {
   sessionId: string
   playerId: string
   present: boolean
+  excused?: boolean
+  absenceReason?: AbsenceReason | null
 }
 
 type ApiPost = <T>(path: string, body: unknown) => Promise<T>
@@ -25,6 +30,8 @@ export function buildAttendancePayload(input: AttendanceToggleInput): Attendance
     session_id: input.sessionId,
     playerId: input.playerId,
     present: input.present,
+    ...(input.excused !== undefined && !input.present ? { excused: input.excused } : {}),
+    ...(input.absenceReason !== undefined && !input.present ? { absenceReason: input.absenceReason } : {}),
   }
 }
 
@@ -39,11 +46,20 @@ export function extractPresentPlayerIds(rows: AttendanceRow[]): Set<string> {
   return new Set(rows.filter((row) => row.present === true).map((row) => row.playerId))
 }
 
+export function extractExcusedPlayerIds(rows: AttendanceRow[]): Set<string> {
+  return new Set(rows.filter((row) => row.present !== true && row.excused === true).map((row) => row.playerId))
+}
+
 export async function persistAttendanceToggle(
   apiPost: ApiPost,
   input: AttendanceToggleInput,
 ): Promise<AttendancePayload> {
   const payload = buildAttendancePayload(input)
-  await apiPost(apiRoutes.attendance.list, payload)
+  try {
+    await apiPost(apiRoutes.attendance.list, payload)
+  } catch (err: unknown) {
+    // Hors connexion, la présence est rejouée plus tard: l'état optimiste reste valable.
+    if (!(err instanceof OfflineQueuedError)) throw err
+  }
   return payload
 }
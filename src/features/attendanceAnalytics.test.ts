@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import type { AttendanceRow, Matchday, Player, Training } from '../types/api'
+import {
+  DEFAULT_ABSENCE_STREAK_ALERT,
+  buildAttendanceHeatmap,
+  buildAttendanceReport,
+  buildMonthlyAttendanceRates,
+  buildPlayerAttendanceTimeline,
+  listAttendanceSessions,
+  readAbsenceStreakAlert,
+  summarizeAttendance,
+  writeAbsenceStreakAlert,
+} from './attendanceAnalytics'
+
+function training(id: string, day: string, overrides: Partial<Training> = {}): Training {
+  return { id, date: `${day}T18:00:00`, status: 'PLANNED', teamId: 'u11', ...overrides }
+}
+
+function row(sessionId: string, playerId: string, present: boolean, excused?: boolean, absenceReason?: AttendanceRow['absenceReason']): AttendanceRow {
+  return { session_type: 'TRAINING', session_id: sessionId, playerId, present, excused, absenceReason }
+}
+
+const now = new Date('2026-10-19T12:00:00')
+const trainings = [
+  training('t1', '2026-09-29'),
+  training('t2', '2026-10-01'),
+  training('t3', '2026-10-06'),
+  training('t4', '2026-10-08'),
+  training('t5', '2026-10-13'),
+  training('cancelled', '2026-10-15', { status: 'CANCELLED' }),
+  training('future', '2026-10-20'),
+  training('other-team', '2026-10-13', { teamId: 'u13' }),
+]
+const matchdays: Matchday[] = [{ id: 'm1', date: '2026-10-10T10:00:00', lieu: 'Stade', teamId: 'u11' }]
+
+// p1 misses the last three trainings, one of them excused; t4 attendance was never taken.
+const rows: AttendanceRow[] = [
+  row('t1', 'p1', true), row('t1', 'p2', true),
+  row('t2', 'p1', false), row('t2', 'p2', true),
+  row('t3', 'p1', false, true, 'ILLNESS'), row('t3', 'p2', true),
+  row('t5', 'p2', true),
+]
+
+describe('attendance sessions and timeline', () => {
+  it('keeps past, non-cancelled sessions of the team in date order', () => {
+    const sessions = listAttendanceSessions({ trainings, matchdays }, { teamId: 'u11', now })
+    expect(sessions.map((session) => session.id)).toEqual(['t1', 't2', 't3', 't4', 'm1', 't5'])
+    expect(sessions[4]).toMatchObject({ type: 'PLATEAU', dayKey: '2026-10-10' })
+  })
+
+  it('skips sessions without attendance and counts missing players as absent', () => {
+    const sessions = listAttendanceSessions({ trainings, matchdays: [] }, { teamId: 'u11', now })
+    const timeline = buildPlayerAttendanceTimeline('p1', sessions, rows)
+    expect(timeline.map((entry) => [entry.session.id, entry.status])).toEqual([
+      ['t1', 'PRESENT'],
+      ['t2', 'UNEXCUSED'],
+      ['t3', 'EXCUSED'],
+      ['t5', 'UNEXCUSED'],
+    ])
+    expect(summarizeAttendance(timeline)).toEqual({
+      sessions: 4,
+      present: 1,
+      excused: 1,
+      unexcused: 2,
+      rate: 0.25,
+      currentAbsenceStreak: 3,
+      longestAbsenceStreak: 3,
+      absenceReasons: { ILLNESS: 1 },
+    })
+  })
+})
+
+describe('attendance report', () => {
+  it('ranks active players by rate and flags absence streaks', () => {
+    const players = [
+      { id: 'p1', name: 'Léo', teamId: 'u11' },
+      { id: 'p2', name: 'Nina', teamId: 'u11' },
+      { id: 'p3', name: 'Ancien', teamId: 'u11', isActive: false },
+    ] as Player[]
+    const sessions = listAttendanceSessions({ trainings, matchdays }, { now })
+    const report = buildAttendanceReport(players, sessions, rows, { sessionType: 'TRAINING', streakAlert: 3 })
+    expect(report.map((entry) => [entry.name, entry.rate, entry.streakAlert])).toEqual([
+      ['Nina', 1, false],
+      ['Léo', 0.25, true],
+    ])
+  })
+
+  it('groups rates by month', () => {
+    const sessions = listAttendanceSessions({ trainings, matchdays: [] }, { teamId: 'u11', now })
+    expect(buildMonthlyAttendanceRates(buildPlayerAttendanceTimeline('p1', sessions, rows))).toEqual([
+      { month: '2026-09', sessions: 1, present: 1, rate: 1 },
+      { month: '2026-10', sessions: 3, present: 0, rate: 0 },
+    ])
+  })
+
+  it('stores the streak threshold with a floor of two sessions', () => {
+    const values = new Map<string, string>()
+    const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => { values.set(key, value) } }
+    expect(readAbsenceStreakAlert(storage)).toBe(DEFAULT_ABSENCE_STREAK_ALERT)
+    writeAbsenceStreakAlert(1, storage)
+    expect(readAbsenceStreakAlert(storage)).toBe(2)
+  })
+})
+
+describe('buildAttendanceHeatmap', () => {
+  it('lays out Monday-first weeks and keeps the worst status of the day', () => {
+    const sessions = listAttendanceSessions({ trainings: [training('a', '2026-10-07'), training('b', '2026-10-07')], matchdays: [] }, { now })
+    const entries = buildPlayerAttendanceTimeline('p1', sessions, [row('a', 'p1', true), row('b', 'p1', false, true)])
+    const weeks = buildAttendanceHeatmap(entries, { startDate: '2026-10-07', endDate: '2026-10-13' })
+    expect(weeks).toHaveLength(2)
+    expect(weeks[0][0]).toMatchObject({ dayKey: '2026-10-05', inRange: false, status: null })
+    expect(weeks[0][2]).toMatchObject({ dayKey: '2026-10-07', inRange: true, status: 'EXCUSED', sessions: 2 })
+    expect(weeks[1][1]).toMatchObject({ dayKey: '2026-10-13', inRange: true })
+  })
+})
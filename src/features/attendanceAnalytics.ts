@@ -0,0 +1,247 @@
+import type { AbsenceReason, AttendanceRow, Matchday, Player, Training } from '../types/api'
+import type { AbsenceReasonCounts } from './absenceReasons'
+import { parseDayKey, toDayKey } from './curriculum'
+import { isPlayerActive } from './playerRoster'
+import { getVisiblePlayerName } from './seasonStats'
+
+export const DEFAULT_ABSENCE_STREAK_ALERT = 3
+
+const ABSENCE_STREAK_STORAGE_KEY = 'izifoot.absenceStreakAlert'
+
+type StorageLike = Pick<Storage, 'getItem' | 'setItem'>
+
+export type AttendanceStatus = 'PRESENT' | 'EXCUSED' | 'UNEXCUSED'
+
+export type AttendanceSession = {
+  id: string
+  type: AttendanceRow['session_type']
+  date: string
+  dayKey: string
+  teamId: string | null
+}
+
+export type AttendanceEntry = {
+  session: AttendanceSession
+  status: AttendanceStatus
+  reason: AbsenceReason | null
+}
+
+export type AttendanceSummary = {
+  sessions: number
+  present: number
+  excused: number
+  unexcused: number
+  rate: number | null
+  // Absences in a row up to the latest session, excused or not.
+  currentAbsenceStreak: number
+  longestAbsenceStreak: number
+  absenceReasons: AbsenceReasonCounts
+}
+
+export type PlayerAttendanceRow = AttendanceSummary & {
+  playerId: string
+  name: string
+  teamId: string | null
+  streakAlert: boolean
+}
+
+export type AttendanceRatePoint = {
+  month: string
+  sessions: number
+  present: number
+  rate: number | null
+}
+
+export type AttendanceHeatmapCell = {
+  dayKey: string
+  status: AttendanceStatus | null
+  sessions: number
+  inRange: boolean
+}
+
+function browserStorage(): StorageLike | null {
+  return typeof window === 'undefined' ? null : window.localStorage
+}
+
+export function readAbsenceStreakAlert(storage: StorageLike | null = browserStorage()): number {
+  const raw = Number(storage?.getItem(ABSENCE_STREAK_STORAGE_KEY))
+  return Number.isInteger(raw) && raw >= 2 ? raw : DEFAULT_ABSENCE_STREAK_ALERT
+}
+
+export function writeAbsenceStreakAlert(value: number, storage: StorageLike | null = browserStorage()) {
+  storage?.setItem(ABSENCE_STREAK_STORAGE_KEY, String(Math.max(2, Math.round(value))))
+}
+
+function sessionKey(type: AttendanceRow['session_type'], id: string) {
+  return `${type}:${id}`
+}
+
+// Past sessions only, cancelled trainings excluded; sessions without team belong to every team.
+export function listAttendanceSessions(
+  source: { trainings: Training[]; matchdays: Matchday[] },
+  options: { teamId?: string | null; now?: Date } = {},
+): AttendanceSession[] {
+  const now = (options.now ?? new Date()).getTime()
+  const sessions: AttendanceSession[] = []
+  const push = (id: string, type: AttendanceRow['session_type'], date: string, teamId?: string | null) => {
+    const time = new Date(date).getTime()
+    if (Number.isNaN(time) || time > now) return
+    if (options.teamId && teamId && teamId !== options.teamId) return
+    sessions.push({ id, type, date, dayKey: toDayKey(new Date(date)), teamId: teamId ?? null })
+  }
+  for (const training of source.trainings) {
+    if (training.status !== 'CANCELLED') push(training.id, 'TRAINING', training.date, training.teamId)
+  }
+  for (const matchday of source.matchdays) push(matchday.id, 'PLATEAU', matchday.date, matchday.teamId)
+  return sessions.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+}
+
+function indexRows(rows: AttendanceRow[]) {
+  const bySession = new Map<string, Map<string, AttendanceRow>>()
+  for (const row of rows) {
+    const key = sessionKey(row.session_type, row.session_id)
+    const players = bySession.get(key) ?? new Map<string, AttendanceRow>()
+    players.set(row.playerId, row)
+    bySession.set(key, players)
+  }
+  return bySession
+}
+
+function toStatus(row: AttendanceRow | undefined): AttendanceStatus {
+  if (row?.present === true) return 'PRESENT'
+  return row?.excused ? 'EXCUSED' : 'UNEXCUSED'
+}
+
+// Sessions where nobody was checked are treated as "attendance not taken" and left out,
+// otherwise a player missing from a taken attendance counts as absent.
+function buildTimeline(playerId: string, sessions: AttendanceSession[], bySession: ReturnType<typeof indexRows>): AttendanceEntry[] {
+  const entries: AttendanceEntry[] = []
+  for (const session of sessions) {
+    const sessionRows = bySession.get(sessionKey(session.type, session.id))
+    if (!sessionRows || sessionRows.size === 0) continue
+    const row = sessionRows.get(playerId)
+    const status = toStatus(row)
+    entries.push({ session, status, reason: status === 'PRESENT' ? null : row?.absenceReason ?? null })
+  }
+  return entries
+}
+
+export function buildPlayerAttendanceTimeline(playerId: string, sessions: AttendanceSession[], rows: AttendanceRow[]): AttendanceEntry[] {
+  return buildTimeline(playerId, sessions, indexRows(rows))
+}
+
+export function summarizeAttendance(entries: AttendanceEntry[]): AttendanceSummary {
+  let present = 0
+  let excused = 0
+  let streak = 0
+  let longest = 0
+  const absenceReasons: AbsenceReasonCounts = {}
+  for (const entry of entries) {
+    if (entry.status === 'PRESENT') {
+      present += 1
+      streak = 0
+      continue
+    }
+    if (entry.status === 'EXCUSED') excused += 1
+    if (entry.reason) absenceReasons[entry.reason] = (absenceReasons[entry.reason] ?? 0) + 1
+    streak += 1
+    longest = Math.max(longest, streak)
+  }
+  return {
+    sessions: entries.length,
+    present,
+    excused,
+    unexcused: entries.length - present - excused,
+    rate: entries.length > 0 ? present / entries.length : null,
+    currentAbsenceStreak: streak,
+    longestAbsenceStreak: longest,
+    absenceReasons,
+  }
+}
+
+// Active players only, each against the sessions of their own team; best attendance first.
+export function buildAttendanceReport(
+  players: Player[],
+  sessions: AttendanceSession[],
+  rows: AttendanceRow[],
+  options: { sessionType?: AttendanceRow['session_type']; streakAlert?: number } = {},
+): PlayerAttendanceRow[] {
+  const bySession = indexRows(rows)
+  const streakAlert = options.streakAlert ?? DEFAULT_ABSENCE_STREAK_ALERT
+  const scoped = options.sessionType ? sessions.filter((session) => session.type === options.sessionType) : sessions
+  return players
+    .filter(isPlayerActive)
+    .map((player) => {
+      const teamId = player.teamId ?? null
+      const teamSessions = scoped.filter((session) => !teamId || !session.teamId || session.teamId === teamId)
+      const summary = summarizeAttendance(buildTimeline(player.id, teamSessions, bySession))
+      return {
+        ...summary,
+        playerId: player.id,
+        name: getVisiblePlayerName(player.name),
+        teamId,
+        streakAlert: summary.currentAbsenceStreak >= streakAlert,
+      }
+    })
+    .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1) || a.name.localeCompare(b.name))
+}
+
+export function buildMonthlyAttendanceRates(entries: AttendanceEntry[]): AttendanceRatePoint[] {
+  const byMonth = new Map<string, AttendanceRatePoint>()
+  for (const entry of entries) {
+    const month = entry.session.dayKey.slice(0, 7)
+    const point = byMonth.get(month) ?? { month, sessions: 0, present: 0, rate: null }
+    point.sessions += 1
+    if (entry.status === 'PRESENT') point.present += 1
+    point.rate = point.present / point.sessions
+    byMonth.set(month, point)
+  }
+  return Array.from(byMonth.values()).sort((a, b) => a.month.localeCompare(b.month))
+}
+
+// Team rate per month: every player entry of the month counts once.
+export function buildTeamMonthlyAttendanceRates(
+  players: Player[],
+  sessions: AttendanceSession[],
+  rows: AttendanceRow[],
+): AttendanceRatePoint[] {
+  const bySession = indexRows(rows)
+  const entries = players.filter(isPlayerActive).flatMap((player) => {
+    const teamId = player.teamId ?? null
+    const teamSessions = sessions.filter((session) => !teamId || !session.teamId || session.teamId === teamId)
+    return buildTimeline(player.id, teamSessions, bySession)
+  })
+  return buildMonthlyAttendanceRates(entries)
+}
+
+const STATUS_WEIGHT: Record<AttendanceStatus, number> = { PRESENT: 0, EXCUSED: 1, UNEXCUSED: 2 }
+
+// Monday-first weeks covering the range; with several sessions the same day the worst status is shown.
+export function buildAttendanceHeatmap(
+  entries: AttendanceEntry[],
+  range: { startDate: string; endDate: string },
+): AttendanceHeatmapCell[][] {
+  const start = parseDayKey(range.startDate)
+  const end = parseDayKey(range.endDate)
+  if (!start || !end || start > end) return []
+  const byDay = new Map<string, AttendanceEntry[]>()
+  for (const entry of entries) byDay.set(entry.session.dayKey, [...(byDay.get(entry.session.dayKey) ?? []), entry])
+
+  const weeks: AttendanceHeatmapCell[][] = []
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate() - ((start.getDay() + 6) % 7))
+  while (cursor <= end) {
+    const week: AttendanceHeatmapCell[] = []
+    for (let day = 0; day < 7; day += 1) {
+      const dayKey = toDayKey(cursor)
+      const dayEntries = byDay.get(dayKey) ?? []
+      const status = dayEntries.reduce<AttendanceStatus | null>(
+        (worst, entry) => (worst === null || STATUS_WEIGHT[entry.status] > STATUS_WEIGHT[worst] ? entry.status : worst),
+        null,
+      )
+      week.push({ dayKey, status, sessions: dayEntries.length, inRange: cursor >= start && cursor <= end })
+      cursor.setDate(cursor.getDate() + 1)
+    }
+    weeks.push(week)
+  }
+  return weeks
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { CarpoolOffer, CarpoolRequest } from '../types/api'
+import {
+  buildCarpoolBoard,
+  createCarpoolOfferDraft,
+  getMeetingDate,
+  isAwayMatchday,
+  listPlayersWithoutTransport,
+  validateCarpoolOffer,
+} from './carpool'
+
+function offer(id: string, seats: number, departureTime: string, overrides: Partial<CarpoolOffer> = {}): CarpoolOffer {
+  return { id, matchdayId: 'md', driverName: `Parent ${id}`, seats, departurePoint: 'Stade', departureTime, ...overrides }
+}
+
+function request(id: string, playerId: string, offerId: string | null = null): CarpoolRequest {
+  return { id, matchdayId: 'md', playerId, offerId }
+}
+
+describe('isAwayMatchday', () => {
+  it('uses the venue for single matches and the location for plateaux', () => {
+    expect(isAwayMatchday({ competitionType: 'MATCH', matchVenue: 'AWAY', lieu: 'Lyon' })).toBe(true)
+    expect(isAwayMatchday({ competitionType: 'MATCH', matchVenue: 'HOME', lieu: '', address: '1 rue du Stade' })).toBe(false)
+    expect(isAwayMatchday({ competitionType: 'PLATEAU', lieu: 'Stade Jean Bouin' })).toBe(true)
+    expect(isAwayMatchday({ competitionType: 'PLATEAU', lieu: '' })).toBe(false)
+  })
+})
+
+describe('carpool board', () => {
+  const offers = [offer('b', 2, '09:30', { playerId: 'p1' }), offer('a', 1, '09:00')]
+  const requests = [request('r1', 'p2', 'b'), request('r2', 'p3'), request('r3', 'p4', 'deleted')]
+
+  it('sorts cars by departure time and counts the seats left', () => {
+    const board = buildCarpoolBoard(offers, requests)
+    expect(board.offers.map((o) => [o.id, o.seatsLeft, o.passengers.map((p) => p.playerId)])).toEqual([
+      ['a', 1, []],
+      ['b', 1, ['p2']],
+    ])
+    expect(board.pending.map((r) => r.id)).toEqual(['r2', 'r3'])
+  })
+
+  it('lists expected players without a seat, flagging those who asked for one', () => {
+    expect(listPlayersWithoutTransport(['p1', 'p2', 'p3', 'p5'], offers, requests)).toEqual([
+      { playerId: 'p3', requested: true },
+      { playerId: 'p5', requested: false },
+    ])
+  })
+})
+
+describe('carpool helpers', () => {
+  it('validates offers', () => {
+    const draft = createCarpoolOfferDraft()
+    expect(validateCarpoolOffer(draft)).toBe('Indique le point de départ.')
+    expect(validateCarpoolOffer({ ...draft, departurePoint: 'Gymnase', departureTime: '08:45' })).toBeNull()
+    expect(validateCarpoolOffer({ ...draft, seats: 0, departurePoint: 'Gymnase', departureTime: '08:45' })).toMatch(/places/)
+  })
+
+  it('places the meeting time on the matchday', () => {
+    const meeting = getMeetingDate('2026-10-24T00:00:00', '09:15')
+    expect([meeting?.getDate(), meeting?.getHours(), meeting?.getMinutes()]).toEqual([24, 9, 15])
+    expect(getMeetingDate('2026-10-24T00:00:00', 'À définir')).toBeNull()
+  })
+})
@@ -0,0 +1,92 @@
+import type { CarpoolOffer, CarpoolRequest, Matchday } from '../types/api'
+import { getMatchdayMapQuery, normalizeCompetitionType } from './matchdayLocation'
+
+export const MAX_CARPOOL_SEATS = 8
+
+export type CarpoolOfferDraft = {
+  seats: number
+  departurePoint: string
+  departureTime: string
+  playerId: string
+  note: string
+}
+
+export type CarpoolOfferView = CarpoolOffer & {
+  passengers: CarpoolRequest[]
+  seatsLeft: number
+}
+
+export type CarpoolBoard = {
+  offers: CarpoolOfferView[]
+  // Requests still waiting for a seat, oldest first as returned by the API.
+  pending: CarpoolRequest[]
+}
+
+export type PlayerWithoutTransport = {
+  playerId: string
+  requested: boolean
+}
+
+type MatchdayTravelLike = Pick<Matchday, 'competitionType' | 'matchVenue' | 'lieu' | 'address'>
+
+// A single match is away only when marked so; plateaux and tournaments are played at the organiser's ground.
+export function isAwayMatchday(matchday: MatchdayTravelLike): boolean {
+  if (normalizeCompetitionType(matchday.competitionType) === 'MATCH') return matchday.matchVenue === 'AWAY'
+  return getMatchdayMapQuery(matchday) !== null
+}
+
+export function buildDirectionsUrl(destination: string): string {
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`
+}
+
+export function createCarpoolOfferDraft(): CarpoolOfferDraft {
+  return { seats: 3, departurePoint: '', departureTime: '', playerId: '', note: '' }
+}
+
+export function validateCarpoolOffer(draft: CarpoolOfferDraft): string | null {
+  if (!Number.isInteger(draft.seats) || draft.seats < 1 || draft.seats > MAX_CARPOOL_SEATS) {
+    return `Le nombre de places doit être compris entre 1 et ${MAX_CARPOOL_SEATS}.`
+  }
+  if (!draft.departurePoint.trim()) return 'Indique le point de départ.'
+  if (!/^\d{2}:\d{2}$/.test(draft.departureTime)) return 'Indique l’heure de départ.'
+  return null
+}
+
+// Requests pointing to a deleted offer go back to the pending list.
+export function buildCarpoolBoard(offers: CarpoolOffer[], requests: CarpoolRequest[]): CarpoolBoard {
+  const offerIds = new Set(offers.map((offer) => offer.id))
+  const pending = requests.filter((request) => !request.offerId || !offerIds.has(request.offerId))
+  const board = offers
+    .map((offer) => {
+      const passengers = requests.filter((request) => request.offerId === offer.id)
+      return { ...offer, passengers, seatsLeft: Math.max(0, offer.seats - passengers.length) }
+    })
+    .sort((a, b) => a.departureTime.localeCompare(b.departureTime) || a.driverName.localeCompare(b.driverName))
+  return { offers: board, pending }
+}
+
+// Expected players who are neither the driver's child nor seated in a car.
+export function listPlayersWithoutTransport(
+  expectedPlayerIds: Iterable<string>,
+  offers: CarpoolOffer[],
+  requests: CarpoolRequest[],
+): PlayerWithoutTransport[] {
+  const { offers: board, pending } = buildCarpoolBoard(offers, requests)
+  const covered = new Set<string>()
+  for (const offer of board) {
+    if (offer.playerId) covered.add(offer.playerId)
+    for (const passenger of offer.passengers) covered.add(passenger.playerId)
+  }
+  const requested = new Set(pending.map((request) => request.playerId))
+  return Array.from(expectedPlayerIds)
+    .filter((playerId) => !covered.has(playerId))
+    .map((playerId) => ({ playerId, requested: requested.has(playerId) }))
+}
+
+// Meeting time "HH:MM" on the matchday's local day.
+export function getMeetingDate(matchdayDate: string | null | undefined, meetingTime: string | null | undefined): Date | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(meetingTime ?? '')
+  const day = matchdayDate ? new Date(matchdayDate) : null
+  if (!match || !day || Number.isNaN(day.getTime())) return null
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Number(match[1]), Number(match[2]))
+}
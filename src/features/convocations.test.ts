@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest'
+import { apiRoutes } from '../apiRoutes'
+import type { Player } from '../types/api'
+import {
+  buildConvocationMessages,
+  createApiConvocationNotifier,
+  createLocalConvocationNotifier,
+  defaultReminderTime,
+  defaultRsvpDeadline,
+  lastReminderAt,
+  listReminderTargets,
+  readReminderLog,
+  recordReminders,
+  suggestReplacements,
+  summarizeConvocations,
+  type ConvocationLike,
+} from './convocations'
+
+function player(id: string, name: string, primary: string, overrides: Partial<Player> = {}): Player {
+  return { id, name, primary_position: primary, ...overrides }
+}
+
+const convocations: ConvocationLike[] = [
+  { player: player('p1', 'Léo', 'DEFENSEUR'), status: 'present' },
+  { player: player('p2', 'Nina', 'DEFENSEUR'), status: 'absent' },
+  { player: player('p3', 'Sami', 'ATTAQUANT'), status: 'convoque' },
+  { player: player('p4', 'Zoé', 'DEFENSEUR'), status: 'non_convoque' },
+  { player: player('p5', 'Adam', 'MILIEU', { secondary_position: 'DEFENSEUR' }), status: 'non_convoque' },
+  { player: player('p6', 'Bob', 'GARDIEN') },
+  { player: player('p7', 'Ancien', 'DEFENSEUR', { isActive: false }), status: 'non_convoque' },
+  {
+    player: player('p9', 'Blessé', 'DEFENSEUR', {
+      currentInjury: { id: 'i1', playerId: 'p9', description: 'Entorse', startDate: '2026-10-01', expectedReturnDate: null },
+    }),
+    status: 'non_convoque',
+  },
+  { player: player('p8', 'Eva', 'MILIEU'), present: true },
+]
+
+describe('convocation tracking', () => {
+  it('counts answers of convened players only, including legacy present flags', () => {
+    expect(summarizeConvocations(convocations)).toEqual({ convened: 4, present: 2, absent: 1, pending: 1 })
+  })
+
+  it('reminds players without answer until the deadline', () => {
+    const deadline = '2026-10-23T16:00:00.000Z'
+    expect(listReminderTargets(convocations, deadline, new Date('2026-10-22T10:00:00Z')).map((p) => p.id)).toEqual(['p3'])
+    expect(listReminderTargets(convocations, deadline, new Date('2026-10-24T10:00:00Z'))).toEqual([])
+    expect(listReminderTargets(convocations, null).map((p) => p.id)).toEqual(['p3'])
+  })
+
+  it('defaults the deadline to the evening before the matchday', () => {
+    const deadline = new Date(defaultRsvpDeadline('2026-10-24T10:00:00') ?? '')
+    expect([deadline.getDate(), deadline.getHours(), deadline.getMinutes()]).toEqual([23, 18, 0])
+    expect(defaultRsvpDeadline('nope')).toBeNull()
+  })
+
+  it('schedules the automatic reminder a day before the deadline, or now when it is closer', () => {
+    const deadline = '2026-10-23T16:00:00.000Z'
+    expect(defaultReminderTime(deadline, new Date('2026-10-20T10:00:00Z'))).toBe('2026-10-22T16:00:00.000Z')
+    expect(defaultReminderTime(deadline, new Date('2026-10-23T10:00:00Z'))).toBe('2026-10-23T10:00:00.000Z')
+    expect(defaultReminderTime(deadline, new Date('2026-10-24T10:00:00Z'))).toBeNull()
+    expect(defaultReminderTime(null)).toBeNull()
+  })
+
+  it('remembers manual reminders per matchday and keeps the latest one', () => {
+    const values = new Map<string, string>()
+    const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => { values.set(key, value) } }
+    recordReminders('md-1', ['p3'], '2026-10-21T08:00:00.000Z', storage)
+    expect(readReminderLog('md-1', storage)).toEqual({ p3: '2026-10-21T08:00:00.000Z' })
+    expect(readReminderLog('md-2', storage)).toEqual({})
+    const log = readReminderLog('md-1', storage)
+    expect(lastReminderAt({ ...convocations[2], remindedAt: '2026-10-22T16:00:00.000Z' }, log)).toBe('2026-10-22T16:00:00.000Z')
+    expect(lastReminderAt(convocations[2], log)).toBe('2026-10-21T08:00:00.000Z')
+    expect(lastReminderAt(convocations[0], log)).toBeNull()
+  })
+})
+
+describe('suggestReplacements', () => {
+  it('proposes available active players outside the squad, same position first', () => {
+    const declined = convocations[1].player
+    const at = new Date(2026, 9, 24)
+    expect(suggestReplacements(declined, convocations, { at }).map((p) => p.id)).toEqual(['p4', 'p5', 'p6'])
+    expect(suggestReplacements(declined, convocations, { limit: 1, at }).map((p) => p.id)).toEqual(['p4'])
+    expect(suggestReplacements(declined, convocations, { at: new Date(2026, 8, 1) }).map((p) => p.id)).toEqual(['p9', 'p4', 'p5'])
+  })
+})
+
+describe('convocation notifiers', () => {
+  const messages = buildConvocationMessages('REMINDER', [player('p3', 'Sami', 'ATTAQUANT', { email: 'sami@club.fr' })], {
+    rsvpDeadline: '2026-10-23T16:00:00.000Z',
+    links: { p3: { presentUrl: 'https://rsvp/yes', absentUrl: 'https://rsvp/no' } },
+  })
+
+  it('keeps messages in the local outbox', async () => {
+    const log = vi.fn()
+    const notifier = createLocalConvocationNotifier(log)
+    await expect(notifier.send('md-1', messages)).resolves.toEqual({ sent: ['p3'], failed: [] })
+    expect(notifier.outbox).toEqual(messages)
+    expect(log).toHaveBeenCalledTimes(1)
+  })
+
+  it('posts the messages to the matchday notification endpoint', async () => {
+    const apiPost = vi.fn().mockResolvedValue({ sent: ['p3'], failed: [] })
+    await createApiConvocationNotifier(apiPost).send('md-1', messages)
+    expect(apiPost).toHaveBeenCalledWith(apiRoutes.matchday.convocationNotifications('md-1'), {
+      kind: 'REMINDER',
+      messages: [{ playerId: 'p3', rsvpDeadline: '2026-10-23T16:00:00.000Z', presentUrl: 'https://rsvp/yes', absentUrl: 'https://rsvp/no' }],
+    })
+  })
+
+  it('hands the automatic reminder to the backend', async () => {
+    const apiPost = vi.fn().mockResolvedValue(null)
+    const schedule = { remindAt: '2026-10-22T16:00:00.000Z', rsvpDeadline: '2026-10-23T16:00:00.000Z' }
+    await createApiConvocationNotifier(apiPost).scheduleReminder('md-1', schedule)
+    expect(apiPost).toHaveBeenCalledWith(apiRoutes.matchday.convocationReminders('md-1'), schedule)
+    const local = createLocalConvocationNotifier(vi.fn())
+    await local.scheduleReminder('md-1', schedule)
+    expect(local.schedules).toEqual({ 'md-1': schedule })
+  })
+})
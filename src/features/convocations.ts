@@ -0,0 +1,221 @@
+import { apiRoutes } from '../apiRoutes'
+import type { Player } from '../types/api'
+import { isPlayerAvailable } from './playerAvailability'
+import { isPlayerActive } from './playerRoster'
+
+export type ConvocationStatus = 'present' | 'absent' | 'convoque' | 'non_convoque'
+
+export type ConvocationLike = {
+  player: Player
+  status?: ConvocationStatus
+  // Last reminder sent by the backend, manual or automatic.
+  remindedAt?: string | null
+  // legacy support from old API:
+  present?: boolean
+}
+
+export type ConvocationCounts = {
+  convened: number
+  present: number
+  absent: number
+  pending: number
+}
+
+export type RsvpLinks = { presentUrl: string; absentUrl: string }
+
+export type ConvocationMessage = {
+  kind: 'INVITATION' | 'REMINDER'
+  playerId: string
+  playerName: string
+  email: string | null
+  phone: string | null
+  rsvpDeadline: string | null
+  presentUrl?: string
+  absentUrl?: string
+}
+
+export type ConvocationNotifierResult = { sent: string[]; failed: string[] }
+
+// At `remindAt`, convened players still without answer get a reminder, unless the deadline has passed.
+export type ConvocationReminderSchedule = { remindAt: string; rsvpDeadline: string }
+
+// Delivery channel for invitations and reminders; the page does not know whether it is e-mail, push or a stub.
+export type ConvocationNotifier = {
+  name: string
+  send: (matchdayId: string, messages: ConvocationMessage[]) => Promise<ConvocationNotifierResult>
+  // Replaces the automatic reminder of the matchday, so saving a new deadline moves it.
+  scheduleReminder: (matchdayId: string, schedule: ConvocationReminderSchedule) => Promise<void>
+}
+
+type ApiPost = <T>(path: string, body: unknown) => Promise<T>
+
+type StorageLike = Pick<Storage, 'getItem' | 'setItem'>
+
+export const AUTO_REMINDER_LEAD_HOURS = 24
+
+const REMINDER_LOG_STORAGE_KEY = 'izifoot.convocationRemindersByMatchday'
+
+export function resolveConvocationStatus(convocation: ConvocationLike): ConvocationStatus {
+  return convocation.status ?? (convocation.present ? 'present' : 'non_convoque')
+}
+
+export function summarizeConvocations(convocations: ConvocationLike[]): ConvocationCounts {
+  const counts: ConvocationCounts = { convened: 0, present: 0, absent: 0, pending: 0 }
+  for (const convocation of convocations) {
+    const status = resolveConvocationStatus(convocation)
+    if (status === 'non_convoque') continue
+    counts.convened += 1
+    if (status === 'present') counts.present += 1
+    else if (status === 'absent') counts.absent += 1
+    else counts.pending += 1
+  }
+  return counts
+}
+
+// Default deadline: the evening before the matchday (18:00 local time).
+export function defaultRsvpDeadline(matchdayDate: string | null | undefined): string | null {
+  const date = matchdayDate ? new Date(matchdayDate) : null
+  if (!date || Number.isNaN(date.getTime())) return null
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 18, 0).toISOString()
+}
+
+export function isRsvpClosed(rsvpDeadline: string | null | undefined, now: Date = new Date()): boolean {
+  if (!rsvpDeadline) return false
+  const deadline = new Date(rsvpDeadline).getTime()
+  return !Number.isNaN(deadline) && now.getTime() > deadline
+}
+
+// Automatic reminder a day before the deadline, or right away when the deadline is closer than that.
+export function defaultReminderTime(rsvpDeadline: string | null | undefined, now: Date = new Date()): string | null {
+  const deadline = rsvpDeadline ? new Date(rsvpDeadline).getTime() : Number.NaN
+  if (Number.isNaN(deadline) || deadline <= now.getTime()) return null
+  return new Date(Math.max(now.getTime(), deadline - AUTO_REMINDER_LEAD_HOURS * 3_600_000)).toISOString()
+}
+
+function browserStorage(): StorageLike | null {
+  return typeof window === 'undefined' ? null : window.localStorage
+}
+
+function readReminderLogs(storage: StorageLike | null): Record<string, Record<string, string>> {
+  try {
+    const parsed = JSON.parse(storage?.getItem(REMINDER_LOG_STORAGE_KEY) || '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+// Manual reminders sent from this device, by player id, so "Relancé le" survives a reload.
+export function readReminderLog(matchdayId: string, storage: StorageLike | null = browserStorage()): Record<string, string> {
+  return readReminderLogs(storage)[matchdayId] ?? {}
+}
+
+export function recordReminders(
+  matchdayId: string,
+  playerIds: string[],
+  sentAt: string,
+  storage: StorageLike | null = browserStorage(),
+): Record<string, string> {
+  const logs = readReminderLogs(storage)
+  const next = { ...logs[matchdayId], ...Object.fromEntries(playerIds.map((playerId) => [playerId, sentAt])) }
+  storage?.setItem(REMINDER_LOG_STORAGE_KEY, JSON.stringify({ ...logs, [matchdayId]: next }))
+  return next
+}
+
+export function lastReminderAt(convocation: ConvocationLike, log: Record<string, string>): string | null {
+  const dates = [convocation.remindedAt, log[convocation.player.id]].filter((value): value is string => Boolean(value))
+  return dates.sort().at(-1) ?? null
+}
+
+// Convened players who did not answer yet; nobody is reminded once the deadline has passed.
+export function listReminderTargets(convocations: ConvocationLike[], rsvpDeadline: string | null | undefined, now: Date = new Date()): Player[] {
+  if (isRsvpClosed(rsvpDeadline, now)) return []
+  return convocations.filter((c) => resolveConvocationStatus(c) === 'convoque').map((c) => c.player)
+}
+
+function positionScore(candidate: Player, declined: Player) {
+  if (declined.primary_position && candidate.primary_position === declined.primary_position) return 2
+  if (
+    (declined.secondary_position && candidate.primary_position === declined.secondary_position) ||
+    (candidate.secondary_position && candidate.secondary_position === declined.primary_position)
+  ) return 1
+  return 0
+}
+
+// Active players left out of the squad and available on `at`, same position first, then a matching secondary position.
+export function suggestReplacements(
+  declined: Player,
+  convocations: ConvocationLike[],
+  { limit = 3, at = new Date() }: { limit?: number; at?: Date } = {},
+): Player[] {
+  return convocations
+    .filter((c) => (
+      c.player.id !== declined.id
+      && resolveConvocationStatus(c) === 'non_convoque'
+      && isPlayerActive(c.player)
+      && isPlayerAvailable(c.player, at)
+    ))
+    .map((c) => c.player)
+    .sort((a, b) => positionScore(b, declined) - positionScore(a, declined) || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
+
+export function buildConvocationMessages(
+  kind: ConvocationMessage['kind'],
+  players: Player[],
+  options: { rsvpDeadline: string | null; links?: Record<string, RsvpLinks> },
+): ConvocationMessage[] {
+  return players.map((player) => {
+    const links = options.links?.[player.id]
+    return {
+      kind,
+      playerId: player.id,
+      playerName: player.name,
+      email: player.email ?? null,
+      phone: player.phone ?? null,
+      rsvpDeadline: options.rsvpDeadline,
+      ...(links ? { presentUrl: links.presentUrl, absentUrl: links.absentUrl } : {}),
+    }
+  })
+}
+
+// The backend resolves the contacts (player or parents) and delivers the messages.
+export function createApiConvocationNotifier(apiPost: ApiPost): ConvocationNotifier {
+  return {
+    name: 'api',
+    async send(matchdayId, messages) {
+      if (messages.length === 0) return { sent: [], failed: [] }
+      const response = await apiPost<Partial<ConvocationNotifierResult> | null>(apiRoutes.matchday.convocationNotifications(matchdayId), {
+        kind: messages[0].kind,
+        messages: messages.map(({ playerId, rsvpDeadline, presentUrl, absentUrl }) => ({ playerId, rsvpDeadline, presentUrl, absentUrl })),
+      })
+      const sent = response?.sent ?? messages.map((message) => message.playerId)
+      return { sent, failed: response?.failed ?? [] }
+    },
+    async scheduleReminder(matchdayId, schedule) {
+      await apiPost(apiRoutes.matchday.convocationReminders(matchdayId), schedule)
+    },
+  }
+}
+
+// Local development stub: nothing leaves the browser, messages are kept in `outbox` and logged.
+export function createLocalConvocationNotifier(
+  log: (...args: unknown[]) => void = console.info,
+): ConvocationNotifier & { outbox: ConvocationMessage[]; schedules: Record<string, ConvocationReminderSchedule> } {
+  const outbox: ConvocationMessage[] = []
+  const schedules: Record<string, ConvocationReminderSchedule> = {}
+  return {
+    name: 'local',
+    outbox,
+    schedules,
+    async send(matchdayId, messages) {
+      outbox.push(...messages)
+      for (const message of messages) log(`[convocation][${matchdayId}] ${message.kind} → ${message.playerName}`, message)
+      return { sent: messages.map((message) => message.playerId), failed: [] }
+    },
+    async scheduleReminder(matchdayId, schedule) {
+      schedules[matchdayId] = schedule
+      log(`[convocation][${matchdayId}] REMINDER scheduled at ${schedule.remindAt}`, schedule)
+    },
+  }
+}
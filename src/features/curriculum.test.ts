@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import type { CurriculumCycle } from '../types/api'
+import {
+  buildSessionStartDate,
+  createCurriculumDraft,
+  getSeasonDateRange,
+  planCurriculumSessions,
+  setCycleWeekCount,
+} from './curriculum'
+
+function cycle(id: string, weeks: string[][]): CurriculumCycle {
+  return { id, title: id, objectives: '', weeks }
+}
+
+describe('season range', () => {
+  it('prefers the resolved season and otherwise derives it from the club config', () => {
+    expect(getSeasonDateRange({
+      currentSeason: { id: 's', clubId: 'c', key: '2026', label: '2026-2027', startDate: '2026-08-15T00:00:00.000Z', endDate: '2027-06-30T00:00:00.000Z' },
+    })).toEqual({ startDate: '2026-08-15', endDate: '2027-06-30' })
+
+    const config = { startMonth: 9, startDay: 1, endMonth: 6, endDay: 30 }
+    expect(getSeasonDateRange({ seasonConfig: config }, new Date(2027, 2, 10))).toEqual({ startDate: '2026-09-01', endDate: '2027-06-30' })
+    expect(getSeasonDateRange({ seasonConfig: config }, new Date(2026, 9, 19))).toEqual({ startDate: '2026-09-01', endDate: '2027-06-30' })
+    expect(getSeasonDateRange(null, new Date(2026, 6, 1))).toEqual({ startDate: '2025-08-01', endDate: '2026-07-31' })
+  })
+
+  it('starts a new programme today when the season already began', () => {
+    const draft = createCurriculumDraft('u11', null, { startDate: '2026-09-01', endDate: '2027-06-30' }, new Date(2026, 9, 19))
+    expect(draft.startDate).toBe('2026-10-19')
+  })
+})
+
+describe('curriculum planning', () => {
+  it('spreads cycle weeks over training days and skips holiday weeks without consuming them', () => {
+    const sessions = planCurriculumSessions({
+      // Wednesday 2026-10-07 start, Wednesdays and Saturdays.
+      startDate: '2026-10-07',
+      endDate: '2026-12-31',
+      weekdays: [6, 3],
+      holidays: [{ id: 'h', label: 'Toussaint', startDate: '2026-10-17', endDate: '2026-11-01' }],
+      cycles: [cycle('conservation', [['d1'], ['d2']]), cycle('pressing', [['d3']])],
+    }, new Set(['2026-11-04']))
+
+    expect(sessions.map((session) => [session.dayKey, session.cycleId, session.weekNumber, session.drillIds])).toEqual([
+      ['2026-10-07', 'conservation', 1, ['d1']],
+      ['2026-10-10', 'conservation', 1, ['d1']],
+      ['2026-10-14', 'conservation', 2, ['d2']],
+      ['2026-11-04', 'pressing', 1, ['d3']],
+      ['2026-11-07', 'pressing', 1, ['d3']],
+    ])
+    expect(sessions.filter((session) => session.alreadyPlanned).map((session) => session.dayKey)).toEqual(['2026-11-04'])
+  })
+
+  it('stops at the end date and ignores empty set-ups', () => {
+    const base = { startDate: '2026-10-05', endDate: '2026-10-12', weekdays: [1], holidays: [], cycles: [cycle('a', [[], [], []])] }
+    expect(planCurriculumSessions(base).map((session) => session.dayKey)).toEqual(['2026-10-05', '2026-10-12'])
+    expect(planCurriculumSessions({ ...base, weekdays: [] })).toEqual([])
+    expect(planCurriculumSessions({ ...base, cycles: [] })).toEqual([])
+  })
+
+  it('resizes cycles and builds the session start date', () => {
+    expect(setCycleWeekCount(cycle('a', [['d1'], ['d2']]), 3).weeks).toEqual([['d1'], ['d2'], []])
+    expect(setCycleWeekCount(cycle('a', [['d1'], ['d2']]), 0).weeks).toEqual([['d1']])
+    expect(new Date(buildSessionStartDate('2026-10-07', '18:30')).getHours()).toBe(18)
+  })
+})
@@ -0,0 +1,171 @@
+import type { ClubMe, ClubSeasonConfig, Curriculum, CurriculumCycle, HolidayPeriod } from '../types/api'
+
+export const CURRICULUM_WEEKDAY_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 1, label: 'Lun' },
+  { value: 2, label: 'Mar' },
+  { value: 3, label: 'Mer' },
+  { value: 4, label: 'Jeu' },
+  { value: 5, label: 'Ven' },
+  { value: 6, label: 'Sam' },
+  { value: 7, label: 'Dim' },
+]
+
+export const DEFAULT_CYCLE_WEEKS = 6
+export const MAX_CYCLE_WEEKS = 12
+
+// Same fallback as the club settings screen: August 1st to July 31st.
+const FALLBACK_SEASON_CONFIG: ClubSeasonConfig = { startMonth: 8, startDay: 1, endMonth: 7, endDay: 31 }
+
+export type SeasonDateRange = {
+  startDate: string
+  endDate: string
+}
+
+export type CurriculumDraft = Omit<Curriculum, 'id'> & { id?: string }
+
+export type PlannedCurriculumSession = {
+  dayKey: string
+  cycleId: string
+  cycleTitle: string
+  weekNumber: number
+  drillIds: string[]
+  // A training already exists that day: generation leaves the day untouched.
+  alreadyPlanned: boolean
+}
+
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function parseDayKey(dayKey: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dayKey)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function isoWeekday(date: Date): number {
+  return ((date.getDay() + 6) % 7) + 1
+}
+
+// The club's current season when the API resolved it, otherwise the season of `today` from the month/day config.
+export function getSeasonDateRange(club: Pick<ClubMe, 'seasonConfig' | 'currentSeason'> | null, today: Date = new Date()): SeasonDateRange {
+  const season = club?.currentSeason
+  if (season?.startDate && season.endDate) {
+    return { startDate: season.startDate.slice(0, 10), endDate: season.endDate.slice(0, 10) }
+  }
+  const config = club?.seasonConfig ?? FALLBACK_SEASON_CONFIG
+  const startThisYear = new Date(today.getFullYear(), config.startMonth - 1, config.startDay)
+  const startYear = today >= startThisYear ? today.getFullYear() : today.getFullYear() - 1
+  const start = new Date(startYear, config.startMonth - 1, config.startDay)
+  let end = new Date(startYear, config.endMonth - 1, config.endDay)
+  if (end < start) end = new Date(startYear + 1, config.endMonth - 1, config.endDay)
+  return { startDate: toDayKey(start), endDate: toDayKey(end) }
+}
+
+export function createCurriculumCycle(id: string, weekCount = DEFAULT_CYCLE_WEEKS): CurriculumCycle {
+  return { id, title: '', objectives: '', weeks: Array.from({ length: weekCount }, () => []) }
+}
+
+export function setCycleWeekCount(cycle: CurriculumCycle, weekCount: number): CurriculumCycle {
+  const count = Math.min(MAX_CYCLE_WEEKS, Math.max(1, Math.round(weekCount) || 1))
+  const weeks = cycle.weeks.slice(0, count)
+  while (weeks.length < count) weeks.push([])
+  return { ...cycle, weeks }
+}
+
+// Generation never goes back in time: the default start is today when the season already began.
+export function createCurriculumDraft(teamId: string | null, seasonId: string | null, range: SeasonDateRange, today: Date = new Date()): CurriculumDraft {
+  const todayKey = toDayKey(today)
+  return {
+    teamId,
+    seasonId,
+    title: 'Programme de la saison',
+    weekdays: [3],
+    startTime: '18:00',
+    endTime: '19:30',
+    startDate: range.startDate > todayKey ? range.startDate : todayKey,
+    endDate: range.endDate,
+    cycles: [],
+    holidays: [],
+  }
+}
+
+export function isHolidayDay(dayKey: string, holidays: HolidayPeriod[]): boolean {
+  return holidays.some((period) => period.startDate && period.endDate && dayKey >= period.startDate && dayKey <= period.endDate)
+}
+
+// Walks the calendar week by week; a week emptied by holidays does not consume a curriculum week.
+export function planCurriculumSessions(
+  curriculum: Pick<Curriculum, 'weekdays' | 'startDate' | 'endDate' | 'cycles' | 'holidays'>,
+  existingDayKeys: Set<string> = new Set(),
+): PlannedCurriculumSession[] {
+  const start = parseDayKey(curriculum.startDate)
+  const end = parseDayKey(curriculum.endDate)
+  const weekdays = Array.from(new Set(curriculum.weekdays)).filter((day) => day >= 1 && day <= 7).sort((a, b) => a - b)
+  const cycles = curriculum.cycles.filter((cycle) => cycle.weeks.length > 0)
+  if (!start || !end || start > end || weekdays.length === 0 || cycles.length === 0) return []
+
+  const sessions: PlannedCurriculumSession[] = []
+  let weekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() - isoWeekday(start) + 1)
+  let cycleIndex = 0
+  let weekIndex = 0
+  while (weekStart <= end && cycleIndex < cycles.length) {
+    const dayKeys = weekdays
+      .map((weekday) => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + weekday - 1))
+      .filter((day) => day >= start && day <= end)
+      .map(toDayKey)
+      .filter((dayKey) => !isHolidayDay(dayKey, curriculum.holidays))
+    if (dayKeys.length > 0) {
+      const cycle = cycles[cycleIndex]
+      for (const dayKey of dayKeys) {
+        sessions.push({
+          dayKey,
+          cycleId: cycle.id,
+          cycleTitle: cycle.title,
+          weekNumber: weekIndex + 1,
+          drillIds: cycle.weeks[weekIndex],
+          alreadyPlanned: existingDayKeys.has(dayKey),
+        })
+      }
+      weekIndex += 1
+      if (weekIndex >= cycle.weeks.length) {
+        cycleIndex += 1
+        weekIndex = 0
+      }
+    }
+    weekStart = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 7)
+  }
+  return sessions
+}
+
+export function buildSessionStartDate(dayKey: string, startTime: string): string {
+  const day = parseDayKey(dayKey)
+  if (!day) throw new Error(`Date invalide: ${dayKey}`)
+  const [hours, minutes] = /^\d{2}:\d{2}$/.test(startTime) ? startTime.split(':').map(Number) : [18, 0]
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).toISOString()
+}
+
+function normalizeCycle(input: unknown, index: number): CurriculumCycle {
+  const raw = (input && typeof input === 'object' ? input : {}) as Partial<CurriculumCycle>
+  const weeks = Array.isArray(raw.weeks)
+    ? raw.weeks.map((week) => (Array.isArray(week) ? week.filter((id): id is string => typeof id === 'string') : []))
+    : []
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `cycle-${index + 1}`,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    objectives: typeof raw.objectives === 'string' ? raw.objectives : '',
+    weeks: weeks.length > 0 ? weeks.slice(0, MAX_CYCLE_WEEKS) : [[]],
+  }
+}
+
+export function normalizeCurriculum(input: Curriculum): Curriculum {
+  return {
+    ...input,
+    weekdays: Array.isArray(input.weekdays) ? input.weekdays.filter((day) => Number.isInteger(day) && day >= 1 && day <= 7) : [],
+    cycles: Array.isArray(input.cycles) ? input.cycles.map(normalizeCycle) : [],
+    holidays: Array.isArray(input.holidays) ? input.holidays.filter((period) => period && period.startDate && period.endDate) : [],
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import type { DiagramData, DiagramFrame, Item } from '../components/diagramShared'
+import {
+  EMPTY_DIAGRAM_HISTORY,
+  applyItemPositions,
+  computeAlignment,
+  computeDistribution,
+  duplicateFrameForward,
+  moveItemsAcrossFrames,
+  pasteItems,
+  recordDiagramChange,
+  redoDiagramChange,
+  selectItemsInRect,
+  undoDiagramChange,
+} from './diagramEditing'
+
+function diagram(x: number): DiagramData {
+  return { frames: [{ id: 'f1', name: 'Etape 1', items: [{ type: 'ball', id: 'b1', x, y: 0 }] }], fps: 2 }
+}
+
+function framesOf(...items: Item[][]): DiagramFrame[] {
+  return items.map((frameItems, index) => ({ id: `f${index}`, name: `Etape ${index + 1}`, items: frameItems }))
+}
+
+const player = (id: string, x: number, y: number): Item => ({ type: 'player', id, x, y, color: 'blue', label: '' })
+
+describe('diagram history', () => {
+  it('undoes and redoes changes in order and drops the redo branch on a new change', () => {
+    let history = recordDiagramChange(EMPTY_DIAGRAM_HISTORY, { before: diagram(0), after: diagram(10) })
+    history = recordDiagramChange(history, { before: diagram(10), after: diagram(20) })
+
+    const undone = undoDiagramChange(history)!
+    expect(undone.data).toEqual(diagram(10))
+    const redone = redoDiagramChange(undone.history)!
+    expect(redone.data).toEqual(diagram(20))
+
+    const branched = recordDiagramChange(undone.history, { before: diagram(10), after: diagram(30) })
+    expect(branched.future).toHaveLength(0)
+    expect(redoDiagramChange(branched)).toBeNull()
+    expect(undoDiagramChange(EMPTY_DIAGRAM_HISTORY)).toBeNull()
+  })
+
+  it('merges a whole gesture into one undo step and caps the stack', () => {
+    let history = recordDiagramChange(EMPTY_DIAGRAM_HISTORY, { before: diagram(0), after: diagram(5), mergeKey: 'drag' })
+    history = recordDiagramChange(history, { before: diagram(5), after: diagram(15), mergeKey: 'drag' })
+    expect(history.past).toHaveLength(1)
+    expect(undoDiagramChange(history)!.data).toEqual(diagram(0))
+
+    let capped = EMPTY_DIAGRAM_HISTORY
+    for (let index = 0; index < 5; index += 1) {
+      capped = recordDiagramChange(capped, { before: diagram(index), after: diagram(index + 1) }, 3)
+    }
+    expect(capped.past.map((entry) => entry.before)).toEqual([diagram(2), diagram(3), diagram(4)])
+  })
+})
+
+describe('multi-selection editing', () => {
+  it('selects point items by centre and lines only when fully inside', () => {
+    const items: Item[] = [
+      player('p1', 20, 20),
+      player('p2', 200, 200),
+      { type: 'arrow', id: 'a1', from: { x: 10, y: 10 }, to: { x: 60, y: 60 } },
+      { type: 'arrow', id: 'a2', from: { x: 10, y: 10 }, to: { x: 300, y: 60 } },
+    ]
+    expect(selectItemsInRect(items, { x1: 100, y1: 100, x2: 0, y2: 0 })).toEqual(['p1', 'a1'])
+  })
+
+  it('moves a group with the single-item propagation rules', () => {
+    const cone: Item = { type: 'cone', id: 'c1', x: 100, y: 100 }
+    const arrow: Item = { type: 'arrow', id: 'a1', from: { x: 0, y: 0 }, to: { x: 20, y: 0 }, control: { x: 10, y: 10 } }
+    const frames = framesOf([player('p1', 0, 0), cone], [player('p1', 0, 0), cone, arrow], [player('p1', 0, 0), cone])
+
+    const moved = moveItemsAcrossFrames(frames, 1, ['p1', 'c1', 'a1'], 20, 40)
+    expect(moved[0].items).toEqual([player('p1', 0, 0), { ...cone, x: 120, y: 140 }])
+    expect(moved[1].items[2]).toEqual({ ...arrow, from: { x: 20, y: 40 }, to: { x: 40, y: 40 }, control: { x: 30, y: 50 } })
+    expect(moved[2].items[0]).toEqual(player('p1', 20, 40))
+  })
+
+  it('aligns and distributes selected items, ignoring lines', () => {
+    const items: Item[] = [
+      player('p1', 10, 50),
+      player('p2', 40, 80),
+      player('p3', 100, 0),
+      { type: 'arrow', id: 'a1', from: { x: 0, y: 0 }, to: { x: 20, y: 0 } },
+    ]
+    const ids = ['p1', 'p2', 'p3', 'a1']
+    expect(Object.fromEntries(computeAlignment(items, ids, 'left'))).toEqual({
+      p1: { x: 10, y: 50 },
+      p2: { x: 10, y: 80 },
+      p3: { x: 10, y: 0 },
+    })
+    expect(computeAlignment(items, ['p1', 'a1'], 'top').size).toBe(0)
+
+    const distribution = computeDistribution(items, ids, 'horizontal')
+    expect(distribution.get('p2')).toEqual({ x: 55, y: 80 })
+
+    const frames = applyItemPositions(framesOf(items, items), 1, distribution)
+    expect(frames[0].items[1]).toEqual(player('p2', 40, 80))
+    expect(frames[1].items[1]).toEqual(player('p2', 55, 80))
+  })
+
+  it('pastes positions onto another step and duplicates on the same step', () => {
+    const frames = framesOf([player('p1', 0, 0)], [player('p1', 0, 0)])
+    const clipboard = { sourceFrameIndex: 0, items: [player('p1', 60, 80), { type: 'ball', id: 'b1', x: 5, y: 5 } as Item] }
+
+    const onOtherStep = pasteItems(frames, 1, clipboard, () => 'new')
+    expect(onOtherStep.frames[0]).toBe(frames[0])
+    expect(onOtherStep.frames[1].items).toEqual(clipboard.items)
+
+    let next = 0
+    const onSameStep = pasteItems(frames, 0, clipboard, () => `copy${++next}`)
+    expect(onSameStep.pastedIds).toEqual(['copy1', 'copy2'])
+    expect(onSameStep.frames[1].items.map((item) => item.id)).toEqual(['p1', 'copy1', 'copy2'])
+    expect(onSameStep.frames[0].items[1]).toEqual(player('copy1', 80, 100))
+  })
+
+  it('copies the current step into the next one', () => {
+    const frames = framesOf([player('p1', 40, 40)], [player('p1', 0, 0)])
+    const duplicated = duplicateFrameForward(frames, 0)!
+    expect(duplicated[1]).toEqual({ ...frames[1], items: [player('p1', 40, 40)] })
+    expect(duplicateFrameForward(frames, 1)).toBeNull()
+  })
+})
@@ -0,0 +1,223 @@
+import { MOVING_ITEM_TYPES, type DiagramData, type DiagramFrame, type Item } from '../components/diagramShared'
+
+export const DIAGRAM_HISTORY_LIMIT = 100
+const PASTE_OFFSET = 20
+
+export type DiagramHistoryEntry = {
+  before: DiagramData
+  after: DiagramData
+  // Consecutive changes with the same key (one drag gesture, typing in one field) form a single undo step.
+  mergeKey?: string | null
+}
+
+export type DiagramHistory = {
+  past: DiagramHistoryEntry[]
+  future: DiagramHistoryEntry[]
+}
+
+export type SelectionRect = { x1: number; y1: number; x2: number; y2: number }
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+export type DistributeAxis = 'horizontal' | 'vertical'
+
+export const EMPTY_DIAGRAM_HISTORY: DiagramHistory = { past: [], future: [] }
+
+export function recordDiagramChange(
+  history: DiagramHistory,
+  entry: DiagramHistoryEntry,
+  limit = DIAGRAM_HISTORY_LIMIT,
+): DiagramHistory {
+  const last = history.past[history.past.length - 1]
+  if (last && entry.mergeKey && last.mergeKey === entry.mergeKey) {
+    return { past: [...history.past.slice(0, -1), { ...last, after: entry.after }], future: [] }
+  }
+  return { past: [...history.past, entry].slice(-limit), future: [] }
+}
+
+export function undoDiagramChange(history: DiagramHistory): { history: DiagramHistory; data: DiagramData } | null {
+  const last = history.past[history.past.length - 1]
+  if (!last) return null
+  return {
+    history: { past: history.past.slice(0, -1), future: [last, ...history.future] },
+    data: last.before,
+  }
+}
+
+export function redoDiagramChange(history: DiagramHistory): { history: DiagramHistory; data: DiagramData } | null {
+  const next = history.future[0]
+  if (!next) return null
+  return {
+    history: { past: [...history.past, { ...next, mergeKey: null }], future: history.future.slice(1) },
+    data: next.after,
+  }
+}
+
+// Reference point of an item, used by selection, alignment and distribution.
+export function getItemAnchor(item: Item): { x: number; y: number } {
+  if (item.type === 'arrow') {
+    return { x: (item.from.x + item.to.x) / 2, y: (item.from.y + item.to.y) / 2 }
+  }
+  return { x: item.x, y: item.y }
+}
+
+function isInside(point: { x: number; y: number }, rect: SelectionRect): boolean {
+  const minX = Math.min(rect.x1, rect.x2)
+  const maxX = Math.max(rect.x1, rect.x2)
+  const minY = Math.min(rect.y1, rect.y2)
+  const maxY = Math.max(rect.y1, rect.y2)
+  return point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY
+}
+
+// Rubber-band selection: lines must fit entirely, other items are picked by their centre.
+export function selectItemsInRect(items: Item[], rect: SelectionRect): string[] {
+  return items
+    .filter((item) => (item.type === 'arrow' ? isInside(item.from, rect) && isInside(item.to, rect) : isInside(item, rect)))
+    .map((item) => item.id)
+}
+
+export function translateItem(item: Item, dx: number, dy: number): Item {
+  if (item.type === 'arrow') {
+    return {
+      ...item,
+      from: { x: item.from.x + dx, y: item.from.y + dy },
+      to: { x: item.to.x + dx, y: item.to.y + dy },
+      ...(item.control ? { control: { x: item.control.x + dx, y: item.control.y + dy } } : {}),
+    }
+  }
+  return { ...item, x: item.x + dx, y: item.y + dy }
+}
+
+// Same propagation rules as a single drag: equipment is moved on every step, players/balls/labels from
+// the current step onwards, lines only on the current step.
+export function updateItemsAcrossFrames(
+  frames: DiagramFrame[],
+  activeIndex: number,
+  updates: Map<string, (item: Item) => Item>,
+): DiagramFrame[] {
+  const activeTypes = new Map((frames[activeIndex]?.items ?? []).map((item) => [item.id, item.type] as const))
+  return frames.map((frame, index) => ({
+    ...frame,
+    items: frame.items.map((item) => {
+      const update = updates.get(item.id)
+      if (!update) return item
+      const type = activeTypes.get(item.id) ?? item.type
+      const applies = type === 'arrow'
+        ? index === activeIndex
+        : MOVING_ITEM_TYPES.includes(type)
+          ? index >= activeIndex
+          : true
+      return applies ? update(item) : item
+    }),
+  }))
+}
+
+export function moveItemsAcrossFrames(frames: DiagramFrame[], activeIndex: number, ids: string[], dx: number, dy: number): DiagramFrame[] {
+  if (dx === 0 && dy === 0) return frames
+  return updateItemsAcrossFrames(frames, activeIndex, new Map(ids.map((id) => [id, (item: Item) => translateItem(item, dx, dy)] as const)))
+}
+
+// Target anchor per item id. Lines are ignored: they have no single position to align.
+export function computeAlignment(items: Item[], ids: string[], mode: AlignMode): Map<string, { x: number; y: number }> {
+  const selected = items.filter((item) => ids.includes(item.id) && item.type !== 'arrow')
+  const result = new Map<string, { x: number; y: number }>()
+  if (selected.length < 2) return result
+  const xs = selected.map((item) => getItemAnchor(item).x)
+  const ys = selected.map((item) => getItemAnchor(item).y)
+  const target = {
+    left: Math.min(...xs),
+    center: (Math.min(...xs) + Math.max(...xs)) / 2,
+    right: Math.max(...xs),
+    top: Math.min(...ys),
+    middle: (Math.min(...ys) + Math.max(...ys)) / 2,
+    bottom: Math.max(...ys),
+  }[mode]
+  const horizontal = mode === 'left' || mode === 'center' || mode === 'right'
+  selected.forEach((item) => {
+    const anchor = getItemAnchor(item)
+    result.set(item.id, horizontal ? { x: target, y: anchor.y } : { x: anchor.x, y: target })
+  })
+  return result
+}
+
+// Even spacing between the outermost items, which stay where they are.
+export function computeDistribution(items: Item[], ids: string[], axis: DistributeAxis): Map<string, { x: number; y: number }> {
+  const key = axis === 'horizontal' ? 'x' : 'y'
+  const selected = items
+    .filter((item) => ids.includes(item.id) && item.type !== 'arrow')
+    .sort((a, b) => getItemAnchor(a)[key] - getItemAnchor(b)[key])
+  const result = new Map<string, { x: number; y: number }>()
+  if (selected.length < 3) return result
+  const first = getItemAnchor(selected[0])[key]
+  const step = (getItemAnchor(selected[selected.length - 1])[key] - first) / (selected.length - 1)
+  selected.forEach((item, index) => {
+    result.set(item.id, { ...getItemAnchor(item), [key]: first + step * index })
+  })
+  return result
+}
+
+export function applyItemPositions(
+  frames: DiagramFrame[],
+  activeIndex: number,
+  positions: Map<string, { x: number; y: number }>,
+): DiagramFrame[] {
+  const activeItems = new Map((frames[activeIndex]?.items ?? []).map((item) => [item.id, item] as const))
+  const updates = new Map<string, (item: Item) => Item>()
+  positions.forEach((position, id) => {
+    const current = activeItems.get(id)
+    if (!current) return
+    const anchor = getItemAnchor(current)
+    updates.set(id, (item) => translateItem(item, position.x - anchor.x, position.y - anchor.y))
+  })
+  return updateItemsAcrossFrames(frames, activeIndex, updates)
+}
+
+export type DiagramClipboard = {
+  sourceFrameIndex: number
+  items: Item[]
+}
+
+// Pasting on another step copies the positions of the same items (so they move there) and adds the missing
+// ones. Pasting on the step they were copied from duplicates them with new ids, slightly offset.
+export function pasteItems(
+  frames: DiagramFrame[],
+  activeIndex: number,
+  clipboard: DiagramClipboard,
+  createId: () => string,
+): { frames: DiagramFrame[]; pastedIds: string[] } {
+  if (clipboard.items.length === 0) return { frames, pastedIds: [] }
+
+  if (clipboard.sourceFrameIndex === activeIndex) {
+    const copies = clipboard.items.map((item) => ({ ...translateItem(item, PASTE_OFFSET, PASTE_OFFSET), id: createId() }))
+    return {
+      frames: frames.map((frame, index) => {
+        const added = copies.filter((copy) => copy.type !== 'arrow' || index === activeIndex)
+        return added.length ? { ...frame, items: [...frame.items, ...added] } : frame
+      }),
+      pastedIds: copies.map((copy) => copy.id),
+    }
+  }
+
+  const copied = new Map(clipboard.items.map((item) => [item.id, item] as const))
+  return {
+    frames: frames.map((frame, index) => {
+      if (index !== activeIndex) return frame
+      const existing = new Set(frame.items.map((item) => item.id))
+      return {
+        ...frame,
+        items: [
+          ...frame.items.map((item) => copied.get(item.id) ?? item),
+          ...clipboard.items.filter((item) => !existing.has(item.id)),
+        ],
+      }
+    }),
+    pastedIds: clipboard.items.map((item) => item.id),
+  }
+}
+
+// "Dupliquer l'étape et continuer": the next step starts from the current one.
+export function duplicateFrameForward(frames: DiagramFrame[], activeIndex: number): DiagramFrame[] | null {
+  if (activeIndex >= frames.length - 1) return null
+  return frames.map((frame, index) => (
+    index === activeIndex + 1 ? { ...frame, items: frames[activeIndex].items.map((item) => ({ ...item })) } : frame
+  ))
+}
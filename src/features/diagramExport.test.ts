@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import type { DiagramFrame } from '../components/diagramShared'
+import { buildDiagramAnimation, buildDiagramExportFileName, layoutStoryboard, pickVideoMimeType } from './diagramExport'
+
+const frames: DiagramFrame[] = [
+  { id: 'f1', name: 'Etape 1', items: [{ type: 'player', id: 'p1', x: 0, y: 0, color: 'blue' }, { type: 'cone', id: 'c1', x: 50, y: 50 }] },
+  { id: 'f2', name: 'Etape 2', items: [{ type: 'player', id: 'p1', x: 100, y: 40, color: 'blue' }] },
+]
+
+describe('buildDiagramAnimation', () => {
+  it('samples each step transition at the export frame rate and holds the first and last steps', () => {
+    // fps 2 -> 500 ms per move, sampled at 10 images/s -> 5 images.
+    const animation = buildDiagramAnimation(frames, 2, { frameRate: 10, holdStartMs: 600, holdEndMs: 1000 })
+    expect(animation).toHaveLength(6)
+    expect(animation[0]).toEqual({ items: frames[0].items, delayMs: 600 })
+    expect(animation[1].items[0]).toMatchObject({ id: 'p1', x: 20, y: 8 })
+    // The cone removed by step 2 stays visible until the move ends.
+    expect(animation[4].items.map((item) => item.id)).toEqual(['p1', 'c1'])
+    expect(animation[5].items).toEqual(frames[1].items)
+    expect(animation[5].delayMs).toBe(1100)
+    expect(animation.slice(1, 5).every((frame) => frame.delayMs === 100)).toBe(true)
+  })
+
+  it('exports a single still image for a one-step diagram', () => {
+    expect(buildDiagramAnimation(frames.slice(0, 1), 4, { holdEndMs: 900 })).toEqual([{ items: frames[0].items, delayMs: 900 }])
+  })
+})
+
+describe('layoutStoryboard', () => {
+  it('lays steps side by side in a near-square grid', () => {
+    const layout = layoutStoryboard(5, { width: 600, height: 380 }, { gap: 10, padding: 20, labelHeight: 30 })
+    expect(layout.columns).toBe(3)
+    expect(layout.rows).toBe(2)
+    expect(layout.width).toBe(20 * 2 + 3 * 600 + 2 * 10)
+    expect(layout.height).toBe(20 * 2 + 2 * 410 + 10)
+    expect(layout.cells[4]).toMatchObject({ x: 20 + 610, y: 20 + 420 + 30 })
+  })
+})
+
+describe('export helpers', () => {
+  it('prefers MP4 when the browser can record it and falls back to WebM', () => {
+    expect(pickVideoMimeType((type) => type.startsWith('video/mp4'))).toBe('video/mp4;codecs=avc1')
+    expect(pickVideoMimeType((type) => type === 'video/webm')).toBe('video/webm')
+    expect(pickVideoMimeType(() => false)).toBeNull()
+  })
+
+  it('builds file names from the drill title', () => {
+    expect(buildDiagramExportFileName('Conduite de balle à 2 équipes !', 'gif')).toBe('conduite-de-balle-a-2-equipes.gif')
+    expect(buildDiagramExportFileName('', 'png')).toBe('diagramme.png')
+  })
+})
@@ -0,0 +1,310 @@
+import {
+  getPlaybackFps,
+  getTransitionDurationMs,
+  interpolateTimedItems,
+  type DiagramFrame,
+  type Item,
+} from '../components/diagramShared'
+import {
+  addPixelsToHistogram,
+  buildGifPalette,
+  createColorHistogram,
+  createPaletteMapper,
+  encodeGif,
+  type GifFrame,
+} from './gifEncoder'
+
+export const DIAGRAM_EXPORT_FRAME_RATE = 12
+const DEFAULT_HOLD_START_MS = 700
+const DEFAULT_HOLD_END_MS = 1500
+const VIDEO_MIME_TYPES = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export type DiagramAnimationFrame = {
+  items: Item[]
+  delayMs: number
+}
+
+export type StoryboardCell = {
+  index: number
+  x: number
+  y: number
+  labelY: number
+}
+
+export type StoryboardLayout = {
+  columns: number
+  rows: number
+  width: number
+  height: number
+  cellWidth: number
+  cellHeight: number
+  cells: StoryboardCell[]
+}
+
+// Renders one set of items to standalone SVG markup of the requested pixel size.
+export type DiagramMarkupRenderer = (items: Item[], size: { width: number; height: number }) => string
+
+export type DiagramExportProgress = (done: number, total: number) => void
+
+// Same movement as DiagramPlayer (per-item timings, default transition at the diagram's fps), sampled at
+// frameRate, with a pause on the first and last step so a looping export stays readable.
+export function buildDiagramAnimation(
+  frames: DiagramFrame[],
+  fps: number | undefined,
+  options: { frameRate?: number; holdStartMs?: number; holdEndMs?: number } = {},
+): DiagramAnimationFrame[] {
+  if (frames.length === 0) return []
+  const frameRate = options.frameRate ?? DIAGRAM_EXPORT_FRAME_RATE
+  const holdStartMs = options.holdStartMs ?? DEFAULT_HOLD_START_MS
+  const holdEndMs = options.holdEndMs ?? DEFAULT_HOLD_END_MS
+  const playbackFps = getPlaybackFps(fps)
+
+  const animation: DiagramAnimationFrame[] = [{ items: frames[0].items, delayMs: holdStartMs }]
+  let sampleDelay = 0
+  for (let index = 0; index < frames.length - 1; index += 1) {
+    const transitionMs = getTransitionDurationMs(frames[index].items, frames[index + 1], playbackFps)
+    const samples = Math.max(1, Math.round((transitionMs * frameRate) / 1000))
+    sampleDelay = transitionMs / samples
+    for (let sample = 1; sample <= samples; sample += 1) {
+      animation.push({
+        items: interpolateTimedItems(frames[index].items, frames[index + 1], sample * sampleDelay, playbackFps),
+        delayMs: sampleDelay,
+      })
+    }
+  }
+  animation[animation.length - 1] = {
+    ...animation[animation.length - 1],
+    delayMs: animation.length === 1 ? holdEndMs : sampleDelay + holdEndMs,
+  }
+  return animation
+}
+
+export function layoutStoryboard(
+  count: number,
+  field: { width: number; height: number },
+  options: { columns?: number; gap?: number; padding?: number; labelHeight?: number; headerHeight?: number } = {},
+): StoryboardLayout {
+  const gap = options.gap ?? 16
+  const padding = options.padding ?? 24
+  const labelHeight = options.labelHeight ?? 28
+  const headerHeight = options.headerHeight ?? 0
+  const columns = Math.max(1, Math.min(count, options.columns ?? Math.ceil(Math.sqrt(count))))
+  const rows = Math.max(1, Math.ceil(count / columns))
+  const cellHeight = labelHeight + field.height
+  const cells = Array.from({ length: count }, (_, index) => {
+    const x = padding + (index % columns) * (field.width + gap)
+    const top = padding + headerHeight + Math.floor(index / columns) * (cellHeight + gap)
+    return { index, x, y: top + labelHeight, labelY: top + labelHeight - 8 }
+  })
+  return {
+    columns,
+    rows,
+    width: padding * 2 + columns * field.width + (columns - 1) * gap,
+    height: padding * 2 + headerHeight + rows * cellHeight + (rows - 1) * gap,
+    cellWidth: field.width,
+    cellHeight,
+    cells,
+  }
+}
+
+export function pickVideoMimeType(isTypeSupported: (mimeType: string) => boolean): string | null {
+  return VIDEO_MIME_TYPES.find((mimeType) => isTypeSupported(mimeType)) ?? null
+}
+
+export function buildDiagramExportFileName(title: string | null | undefined, extension: string): string {
+  const slug = (title || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${slug || 'diagramme'}.${extension}`
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas indisponible sur ce navigateur')
+  return { canvas, context }
+}
+
+function loadSvgImage(markup: string): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }))
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Rendu du diagramme impossible'))
+    }
+    image.src = url
+  })
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Export image impossible'))), type)
+  })
+}
+
+function drawFrame(context: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) {
+  context.fillStyle = '#f8fff8'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(image, 0, 0, width, height)
+}
+
+async function rasterizeAnimation(
+  animation: DiagramAnimationFrame[],
+  size: { width: number; height: number },
+  renderMarkup: DiagramMarkupRenderer,
+  onProgress?: DiagramExportProgress,
+): Promise<HTMLImageElement[]> {
+  const images: HTMLImageElement[] = []
+  for (const frame of animation) {
+    images.push(await loadSvgImage(renderMarkup(frame.items, size)))
+    onProgress?.(images.length, animation.length)
+  }
+  return images
+}
+
+export async function exportDiagramGif(params: {
+  animation: DiagramAnimationFrame[]
+  size: { width: number; height: number }
+  renderMarkup: DiagramMarkupRenderer
+  onProgress?: DiagramExportProgress
+}): Promise<Blob> {
+  const { animation, size } = params
+  const images = await rasterizeAnimation(animation, size, params.renderMarkup, params.onProgress)
+  const { context } = createCanvas(size.width, size.height)
+  const readPixels = (image: HTMLImageElement) => {
+    drawFrame(context, image, size.width, size.height)
+    return context.getImageData(0, 0, size.width, size.height).data
+  }
+
+  const histogram = createColorHistogram()
+  images.forEach((image) => addPixelsToHistogram(histogram, readPixels(image)))
+  const palette = buildGifPalette(histogram)
+  const toIndexes = createPaletteMapper(palette)
+  const frames: GifFrame[] = images.map((image, index) => ({
+    indexedPixels: toIndexes(readPixels(image)),
+    delayMs: animation[index].delayMs,
+  }))
+  const bytes = encodeGif({ width: size.width, height: size.height, palette, frames })
+  return new Blob([bytes.buffer as ArrayBuffer], { type: 'image/gif' })
+}
+
+// MediaRecorder only records in real time: the pre-rendered frames are replayed on a canvas at their
+// own delays while the canvas stream is being recorded.
+export async function exportDiagramVideo(params: {
+  animation: DiagramAnimationFrame[]
+  size: { width: number; height: number }
+  renderMarkup: DiagramMarkupRenderer
+  onProgress?: DiagramExportProgress
+}): Promise<Blob> {
+  const { animation, size } = params
+  const mimeType = typeof MediaRecorder === 'undefined' ? null : pickVideoMimeType((type) => MediaRecorder.isTypeSupported(type))
+  if (!mimeType) throw new Error("L'export vidéo n'est pas pris en charge par ce navigateur")
+  const images = await rasterizeAnimation(animation, size, params.renderMarkup, params.onProgress)
+  const { canvas, context } = createCanvas(size.width, size.height)
+  drawFrame(context, images[0], size.width, size.height)
+
+  const stream = canvas.captureStream(DIAGRAM_EXPORT_FRAME_RATE)
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve()
+  })
+  recorder.start()
+  for (let index = 0; index < images.length; index += 1) {
+    drawFrame(context, images[index], size.width, size.height)
+    await new Promise((resolve) => window.setTimeout(resolve, animation[index].delayMs))
+  }
+  recorder.stop()
+  await stopped
+  stream.getTracks().forEach((track) => track.stop())
+  return new Blob(chunks, { type: mimeType.split(';')[0] })
+}
+
+export async function renderDiagramStoryboard(params: {
+  frames: DiagramFrame[]
+  field: { width: number; height: number }
+  title?: string
+  renderMarkup: DiagramMarkupRenderer
+}): Promise<HTMLCanvasElement> {
+  const { frames, field } = params
+  const headerHeight = params.title ? 40 : 0
+  const layout = layoutStoryboard(frames.length, field, { headerHeight })
+  const { canvas, context } = createCanvas(layout.width, layout.height)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, layout.width, layout.height)
+  context.textBaseline = 'alphabetic'
+  if (params.title) {
+    context.fillStyle = '#0f172a'
+    context.font = '700 24px Arial, sans-serif'
+    context.fillText(params.title, 24, 24 + 26)
+  }
+  for (const cell of layout.cells) {
+    const image = await loadSvgImage(params.renderMarkup(frames[cell.index].items, field))
+    context.fillStyle = '#334155'
+    context.font = '700 16px Arial, sans-serif'
+    context.fillText(`Étape ${cell.index + 1}`, cell.x, cell.labelY)
+    context.fillStyle = '#f8fff8'
+    context.fillRect(cell.x, cell.y, field.width, field.height)
+    context.drawImage(image, cell.x, cell.y, field.width, field.height)
+    context.strokeStyle = '#e5e7eb'
+    context.strokeRect(cell.x + 0.5, cell.y + 0.5, field.width - 1, field.height - 1)
+  }
+  return canvas
+}
+
+export function exportStoryboardPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return canvasToBlob(canvas, 'image/png')
+}
+
+// The PDF comes from the browser print dialog ("Enregistrer au format PDF"). The popup must be opened by the
+// click handler itself, before any await, or browsers block it.
+export function printStoryboard(popup: Window, canvas: HTMLCanvasElement, title: string): void {
+  const doc = popup.document
+  doc.title = title
+  const style = doc.createElement('style')
+  style.textContent = '@page { size: landscape; margin: 10mm; } body { margin: 0; } img { width: 100%; height: auto; }'
+  doc.head.appendChild(style)
+  const image = doc.createElement('img')
+  image.alt = title
+  image.onload = () => {
+    popup.focus()
+    popup.print()
+  }
+  image.src = canvas.toDataURL('image/png')
+  doc.body.appendChild(image)
+}
+
+// On phones the share sheet lets coaches send the file straight to WhatsApp; elsewhere it is downloaded.
+export async function shareOrDownloadFile(blob: Blob, fileName: string, title: string): Promise<void> {
+  const file = new File([blob], fileName, { type: blob.type })
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title })
+      return
+    } catch (err: unknown) {
+      if (err instanceof DOMException && err.name === 'AbortError') return
+    }
+  }
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { Drill } from '../types/api'
+import {
+  buildDrillForkPayload,
+  canEditDrill,
+  canForkDrill,
+  getDrillSourceStatus,
+  getDrillVisibility,
+  isDrillVisibleForTeam,
+  matchesDrillScope,
+} from './drillLibrary'
+
+function drill(overrides: Partial<Drill> = {}): Drill {
+  return {
+    id: 'd1',
+    title: 'Rondo 4c1',
+    category: 'Conservation',
+    duration: 15,
+    players: '5',
+    description: 'Garder le ballon',
+    tags: ['passe'],
+    ...overrides,
+  }
+}
+
+const coach = { role: 'COACH' as const, managedTeamIds: ['u11'] }
+const direction = { role: 'DIRECTION' as const, managedTeamIds: [] }
+
+describe('drill visibility', () => {
+  it('derives a scope for drills saved before visibility existed', () => {
+    expect(getDrillVisibility(drill({ teamId: 'u11' }))).toBe('TEAM')
+    expect(getDrillVisibility(drill({ teamId: null }))).toBe('CLUB')
+    expect(getDrillVisibility(drill({ teamId: 'u11', visibility: 'OFFICIAL' }))).toBe('OFFICIAL')
+  })
+
+  it('hides other teams private drills and filters by library scope', () => {
+    const privateU13 = drill({ teamId: 'u13', visibility: 'TEAM' })
+    const sharedU13 = drill({ teamId: 'u13', visibility: 'CLUB' })
+    expect(isDrillVisibleForTeam(privateU13, 'u11')).toBe(false)
+    expect(isDrillVisibleForTeam(privateU13, null)).toBe(true)
+    expect(isDrillVisibleForTeam(sharedU13, 'u11')).toBe(true)
+    expect(matchesDrillScope(sharedU13, 'club', 'u11')).toBe(true)
+    expect(matchesDrillScope(sharedU13, 'team', 'u11')).toBe(false)
+    expect(matchesDrillScope(drill({ visibility: 'OFFICIAL' }), 'official', 'u11')).toBe(true)
+  })
+
+  it('locks official drills and other teams drills for coaches', () => {
+    expect(canEditDrill(drill({ teamId: 'u11', visibility: 'CLUB' }), coach)).toBe(true)
+    expect(canEditDrill(drill({ teamId: 'u13', visibility: 'CLUB' }), coach)).toBe(false)
+    expect(canEditDrill(drill({ teamId: 'u11', visibility: 'OFFICIAL' }), coach)).toBe(false)
+    expect(canEditDrill(drill({ visibility: 'OFFICIAL' }), direction)).toBe(true)
+    expect(canEditDrill(drill(), { role: 'PARENT', managedTeamIds: [] })).toBe(false)
+  })
+})
+
+describe('drill forks', () => {
+  it('forks shared drills into another team with a link to the source', () => {
+    const source = drill({ id: 'src', teamId: null, visibility: 'OFFICIAL', updatedAt: '2026-09-01T10:00:00.000Z' })
+    expect(canForkDrill(source, 'u11')).toBe(true)
+    expect(canForkDrill(source, null)).toBe(false)
+    expect(canForkDrill(drill({ teamId: 'u11', visibility: 'CLUB' }), 'u11')).toBe(false)
+    expect(canForkDrill(drill({ teamId: 'u13', visibility: 'TEAM' }), 'u11')).toBe(false)
+
+    expect(buildDrillForkPayload(source, 'u11')).toEqual({
+      title: 'Rondo 4c1',
+      category: 'Conservation',
+      duration: 15,
+      players: '5',
+      description: 'Garder le ballon',
+      tags: ['passe'],
+      teamId: 'u11',
+      visibility: 'TEAM',
+      sourceDrillId: 'src',
+      sourceUpdatedAt: '2026-09-01T10:00:00.000Z',
+    })
+  })
+
+  it('reports when the source changed after the last sync', () => {
+    const source = drill({ id: 'src', visibility: 'CLUB', updatedAt: '2026-09-10T08:00:00.000Z' })
+    const fork = drill({ id: 'fork', sourceDrillId: 'src', sourceUpdatedAt: '2026-09-01T10:00:00.000Z' })
+    expect(getDrillSourceStatus(fork, [source, fork])).toEqual({ kind: 'changed', source, changedAt: '2026-09-10T08:00:00.000Z' })
+    expect(getDrillSourceStatus({ ...fork, sourceUpdatedAt: source.updatedAt }, [source]).kind).toBe('up-to-date')
+    expect(getDrillSourceStatus(fork, []).kind).toBe('missing')
+    expect(getDrillSourceStatus(source, [source]).kind).toBe('none')
+  })
+})
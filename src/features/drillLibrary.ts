@@ -0,0 +1,99 @@
+import type { AccountRole } from '../authz'
+import type { Drill, DrillVisibility } from '../types/api'
+
+export type DrillScopeFilter = 'all' | 'team' | 'club' | 'official'
+
+export type DrillActor = {
+  role: AccountRole
+  managedTeamIds: string[]
+}
+
+export type DrillSourceStatus =
+  | { kind: 'none' }
+  | { kind: 'missing' }
+  | { kind: 'up-to-date'; source: Drill }
+  | { kind: 'changed'; source: Drill; changedAt: string }
+
+export const DRILL_VISIBILITY_OPTIONS: Array<{ value: DrillVisibility; label: string; description: string }> = [
+  { value: 'TEAM', label: 'Équipe', description: "Visible uniquement par l'équipe" },
+  { value: 'CLUB', label: 'Club', description: 'Partagé avec tout le club' },
+  { value: 'OFFICIAL', label: 'Officiel', description: 'Bibliothèque officielle, verrouillée pour les coachs' },
+]
+
+export const DRILL_SCOPE_FILTERS: Array<{ value: DrillScopeFilter; label: string }> = [
+  { value: 'all', label: 'Tous' },
+  { value: 'team', label: 'Mon équipe' },
+  { value: 'club', label: 'Club' },
+  { value: 'official', label: 'Officiels' },
+]
+
+// Drills created before visibility existed: team drills stay private, drills without team were club-wide.
+export function getDrillVisibility(drill: Drill): DrillVisibility {
+  if (drill.visibility === 'TEAM' || drill.visibility === 'CLUB' || drill.visibility === 'OFFICIAL') return drill.visibility
+  return drill.teamId ? 'TEAM' : 'CLUB'
+}
+
+export function getDrillVisibilityLabel(drill: Drill): string {
+  const visibility = getDrillVisibility(drill)
+  return DRILL_VISIBILITY_OPTIONS.find((option) => option.value === visibility)?.label ?? visibility
+}
+
+// Without an active team (direction, all teams) every drill of the club is listed.
+export function isDrillVisibleForTeam(drill: Drill, teamId: string | null): boolean {
+  return !teamId || getDrillVisibility(drill) !== 'TEAM' || drill.teamId === teamId
+}
+
+export function matchesDrillScope(drill: Drill, filter: DrillScopeFilter, teamId: string | null): boolean {
+  const visibility = getDrillVisibility(drill)
+  if (filter === 'team') return visibility === 'TEAM' && (!teamId || drill.teamId === teamId)
+  if (filter === 'club') return visibility === 'CLUB'
+  if (filter === 'official') return visibility === 'OFFICIAL'
+  return true
+}
+
+// Coaches without managed teams are treated like useTeamScope does: not restricted to a team.
+function managesTeam(actor: DrillActor, teamId: string | null | undefined): boolean {
+  return !teamId || actor.managedTeamIds.length === 0 || actor.managedTeamIds.includes(teamId)
+}
+
+export function canEditDrill(drill: Drill, actor: DrillActor): boolean {
+  if (actor.role === 'DIRECTION') return true
+  if (actor.role !== 'COACH') return false
+  if (getDrillVisibility(drill) === 'OFFICIAL') return false
+  return managesTeam(actor, drill.teamId)
+}
+
+export function getAllowedDrillVisibilities(role: AccountRole): DrillVisibility[] {
+  return role === 'DIRECTION' ? ['TEAM', 'CLUB', 'OFFICIAL'] : ['TEAM', 'CLUB']
+}
+
+export function canForkDrill(drill: Drill, teamId: string | null): boolean {
+  return Boolean(teamId) && getDrillVisibility(drill) !== 'TEAM' && drill.teamId !== teamId
+}
+
+export function buildDrillForkPayload(source: Drill, teamId: string): Omit<Drill, 'id'> {
+  return {
+    title: source.title,
+    category: source.category,
+    duration: source.duration && source.duration > 0 ? source.duration : 1,
+    players: source.players?.trim() ? source.players : 'Variable',
+    description: source.description,
+    ...(source.descriptionHtml ? { descriptionHtml: source.descriptionHtml } : {}),
+    tags: source.tags,
+    teamId,
+    visibility: 'TEAM',
+    sourceDrillId: source.id,
+    sourceUpdatedAt: source.updatedAt ?? null,
+  }
+}
+
+export function getDrillSourceStatus(drill: Drill, drills: Drill[]): DrillSourceStatus {
+  if (!drill.sourceDrillId) return { kind: 'none' }
+  const source = drills.find((candidate) => candidate.id === drill.sourceDrillId)
+  if (!source) return { kind: 'missing' }
+  const sourceTime = source.updatedAt ? Date.parse(source.updatedAt) : Number.NaN
+  if (Number.isNaN(sourceTime)) return { kind: 'up-to-date', source }
+  const syncedTime = drill.sourceUpdatedAt ? Date.parse(drill.sourceUpdatedAt) : Number.NaN
+  if (Number.isNaN(syncedTime) || sourceTime > syncedTime) return { kind: 'changed', source, changedAt: source.updatedAt as string }
+  return { kind: 'up-to-date', source }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import type { Drill } from '../types/api'
+import {
+  buildDrillExportEntry,
+  buildDrillExportFile,
+  buildDrillExportFileName,
+  buildDrillImportPayload,
+  detectDrillImportDuplicates,
+  getDefaultDrillImportAction,
+  parseDrillExportFile,
+  suggestLabelMapping,
+} from './drillTransfer'
+
+function drill(overrides: Partial<Drill> = {}): Drill {
+  return {
+    id: 'd1',
+    title: 'Rondo 4c1',
+    category: 'Conservation',
+    duration: 15,
+    players: '5',
+    description: 'Garder le ballon',
+    tags: ['passe'],
+    ...overrides,
+  }
+}
+
+const diagram = { frames: [{ id: 'f1', name: 'Etape 1', items: [{ type: 'ball', id: 'b1', x: 10, y: 20 }] }], fps: 2 }
+
+describe('drill export', () => {
+  it('round-trips drills and their diagram through the versioned file', () => {
+    const file = buildDrillExportFile(
+      [buildDrillExportEntry(drill(), diagram), buildDrillExportEntry(drill({ title: 'Passes' }), null)],
+      new Date('2026-10-01T08:00:00.000Z'),
+    )
+    expect(file).toMatchObject({ format: 'izifoot-drills', version: 1, exportedAt: '2026-10-01T08:00:00.000Z' })
+    expect(file.drills[1].diagram).toBeNull()
+
+    const parsed = parseDrillExportFile(JSON.stringify(file))
+    expect(parsed.warnings).toEqual([])
+    expect(parsed.drills[0]).toMatchObject({ title: 'Rondo 4c1', category: 'Conservation', tags: ['passe'] })
+    expect(parsed.drills[0].diagram?.frames[0].items).toEqual(diagram.frames[0].items)
+  })
+
+  it('names the file after the drill or the export date', () => {
+    const date = new Date('2026-10-01T08:00:00.000Z')
+    expect(buildDrillExportFileName([drill({ title: 'Rondo à 4' })], date)).toBe('rondo-a-4.izifoot.json')
+    expect(buildDrillExportFileName([drill(), drill()], date)).toBe('exercices-2026-10-01.izifoot.json')
+  })
+})
+
+describe('drill import', () => {
+  it('rejects foreign or newer files and skips invalid entries with warnings', () => {
+    expect(() => parseDrillExportFile('not json')).toThrow(/JSON/)
+    expect(() => parseDrillExportFile(JSON.stringify({ format: 'other', version: 1, drills: [] }))).toThrow(/export/)
+    expect(() => parseDrillExportFile(JSON.stringify({ format: 'izifoot-drills', version: 2, drills: [] }))).toThrow(/v2/)
+
+    const parsed = parseDrillExportFile(JSON.stringify({
+      format: 'izifoot-drills',
+      version: 1,
+      drills: [
+        { title: '  ' },
+        { title: 'Jeu réduit', duration: -3, tags: ['Passe', 'passe', 4], diagram: { frames: 'broken' } },
+      ],
+    }))
+    expect(parsed.warnings).toHaveLength(2)
+    expect(parsed.drills).toEqual([{
+      title: 'Jeu réduit',
+      category: 'Sans catégorie',
+      duration: 1,
+      players: 'Variable',
+      description: '',
+      tags: ['Passe'],
+      diagram: null,
+    }])
+  })
+
+  it('flags duplicate titles against the library and inside the file', () => {
+    const entries = [drill({ title: 'rondo 4C1 ' }), drill({ title: 'Passes' }), drill({ title: 'Passes' })]
+      .map((item) => buildDrillExportEntry(item, null))
+    const rows = detectDrillImportDuplicates(entries, [drill({ id: 'existing' })])
+    expect(rows.map((row) => [row.duplicateOf?.id ?? null, row.duplicateInFile])).toEqual([
+      ['existing', false],
+      [null, false],
+      [null, true],
+    ])
+    expect(rows.map(getDefaultDrillImportAction)).toEqual(['skip', 'create', 'skip'])
+  })
+
+  it('maps categories and tags and renames imported copies', () => {
+    expect(suggestLabelMapping(['conservation', 'Jeu'], ['Conservation'])).toEqual({ conservation: 'Conservation', Jeu: 'Jeu' })
+
+    const entry = buildDrillExportEntry(drill({ category: 'conservation', tags: ['passe', 'Pressing'] }), null)
+    const takenTitles = new Set(['rondo 4c1', 'rondo 4c1 (import)'])
+    const payload = buildDrillImportPayload(entry, {
+      action: 'copy',
+      categoryMap: { Conservation: 'Possession' },
+      tagMap: { Passe: 'Passes', pressing: '' },
+      teamId: 'u11',
+      visibility: 'TEAM',
+      takenTitles,
+    })
+    expect(payload).toMatchObject({
+      title: 'Rondo 4c1 (import 2)',
+      category: 'Possession',
+      tags: ['Passes'],
+      teamId: 'u11',
+      visibility: 'TEAM',
+    })
+    expect(takenTitles.has('rondo 4c1 (import 2)')).toBe(true)
+  })
+})
@@ -0,0 +1,212 @@
+import { hasDiagramContent, normalizeDiagramData, type DiagramData } from '../components/diagramShared'
+import type { Drill, DrillVisibility } from '../types/api'
+import { buildDiagramExportFileName } from './diagramExport'
+
+export const DRILL_EXPORT_FORMAT = 'izifoot-drills'
+export const DRILL_EXPORT_VERSION = 1
+export const DRILL_EXPORT_MIME_TYPE = 'application/json'
+
+const DEFAULT_IMPORT_CATEGORY = 'Sans catégorie'
+
+export type DrillExportEntry = {
+  title: string
+  category: string
+  duration: number
+  players: string
+  description: string
+  descriptionHtml?: string
+  tags: string[]
+  diagram: DiagramData | null
+}
+
+export type DrillExportFile = {
+  format: typeof DRILL_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  drills: DrillExportEntry[]
+}
+
+export type DrillImportParseResult = {
+  drills: DrillExportEntry[]
+  warnings: string[]
+}
+
+export type DrillImportAction = 'create' | 'copy' | 'skip'
+
+export type DrillImportRow = {
+  entry: DrillExportEntry
+  duplicateOf: Drill | null
+  duplicateInFile: boolean
+}
+
+export type DrillImportOptions = {
+  action: Exclude<DrillImportAction, 'skip'>
+  categoryMap: Record<string, string>
+  tagMap: Record<string, string>
+  teamId: string | null
+  visibility: DrillVisibility
+  takenTitles: Set<string>
+}
+
+// Case, accent and spacing insensitive key used for duplicate titles and category/tag matching.
+export function toDrillMatchKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function uniqueLabels(values: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const value of values) {
+    const label = value.trim()
+    const key = toDrillMatchKey(label)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    result.push(label)
+  }
+  return result
+}
+
+export function buildDrillExportEntry(drill: Drill, diagramData: unknown): DrillExportEntry {
+  const diagram = diagramData == null ? null : normalizeDiagramData(diagramData)
+  return {
+    title: drill.title,
+    category: drill.category,
+    duration: drill.duration,
+    players: drill.players,
+    description: drill.description,
+    ...(drill.descriptionHtml ? { descriptionHtml: drill.descriptionHtml } : {}),
+    tags: drill.tags,
+    diagram: diagram && hasDiagramContent(diagram) ? diagram : null,
+  }
+}
+
+export function buildDrillExportFile(drills: DrillExportEntry[], exportedAt: Date = new Date()): DrillExportFile {
+  return {
+    format: DRILL_EXPORT_FORMAT,
+    version: DRILL_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    drills,
+  }
+}
+
+export function buildDrillExportFileName(drills: Array<Pick<Drill, 'title'>>, exportedAt: Date = new Date()): string {
+  if (drills.length === 1) return buildDiagramExportFileName(drills[0].title, 'izifoot.json')
+  return `exercices-${exportedAt.toISOString().slice(0, 10)}.izifoot.json`
+}
+
+function parseEntry(input: unknown, index: number, warnings: string[]): DrillExportEntry | null {
+  if (!input || typeof input !== 'object') {
+    warnings.push(`Exercice n°${index + 1} ignoré : format invalide.`)
+    return null
+  }
+  const raw = input as Record<string, unknown>
+  const title = typeof raw.title === 'string' ? raw.title.trim() : ''
+  if (!title) {
+    warnings.push(`Exercice n°${index + 1} ignoré : titre manquant.`)
+    return null
+  }
+  const duration = Number(raw.duration)
+  const diagram = raw.diagram == null ? null : normalizeDiagramData(raw.diagram)
+  if (raw.diagram != null && (!diagram || !hasDiagramContent(diagram))) {
+    warnings.push(`« ${title} » : diagramme vide ou illisible, importé sans diagramme.`)
+  }
+  return {
+    title,
+    category: typeof raw.category === 'string' && raw.category.trim() ? raw.category.trim() : DEFAULT_IMPORT_CATEGORY,
+    duration: Number.isFinite(duration) && duration > 0 ? Math.round(duration) : 1,
+    players: typeof raw.players === 'string' && raw.players.trim() ? raw.players.trim() : 'Variable',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    ...(typeof raw.descriptionHtml === 'string' && raw.descriptionHtml.trim() ? { descriptionHtml: raw.descriptionHtml } : {}),
+    tags: Array.isArray(raw.tags) ? uniqueLabels(raw.tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+    diagram: diagram && hasDiagramContent(diagram) ? diagram : null,
+  }
+}
+
+// Fatal problems (not JSON, another format, newer version) throw; invalid entries are skipped with a warning.
+export function parseDrillExportFile(text: string): DrillImportParseResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Fichier illisible : ce n’est pas un fichier JSON valide.')
+  }
+  const file = parsed && typeof parsed === 'object' ? parsed as Partial<DrillExportFile> : null
+  if (!file || file.format !== DRILL_EXPORT_FORMAT) {
+    throw new Error('Ce fichier n’est pas un export d’exercices izifoot.')
+  }
+  const version = Number(file.version)
+  if (!Number.isInteger(version) || version < 1) throw new Error('Version du fichier manquante ou invalide.')
+  if (version > DRILL_EXPORT_VERSION) {
+    throw new Error(`Ce fichier a été exporté avec une version plus récente (v${version}). Mettez l’application à jour pour l’importer.`)
+  }
+  if (!Array.isArray(file.drills)) throw new Error('Le fichier ne contient aucune liste d’exercices.')
+
+  const warnings: string[] = []
+  const drills = file.drills
+    .map((entry, index) => parseEntry(entry, index, warnings))
+    .filter((entry): entry is DrillExportEntry => entry !== null)
+  return { drills, warnings }
+}
+
+export function detectDrillImportDuplicates(entries: DrillExportEntry[], existing: Drill[]): DrillImportRow[] {
+  const existingByKey = new Map(existing.map((drill) => [toDrillMatchKey(drill.title), drill]))
+  const seenInFile = new Set<string>()
+  return entries.map((entry) => {
+    const key = toDrillMatchKey(entry.title)
+    const duplicateInFile = seenInFile.has(key)
+    seenInFile.add(key)
+    return { entry, duplicateOf: existingByKey.get(key) ?? null, duplicateInFile }
+  })
+}
+
+export function getDefaultDrillImportAction(row: DrillImportRow): DrillImportAction {
+  return row.duplicateOf || row.duplicateInFile ? 'skip' : 'create'
+}
+
+// Imported labels default to the existing label with the same key so "Conservation" and "conservation " merge.
+export function suggestLabelMapping(imported: string[], known: string[]): Record<string, string> {
+  const knownByKey = new Map(known.map((label) => [toDrillMatchKey(label), label]))
+  return Object.fromEntries(uniqueLabels(imported).map((label) => [label, knownByKey.get(toDrillMatchKey(label)) ?? label]))
+}
+
+// Mappings are keyed by the first spelling met in the file, other spellings of the same label follow it.
+function mapLabel(mapping: Record<string, string>, label: string): string {
+  if (label in mapping) return mapping[label]
+  const key = toDrillMatchKey(label)
+  const match = Object.keys(mapping).find((candidate) => toDrillMatchKey(candidate) === key)
+  return match === undefined ? label : mapping[match]
+}
+
+export function buildImportCopyTitle(title: string, takenTitles: Set<string>): string {
+  let attempt = 1
+  let candidate = `${title} (import)`
+  while (takenTitles.has(toDrillMatchKey(candidate))) {
+    attempt += 1
+    candidate = `${title} (import ${attempt})`
+  }
+  return candidate
+}
+
+// An empty tag mapping drops the tag; `takenTitles` is updated so later copies get distinct titles.
+export function buildDrillImportPayload(entry: DrillExportEntry, options: DrillImportOptions): Omit<Drill, 'id'> {
+  const title = options.action === 'copy' ? buildImportCopyTitle(entry.title, options.takenTitles) : entry.title
+  options.takenTitles.add(toDrillMatchKey(title))
+  const category = mapLabel(options.categoryMap, entry.category).trim() || entry.category
+  const tags = uniqueLabels(entry.tags.map((tag) => mapLabel(options.tagMap, tag)))
+  return {
+    title,
+    category,
+    duration: entry.duration,
+    players: entry.players,
+    description: entry.description,
+    ...(entry.descriptionHtml ? { descriptionHtml: entry.descriptionHtml } : {}),
+    tags,
+    teamId: options.teamId,
+    visibility: options.visibility,
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { addPixelsToHistogram, buildGifPalette, createColorHistogram, createPaletteMapper, encodeGif, lzwEncode } from './gifEncoder'
+
+// Reference GIF LZW decoder, only used to check the encoder output.
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let table: number[][] = []
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, index) => [index])
+    codeSize = minCodeSize + 1
+  }
+  reset()
+  const out: number[] = []
+  let previous: number[] | null = null
+  let bitPos = 0
+  while (bitPos + codeSize <= data.length * 8) {
+    let code = 0
+    for (let bit = 0; bit < codeSize; bit += 1) {
+      const position = bitPos + bit
+      code |= ((data[position >> 3] >> (position & 7)) & 1) << bit
+    }
+    bitPos += codeSize
+    if (code === clearCode) {
+      reset()
+      previous = null
+      continue
+    }
+    if (code === endCode) break
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]]
+    out.push(...entry)
+    if (previous) table.push([...previous, entry[0]])
+    previous = entry
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize += 1
+  }
+  return out
+}
+
+describe('lzwEncode', () => {
+  it('round-trips repetitive and noisy index streams, including dictionary resets', () => {
+    const repetitive = Uint8Array.from({ length: 5000 }, (_, index) => (index % 7 < 5 ? 0 : 3))
+    expect(lzwDecode(lzwEncode(repetitive, 2), 2)).toEqual(Array.from(repetitive))
+
+    let seed = 7
+    const noisy = Uint8Array.from({ length: 20000 }, () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return seed % 256
+    })
+    expect(lzwDecode(lzwEncode(noisy, 8), 8)).toEqual(Array.from(noisy))
+  })
+})
+
+describe('GIF palette and encoding', () => {
+  it('keeps the dominant colours and maps pixels to the nearest one', () => {
+    const rgba = new Uint8ClampedArray([
+      255, 255, 255, 255,
+      255, 255, 255, 255,
+      255, 255, 255, 255,
+      59, 130, 246, 255,
+      60, 131, 245, 255,
+    ])
+    const histogram = createColorHistogram()
+    addPixelsToHistogram(histogram, rgba)
+    const palette = buildGifPalette(histogram)
+    expect(palette.length).toBe(6)
+    expect(Array.from(palette.slice(0, 3))).toEqual([255, 255, 255])
+    expect(Array.from(createPaletteMapper(palette)(rgba))).toEqual([0, 0, 0, 1, 1])
+  })
+
+  it('writes a looping GIF89a with one image per frame', () => {
+    const palette = Uint8Array.from([255, 255, 255, 0, 0, 0])
+    const gif = encodeGif({
+      width: 3,
+      height: 2,
+      palette,
+      frames: [
+        { indexedPixels: Uint8Array.from([0, 1, 0, 1, 0, 1]), delayMs: 500 },
+        { indexedPixels: Uint8Array.from([1, 1, 1, 0, 0, 0]), delayMs: 80 },
+      ],
+    })
+    expect(new TextDecoder().decode(gif.slice(0, 6))).toBe('GIF89a')
+    expect(gif[6] | (gif[7] << 8)).toBe(3)
+    expect(gif[8] | (gif[9] << 8)).toBe(2)
+    expect(new TextDecoder().decode(gif)).toContain('NETSCAPE2.0')
+    expect(gif.filter((byte, index) => byte === 0xf9 && gif[index - 1] === 0x21).length).toBe(2)
+    expect(gif[gif.length - 1]).toBe(0x3b)
+  })
+})
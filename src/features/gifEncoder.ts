@@ -0,0 +1,203 @@
+// Minimal GIF89a encoder (global palette, LZW, looping animation). Enough for flat-colour drill diagrams
+// without shipping an encoder dependency.
+
+const HISTOGRAM_BUCKETS = 1 << 15
+const MAX_LZW_CODES = 4096
+
+export type GifColorHistogram = {
+  counts: Uint32Array
+  red: Float64Array
+  green: Float64Array
+  blue: Float64Array
+}
+
+export type GifFrame = {
+  // One palette index per pixel, row by row.
+  indexedPixels: Uint8Array
+  delayMs: number
+}
+
+function bucketOf(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+}
+
+export function createColorHistogram(): GifColorHistogram {
+  return {
+    counts: new Uint32Array(HISTOGRAM_BUCKETS),
+    red: new Float64Array(HISTOGRAM_BUCKETS),
+    green: new Float64Array(HISTOGRAM_BUCKETS),
+    blue: new Float64Array(HISTOGRAM_BUCKETS),
+  }
+}
+
+// Colours are grouped on 5 bits per channel; alpha is ignored (frames are drawn on an opaque background).
+export function addPixelsToHistogram(histogram: GifColorHistogram, rgba: Uint8ClampedArray): void {
+  for (let i = 0; i < rgba.length; i += 4) {
+    const bucket = bucketOf(rgba[i], rgba[i + 1], rgba[i + 2])
+    histogram.counts[bucket] += 1
+    histogram.red[bucket] += rgba[i]
+    histogram.green[bucket] += rgba[i + 1]
+    histogram.blue[bucket] += rgba[i + 2]
+  }
+}
+
+// Most frequent colours first, padded to a power of two as the GIF colour table requires.
+export function buildGifPalette(histogram: GifColorHistogram, maxColors = 256): Uint8Array {
+  const buckets: number[] = []
+  for (let bucket = 0; bucket < HISTOGRAM_BUCKETS; bucket += 1) {
+    if (histogram.counts[bucket] > 0) buckets.push(bucket)
+  }
+  buckets.sort((a, b) => histogram.counts[b] - histogram.counts[a])
+  const kept = buckets.slice(0, Math.max(2, Math.min(256, maxColors)))
+  let size = 2
+  while (size < kept.length) size *= 2
+  const palette = new Uint8Array(size * 3)
+  kept.forEach((bucket, index) => {
+    const count = histogram.counts[bucket]
+    palette[index * 3] = Math.round(histogram.red[bucket] / count)
+    palette[index * 3 + 1] = Math.round(histogram.green[bucket] / count)
+    palette[index * 3 + 2] = Math.round(histogram.blue[bucket] / count)
+  })
+  return palette
+}
+
+// Returns a mapper from RGBA pixels to palette indexes. Nearest colours are cached per bucket, so the
+// mapper should be reused across the frames of one animation.
+export function createPaletteMapper(palette: Uint8Array): (rgba: Uint8ClampedArray) => Uint8Array {
+  const cache = new Int16Array(HISTOGRAM_BUCKETS).fill(-1)
+  const colorCount = palette.length / 3
+
+  function nearest(r: number, g: number, b: number): number {
+    let best = 0
+    let bestDistance = Number.POSITIVE_INFINITY
+    for (let index = 0; index < colorCount; index += 1) {
+      const dr = palette[index * 3] - r
+      const dg = palette[index * 3 + 1] - g
+      const db = palette[index * 3 + 2] - b
+      const distance = dr * dr + dg * dg + db * db
+      if (distance < bestDistance) {
+        best = index
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  return (rgba) => {
+    const indexed = new Uint8Array(rgba.length / 4)
+    for (let i = 0, pixel = 0; i < rgba.length; i += 4, pixel += 1) {
+      const bucket = bucketOf(rgba[i], rgba[i + 1], rgba[i + 2])
+      let index = cache[bucket]
+      if (index < 0) {
+        index = nearest(rgba[i], rgba[i + 1], rgba[i + 2])
+        cache[bucket] = index
+      }
+      indexed[pixel] = index
+    }
+    return indexed
+  }
+}
+
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const out: number[] = []
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let dictionary = new Map<number, number>()
+  let bitBuffer = 0
+  let bitCount = 0
+
+  function write(code: number) {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  write(clearCode)
+  if (indices.length === 0) {
+    write(endCode)
+  } else {
+    let prefix = indices[0]
+    for (let i = 1; i < indices.length; i += 1) {
+      const value = indices[i]
+      const key = prefix * 256 + value
+      const existing = dictionary.get(key)
+      if (existing !== undefined) {
+        prefix = existing
+        continue
+      }
+      write(prefix)
+      if (nextCode < MAX_LZW_CODES) {
+        dictionary.set(key, nextCode)
+        nextCode += 1
+        if (nextCode > (1 << codeSize) && codeSize < 12) codeSize += 1
+      } else {
+        write(clearCode)
+        dictionary = new Map()
+        codeSize = minCodeSize + 1
+        nextCode = endCode + 1
+      }
+      prefix = value
+    }
+    write(prefix)
+    write(endCode)
+  }
+  if (bitCount > 0) out.push(bitBuffer & 0xff)
+  return Uint8Array.from(out)
+}
+
+export function encodeGif(params: { width: number; height: number; palette: Uint8Array; frames: GifFrame[]; loop?: boolean }): Uint8Array {
+  const { width, height, palette, frames } = params
+  const bytes: number[] = []
+  const colorCount = palette.length / 3
+  const tableBits = Math.max(1, Math.round(Math.log2(colorCount)))
+  const minCodeSize = Math.max(2, tableBits)
+
+  const pushWord = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff)
+  const pushText = (value: string) => {
+    for (const char of value) bytes.push(char.charCodeAt(0))
+  }
+
+  pushText('GIF89a')
+  pushWord(width)
+  pushWord(height)
+  bytes.push(0x80 | ((tableBits - 1) << 4) | (tableBits - 1), 0, 0)
+  palette.forEach((value) => bytes.push(value))
+
+  if (params.loop !== false) {
+    bytes.push(0x21, 0xff, 0x0b)
+    pushText('NETSCAPE2.0')
+    bytes.push(0x03, 0x01)
+    pushWord(0)
+    bytes.push(0x00)
+  }
+
+  frames.forEach((frame) => {
+    // Graphic control extension: "do not dispose", delay in hundredths of a second.
+    bytes.push(0x21, 0xf9, 0x04, 0x04)
+    pushWord(Math.max(2, Math.round(frame.delayMs / 10)))
+    bytes.push(0x00, 0x00)
+
+    bytes.push(0x2c)
+    pushWord(0)
+    pushWord(0)
+    pushWord(width)
+    pushWord(height)
+    bytes.push(0x00, minCodeSize)
+    const data = lzwEncode(frame.indexedPixels, minCodeSize)
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const chunk = data.subarray(offset, offset + 255)
+      bytes.push(chunk.length)
+      chunk.forEach((value) => bytes.push(value))
+    }
+    bytes.push(0x00)
+  })
+
+  bytes.push(0x3b)
+  return Uint8Array.from(bytes)
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import type { Matchday, Training } from '../types/api'
+import {
+  buildCalendarEvents,
+  buildCalendarFileName,
+  buildICalendar,
+  matchdayToCalendarEvent,
+  toWebcalUrl,
+  trainingToCalendarEvent,
+} from './icalendar'
+
+function training(overrides: Partial<Training> = {}): Training {
+  return { id: 't1', date: new Date(2026, 9, 20, 18, 0).toISOString(), endTime: '19:30', status: 'PLANNED', teamId: 'u11', ...overrides }
+}
+
+function matchday(overrides: Partial<Matchday> = {}): Matchday {
+  return { id: 'm1', date: new Date(2026, 9, 24).toISOString(), lieu: 'Stade Jean Bouin', teamId: 'u11', competitionType: 'PLATEAU', ...overrides }
+}
+
+const teamNames = new Map([['u11', 'U11']])
+
+describe('calendar events', () => {
+  it('uses the training end time, or 1h30 when it is missing', () => {
+    const event = trainingToCalendarEvent(training(), teamNames)
+    expect(event).toMatchObject({ uid: 'training-t1@izifoot', summary: 'Entraînement — U11', cancelled: false })
+    expect(event?.end).toEqual(new Date(2026, 9, 20, 19, 30))
+    expect(trainingToCalendarEvent(training({ endTime: null }))?.end).toEqual(new Date(2026, 9, 20, 19, 30))
+    expect(trainingToCalendarEvent(training({ status: 'CANCELLED' }))?.cancelled).toBe(true)
+  })
+
+  it('titles matchdays with their competition type and uses the address as location', () => {
+    const event = matchdayToCalendarEvent(matchday({ startTime: '14:00', meetingTime: '13:30', address: '12 rue du Stade, Paris' }))
+    expect(event).toMatchObject({
+      summary: 'Plateau — Stade Jean Bouin',
+      location: '12 rue du Stade, Paris',
+      description: 'Rendez-vous: 13:30',
+      allDay: false,
+    })
+    expect(event?.start).toEqual(new Date(2026, 9, 24, 14, 0))
+    expect(matchdayToCalendarEvent(matchday({ competitionType: 'MATCH', matchVenue: 'HOME', lieu: '' }))).toMatchObject({
+      summary: 'Match — À domicile',
+      allDay: true,
+      location: null,
+    })
+  })
+
+  it('keeps one team and sorts by start', () => {
+    const events = buildCalendarEvents(
+      {
+        trainings: [training({ id: 'late', date: new Date(2026, 9, 27, 18).toISOString() }), training({ id: 'other', teamId: 'u13' })],
+        matchdays: [matchday()],
+      },
+      { teamId: 'u11' },
+    )
+    expect(events.map((event) => event.uid)).toEqual(['matchday-m1@izifoot', 'training-late@izifoot'])
+  })
+})
+
+describe('iCalendar output', () => {
+  it('writes cancelled sessions as cancelled events with escaped and folded lines', () => {
+    const ics = buildICalendar(
+      [
+        trainingToCalendarEvent(training({ status: 'CANCELLED' }))!,
+        matchdayToCalendarEvent(matchday({ address: 'Complexe sportif, 1 avenue des Sports; entrée B, Saint-Germain-en-Laye 78100 France' }))!,
+      ],
+      'U11',
+      new Date('2026-10-01T08:00:00.000Z'),
+    )
+    const lines = ics.split('\r\n')
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines).toContain('DTSTAMP:20261001T080000Z')
+    expect(lines).toContain('STATUS:CANCELLED')
+    expect(lines).toContain('SUMMARY:Annulé · Entraînement')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20261024')
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true)
+    expect(ics.replace(/\r\n /g, '')).toContain('LOCATION:Complexe sportif\\, 1 avenue des Sports\\; entrée B\\, Saint-Germain-en-Laye 78100 France')
+  })
+
+  it('builds file names and subscription links', () => {
+    expect(buildCalendarFileName('Planning U11 Féminines')).toBe('planning-u11-feminines.ics')
+    expect(toWebcalUrl('https://api.izifoot.fr/public/calendar/abc.ics')).toBe('webcal://api.izifoot.fr/public/calendar/abc.ics')
+  })
+})
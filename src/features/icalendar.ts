@@ -0,0 +1,204 @@
+import { apiRoutes } from '../apiRoutes'
+import type { CalendarFeedShare, Matchday, Training } from '../types/api'
+import { formatMatchdayLocationLabel, normalizeCompetitionType } from './matchdayLocation'
+
+export const ICALENDAR_MIME_TYPE = 'text/calendar;charset=utf-8'
+
+// Used when the session has no end time: trainings last 1h30, a match 2h, a plateau or tournament an afternoon.
+const DEFAULT_TRAINING_MINUTES = 90
+const DEFAULT_MATCH_MINUTES = 120
+const DEFAULT_COMPETITION_MINUTES = 240
+
+export type CalendarEvent = {
+  uid: string
+  start: Date
+  end: Date
+  // No known start time: exported as a whole-day event.
+  allDay: boolean
+  summary: string
+  location: string | null
+  description: string | null
+  cancelled: boolean
+}
+
+type CalendarTeamNames = Map<string, string> | null
+
+function competitionTypeLabel(type?: string | null) {
+  const normalized = normalizeCompetitionType(type)
+  if (normalized === 'MATCH') return 'Match'
+  if (normalized === 'TOURNOI') return 'Tournoi'
+  return 'Plateau'
+}
+
+function parseTime(value?: string | null): [number, number] | null {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value?.trim() || '')
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours < 24 && minutes < 60 ? [hours, minutes] : null
+}
+
+function atTime(day: Date, time: [number, number]) {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), time[0], time[1])
+}
+
+function addMinutes(date: Date, minutes: number) {
+  return new Date(date.getTime() + minutes * 60_000)
+}
+
+function withTeamName(label: string, teamId: string | null | undefined, teamNames: CalendarTeamNames) {
+  const teamName = teamId ? teamNames?.get(teamId) : null
+  return teamName ? `${label} — ${teamName}` : label
+}
+
+export function trainingToCalendarEvent(training: Training, teamNames: CalendarTeamNames = null): CalendarEvent | null {
+  const start = new Date(training.date)
+  if (Number.isNaN(start.getTime())) return null
+  const endTime = parseTime(training.endTime)
+  const sameDayEnd = endTime ? atTime(start, endTime) : null
+  return {
+    uid: `training-${training.id}@izifoot`,
+    start,
+    end: sameDayEnd && sameDayEnd > start ? sameDayEnd : addMinutes(start, DEFAULT_TRAINING_MINUTES),
+    allDay: false,
+    summary: withTeamName('Entraînement', training.teamId, teamNames),
+    location: null,
+    description: null,
+    cancelled: training.status === 'CANCELLED',
+  }
+}
+
+export function matchdayToCalendarEvent(matchday: Matchday, teamNames: CalendarTeamNames = null): CalendarEvent | null {
+  const day = new Date(matchday.date)
+  if (Number.isNaN(day.getTime())) return null
+  const startTime = parseTime(matchday.startTime)
+  const hasDateTime = day.getHours() !== 0 || day.getMinutes() !== 0
+  const start = startTime ? atTime(day, startTime) : day
+  const type = normalizeCompetitionType(matchday.competitionType)
+  const locationLabel = formatMatchdayLocationLabel(matchday, '')
+  const meetingTime = parseTime(matchday.meetingTime)
+  return {
+    uid: `matchday-${matchday.id}@izifoot`,
+    start,
+    end: addMinutes(start, type === 'MATCH' ? DEFAULT_MATCH_MINUTES : DEFAULT_COMPETITION_MINUTES),
+    allDay: !startTime && !hasDateTime,
+    summary: withTeamName(
+      locationLabel ? `${competitionTypeLabel(type)} — ${locationLabel}` : competitionTypeLabel(type),
+      matchday.teamId,
+      teamNames,
+    ),
+    location: matchday.address?.trim() || matchday.lieu?.trim() || null,
+    description: meetingTime ? `Rendez-vous: ${matchday.meetingTime?.trim().slice(0, 5)}` : null,
+    cancelled: false,
+  }
+}
+
+// `teamId` restricts the calendar to one team; sessions without team stay in, as on the planning page.
+export function buildCalendarEvents(
+  source: { trainings: Training[]; matchdays: Matchday[] },
+  options: { teamId?: string | null; teamNames?: CalendarTeamNames } = {},
+): CalendarEvent[] {
+  const inScope = (teamId?: string | null) => !options.teamId || !teamId || teamId === options.teamId
+  const teamNames = options.teamNames ?? null
+  const events = [
+    ...source.trainings.filter((training) => inScope(training.teamId)).map((training) => trainingToCalendarEvent(training, teamNames)),
+    ...source.matchdays.filter((matchday) => inScope(matchday.teamId)).map((matchday) => matchdayToCalendarEvent(matchday, teamNames)),
+  ]
+  return events
+    .filter((event): event is CalendarEvent => event !== null)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatLocalDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}${month}${day}`
+}
+
+// RFC 5545 lines are limited to 75 octets; continuation lines start with a space.
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function buildEventLines(event: CalendarEvent, stamp: string) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...(event.allDay
+      ? [
+          `DTSTART;VALUE=DATE:${formatLocalDate(event.start)}`,
+          `DTEND;VALUE=DATE:${formatLocalDate(new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate() + 1))}`,
+        ]
+      : [`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`]),
+    `SUMMARY:${escapeText(event.cancelled ? `Annulé · ${event.summary}` : event.summary)}`,
+  ]
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  // Cancelled sessions stay in the feed so subscribed calendars mark their copy as cancelled.
+  lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT')
+  return lines
+}
+
+export function buildICalendar(events: CalendarEvent[], calendarName: string, now: Date = new Date()): string {
+  const stamp = formatUtc(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//izifoot//Planning//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event) => buildEventLines(event, stamp)),
+    'END:VCALENDAR',
+  ]
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
+
+export function buildCalendarFileName(calendarName: string): string {
+  const slug = calendarName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'planning'}.ics`
+}
+
+export function resolveCalendarFeedUrl(feed: CalendarFeedShare, apiBase: string): string {
+  const url = feed.url?.trim()
+  if (url && /^https?:\/\//.test(url)) return url
+  return `${apiBase}${url || apiRoutes.public.calendarByToken(feed.token)}`
+}
+
+// Calendar apps open `webcal://` links as a subscription instead of a one-off import.
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://')
+}
@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from 'vitest'
+import { HttpError } from '../http'
+import { apiRoutes } from '../apiRoutes'
+import {
+  countPendingLiveMatchChanges,
+  enqueueLiveMatchEvent,
+  enqueueLiveMatchState,
+  fetchRemoteLiveMatchState,
+  loadLiveMatchStates,
+  mergeLiveMatchEvents,
+  normalizeLiveMatchState,
+  reconcileLiveMatchState,
+  resolveLiveMatchClock,
+  setPersistedLiveMatchState,
+  syncLiveMatchState,
+  validateLiveMatchStates,
+  type PersistedLiveMatchState,
+} from './liveMatchSync'
+
+function createStorageStub() {
+  const values = new Map<string, string>()
+  return {
+    getItem(key: string) {
+      return values.has(key) ? values.get(key)! : null
+    },
+    setItem(key: string, value: string) {
+      values.set(key, value)
+    },
+    removeItem(key: string) {
+      values.delete(key)
+    },
+  }
+}
+
+function liveState(overrides: Partial<PersistedLiveMatchState> = {}): PersistedLiveMatchState {
+  return {
+    isOpen: true,
+    phase: 'running',
+    durationMinutes: 10,
+    remainingSeconds: 300,
+    homeScore: 0,
+    awayScore: 0,
+    events: [],
+    slotAssignments: { gk: 'p1' },
+    homeStarters: ['p1'],
+    homeSubs: ['p2'],
+    scorers: [],
+    savedAt: 1_000,
+    editedAt: 1_000,
+    ...overrides,
+  }
+}
+
+describe('resolveLiveMatchClock', () => {
+  it('projects the remaining time of a running match', () => {
+    expect(resolveLiveMatchClock(liveState({ savedAt: 1_000 }), 61_000)).toEqual({ phase: 'running', remainingSeconds: 240 })
+  })
+
+  it('ends a running match whose clock ran out', () => {
+    expect(resolveLiveMatchClock(liveState({ savedAt: 1_000 }), 601_000)).toEqual({ phase: 'ended', remainingSeconds: 0 })
+  })
+})
+
+describe('mergeLiveMatchEvents', () => {
+  it('keeps one copy of each event sorted by minute', () => {
+    const merged = mergeLiveMatchEvents(
+      [{ id: 'b', minute: 4, type: 'GOAL_FOR', scorerId: 'p1' }, { id: 'a', minute: 2, type: 'GOAL_AGAINST' }],
+      [{ id: 'a', minute: 2, type: 'GOAL_AGAINST' }, { id: 'c', minute: 3, type: 'SUBSTITUTION' }],
+    )
+    expect(merged.map((event) => event.id)).toEqual(['a', 'c', 'b'])
+  })
+})
+
+describe('reconcileLiveMatchState', () => {
+  it('merges events from both devices and derives the score from them', () => {
+    const local = liveState({ events: [{ id: 'e1', minute: 2, type: 'GOAL_FOR', scorerId: 'p1' }], scorers: [{ side: 'home', playerId: 'p1' }] })
+    const remote = liveState({ events: [{ id: 'e2', minute: 3, type: 'GOAL_AGAINST' }], editedAt: 500 })
+    const merged = reconcileLiveMatchState(local, remote)
+    expect(merged.homeScore).toBe(1)
+    expect(merged.awayScore).toBe(1)
+    expect(merged.events.map((event) => event.id)).toEqual(['e1', 'e2'])
+  })
+
+  it('takes the lineup from the latest edit and adds scorers recorded elsewhere', () => {
+    const local = liveState({ slotAssignments: { gk: 'p1' }, editedAt: 1_000 })
+    const remote = liveState({
+      slotAssignments: { gk: 'p2' },
+      editedAt: 2_000,
+      events: [],
+    })
+    const localWithGoal = { ...local, events: [{ id: 'e1', minute: 1, type: 'GOAL_FOR' as const, scorerId: 'p3' }] }
+    const merged = reconcileLiveMatchState(localWithGoal, remote)
+    expect(merged.slotAssignments).toEqual({ gk: 'p2' })
+    expect(merged.scorers).toEqual([{ side: 'home', playerId: 'p3', assistId: undefined }])
+  })
+
+  it('never moves the phase backwards', () => {
+    const local = liveState({ phase: 'setup', editedAt: 5_000 })
+    const remote = liveState({ phase: 'running', remainingSeconds: 420, savedAt: 3_000, editedAt: 3_000 })
+    const merged = reconcileLiveMatchState(local, remote)
+    expect(merged.phase).toBe('running')
+    expect(merged.remainingSeconds).toBe(420)
+    expect(merged.savedAt).toBe(3_000)
+  })
+
+  it('does not merge an ended session back into a new one', () => {
+    const previous = liveState({
+      isOpen: false,
+      phase: 'ended',
+      remainingSeconds: 0,
+      events: [{ id: 'e1', minute: 4, type: 'GOAL_AGAINST' }],
+      sessionId: 's1',
+      sessionStartedAt: 100,
+      editedAt: 9_000,
+    })
+    const restarted = liveState({ phase: 'setup', sessionId: 's2', sessionStartedAt: 10_000, editedAt: 10_000 })
+    expect(reconcileLiveMatchState(restarted, previous)).toBe(restarted)
+    // A device still on the old session takes the new one as is.
+    expect(reconcileLiveMatchState(previous, restarted)).toBe(restarted)
+  })
+})
+
+describe('normalizeLiveMatchState', () => {
+  it('rejects payloads without a valid phase and drops malformed events', () => {
+    expect(normalizeLiveMatchState({ phase: 'paused' })).toBeNull()
+    const normalized = normalizeLiveMatchState({
+      state: {
+        phase: 'running',
+        remainingSeconds: 120,
+        savedAt: 10,
+        events: [{ id: 'e1', minute: 2, type: 'GOAL_FOR' }, { minute: 3, type: 'GOAL_FOR' }],
+      },
+    })
+    expect(normalized?.events).toHaveLength(1)
+    expect(normalized?.editedAt).toBe(10)
+    expect(normalized?.durationMinutes).toBe(10)
+  })
+})
+
+describe('fetchRemoteLiveMatchState', () => {
+  it('returns null when no live state exists yet', async () => {
+    const get = vi.fn().mockRejectedValue(new HttpError(404, 'not found'))
+    await expect(fetchRemoteLiveMatchState({ get }, 'm1')).resolves.toBeNull()
+    expect(get).toHaveBeenCalledWith(apiRoutes.matches.liveState('m1'))
+  })
+})
+
+describe('loadLiveMatchStates', () => {
+  it('merges the staff states with this device and skips matches nobody followed', async () => {
+    const storage = createStorageStub()
+    setPersistedLiveMatchState('m1', liveState({ phase: 'ended', savedAt: 500, editedAt: 500 }), storage)
+    const remote = liveState({ phase: 'ended', homeStarters: ['p3'], savedAt: 2_000, editedAt: 2_000 })
+    const fetchStates = vi.fn().mockResolvedValue({ m2: remote })
+
+    const states = await loadLiveMatchStates(fetchStates, ['m1', 'm2', 'm3'], { storage })
+
+    expect(fetchStates).toHaveBeenCalledTimes(1)
+    expect(fetchStates).toHaveBeenCalledWith(['m1', 'm2', 'm3'])
+    expect(Object.keys(states).sort()).toEqual(['m1', 'm2'])
+    expect(states.m1.savedAt).toBe(500)
+    expect(states.m2.homeStarters).toEqual(['p3'])
+  })
+
+  it('requests closed sessions once and keeps local copies when the batch fails', async () => {
+    const storage = createStorageStub()
+    const cache = new Map<string, PersistedLiveMatchState>()
+    const fetchStates = vi.fn().mockResolvedValue({
+      m1: liveState({ isOpen: false, phase: 'ended' }),
+      m2: liveState({ phase: 'running' }),
+    })
+    await loadLiveMatchStates(fetchStates, ['m1', 'm2'], { cache, storage })
+    const again = await loadLiveMatchStates(fetchStates, ['m1', 'm2'], { cache, storage })
+    expect(fetchStates).toHaveBeenLastCalledWith(['m2'])
+    expect(again.m1.phase).toBe('ended')
+
+    setPersistedLiveMatchState('m3', liveState({ phase: 'ended' }), storage)
+    const offline = await loadLiveMatchStates(vi.fn().mockRejectedValue(new TypeError('Failed to fetch')), ['m3'], { storage })
+    expect(offline.m3.phase).toBe('ended')
+  })
+})
+
+describe('validateLiveMatchStates', () => {
+  it('keeps the valid states of the batch answer', () => {
+    expect(Object.keys(validateLiveMatchStates({ m1: liveState(), m2: { phase: 'nope' }, m3: null }))).toEqual(['m1'])
+    expect(() => validateLiveMatchStates([])).toThrow()
+  })
+})
+
+describe('syncLiveMatchState', () => {
+  it('keeps queued events and state while offline', async () => {
+    const storage = createStorageStub()
+    const api = {
+      get: vi.fn(),
+      post: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+      put: vi.fn(),
+    }
+    enqueueLiveMatchEvent('m1', { id: 'e1', minute: 1, type: 'GOAL_AGAINST' }, storage)
+    const local = liveState()
+    const result = await syncLiveMatchState(api, 'm1', local, storage)
+    expect(result).toEqual({ state: local, synced: false, pendingCount: 2 })
+    expect(api.put).not.toHaveBeenCalled()
+  })
+
+  it('flushes the queue and reconciles with the server state', async () => {
+    const storage = createStorageStub()
+    const remote = liveState({ events: [{ id: 'e9', minute: 5, type: 'GOAL_FOR', scorerId: 'p2' }], editedAt: 500 })
+    const api = {
+      get: vi.fn(),
+      post: vi.fn().mockResolvedValue({}),
+      put: vi.fn().mockResolvedValue(remote),
+    }
+    enqueueLiveMatchEvent('m1', { id: 'e1', minute: 1, type: 'GOAL_AGAINST' }, storage)
+    const result = await syncLiveMatchState(api, 'm1', liveState({ events: [{ id: 'e1', minute: 1, type: 'GOAL_AGAINST' }] }), storage)
+    expect(api.post).toHaveBeenCalledWith(apiRoutes.matches.events('m1'), { id: 'e1', minute: 1, type: 'GOAL_AGAINST' })
+    expect(result.synced).toBe(true)
+    expect(result.pendingCount).toBe(0)
+    expect(countPendingLiveMatchChanges('m1', storage)).toBe(0)
+    expect(result.state.homeScore).toBe(1)
+    expect(result.state.awayScore).toBe(1)
+  })
+
+  it('keeps the newer state queued while the previous one was being sent, even with the same clock anchor', async () => {
+    const storage = createStorageStub()
+    const edited = liveState({ phase: 'setup', homeStarters: ['p2'], savedAt: 1_000, editedAt: 2_000 })
+    const api = {
+      get: vi.fn(),
+      post: vi.fn(),
+      put: vi.fn().mockImplementation(async () => {
+        enqueueLiveMatchState('m1', edited, storage)
+        return null
+      }),
+    }
+    await syncLiveMatchState(api, 'm1', liveState({ phase: 'setup' }), storage)
+    expect(countPendingLiveMatchChanges('m1', storage)).toBe(1)
+
+    enqueueLiveMatchState('m1', liveState({ phase: 'setup' }), storage)
+    api.put.mockResolvedValue(null)
+    await syncLiveMatchState(api, 'm1', liveState({ phase: 'setup' }), storage)
+    expect(api.put).toHaveBeenLastCalledWith(apiRoutes.matches.liveState('m1'), edited)
+    expect(countPendingLiveMatchChanges('m1', storage)).toBe(0)
+  })
+})
@@ -0,0 +1,444 @@
+import { ResponseValidationError } from '../adapters/apiValidation'
+import { HttpError } from '../http'
+import { apiRoutes } from '../apiRoutes'
+
+export type LiveEventType = 'GOAL_FOR' | 'GOAL_AGAINST' | 'SUBSTITUTION'
+
+export type LiveMatchEvent = {
+  id: string
+  minute: number
+  type: LiveEventType
+  scorerId?: string
+  assistId?: string
+  slotId?: string
+  inPlayerId?: string
+  outPlayerId?: string
+}
+
+export type LiveMatchPhase = 'setup' | 'running' | 'ended'
+
+export type LiveMatchScorer = { playerId: string; side: 'home' | 'away'; assistId?: string }
+
+export type PersistedLiveMatchState = {
+  isOpen: boolean
+  phase: LiveMatchPhase
+  durationMinutes: number
+  remainingSeconds: number
+  homeScore: number
+  awayScore: number
+  events: LiveMatchEvent[]
+  slotAssignments: Record<string, string>
+  homeStarters: string[]
+  homeSubs: string[]
+  scorers: LiveMatchScorer[]
+  // savedAt anchors the clock, editedAt only moves on staff actions (events, lineup, phase).
+  savedAt: number
+  editedAt?: number
+  revision?: number
+  // Each opening of the live view after "Quitter" or a finished match starts a new session;
+  // states of different sessions are never merged. Absent on states saved before sessions existed.
+  sessionId?: string
+  sessionStartedAt?: number
+}
+
+export type LiveMatchSession = Pick<PersistedLiveMatchState, 'sessionId' | 'sessionStartedAt'>
+
+type LiveMatchQueueEntry = {
+  events: LiveMatchEvent[]
+  state: PersistedLiveMatchState | null
+}
+
+type StorageLike = Pick<Storage, 'getItem' | 'removeItem' | 'setItem'>
+
+type ApiGet = <T>(path: string) => Promise<T>
+type ApiPost = <T>(path: string, body: unknown) => Promise<T>
+type ApiPut = <T>(path: string, body: unknown) => Promise<T>
+
+export type LiveMatchSyncApi = {
+  get: ApiGet
+  post: ApiPost
+  put: ApiPut
+}
+
+export type LiveMatchSyncResult = {
+  state: PersistedLiveMatchState
+  synced: boolean
+  pendingCount: number
+}
+
+const LIVE_MATCH_STATE_STORAGE_KEY = 'izifoot.liveMatchStateByMatchId'
+const LIVE_MATCH_QUEUE_STORAGE_KEY = 'izifoot.liveMatchSyncQueue'
+
+const PHASE_RANK: Record<LiveMatchPhase, number> = { setup: 0, running: 1, ended: 2 }
+
+function browserStorage(): StorageLike | null {
+  if (typeof window === 'undefined') return null
+  return window.localStorage
+}
+
+function readJsonMap<T>(storage: StorageLike | null, key: string): Record<string, T> {
+  if (!storage) return {}
+  try {
+    const raw = storage.getItem(key)
+    if (!raw) return {}
+    const parsed = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object') return {}
+    return parsed as Record<string, T>
+  } catch {
+    return {}
+  }
+}
+
+function writeJsonMap<T>(storage: StorageLike | null, key: string, next: Record<string, T>) {
+  if (!storage) return
+  if (Object.keys(next).length === 0) {
+    storage.removeItem(key)
+    return
+  }
+  storage.setItem(key, JSON.stringify(next))
+}
+
+export function readLiveMatchStateMap(storage: StorageLike | null = browserStorage()) {
+  return readJsonMap<PersistedLiveMatchState>(storage, LIVE_MATCH_STATE_STORAGE_KEY)
+}
+
+export function getPersistedLiveMatchState(
+  matchId: string,
+  storage: StorageLike | null = browserStorage(),
+): PersistedLiveMatchState | null {
+  return readLiveMatchStateMap(storage)[matchId] || null
+}
+
+export function setPersistedLiveMatchState(
+  matchId: string,
+  value: PersistedLiveMatchState,
+  storage: StorageLike | null = browserStorage(),
+) {
+  const current = readLiveMatchStateMap(storage)
+  writeJsonMap(storage, LIVE_MATCH_STATE_STORAGE_KEY, { ...current, [matchId]: value })
+}
+
+export function clearPersistedLiveMatchState(matchId: string, storage: StorageLike | null = browserStorage()) {
+  const current = readLiveMatchStateMap(storage)
+  if (!current[matchId]) return
+  const next = { ...current }
+  delete next[matchId]
+  writeJsonMap(storage, LIVE_MATCH_STATE_STORAGE_KEY, next)
+}
+
+function readQueue(storage: StorageLike | null) {
+  return readJsonMap<LiveMatchQueueEntry>(storage, LIVE_MATCH_QUEUE_STORAGE_KEY)
+}
+
+function writeQueueEntry(storage: StorageLike | null, matchId: string, entry: LiveMatchQueueEntry) {
+  const current = readQueue(storage)
+  const next = { ...current }
+  if (entry.events.length === 0 && !entry.state) delete next[matchId]
+  else next[matchId] = entry
+  writeJsonMap(storage, LIVE_MATCH_QUEUE_STORAGE_KEY, next)
+}
+
+function readQueueEntry(storage: StorageLike | null, matchId: string): LiveMatchQueueEntry {
+  const entry = readQueue(storage)[matchId]
+  return {
+    events: Array.isArray(entry?.events) ? entry.events : [],
+    state: entry?.state ?? null,
+  }
+}
+
+export function enqueueLiveMatchEvent(
+  matchId: string,
+  event: LiveMatchEvent,
+  storage: StorageLike | null = browserStorage(),
+) {
+  const entry = readQueueEntry(storage, matchId)
+  if (entry.events.some((item) => item.id === event.id)) return
+  writeQueueEntry(storage, matchId, { ...entry, events: [...entry.events, event] })
+}
+
+export function enqueueLiveMatchState(
+  matchId: string,
+  state: PersistedLiveMatchState,
+  storage: StorageLike | null = browserStorage(),
+) {
+  const entry = readQueueEntry(storage, matchId)
+  if (entry.state && isNewerLiveMatchState(entry.state, state)) return
+  writeQueueEntry(storage, matchId, { ...entry, state })
+}
+
+export function countPendingLiveMatchChanges(matchId: string, storage: StorageLike | null = browserStorage()) {
+  const entry = readQueueEntry(storage, matchId)
+  return entry.events.length + (entry.state ? 1 : 0)
+}
+
+export function clearLiveMatchQueue(matchId: string, storage: StorageLike | null = browserStorage()) {
+  writeQueueEntry(storage, matchId, { events: [], state: null })
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readFiniteNumber(value: unknown, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function readOptionalString(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+function readStringList(value: unknown) {
+  if (!Array.isArray(value)) return []
+  return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+}
+
+function normalizeLiveMatchEvent(input: unknown): LiveMatchEvent | null {
+  if (!isRecord(input)) return null
+  const id = readOptionalString(input.id)
+  const type = input.type
+  if (!id || (type !== 'GOAL_FOR' && type !== 'GOAL_AGAINST' && type !== 'SUBSTITUTION')) return null
+  return {
+    id,
+    minute: Math.max(0, readFiniteNumber(input.minute, 0)),
+    type,
+    scorerId: readOptionalString(input.scorerId),
+    assistId: readOptionalString(input.assistId),
+    slotId: readOptionalString(input.slotId),
+    inPlayerId: readOptionalString(input.inPlayerId),
+    outPlayerId: readOptionalString(input.outPlayerId),
+  }
+}
+
+export function normalizeLiveMatchState(input: unknown): PersistedLiveMatchState | null {
+  const raw = isRecord(input) && isRecord(input.state) ? input.state : input
+  if (!isRecord(raw)) return null
+  const phase = raw.phase
+  if (phase !== 'setup' && phase !== 'running' && phase !== 'ended') return null
+
+  const slotAssignments: Record<string, string> = {}
+  if (isRecord(raw.slotAssignments)) {
+    for (const [slotId, playerId] of Object.entries(raw.slotAssignments)) {
+      slotAssignments[slotId] = typeof playerId === 'string' ? playerId : ''
+    }
+  }
+  const scorers = (Array.isArray(raw.scorers) ? raw.scorers : [])
+    .map((item): LiveMatchScorer | null => {
+      if (!isRecord(item)) return null
+      const playerId = readOptionalString(item.playerId)
+      if (!playerId) return null
+      return { playerId, side: item.side === 'away' ? 'away' : 'home', assistId: readOptionalString(item.assistId) }
+    })
+    .filter((item): item is LiveMatchScorer => Boolean(item))
+  const savedAt = readFiniteNumber(raw.savedAt, 0)
+
+  return {
+    isOpen: raw.isOpen !== false,
+    phase,
+    durationMinutes: Math.max(1, readFiniteNumber(raw.durationMinutes, 10)),
+    remainingSeconds: Math.max(0, readFiniteNumber(raw.remainingSeconds, 0)),
+    homeScore: Math.max(0, readFiniteNumber(raw.homeScore, 0)),
+    awayScore: Math.max(0, readFiniteNumber(raw.awayScore, 0)),
+    events: (Array.isArray(raw.events) ? raw.events : [])
+      .map(normalizeLiveMatchEvent)
+      .filter((event): event is LiveMatchEvent => Boolean(event)),
+    slotAssignments,
+    homeStarters: readStringList(raw.homeStarters),
+    homeSubs: readStringList(raw.homeSubs),
+    scorers,
+    savedAt,
+    editedAt: readFiniteNumber(raw.editedAt, savedAt),
+    revision: typeof raw.revision === 'number' ? raw.revision : undefined,
+    sessionId: readOptionalString(raw.sessionId),
+    sessionStartedAt: typeof raw.sessionStartedAt === 'number' ? raw.sessionStartedAt : undefined,
+  }
+}
+
+export function startLiveMatchSession(now = Date.now()): LiveMatchSession {
+  return { sessionId: `live-${now}-${Math.random().toString(36).slice(2, 8)}`, sessionStartedAt: now }
+}
+
+export function liveMatchStateSignature(state: Pick<
+  PersistedLiveMatchState,
+  'isOpen' | 'phase' | 'durationMinutes' | 'events' | 'slotAssignments' | 'scorers' | 'sessionId'
+>) {
+  return JSON.stringify({
+    sessionId: state.sessionId,
+    isOpen: state.isOpen,
+    phase: state.phase,
+    durationMinutes: state.durationMinutes,
+    events: state.events.map((event) => event.id),
+    slotAssignments: state.slotAssignments,
+    scorers: state.scorers,
+  })
+}
+
+export function resolveLiveMatchClock(state: PersistedLiveMatchState, now = Date.now()) {
+  const elapsedSeconds = state.phase === 'running'
+    ? Math.max(0, Math.floor((now - (state.savedAt || now)) / 1000))
+    : 0
+  const remainingSeconds = state.phase === 'running'
+    ? Math.max(0, state.remainingSeconds - elapsedSeconds)
+    : state.remainingSeconds
+  const phase: LiveMatchPhase = state.phase === 'running' && remainingSeconds <= 0 ? 'ended' : state.phase
+  return { phase, remainingSeconds }
+}
+
+export function mergeLiveMatchEvents(local: LiveMatchEvent[], remote: LiveMatchEvent[]) {
+  const byId = new Map<string, LiveMatchEvent>()
+  for (const event of remote) byId.set(event.id, event)
+  for (const event of local) if (!byId.has(event.id)) byId.set(event.id, event)
+  return Array.from(byId.values()).sort((a, b) => {
+    if (a.minute !== b.minute) return a.minute - b.minute
+    return a.id.localeCompare(b.id)
+  })
+}
+
+function editedAtOf(state: PersistedLiveMatchState) {
+  return state.editedAt ?? state.savedAt ?? 0
+}
+
+// A later session always wins. Within a session the clock anchor alone is not enough: staff edits made
+// while the clock is paused keep the same savedAt.
+function isNewerLiveMatchState(candidate: PersistedLiveMatchState, reference: PersistedLiveMatchState) {
+  const sessionDelta = (candidate.sessionStartedAt ?? 0) - (reference.sessionStartedAt ?? 0)
+  if (sessionDelta !== 0) return sessionDelta > 0
+  const editedDelta = editedAtOf(candidate) - editedAtOf(reference)
+  return editedDelta > 0 || (editedDelta === 0 && candidate.savedAt > reference.savedAt)
+}
+
+// Within a session, events are merged (each device only appends), the rest follows the latest staff
+// edit, except the phase which never moves backwards once a device kicked off or ended the match.
+// A state from another session is not merged: the latest session replaces the previous one.
+export function reconcileLiveMatchState(
+  local: PersistedLiveMatchState,
+  remote: PersistedLiveMatchState | null,
+): PersistedLiveMatchState {
+  if (!remote) return local
+  if (remote.sessionId !== local.sessionId) return isNewerLiveMatchState(remote, local) ? remote : local
+  const latest = editedAtOf(remote) > editedAtOf(local) ? remote : local
+  const other = latest === remote ? local : remote
+  const clockSource = PHASE_RANK[remote.phase] > PHASE_RANK[local.phase]
+    ? remote
+    : PHASE_RANK[local.phase] > PHASE_RANK[remote.phase] ? local : latest
+
+  const events = mergeLiveMatchEvents(local.events, remote.events)
+  const latestEventIds = new Set(latest.events.map((event) => event.id))
+  const missingScorers = other.events
+    .filter((event) => event.type === 'GOAL_FOR' && event.scorerId && !latestEventIds.has(event.id))
+    .map((event): LiveMatchScorer => ({ side: 'home', playerId: event.scorerId as string, assistId: event.assistId }))
+
+  return {
+    isOpen: latest.isOpen,
+    phase: clockSource.phase,
+    durationMinutes: clockSource.durationMinutes,
+    remainingSeconds: clockSource.remainingSeconds,
+    savedAt: clockSource.savedAt,
+    homeScore: events.filter((event) => event.type === 'GOAL_FOR').length,
+    awayScore: events.filter((event) => event.type === 'GOAL_AGAINST').length,
+    events,
+    slotAssignments: latest.slotAssignments,
+    homeStarters: latest.homeStarters,
+    homeSubs: latest.homeSubs,
+    scorers: [...latest.scorers, ...missingScorers],
+    editedAt: Math.max(editedAtOf(local), editedAtOf(remote)),
+    revision: Math.max(local.revision ?? 0, remote.revision ?? 0) || undefined,
+    sessionId: local.sessionId,
+    sessionStartedAt: local.sessionStartedAt ?? remote.sessionStartedAt,
+  }
+}
+
+export async function fetchRemoteLiveMatchState(api: Pick<LiveMatchSyncApi, 'get'>, matchId: string) {
+  try {
+    return normalizeLiveMatchState(await api.get<unknown>(apiRoutes.matches.liveState(matchId)))
+  } catch (err: unknown) {
+    if (err instanceof HttpError && err.status === 404) return null
+    throw err
+  }
+}
+
+// Batch answer of `GET /matches/live-states?ids=…`: the state of each requested match that has one.
+export function validateLiveMatchStates(value: unknown): Record<string, PersistedLiveMatchState> {
+  if (!isRecord(value)) throw new ResponseValidationError('Réponse invalide pour les directs', value)
+  const states: Record<string, PersistedLiveMatchState> = {}
+  for (const [matchId, raw] of Object.entries(value)) {
+    const state = normalizeLiveMatchState(raw)
+    if (state) states[matchId] = state
+  }
+  return states
+}
+
+const LIVE_STATE_BATCH_SIZE = 50
+
+// Live states of several matches as synced by the staff, merged with this device's copies. Closed
+// sessions no longer change, so they are kept in `cache` and not requested again. When a batch cannot
+// be read its matches keep their local copy; matches followed by nobody are left out.
+export async function loadLiveMatchStates(
+  fetchStates: (matchIds: string[]) => Promise<Record<string, PersistedLiveMatchState>>,
+  matchIds: string[],
+  { cache = new Map(), storage = browserStorage() }: {
+    cache?: Map<string, PersistedLiveMatchState>
+    storage?: StorageLike | null
+  } = {},
+): Promise<Record<string, PersistedLiveMatchState>> {
+  const local = readLiveMatchStateMap(storage)
+  const remotes: Record<string, PersistedLiveMatchState> = {}
+  const missing = matchIds.filter((matchId) => !cache.has(matchId))
+  for (let start = 0; start < missing.length; start += LIVE_STATE_BATCH_SIZE) {
+    const fetched = await fetchStates(missing.slice(start, start + LIVE_STATE_BATCH_SIZE)).catch(() => ({}))
+    for (const [matchId, state] of Object.entries(fetched)) {
+      remotes[matchId] = state
+      if (!state.isOpen) cache.set(matchId, state)
+    }
+  }
+  const result: Record<string, PersistedLiveMatchState> = {}
+  for (const matchId of matchIds) {
+    const own = local[matchId]
+    const remote = cache.get(matchId) ?? remotes[matchId] ?? null
+    const state = own ? reconcileLiveMatchState(own, remote) : remote
+    if (state) result[matchId] = state
+  }
+  return result
+}
+
+// Sends queued events first (the backend de-duplicates them by id), then the latest state; the queue keeps one
+// state per match, so a state queued while the request was in flight stays only if it is newer.
+// Anything that fails stays in the queue and is retried on the next call.
+export async function flushLiveMatchQueue(
+  api: LiveMatchSyncApi,
+  matchId: string,
+  storage: StorageLike | null = browserStorage(),
+): Promise<PersistedLiveMatchState | null> {
+  const { events, state } = readQueueEntry(storage, matchId)
+  for (const event of events) {
+    await api.post(apiRoutes.matches.events(matchId), event)
+    const current = readQueueEntry(storage, matchId)
+    writeQueueEntry(storage, matchId, { ...current, events: current.events.filter((item) => item.id !== event.id) })
+  }
+  if (!state) return fetchRemoteLiveMatchState(api, matchId)
+
+  const response = await api.put<unknown>(apiRoutes.matches.liveState(matchId), state)
+  const current = readQueueEntry(storage, matchId)
+  if (current.state && !isNewerLiveMatchState(current.state, state)) {
+    writeQueueEntry(storage, matchId, { ...current, state: null })
+  }
+  return normalizeLiveMatchState(response) ?? fetchRemoteLiveMatchState(api, matchId)
+}
+
+export async function syncLiveMatchState(
+  api: LiveMatchSyncApi,
+  matchId: string,
+  local: PersistedLiveMatchState,
+  storage: StorageLike | null = browserStorage(),
+): Promise<LiveMatchSyncResult> {
+  enqueueLiveMatchState(matchId, local, storage)
+  try {
+    const remote = await flushLiveMatchQueue(api, matchId, storage)
+    return {
+      state: reconcileLiveMatchState(local, remote),
+      synced: true,
+      pendingCount: countPendingLiveMatchChanges(matchId, storage),
+    }
+  } catch {
+    return { state: local, synced: false, pendingCount: countPendingLiveMatchChanges(matchId, storage) }
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import type { Player, PlayerInjury } from '../types/api'
+import {
+  createInjuryDraft,
+  formatAvailabilityIssues,
+  getPlayerAvailability,
+  listExpiringCertificates,
+  listUnavailableThisWeek,
+  validateInjuryDraft,
+} from './playerAvailability'
+
+function injury(startDate: string, expectedReturnDate: string | null, endedAt: string | null = null): PlayerInjury {
+  return { id: 'i1', playerId: 'p', description: 'Entorse', startDate, expectedReturnDate, endedAt }
+}
+
+function player(id: string, name: string, overrides: Partial<Player> = {}): Player {
+  return { id, name, primary_position: 'MILIEU', ...overrides }
+}
+
+// Wednesday 2026-10-21; its week runs from Monday 19 to Sunday 25.
+const wednesday = new Date(2026, 9, 21, 10)
+
+describe('getPlayerAvailability', () => {
+  it('flags an injury until the expected return day', () => {
+    const injured = player('p1', 'Léo', { currentInjury: injury('2026-10-10', '2026-10-24') })
+    expect(getPlayerAvailability(injured, wednesday)).toMatchObject({ available: false, issues: ['INJURED'] })
+    expect(getPlayerAvailability(injured, new Date(2026, 9, 24)).available).toBe(true)
+    expect(formatAvailabilityIssues(getPlayerAvailability(injured, wednesday))).toBe('Blessé (retour prévu le 24/10/2026)')
+  })
+
+  it('frees a player declared fit before the expected return', () => {
+    const healed = player('p1', 'Léo', { currentInjury: injury('2026-10-10', '2026-11-10', '2026-10-20T08:00:00') })
+    expect(getPlayerAvailability(healed, wednesday).available).toBe(true)
+  })
+
+  it('flags an expired medical certificate, valid on its expiry day', () => {
+    expect(getPlayerAvailability(player('p2', 'Nina', { medicalCertificateExpiresAt: '2026-10-21' }), wednesday).available).toBe(true)
+    expect(getPlayerAvailability(player('p2', 'Nina', { medicalCertificateExpiresAt: '2026-10-20' }), wednesday).issues)
+      .toEqual(['CERTIFICATE_EXPIRED'])
+  })
+})
+
+describe('weekly dashboard', () => {
+  const players = [
+    player('p1', 'Zoé', { currentInjury: injury('2026-10-01', '2026-10-20') }),
+    player('p2', 'Adam', { currentInjury: injury('2026-10-25', null) }),
+    player('p3', 'Bob', { medicalCertificateExpiresAt: '2026-10-23' }),
+    player('p4', 'Eva', { currentInjury: injury('2026-10-01', '2026-10-19') }),
+    player('p5', 'Ancien', { isActive: false, currentInjury: injury('2026-10-01', null) }),
+    player('p6', 'Sami', { medicalCertificateExpiresAt: '2026-11-15' }),
+  ]
+
+  it('lists active players unavailable on any day of the week', () => {
+    expect(listUnavailableThisWeek(players, wednesday).map((row) => [row.player.id, row.issues])).toEqual([
+      ['p2', ['INJURED']],
+      ['p3', ['CERTIFICATE_EXPIRED']],
+      ['p1', ['INJURED']],
+    ])
+  })
+
+  it('lists certificates expiring within the warning window', () => {
+    expect(listExpiringCertificates(players, wednesday).map((p) => p.id)).toEqual(['p3', 'p6'])
+    expect(listExpiringCertificates(players, wednesday, 7).map((p) => p.id)).toEqual(['p3'])
+  })
+})
+
+describe('validateInjuryDraft', () => {
+  it('requires a description and a return after the injury', () => {
+    const draft = createInjuryDraft(wednesday)
+    expect(draft.startDate).toBe('2026-10-21')
+    expect(validateInjuryDraft(draft)).toBe('Décris la blessure.')
+    expect(validateInjuryDraft({ ...draft, description: 'Entorse', expectedReturnDate: '2026-10-21' })).toMatch(/retour/)
+    expect(validateInjuryDraft({ ...draft, description: 'Entorse', expectedReturnDate: '2026-11-02' })).toBeNull()
+  })
+})
@@ -0,0 +1,131 @@
+import type { Player, PlayerInjury } from '../types/api'
+import { toDayKey } from './curriculum'
+import { isPlayerActive } from './playerRoster'
+
+export const CERTIFICATE_WARNING_DAYS = 30
+
+export type AvailabilityIssue = 'INJURED' | 'CERTIFICATE_EXPIRED'
+
+export type PlayerAvailability = {
+  available: boolean
+  issues: AvailabilityIssue[]
+  injury: PlayerInjury | null
+}
+
+export type UnavailablePlayerRow = PlayerAvailability & {
+  player: Player
+}
+
+export type InjuryDraft = {
+  description: string
+  startDate: string
+  expectedReturnDate: string
+  note: string
+}
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Date inputs send day keys; the API may answer with full ISO timestamps.
+function dayKeyOf(value: string | null | undefined): string | null {
+  if (!value) return null
+  if (DAY_KEY_PATTERN.test(value)) return value
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : toDayKey(date)
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+// The expected return day and the day the player was declared fit are both playable again.
+function isInjuryActiveBetween(injury: PlayerInjury, fromKey: string, toKey: string): boolean {
+  const start = dayKeyOf(injury.startDate)
+  if (!start || start > toKey) return false
+  const ended = dayKeyOf(injury.endedAt)
+  if (ended && ended <= fromKey) return false
+  const back = dayKeyOf(injury.expectedReturnDate)
+  return !back || back > fromKey
+}
+
+// The certificate is still valid on its expiry day.
+function isCertificateExpiredOn(player: Player, dayKey: string): boolean {
+  const expiresAt = dayKeyOf(player.medicalCertificateExpiresAt)
+  return Boolean(expiresAt && expiresAt < dayKey)
+}
+
+function resolveAvailability(player: Player, fromKey: string, toKey: string): PlayerAvailability {
+  const injury = player.currentInjury && isInjuryActiveBetween(player.currentInjury, fromKey, toKey)
+    ? player.currentInjury
+    : null
+  const issues: AvailabilityIssue[] = []
+  if (injury) issues.push('INJURED')
+  if (isCertificateExpiredOn(player, toKey)) issues.push('CERTIFICATE_EXPIRED')
+  return { available: issues.length === 0, issues, injury }
+}
+
+export function getPlayerAvailability(player: Player, at: Date = new Date()): PlayerAvailability {
+  const dayKey = toDayKey(at)
+  return resolveAvailability(player, dayKey, dayKey)
+}
+
+export function isPlayerAvailable(player: Player, at: Date = new Date()): boolean {
+  return getPlayerAvailability(player, at).available
+}
+
+// Active players unavailable at some point of the week (Monday to Sunday) containing `at`.
+export function listUnavailableThisWeek(players: Player[], at: Date = new Date()): UnavailablePlayerRow[] {
+  const monday = addDays(at, -((at.getDay() + 6) % 7))
+  const fromKey = toDayKey(monday)
+  const toKey = toDayKey(addDays(monday, 6))
+  return players
+    .filter(isPlayerActive)
+    .map((player) => ({ player, ...resolveAvailability(player, fromKey, toKey) }))
+    .filter((row) => !row.available)
+    .sort((a, b) => a.player.name.localeCompare(b.player.name))
+}
+
+// Certificates still valid today but expiring within the warning window, soonest first.
+export function listExpiringCertificates(
+  players: Player[],
+  at: Date = new Date(),
+  days = CERTIFICATE_WARNING_DAYS,
+): Player[] {
+  const todayKey = toDayKey(at)
+  const limitKey = toDayKey(addDays(at, days))
+  return players
+    .filter((player) => {
+      const expiresAt = dayKeyOf(player.medicalCertificateExpiresAt)
+      return isPlayerActive(player) && expiresAt !== null && expiresAt >= todayKey && expiresAt <= limitKey
+    })
+    .sort((a, b) => (dayKeyOf(a.medicalCertificateExpiresAt) ?? '').localeCompare(dayKeyOf(b.medicalCertificateExpiresAt) ?? ''))
+}
+
+export function formatAvailabilityDay(value: string | null | undefined): string {
+  const dayKey = dayKeyOf(value)
+  if (!dayKey) return '—'
+  const [year, month, day] = dayKey.split('-')
+  return `${day}/${month}/${year}`
+}
+
+export function formatAvailabilityIssues(availability: PlayerAvailability): string {
+  return availability.issues
+    .map((issue) => {
+      if (issue === 'CERTIFICATE_EXPIRED') return 'Certificat médical expiré'
+      const returnDate = availability.injury?.expectedReturnDate
+      return returnDate ? `Blessé (retour prévu le ${formatAvailabilityDay(returnDate)})` : 'Blessé'
+    })
+    .join(' · ')
+}
+
+export function createInjuryDraft(at: Date = new Date()): InjuryDraft {
+  return { description: '', startDate: toDayKey(at), expectedReturnDate: '', note: '' }
+}
+
+export function validateInjuryDraft(draft: InjuryDraft): string | null {
+  if (!draft.description.trim()) return 'Décris la blessure.'
+  if (!DAY_KEY_PATTERN.test(draft.startDate)) return 'Indique la date de la blessure.'
+  if (draft.expectedReturnDate && draft.expectedReturnDate <= draft.startDate) {
+    return 'La date de retour doit suivre la date de la blessure.'
+  }
+  return null
+}
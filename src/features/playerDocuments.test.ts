@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import type { Player, PlayerDocument } from '../types/api'
+import {
+  buildDocumentChecklist,
+  isPlayerFileComplete,
+  readDocumentAttachment,
+  resolveDocumentState,
+  summarizeDocumentStates,
+  validateDocumentAttachment,
+} from './playerDocuments'
+
+const today = new Date(2026, 9, 19, 10)
+
+function valid(type: PlayerDocument['type'], expiresAt: string | null = null): PlayerDocument {
+  return { type, status: 'VALID', expiresAt }
+}
+
+function player(id: string, documents: PlayerDocument[], isChild = false): Player {
+  return { id, name: id, primary_position: 'MILIEU', isChild, documents }
+}
+
+describe('document states', () => {
+  it('derives expiry from the date, valid up to the expiry day', () => {
+    expect(resolveDocumentState(undefined, today)).toBe('MISSING')
+    expect(resolveDocumentState(valid('LICENCE', '2026-10-19'), today)).toBe('VALID')
+    expect(resolveDocumentState(valid('LICENCE', '2026-10-18T00:00:00.000Z'), today)).toBe('EXPIRED')
+    expect(resolveDocumentState({ type: 'LICENCE', status: 'PENDING', expiresAt: '2020-01-01' }, today)).toBe('PENDING')
+  })
+
+  it('asks for the parental authorisation only for children', () => {
+    const documents = [valid('LICENCE'), valid('MEDICAL_QUESTIONNAIRE'), valid('PHOTO_CONSENT')]
+    expect(isPlayerFileComplete(player('adult', documents), today)).toBe(true)
+    const child = player('child', documents, true)
+    expect(isPlayerFileComplete(child, today)).toBe(false)
+    expect(buildDocumentChecklist(child, today).map((row) => [row.type, row.state])).toEqual([
+      ['LICENCE', 'VALID'],
+      ['PARENTAL_AUTHORISATION', 'MISSING'],
+      ['MEDICAL_QUESTIONNAIRE', 'VALID'],
+      ['PHOTO_CONSENT', 'VALID'],
+    ])
+  })
+
+  it('counts states per document type', () => {
+    const summary = summarizeDocumentStates([
+      player('a', [valid('LICENCE', '2026-01-01')]),
+      player('b', [{ type: 'LICENCE', status: 'REJECTED' }], true),
+    ], today)
+    expect(summary.LICENCE).toMatchObject({ EXPIRED: 1, REJECTED: 1, VALID: 0 })
+    expect(summary.PARENTAL_AUTHORISATION).toMatchObject({ MISSING: 1 })
+    expect(summary.PHOTO_CONSENT.MISSING).toBe(2)
+  })
+})
+
+describe('attachments', () => {
+  it('accepts PDF and images up to 5 MB', () => {
+    expect(validateDocumentAttachment({ type: 'application/pdf', size: 1000 })).toBeNull()
+    expect(validateDocumentAttachment({ type: 'text/plain', size: 10 })).toMatch(/Format/)
+    expect(validateDocumentAttachment({ type: 'image/png', size: 6 * 1024 * 1024 })).toMatch(/5 Mo/)
+  })
+
+  it('encodes the file for the JSON upload', async () => {
+    const file = new File(['licence'], 'licence.pdf', { type: 'application/pdf' })
+    await expect(readDocumentAttachment(file)).resolves.toEqual({
+      fileName: 'licence.pdf',
+      contentType: 'application/pdf',
+      dataBase64: btoa('licence'),
+    })
+  })
+})
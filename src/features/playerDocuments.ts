@@ -0,0 +1,106 @@
+import type { Player, PlayerDocument, PlayerDocumentStatus, PlayerDocumentType } from '../types/api'
+import { toDayKey } from './curriculum'
+
+export const PLAYER_DOCUMENT_TYPES: PlayerDocumentType[] = ['LICENCE', 'PARENTAL_AUTHORISATION', 'MEDICAL_QUESTIONNAIRE', 'PHOTO_CONSENT']
+
+export const PLAYER_DOCUMENT_LABELS: Record<PlayerDocumentType, string> = {
+  LICENCE: 'Licence',
+  PARENTAL_AUTHORISATION: 'Autorisation parentale',
+  MEDICAL_QUESTIONNAIRE: 'Questionnaire médical',
+  PHOTO_CONSENT: 'Droit à l’image',
+}
+
+// Statuses the secretary can set; EXPIRED is derived from the expiry date.
+export const PLAYER_DOCUMENT_STATUSES: PlayerDocumentStatus[] = ['MISSING', 'PENDING', 'VALID', 'REJECTED']
+
+export type PlayerDocumentState = PlayerDocumentStatus | 'EXPIRED'
+
+export const PLAYER_DOCUMENT_STATE_LABELS: Record<PlayerDocumentState, string> = {
+  MISSING: 'Manquant',
+  PENDING: 'À vérifier',
+  VALID: 'Valide',
+  REJECTED: 'Refusé',
+  EXPIRED: 'Expiré',
+}
+
+export const MAX_DOCUMENT_ATTACHMENT_BYTES = 5 * 1024 * 1024
+export const DOCUMENT_ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+
+export type PlayerDocumentRow = {
+  type: PlayerDocumentType
+  label: string
+  state: PlayerDocumentState
+  document: PlayerDocument | null
+}
+
+export type DocumentStateCounts = Record<PlayerDocumentState, number>
+
+export type DocumentAttachmentPayload = {
+  fileName: string
+  contentType: string
+  dataBase64: string
+}
+
+function isChild(player: Player): boolean {
+  if (typeof player.isChild === 'boolean') return player.isChild
+  return player.enfant === true
+}
+
+// The parental authorisation only concerns minors.
+export function getRequiredDocumentTypes(player: Player): PlayerDocumentType[] {
+  return PLAYER_DOCUMENT_TYPES.filter((type) => type !== 'PARENTAL_AUTHORISATION' || isChild(player))
+}
+
+// A validated document stays valid up to and including its expiry day.
+export function resolveDocumentState(document: PlayerDocument | null | undefined, at: Date = new Date()): PlayerDocumentState {
+  if (!document) return 'MISSING'
+  if (document.status === 'VALID' && document.expiresAt && document.expiresAt.slice(0, 10) < toDayKey(at)) return 'EXPIRED'
+  return document.status
+}
+
+export function buildDocumentChecklist(player: Player, at: Date = new Date()): PlayerDocumentRow[] {
+  const byType = new Map((player.documents ?? []).map((document) => [document.type, document] as const))
+  return getRequiredDocumentTypes(player).map((type) => {
+    const document = byType.get(type) ?? null
+    return { type, label: PLAYER_DOCUMENT_LABELS[type], state: resolveDocumentState(document, at), document }
+  })
+}
+
+export function listIncompleteDocuments(player: Player, at: Date = new Date()): PlayerDocumentRow[] {
+  return buildDocumentChecklist(player, at).filter((row) => row.state !== 'VALID')
+}
+
+export function isPlayerFileComplete(player: Player, at: Date = new Date()): boolean {
+  return listIncompleteDocuments(player, at).length === 0
+}
+
+function emptyCounts(): DocumentStateCounts {
+  return { MISSING: 0, PENDING: 0, VALID: 0, REJECTED: 0, EXPIRED: 0 }
+}
+
+// Per document type, how many players are in each state; players not concerned by a type are left out.
+export function summarizeDocumentStates(players: Player[], at: Date = new Date()): Record<PlayerDocumentType, DocumentStateCounts> {
+  const summary = Object.fromEntries(PLAYER_DOCUMENT_TYPES.map((type) => [type, emptyCounts()])) as Record<PlayerDocumentType, DocumentStateCounts>
+  for (const player of players) {
+    for (const row of buildDocumentChecklist(player, at)) summary[row.type][row.state] += 1
+  }
+  return summary
+}
+
+export function validateDocumentAttachment(file: Pick<File, 'size' | 'type'>): string | null {
+  if (!DOCUMENT_ATTACHMENT_TYPES.includes(file.type)) return 'Format accepté: PDF, JPEG, PNG ou WebP.'
+  if (file.size > MAX_DOCUMENT_ATTACHMENT_BYTES) return 'Le fichier dépasse 5 Mo.'
+  return null
+}
+
+// The API client only sends JSON, so the file travels base64-encoded.
+export async function readDocumentAttachment(file: File): Promise<DocumentAttachmentPayload> {
+  const validationError = validateDocumentAttachment(file)
+  if (validationError) throw new Error(validationError)
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return { fileName: file.name, contentType: file.type, dataBase64: btoa(binary) }
+}
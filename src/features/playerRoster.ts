@@ -0,0 +1,8 @@
+import type { Player } from '../types/api'
+
+// Players removed from the roster stay in the club for history; older payloads use `is_active`.
+export function isPlayerActive(player: Player): boolean {
+  if (typeof player.isActive === 'boolean') return player.isActive
+  if (typeof player.is_active === 'boolean') return player.is_active
+  return true
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import type { AttendanceRow, MatchLite, Player } from '../types/api'
+import type { PersistedLiveMatchState } from './liveMatchSync'
+import {
+  buildPlayingTimeReport,
+  computeMatchParticipation,
+  readMinPlayingShare,
+  writeMinPlayingShare,
+} from './playingTime'
+
+function match(id: string, matchdayId: string, starters: string[], subs: string[]): MatchLite {
+  return {
+    id,
+    createdAt: '2025-10-04T10:00:00Z',
+    type: 'PLATEAU',
+    matchdayId,
+    played: true,
+    teams: [
+      {
+        id: `${id}-home`,
+        side: 'home',
+        score: 1,
+        players: [
+          ...starters.map((playerId) => ({ playerId, role: 'starter' as const })),
+          ...subs.map((playerId) => ({ playerId, role: 'sub' as const })),
+        ],
+      },
+      { id: `${id}-away`, side: 'away', score: 0 },
+    ],
+    scorers: [],
+  }
+}
+
+function live(partial: Partial<PersistedLiveMatchState>): PersistedLiveMatchState {
+  return {
+    isOpen: false,
+    phase: 'ended',
+    durationMinutes: 10,
+    remainingSeconds: 0,
+    homeScore: 0,
+    awayScore: 0,
+    events: [],
+    slotAssignments: {},
+    homeStarters: [],
+    homeSubs: [],
+    scorers: [],
+    savedAt: 1_000,
+    ...partial,
+  }
+}
+
+const players = ['a', 'b', 'c'].map((id) => ({ id, name: id.toUpperCase() }) as Player)
+
+describe('computeMatchParticipation', () => {
+  it('replays live substitutions for exact minutes', () => {
+    const result = computeMatchParticipation(match('m1', 'd1', ['a', 'b'], ['c']), live({
+      homeStarters: ['a', 'b'],
+      events: [{ id: 'e1', minute: 4, type: 'SUBSTITUTION', outPlayerId: 'b', inPlayerId: 'c' }],
+    }))
+    expect(result.estimated).toBe(false)
+    expect(result.byPlayerId.get('b')).toMatchObject({ minutes: 4, started: true })
+    expect(result.byPlayerId.get('c')).toMatchObject({ minutes: 6, started: false })
+  })
+
+  it('gives subs no minutes when the match was not followed live', () => {
+    const result = computeMatchParticipation(match('m1', 'd1', ['a'], ['c']), undefined)
+    expect(result.estimated).toBe(true)
+    expect(result.byPlayerId.get('a')?.minutes).toBe(10)
+    expect(result.byPlayerId.get('c')).toEqual({ minutes: 0, started: false, appeared: false })
+  })
+
+  it('keeps subs who never came on without an appearance', () => {
+    const result = computeMatchParticipation(match('m1', 'd1', ['a'], ['b', 'c']), live({
+      homeStarters: ['a'],
+      homeSubs: ['b', 'c'],
+      events: [{ id: 'e1', minute: 5, type: 'SUBSTITUTION', outPlayerId: 'a', inPlayerId: 'b' }],
+    }))
+    expect(result.byPlayerId.get('b')).toEqual({ minutes: 5, started: false, appeared: true })
+    expect(result.byPlayerId.get('c')).toEqual({ minutes: 0, started: false, appeared: false })
+  })
+})
+
+describe('buildPlayingTimeReport', () => {
+  it('measures minutes against the matchdays each player attended and flags low shares', () => {
+    const attendance: AttendanceRow[] = [
+      { session_type: 'PLATEAU', session_id: 'd1', playerId: 'a', present: true },
+      { session_type: 'PLATEAU', session_id: 'd1', playerId: 'b', present: true },
+      { session_type: 'PLATEAU', session_id: 'd1', playerId: 'c', present: true },
+      { session_type: 'PLATEAU', session_id: 'd2', playerId: 'c', present: false },
+    ]
+    const rows = buildPlayingTimeReport({
+      matches: [match('m1', 'd1', ['a', 'b'], ['c']), match('m2', 'd2', ['a', 'b'], [])],
+      matchdays: [],
+      attendance,
+      players,
+      liveStates: {
+        m1: live({ homeStarters: ['a', 'b'], events: [{ id: 'e1', minute: 8, type: 'SUBSTITUTION', outPlayerId: 'b', inPlayerId: 'c' }] }),
+        m2: live({ homeStarters: ['a', 'b'] }),
+      },
+      minShare: 0.5,
+    })
+    const c = rows.find((row) => row.playerId === 'c')
+    expect(rows[0].playerId).toBe('c')
+    expect(c).toMatchObject({
+      minutes: 2,
+      availableMinutes: 10,
+      share: 0.2,
+      subAppearances: 1,
+      matchdaysConvened: 2,
+      matchdaysAttended: 1,
+      belowThreshold: true,
+    })
+    expect(rows.find((row) => row.playerId === 'a')).toMatchObject({ minutes: 20, share: 1, starts: 2, belowThreshold: false })
+  })
+
+  it('does not count an appearance for a listed sub of a match not followed live', () => {
+    const rows = buildPlayingTimeReport({
+      matches: [match('m1', 'd1', ['a', 'b'], ['c'])],
+      matchdays: [],
+      attendance: [],
+      players,
+      liveStates: {},
+      minShare: 0.5,
+    })
+    expect(rows.find((row) => row.playerId === 'c')).toMatchObject({
+      minutes: 0,
+      availableMinutes: 10,
+      subAppearances: 0,
+      matchesPlayed: 0,
+      matchdaysAttended: 1,
+      estimated: true,
+    })
+  })
+})
+
+describe('min playing share setting', () => {
+  it('round-trips through storage and falls back to the default', () => {
+    const values = new Map<string, string>()
+    const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => { values.set(key, value) } }
+    expect(readMinPlayingShare(storage)).toBe(0.5)
+    writeMinPlayingShare(0.3, storage)
+    expect(readMinPlayingShare(storage)).toBe(0.3)
+  })
+})
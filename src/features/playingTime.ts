@@ -0,0 +1,203 @@
+import type { AttendanceRow, MatchLite, Matchday, Player } from '../types/api'
+import type { LiveMatchEvent, PersistedLiveMatchState } from './liveMatchSync'
+import { isPlayerActive } from './playerRoster'
+import { getVisiblePlayerName, selectPlayedMatches } from './seasonStats'
+
+export const STARTER_LOAD_WEIGHT = 1
+export const SUB_LOAD_WEIGHT = 0.45
+export const DEFAULT_MATCH_DURATION_MINUTES = 10
+export const DEFAULT_MIN_PLAYING_SHARE = 0.5
+
+const MIN_PLAYING_SHARE_STORAGE_KEY = 'izifoot.playingTimeMinShare'
+
+type StorageLike = Pick<Storage, 'getItem' | 'setItem'>
+
+export type PlayingTimeRow = {
+  playerId: string
+  name: string
+  minutes: number
+  // Minutes played by the team during the matchdays the player attended.
+  availableMinutes: number
+  share: number | null
+  starts: number
+  subAppearances: number
+  matchesPlayed: number
+  matchdaysConvened: number
+  matchdaysAttended: number
+  // True when at least one match had no live record and minutes were taken from the composition.
+  estimated: boolean
+  belowThreshold: boolean
+}
+
+export type PlayingTimeInput = {
+  matches: MatchLite[]
+  matchdays: Matchday[]
+  attendance: AttendanceRow[]
+  players: Player[]
+  liveStates: Record<string, PersistedLiveMatchState | undefined>
+  minShare: number
+}
+
+type MatchParticipation = { minutes: number; started: boolean; appeared: boolean }
+
+function browserStorage(): StorageLike | null {
+  return typeof window === 'undefined' ? null : window.localStorage
+}
+
+export function readMinPlayingShare(storage: StorageLike | null = browserStorage()): number {
+  const raw = Number(storage?.getItem(MIN_PLAYING_SHARE_STORAGE_KEY))
+  return Number.isFinite(raw) && raw > 0 && raw <= 1 ? raw : DEFAULT_MIN_PLAYING_SHARE
+}
+
+export function writeMinPlayingShare(value: number, storage: StorageLike | null = browserStorage()) {
+  storage?.setItem(MIN_PLAYING_SHARE_STORAGE_KEY, String(Math.max(0, Math.min(1, value))))
+}
+
+function homeLineup(match: MatchLite) {
+  const home = match.teams.find((team) => team.side === 'home')
+  const starters: string[] = []
+  const subs: string[] = []
+  for (const row of home?.players || []) {
+    const playerId = row.playerId || row.player?.id
+    if (!playerId) continue
+    if (row.role === 'sub') subs.push(playerId)
+    else starters.push(playerId)
+  }
+  return { starters, subs }
+}
+
+// Exact minutes when the match was run with the live view (substitutions replayed like in the match
+// page). Otherwise starters get the full match and subs nothing: nobody knows whether they came on.
+// Subs who never entered are kept with 0 minutes so the matchday still counts as attended.
+export function computeMatchParticipation(
+  match: MatchLite,
+  live: PersistedLiveMatchState | undefined,
+): { durationMinutes: number; estimated: boolean; byPlayerId: Map<string, MatchParticipation> } {
+  const durationMinutes = Math.max(1, live?.durationMinutes || DEFAULT_MATCH_DURATION_MINUTES)
+  const lineup = homeLineup(match)
+  const byPlayerId = new Map<string, MatchParticipation>()
+  const addBench = (playerIds: string[]) => {
+    for (const playerId of playerIds) {
+      if (!byPlayerId.has(playerId)) byPlayerId.set(playerId, { minutes: 0, started: false, appeared: false })
+    }
+  }
+
+  if (!live) {
+    for (const playerId of lineup.starters) {
+      byPlayerId.set(playerId, { minutes: durationMinutes * STARTER_LOAD_WEIGHT, started: true, appeared: true })
+    }
+    addBench(lineup.subs)
+    return { durationMinutes, estimated: true, byPlayerId }
+  }
+
+  const starters = live.homeStarters.length > 0 ? live.homeStarters : lineup.starters
+  const onField = new Set(starters)
+  for (const playerId of starters) byPlayerId.set(playerId, { minutes: durationMinutes, started: true, appeared: true })
+
+  const substitutions = live.events
+    .filter((event: LiveMatchEvent) => event.type === 'SUBSTITUTION')
+    .slice()
+    .sort((a, b) => a.minute - b.minute)
+  for (const event of substitutions) {
+    const remainingMinutes = durationMinutes - Math.max(0, Math.min(durationMinutes, event.minute))
+    if (remainingMinutes <= 0) continue
+    if (event.outPlayerId && onField.has(event.outPlayerId)) {
+      const current = byPlayerId.get(event.outPlayerId)
+      if (current) current.minutes = Math.max(0, current.minutes - remainingMinutes)
+      onField.delete(event.outPlayerId)
+    }
+    if (event.inPlayerId && !onField.has(event.inPlayerId)) {
+      const current = byPlayerId.get(event.inPlayerId) ?? { minutes: 0, started: false, appeared: true }
+      current.minutes += remainingMinutes
+      current.appeared = true
+      byPlayerId.set(event.inPlayerId, current)
+      onField.add(event.inPlayerId)
+    }
+  }
+  addBench(live.homeSubs.length > 0 ? live.homeSubs : lineup.subs)
+  return { durationMinutes, estimated: false, byPlayerId }
+}
+
+export function buildPlayingTimeReport(input: PlayingTimeInput): PlayingTimeRow[] {
+  const playedMatches = selectPlayedMatches(input.matches, input.matchdays)
+  const rows = new Map<string, Omit<PlayingTimeRow, 'name' | 'share' | 'belowThreshold'>>()
+  const ensureRow = (playerId: string) => {
+    let row = rows.get(playerId)
+    if (!row) {
+      row = {
+        playerId,
+        minutes: 0,
+        availableMinutes: 0,
+        starts: 0,
+        subAppearances: 0,
+        matchesPlayed: 0,
+        matchdaysConvened: 0,
+        matchdaysAttended: 0,
+        estimated: false,
+      }
+      rows.set(playerId, row)
+    }
+    return row
+  }
+  for (const player of input.players) {
+    if (isPlayerActive(player)) ensureRow(player.id)
+  }
+
+  // Matches without a matchday are their own "day" so a single friendly still counts as a convocation.
+  const groups = new Map<string, { minutes: number; convened: Set<string>; attended: Set<string> }>()
+  const ensureGroup = (key: string) => {
+    let group = groups.get(key)
+    if (!group) {
+      group = { minutes: 0, convened: new Set(), attended: new Set() }
+      groups.set(key, group)
+    }
+    return group
+  }
+
+  for (const match of playedMatches) {
+    const group = ensureGroup(match.matchdayId || `match:${match.id}`)
+    const participation = computeMatchParticipation(match, input.liveStates[match.id])
+    group.minutes += participation.durationMinutes
+    for (const [playerId, entry] of participation.byPlayerId) {
+      const row = ensureRow(playerId)
+      row.minutes += entry.minutes
+      if (entry.appeared) row.matchesPlayed += 1
+      if (entry.started) row.starts += 1
+      else if (entry.appeared) row.subAppearances += 1
+      if (participation.estimated) row.estimated = true
+      group.convened.add(playerId)
+      group.attended.add(playerId)
+    }
+  }
+
+  for (const mark of input.attendance) {
+    if (mark.session_type !== 'PLATEAU') continue
+    const group = groups.get(mark.session_id)
+    if (!group) continue
+    group.convened.add(mark.playerId)
+    if (mark.present === true) group.attended.add(mark.playerId)
+  }
+
+  for (const group of groups.values()) {
+    for (const playerId of group.convened) ensureRow(playerId).matchdaysConvened += 1
+    for (const playerId of group.attended) {
+      const row = ensureRow(playerId)
+      row.matchdaysAttended += 1
+      row.availableMinutes += group.minutes
+    }
+  }
+
+  const nameById = new Map(input.players.map((player) => [player.id, player.name] as const))
+  return Array.from(rows.values())
+    .map((row) => {
+      const share = row.availableMinutes > 0 ? Math.min(1, row.minutes / row.availableMinutes) : null
+      return {
+        ...row,
+        name: getVisiblePlayerName(nameById.get(row.playerId)),
+        share,
+        belowThreshold: share != null && share < input.minShare,
+      }
+    })
+    // Lowest share first so the players to watch sit at the top; never-convened players last.
+    .sort((a, b) => (a.share ?? Infinity) - (b.share ?? Infinity) || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createScoreboardPoller, findCurrentSlotIndex, formatLastUpdated } from './publicScoreboard'
+
+describe('createScoreboardPoller', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('polls at the interval and backs off after failures', async () => {
+    const load = vi.fn<() => Promise<number>>()
+      .mockResolvedValueOnce(1)
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(2)
+    const onUpdate = vi.fn()
+    const onError = vi.fn()
+    const poller = createScoreboardPoller({ load, onUpdate, onError, intervalMs: 1000, maxBackoffMs: 5000 })
+    poller.start()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onUpdate).toHaveBeenLastCalledWith(1, expect.any(Number))
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), 2000)
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(load).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(onUpdate).toHaveBeenLastCalledWith(2, expect.any(Number))
+
+    poller.stop()
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(load).toHaveBeenCalledTimes(3)
+  })
+
+  it('refreshes immediately and ignores a response that arrives after stop', async () => {
+    let resolveLoad: (value: string) => void = () => undefined
+    const load = vi.fn(() => new Promise<string>((resolve) => { resolveLoad = resolve }))
+    const onUpdate = vi.fn()
+    const poller = createScoreboardPoller({ load, onUpdate, intervalMs: 1000 })
+    poller.start()
+    poller.refreshNow()
+    expect(load).toHaveBeenCalledTimes(1)
+    poller.stop()
+    resolveLoad('late')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(onUpdate).not.toHaveBeenCalled()
+  })
+})
+
+describe('findCurrentSlotIndex', () => {
+  const slots = [{ time: '10:00' }, { time: '10:12' }, { time: '10:24' }]
+
+  it('finds the slot being played on the matchday', () => {
+    const at = (hh: number, mm: number) => new Date(2026, 4, 16, hh, mm)
+    const date = new Date(2026, 4, 16).toISOString()
+    expect(findCurrentSlotIndex(slots, { date, now: at(9, 59) })).toBeNull()
+    expect(findCurrentSlotIndex(slots, { date, now: at(10, 5) })).toBe(0)
+    expect(findCurrentSlotIndex(slots, { date, now: at(10, 30) })).toBe(2)
+    expect(findCurrentSlotIndex(slots, { date, now: at(10, 36) })).toBeNull()
+  })
+
+  it('never highlights a slot on another day', () => {
+    expect(findCurrentSlotIndex(slots, { date: new Date(2026, 4, 15).toISOString(), now: new Date(2026, 4, 16, 10, 5) })).toBeNull()
+  })
+})
+
+describe('formatLastUpdated', () => {
+  it('describes the age of the data', () => {
+    expect(formatLastUpdated(null, 0)).toBe('Jamais mis à jour')
+    expect(formatLastUpdated(1_000, 31_000)).toBe('Mis à jour il y a 30 s')
+    expect(formatLastUpdated(1_000, 181_000)).toBe('Mis à jour il y a 3 min')
+  })
+})
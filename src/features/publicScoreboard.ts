@@ -0,0 +1,140 @@
+export const PUBLIC_SCOREBOARD_POLL_MS = 20_000
+export const PUBLIC_SCOREBOARD_MAX_BACKOFF_MS = 120_000
+const DEFAULT_SLOT_MINUTES = 15
+
+type Timers = {
+  setTimeout: (callback: () => void, ms: number) => unknown
+  clearTimeout: (handle: unknown) => void
+}
+
+export type ScoreboardPollerOptions<T> = {
+  load: () => Promise<T>
+  onUpdate: (data: T, updatedAt: number) => void
+  onError?: (err: unknown, retryInMs: number) => void
+  intervalMs?: number
+  maxBackoffMs?: number
+  now?: () => number
+  timers?: Timers
+}
+
+export type ScoreboardPoller = {
+  start: () => void
+  stop: () => void
+  // Loads right away (e.g. when the page becomes visible again) and restarts the countdown.
+  refreshNow: () => void
+}
+
+const defaultTimers: Timers = {
+  setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms),
+  clearTimeout: (handle) => globalThis.clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+// One request at a time: the next poll is scheduled once the previous one settled. Failures double the
+// delay (up to maxBackoffMs) so a broken venue connection does not hammer the API.
+export function createScoreboardPoller<T>(options: ScoreboardPollerOptions<T>): ScoreboardPoller {
+  const intervalMs = options.intervalMs ?? PUBLIC_SCOREBOARD_POLL_MS
+  const maxBackoffMs = options.maxBackoffMs ?? PUBLIC_SCOREBOARD_MAX_BACKOFF_MS
+  const now = options.now ?? Date.now
+  const timers = options.timers ?? defaultTimers
+  let handle: unknown = null
+  let running = false
+  let inFlight = false
+  let delay = intervalMs
+  let generation = 0
+
+  function schedule(ms: number) {
+    if (handle != null) timers.clearTimeout(handle)
+    handle = timers.setTimeout(() => {
+      handle = null
+      void tick()
+    }, ms)
+  }
+
+  async function tick() {
+    if (!running || inFlight) return
+    inFlight = true
+    const current = generation
+    try {
+      const data = await options.load()
+      if (!running || current !== generation) return
+      delay = intervalMs
+      options.onUpdate(data, now())
+    } catch (err: unknown) {
+      if (!running || current !== generation) return
+      delay = Math.min(maxBackoffMs, delay * 2)
+      options.onError?.(err, delay)
+    } finally {
+      if (current === generation) {
+        inFlight = false
+        if (running) schedule(delay)
+      }
+    }
+  }
+
+  return {
+    start() {
+      if (running) return
+      running = true
+      delay = intervalMs
+      schedule(intervalMs)
+    },
+    stop() {
+      running = false
+      generation += 1
+      if (handle != null) timers.clearTimeout(handle)
+      handle = null
+    },
+    refreshNow() {
+      if (!running) return
+      if (handle != null) timers.clearTimeout(handle)
+      handle = null
+      generation += 1
+      inFlight = false
+      void tick()
+    },
+  }
+}
+
+function parseSlotMinutes(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+export function isSameLocalDay(dateISO: string | null | undefined, now: Date): boolean {
+  if (!dateISO) return false
+  const date = new Date(dateISO)
+  return !Number.isNaN(date.getTime()) && date.toDateString() === now.toDateString()
+}
+
+// Index of the slot being played on the matchday itself. A slot lasts until the next one starts; the
+// last slot lasts as long as the previous gap (or slotMinutes when known).
+export function findCurrentSlotIndex(
+  slots: Array<{ time: string }>,
+  params: { date: string | null | undefined; now: Date; slotMinutes?: number },
+): number | null {
+  if (!isSameLocalDay(params.date, params.now)) return null
+  const starts = slots.map((slot) => parseSlotMinutes(slot.time))
+  const nowMinutes = params.now.getHours() * 60 + params.now.getMinutes()
+  for (let index = 0; index < starts.length; index += 1) {
+    const start = starts[index]
+    if (start == null) continue
+    const nextStart = starts.slice(index + 1).find((value): value is number => value != null)
+    const previousStart = index > 0 ? starts[index - 1] : null
+    const duration = nextStart != null
+      ? nextStart - start
+      : (params.slotMinutes || (previousStart != null ? start - previousStart : DEFAULT_SLOT_MINUTES))
+    if (nowMinutes >= start && nowMinutes < start + Math.max(1, duration)) return index
+  }
+  return null
+}
+
+export function formatLastUpdated(updatedAt: number | null, now: number): string {
+  if (!updatedAt) return 'Jamais mis à jour'
+  const seconds = Math.max(0, Math.round((now - updatedAt) / 1000))
+  if (seconds < 10) return "Mis à jour à l'instant"
+  if (seconds < 60) return `Mis à jour il y a ${seconds} s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `Mis à jour il y a ${minutes} min`
+  return `Mis à jour le ${new Date(updatedAt).toLocaleString('fr-FR')}`
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import type { Player } from '../types/api'
+import {
+  buildRosterImportPayload,
+  buildRosterImportRows,
+  getDefaultRosterImportAction,
+  getRosterImportActions,
+  guessColumnMapping,
+  normalizeImportedPosition,
+  parseBirthDate,
+} from './rosterImport'
+
+const POSITIONS = ['GARDIEN', 'DEFENSEUR', 'MILIEU', 'ATTAQUANT'] as const
+const today = new Date(2026, 9, 19, 10)
+
+describe('column mapping', () => {
+  it('recognises French and English headers whatever their spelling', () => {
+    expect(guessColumnMapping(['N° de licence', 'Nom', 'Prénom', 'Date de naissance', 'Poste', 'Courriel', 'Club'])).toEqual({
+      firstName: 2,
+      lastName: 1,
+      fullName: null,
+      dateOfBirth: 3,
+      licence: 0,
+      primaryPosition: 4,
+      email: 5,
+      phone: null,
+    })
+    expect(guessColumnMapping(['first_name', 'last_name', 'date_of_birth'])).toMatchObject({ firstName: 0, lastName: 1, dateOfBirth: 2 })
+  })
+})
+
+describe('cell parsing', () => {
+  it('reads ISO, French and Excel serial birth dates', () => {
+    expect(parseBirthDate('2015-03-04')).toBe('2015-03-04')
+    expect(parseBirthDate('4/3/2015')).toBe('2015-03-04')
+    expect(parseBirthDate('04.03.2015')).toBe('2015-03-04')
+    expect(parseBirthDate('42005')).toBe('2015-01-01')
+    expect(parseBirthDate('31/02/2015')).toBeNull()
+    expect(parseBirthDate('bientôt')).toBeNull()
+  })
+
+  it('validates positions against the allowed list, with common abbreviations', () => {
+    expect(normalizeImportedPosition('Défenseur', POSITIONS)).toBe('DEFENSEUR')
+    expect(normalizeImportedPosition('gb', POSITIONS)).toBe('GARDIEN')
+    expect(normalizeImportedPosition('', POSITIONS)).toBe('')
+    expect(normalizeImportedPosition('Libéro', POSITIONS)).toBeNull()
+    expect(normalizeImportedPosition('ATT', ['GARDIEN'])).toBeNull()
+  })
+})
+
+describe('buildRosterImportRows', () => {
+  const existing: Player[] = [
+    { id: 'p1', name: 'Léa Martin', primary_position: 'MILIEU', licence: '2544 1234' },
+    { id: 'p2', name: 'Tom Petit', primary_position: 'GARDIEN', dateOfBirth: '2015-06-01T00:00:00.000Z' },
+  ]
+  const rows = [
+    ['prenom', 'nom', 'date_of_birth', 'licence', 'poste', 'email'],
+    ['Zoé', 'Durand', '12/09/2014', '', 'Attaquant', 'zoe@example.org'],
+    ['Lea', 'Martin-Roux', '', '25441234', 'Milieu', ''],
+    ['tom', 'petit', '01/06/2015', '', 'Libero', 'pas-un-email'],
+    ['', 'Sans', 'hier', '', '', ''],
+    ['Zoe', 'Durand', '2014-09-12', '', '', ''],
+  ]
+  const result = buildRosterImportRows(rows, guessColumnMapping(rows[0]), existing, { positions: POSITIONS, today })
+
+  it('normalises values and reports errors and warnings per line', () => {
+    expect(result[0]).toMatchObject({
+      line: 2,
+      values: { firstName: 'Zoé', lastName: 'Durand', dateOfBirth: '2014-09-12', primaryPosition: 'ATTAQUANT', email: 'zoe@example.org' },
+      errors: [],
+      duplicateOf: null,
+    })
+    expect(result[2].warnings).toEqual([
+      'Poste inconnu « Libero », le joueur sera importé sans poste',
+      'Email invalide « pas-un-email » ignoré',
+    ])
+    expect(result[3].errors).toEqual(['Prénom manquant', 'Date de naissance illisible « hier »'])
+  })
+
+  it('detects duplicates by licence or by name and birth date', () => {
+    expect(result[1].duplicateOf?.id).toBe('p1')
+    expect(result[2].duplicateOf?.id).toBe('p2')
+    expect(result[4]).toMatchObject({ duplicateOf: null, duplicateInFile: true })
+    expect(result.map(getDefaultRosterImportAction)).toEqual(['create', 'skip', 'skip', 'skip', 'skip'])
+    expect(getRosterImportActions(result[1])).toEqual(['update', 'skip'])
+    expect(getRosterImportActions(result[3])).toEqual(['skip'])
+  })
+})
+
+describe('buildRosterImportPayload', () => {
+  const values = {
+    firstName: 'Zoé',
+    lastName: 'Durand',
+    dateOfBirth: '2014-09-12',
+    licence: '123',
+    primaryPosition: 'ATTAQUANT',
+    email: 'parent@example.org',
+    phone: '0600000000',
+  }
+
+  it('creates children without contact details, like the creation form', () => {
+    const body = buildRosterImportPayload(values, { action: 'create', teamId: 't1', undefinedPosition: 'NON DEFINI', today })
+    expect(body).toMatchObject({
+      name: 'Zoé Durand',
+      prenom: 'Zoé',
+      nom: 'Durand',
+      isChild: true,
+      primary_position: 'ATTAQUANT',
+      licence: '123',
+      date_of_birth: '2014-09-12',
+      teamId: 't1',
+    })
+    expect(body).not.toHaveProperty('email')
+    expect(body).not.toHaveProperty('phone')
+  })
+
+  it('only sends filled columns on update', () => {
+    const body = buildRosterImportPayload(
+      { ...values, dateOfBirth: '', primaryPosition: '', licence: '', phone: '' },
+      { action: 'update', teamId: null, undefinedPosition: 'NON DEFINI', today },
+    )
+    expect(body).toEqual({
+      name: 'Zoé Durand',
+      firstName: 'Zoé',
+      first_name: 'Zoé',
+      prenom: 'Zoé',
+      lastName: 'Durand',
+      last_name: 'Durand',
+      nom: 'Durand',
+      email: 'parent@example.org',
+    })
+  })
+})
@@ -0,0 +1,338 @@
+import type { Player } from '../types/api'
+import { toDayKey } from './curriculum'
+import type { SpreadsheetRows } from './spreadsheet'
+
+export const ADULT_AGE = 18
+
+export type RosterImportField =
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'dateOfBirth'
+  | 'licence'
+  | 'primaryPosition'
+  | 'email'
+  | 'phone'
+
+export type RosterColumnMapping = Record<RosterImportField, number | null>
+
+export type RosterImportValues = {
+  firstName: string
+  lastName: string
+  // Day key, empty when the file has no usable birth date.
+  dateOfBirth: string
+  licence: string
+  // One of the allowed positions, empty when unknown.
+  primaryPosition: string
+  email: string
+  phone: string
+}
+
+export type RosterImportAction = 'create' | 'update' | 'skip'
+
+export type RosterImportRow = {
+  // Line in the spreadsheet, the header being line 1.
+  line: number
+  values: RosterImportValues
+  errors: string[]
+  warnings: string[]
+  duplicateOf: Player | null
+  duplicateInFile: boolean
+}
+
+export type RosterImportOptions = {
+  positions: readonly string[]
+  today?: Date
+}
+
+export type RosterPayloadOptions = {
+  action: Exclude<RosterImportAction, 'skip'>
+  teamId: string | null
+  undefinedPosition: string
+  today?: Date
+}
+
+export const ROSTER_IMPORT_FIELDS: Array<{ field: RosterImportField; label: string; aliases: string[] }> = [
+  { field: 'firstName', label: 'Prénom', aliases: ['prenom', 'firstname', 'first_name', 'prenom_joueur'] },
+  { field: 'lastName', label: 'Nom', aliases: ['nom', 'lastname', 'last_name', 'nom_de_famille', 'nom_joueur', 'nom_d_usage'] },
+  { field: 'fullName', label: 'Nom complet', aliases: ['name', 'nom_complet', 'nom_prenom', 'prenom_nom', 'joueur'] },
+  {
+    field: 'dateOfBirth',
+    label: 'Date de naissance',
+    aliases: ['date_of_birth', 'dateofbirth', 'birthdate', 'date_de_naissance', 'date_naissance', 'naissance', 'ne_le', 'ne_e_le'],
+  },
+  {
+    field: 'licence',
+    label: 'Licence',
+    aliases: ['licence', 'license', 'numero_de_licence', 'numero_licence', 'num_licence', 'n_licence', 'n_de_licence', 'no_licence', 'licence_n'],
+  },
+  { field: 'primaryPosition', label: 'Poste', aliases: ['poste', 'position', 'primary_position', 'poste_principal'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'e_mail', 'mail', 'courriel', 'adresse_mail', 'adresse_email'] },
+  { field: 'phone', label: 'Téléphone', aliases: ['telephone', 'tel', 'phone', 'portable', 'mobile', 'telephone_portable'] },
+]
+
+const POSITION_ALIASES: Record<string, string> = {
+  G: 'GARDIEN',
+  GB: 'GARDIEN',
+  GARDIEN_DE_BUT: 'GARDIEN',
+  GOAL: 'GARDIEN',
+  GOALKEEPER: 'GARDIEN',
+  D: 'DEFENSEUR',
+  DEF: 'DEFENSEUR',
+  DEFENSE: 'DEFENSEUR',
+  DEFENDER: 'DEFENSEUR',
+  M: 'MILIEU',
+  MIL: 'MILIEU',
+  MILIEU_DE_TERRAIN: 'MILIEU',
+  MIDFIELDER: 'MILIEU',
+  A: 'ATTAQUANT',
+  ATT: 'ATTAQUANT',
+  ATTAQUE: 'ATTAQUANT',
+  AVANT_CENTRE: 'ATTAQUANT',
+  FORWARD: 'ATTAQUANT',
+}
+
+// Excel counts days from 1899-12-30 (the 1900 leap year bug included).
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30)
+const DAY_MS = 24 * 60 * 60 * 1000
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function stripAccents(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+// "N° de licence", "Date de naissance " and "date_of_birth" all end up as snake case keys.
+export function toColumnKey(header: string): string {
+  return stripAccents(header)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+// Case, accent and spacing insensitive key used to compare names.
+function toNameKey(value: string): string {
+  return stripAccents(value).toLowerCase().replace(/[\s'-]+/g, ' ').trim()
+}
+
+function toLicenceKey(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase()
+}
+
+function emptyMapping(): RosterColumnMapping {
+  return {
+    firstName: null,
+    lastName: null,
+    fullName: null,
+    dateOfBirth: null,
+    licence: null,
+    primaryPosition: null,
+    email: null,
+    phone: null,
+  }
+}
+
+export function guessColumnMapping(headers: string[]): RosterColumnMapping {
+  const mapping = emptyMapping()
+  const keys = headers.map(toColumnKey)
+  for (const { field, aliases } of ROSTER_IMPORT_FIELDS) {
+    const index = keys.findIndex((key, column) => aliases.includes(key) && !Object.values(mapping).includes(column))
+    if (index >= 0) mapping[field] = index
+  }
+  return mapping
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day)
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+}
+
+// Accepts ISO days, French DD/MM/YYYY (also with `-` or `.`) and Excel serial numbers; null when unreadable.
+export function parseBirthDate(value: string): string | null {
+  const trimmed = value.trim()
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/.exec(trimmed)
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    return isValidDay(year, month, day) ? `${iso[1]}-${iso[2]}-${iso[3]}` : null
+  }
+  const french = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(trimmed)
+  if (french) {
+    const day = Number(french[1])
+    const month = Number(french[2])
+    let year = Number(french[3])
+    if (french[3].length === 2) year += year > new Date().getFullYear() % 100 ? 1900 : 2000
+    if (!isValidDay(year, month, day)) return null
+    return toDayKey(new Date(year, month - 1, day))
+  }
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = Math.floor(Number(trimmed))
+    if (serial < 1) return null
+    const date = new Date(EXCEL_EPOCH_UTC + serial * DAY_MS)
+    return toDayKey(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+  return null
+}
+
+// Returns the matching allowed position, '' for an empty cell and null when the value is not recognised.
+export function normalizeImportedPosition(value: string, positions: readonly string[]): string | null {
+  const key = stripAccents(value).toUpperCase().replace(/[^A-Z]+/g, '_').replace(/^_+|_+$/g, '')
+  if (!key) return ''
+  const position = positions.includes(key) ? key : POSITION_ALIASES[key]
+  return position && positions.includes(position) ? position : null
+}
+
+export function computeAge(dateOfBirth: string, today: Date = new Date()): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateOfBirth)
+  if (!match) return null
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  let age = today.getFullYear() - year
+  if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) age -= 1
+  return age
+}
+
+function splitFullName(value: string): { firstName: string; lastName: string } {
+  const parts = value.trim().split(/\s+/).filter(Boolean)
+  if (!parts.length) return { firstName: '', lastName: '' }
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') }
+}
+
+function getPlayerIdentity(player: Player): { firstName: string; lastName: string; dateOfBirth: string; licence: string } {
+  let firstName = (player.firstName || player.first_name || player.prenom || '').trim()
+  let lastName = (player.lastName || player.last_name || player.nom || '').trim()
+  if (!firstName && !lastName) ({ firstName, lastName } = splitFullName(player.name || ''))
+  return {
+    firstName,
+    lastName,
+    dateOfBirth: (player.dateOfBirth || player.date_of_birth || '').slice(0, 10),
+    licence: (player.licence || player.license || '').trim(),
+  }
+}
+
+// Name + birth date only identifies someone when the birth date is known.
+function identityKey(firstName: string, lastName: string, dateOfBirth: string): string | null {
+  if (!dateOfBirth || !firstName) return null
+  return `${toNameKey(firstName)}|${toNameKey(lastName)}|${dateOfBirth}`
+}
+
+function readValues(cells: string[], mapping: RosterColumnMapping, options: RosterImportOptions) {
+  const cell = (field: RosterImportField) => {
+    const column = mapping[field]
+    return column === null ? '' : (cells[column] ?? '').trim()
+  }
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  let firstName = cell('firstName')
+  let lastName = cell('lastName')
+  if (!firstName && !lastName && cell('fullName')) ({ firstName, lastName } = splitFullName(cell('fullName')))
+  if (!firstName) errors.push('Prénom manquant')
+
+  const rawDate = cell('dateOfBirth')
+  let dateOfBirth = ''
+  if (rawDate) {
+    const parsed = parseBirthDate(rawDate)
+    if (!parsed) errors.push(`Date de naissance illisible « ${rawDate} »`)
+    else if (parsed > toDayKey(options.today ?? new Date())) errors.push(`Date de naissance dans le futur « ${rawDate} »`)
+    else dateOfBirth = parsed
+  }
+
+  const rawPosition = cell('primaryPosition')
+  const position = normalizeImportedPosition(rawPosition, options.positions)
+  if (position === null) warnings.push(`Poste inconnu « ${rawPosition} », le joueur sera importé sans poste`)
+
+  let email = cell('email')
+  if (email && !EMAIL_PATTERN.test(email)) {
+    warnings.push(`Email invalide « ${email} » ignoré`)
+    email = ''
+  }
+
+  const values: RosterImportValues = {
+    firstName,
+    lastName,
+    dateOfBirth,
+    licence: cell('licence'),
+    primaryPosition: position ?? '',
+    email,
+    phone: cell('phone'),
+  }
+  return { values, errors, warnings }
+}
+
+// Duplicates are matched by licence number first, then by name + birth date, against the club roster and
+// against earlier lines of the same file.
+export function buildRosterImportRows(
+  rows: SpreadsheetRows,
+  mapping: RosterColumnMapping,
+  existing: Player[],
+  options: RosterImportOptions,
+): RosterImportRow[] {
+  const byLicence = new Map<string, Player>()
+  const byIdentity = new Map<string, Player>()
+  for (const player of existing) {
+    const identity = getPlayerIdentity(player)
+    if (identity.licence) byLicence.set(toLicenceKey(identity.licence), player)
+    const key = identityKey(identity.firstName, identity.lastName, identity.dateOfBirth)
+    if (key) byIdentity.set(key, player)
+  }
+
+  const seenKeys = new Set<string>()
+  return rows.slice(1).map((cells, index) => {
+    const { values, errors, warnings } = readValues(cells, mapping, options)
+    const licenceKey = values.licence ? `licence:${toLicenceKey(values.licence)}` : null
+    const personKey = identityKey(values.firstName, values.lastName, values.dateOfBirth)
+    const duplicateOf = (values.licence ? byLicence.get(toLicenceKey(values.licence)) : undefined)
+      ?? (personKey ? byIdentity.get(personKey) : undefined)
+      ?? null
+    const keys = [licenceKey, personKey ? `person:${personKey}` : null].filter((key): key is string => Boolean(key))
+    const duplicateInFile = keys.some((key) => seenKeys.has(key))
+    keys.forEach((key) => seenKeys.add(key))
+    return { line: index + 2, values, errors, warnings, duplicateOf, duplicateInFile }
+  })
+}
+
+export function getRosterImportActions(row: RosterImportRow): RosterImportAction[] {
+  if (row.errors.length > 0) return ['skip']
+  return row.duplicateOf ? ['update', 'skip'] : ['create', 'skip']
+}
+
+// Anything that may already exist is left out until the coach opts in.
+export function getDefaultRosterImportAction(row: RosterImportRow): RosterImportAction {
+  if (row.errors.length > 0 || row.duplicateOf || row.duplicateInFile) return 'skip'
+  return 'create'
+}
+
+// Same body as the creation modal. Updates only send the columns filled in the file so existing data is kept.
+// Players under ADULT_AGE are imported as children, whose contact details are not stored.
+export function buildRosterImportPayload(values: RosterImportValues, options: RosterPayloadOptions): Record<string, unknown> {
+  const age = values.dateOfBirth ? computeAge(values.dateOfBirth, options.today) : null
+  const isChild = age !== null ? age < ADULT_AGE : null
+  const body: Record<string, unknown> = {
+    name: [values.firstName, values.lastName].filter(Boolean).join(' '),
+    firstName: values.firstName,
+    first_name: values.firstName,
+    prenom: values.firstName,
+  }
+  if (isChild !== null || options.action === 'create') {
+    body.isChild = Boolean(isChild)
+    body.enfant = Boolean(isChild)
+  }
+  if (values.lastName) {
+    body.lastName = values.lastName
+    body.last_name = values.lastName
+    body.nom = values.lastName
+  }
+  if (values.primaryPosition && values.primaryPosition !== options.undefinedPosition) {
+    body.primary_position = values.primaryPosition
+  }
+  if (!isChild && values.email) body.email = values.email
+  if (!isChild && values.phone) body.phone = values.phone
+  if (values.licence) {
+    body.licence = values.licence
+    body.license = values.licence
+  }
+  if (values.dateOfBirth) {
+    body.dateOfBirth = values.dateOfBirth
+    body.date_of_birth = values.dateOfBirth
+  }
+  if (options.teamId) body.teamId = options.teamId
+  return body
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import type { MatchLite, Player } from '../types/api'
+import {
+  buildLineupPayload,
+  planRotationDay,
+  setPlannedGoalkeeper,
+  togglePlannedStarter,
+  type PlannableMatch,
+} from './rotationPlanner'
+
+function match(id: string): MatchLite {
+  return {
+    id,
+    createdAt: '2025-10-04T10:00:00Z',
+    type: 'PLATEAU',
+    matchdayId: 'md-1',
+    teams: [
+      { id: `${id}-home`, side: 'home', score: 2, players: [] },
+      { id: `${id}-away`, side: 'away', score: 1, players: [{ playerId: 'opp-1', role: 'starter' }] },
+    ],
+    scorers: [{ playerId: 'p1', side: 'home' }],
+  }
+}
+
+function planned(id: string, slotTime: string): PlannableMatch {
+  return { matchId: id, slotTime, opponent: `Équipe ${id}`, match: match(id) }
+}
+
+function player(id: string, primary_position?: string): Player {
+  return { id, name: id.toUpperCase(), primary_position } as Player
+}
+
+const squad = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7'].map((id) => player(id))
+const matches = ['m1', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7'].map((id, index) => planned(id, `10:${index}0`))
+
+describe('planRotationDay', () => {
+  it('spreads starts evenly and never keeps the same goalkeeper twice in a row', () => {
+    const plan = planRotationDay({ matches, players: squad, startersPerMatch: 5, matchMinutes: 10 })
+    const starts = squad.map((p) => plan.lineups.filter((lineup) => lineup.starters.includes(p.id)).length)
+    expect(Math.max(...starts) - Math.min(...starts)).toBeLessThanOrEqual(1)
+    plan.lineups.forEach((lineup, index) => {
+      expect(lineup.starters).toHaveLength(5)
+      expect(lineup.starters).toContain(lineup.goalkeeperId)
+      if (index > 0) expect(lineup.goalkeeperId).not.toBe(plan.lineups[index - 1].goalkeeperId)
+    })
+  })
+
+  it('rotates declared goalkeepers only', () => {
+    const players = [...squad.slice(0, 5), player('g1', 'GARDIEN'), player('g2', 'gardien')]
+    const plan = planRotationDay({ matches: matches.slice(0, 4), players, startersPerMatch: 5, matchMinutes: 10 })
+    expect(plan.lineups.map((lineup) => lineup.goalkeeperId)).toEqual(['g1', 'g2', 'g1', 'g2'])
+  })
+
+  it('keeps fixed lineups and compensates in the other matches', () => {
+    const fixed = { m1: { matchId: 'm1', goalkeeperId: 'p1', starters: ['p1', 'p2', 'p3', 'p4', 'p5'], subs: ['p6', 'p7'] } }
+    const plan = planRotationDay({ matches: matches.slice(0, 2), players: squad, startersPerMatch: 5, matchMinutes: 10, fixed })
+    expect(plan.lineups[0]).toBe(fixed.m1)
+    expect(plan.lineups[1].starters).toEqual(expect.arrayContaining(['p6', 'p7']))
+    expect(plan.lineups[1].goalkeeperId).not.toBe('p1')
+  })
+})
+
+describe('lineup edits', () => {
+  const lineup = { matchId: 'm1', goalkeeperId: 'p1', starters: ['p1', 'p2'], subs: ['p3'] }
+
+  it('moves players between starters and subs', () => {
+    expect(togglePlannedStarter(lineup, 'p1')).toEqual({ matchId: 'm1', goalkeeperId: null, starters: ['p2'], subs: ['p3', 'p1'] })
+    expect(togglePlannedStarter(lineup, 'p3').starters).toEqual(['p1', 'p2', 'p3'])
+  })
+
+  it('makes the chosen goalkeeper a starter', () => {
+    expect(setPlannedGoalkeeper(lineup, 'p3')).toEqual({ matchId: 'm1', goalkeeperId: 'p3', starters: ['p3', 'p1', 'p2'], subs: [] })
+  })
+})
+
+describe('buildLineupPayload', () => {
+  it('replaces our composition and keeps score, scorers and opponent side', () => {
+    const payload = buildLineupPayload(match('m1'), { matchId: 'm1', goalkeeperId: 'p2', starters: ['p2'], subs: ['p1'] })
+    expect(payload.sides).toEqual({ home: { starters: ['p2'], subs: ['p1'] }, away: { starters: ['opp-1'], subs: [] } })
+    expect(payload.score).toEqual({ home: 2, away: 1 })
+    expect(payload.buteurs).toEqual([{ side: 'home', playerId: 'p1', assistId: undefined }])
+  })
+})
@@ -0,0 +1,173 @@
+import type { MatchLite, MatchScorer, Player } from '../types/api'
+import { STARTER_LOAD_WEIGHT, SUB_LOAD_WEIGHT } from './playingTime'
+import type { LinkedRotationSlot } from './rotationLinking'
+
+export type PlannableMatch = {
+  matchId: string
+  slotTime: string
+  opponent: string
+  match: MatchLite
+}
+
+export type PlannedLineup = {
+  matchId: string
+  goalkeeperId: string | null
+  starters: string[]
+  subs: string[]
+}
+
+export type RotationDayPlan = {
+  lineups: PlannedLineup[]
+  // Expected minutes over the day, starters weighted like in the single-match balancing.
+  loadByPlayerId: Map<string, number>
+  goalkeeperTurnsByPlayerId: Map<string, number>
+}
+
+export type RotationPlanInput = {
+  matches: PlannableMatch[]
+  players: Player[]
+  startersPerMatch: number
+  matchMinutes: number
+  // Lineups the coach already accepted or edited: kept as-is and counted in everyone's load.
+  fixed?: Record<string, PlannedLineup>
+}
+
+export function isGoalkeeper(player: Player | undefined) {
+  return (player?.primary_position || '').trim().toUpperCase() === 'GARDIEN'
+}
+
+// Club games linked to a match, in kick-off order.
+export function collectPlannableMatches(slots: LinkedRotationSlot[]): PlannableMatch[] {
+  const seen = new Set<string>()
+  const list: PlannableMatch[] = []
+  for (const slot of slots) {
+    for (const game of slot.games) {
+      const match = game.linkedMatch
+      if (!game.isClubGame || !match || seen.has(match.id)) continue
+      seen.add(match.id)
+      list.push({ matchId: match.id, slotTime: slot.time, opponent: game.opponent || match.opponentName || 'Adversaire', match })
+    }
+  }
+  return list
+}
+
+function addLoad(loadByPlayerId: Map<string, number>, lineup: PlannedLineup, matchMinutes: number) {
+  for (const playerId of lineup.starters) {
+    loadByPlayerId.set(playerId, (loadByPlayerId.get(playerId) ?? 0) + matchMinutes * STARTER_LOAD_WEIGHT)
+  }
+  for (const playerId of lineup.subs) {
+    loadByPlayerId.set(playerId, (loadByPlayerId.get(playerId) ?? 0) + matchMinutes * SUB_LOAD_WEIGHT)
+  }
+}
+
+// Greedy day plan: each match starts the least loaded players, and the goalkeeper rotates among
+// declared keepers (everyone when nobody is declared), never twice in a row when another keeper is
+// available. Fixed lineups are applied first so later matches compensate for the coach's choices.
+export function planRotationDay(input: RotationPlanInput): RotationDayPlan {
+  const { players, matchMinutes } = input
+  const startersPerMatch = Math.max(0, Math.min(input.startersPerMatch, players.length))
+  const fixed = input.fixed ?? {}
+  const keeperPool = players.some(isGoalkeeper) ? players.filter(isGoalkeeper) : players
+  const loadByPlayerId = new Map(players.map((player) => [player.id, 0] as const))
+  const goalkeeperTurnsByPlayerId = new Map<string, number>()
+
+  for (const planned of input.matches) {
+    const lineup = fixed[planned.matchId]
+    if (!lineup) continue
+    addLoad(loadByPlayerId, lineup, matchMinutes)
+    if (lineup.goalkeeperId) {
+      goalkeeperTurnsByPlayerId.set(lineup.goalkeeperId, (goalkeeperTurnsByPlayerId.get(lineup.goalkeeperId) ?? 0) + 1)
+    }
+  }
+
+  const byLoad = (a: Player, b: Player) => (
+    (loadByPlayerId.get(a.id) ?? 0) - (loadByPlayerId.get(b.id) ?? 0) || a.name.localeCompare(b.name)
+  )
+
+  const lineups: PlannedLineup[] = []
+  let previousGoalkeeperId: string | null = null
+  for (const planned of input.matches) {
+    const fixedLineup = fixed[planned.matchId]
+    if (fixedLineup) {
+      lineups.push(fixedLineup)
+      previousGoalkeeperId = fixedLineup.goalkeeperId
+      continue
+    }
+    if (startersPerMatch === 0) {
+      lineups.push({ matchId: planned.matchId, goalkeeperId: null, starters: [], subs: players.map((player) => player.id) })
+      continue
+    }
+
+    const keeperCandidates = keeperPool
+      .slice()
+      .sort((a, b) => (
+        (goalkeeperTurnsByPlayerId.get(a.id) ?? 0) - (goalkeeperTurnsByPlayerId.get(b.id) ?? 0) || byLoad(a, b)
+      ))
+    const goalkeeper = keeperCandidates.find((player) => player.id !== previousGoalkeeperId) ?? keeperCandidates[0] ?? null
+    const fieldPlayers = players
+      .filter((player) => player.id !== goalkeeper?.id)
+      .sort(byLoad)
+      .slice(0, startersPerMatch - (goalkeeper ? 1 : 0))
+    const starters = [...(goalkeeper ? [goalkeeper.id] : []), ...fieldPlayers.map((player) => player.id)]
+    const starterSet = new Set(starters)
+    const lineup: PlannedLineup = {
+      matchId: planned.matchId,
+      goalkeeperId: goalkeeper?.id ?? null,
+      starters,
+      subs: players.filter((player) => !starterSet.has(player.id)).map((player) => player.id),
+    }
+    lineups.push(lineup)
+    addLoad(loadByPlayerId, lineup, matchMinutes)
+    if (lineup.goalkeeperId) {
+      goalkeeperTurnsByPlayerId.set(lineup.goalkeeperId, (goalkeeperTurnsByPlayerId.get(lineup.goalkeeperId) ?? 0) + 1)
+    }
+    previousGoalkeeperId = lineup.goalkeeperId
+  }
+
+  return { lineups, loadByPlayerId, goalkeeperTurnsByPlayerId }
+}
+
+// Moves a player between starters and subs, keeping the goalkeeper consistent with the starters.
+export function togglePlannedStarter(lineup: PlannedLineup, playerId: string): PlannedLineup {
+  if (lineup.starters.includes(playerId)) {
+    return {
+      ...lineup,
+      goalkeeperId: lineup.goalkeeperId === playerId ? null : lineup.goalkeeperId,
+      starters: lineup.starters.filter((id) => id !== playerId),
+      subs: [...lineup.subs, playerId],
+    }
+  }
+  return { ...lineup, starters: [...lineup.starters, playerId], subs: lineup.subs.filter((id) => id !== playerId) }
+}
+
+export function setPlannedGoalkeeper(lineup: PlannedLineup, playerId: string | null): PlannedLineup {
+  if (!playerId) return { ...lineup, goalkeeperId: null }
+  const next = lineup.starters.includes(playerId) ? lineup : togglePlannedStarter(lineup, playerId)
+  return { ...next, goalkeeperId: playerId, starters: [playerId, ...next.starters.filter((id) => id !== playerId)] }
+}
+
+// Same body as the match page composition save, so accepting a planned lineup keeps score, scorers
+// and tactic untouched.
+export function buildLineupPayload(match: MatchLite & { tactic?: unknown }, lineup: PlannedLineup) {
+  const home = match.teams.find((team) => team.side === 'home')
+  const away = match.teams.find((team) => team.side === 'away')
+  const awayIds = (role: 'starter' | 'sub') => (away?.players || [])
+    .filter((row) => (role === 'sub' ? row.role === 'sub' : row.role !== 'sub'))
+    .map((row) => row.playerId || row.player?.id)
+    .filter((playerId): playerId is string => Boolean(playerId))
+  return {
+    type: match.type,
+    matchdayId: match.matchdayId ?? undefined,
+    sides: {
+      home: { starters: lineup.starters, subs: lineup.subs },
+      away: { starters: awayIds('starter'), subs: awayIds('sub') },
+    },
+    score: { home: home?.score ?? 0, away: away?.score ?? 0 },
+    buteurs: (match.scorers || [])
+      .filter((scorer) => scorer.side === 'home')
+      .map((scorer) => ({ side: scorer.side, playerId: scorer.playerId, assistId: (scorer as MatchScorer & { assistId?: string }).assistId })),
+    opponentName: match.opponentName ?? '',
+    ...(typeof match.played === 'boolean' ? { played: match.played } : {}),
+    ...(match.tactic ? { tactic: match.tactic } : {}),
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { AttendanceRow, MatchLite, Player, Season } from '../types/api'
+import {
+  buildCumulativeAverages,
+  computeAttendanceRate,
+  defaultComparisonSeasonId,
+  sortSeasons,
+  summarizeSeason,
+} from './seasonStats'
+
+function match(id: string, createdAt: string, gf: number, ga: number, extra: Partial<MatchLite> = {}): MatchLite {
+  return {
+    id,
+    createdAt,
+    type: 'ENTRAINEMENT',
+    played: true,
+    teams: [
+      { side: 'home', score: gf, players: [] },
+      { side: 'away', score: ga, players: [] },
+    ],
+    scorers: [],
+    ...extra,
+  } as MatchLite
+}
+
+function season(id: string, startDate: string): Season {
+  return { id, clubId: 'c1', key: id, label: id, startDate, endDate: startDate }
+}
+
+describe('summarizeSeason', () => {
+  it('counts results and home scorers on played matches only', () => {
+    const summary = summarizeSeason({
+      matches: [
+        match('m2', '2025-10-02T10:00:00Z', 1, 1),
+        match('m1', '2025-10-01T10:00:00Z', 3, 1, {
+          scorers: [
+            { playerId: 'p1', side: 'home' },
+            { playerId: 'p1', side: 'home' },
+            { playerId: 'x', side: 'away' },
+          ],
+        } as Partial<MatchLite>),
+        match('m3', '2025-10-03T10:00:00Z', 0, 2, { played: false }),
+      ],
+      matchdays: [],
+      trainings: [],
+      attendance: [],
+    }, [{ id: 'p1', name: 'Léo' } as Player], 'match')
+
+    expect(summary).toMatchObject({ wins: 1, draws: 1, losses: 0, totalFor: 4, totalAgainst: 2 })
+    expect(summary.playedMatches.map((m) => m.id)).toEqual(['m1', 'm2'])
+    expect(summary.scorers).toEqual([{ playerId: 'p1', name: 'Léo', goals: 2 }])
+    expect(summary.avgForSeries).toEqual([{ x: 1, y: 3 }, { x: 2, y: 2 }])
+  })
+})
+
+describe('buildCumulativeAverages', () => {
+  it('averages per plateau before cumulating', () => {
+    const groups = [
+      { id: 'a', createdAt: 1, label: 'A', matches: [match('m1', '2025-10-01', 2, 0), match('m2', '2025-10-01', 0, 0)] },
+      { id: 'b', createdAt: 2, label: 'B', matches: [match('m3', '2025-10-08', 3, 1)] },
+    ]
+    const { avgForSeries, avgAgainstSeries } = buildCumulativeAverages([], groups, 'plateau')
+    expect(avgForSeries).toEqual([{ x: 1, y: 1 }, { x: 2, y: 2 }])
+    expect(avgAgainstSeries).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0.5 }])
+  })
+})
+
+describe('computeAttendanceRate', () => {
+  it('divides present marks by sessions times season players', () => {
+    const rows: AttendanceRow[] = [
+      { session_type: 'TRAINING', session_id: 't1', playerId: 'p1', present: true },
+      { session_type: 'TRAINING', session_id: 't1', playerId: 'p2', present: false },
+      { session_type: 'TRAINING', session_id: 't2', playerId: 'p1', present: true },
+      { session_type: 'PLATEAU', session_id: 'd1', playerId: 'p2', present: true },
+    ]
+    expect(computeAttendanceRate(rows, 'TRAINING')).toBe(0.5)
+    expect(computeAttendanceRate(rows, 'PLATEAU')).toBe(0.5)
+    expect(computeAttendanceRate([], 'TRAINING')).toBeNull()
+  })
+})
+
+describe('season ordering', () => {
+  it('compares with the previous season by default', () => {
+    const seasons = [season('2024', '2024-09-01'), season('2025', '2025-09-01'), season('2023', '2023-09-01')]
+    expect(sortSeasons(seasons).map((s) => s.id)).toEqual(['2025', '2024', '2023'])
+    expect(defaultComparisonSeasonId(seasons, '2025')).toBe('2024')
+    expect(defaultComparisonSeasonId(seasons, '2023')).toBeNull()
+  })
+})
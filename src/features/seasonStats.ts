@@ -0,0 +1,177 @@
+import { isMatchNotPlayed } from '../matchStatus'
+import type { AttendanceRow, MatchLite, Matchday, Player, Season, Training } from '../types/api'
+
+export type SeriesPoint = { x: number; y: number }
+export type StatsViewMode = 'match' | 'plateau'
+
+export type SeasonDataset = {
+  matches: MatchLite[]
+  matchdays: Matchday[]
+  trainings: Training[]
+  attendance: AttendanceRow[]
+}
+
+export type PlateauGroup = { id: string; createdAt: number; matches: MatchLite[]; label: string }
+
+export type ScorerRow = { playerId: string; name: string; goals: number }
+
+export type SeasonSummary = {
+  playedMatches: MatchLite[]
+  plateauGroups: PlateauGroup[]
+  wins: number
+  draws: number
+  losses: number
+  totalFor: number
+  totalAgainst: number
+  avgForSeries: SeriesPoint[]
+  avgAgainstSeries: SeriesPoint[]
+  trainingAttendanceRate: number | null
+  plateauAttendanceRate: number | null
+  scorers: ScorerRow[]
+}
+
+function sortByDateAsc<T extends { createdAt: string }>(arr: T[]) {
+  return arr.slice().sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+}
+
+function homeScore(match: MatchLite) {
+  return match.teams.find((t) => t.side === 'home')?.score ?? 0
+}
+
+function awayScore(match: MatchLite) {
+  return match.teams.find((t) => t.side === 'away')?.score ?? 0
+}
+
+export function getVisiblePlayerName(name?: string | null) {
+  return typeof name === 'string' && name.trim() ? name.trim() : 'Joueur inconnu'
+}
+
+export function selectPlayedMatches(matches: MatchLite[], matchdays: Matchday[]): MatchLite[] {
+  const plateauDateById = new Map(matchdays.map((p) => [p.id, p.date] as const))
+  return sortByDateAsc(matches).filter((m) => !isMatchNotPlayed(m, {
+    referenceDate: m.matchdayId ? (plateauDateById.get(m.matchdayId) ?? null) : null,
+  }))
+}
+
+// Group matches by plateau (only type PLATEAU) and order groups by earliest createdAt, with plateau label
+export function groupPlateauMatches(playedMatches: MatchLite[], matchdays: Matchday[]): PlateauGroup[] {
+  const plateauById = new Map(matchdays.map(p => [p.id, p]))
+  const byId = new Map<string, PlateauGroup>()
+  for (const m of playedMatches) {
+    if (m.type !== 'PLATEAU') continue
+    const pid = m.matchdayId ?? undefined
+    const key = pid || `__no_plateau__:${m.id}`
+    const label = pid ? (plateauById.get(pid)?.lieu || 'Plateau') : 'Plateau'
+    const rec = byId.get(key) || { id: key, createdAt: new Date(m.createdAt).getTime(), matches: [], label }
+    rec.matches.push(m)
+    if (!byId.has(key)) byId.set(key, rec)
+    rec.createdAt = Math.min(rec.createdAt, new Date(m.createdAt).getTime())
+  }
+  return Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt)
+}
+
+// Cumulative goals-for/against averages, either per match or per plateau (plateau average, then cumulated).
+export function buildCumulativeAverages(
+  playedMatches: MatchLite[],
+  plateauGroups: PlateauGroup[],
+  mode: StatsViewMode,
+): { avgForSeries: SeriesPoint[]; avgAgainstSeries: SeriesPoint[] } {
+  const avgForSeries: SeriesPoint[] = []
+  const avgAgainstSeries: SeriesPoint[] = []
+  let sumFor = 0, sumAgainst = 0
+
+  if (mode === 'match') {
+    playedMatches.forEach((m, i) => {
+      sumFor += homeScore(m); sumAgainst += awayScore(m)
+      avgForSeries.push({ x: i + 1, y: sumFor / (i + 1) })
+      avgAgainstSeries.push({ x: i + 1, y: sumAgainst / (i + 1) })
+    })
+    return { avgForSeries, avgAgainstSeries }
+  }
+
+  plateauGroups.forEach((g, i) => {
+    if (g.matches.length === 0) return
+    let gfSum = 0, gaSum = 0
+    for (const m of g.matches) {
+      gfSum += homeScore(m)
+      gaSum += awayScore(m)
+    }
+    sumFor += gfSum / g.matches.length; sumAgainst += gaSum / g.matches.length
+    avgForSeries.push({ x: i + 1, y: sumFor / (i + 1) })
+    avgAgainstSeries.push({ x: i + 1, y: sumAgainst / (i + 1) })
+  })
+  return { avgForSeries, avgAgainstSeries }
+}
+
+// Map playerId -> goals (we count only 'home' side as notre équipe)
+export function tallyScorers(playedMatches: MatchLite[], players: Player[]): ScorerRow[] {
+  const tally = new Map<string, number>()
+  const scorerNameById = new Map<string, string>()
+  for (const m of playedMatches) {
+    for (const s of m.scorers || []) {
+      if (s.side !== 'home') continue
+      tally.set(s.playerId, (tally.get(s.playerId) || 0) + 1)
+      if (!scorerNameById.has(s.playerId) && typeof s.playerName === 'string' && s.playerName.trim()) {
+        scorerNameById.set(s.playerId, s.playerName.trim())
+      }
+    }
+  }
+  const nameById = new Map(players.map(p => [p.id, p.name] as const))
+  const rows = Array.from(tally.entries()).map(([playerId, goals]) => ({
+    playerId,
+    name: getVisiblePlayerName(nameById.get(playerId) || scorerNameById.get(playerId)),
+    goals,
+  }))
+  rows.sort((a, b) => b.goals - a.goals || a.name.localeCompare(b.name))
+  return rows
+}
+
+// Present marks over possible marks, where "possible" is every session of that type recorded in the
+// season times the players seen in the season's attendance. Null when nothing was recorded.
+export function computeAttendanceRate(attendance: AttendanceRow[], sessionType: AttendanceRow['session_type']): number | null {
+  const seasonPlayers = new Set(attendance.map((a) => a.playerId))
+  const rows = attendance.filter((a) => a.session_type === sessionType)
+  const sessions = new Set(rows.map((a) => a.session_id))
+  const possible = sessions.size * seasonPlayers.size
+  if (possible === 0) return null
+  const present = new Set(rows.filter((a) => a.present === true).map((a) => `${a.session_id}:${a.playerId}`))
+  return present.size / possible
+}
+
+export function summarizeSeason(dataset: SeasonDataset, players: Player[], mode: StatsViewMode): SeasonSummary {
+  const playedMatches = selectPlayedMatches(dataset.matches, dataset.matchdays)
+  const plateauGroups = groupPlateauMatches(playedMatches, dataset.matchdays)
+  let wins = 0, draws = 0, losses = 0, totalFor = 0, totalAgainst = 0
+  for (const m of playedMatches) {
+    const gf = homeScore(m)
+    const ga = awayScore(m)
+    totalFor += gf
+    totalAgainst += ga
+    if (gf > ga) wins++; else if (gf === ga) draws++; else losses++
+  }
+  return {
+    playedMatches,
+    plateauGroups,
+    wins,
+    draws,
+    losses,
+    totalFor,
+    totalAgainst,
+    ...buildCumulativeAverages(playedMatches, plateauGroups, mode),
+    trainingAttendanceRate: computeAttendanceRate(dataset.attendance, 'TRAINING'),
+    plateauAttendanceRate: computeAttendanceRate(dataset.attendance, 'PLATEAU'),
+    scorers: tallyScorers(playedMatches, players),
+  }
+}
+
+// Most recent season first; the current season is the default selection.
+export function sortSeasons(seasons: Season[]): Season[] {
+  return seasons.slice().sort((a, b) => b.startDate.localeCompare(a.startDate))
+}
+
+export function defaultComparisonSeasonId(seasons: Season[], selectedId: string | null): string | null {
+  const ordered = sortSeasons(seasons)
+  const index = ordered.findIndex((s) => s.id === selectedId)
+  if (index < 0) return null
+  return ordered[index + 1]?.id ?? null
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, parseXlsx, readSpreadsheetFile } from './spreadsheet'
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Hand-written zip with a central directory; the reader does not check CRCs so they are left at zero.
+async function buildZip(files: Record<string, string>, compress = false): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name)
+    const raw = encoder.encode(content)
+    const data = compress ? await deflateRaw(raw) : raw
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(8, compress ? 8 : 0, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, raw.length, true)
+    localView.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(10, compress ? 8 : 0, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, raw.length, true)
+    centralView.setUint16(28, nameBytes.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+  const centralSize = centrals.reduce((total, entry) => total + entry.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, centrals.length, true)
+  endView.setUint16(10, centrals.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+  return new Blob([...locals, ...centrals, end]).arrayBuffer()
+}
+
+const WORKBOOK_FILES = {
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Licenciés" sheetId="1" r:id="rId3"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId3" Target="worksheets/sheet2.xml"/></Relationships>',
+  'xl/sharedStrings.xml': '<sst><si><t>prenom</t></si><si><t>nom</t></si><si><r><t>Zoé</t></r><r><t xml:space="preserve"> Anne</t></r></si></sst>',
+  'xl/worksheets/sheet2.xml': [
+    '<worksheet><sheetData>',
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>date_of_birth</t></is></c></row>',
+    '<row r="2"/>',
+    '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="C3" s="1"><v>42005</v></c></row>',
+    '<row r="4"><c r="B4" t="inlineStr"><is><t>D&apos;Alembert &amp; fils</t></is></c></row>',
+    '</sheetData></worksheet>',
+  ].join(''),
+}
+
+describe('parseCsv', () => {
+  it('detects semicolons and handles quotes, BOM and blank lines', () => {
+    const text = '\uFEFFprenom;nom;note\r\n"Léa";"Martin; fils";"dit ""Lulu"""\r\n\r\nTom;Petit;\n'
+    expect(parseCsv(text)).toEqual([
+      ['prenom', 'nom', 'note'],
+      ['Léa', 'Martin; fils', 'dit "Lulu"'],
+      ['Tom', 'Petit', ''],
+    ])
+  })
+
+  it('falls back to commas and keeps line breaks inside quotes', () => {
+    expect(parseCsv('first_name,last_name\n"Jean\nPaul",Durand')).toEqual([
+      ['first_name', 'last_name'],
+      ['Jean\nPaul', 'Durand'],
+    ])
+  })
+})
+
+describe('parseXlsx', () => {
+  it('reads the first sheet with shared, rich and inline strings', async () => {
+    expect(await parseXlsx(await buildZip(WORKBOOK_FILES))).toEqual([
+      ['prenom', 'nom', 'date_of_birth'],
+      ['Zoé Anne', '', '42005'],
+      ['', "D'Alembert & fils"],
+    ])
+  })
+
+  it('inflates deflated entries', async () => {
+    const rows = await parseXlsx(await buildZip(WORKBOOK_FILES, true))
+    expect(rows[0]).toEqual(['prenom', 'nom', 'date_of_birth'])
+  })
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(parseXlsx(new TextEncoder().encode('prenom;nom').buffer)).rejects.toThrow(/illisible/)
+  })
+})
+
+describe('readSpreadsheetFile', () => {
+  it('picks the reader from the extension and refuses legacy .xls', async () => {
+    const csv = new File(['prenom,nom\nLéa,Martin'], 'effectif.csv', { type: 'text/csv' })
+    expect(await readSpreadsheetFile(csv)).toEqual([['prenom', 'nom'], ['Léa', 'Martin']])
+    const xlsx = new File([await buildZip(WORKBOOK_FILES)], 'Licences.XLSX')
+    expect((await readSpreadsheetFile(xlsx))[1][0]).toBe('Zoé Anne')
+    await expect(readSpreadsheetFile(new File(['x'], 'old.xls'))).rejects.toThrow(/\.xls/)
+  })
+})
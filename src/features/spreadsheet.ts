@@ -0,0 +1,212 @@
+// Minimal CSV and XLSX readers returning the first sheet as rows of trimmed strings. XLSX files are zip
+// archives of XML parts; only what a roster export needs is read (shared strings, inline strings, numbers),
+// without shipping a spreadsheet dependency.
+
+export type SpreadsheetRows = string[][]
+
+export const SPREADSHEET_ACCEPT = '.csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const CSV_DELIMITERS = [';', ',', '\t'] as const
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function isBlankRow(row: string[]): boolean {
+  return row.every((cell) => !cell.trim())
+}
+
+// French spreadsheet software exports with `;`, others with `,`: pick the one splitting the header best.
+function detectCsvDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? ''
+  let best: string = CSV_DELIMITERS[0]
+  let bestCount = 0
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = header.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+export function parseCsv(text: string): SpreadsheetRows {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectCsvDelimiter(source)
+  const rows: SpreadsheetRows = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index]
+    if (quoted) {
+      if (char !== '"') cell += char
+      else if (source[index + 1] === '"') {
+        cell += '"'
+        index += 1
+      } else quoted = false
+      continue
+    }
+    if (char === '"' && !cell.trim()) {
+      quoted = true
+      cell = ''
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+  return rows.filter((entry) => !isBlankRow(entry))
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))
+  return match ? decodeXml(match[1]) : null
+}
+
+// Rich text runs split a cell into several <t> nodes; phonetic hints (<rPh>) are not part of the value.
+function readTextRuns(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+  let text = ''
+  for (const match of withoutPhonetics.matchAll(/<t\b[^>]*?(?:\/>|>([\s\S]*?)<\/t>)/g)) {
+    text += decodeXml(match[1] ?? '')
+  }
+  return text
+}
+
+function columnIndexFromReference(reference: string | null): number | null {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0]
+  if (!letters) return null
+  let index = 0
+  for (const letter of letters.toUpperCase()) index = index * 26 + (letter.charCodeAt(0) - 64)
+  return index - 1
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Reads the central directory so entries written with data descriptors (sizes after the data) work too.
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  let endOffset = -1
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset -= 1) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset
+      break
+    }
+  }
+  if (endOffset < 0) throw new Error('Fichier Excel illisible.')
+
+  const entryCount = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const decoder = new TextDecoder()
+  const entries = new Map<string, () => Promise<string>>()
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_HEADER) throw new Error('Fichier Excel illisible.')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    entries.set(name, async () => {
+      if (view.getUint32(localOffset, true) !== ZIP_LOCAL_FILE_HEADER) throw new Error('Fichier Excel illisible.')
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+      const data = bytes.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) return decoder.decode(data)
+      if (method === 8) return decoder.decode(await inflateRaw(data))
+      throw new Error('Compression du fichier Excel non supportée.')
+    })
+  }
+  return entries
+}
+
+// The first sheet of the workbook is not always sheet1.xml once sheets have been reordered.
+async function resolveFirstSheetPath(entries: Map<string, () => Promise<string>>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml'
+  const workbook = await entries.get('xl/workbook.xml')?.()
+  const relations = await entries.get('xl/_rels/workbook.xml.rels')?.()
+  const sheetAttributes = workbook?.match(/<sheet\b([^>]*)\/?>/)?.[1]
+  const relationId = sheetAttributes ? readAttribute(sheetAttributes, 'r:id') : null
+  if (!relations || !relationId) return fallback
+  for (const match of relations.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (readAttribute(match[1], 'Id') !== relationId) continue
+    const target = readAttribute(match[1], 'Target')
+    if (!target) break
+    return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`
+  }
+  return fallback
+}
+
+function readSheetRows(sheetXml: string, sharedStrings: string[]): SpreadsheetRows {
+  const rows: SpreadsheetRows = []
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = []
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const content = cellMatch[2] ?? ''
+      const type = readAttribute(attributes, 't')
+      const rawValue = content.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1]
+      let value = ''
+      if (type === 's') value = sharedStrings[Number(rawValue)] ?? ''
+      else if (type === 'inlineStr') value = readTextRuns(content.match(/<is\b[^>]*>([\s\S]*?)<\/is>/)?.[1] ?? '')
+      else if (rawValue !== undefined) value = decodeXml(rawValue)
+      const column = columnIndexFromReference(readAttribute(attributes, 'r')) ?? row.length
+      while (row.length < column) row.push('')
+      row[column] = value.trim()
+    }
+    if (!isBlankRow(row)) rows.push(row)
+  }
+  return rows
+}
+
+// Dates stay as Excel serial numbers: the roster import converts them once it knows the column is a date.
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetRows> {
+  const entries = await readZipEntries(buffer)
+  const sheetPath = await resolveFirstSheetPath(entries)
+  const sheetXml = await entries.get(sheetPath)?.()
+  if (!sheetXml) throw new Error('Aucune feuille trouvée dans le fichier Excel.')
+  const sharedStringsXml = await entries.get('xl/sharedStrings.xml')?.()
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map((match) => readTextRuns(match[1]))
+    : []
+  return readSheetRows(sheetXml, sharedStrings)
+}
+
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetRows> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith('.xlsx')) return parseXlsx(await file.arrayBuffer())
+  if (name.endsWith('.xls')) throw new Error('Format .xls non supporté: enregistrez le fichier en .xlsx ou .csv.')
+  return parseCsv(await file.text())
+}
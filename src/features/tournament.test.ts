@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import type { MatchLite } from '../types/api'
+import {
+  bracketSeedOrder,
+  buildKnockoutRounds,
+  computeStandings,
+  hasStandingResults,
+  poolQualifierEntrants,
+  readGameScore,
+  resolveTournament,
+  splitIntoPools,
+  type TournamentSlot,
+} from './tournament'
+
+function match(rotationGameKey: string, home: number, away: number, opponentName = 'A vs B'): MatchLite {
+  return {
+    id: rotationGameKey,
+    createdAt: '2026-05-01T10:00:00Z',
+    type: 'TOURNOI',
+    matchdayId: 'md-1',
+    played: true,
+    rotationGameKey,
+    opponentName,
+    teams: [
+      { id: `${rotationGameKey}-home`, side: 'home', score: home },
+      { id: `${rotationGameKey}-away`, side: 'away', score: away },
+    ],
+    scorers: [],
+  }
+}
+
+describe('computeStandings', () => {
+  it('lists every team before any result without counting as played', () => {
+    const rows = computeStandings(['Lens', 'Arras'], [])
+    expect(rows.map((row) => row.team)).toEqual(['Arras', 'Lens'])
+    expect(hasStandingResults(rows)).toBe(false)
+    expect(hasStandingResults(computeStandings(['Lens', 'Arras'], [{ A: 'Lens', B: 'Arras', scoreA: 0, scoreB: 0 }]))).toBe(true)
+  })
+
+  it('ranks teams level on points by their head-to-head games first', () => {
+    const rows = computeStandings(['Lens', 'Arras', 'Douai', 'Liévin'], [
+      { A: 'Lens', B: 'Arras', scoreA: 1, scoreB: 0 },
+      { A: 'Douai', B: 'Lens', scoreA: 2, scoreB: 0 },
+      { A: 'Arras', B: 'Liévin', scoreA: 8, scoreB: 0 },
+    ])
+    // Douai, Lens and Arras have 3 points each: Arras has the best goal difference but no head-to-head point.
+    expect(rows.map((row) => row.team)).toEqual(['Douai', 'Lens', 'Arras', 'Liévin'])
+  })
+})
+
+describe('bracket generation', () => {
+  it('seeds so that pool winners only meet late', () => {
+    expect(bracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6])
+    const rounds = buildKnockoutRounds(poolQualifierEntrants(['A', 'B'], 2))
+    expect(rounds[0].map((game) => `${game.A} / ${game.B}`)).toEqual(['1er Poule A / 2e Poule B', '1er Poule B / 2e Poule A'])
+    expect(rounds[1][0]).toMatchObject({ A: 'Vainqueur Demi-finale 1', B: 'Vainqueur Demi-finale 2' })
+  })
+
+  it('gives byes to the best seeds and swaps sides on the second leg', () => {
+    const rounds = buildKnockoutRounds([{ label: 'T1' }, { label: 'T2' }, { label: 'T3' }], 'HOME_AWAY')
+    expect(rounds.map((games) => games.map((game) => `${game.A}-${game.B}-${game.meta.leg}`))).toEqual([
+      ['T2-T3-1'],
+      ['T3-T2-2'],
+      ['T1-Vainqueur Demi-finale 1-1'],
+      ['Vainqueur Demi-finale 1-T1-2'],
+    ])
+  })
+
+  it('splits teams into balanced pools', () => {
+    expect(splitIntoPools([1, 2, 3, 4, 5, 6, 7], 3).map((pool) => pool.length)).toEqual([3, 2, 2])
+  })
+})
+
+describe('readGameScore', () => {
+  it('flips the club score when the club is team B of the planning game', () => {
+    expect(readGameScore({ A: 'Lens', B: 'Club' }, match('k', 3, 1, 'Lens'))).toEqual({ scoreA: 1, scoreB: 3 })
+    expect(readGameScore({ A: 'Club', B: 'Lens' }, match('k', 3, 1, 'Lens'))).toEqual({ scoreA: 3, scoreB: 1 })
+  })
+})
+
+describe('resolveTournament', () => {
+  const slots: TournamentSlot[] = [
+    {
+      time: '10:00',
+      games: [
+        { pitch: 1, A: 'A1', B: 'A2', stage: 'POOL', pool: 'A' },
+        { pitch: 2, A: 'B1', B: 'B2', stage: 'POOL', pool: 'B' },
+      ],
+    },
+    {
+      time: '10:12',
+      games: [{
+        pitch: 1,
+        A: '1er Poule A',
+        B: '1er Poule B',
+        stage: 'KNOCKOUT',
+        round: 0,
+        tieId: 'KO-0-1',
+        leg: 1,
+        sourceA: { kind: 'POOL_RANK', pool: 'A', rank: 1 },
+        sourceB: { kind: 'POOL_RANK', pool: 'B', rank: 1 },
+      }],
+    },
+    {
+      time: '10:24',
+      games: [{
+        pitch: 1,
+        A: '1er Poule B',
+        B: '1er Poule A',
+        stage: 'KNOCKOUT',
+        round: 0,
+        tieId: 'KO-0-1',
+        leg: 2,
+        sourceA: { kind: 'POOL_RANK', pool: 'B', rank: 1 },
+        sourceB: { kind: 'POOL_RANK', pool: 'A', rank: 1 },
+      }],
+    },
+  ]
+
+  it('keeps placeholders until the pools are complete', () => {
+    const resolution = resolveTournament({ slots, matches: [match('slot:0:game:0', 2, 0)] })
+    expect(resolution.pools.find((pool) => pool.pool === 'B')?.complete).toBe(false)
+    expect(resolution.resolvedGames.get('slot:1:game:0')).toMatchObject({ A: 'A1', B: '1er Poule B' })
+  })
+
+  it('seeds the final from the pools and decides it on aggregate', () => {
+    const resolution = resolveTournament({
+      slots,
+      matches: [
+        match('slot:0:game:0', 2, 0),
+        match('slot:0:game:1', 0, 1),
+        match('slot:1:game:0', 1, 0),
+        match('slot:2:game:0', 3, 1),
+      ],
+    })
+    const [tie] = resolution.rounds[0].ties
+    expect(tie).toMatchObject({ label: 'Finale', teamA: 'A1', teamB: 'B2', aggregateA: 2, aggregateB: 3, winner: 'B2' })
+    expect(resolution.champion).toBe('B2')
+  })
+
+  it('waits for the organiser on a level aggregate', () => {
+    const matches = [
+      match('slot:0:game:0', 2, 0),
+      match('slot:0:game:1', 0, 1),
+      match('slot:1:game:0', 1, 0),
+      match('slot:2:game:0', 1, 0),
+    ]
+    expect(resolveTournament({ slots, matches }).rounds[0].ties[0]).toMatchObject({ winner: null, needsDecision: true })
+    const decided = resolveTournament({ slots, matches, knockoutWinners: { 'KO-0-1': 'A1' } })
+    expect(decided.champion).toBe('A1')
+  })
+})
@@ -0,0 +1,418 @@
+import type { MatchLite } from '../types/api'
+
+export type TournamentKnockoutMode = 'SINGLE' | 'HOME_AWAY'
+
+// Where a knockout team comes from while it is not known yet.
+export type TournamentTeamSource =
+  | { kind: 'POOL_RANK'; pool: string; rank: number }
+  | { kind: 'WINNER'; tieId: string }
+
+// Extra fields saved on planning games of a tournament; legacy plannings have none of them.
+export type TournamentGameMeta = {
+  stage?: 'POOL' | 'KNOCKOUT'
+  pool?: string
+  round?: number
+  tieId?: string
+  leg?: 1 | 2
+  sourceA?: TournamentTeamSource
+  sourceB?: TournamentTeamSource
+}
+
+export type TournamentGame = { pitch: string | number; A: string; B: string } & TournamentGameMeta
+export type TournamentSlot = { time: string; games: TournamentGame[] }
+
+export type KnockoutEntrant = { label: string; source?: TournamentTeamSource }
+export type KnockoutGame = { A: string; B: string; meta: TournamentGameMeta }
+
+export type StandingRow = {
+  team: string
+  played: number
+  won: number
+  draw: number
+  lost: number
+  gf: number
+  ga: number
+  gd: number
+  points: number
+}
+
+export type GameResult = { A: string; B: string; scoreA: number; scoreB: number }
+
+export type ResolvedGame = { A: string; B: string; score: { scoreA: number; scoreB: number } | null }
+
+export type TournamentPool = { pool: string; standings: StandingRow[]; complete: boolean }
+
+export type BracketLeg = { gameKey: string; scoreA: number | null; scoreB: number | null }
+
+export type BracketTie = {
+  tieId: string
+  round: number
+  label: string
+  teamA: string | null
+  teamB: string | null
+  placeholderA: string
+  placeholderB: string
+  // Scores are always from teamA's point of view, even on a swapped second leg.
+  legs: BracketLeg[]
+  aggregateA: number | null
+  aggregateB: number | null
+  winner: string | null
+  // Every leg is played, the aggregate is level and nobody picked the winner yet.
+  needsDecision: boolean
+}
+
+export type BracketRound = { round: number; label: string; ties: BracketTie[] }
+
+export type TournamentResolution = {
+  pools: TournamentPool[]
+  rounds: BracketRound[]
+  // Team names to display per planning game (`slot:i:game:j`), placeholders replaced once known,
+  // with the A/B score when the linked match counts.
+  resolvedGames: Map<string, ResolvedGame>
+  champion: string | null
+}
+
+export type ResolveTournamentInput = {
+  slots: TournamentSlot[]
+  matches: MatchLite[]
+  format?: 'ELIMINATION' | 'CHAMPIONNAT'
+  // Winner picked by the organiser for drawn ties (penalties), keyed by tie id.
+  knockoutWinners?: Record<string, string>
+  isCountable?: (match: MatchLite) => boolean
+}
+
+export const POOL_NAMES = 'ABCDEFGHIJKLMNOP'.split('')
+
+export function tournamentGameKey(slotIndex: number, gameIndex: number) {
+  return `slot:${slotIndex}:game:${gameIndex}`
+}
+
+export function knockoutRoundLabel(tiesInRound: number) {
+  if (tiesInRound <= 1) return 'Finale'
+  if (tiesInRound === 2) return 'Demi-finale'
+  if (tiesInRound === 4) return 'Quart de finale'
+  return `1/${tiesInRound} de finale`
+}
+
+export function poolRankLabel(pool: string, rank: number) {
+  return `${rank === 1 ? '1er' : `${rank}e`} Poule ${pool}`
+}
+
+// Classic bracket order so that seeds 1 and 2 can only meet in the final: [1, 4, 2, 3] for 4 teams.
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const next = order.length * 2
+    order = order.flatMap((seed) => [seed, next + 1 - seed])
+  }
+  return order
+}
+
+// Entrants are given best seed first. Missing opponents become byes: the entrant goes straight to the
+// next round, so no game is generated for it. With HOME_AWAY each tie produces two rounds of games
+// (the second leg swaps A and B).
+export function buildKnockoutRounds(entrants: KnockoutEntrant[], mode: TournamentKnockoutMode = 'SINGLE'): KnockoutGame[][] {
+  if (entrants.length < 2) return []
+  let size = 1
+  while (size < entrants.length) size *= 2
+  let current: Array<KnockoutEntrant | null> = bracketSeedOrder(size).map((seed) => entrants[seed - 1] ?? null)
+  const rounds: KnockoutGame[][] = []
+  let round = 0
+
+  while (current.length > 1) {
+    const label = knockoutRoundLabel(current.length / 2)
+    const firstLegs: KnockoutGame[] = []
+    const secondLegs: KnockoutGame[] = []
+    const next: Array<KnockoutEntrant | null> = []
+    for (let index = 0; index < current.length; index += 2) {
+      const lhs = current[index]
+      const rhs = current[index + 1]
+      if (!lhs || !rhs) {
+        next.push(lhs ?? rhs)
+        continue
+      }
+      const tieNumber = firstLegs.length + 1
+      const tieId = `KO-${round}-${tieNumber}`
+      const base = { stage: 'KNOCKOUT' as const, round, tieId }
+      firstLegs.push({ A: lhs.label, B: rhs.label, meta: { ...base, leg: 1, sourceA: lhs.source, sourceB: rhs.source } })
+      if (mode === 'HOME_AWAY') {
+        secondLegs.push({ A: rhs.label, B: lhs.label, meta: { ...base, leg: 2, sourceA: rhs.source, sourceB: lhs.source } })
+      }
+      next.push({
+        label: `Vainqueur ${label}${label === 'Finale' ? '' : ` ${tieNumber}`}`,
+        source: { kind: 'WINNER', tieId },
+      })
+    }
+    if (firstLegs.length > 0) rounds.push(firstLegs)
+    if (secondLegs.length > 0) rounds.push(secondLegs)
+    current = next
+    round += 1
+  }
+  return rounds
+}
+
+// Snake distribution keeps pools balanced in size: A B C C B A A B C…
+export function splitIntoPools<T>(teams: T[], poolCount: number): T[][] {
+  const count = Math.max(1, Math.min(poolCount, Math.floor(teams.length / 2) || 1, POOL_NAMES.length))
+  const pools: T[][] = Array.from({ length: count }, () => [])
+  teams.forEach((team, index) => {
+    const lap = Math.floor(index / count)
+    const position = index % count
+    pools[lap % 2 === 0 ? position : count - 1 - position].push(team)
+  })
+  return pools
+}
+
+// Rank-major order (every pool winner, then every runner-up…) so pool mates land in opposite halves.
+export function poolQualifierEntrants(poolNames: string[], qualifiersPerPool: number): KnockoutEntrant[] {
+  const entrants: KnockoutEntrant[] = []
+  for (let rank = 1; rank <= qualifiersPerPool; rank += 1) {
+    for (const pool of poolNames) {
+      entrants.push({ label: poolRankLabel(pool, rank), source: { kind: 'POOL_RANK', pool, rank } })
+    }
+  }
+  return entrants
+}
+
+function emptyRow(team: string): StandingRow {
+  return { team, played: 0, won: 0, draw: 0, lost: 0, gf: 0, ga: 0, gd: 0, points: 0 }
+}
+
+function tally(teams: string[], results: GameResult[]) {
+  const table = new Map(teams.map((team) => [team, emptyRow(team)] as const))
+  for (const result of results) {
+    const rowA = table.get(result.A)
+    const rowB = table.get(result.B)
+    if (!rowA || !rowB) continue
+    rowA.played += 1
+    rowB.played += 1
+    rowA.gf += result.scoreA
+    rowA.ga += result.scoreB
+    rowB.gf += result.scoreB
+    rowB.ga += result.scoreA
+    if (result.scoreA > result.scoreB) {
+      rowA.won += 1
+      rowA.points += 3
+      rowB.lost += 1
+    } else if (result.scoreA < result.scoreB) {
+      rowB.won += 1
+      rowB.points += 3
+      rowA.lost += 1
+    } else {
+      rowA.draw += 1
+      rowB.draw += 1
+      rowA.points += 1
+      rowB.points += 1
+    }
+  }
+  for (const row of table.values()) row.gd = row.gf - row.ga
+  return table
+}
+
+// Points first; teams level on points are split by their head-to-head games (points, goal difference,
+// goals scored), then by overall goal difference and goals scored, then alphabetically.
+export function computeStandings(teams: string[], results: GameResult[]): StandingRow[] {
+  const table = tally(Array.from(new Set(teams)), results)
+  const byPoints = new Map<number, StandingRow[]>()
+  for (const row of table.values()) {
+    byPoints.set(row.points, [...(byPoints.get(row.points) ?? []), row])
+  }
+  const headToHead = new Map<string, StandingRow>()
+  for (const group of byPoints.values()) {
+    if (group.length < 2) continue
+    const names = new Set(group.map((row) => row.team))
+    const mini = tally([...names], results.filter((result) => names.has(result.A) && names.has(result.B)))
+    for (const [team, row] of mini) headToHead.set(team, row)
+  }
+  const h2h = (team: string) => headToHead.get(team) ?? emptyRow(team)
+  return Array.from(table.values()).sort((lhs, rhs) => (
+    rhs.points - lhs.points
+    || h2h(rhs.team).points - h2h(lhs.team).points
+    || h2h(rhs.team).gd - h2h(lhs.team).gd
+    || h2h(rhs.team).gf - h2h(lhs.team).gf
+    || rhs.gd - lhs.gd
+    || rhs.gf - lhs.gf
+    || lhs.team.localeCompare(rhs.team, 'fr-FR')
+  ))
+}
+
+// Standings list every team from the start, so "nothing played yet" is read from the rows themselves.
+export function hasStandingResults(rows: StandingRow[]) {
+  return rows.some((row) => row.played > 0)
+}
+
+function normalizeLabel(value: unknown) {
+  return String(value ?? '').trim().toLowerCase()
+}
+
+// The club match stores our goals as "home": when the planning game lists our team as B, the match
+// opponent is A and the score must be flipped back to the A/B order of the planning.
+export function readGameScore(game: { A: string; B: string }, match: MatchLite): { scoreA: number; scoreB: number } {
+  const home = match.teams.find((team) => team.side === 'home')?.score ?? 0
+  const away = match.teams.find((team) => team.side === 'away')?.score ?? 0
+  const opponent = normalizeLabel(match.opponentName)
+  const homeIsB = opponent === normalizeLabel(game.A) && opponent !== normalizeLabel(game.B)
+  return homeIsB ? { scoreA: away, scoreB: home } : { scoreA: home, scoreB: away }
+}
+
+function parseVersusLabel(value: string | null | undefined) {
+  const parsed = (value || '').match(/^(.+)\s+vs\s+(.+)$/i)
+  return parsed ? { A: parsed[1].trim(), B: parsed[2].trim() } : null
+}
+
+export function resolveTournament(input: ResolveTournamentInput): TournamentResolution {
+  const isCountable = input.isCountable ?? (() => true)
+  const championship = input.format === 'CHAMPIONNAT'
+
+  const indexed = input.slots.flatMap((slot, slotIndex) => slot.games.map((game, gameIndex) => ({
+    key: tournamentGameKey(slotIndex, gameIndex),
+    game,
+  })))
+  const gameKeys = new Set(indexed.map((entry) => entry.key))
+  const matchByKey = new Map<string, MatchLite>()
+  const unkeyedMatches: MatchLite[] = []
+  for (const match of input.matches) {
+    const key = (match.rotationGameKey || '').trim()
+    if (key && gameKeys.has(key)) {
+      if (!matchByKey.has(key)) matchByKey.set(key, match)
+    } else {
+      unkeyedMatches.push(match)
+    }
+  }
+  const resultFor = (key: string, game: TournamentGame) => {
+    const match = matchByKey.get(key)
+    return match && isCountable(match) ? readGameScore(game, match) : null
+  }
+
+  // Pools: every game of a championship, or games tagged POOL by the planning editor.
+  const poolGames = new Map<string, Array<{ key: string; game: TournamentGame }>>()
+  for (const entry of indexed) {
+    const inPool = championship || entry.game.stage === 'POOL'
+    if (!inPool) continue
+    const pool = championship ? '' : (entry.game.pool ?? '')
+    poolGames.set(pool, [...(poolGames.get(pool) ?? []), entry])
+  }
+  const pools: TournamentPool[] = Array.from(poolGames.entries()).map(([pool, entries]) => {
+    const teams = entries.flatMap((entry) => [entry.game.A, entry.game.B])
+    const results: GameResult[] = []
+    let complete = true
+    for (const entry of entries) {
+      const score = resultFor(entry.key, entry.game)
+      if (!score) {
+        complete = false
+        continue
+      }
+      results.push({ A: entry.game.A, B: entry.game.B, ...score })
+    }
+    // Manual "A vs B" matches without a planning key still count when both teams are in this pool.
+    const teamSet = new Set(teams)
+    for (const match of unkeyedMatches) {
+      const versus = parseVersusLabel(match.opponentName)
+      if (!versus || !teamSet.has(versus.A) || !teamSet.has(versus.B) || !isCountable(match)) continue
+      results.push({ ...versus, ...readGameScore(versus, match) })
+    }
+    return { pool, standings: computeStandings(teams, results), complete }
+  }).sort((a, b) => a.pool.localeCompare(b.pool))
+  const poolByName = new Map(pools.map((pool) => [pool.pool, pool] as const))
+
+  // Knockout ties, in round then tie order.
+  const tieEntries = new Map<string, Array<{ key: string; game: TournamentGame }>>()
+  for (const entry of indexed) {
+    if (championship || entry.game.stage !== 'KNOCKOUT' || !entry.game.tieId) continue
+    tieEntries.set(entry.game.tieId, [...(tieEntries.get(entry.game.tieId) ?? []), entry])
+  }
+  const tiesPerRound = new Map<number, number>()
+  for (const entries of tieEntries.values()) {
+    const round = entries[0].game.round ?? 0
+    tiesPerRound.set(round, (tiesPerRound.get(round) ?? 0) + 1)
+  }
+  const roundSize = (round: number) => {
+    // Byes shrink the first rounds; the label follows the bracket size like in the editor.
+    const last = Math.max(...tiesPerRound.keys())
+    return 2 ** (last - round)
+  }
+  const tieLabel = (tieId: string, round: number) => {
+    const label = knockoutRoundLabel(roundSize(round))
+    return label === 'Finale' ? label : `${label} ${tieId.split('-').pop()}`
+  }
+
+  const ties = new Map<string, BracketTie>()
+  const resolveSource = (source: TournamentTeamSource | undefined, fallback: string): string | null => {
+    if (!source) return fallback
+    if (source.kind === 'POOL_RANK') {
+      const pool = poolByName.get(source.pool)
+      return pool?.complete ? (pool.standings[source.rank - 1]?.team ?? null) : null
+    }
+    return resolveTie(source.tieId)?.winner ?? null
+  }
+  function resolveTie(tieId: string): BracketTie | null {
+    const cached = ties.get(tieId)
+    if (cached) return cached
+    const entries = (tieEntries.get(tieId) ?? []).slice().sort((a, b) => (a.game.leg ?? 1) - (b.game.leg ?? 1))
+    if (entries.length === 0) return null
+    const first = entries[0].game
+    const teamA = resolveSource(first.sourceA, first.A)
+    const teamB = resolveSource(first.sourceB, first.B)
+    const legs: BracketLeg[] = entries.map(({ key, game }) => {
+      const score = resultFor(key, game)
+      const swapped = (game.leg ?? 1) === 2
+      if (!score) return { gameKey: key, scoreA: null, scoreB: null }
+      return swapped ? { gameKey: key, scoreA: score.scoreB, scoreB: score.scoreA } : { gameKey: key, ...score }
+    })
+    const played = legs.filter((leg) => leg.scoreA != null && leg.scoreB != null)
+    const aggregateA = played.length ? played.reduce((sum, leg) => sum + (leg.scoreA ?? 0), 0) : null
+    const aggregateB = played.length ? played.reduce((sum, leg) => sum + (leg.scoreB ?? 0), 0) : null
+    const allPlayed = played.length === legs.length && teamA != null && teamB != null
+    let winner: string | null = null
+    let needsDecision = false
+    if (allPlayed && aggregateA != null && aggregateB != null) {
+      if (aggregateA !== aggregateB) {
+        winner = aggregateA > aggregateB ? teamA : teamB
+      } else {
+        const picked = input.knockoutWinners?.[tieId]
+        winner = picked === teamA || picked === teamB ? picked : null
+        needsDecision = winner == null
+      }
+    }
+    const tie: BracketTie = {
+      tieId,
+      round: first.round ?? 0,
+      label: tieLabel(tieId, first.round ?? 0),
+      teamA,
+      teamB,
+      placeholderA: first.A,
+      placeholderB: first.B,
+      legs,
+      aggregateA,
+      aggregateB,
+      winner,
+      needsDecision,
+    }
+    ties.set(tieId, tie)
+    return tie
+  }
+
+  const resolvedGames = new Map<string, ResolvedGame>()
+  for (const { key, game } of indexed) {
+    resolvedGames.set(key, {
+      A: resolveSource(game.sourceA, game.A) ?? game.A,
+      B: resolveSource(game.sourceB, game.B) ?? game.B,
+      score: resultFor(key, game),
+    })
+  }
+
+  const rounds = new Map<number, BracketRound>()
+  for (const tieId of tieEntries.keys()) {
+    const tie = resolveTie(tieId)
+    if (!tie) continue
+    const label = knockoutRoundLabel(roundSize(tie.round))
+    const round = rounds.get(tie.round) ?? { round: tie.round, label, ties: [] }
+    round.ties.push(tie)
+    rounds.set(tie.round, round)
+  }
+  const orderedRounds = Array.from(rounds.values()).sort((a, b) => a.round - b.round)
+  const finalRound = orderedRounds[orderedRounds.length - 1]
+  const champion = finalRound?.ties.length === 1 ? finalRound.ties[0].winner : null
+
+  return { pools, rounds: orderedRounds, resolvedGames, champion }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { HttpError } from '../api'
+import { HttpError } from '../http'
 import { mapTrainingAiError, setLoadingById } from './trainingAi'
 
 describe('mapTrainingAiError', () => {
@@ -1,20 +1,6 @@
-import { HttpError } from '../api'
+import { HttpError } from '../http'
 import { toErrorMessage } from '../errors'
 
-export type DiagramSummary = {
-  id: string
-  title?: string
-  data?: unknown
-}
-
-export function normalizeDiagramList(input: unknown): DiagramSummary[] {
-  if (Array.isArray(input)) return input as DiagramSummary[]
-  if (input && typeof input === 'object' && Array.isArray((input as { items?: unknown }).items)) {
-    return (input as { items: DiagramSummary[] }).items
-  }
-  return []
-}
-
 export function setLoadingById(prev: Record<string, boolean>, id: string, isLoading: boolean): Record<string, boolean> {
   if (isLoading) return { ...prev, [id]: true }
   if (!(id in prev)) return prev
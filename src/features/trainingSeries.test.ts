@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import type { Training, TrainingSeries } from '../types/api'
+import { buildSessionStartDate } from './curriculum'
+import {
+  describeTrainingSeries,
+  endTrainingSeries,
+  expandTrainingSeries,
+  planTrainingSeriesSync,
+  setTrainingSeriesException,
+  splitTrainingSeries,
+} from './trainingSeries'
+
+// Tuesdays and Thursdays from Tuesday 2026-10-06 to Thursday 2026-10-22.
+const series: TrainingSeries = {
+  id: 's1',
+  teamId: 'u11',
+  weekdays: [2, 4],
+  startTime: '18:00',
+  endTime: '19:30',
+  startDate: '2026-10-06',
+  endDate: '2026-10-22',
+  exceptions: [],
+}
+
+function occurrenceTraining(id: string, seriesDate: string, overrides: Partial<Training> = {}): Training {
+  return {
+    id,
+    date: buildSessionStartDate(seriesDate, '18:00'),
+    endTime: '19:30',
+    status: 'PLANNED',
+    seriesId: 's1',
+    seriesDate,
+    ...overrides,
+  }
+}
+
+describe('training series rules', () => {
+  it('expands weekly occurrences with cancelled and moved exceptions', () => {
+    const moved = buildSessionStartDate('2026-10-09', '17:00')
+    let edited = setTrainingSeriesException(series, { date: '2026-10-13', kind: 'CANCELLED' })
+    edited = setTrainingSeriesException(edited, { date: '2026-10-08', kind: 'MOVED', movedTo: moved, endTime: '18:00' })
+    const occurrences = expandTrainingSeries(edited)
+
+    expect(occurrences.map((occurrence) => occurrence.seriesDate)).toEqual([
+      '2026-10-06', '2026-10-08', '2026-10-13', '2026-10-15', '2026-10-20', '2026-10-22',
+    ])
+    expect(occurrences[1]).toEqual({ seriesDate: '2026-10-08', date: moved, endTime: '18:00', cancelled: false, moved: true })
+    expect(occurrences[2].cancelled).toBe(true)
+    expect(describeTrainingSeries(series)).toBe('Chaque mar, jeu · 18:00–19:30')
+  })
+
+  it('splits a series for following occurrences and ends it', () => {
+    const withException = setTrainingSeriesException(series, { date: '2026-10-20', kind: 'CANCELLED' })
+    const { previous, next } = splitTrainingSeries(withException, '2026-10-15', { startTime: '17:30' })
+    expect(previous).toMatchObject({ id: 's1', endDate: '2026-10-14', exceptions: [] })
+    expect(next).toMatchObject({ startDate: '2026-10-15', startTime: '17:30', endDate: '2026-10-22' })
+    expect(next.id).toBeUndefined()
+    expect(next.exceptions).toHaveLength(1)
+
+    expect(splitTrainingSeries(series, '2026-10-06', { endTime: null }).previous).toBeNull()
+    expect(endTrainingSeries(series, '2026-10-06')).toBeNull()
+    expect(endTrainingSeries(series, '2026-10-13')?.endDate).toBe('2026-10-12')
+  })
+})
+
+describe('training series sync', () => {
+  it('creates missing sessions, applies exceptions and removes orphans from a given day', () => {
+    const edited = setTrainingSeriesException({ ...series, endDate: '2026-10-15' }, { date: '2026-10-13', kind: 'CANCELLED' })
+    const trainings = [
+      occurrenceTraining('past', '2026-10-06', { endTime: '20:00' }),
+      occurrenceTraining('t13', '2026-10-13'),
+      occurrenceTraining('orphan', '2026-10-20'),
+      occurrenceTraining('other', '2026-10-15', { seriesId: 'another' }),
+      { id: 'one-off', date: buildSessionStartDate('2026-10-15', '10:00'), status: 'PLANNED' },
+    ]
+    const plan = planTrainingSeriesSync(edited, trainings, { fromDayKey: '2026-10-08' })
+
+    expect(plan.create.map((occurrence) => occurrence.seriesDate)).toEqual(['2026-10-08', '2026-10-15'])
+    expect(plan.update).toEqual([{ training: trainings[1], patch: { status: 'CANCELLED' } }])
+    expect(plan.remove.map((training) => training.id)).toEqual(['orphan'])
+  })
+
+  it('adopts the sessions of the series it was split from', () => {
+    const { next } = splitTrainingSeries(series, '2026-10-20', { startTime: '17:00' })
+    const trainings = [occurrenceTraining('t20', '2026-10-20'), occurrenceTraining('t22', '2026-10-22')]
+    const plan = planTrainingSeriesSync({ ...next, id: 's2' }, trainings, { fromDayKey: '2026-10-20', adoptSeriesIds: ['s1'] })
+
+    expect(plan.create).toEqual([])
+    expect(plan.update.map((entry) => [entry.training.id, entry.patch])).toEqual([
+      ['t20', { seriesId: 's2', date: buildSessionStartDate('2026-10-20', '17:00') }],
+      ['t22', { seriesId: 's2', date: buildSessionStartDate('2026-10-22', '17:00') }],
+    ])
+    expect(plan.remove).toEqual([])
+  })
+})
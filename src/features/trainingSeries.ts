@@ -0,0 +1,202 @@
+import { apiRoutes } from '../apiRoutes'
+import type { Training, TrainingSeries, TrainingSeriesException } from '../types/api'
+import { CURRICULUM_WEEKDAY_OPTIONS, buildSessionStartDate, parseDayKey, toDayKey, type SeasonDateRange } from './curriculum'
+
+// Guard against a mistyped end date generating years of sessions.
+export const MAX_SERIES_DAYS = 400
+
+export type TrainingSeriesDraft = Omit<TrainingSeries, 'id'> & { id?: string }
+
+export type SeriesOccurrence = {
+  seriesDate: string
+  date: string
+  endTime: string | null
+  cancelled: boolean
+  moved: boolean
+}
+
+export type TrainingSeriesSyncPlan = {
+  create: SeriesOccurrence[]
+  update: Array<{ training: Training; patch: Partial<Training> }>
+  remove: Training[]
+}
+
+type ApiPost = <T>(path: string, body: unknown) => Promise<T>
+type ApiPut = <T>(path: string, body: unknown) => Promise<T>
+type ApiDelete = (path: string) => Promise<unknown>
+
+function addDays(dayKey: string, amount: number): string {
+  const day = parseDayKey(dayKey)
+  if (!day) return dayKey
+  return toDayKey(new Date(day.getFullYear(), day.getMonth(), day.getDate() + amount))
+}
+
+export function normalizeTrainingSeries(input: TrainingSeries): TrainingSeries {
+  return {
+    ...input,
+    weekdays: Array.isArray(input.weekdays) ? input.weekdays.filter((day) => Number.isInteger(day) && day >= 1 && day <= 7) : [],
+    exceptions: Array.isArray(input.exceptions) ? input.exceptions.filter((exception) => exception && typeof exception.date === 'string') : [],
+  }
+}
+
+// Starts on `day` (the planning's selected day) and runs to the end of the season.
+export function createTrainingSeriesDraft(teamId: string | null, day: Date, range: SeasonDateRange): TrainingSeriesDraft {
+  const startDate = toDayKey(day)
+  return {
+    teamId,
+    weekdays: [((day.getDay() + 6) % 7) + 1],
+    startTime: '18:00',
+    endTime: '19:30',
+    startDate,
+    endDate: range.endDate > startDate ? range.endDate : addDays(startDate, 7 * 12),
+    exceptions: [],
+  }
+}
+
+export function getTrainingSeriesDate(training: Training): string {
+  return training.seriesDate || toDayKey(new Date(training.date))
+}
+
+export function describeTrainingSeries(series: Pick<TrainingSeries, 'weekdays' | 'startTime' | 'endTime'>): string {
+  const days = CURRICULUM_WEEKDAY_OPTIONS
+    .filter((option) => series.weekdays.includes(option.value))
+    .map((option) => option.label.toLowerCase())
+  const time = series.endTime ? `${series.startTime}–${series.endTime}` : series.startTime
+  return `Chaque ${days.join(', ')} · ${time}`
+}
+
+export function expandTrainingSeries(series: Pick<TrainingSeries, 'weekdays' | 'startTime' | 'endTime' | 'startDate' | 'endDate' | 'exceptions'>): SeriesOccurrence[] {
+  const start = parseDayKey(series.startDate)
+  const end = parseDayKey(series.endDate)
+  if (!start || !end || start > end) return []
+  const exceptionByDate = new Map(series.exceptions.map((exception) => [exception.date, exception]))
+  const occurrences: SeriesOccurrence[] = []
+  for (let offset = 0; offset < MAX_SERIES_DAYS; offset += 1) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset)
+    if (day > end) break
+    const weekday = ((day.getDay() + 6) % 7) + 1
+    if (!series.weekdays.includes(weekday)) continue
+    const seriesDate = toDayKey(day)
+    const exception = exceptionByDate.get(seriesDate)
+    const moved = exception?.kind === 'MOVED' && Boolean(exception.movedTo)
+    occurrences.push({
+      seriesDate,
+      date: moved ? exception.movedTo as string : buildSessionStartDate(seriesDate, series.startTime),
+      endTime: (moved && exception.endTime !== undefined ? exception.endTime : series.endTime) ?? null,
+      cancelled: exception?.kind === 'CANCELLED',
+      moved,
+    })
+  }
+  return occurrences
+}
+
+export function setTrainingSeriesException<T extends TrainingSeriesDraft>(series: T, exception: TrainingSeriesException): T {
+  return { ...series, exceptions: [...series.exceptions.filter((item) => item.date !== exception.date), exception] }
+}
+
+export function clearTrainingSeriesException<T extends TrainingSeriesDraft>(series: T, seriesDate: string): T {
+  return { ...series, exceptions: series.exceptions.filter((item) => item.date !== seriesDate) }
+}
+
+// "This and following occurrences": the current series ends the day before and a new one carries the changes.
+// Editing from the first occurrence changes the whole series in place.
+export function splitTrainingSeries(
+  series: TrainingSeries,
+  fromDayKey: string,
+  changes: Partial<Pick<TrainingSeries, 'weekdays' | 'startTime' | 'endTime' | 'endDate'>>,
+): { previous: TrainingSeries | null; next: TrainingSeriesDraft } {
+  if (fromDayKey <= series.startDate) return { previous: null, next: { ...series, ...changes } }
+  const next: TrainingSeriesDraft = {
+    ...series,
+    ...changes,
+    startDate: fromDayKey,
+    exceptions: series.exceptions.filter((exception) => exception.date >= fromDayKey),
+  }
+  delete next.id
+  return {
+    previous: {
+      ...series,
+      endDate: addDays(fromDayKey, -1),
+      exceptions: series.exceptions.filter((exception) => exception.date < fromDayKey),
+    },
+    next,
+  }
+}
+
+// Ends the series before `fromDayKey`; null when nothing is left and the series should be deleted.
+export function endTrainingSeries(series: TrainingSeries, fromDayKey: string): TrainingSeries | null {
+  if (fromDayKey <= series.startDate) return null
+  return {
+    ...series,
+    endDate: addDays(fromDayKey, -1),
+    exceptions: series.exceptions.filter((exception) => exception.date < fromDayKey),
+  }
+}
+
+// Only occurrences from `fromDayKey` on are touched, past sessions keep their attendance and history.
+// `adoptSeriesIds` lets a split series take over the sessions of the series it was cut from.
+export function planTrainingSeriesSync(
+  series: TrainingSeries,
+  trainings: Training[],
+  options: { fromDayKey: string; adoptSeriesIds?: string[] },
+): TrainingSeriesSyncPlan {
+  const adopt = new Set(options.adoptSeriesIds ?? [])
+  const candidates = new Map<string, Training>()
+  for (const training of trainings) {
+    if (!training.seriesId || (training.seriesId !== series.id && !adopt.has(training.seriesId))) continue
+    const seriesDate = getTrainingSeriesDate(training)
+    if (seriesDate < options.fromDayKey) continue
+    const current = candidates.get(seriesDate)
+    if (!current || (current.seriesId !== series.id && training.seriesId === series.id)) candidates.set(seriesDate, training)
+  }
+
+  const plan: TrainingSeriesSyncPlan = { create: [], update: [], remove: [] }
+  for (const occurrence of expandTrainingSeries(series)) {
+    if (occurrence.seriesDate < options.fromDayKey) continue
+    const training = candidates.get(occurrence.seriesDate)
+    candidates.delete(occurrence.seriesDate)
+    if (!training) {
+      if (!occurrence.cancelled) plan.create.push(occurrence)
+      continue
+    }
+    const patch: Partial<Training> = {}
+    if (training.seriesId !== series.id) patch.seriesId = series.id
+    if (!training.seriesDate) patch.seriesDate = occurrence.seriesDate
+    if (new Date(training.date).getTime() !== new Date(occurrence.date).getTime()) patch.date = occurrence.date
+    if ((training.endTime ?? null) !== occurrence.endTime) patch.endTime = occurrence.endTime
+    if (occurrence.cancelled && training.status !== 'CANCELLED') patch.status = 'CANCELLED'
+    if (!occurrence.cancelled && training.status === 'CANCELLED') patch.status = 'PLANNED'
+    if (Object.keys(patch).length > 0) plan.update.push({ training, patch })
+  }
+  plan.remove = Array.from(candidates.values()).filter((training) => training.seriesId === series.id)
+  return plan
+}
+
+
+// `trainingPayload` carries the team fields the trainings endpoint expects on creation.
+export async function applyTrainingSeriesSync(
+  api: { post: ApiPost; put: ApiPut; delete: ApiDelete },
+  series: TrainingSeries,
+  plan: TrainingSeriesSyncPlan,
+  trainingPayload: Record<string, unknown> = {},
+): Promise<{ saved: Training[]; removedIds: string[] }> {
+  const saved: Training[] = []
+  const removedIds: string[] = []
+  for (const occurrence of plan.create) {
+    saved.push(await api.post<Training>(apiRoutes.trainings.list, {
+      ...trainingPayload,
+      date: occurrence.date,
+      endTime: occurrence.endTime || undefined,
+      seriesId: series.id,
+      seriesDate: occurrence.seriesDate,
+    }))
+  }
+  for (const { training, patch } of plan.update) {
+    saved.push(await api.put<Training>(apiRoutes.trainings.byId(training.id), patch))
+  }
+  for (const training of plan.remove) {
+    await api.delete(apiRoutes.trainings.byId(training.id))
+    removedIds.push(training.id)
+  }
+  return { saved, removedIds }
+}
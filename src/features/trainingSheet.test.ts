@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import type { Drill, Player, TrainingDrill } from '../types/api'
+import { buildTrainingSheetTimeline, groupExpectedAttendance, pickFirstDiagramData, toSheetDescription } from './trainingSheet'
+
+function drill(id: string, duration: number, extra: Partial<Drill> = {}): Drill {
+  return { id, title: `Exercice ${id}`, category: 'Technique', duration, players: '', description: '', tags: [], ...extra }
+}
+
+function row(id: string, order: number, drillId: string, extra: Partial<TrainingDrill> = {}): TrainingDrill {
+  return { id, trainingId: 't1', drillId, order, ...extra }
+}
+
+describe('buildTrainingSheetTimeline', () => {
+  it('orders drills and computes clock times and cumulative minutes', () => {
+    const catalogById = new Map([['d1', drill('d1', 15)], ['d2', drill('d2', 20)]])
+    const timeline = buildTrainingSheetTimeline(
+      [row('r2', 1, 'd2', { duration: 25, notes: ' Par deux ' }), row('r1', 0, 'd1')],
+      { startTime: '18:00', catalogById },
+    )
+    expect(timeline.rows.map((item) => [item.trainingDrillId, item.startLabel, item.endLabel, item.cumulativeMinutes])).toEqual([
+      ['r1', '18:00', '18:15', 15],
+      ['r2', '18:15', '18:40', 40],
+    ])
+    expect(timeline.rows[1].notes).toBe('Par deux')
+    expect(timeline).toMatchObject({ totalMinutes: 40, endLabel: '18:40' })
+  })
+
+  it('drops clock times after a drill without duration', () => {
+    const timeline = buildTrainingSheetTimeline(
+      [row('r1', 0, 'd1', { meta: drill('d1', 0) }), row('r2', 1, 'd2', { meta: drill('d2', 10) })],
+      { startTime: '09:30' },
+    )
+    expect(timeline.rows.map((item) => [item.startLabel, item.endLabel, item.durationMinutes])).toEqual([
+      ['09:30', null, null],
+      [null, null, 10],
+    ])
+    expect(timeline.endLabel).toBeNull()
+  })
+})
+
+describe('sheet helpers', () => {
+  it('keeps drill paragraphs without markup', () => {
+    expect(toSheetDescription(drill('d1', 10, { descriptionHtml: '<p>Conduite <b>libre</b></p><ul><li>Cône A</li><li>Cône B</li></ul>' })))
+      .toBe('Conduite libre\nCône A\nCône B')
+  })
+
+  it('groups players by expected attendance', () => {
+    const players: Player[] = [{ id: 'p1', name: 'Zoé' }, { id: 'p2', name: 'Adam' }, { id: 'p3', name: 'Lina' }, { id: 'p4', name: 'Noé' }] as Player[]
+    const groups = groupExpectedAttendance(players, { p1: 'PRESENT', p2: 'ABSENT', p4: 'ABSENT' }, new Set(['p4']))
+    expect(groups.expected.map((player) => player.name)).toEqual(['Noé', 'Zoé'])
+    expect(groups.absent.map((player) => player.name)).toEqual(['Adam'])
+    expect(groups.unknown.map((player) => player.name)).toEqual(['Lina'])
+  })
+
+  it('reads the first diagram of a list or paginated response', () => {
+    expect(pickFirstDiagramData([{ id: 'a', data: { frames: [] } }])).toEqual({ frames: [] })
+    expect(pickFirstDiagramData({ items: [{ id: 'a', data: '{}' }] })).toBe('{}')
+    expect(pickFirstDiagramData(null)).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+import type { Drill, Player, TrainingDrill } from '../types/api'
+
+export type TrainingIntent = 'PRESENT' | 'ABSENT' | 'UNKNOWN'
+
+export type TrainingSheetRow = {
+  trainingDrillId: string
+  drillId: string
+  title: string
+  category: string
+  description: string
+  notes: string
+  durationMinutes: number | null
+  // Minutes elapsed since the start of the session when this drill ends.
+  cumulativeMinutes: number
+  startLabel: string | null
+  endLabel: string | null
+}
+
+export type TrainingSheetTimeline = {
+  rows: TrainingSheetRow[]
+  totalMinutes: number
+  endLabel: string | null
+}
+
+export type ExpectedAttendance = {
+  expected: Player[]
+  unknown: Player[]
+  absent: Player[]
+}
+
+export const TRAINING_SHEET_PRINT_CSS = `
+@page { size: A4; margin: 12mm; }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: Arial, sans-serif; color: #0f172a; font-size: 12px; }
+h1 { margin: 0; font-size: 22px; }
+h2 { margin: 18px 0 8px; font-size: 15px; border-bottom: 2px solid #0f172a; padding-bottom: 4px; }
+h3 { margin: 0; font-size: 14px; }
+.sheet-subtitle { margin: 4px 0 0; color: #475569; }
+.sheet-table { width: 100%; border-collapse: collapse; }
+.sheet-table th, .sheet-table td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #cbd5e1; vertical-align: top; }
+.sheet-table th { color: #475569; font-size: 11px; text-transform: uppercase; }
+.sheet-drill { break-inside: avoid; border: 1px solid #cbd5e1; border-radius: 8px; padding: 10px; margin-bottom: 10px; }
+.sheet-drill-head { display: flex; justify-content: space-between; gap: 12px; align-items: baseline; }
+.sheet-drill-time { color: #475569; white-space: nowrap; }
+.sheet-drill p { margin: 6px 0 0; white-space: pre-line; line-height: 1.4; }
+.sheet-notes { background: #f1f5f9; border-radius: 6px; padding: 6px 8px; }
+.sheet-diagram-steps { display: grid; grid-template-columns: repeat(3, minmax(0, 1fr)); gap: 6px; margin-top: 8px; }
+.sheet-diagram-steps.is-single { grid-template-columns: minmax(0, 70%); }
+.sheet-diagram-step { display: grid; gap: 2px; }
+.sheet-diagram-step span { font-size: 10px; color: #64748b; }
+.sheet-diagram-step svg { width: 100%; height: auto; border: 1px solid #e2e8f0; border-radius: 4px; background: #f8fff8; }
+.sheet-columns { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; break-inside: avoid; }
+.sheet-list { margin: 0; padding-left: 18px; line-height: 1.6; }
+.sheet-muted { color: #64748b; }
+`
+
+function parseTimeMinutes(time: string | null | undefined): number | null {
+  const match = (time || '').match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+function formatClock(totalMinutes: number): string {
+  const minutesInDay = ((totalMinutes % 1440) + 1440) % 1440
+  return `${String(Math.floor(minutesInDay / 60)).padStart(2, '0')}:${String(minutesInDay % 60).padStart(2, '0')}`
+}
+
+export function formatSheetDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`
+  const rest = minutes % 60
+  return rest ? `${Math.floor(minutes / 60)} h ${String(rest).padStart(2, '0')}` : `${minutes / 60} h`
+}
+
+// Full drill text for paper: markup stripped, paragraphs kept.
+export function toSheetDescription(meta: Drill | null): string {
+  if (!meta) return ''
+  const source = typeof meta.descriptionHtml === 'string' && meta.descriptionHtml.trim()
+    ? meta.descriptionHtml.replace(/<\/(p|li|h\d)>|<br\s*\/?>/gi, '\n')
+    : meta.description || ''
+  return source
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\*\*/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// Drills run back to back from the session start. A drill without duration keeps the clock where it is,
+// later drills then lose their times (they cannot be placed reliably).
+export function buildTrainingSheetTimeline(
+  drills: TrainingDrill[],
+  params: { startTime?: string | null; catalogById?: Map<string, Drill> },
+): TrainingSheetTimeline {
+  const start = parseTimeMinutes(params.startTime)
+  let elapsed = 0
+  let clockReliable = start != null
+  const rows = [...drills]
+    .sort((a, b) => a.order - b.order || a.id.localeCompare(b.id))
+    .map((row) => {
+      const meta = row.meta || params.catalogById?.get(row.drillId) || null
+      const rawDuration = row.duration ?? meta?.duration ?? null
+      const durationMinutes = rawDuration != null && Number.isFinite(rawDuration) && rawDuration > 0 ? Math.round(rawDuration) : null
+      const startLabel = clockReliable && start != null ? formatClock(start + elapsed) : null
+      if (durationMinutes == null) clockReliable = false
+      elapsed += durationMinutes ?? 0
+      return {
+        trainingDrillId: row.id,
+        drillId: row.drillId,
+        title: meta?.title || 'Exercice',
+        category: meta?.category || '',
+        description: toSheetDescription(meta),
+        notes: (row.notes || '').trim(),
+        durationMinutes,
+        cumulativeMinutes: elapsed,
+        startLabel,
+        endLabel: clockReliable && start != null ? formatClock(start + elapsed) : null,
+      }
+    })
+  return {
+    rows,
+    totalMinutes: elapsed,
+    endLabel: clockReliable && start != null && rows.length > 0 ? formatClock(start + elapsed) : null,
+  }
+}
+
+// Players who said they come (or are already checked present), then those who did not answer. Players
+// checked present override an earlier "absent" answer.
+export function groupExpectedAttendance(
+  players: Player[],
+  intentByPlayerId: Record<string, TrainingIntent>,
+  presentPlayerIds: Set<string>,
+): ExpectedAttendance {
+  const groups: ExpectedAttendance = { expected: [], unknown: [], absent: [] }
+  const sorted = [...players].sort((a, b) => a.name.localeCompare(b.name))
+  for (const player of sorted) {
+    const intent = intentByPlayerId[player.id]
+    if (presentPlayerIds.has(player.id) || intent === 'PRESENT') groups.expected.push(player)
+    else if (intent === 'ABSENT') groups.absent.push(player)
+    else groups.unknown.push(player)
+  }
+  return groups
+}
+
+export function pickFirstDiagramData(input: unknown): unknown | null {
+  const list = Array.isArray(input)
+    ? input
+    : input && typeof input === 'object' && Array.isArray((input as { items?: unknown }).items)
+      ? (input as { items: unknown[] }).items
+      : []
+  const first = list[0] as { data?: unknown } | undefined
+  return first && first.data != null ? first.data : null
+}
+
+// The sheet is printed from its own window so the app layout never leaks into the PDF. The popup must be
+// opened by the click handler itself, before any await, or browsers block it.
+export function printHtmlDocument(popup: Window, params: { title: string; css: string; bodyHtml: string }): void {
+  const doc = popup.document
+  doc.title = params.title
+  const style = doc.createElement('style')
+  style.textContent = params.css
+  doc.head.appendChild(style)
+  doc.body.innerHTML = params.bodyHtml
+  popup.focus()
+  popup.print()
+}
@@ -1,8 +1,11 @@
 import { useEffect, useState } from 'react'
+import { isAbortError } from '../adapters/requestPolicy'
 import { toErrorMessage } from '../errors'
 
-type LoadContext = {
+// `signal` aborts the in-flight requests when the inputs change or the page unmounts; manual reloads omit it.
+export type LoadContext = {
   isCancelled: () => boolean
+  signal?: AbortSignal
 }
 
 export function useAsyncLoader(
@@ -13,19 +16,23 @@ export function useAsyncLoader(
 
   useEffect(() => {
     let cancelled = false
+    const abort = new AbortController()
     async function run() {
       setLoading(true)
       setError(null)
       try {
-        await load({ isCancelled: () => cancelled })
+        await load({ isCancelled: () => cancelled, signal: abort.signal })
       } catch (err: unknown) {
-        if (!cancelled) setError(toErrorMessage(err))
+        if (!cancelled && !isAbortError(err)) setError(toErrorMessage(err))
       } finally {
         if (!cancelled) setLoading(false)
       }
     }
     run()
-    return () => { cancelled = true }
+    return () => {
+      cancelled = true
+      abort.abort()
+    }
   }, [load])
 
   return { loading, error, setError }
@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react'
+import { apiCall } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
+import { loadLiveMatchStates, readLiveMatchStateMap, type PersistedLiveMatchState } from '../features/liveMatchSync'
+
+type LiveMatchStates = Record<string, PersistedLiveMatchState | undefined>
+
+function fetchLiveMatchStates(matchIds: string[]) {
+  return apiCall(apiEndpoints.matches.liveStates(matchIds))
+}
+
+// This device's live states right away, then the ones synced by the whole staff for the given matches.
+// Closed sessions are kept for the lifetime of the page, so switching seasons back and forth refetches nothing.
+export function useLiveMatchStates(matchIds: string[]): LiveMatchStates {
+  const [states, setStates] = useState<LiveMatchStates>(() => readLiveMatchStateMap())
+  const closedStatesRef = useRef(new Map<string, PersistedLiveMatchState>())
+  const idsKey = matchIds.join(',')
+
+  useEffect(() => {
+    let cancelled = false
+    const ids = idsKey ? idsKey.split(',') : []
+    void loadLiveMatchStates(fetchLiveMatchStates, ids, { cache: closedStatesRef.current }).then((synced) => {
+      if (!cancelled) setStates({ ...readLiveMatchStateMap(), ...synced })
+    })
+    return () => { cancelled = true }
+  }, [idsKey])
+
+  return states
+}
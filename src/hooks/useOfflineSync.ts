@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { OFFLINE_QUEUE_UPDATED_EVENT, readOfflineQueueStatus, resolveConflicts } from '../adapters/offlineQueue'
+import { getOfflineStore } from '../adapters/offlineStore'
+import { replayOfflineMutations } from '../apiClient'
+
+type OfflineSyncState = {
+  online: boolean
+  syncing: boolean
+  pendingCount: number
+  conflictCount: number
+  replay: () => Promise<void>
+  resolve: (strategy: 'discard' | 'overwrite') => Promise<void>
+}
+
+export function useOfflineSync(enabled: boolean): OfflineSyncState {
+  const [online, setOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine))
+  const [syncing, setSyncing] = useState(false)
+  const [status, setStatus] = useState({ pendingCount: 0, conflictCount: 0 })
+  const replayingRef = useRef(false)
+
+  const refreshStatus = useCallback(async () => {
+    const next = await readOfflineQueueStatus(getOfflineStore()).catch(() => null)
+    if (next) setStatus(next)
+  }, [])
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current) return
+    replayingRef.current = true
+    setSyncing(true)
+    try {
+      const summary = await replayOfflineMutations()
+      setStatus({ pendingCount: summary.pendingCount, conflictCount: summary.conflictCount })
+    } catch {
+      await refreshStatus()
+    } finally {
+      replayingRef.current = false
+      setSyncing(false)
+    }
+  }, [refreshStatus])
+
+  const resolve = useCallback(async (strategy: 'discard' | 'overwrite') => {
+    await resolveConflicts(getOfflineStore(), strategy)
+    if (strategy === 'overwrite') await replay()
+    else await refreshStatus()
+  }, [refreshStatus, replay])
+
+  useEffect(() => {
+    if (!enabled) return
+    const onOnline = () => {
+      setOnline(true)
+      void replay()
+    }
+    const onOffline = () => setOnline(false)
+    const onQueueUpdated = () => { void refreshStatus() }
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+    window.addEventListener(OFFLINE_QUEUE_UPDATED_EVENT, onQueueUpdated)
+    void replay()
+    return () => {
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+      window.removeEventListener(OFFLINE_QUEUE_UPDATED_EVENT, onQueueUpdated)
+    }
+  }, [enabled, refreshStatus, replay])
+
+  return { online, syncing, ...status, replay, resolve }
+}
@@ -1,22 +1,13 @@
 // src/pages/AccountPage.tsx
 import { useEffect, useMemo, useState } from 'react'
 import type { Me } from '../api'
-import { apiGet, apiPut } from '../apiClient'
+import { apiCall, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { toErrorMessage } from '../errors'
-import type { Team } from '../types/api'
 import { uiAlert } from '../ui'
 import { useAuth } from '../useAuth'
-
-type LinkedChild = {
-  id: string
-  name: string | null
-  firstName: string | null
-  lastName: string | null
-  licence: string | null
-  teamId: string | null
-  teamName: string | null
-}
+import type { LinkedChild } from '../types/api'
 
 export default function AccountPage() {
   const { me, updateMe } = useAuth()
@@ -46,7 +37,7 @@ export default function AccountPage() {
 
     const loadTeamNames = async () => {
       try {
-        const teams = await apiGet<Team[]>(apiRoutes.teams.list)
+        const teams = await apiCall(apiEndpoints.teams.list())
         if (cancelled) return
         const map = new Map<string, string>()
         for (const team of teams || []) {
@@ -70,20 +61,18 @@ export default function AccountPage() {
       return
     }
 
-    let cancelled = false
+    const abort = new AbortController()
     const loadLinkedChild = async () => {
       try {
-        const child = await apiGet<LinkedChild | null>(apiRoutes.meChild)
-        if (!cancelled) setLinkedChild(child)
+        const child = await apiCall(apiEndpoints.me.child(), undefined, { signal: abort.signal })
+        if (!abort.signal.aborted) setLinkedChild(child)
       } catch {
-        if (!cancelled) setLinkedChild(null)
+        if (!abort.signal.aborted) setLinkedChild(null)
       }
     }
 
     void loadLinkedChild()
-    return () => {
-      cancelled = true
-    }
+    return () => abort.abort()
   }, [me?.id, me?.role])
 
   const meTeamName = useMemo(() => {
@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import { Link, useLocation, useParams } from 'react-router-dom'
-import { apiGet } from '../apiClient'
-import { apiRoutes } from '../apiRoutes'
+import { apiCall } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { coachDisplayName, coachInvitationBadge, coachManagedTeamsLabel, normalizeClubCoach } from '../features/clubCoaches'
 import type { ClubCoach } from '../types/api'
 
@@ -14,21 +14,19 @@ export default function ClubCoachDetailsPage() {
   useEffect(() => {
     const coachId = id ?? ''
     if (!coachId) return
-    let cancelled = false
+    const abort = new AbortController()
 
     async function loadCoach() {
       try {
-        const payload = await apiGet<ClubCoach>(apiRoutes.coaches.byId(coachId))
-        if (!cancelled) setCoach(normalizeClubCoach(payload))
+        const payload = await apiCall(apiEndpoints.coaches.byId(coachId), undefined, { signal: abort.signal })
+        if (!abort.signal.aborted) setCoach(normalizeClubCoach(payload))
       } catch {
-        if (!cancelled) setCoach((current) => current ?? null)
+        if (!abort.signal.aborted) setCoach((current) => current ?? null)
       }
     }
 
     void loadCoach()
-    return () => {
-      cancelled = true
-    }
+    return () => abort.abort()
   }, [id])
 
   const fullName = useMemo(() => {
@@ -1,8 +1,11 @@
 import { useCallback, useEffect, useMemo, useState, type CSSProperties } from 'react'
 import QRCode from 'qrcode'
-import { apiDelete, apiGet, apiPost, apiPut } from '../apiClient'
+import { apiCall, apiDelete, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
+import { apiGetAllItems } from '../adapters/pagination'
 import { apiRoutes } from '../apiRoutes'
 import { DotsHorizontalIcon, PlusIcon } from '../components/icons'
+import PlayerDocumentsOverview from '../components/PlayerDocumentsOverview'
 import RoundIconButton from '../components/RoundIconButton'
 import { toErrorMessage } from '../errors'
 import {
@@ -13,11 +16,11 @@ import {
   isCoachAssignedToTeam,
   normalizeClubCoach,
 } from '../features/clubCoaches'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { useAuth } from '../useAuth'
 import { useNavigate } from 'react-router-dom'
 import { useTeamScope } from '../useTeamScope'
-import type { ClubCoach, ClubMe, ClubSeasonConfig, Team } from '../types/api'
+import type { ClubCoach, ClubMe, ClubSeasonConfig, Player, PlayerDocumentStatus, PlayerDocumentType, Team } from '../types/api'
 import './ClubManagementPage.css'
 
 const AGE_CATEGORY_OPTIONS = [
@@ -215,6 +218,7 @@ export default function ClubManagementPage() {
   const [club, setClub] = useState<ClubMe | null>(null)
   const [teams, setTeams] = useState<Team[]>([])
   const [coaches, setCoaches] = useState<ClubCoach[]>([])
+  const [players, setPlayers] = useState<Player[]>([])
   const [refreshTick, setRefreshTick] = useState(0)
 
   const [clubName, setClubName] = useState('')
@@ -256,15 +260,21 @@ export default function ClubManagementPage() {
 
   const isDirection = me?.role === 'DIRECTION'
 
+  async function bulkUpdateDocuments(playerIds: string[], type: PlayerDocumentType, status: PlayerDocumentStatus) {
+    await apiPut(apiRoutes.players.documentsBulk, { playerIds, type, status })
+    setRefreshTick((value) => value + 1)
+  }
+
   function openInfoModal(message: string, title = 'Information') {
     setInfoModal({ title, message })
   }
 
-  const loadClubData = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    const [clubData, teamData, coachData] = await Promise.all([
-      apiGet<ClubMe>(apiRoutes.clubs.me).catch(() => null),
-      apiGet<Team[]>(apiRoutes.teams.list).catch(() => []),
-      apiGet<ClubCoach[]>(apiRoutes.clubs.coaches).catch(() => []),
+  const loadClubData = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const [clubData, teamData, coachData, playerData] = await Promise.all([
+      apiCall(apiEndpoints.clubs.me(), undefined, { signal }).catch(() => null),
+      apiCall(apiEndpoints.teams.list(), undefined, { signal }).catch((): Team[] => []),
+      apiCall(apiEndpoints.clubs.coaches(), undefined, { signal }).catch((): ClubCoach[] => []),
+      apiGetAllItems(apiEndpoints.players.list(), { signal }).catch((): Player[] => []),
     ])
 
     if (isCancelled()) return
@@ -283,6 +293,7 @@ export default function ClubManagementPage() {
         .filter((coach): coach is ClubCoach => Boolean(coach))
         .sort(compareCoaches),
     )
+    setPlayers(playerData)
   }, [refreshTick])
 
   const { loading, error } = useAsyncLoader(loadClubData)
@@ -985,6 +996,13 @@ export default function ClubManagementPage() {
         )}
       </section>
 
+      <section className="panel" style={cardStyle}>
+        <div className="panel-head">
+          <h3 className="panel-title">Dossiers joueurs</h3>
+        </div>
+        <PlayerDocumentsOverview players={players} teams={sortedTeams} onBulkUpdate={bulkUpdateDocuments} />
+      </section>
+
       {isRenameModalOpen && (
         <>
           <div className="club-modal-overlay" onClick={() => !renamingClub && setIsRenameModalOpen(false)} />
@@ -1,11 +1,12 @@
 import { useCallback, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { apiGet, apiPost, apiPut } from '../apiClient'
+import { apiCall, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import DiagramComposer from '../components/DiagramComposer'
 import { createEmptyDiagramData, normalizeDiagramData, type DiagramData } from '../components/diagramShared'
 import { toErrorMessage } from '../errors'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { uiAlert } from '../ui'
 
 interface Diagram { id: string; title: string; data: DiagramData; drillId?: string | null; trainingDrillId?: string | null }
@@ -22,9 +23,9 @@ export default function DiagramEditor() {
   const trainingDrillId = qs('trainingDrillId')
 
   // load if editing
-  const loadDiagram = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
+  const loadDiagram = useCallback(async ({ isCancelled, signal }: LoadContext) => {
     if (!diagramId) return
-    const d = await apiGet<Diagram>(apiRoutes.diagrams.byId(diagramId))
+    const d = await apiCall(apiEndpoints.diagrams.byId(diagramId), undefined, { signal })
     if (isCancelled()) return
     setData(normalizeDiagramData(d.data))
   }, [diagramId])
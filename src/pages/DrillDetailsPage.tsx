@@ -5,32 +5,36 @@ import DiagramPlayer from '../components/DiagramPlayer'
 import { ChevronLeftIcon, CloseIcon, DotsHorizontalIcon, SparklesIcon } from '../components/icons'
 import RoundIconButton from '../components/RoundIconButton'
 import { apiGetAllItems } from '../adapters/pagination'
-import { apiDelete, apiGet, apiPost, apiPut } from '../apiClient'
+import { apiCall, apiDelete, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { createEmptyDiagramData, normalizeDiagramData, summarizeDiagramMaterials, type DiagramData } from '../components/diagramShared'
 import { canWrite } from '../authz'
 import { toErrorMessage } from '../errors'
+import {
+  DRILL_VISIBILITY_OPTIONS,
+  buildDrillForkPayload,
+  canEditDrill,
+  canForkDrill,
+  getAllowedDrillVisibilities,
+  getDrillSourceStatus,
+  getDrillVisibility,
+  getDrillVisibilityLabel,
+} from '../features/drillLibrary'
+import { shareOrDownloadFile } from '../features/diagramExport'
+import {
+  DRILL_EXPORT_MIME_TYPE,
+  buildDrillExportEntry,
+  buildDrillExportFile,
+  buildDrillExportFileName,
+} from '../features/drillTransfer'
 import { mapTrainingAiError } from '../features/trainingAi'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { useAuth } from '../useAuth'
 import { useTeamScope } from '../useTeamScope'
-import type { Drill } from '../types/api'
+import type { DiagramSummary, Drill, DrillVisibility } from '../types/api'
 import './DrillDetailsPage.css'
 
-interface Diagram {
-  id: string
-  title: string
-  data: unknown
-}
-
-function normalizeDiagramList(input: unknown): Diagram[] {
-  if (Array.isArray(input)) return input as Diagram[]
-  if (input && typeof input === 'object' && Array.isArray((input as { items?: unknown }).items)) {
-    return (input as { items: Diagram[] }).items
-  }
-  return []
-}
-
 function escapeHtml(value: string): string {
   return value
     .replace(/&/g, '&amp;')
@@ -112,7 +116,10 @@ export default function DrillDetailsPage() {
   const backTarget = fromTrainingId ? `/training/${fromTrainingId}` : '/exercices'
   const backLabel = fromTrainingId ? "Retour a l'entrainement" : 'Retour aux exercices'
   const [drill, setDrill] = useState<Drill | null>(null)
-  const [diagram, setDiagram] = useState<Diagram | null>(null)
+  const [allDrills, setAllDrills] = useState<Drill[]>([])
+  const [forking, setForking] = useState(false)
+  const [syncingSource, setSyncingSource] = useState(false)
+  const [diagram, setDiagram] = useState<DiagramSummary | null>(null)
   const [editing, setEditing] = useState(false)
   const [saving, setSaving] = useState(false)
   const [deleting, setDeleting] = useState(false)
@@ -126,23 +133,26 @@ export default function DrillDetailsPage() {
   const [title, setTitle] = useState('')
   const [category, setCategory] = useState('')
   const [description, setDescription] = useState('')
+  const [visibility, setVisibility] = useState<DrillVisibility>('TEAM')
   const canManage = me ? canWrite(me.role) : false
   const missingActiveTeam = canManage && requiresSelection && !selectedTeamId
-  const writable = canManage && !missingActiveTeam
+  const lockedForMe = Boolean(drill && me && canManage && !canEditDrill(drill, me))
+  const writable = canManage && !missingActiveTeam && !lockedForMe
+  const forkable = Boolean(drill && canManage && canForkDrill(drill, selectedTeamId))
   const readOnly = !canManage
 
-  const loadDrill = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    const diagramsPath = fromTrainingDrillId
-      ? apiRoutes.trainingDrills.diagrams(fromTrainingDrillId)
-      : apiRoutes.drills.diagrams(drillId)
-    const [rows, diagramRows] = await Promise.all([
-      apiGetAllItems<Drill>(apiRoutes.drills.list),
-      apiGet<unknown>(diagramsPath).catch(() => []),
+  const loadDrill = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const diagramsEndpoint = fromTrainingDrillId
+      ? apiEndpoints.trainingDrills.diagrams(fromTrainingDrillId)
+      : apiEndpoints.drills.diagrams(drillId)
+    const [rows, diagrams] = await Promise.all([
+      apiGetAllItems<Drill>(apiRoutes.drills.list, { signal }),
+      apiCall(diagramsEndpoint, undefined, { signal }).catch((): DiagramSummary[] => []),
     ])
     if (isCancelled()) return
     const found = rows.find((item) => item.id === drillId) ?? null
     setDrill(found)
-    const diagrams = normalizeDiagramList(diagramRows)
+    setAllDrills(rows)
     setDiagram(diagrams[0] ?? null)
   }, [drillId, fromTrainingDrillId])
 
@@ -155,6 +165,7 @@ export default function DrillDetailsPage() {
     setTitle(drill.title)
     setCategory(drill.category)
     setDescription(drill.description)
+    setVisibility(getDrillVisibility(drill))
     setEditError(null)
     setEditing(true)
   }
@@ -171,12 +182,11 @@ export default function DrillDetailsPage() {
     try {
       setSaving(true)
       const payload = {
+        ...toDrillPayload(drill),
         title: title.trim(),
         category: category.trim(),
-        duration: drill.duration && drill.duration > 0 ? drill.duration : 1,
-        players: drill.players?.trim() ? drill.players : 'Variable',
         description: description.trim(),
-        tags: drill.tags,
+        visibility,
       }
       const updated = await updateDrillCompat(drill.id, payload)
       setDrill(updated)
@@ -204,6 +214,50 @@ export default function DrillDetailsPage() {
     }
   }
 
+  async function forkDrill() {
+    if (!drill || !selectedTeamId || forking) return
+    try {
+      setForking(true)
+      const created = await apiPost<Drill>(apiRoutes.drills.list, buildDrillForkPayload(drill, selectedTeamId))
+      const [sourceDiagram] = await apiCall(apiEndpoints.drills.diagrams(drill.id)).catch((): DiagramSummary[] => [])
+      if (sourceDiagram) {
+        await apiPost(apiRoutes.drills.diagrams(created.id), {
+          title: sourceDiagram.title || 'Diagramme',
+          data: sourceDiagram.data,
+        })
+      }
+      navigate(`/exercices/${created.id}`)
+    } catch (err: unknown) {
+      setEditError(toErrorMessage(err))
+    } finally {
+      setForking(false)
+    }
+  }
+
+  async function exportDrill() {
+    if (!drill) return
+    try {
+      const file = buildDrillExportFile([buildDrillExportEntry(drill, diagram?.data ?? null)])
+      const blob = new Blob([JSON.stringify(file, null, 2)], { type: DRILL_EXPORT_MIME_TYPE })
+      await shareOrDownloadFile(blob, buildDrillExportFileName([drill]), drill.title)
+    } catch (err: unknown) {
+      setEditError(`Export impossible: ${toErrorMessage(err)}`)
+    }
+  }
+
+  async function markSourceChangesSeen(sourceUpdatedAt: string) {
+    if (!writable || !drill || syncingSource) return
+    try {
+      setSyncingSource(true)
+      const updated = await updateDrillCompat(drill.id, { ...toDrillPayload(drill), sourceUpdatedAt })
+      setDrill(updated)
+    } catch (err: unknown) {
+      setEditError(toErrorMessage(err))
+    } finally {
+      setSyncingSource(false)
+    }
+  }
+
   async function generateAiDiagram() {
     if (!writable) return
     if (!drill || generatingDiagram) return
@@ -213,11 +267,11 @@ export default function DrillDetailsPage() {
       const body = objective ? { objective } : {}
       if (fromTrainingDrillId) {
         await apiPost(apiRoutes.trainingDrills.generateAiDiagram(fromTrainingDrillId), body)
-        const diagrams = normalizeDiagramList(await apiGet<unknown>(apiRoutes.trainingDrills.diagrams(fromTrainingDrillId)))
+        const diagrams = await apiCall(apiEndpoints.trainingDrills.diagrams(fromTrainingDrillId))
         setDiagram(diagrams[0] ?? null)
       } else {
         await apiPost(apiRoutes.drills.generateAiDiagram(drill.id), body)
-        const diagrams = normalizeDiagramList(await apiGet<unknown>(apiRoutes.drills.diagrams(drill.id)))
+        const diagrams = await apiCall(apiEndpoints.drills.diagrams(drill.id))
         setDiagram(diagrams[0] ?? null)
       }
     } catch (err: unknown) {
@@ -239,19 +293,19 @@ export default function DrillDetailsPage() {
     try {
       setManualDiagramSaving(true)
       setManualDiagramError(null)
-      let saved: Diagram
+      let saved: DiagramSummary
       if (diagram?.id) {
-        saved = await apiPut<Diagram>(apiRoutes.diagrams.byId(diagram.id), {
+        saved = await apiPut<DiagramSummary>(apiRoutes.diagrams.byId(diagram.id), {
           title: 'Diagramme',
           data: manualDiagramData,
         })
       } else if (fromTrainingDrillId) {
-        saved = await apiPost<Diagram>(apiRoutes.trainingDrills.diagrams(fromTrainingDrillId), {
+        saved = await apiPost<DiagramSummary>(apiRoutes.trainingDrills.diagrams(fromTrainingDrillId), {
           title: 'Diagramme',
           data: manualDiagramData,
         })
       } else {
-        saved = await apiPost<Diagram>(apiRoutes.drills.diagrams(drill.id), {
+        saved = await apiPost<DiagramSummary>(apiRoutes.drills.diagrams(drill.id), {
           title: 'Diagramme',
           data: manualDiagramData,
         })
@@ -300,6 +354,8 @@ export default function DrillDetailsPage() {
   }
 
   const materials = diagram ? summarizeDiagramMaterials(diagram.data) : []
+  const sourceStatus = getDrillSourceStatus(drill, allDrills)
+  const drillVisibility = getDrillVisibility(drill)
   const drillDescriptionHtml = drill.descriptionHtml?.trim()
     ? drill.descriptionHtml
     : markdownToHtml(drill.description || '')
@@ -344,6 +400,10 @@ export default function DrillDetailsPage() {
                 <span>Statut</span>
                 <strong>{diagramLabel}</strong>
               </div>
+              <div className="drill-summary-chip">
+                <span>Visibilité</span>
+                <strong>{getDrillVisibilityLabel(drill)}</strong>
+              </div>
             </div>
             {tags.length > 0 && (
               <div className="drill-tags-row" aria-label="Tags de l'exercice">
@@ -354,6 +414,14 @@ export default function DrillDetailsPage() {
             )}
           </div>
           <div className="drill-hero-actions">
+            <button type="button" className="drill-secondary-button" onClick={() => void exportDrill()}>
+              Exporter
+            </button>
+            {forkable && (
+              <button type="button" className="drill-secondary-button" onClick={() => void forkDrill()} disabled={forking}>
+                {forking ? 'Copie…' : 'Copier dans mon équipe'}
+              </button>
+            )}
             {writable && (
               <>
                 <button type="button" className="drill-primary-button" onClick={openEditModal}>
@@ -395,6 +463,54 @@ export default function DrillDetailsPage() {
             <p>Sélectionnez une équipe active pour modifier la fiche et le diagramme de cet exercice.</p>
           </section>
         )}
+        {lockedForMe && (
+          <section className="drill-notice">
+            <p>
+              {drillVisibility === 'OFFICIAL'
+                ? 'Exercice officiel du club : seule la direction peut le modifier.'
+                : 'Exercice partagé par une autre équipe du club : seule cette équipe peut le modifier.'}
+              {forkable ? ' Copiez-le dans votre équipe pour l’adapter.' : ''}
+            </p>
+          </section>
+        )}
+        {sourceStatus.kind === 'changed' && (
+          <section className="drill-notice drill-notice--warning">
+            <p>
+              L&apos;exercice d&apos;origine « {sourceStatus.source.title} » a été modifié le {formatDate(sourceStatus.changedAt)} depuis cette copie.
+            </p>
+            <div className="drill-notice-actions">
+              <button type="button" className="drill-secondary-button" onClick={() => navigate(`/exercices/${sourceStatus.source.id}`)}>
+                Voir l&apos;original
+              </button>
+              {writable && (
+                <button
+                  type="button"
+                  className="drill-secondary-button"
+                  onClick={() => void markSourceChangesSeen(sourceStatus.changedAt)}
+                  disabled={syncingSource}
+                >
+                  {syncingSource ? 'Enregistrement…' : 'Marquer comme vu'}
+                </button>
+              )}
+            </div>
+          </section>
+        )}
+        {sourceStatus.kind === 'up-to-date' && (
+          <section className="drill-notice">
+            <p>
+              Copie de{' '}
+              <button type="button" className="drill-inline-link" onClick={() => navigate(`/exercices/${sourceStatus.source.id}`)}>
+                « {sourceStatus.source.title} »
+              </button>
+              , à jour avec l&apos;original.
+            </p>
+          </section>
+        )}
+        {sourceStatus.kind === 'missing' && (
+          <section className="drill-notice">
+            <p>Copie d&apos;un exercice du club qui n&apos;est plus disponible.</p>
+          </section>
+        )}
         {readOnly && (
           <section className="drill-notice">
             <p>Cette fiche est disponible en lecture seule. Seuls les membres du staff peuvent la modifier.</p>
@@ -446,7 +562,7 @@ export default function DrillDetailsPage() {
               </div>
             </div>
             <div className="drill-diagram-content">
-              {diagram ? <DiagramPlayer data={diagram.data} /> : <p className="drill-empty-text">{diagramEmptyMessage}</p>}
+              {diagram ? <DiagramPlayer data={diagram.data} title={drill.title} /> : <p className="drill-empty-text">{diagramEmptyMessage}</p>}
             </div>
             {writable && (
               <div className="drill-diagram-actions">
@@ -537,6 +653,17 @@ export default function DrillDetailsPage() {
                 <span>Catégorie</span>
                 <input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Catégorie *" />
               </label>
+              <label className="drill-form-field">
+                <span>Visibilité</span>
+                <select value={visibility} onChange={(e) => setVisibility(e.target.value as DrillVisibility)}>
+                  {DRILL_VISIBILITY_OPTIONS
+                    .filter((option) => me && getAllowedDrillVisibilities(me.role).includes(option.value))
+                    .filter((option) => option.value !== 'TEAM' || drill.teamId)
+                    .map((option) => (
+                      <option key={option.value} value={option.value}>{option.label} — {option.description}</option>
+                    ))}
+                </select>
+              </label>
               <label className="drill-form-field">
                 <span>Description</span>
                 <textarea
@@ -570,12 +697,30 @@ async function updateDrillCompat(
   }
 }
 
+function toDrillPayload(drill: Drill): Omit<Drill, 'id'> {
+  const payload: Omit<Drill, 'id'> & { id?: string } = {
+    ...drill,
+    duration: drill.duration && drill.duration > 0 ? drill.duration : 1,
+    players: drill.players?.trim() ? drill.players : 'Variable',
+  }
+  delete payload.id
+  delete payload.updatedAt
+  return payload
+}
+
 function isLikelyNotFound(err: unknown): boolean {
   const message = err instanceof Error ? err.message : String(err)
   const lower = message.toLowerCase()
   return lower.includes('404') || lower.includes('not found') || lower.includes('cannot put')
 }
 
+function formatDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
 function formatDuration(value: number): string {
   return value > 0 ? `${value} min` : 'Variable'
 }
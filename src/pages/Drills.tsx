@@ -1,18 +1,39 @@
 import React, { useCallback, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { canLoadMore, mergeById, nextOffset, normalizeDrillsResponse, withPagination } from '../adapters/pagination'
-import { apiGet, apiPost } from '../apiClient'
+import { apiGetAllItems, canLoadMore, mergeById, nextOffset } from '../adapters/pagination'
+import { apiCall, apiPost } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { canWrite } from '../authz'
 import DiagramComposer from '../components/DiagramComposer'
+import DrillImportModal, { type DrillImportItem } from '../components/DrillImportModal'
 import FloatingPlusButton from '../components/FloatingPlusButton'
 import SearchInput from '../components/SearchInput'
 import { createEmptyDiagramData, hasDiagramContent, type DiagramData } from '../components/diagramShared'
 import { toErrorMessage } from '../errors'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { shareOrDownloadFile } from '../features/diagramExport'
+import {
+  DRILL_SCOPE_FILTERS,
+  DRILL_VISIBILITY_OPTIONS,
+  getAllowedDrillVisibilities,
+  getDrillVisibility,
+  getDrillVisibilityLabel,
+  isDrillVisibleForTeam,
+  matchesDrillScope,
+  type DrillScopeFilter,
+} from '../features/drillLibrary'
+import {
+  DRILL_EXPORT_MIME_TYPE,
+  buildDrillExportEntry,
+  buildDrillExportFile,
+  buildDrillExportFileName,
+  type DrillExportEntry,
+} from '../features/drillTransfer'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
+import { uiConfirm } from '../ui'
 import { useAuth } from '../useAuth'
 import { useTeamScope } from '../useTeamScope'
-import type { Drill, DrillsResponse } from '../types/api'
+import type { Drill, DrillVisibility, DrillsResponse } from '../types/api'
 import './Drills.css'
 
 const DRILLS_PAGE_LIMIT = 40
@@ -26,22 +47,29 @@ export default function DrillsPage() {
   const [loadingMoreDrills, setLoadingMoreDrills] = useState(false)
   const [q, setQ] = useState('')
   const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+  const [scopeFilter, setScopeFilter] = useState<DrillScopeFilter>('all')
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [exportProgress, setExportProgress] = useState<string | null>(null)
+  const [transferErr, setTransferErr] = useState<string | null>(null)
+  const [importLibrary, setImportLibrary] = useState<Drill[] | null>(null)
+  const [showImportModal, setShowImportModal] = useState(false)
 
   // creation form state
   const [newTitle, setNewTitle] = useState('')
   const [newCategory, setNewCategory] = useState('')
   const [newDescription, setNewDescription] = useState('')
   const [newDiagramData, setNewDiagramData] = useState<DiagramData>(createEmptyDiagramData())
+  const [newVisibility, setNewVisibility] = useState<DrillVisibility>('TEAM')
   const [creating, setCreating] = useState(false)
   const [createErr, setCreateErr] = useState<string | null>(null)
 
   const writable = me ? canWrite(me.role) : false
   const teamScopedWritable = writable && (!requiresSelection || Boolean(selectedTeamId))
 
-  const loadDrills = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    const raw = await apiGet<unknown>(withPagination(apiRoutes.drills.list, { limit: DRILLS_PAGE_LIMIT, offset: 0 }))
-    const res = normalizeDrillsResponse(raw, { limit: DRILLS_PAGE_LIMIT, offset: 0 })
+  const loadDrills = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const res = await apiCall(apiEndpoints.drills.page({ limit: DRILLS_PAGE_LIMIT, offset: 0 }), undefined, { signal })
     if (isCancelled()) return
     setData(res)
     setDrillsPagination(res.pagination)
@@ -53,9 +81,7 @@ export default function DrillsPage() {
   const filtered = useMemo(() => {
     let items = requiresSelection && !selectedTeamId
       ? []
-      : selectedTeamId
-        ? data.items.filter((drill) => !drill.teamId || drill.teamId === selectedTeamId)
-        : data.items
+      : data.items.filter((drill) => isDrillVisibleForTeam(drill, selectedTeamId) && matchesDrillScope(drill, scopeFilter, selectedTeamId))
     if (q.trim()) {
       const needle = q.toLowerCase()
       items = items.filter(d =>
@@ -68,7 +94,7 @@ export default function DrillsPage() {
       items = items.filter((d) => allowed.has(d.category))
     }
     return items
-  }, [data.items, q, requiresSelection, selectedCategories, selectedTeamId])
+  }, [data.items, q, requiresSelection, scopeFilter, selectedCategories, selectedTeamId])
 
   const categories = useMemo(() => data.categories, [data.categories])
 
@@ -97,6 +123,7 @@ export default function DrillsPage() {
         description: newDescription.trim(),
         tags: [],
         teamId: selectedTeamId || undefined,
+        visibility: newVisibility,
       }
       const created = await apiPost<Drill>(apiRoutes.drills.list, payload)
       if (hasDiagramContent(newDiagramData)) {
@@ -105,10 +132,7 @@ export default function DrillsPage() {
           data: newDiagramData,
         })
       }
-      const raw = await apiGet<unknown>(withPagination(apiRoutes.drills.list, { limit: DRILLS_PAGE_LIMIT, offset: 0 }))
-      const res = normalizeDrillsResponse(raw, { limit: DRILLS_PAGE_LIMIT, offset: 0 })
-      setData(res)
-      setDrillsPagination(res.pagination)
+      await reloadDrills()
       setNewTitle('')
       setNewCategory('')
       setNewDescription('')
@@ -122,13 +146,95 @@ export default function DrillsPage() {
     }
   }
 
+  async function reloadDrills() {
+    const res = await apiCall(apiEndpoints.drills.page({ limit: DRILLS_PAGE_LIMIT, offset: 0 }))
+    setData(res)
+    setDrillsPagination(res.pagination)
+  }
+
+  // The list is paginated: exporting everything and detecting duplicates need the whole visible library.
+  async function loadVisibleLibrary(): Promise<Drill[]> {
+    const items = await apiGetAllItems<Drill>(apiRoutes.drills.list)
+    return items.filter((drill) => isDrillVisibleForTeam(drill, selectedTeamId))
+  }
+
+  function toggleSelected(drillId: string) {
+    setSelectedIds((prev) => (prev.includes(drillId) ? prev.filter((id) => id !== drillId) : [...prev, drillId]))
+  }
+
+  async function exportDrills(scope: 'selection' | 'all') {
+    if (exportProgress) return
+    setTransferErr(null)
+    setExportProgress('Préparation…')
+    try {
+      const drills = scope === 'all'
+        ? await loadVisibleLibrary()
+        : data.items.filter((drill) => selectedIds.includes(drill.id))
+      if (drills.length === 0) throw new Error('Aucun exercice à exporter.')
+      const entries: DrillExportEntry[] = []
+      const missingDiagrams: string[] = []
+      for (const drill of drills) {
+        setExportProgress(`Export ${entries.length + 1}/${drills.length}…`)
+        let diagramData: unknown = null
+        try {
+          const [diagram] = await apiCall(apiEndpoints.drills.diagrams(drill.id))
+          diagramData = diagram?.data ?? null
+        } catch {
+          missingDiagrams.push(drill.title)
+        }
+        entries.push(buildDrillExportEntry(drill, diagramData))
+      }
+      if (missingDiagrams.length > 0 && !uiConfirm(
+        `Le diagramme de ${missingDiagrams.length} exercice(s) n'a pas pu être récupéré:\n${missingDiagrams.map((title) => `- ${title}`).join('\n')}\n\nExporter sans ces diagrammes ?`,
+      )) return
+      const blob = new Blob([JSON.stringify(buildDrillExportFile(entries), null, 2)], { type: DRILL_EXPORT_MIME_TYPE })
+      await shareOrDownloadFile(blob, buildDrillExportFileName(drills), 'Exercices')
+      setSelectionMode(false)
+      setSelectedIds([])
+    } catch (err: unknown) {
+      setTransferErr(`Export impossible: ${toErrorMessage(err)}`)
+    } finally {
+      setExportProgress(null)
+    }
+  }
+
+  function openImport() {
+    setTransferErr(null)
+    setImportLibrary(null)
+    setShowImportModal(true)
+    loadVisibleLibrary()
+      .then(setImportLibrary)
+      .catch((err: unknown) => {
+        setShowImportModal(false)
+        setTransferErr(toErrorMessage(err))
+      })
+  }
+
+  async function importDrills(items: DrillImportItem[], onImported: (item: DrillImportItem, diagramSaved: boolean) => void) {
+    try {
+      for (const item of items) {
+        const created = await apiPost<Drill>(apiRoutes.drills.list, item.payload)
+        // The drill exists from here on: a failing diagram is reported, not retried by sending the drill again.
+        const diagramSaved = item.diagram
+          ? await apiPost(apiRoutes.drills.diagrams(created.id), { title: 'Diagramme', data: item.diagram }).then(() => true, () => false)
+          : true
+        onImported(item, diagramSaved)
+      }
+    } finally {
+      // Also after a failure midway: the list and the duplicate check must see the drills already created.
+      await Promise.all([
+        reloadDrills().catch(() => undefined),
+        loadVisibleLibrary().then(setImportLibrary).catch(() => undefined),
+      ])
+    }
+  }
+
   async function loadMoreDrills() {
     if (loadingMoreDrills || !canLoadMoreDrills) return
     const offset = nextOffset(drillsPagination)
     setLoadingMoreDrills(true)
     try {
-      const raw = await apiGet<unknown>(withPagination(apiRoutes.drills.list, { limit: DRILLS_PAGE_LIMIT, offset }))
-      const next = normalizeDrillsResponse(raw, { limit: DRILLS_PAGE_LIMIT, offset })
+      const next = await apiCall(apiEndpoints.drills.page({ limit: DRILLS_PAGE_LIMIT, offset }))
       setData((prev) => ({
         items: mergeById(prev.items, next.items),
         categories: next.categories.length ? next.categories : prev.categories,
@@ -163,6 +269,22 @@ export default function DrillsPage() {
             onChange={(event) => setQ(event.target.value)}
           />
         </div>
+        <div className="drills-category-tags" aria-label="Filtres bibliothèque">
+          {DRILL_SCOPE_FILTERS.map((option) => {
+            const active = scopeFilter === option.value
+            return (
+              <button
+                key={option.value}
+                type="button"
+                className={`drills-category-tag ${active ? 'is-active' : ''}`}
+                aria-pressed={active}
+                onClick={() => setScopeFilter(option.value)}
+              >
+                {option.label}
+              </button>
+            )
+          })}
+        </div>
         {categories.length > 0 && (
           <div className="drills-category-tags" aria-label="Filtres catégories">
             {categories.map((cat) => {
@@ -187,18 +309,52 @@ export default function DrillsPage() {
           <h3 className="panel-title">Liste</h3>
           <p className="panel-note">{filtered.length} exercice(s)</p>
         </div>
+        <div className="drills-transfer-actions">
+          {selectionMode ? (
+            <>
+              <button type="button" onClick={() => void exportDrills('selection')} disabled={selectedIds.length === 0 || Boolean(exportProgress)}>
+                Exporter la sélection ({selectedIds.length})
+              </button>
+              <button type="button" onClick={() => { setSelectionMode(false); setSelectedIds([]) }} disabled={Boolean(exportProgress)}>
+                Annuler
+              </button>
+            </>
+          ) : (
+            <button type="button" onClick={() => setSelectionMode(true)} disabled={Boolean(exportProgress)}>Sélectionner</button>
+          )}
+          <button type="button" onClick={() => void exportDrills('all')} disabled={Boolean(exportProgress) || (requiresSelection && !selectedTeamId)}>
+            Exporter tout
+          </button>
+          {teamScopedWritable && (
+            <button type="button" onClick={openImport} disabled={Boolean(exportProgress)}>Importer</button>
+          )}
+          {exportProgress && <span className="panel-note">{exportProgress}</span>}
+        </div>
+        {transferErr && <div className="inline-alert error">{transferErr}</div>}
         {(loading || loadingMoreDrills) && <div style={{ color: '#9ca3af' }}>Chargement…</div>}
         {error && <div className="inline-alert error">{error}</div>}
         <div style={{ display: 'grid', gridTemplateColumns: '1fr', gap: 12 }}>
         {filtered.map(d => (
           <article
             key={d.id}
-            onClick={() => navigate(`/exercices/${d.id}`)}
-            style={{ border: '1px solid #e5e7eb', borderRadius: 10, padding: 12, background: '#fff', cursor: 'pointer', boxShadow: '0 4px 12px rgba(15,23,42,0.05)' }}
+            onClick={() => (selectionMode ? toggleSelected(d.id) : navigate(`/exercices/${d.id}`))}
+            aria-selected={selectionMode ? selectedIds.includes(d.id) : undefined}
+            style={{ border: `1px solid ${selectionMode && selectedIds.includes(d.id) ? '#2563eb' : '#e5e7eb'}`, borderRadius: 10, padding: 12, background: '#fff', cursor: 'pointer', boxShadow: '0 4px 12px rgba(15,23,42,0.05)' }}
           >
             <div style={{ fontSize: 12, color: '#6b7280', marginBottom: 4 }}>{d.category}</div>
-            <header>
+            <header className="drills-card-head">
+              {selectionMode && (
+                <input
+                  type="checkbox"
+                  aria-label={`Sélectionner ${d.title}`}
+                  checked={selectedIds.includes(d.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(d.id)}
+                />
+              )}
               <strong>{d.title}</strong>
+              <span className={`drills-visibility-badge is-${getDrillVisibility(d).toLowerCase()}`}>{getDrillVisibilityLabel(d)}</span>
+              {d.sourceDrillId && <span className="drills-visibility-badge">Copie</span>}
             </header>
             <p style={{ fontSize: 13, color: '#374151', marginTop: 8, marginBottom: 0 }}>
               {d.description}
@@ -222,9 +378,24 @@ export default function DrillsPage() {
         <FloatingPlusButton ariaLabel="Nouvel exercice" zIndex={20} onClick={() => {
           setCreateErr(null)
           setNewDiagramData(createEmptyDiagramData())
+          setNewVisibility(selectedTeamId ? 'TEAM' : 'CLUB')
           setShowCreateModal(true)
         }} />
       )}
+      {teamScopedWritable && showImportModal && (
+        <DrillImportModal
+          library={importLibrary}
+          categories={data.categories}
+          tags={data.tags}
+          teamId={selectedTeamId}
+          visibilityOptions={DRILL_VISIBILITY_OPTIONS
+            .filter((option) => me && getAllowedDrillVisibilities(me.role).includes(option.value))
+            .filter((option) => option.value !== 'TEAM' || selectedTeamId)}
+          defaultVisibility={selectedTeamId ? 'TEAM' : 'CLUB'}
+          onImport={importDrills}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
       {teamScopedWritable && showCreateModal && (
         <div
           role="dialog"
@@ -284,8 +455,23 @@ export default function DrillsPage() {
                 rows={4}
                 value={newDescription}
                 onChange={e => setNewDescription(e.target.value)}
-                style={{ width: '100%', padding: 8, border: '1px solid #e5e7eb', borderRadius: 6, marginBottom: 12, resize: 'vertical' }}
+                style={{ width: '100%', padding: 8, border: '1px solid #e5e7eb', borderRadius: 6, marginBottom: 8, resize: 'vertical' }}
               />
+              <label style={{ display: 'grid', gap: 4, fontSize: 13, color: '#374151', marginBottom: 12 }}>
+                Visibilité
+                <select
+                  value={newVisibility}
+                  onChange={e => setNewVisibility(e.target.value as DrillVisibility)}
+                  style={{ width: '100%', padding: 8, border: '1px solid #e5e7eb', borderRadius: 6 }}
+                >
+                  {DRILL_VISIBILITY_OPTIONS
+                    .filter((option) => me && getAllowedDrillVisibilities(me.role).includes(option.value))
+                    .filter((option) => option.value !== 'TEAM' || selectedTeamId)
+                    .map((option) => (
+                      <option key={option.value} value={option.value}>{option.label} — {option.description}</option>
+                    ))}
+                </select>
+              </label>
               <div style={{ marginBottom: 12 }}>
                 <strong style={{ display: 'block', marginBottom: 8 }}>Diagramme (optionnel)</strong>
                 <DiagramComposer value={newDiagramData} onChange={setNewDiagramData} minHeight={300} />
@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
-import { apiGet, apiPost } from '../apiClient'
+import { isAbortError } from '../adapters/requestPolicy'
+import { apiCall, apiPost } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { toErrorMessage } from '../errors'
 import { useAuth } from '../useAuth'
@@ -36,7 +38,7 @@ export default function InviteAcceptPage() {
   const [passwordConfirmError, setPasswordConfirmError] = useState('')
   const [submitting, setSubmitting] = useState(false)
 
-  const loadInvitation = useCallback(async () => {
+  const loadInvitation = useCallback(async (signal: AbortSignal) => {
     if (!token) {
       setState('invalid')
       return
@@ -46,12 +48,13 @@ export default function InviteAcceptPage() {
     setApiErrorMessage('')
 
     try {
-      const invitation = await apiGet<InvitationDetails>(apiRoutes.auth.invitationByToken(token))
+      const invitation = await apiCall(apiEndpoints.auth.invitationByToken(token), undefined, { signal })
       setDetails(invitation)
       setFirstName((invitation.firstName || '').trim())
       setLastName((invitation.lastName || '').trim())
       setState('ready')
     } catch (err: unknown) {
+      if (isAbortError(err)) return
       const status = extractStatusCode(err)
       if (status === 404) {
         setState('invalid')
@@ -71,7 +74,9 @@ export default function InviteAcceptPage() {
   }, [token])
 
   useEffect(() => {
-    void loadInvitation()
+    const abort = new AbortController()
+    void loadInvitation(abort.signal)
+    return () => abort.abort()
   }, [loadInvitation])
 
   async function acceptInvitation(e: React.FormEvent) {
@@ -1,14 +1,33 @@
 
 
 
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useParams, Link, useLocation } from 'react-router-dom'
-import { apiUrl } from '../apiClient'
-import { appendQueryParams } from '../adapters/pagination'
-import { normalizeMatchdayPayload } from '../adapters/matchday'
+import { apiCall, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { toErrorMessage } from '../errors'
+import {
+  buildConvocationMessages,
+  createApiConvocationNotifier,
+  createLocalConvocationNotifier,
+  defaultReminderTime,
+  defaultRsvpDeadline,
+  isRsvpClosed,
+  lastReminderAt,
+  listReminderTargets,
+  readReminderLog,
+  recordReminders,
+  resolveConvocationStatus,
+  suggestReplacements,
+  summarizeConvocations,
+  type ConvocationLike,
+  type ConvocationNotifier,
+  type RsvpLinks,
+} from '../features/convocations'
 import { formatMatchdayLocationLabel } from '../features/matchdayLocation'
+import { formatAvailabilityIssues, getPlayerAvailability, isPlayerAvailable } from '../features/playerAvailability'
+import { createScoreboardPoller } from '../features/publicScoreboard'
 import { uiAlert } from '../ui'
 import type { Matchday, Player } from '../types/api'
 function useQuery() {
@@ -20,12 +39,7 @@ function useQuery() {
 const normSide = (s: unknown): 'home' | 'away' => (String(s || '').toLowerCase() === 'away' ? 'away' : 'home')
 const isSub = (r: unknown) => String(r || '').toLowerCase() === 'sub'
 
-interface Convocation {
-  player: Player
-  status?: 'present' | 'absent' | 'convoque' | 'non_convoque'
-  // legacy support from old API:
-  present?: boolean
-}
+type Convocation = ConvocationLike
 
 interface MatchTeamPlayer { playerId?: string; role?: 'starter' | 'sub'; player?: Player }
 interface MatchTeam { id: string; side: string; score: number; players?: MatchTeamPlayer[] }
@@ -51,26 +65,64 @@ function getVisiblePlayerName(name?: string | null) {
   return typeof name === 'string' && name.trim() ? name.trim() : 'Joueur inconnu'
 }
 
+// Local stub while developing, so trying the page never messages real families.
+const convocationNotifier: ConvocationNotifier = import.meta.env.DEV
+  ? createLocalConvocationNotifier()
+  : createApiConvocationNotifier(apiPost)
+
+function toDateTimeInputValue(iso: string | null | undefined) {
+  const date = iso ? new Date(iso) : null
+  if (!date || Number.isNaN(date.getTime())) return ''
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function formatReminderDate(iso: string) {
+  return new Date(iso).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
+function fromDateTimeInputValue(value: string) {
+  const date = value ? new Date(value) : null
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null
+}
+
+function fetchSummary(matchdayId: string, signal?: AbortSignal) {
+  return apiCall(apiEndpoints.matchday.summary<SummaryResponse>(matchdayId, { includeAllPlayers: true }), undefined, { signal })
+}
+
 export default function MatchDay() {
   const { id } = useParams<{ id: string }>()
   const [data, setData] = useState<SummaryResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const [rsvp, setRsvp] = useState<Record<string, { presentUrl: string; absentUrl: string }>>({})
+  const [rsvp, setRsvp] = useState<Record<string, RsvpLinks>>({})
+  const [rsvpDeadlineInput, setRsvpDeadlineInput] = useState('')
+  const [sendingConvocations, setSendingConvocations] = useState(false)
+  const [sendingReminders, setSendingReminders] = useState(false)
+  const [remindedAt, setRemindedAt] = useState<Record<string, string>>({})
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null)
+  const [liveError, setLiveError] = useState<string | null>(null)
 
   const [selected, setSelected] = useState<Record<string, boolean>>({})
+  const availabilityDate = useMemo(() => {
+    const date = data?.matchday?.date ? new Date(data.matchday.date) : null
+    return date && !Number.isNaN(date.getTime()) ? date : new Date()
+  }, [data?.matchday?.date])
+  // Selecting everyone leaves out unavailable players; they can still be checked one by one.
+  const selectableIds = useMemo(
+    () => (data?.convocations || []).filter(c => isPlayerAvailable(c.player, availabilityDate)).map(c => c.player.id),
+    [availabilityDate, data],
+  )
   const allSelected = useMemo(() => {
-    const ids = (data?.convocations || []).map(c => c.player.id)
-    return ids.length > 0 && ids.every(id => selected[id])
-  }, [data, selected])
+    return selectableIds.length > 0 && selectableIds.every(id => selected[id])
+  }, [selectableIds, selected])
   const selectedIds = useMemo(() => Object.keys(selected).filter(id => selected[id]), [selected])
 
   const toggleAll = () => {
     const next: Record<string, boolean> = {}
-    const ids = (data?.convocations || []).map(c => c.player.id)
     const value = !allSelected
-    ids.forEach(id => next[id] = value)
+    selectableIds.forEach(id => next[id] = value)
     setSelected(next)
   }
   const toggleOne = (id: string) => setSelected(prev => ({ ...prev, [id]: !prev[id] }))
@@ -86,17 +138,7 @@ export default function MatchDay() {
     const player = data?.playersById?.[playerId]
     const body: { matchdayId: string; email?: string } = { matchdayId: id }
     if (withEmail && player?.email) body.email = player.email
-    const resp = await fetch(apiUrl(apiRoutes.players.invite(playerId)), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify(body)
-    })
-    if (!resp.ok) {
-      const t = await resp.text().catch(() => '')
-      throw new Error(`Invite failed (${resp.status}) ${t}`)
-    }
-    const json = await resp.json()
+    const json = await apiPost<RsvpLinks>(apiRoutes.players.invite(playerId), body)
     setRsvp(prev => ({ ...prev, [playerId]: { presentUrl: json.presentUrl, absentUrl: json.absentUrl } }))
     // Optimistic UI: mark as convoked unless already present/absent
     setData(prev => prev ? ({
@@ -108,37 +150,112 @@ export default function MatchDay() {
     }) : prev)
   }
 
+  // Players whose link could not be generated are listed in `failed` rather than left out silently.
   async function genLinksForMany(ids: string[], withEmail: boolean) {
-    if (!id) return
+    const links: Record<string, RsvpLinks> = {}
+    const failed: string[] = []
+    if (!id) return { links, failed }
     for (const pid of ids) {
       const player = data?.convocations.find(c => c.player.id === pid)?.player
       const body: { matchdayId: string; email?: string } = { matchdayId: id }
       if (withEmail && player?.email) body.email = player.email
-      const resp = await fetch(apiUrl(apiRoutes.players.invite(pid)), {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify(body)
-      })
-      if (resp.ok) {
-        const json = await resp.json()
-        setRsvp(prev => ({ ...prev, [pid]: { presentUrl: json.presentUrl, absentUrl: json.absentUrl } }))
+      const json = await apiPost<RsvpLinks>(apiRoutes.players.invite(pid), body).catch(() => null)
+      if (json) {
+        links[pid] = { presentUrl: json.presentUrl, absentUrl: json.absentUrl }
+        setRsvp(prev => ({ ...prev, [pid]: links[pid] }))
+      } else {
+        failed.push(pid)
       }
     }
+    return { links, failed }
   }
 
-  const convokeSelectedByEmail = async () => {
-    const ids = selectedIds
-    if (!ids.length) return
-    await genLinksForMany(ids, true)
-    uiAlert(`Convocation envoyée pour ${ids.length} joueur(s) (si email dispo).`)
+  const rsvpDeadline = fromDateTimeInputValue(rsvpDeadlineInput)
+
+  // Saves the squad and the deadline, invites the players who were not convened yet, then moves the
+  // automatic reminder to the saved deadline.
+  async function convokePlayers(squadIds: string[], invited: Player[]) {
+    if (!id) return
+    await apiPut(apiRoutes.matchday.convocations(id), { playerIds: squadIds, rsvpDeadline })
+    const { links, failed: linkFailed } = await genLinksForMany(invited.map(p => p.id), false)
+    // A message without its RSVP links cannot be answered: those players are reported as failed instead.
+    const reachable = invited.filter(p => links[p.id])
+    const sendResult = await convocationNotifier.send(id, buildConvocationMessages('INVITATION', reachable, { rsvpDeadline, links }))
+    const result = { ...sendResult, failed: [...sendResult.failed, ...linkFailed] }
+    const remindAt = defaultReminderTime(rsvpDeadline)
+    const reminderNote = rsvpDeadline && remindAt
+      ? await convocationNotifier.scheduleReminder(id, { remindAt, rsvpDeadline })
+        .then(() => `Relance automatique des non-répondants le ${formatReminderDate(remindAt)}.`)
+        .catch((err: unknown) => `Relance automatique non programmée: ${toErrorMessage(err)}`)
+      : ''
+    setData(await fetchSummary(id))
+    setLastUpdatedAt(Date.now())
+    return { ...result, reminderNote }
+  }
+
+  const sendConvocations = async () => {
+    if (!data || !selectedIds.length) return
+    const invited = data.convocations
+      .filter(c => selected[c.player.id] && resolveConvocationStatus(c) === 'non_convoque')
+      .map(c => c.player)
+    setSendingConvocations(true)
+    try {
+      const result = await convokePlayers(selectedIds, invited)
+      if (!result) return
+      uiAlert(
+        `${result.sent.length} convocation(s) envoyée(s).`
+        + (result.failed.length ? ` ${result.failed.length} envoi(s) en échec.` : '')
+        + (result.reminderNote ? ` ${result.reminderNote}` : ''),
+      )
+    } catch (err: unknown) {
+      uiAlert(`Erreur convocations: ${toErrorMessage(err)}`)
+    } finally {
+      setSendingConvocations(false)
+    }
+  }
+
+  const convokeReplacement = async (replacement: Player) => {
+    setSelected(prev => ({ ...prev, [replacement.id]: true }))
+    setSendingConvocations(true)
+    try {
+      const result = await convokePlayers(Array.from(new Set([...selectedIds, replacement.id])), [replacement])
+      if (result?.failed.length) uiAlert(`La convocation de ${replacement.name} n'a pas pu être envoyée.`)
+    } catch (err: unknown) {
+      uiAlert(`Erreur convocation: ${toErrorMessage(err)}`)
+    } finally {
+      setSendingConvocations(false)
+    }
+  }
+
+  const remindNonResponders = async () => {
+    if (!id || !data) return
+    const targets = listReminderTargets(data.convocations, rsvpDeadline)
+    if (!targets.length) return
+    setSendingReminders(true)
+    try {
+      // Links generated during an earlier visit are not kept: fetch the missing ones before sending.
+      const generated = await genLinksForMany(targets.filter(p => !rsvp[p.id]).map(p => p.id), false)
+      const links = { ...rsvp, ...generated.links }
+      const reachable = targets.filter(p => links[p.id])
+      const result = await convocationNotifier.send(id, buildConvocationMessages('REMINDER', reachable, { rsvpDeadline, links }))
+      const failedCount = result.failed.length + generated.failed.length
+      setRemindedAt(recordReminders(id, result.sent, new Date().toISOString()))
+      uiAlert(`${result.sent.length} relance(s) envoyée(s).` + (failedCount ? ` ${failedCount} envoi(s) en échec.` : ''))
+    } catch (err: unknown) {
+      uiAlert(`Erreur relance: ${toErrorMessage(err)}`)
+    } finally {
+      setSendingReminders(false)
+    }
   }
 
   const generateLinksSelected = async () => {
     const ids = selectedIds
     if (!ids.length) return
-    await genLinksForMany(ids, false)
-    uiAlert(`Liens générés pour ${ids.length} joueur(s). Vous pouvez copier depuis la colonne RSVP.`)
+    const { failed } = await genLinksForMany(ids, false)
+    uiAlert(
+      `Liens générés pour ${ids.length - failed.length} joueur(s). Vous pouvez copier depuis la colonne RSVP.`
+      + (failed.length ? ` ${failed.length} lien(s) en échec.` : ''),
+    )
   }
 
   useEffect(() => {
@@ -148,13 +265,14 @@ export default function MatchDay() {
       try {
         setLoading(true)
         setError(null)
-        const resp = await fetch(apiUrl(appendQueryParams(apiRoutes.matchday.summary(id), { includeAllPlayers: true })), {
-          credentials: 'include',
-          signal: abort.signal
-        })
-        if (!resp.ok) throw new Error(`HTTP ${resp.status}`)
-        const json = normalizeMatchdayPayload<SummaryResponse>(await resp.json())
+        const json = await fetchSummary(id, abort.signal)
         setData(json)
+        setLastUpdatedAt(Date.now())
+        setRemindedAt(readReminderLog(id))
+        setRsvpDeadlineInput(toDateTimeInputValue(json.matchday.rsvpDeadline ?? defaultRsvpDeadline(json.matchday.date)))
+        setSelected(Object.fromEntries(
+          json.convocations.filter(c => resolveConvocationStatus(c) !== 'non_convoque').map(c => [c.player.id, true]),
+        ))
       } catch (err: unknown) {
         const isAbort = err instanceof DOMException && err.name === 'AbortError'
         if (!isAbort) setError(toErrorMessage(err, 'Erreur inconnue'))
@@ -166,6 +284,38 @@ export default function MatchDay() {
     return () => abort.abort()
   }, [id])
 
+  // Answers arrive through the RSVP links: keep the list live while the page is visible.
+  const loaded = data !== null
+  const loadSummary = useCallback(() => fetchSummary(id ?? ''), [id])
+  useEffect(() => {
+    if (!id || !loaded) return
+    const poller = createScoreboardPoller({
+      load: loadSummary,
+      onUpdate: (json, updatedAt) => {
+        setData(json)
+        setLastUpdatedAt(updatedAt)
+        setLiveError(null)
+      },
+      onError: (err, retryInMs) => {
+        setLiveError(`${toErrorMessage(err)} · nouvel essai dans ${Math.round(retryInMs / 1000)} s`)
+      },
+    })
+    function onVisibilityChange() {
+      if (document.visibilityState === 'visible') {
+        poller.start()
+        poller.refreshNow()
+      } else {
+        poller.stop()
+      }
+    }
+    if (document.visibilityState === 'visible') poller.start()
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      poller.stop()
+    }
+  }, [id, loadSummary, loaded])
+
   const dateLabel = useMemo(() => {
     if (!data?.matchday?.date) return ''
     try {
@@ -180,6 +330,16 @@ export default function MatchDay() {
   if (!data) return <div style={{ padding: 24 }}>Aucune donnée</div>
 
   const { matchday, convocations, matches } = data
+  const counts = summarizeConvocations(convocations)
+  const reminderTargets = listReminderTargets(convocations, rsvpDeadline)
+  const rsvpClosed = isRsvpClosed(rsvpDeadline)
+  const invitedCount = convocations.filter(c => selected[c.player.id] && resolveConvocationStatus(c) === 'non_convoque').length
+  const reminderAtById = new Map(convocations.map(c => [c.player.id, lastReminderAt(c, remindedAt)] as const))
+  const replacementsById = new Map(
+    convocations
+      .filter(c => resolveConvocationStatus(c) === 'absent')
+      .map(c => [c.player.id, suggestReplacements(c.player, convocations, { at: availabilityDate })] as const),
+  )
 
   // Helper to format sides (normalize side)
   const getSideLabel = (side: string, m: Match) => {
@@ -212,14 +372,48 @@ export default function MatchDay() {
           <p className="panel-note">{convocations.length} joueur(s)</p>
         </div>
         {(convocations.length > 0) && (
-          <div style={{ display: 'flex', gap: 8, alignItems: 'center', margin: '8px 0 12px' }}>
+          <div style={{ display: 'grid', gap: 8, margin: '8px 0 12px' }}>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', fontSize: 14 }}>
+              <span><strong>{counts.convened}</strong> convoqué(s)</span>
+              <span style={{ color: '#15803d' }}><strong>{counts.present}</strong> présent(s)</span>
+              <span style={{ color: '#b91c1c' }}><strong>{counts.absent}</strong> absent(s)</span>
+              <span style={{ color: '#b45309' }}><strong>{counts.pending}</strong> sans réponse</span>
+              {lastUpdatedAt && (
+                <span style={{ color: '#6b7280' }}>
+                  Suivi en direct · {new Date(lastUpdatedAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              )}
+            </div>
+            {liveError && <div className="inline-alert error">{liveError}</div>}
+            <label style={{ display: 'inline-flex', gap: 8, alignItems: 'center', fontSize: 14 }}>
+              Réponse attendue avant le
+              <input
+                type="datetime-local"
+                value={rsvpDeadlineInput}
+                onChange={(e) => setRsvpDeadlineInput(e.target.value)}
+                style={{ padding: 4, border: '1px solid #e5e7eb', borderRadius: 6 }}
+              />
+              {rsvpClosed && <span style={{ color: '#b91c1c' }}>Date limite dépassée</span>}
+            </label>
+          </div>
+        )}
+        {(convocations.length > 0) && (
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', margin: '0 0 12px', flexWrap: 'wrap' }}>
             <span style={{ fontSize: 14, opacity: 0.8 }}>{selectedIds.length} sélectionné(s)</span>
             <button
-              onClick={convokeSelectedByEmail}
-              disabled={!selectedIds.length}
-              style={{ border: '1px solid #1d4ed8', color: '#1d4ed8', background: '#fff', borderRadius: 6, padding: '4px 8px' }}
+              onClick={sendConvocations}
+              disabled={!selectedIds.length || sendingConvocations}
+              style={{ border: '1px solid #1d4ed8', color: '#fff', background: '#1d4ed8', borderRadius: 6, padding: '4px 8px' }}
             >
-              Convoquer (email)
+              {sendingConvocations ? 'Envoi…' : `Envoyer les convocations${invitedCount ? ` (${invitedCount})` : ''}`}
+            </button>
+            <button
+              onClick={remindNonResponders}
+              disabled={!reminderTargets.length || sendingReminders}
+              title={rsvpClosed ? 'La date limite de réponse est passée.' : undefined}
+              style={{ border: '1px solid #b45309', color: '#b45309', background: '#fff', borderRadius: 6, padding: '4px 8px' }}
+            >
+              {sendingReminders ? 'Relance…' : `Relancer les non-répondants (${reminderTargets.length})`}
             </button>
             <button
               onClick={generateLinksSelected}
@@ -255,7 +449,14 @@ export default function MatchDay() {
                       <td style={{ padding: '8px 4px', borderBottom: '1px solid #f0f0f0' }}>
                         <input type="checkbox" checked={!!selected[c.player.id]} onChange={() => toggleOne(c.player.id)} />
                       </td>
-                      <td style={{ padding: '8px 4px', borderBottom: '1px solid #f0f0f0' }}>{c.player.name}</td>
+                      <td style={{ padding: '8px 4px', borderBottom: '1px solid #f0f0f0' }}>
+                        {c.player.name}
+                        {(() => {
+                          const availability = getPlayerAvailability(c.player, availabilityDate)
+                          if (availability.available) return null
+                          return <div style={{ fontSize: 12, color: '#b91c1c' }}>{formatAvailabilityIssues(availability)}</div>
+                        })()}
+                      </td>
                       <td style={{ padding: '8px 4px', borderBottom: '1px solid #f0f0f0' }}>
                         {c.player.primary_position || '—'}{c.player.secondary_position ? ` / ${c.player.secondary_position}` : ''}
                       </td>
@@ -264,6 +465,27 @@ export default function MatchDay() {
                           const s = c.status ?? (c.present ? 'present' : 'non_convoque')
                           return s === 'present' ? 'Présent' : s === 'absent' ? 'Absent' : s === 'convoque' ? 'Convoqué' : 'Non convoqué'
                         })()}
+                        {resolveConvocationStatus(c) === 'convoque' && reminderAtById.get(c.player.id) && (
+                          <div style={{ fontSize: 12, color: '#6b7280' }}>
+                            Relancé le {formatReminderDate(reminderAtById.get(c.player.id) ?? '')}
+                          </div>
+                        )}
+                        {(replacementsById.get(c.player.id)?.length ?? 0) > 0 && (
+                          <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap', marginTop: 6, fontSize: 12 }}>
+                            <span style={{ color: '#6b7280' }}>Remplaçants:</span>
+                            {replacementsById.get(c.player.id)?.map(replacement => (
+                              <button
+                                key={replacement.id}
+                                disabled={sendingConvocations}
+                                onClick={() => { void convokeReplacement(replacement) }}
+                                title={`Convoquer ${replacement.name} (${replacement.primary_position || 'poste non défini'})`}
+                                style={{ border: '1px solid #d1d5db', background: '#fff', borderRadius: 999, padding: '2px 8px' }}
+                              >
+                                {replacement.name}
+                              </button>
+                            ))}
+                          </div>
+                        )}
                         <div style={{ marginTop: 6 }}>
                           {(() => {
                             const s = c.status ?? (c.present ? 'present' : 'non_convoque')
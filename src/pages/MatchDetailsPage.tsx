@@ -1,26 +1,45 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
-import { apiDelete, apiGet, apiPut, apiUrl } from '../apiClient'
-import { apiGetAllItems, appendQueryParams } from '../adapters/pagination'
-import { normalizeMatchdayPayload } from '../adapters/matchday'
+import { apiCall, apiDelete, apiGet, apiPost, apiPut } from '../apiClient'
+import { OfflineQueuedError } from '../adapters/offlineQueue'
+import { apiGetAllItems } from '../adapters/pagination'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { ChevronLeftIcon, DotsHorizontalIcon, PencilIcon } from '../components/icons'
 import RoundIconButton from '../components/RoundIconButton'
 import { toErrorMessage } from '../errors'
 import { readDefaultTactic } from '../features/defaultTactic'
+import {
+  clearLiveMatchQueue,
+  clearPersistedLiveMatchState,
+  countPendingLiveMatchChanges,
+  enqueueLiveMatchEvent,
+  fetchRemoteLiveMatchState,
+  getPersistedLiveMatchState,
+  liveMatchStateSignature,
+  readLiveMatchStateMap,
+  resolveLiveMatchClock,
+  setPersistedLiveMatchState,
+  startLiveMatchSession,
+  syncLiveMatchState,
+  type LiveMatchEvent,
+  type LiveMatchSession,
+  type LiveMatchSyncApi,
+  type PersistedLiveMatchState,
+} from '../features/liveMatchSync'
+import { formatAvailabilityIssues, getPlayerAvailability } from '../features/playerAvailability'
+import { STARTER_LOAD_WEIGHT, SUB_LOAD_WEIGHT } from '../features/playingTime'
 import { buildPointsMap, buildTacticalFormations, buildTacticalTokens, type TacticalPoint } from '../features/tactical'
 import { playersOnFieldFromGameFormat } from '../features/teamFormat'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { getStoredCancelledMatchIds, isMatchCancelled, isMatchNotPlayed } from '../matchStatus'
-import type { ClubMe, MatchLite, MatchTeamLite, Matchday, Player } from '../types/api'
+import type { MatchDetails, MatchLite, MatchTeamLite, Matchday, Player } from '../types/api'
 import { uiAlert } from '../ui'
 import { useTeamScope } from '../useTeamScope'
 import './MatchDetailsPage.css'
 import './TrainingDetailsPage.css'
 
-type MatchDetailsData = MatchLite & {
-  playersById?: Record<string, Player>
-}
+type MatchDetailsData = MatchDetails
 
 type MatchdayConvocation = {
   player: Player
@@ -169,24 +188,10 @@ type BackendMatchTactic = {
   points?: Record<string, TacticalPoint>
 }
 
-type LiveEventType = 'GOAL_FOR' | 'GOAL_AGAINST' | 'SUBSTITUTION'
-
-type LiveMatchEvent = {
-  id: string
-  minute: number
-  type: LiveEventType
-  scorerId?: string
-  assistId?: string
-  slotId?: string
-  inPlayerId?: string
-  outPlayerId?: string
-}
-
-const LIVE_MATCH_STATE_STORAGE_KEY = 'izifoot.liveMatchStateByMatchId'
 const PLAYTIME_DOCK_COLLAPSED_STORAGE_KEY = 'izifoot.playtimeDockCollapsed'
-
-const STARTER_LOAD_WEIGHT = 1
-const SUB_LOAD_WEIGHT = 0.45
+const LIVE_MATCH_SYNC_INTERVAL_MS = 5000
+const LIVE_EVENT_SYNC_DELAY_MS = 300
+const LIVE_MATCH_SYNC_API: LiveMatchSyncApi = { get: apiGet, post: apiPost, put: apiPut }
 
 function toDayKey(value: string | null | undefined): string {
   if (!value) return ''
@@ -266,21 +271,6 @@ function buildBalancedComposition(
   return { starters, subs, goalkeeperId: selectedGoalkeeper?.id }
 }
 
-type PersistedLiveMatchState = {
-  isOpen: boolean
-  phase: 'setup' | 'running' | 'ended'
-  durationMinutes: number
-  remainingSeconds: number
-  homeScore: number
-  awayScore: number
-  events: LiveMatchEvent[]
-  slotAssignments: Record<string, string>
-  homeStarters: string[]
-  homeSubs: string[]
-  scorers: Array<{ playerId: string; side: 'home' | 'away'; assistId?: string }>
-  savedAt: number
-}
-
 type MatchPageSnapshot = {
   match: MatchDetailsData
   draft: MatchDraft
@@ -301,42 +291,6 @@ type PlayerPlaytimeRow = {
   percent: number
 }
 
-function readLiveMatchStateMap() {
-  if (typeof window === 'undefined') return {} as Record<string, PersistedLiveMatchState>
-  try {
-    const raw = window.localStorage.getItem(LIVE_MATCH_STATE_STORAGE_KEY)
-    if (!raw) return {}
-    const parsed = JSON.parse(raw)
-    if (!parsed || typeof parsed !== 'object') return {}
-    return parsed as Record<string, PersistedLiveMatchState>
-  } catch {
-    return {}
-  }
-}
-
-function writeLiveMatchStateMap(next: Record<string, PersistedLiveMatchState>) {
-  if (typeof window === 'undefined') return
-  window.localStorage.setItem(LIVE_MATCH_STATE_STORAGE_KEY, JSON.stringify(next))
-}
-
-function getPersistedLiveMatchState(matchId: string): PersistedLiveMatchState | null {
-  const current = readLiveMatchStateMap()
-  return current[matchId] || null
-}
-
-function setPersistedLiveMatchState(matchId: string, value: PersistedLiveMatchState) {
-  const current = readLiveMatchStateMap()
-  writeLiveMatchStateMap({ ...current, [matchId]: value })
-}
-
-function clearPersistedLiveMatchState(matchId: string) {
-  const current = readLiveMatchStateMap()
-  if (!current[matchId]) return
-  const next = { ...current }
-  delete next[matchId]
-  writeLiveMatchStateMap(next)
-}
-
 function readBackendTactic(match: MatchDetailsData): BackendMatchTactic | null {
   const source = (
     (match as MatchDetailsData & { tactic?: unknown }).tactic
@@ -472,6 +426,11 @@ export default function MatchDetailsPage() {
   const wakeLockRef = useRef<WakeLockSentinelLike | null>(null)
   const matchSnapshotCacheRef = useRef<Map<string, MatchPageSnapshot>>(new Map())
   const liveRestoreAttemptedRef = useRef<string | null>(null)
+  const liveSignatureRef = useRef<string | null>(null)
+  const liveEditedAtRef = useRef(0)
+  const liveSessionRef = useRef<LiveMatchSession>({})
+  const liveSyncInFlightRef = useRef(false)
+  const liveSyncTimeoutRef = useRef<number | null>(null)
   const [isPlayOverlayOpen, setIsPlayOverlayOpen] = useState(false)
   const [playPhase, setPlayPhase] = useState<'setup' | 'running' | 'ended'>('setup')
   const [playDurationMinutes, setPlayDurationMinutes] = useState(10)
@@ -483,6 +442,7 @@ export default function MatchDetailsPage() {
   const [goalScorerId, setGoalScorerId] = useState('')
   const [goalAssistId, setGoalAssistId] = useState('')
   const [liveSaving, setLiveSaving] = useState(false)
+  const [liveSyncStatus, setLiveSyncStatus] = useState<{ synced: boolean; pendingCount: number } | null>(null)
   const [isLiveQuitConfirmOpen, setIsLiveQuitConfirmOpen] = useState(false)
   const [autoComposing, setAutoComposing] = useState(false)
   const [autoComposeError, setAutoComposeError] = useState<string | null>(null)
@@ -510,16 +470,16 @@ export default function MatchDetailsPage() {
     applySnapshot(cached)
   }, [applySnapshot, id])
 
-  const loadMatch = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
+  const loadMatch = useCallback(async ({ isCancelled, signal }: LoadContext) => {
     if (!id) return
     const cached = matchSnapshotCacheRef.current.get(id)
     if (cached) {
       applySnapshot(cached)
     }
     const [payload, club, roster] = await Promise.all([
-      apiGet<MatchDetailsData>(apiRoutes.matches.byId(id)),
-      apiGet<ClubMe>(apiRoutes.clubs.me).catch(() => null),
-      apiGetAllItems<Player>(apiRoutes.players.list).catch(() => []),
+      apiCall(apiEndpoints.matches.byId(id), undefined, { signal }),
+      apiCall(apiEndpoints.clubs.me(), undefined, { signal }).catch(() => null),
+      apiGetAllItems(apiEndpoints.players.list(), { signal }).catch((): Player[] => []),
     ])
 
     let plateauSummary: MatchdaySummaryResponse | null = null
@@ -530,10 +490,9 @@ export default function MatchDetailsPage() {
     const matchesById = new Map<string, MatchLite>([[payload.id, payload]])
     let allMatchesOfDay: MatchLite[] = []
     if (payload.matchdayId) {
-      const rawSummary = await apiGet(
-        appendQueryParams(apiRoutes.matchday.summary(payload.matchdayId), { includeAllPlayers: true }),
+      plateauSummary = await apiCall(
+        apiEndpoints.matchday.summary<MatchdaySummaryResponse>(payload.matchdayId, { includeAllPlayers: true }),
       ).catch(() => null)
-      plateauSummary = rawSummary ? normalizeMatchdayPayload<MatchdaySummaryResponse>(rawSummary) : null
       if (plateauSummary?.matchday?.date) nextPlateauDateISO = plateauSummary.matchday.date
       nextPlateauMatchOrderIds = (plateauSummary?.matches || []).map((matchItem) => matchItem.id).filter(Boolean)
       nextPlateauPlayerIds = Array.from(new Set(
@@ -561,7 +520,7 @@ export default function MatchDetailsPage() {
       const missingIds = nextPlateauMatchOrderIds.filter((matchId) => !matchSnapshotCacheRef.current.has(matchId))
       if (missingIds.length > 0) {
         const detailedMatches = await Promise.all(
-          missingIds.map((matchId) => apiGet<MatchDetailsData>(apiRoutes.matches.byId(matchId)).catch(() => null)),
+          missingIds.map((matchId) => apiCall(apiEndpoints.matches.byId(matchId)).catch(() => null)),
         )
         for (const detailed of detailedMatches) {
           if (detailed?.id) matchesById.set(detailed.id, detailed)
@@ -826,6 +785,17 @@ export default function MatchDetailsPage() {
     const allowedSet = new Set(allowedIds)
     return sortedPlayers.filter((player) => allowedSet.has(player.id))
   }, [hasPlateauEligibilityIds, usePlateauEligibility, plateauPlayerIds, sortedPlayers])
+  // Injured players or expired medical certificates on the match day, with the reason shown on their token.
+  const unavailableReasonById = useMemo(() => {
+    const parsed = plateauDateISO ? new Date(plateauDateISO) : null
+    const at = parsed && !Number.isNaN(parsed.getTime()) ? parsed : undefined
+    const reasons = new Map<string, string>()
+    for (const player of compositionPlayers) {
+      const availability = getPlayerAvailability(player, at)
+      if (!availability.available) reasons.set(player.id, formatAvailabilityIssues(availability))
+    }
+    return reasons
+  }, [compositionPlayers, plateauDateISO])
   const eligiblePlayerIds = useMemo(
     () => compositionPlayers.map((player) => player.id),
     [compositionPlayers],
@@ -988,55 +958,72 @@ export default function MatchDetailsPage() {
     }
   }, [draft, eligiblePlayerIdSet, tacticalTokens.length, tacticalPresetValue, tacticalPoints])
 
-  useEffect(() => {
-    if (!id || !match || !draft) return
-    if (liveRestoreAttemptedRef.current === id) return
-    liveRestoreAttemptedRef.current = id
-    const persisted = getPersistedLiveMatchState(id)
-    if (!persisted?.isOpen) return
-
-    const elapsedSeconds = persisted.phase === 'running'
-      ? Math.max(0, Math.floor((Date.now() - (persisted.savedAt || Date.now())) / 1000))
-      : 0
-    const restoredRemaining = persisted.phase === 'running'
-      ? Math.max(0, persisted.remainingSeconds - elapsedSeconds)
-      : persisted.remainingSeconds
-    const restoredPhase: 'setup' | 'running' | 'ended' =
-      persisted.phase === 'running' && restoredRemaining <= 0
-        ? 'ended'
-        : persisted.phase
-
+  const applyLiveMatchState = useCallback((state: PersistedLiveMatchState) => {
+    const { phase, remainingSeconds } = resolveLiveMatchClock(state)
     const availableSet = new Set(compositionPlayerIds)
     const starters = Array.from(new Set(
       tacticalTokens
-        .map((tokenId) => persisted.slotAssignments?.[tokenId])
+        .map((tokenId) => state.slotAssignments?.[tokenId])
         .filter((playerId): playerId is string => Boolean(playerId) && availableSet.has(playerId)),
     )).slice(0, tacticalTokens.length)
     const starterSet = new Set(starters)
     const subs = compositionPlayerIds.filter((playerId) => !starterSet.has(playerId))
 
-    setDraft((prev) => ({
-      home: { starters, subs },
-      away: prev?.away ?? draft.away,
-      scorers: Array.isArray(persisted.scorers) ? persisted.scorers : (prev?.scorers ?? []),
-    }))
-    setSlotAssignments(persisted.slotAssignments || {})
-    setPlayDurationMinutes(Math.max(1, persisted.durationMinutes || 10))
-    setPlayRemainingSeconds(restoredRemaining)
-    setPlayHomeScore(Math.max(0, persisted.homeScore || 0))
-    setPlayAwayScore(Math.max(0, persisted.awayScore || 0))
-    setLiveEvents(Array.isArray(persisted.events) ? persisted.events : [])
-    setPlayPhase(restoredPhase)
-    setGoalScorerId('')
-    setGoalAssistId('')
-    setGoalModalOpen(false)
-    setIsLiveQuitConfirmOpen(false)
-    setIsPlayOverlayOpen(true)
-  }, [compositionPlayerIds, draft, id, match, tacticalTokens])
+    liveSignatureRef.current = liveMatchStateSignature({ ...state, phase })
+    liveEditedAtRef.current = state.editedAt ?? state.savedAt ?? 0
+    liveSessionRef.current = { sessionId: state.sessionId, sessionStartedAt: state.sessionStartedAt }
+    setDraft((prev) => (prev
+      ? {
+        home: { starters, subs },
+        away: prev.away,
+        scorers: Array.isArray(state.scorers) ? state.scorers : prev.scorers,
+      }
+      : prev))
+    setSlotAssignments(state.slotAssignments || {})
+    setPlayDurationMinutes(Math.max(1, state.durationMinutes || 10))
+    setPlayRemainingSeconds((prev) => (Math.abs(prev - remainingSeconds) >= 2 ? remainingSeconds : prev))
+    setPlayHomeScore(Math.max(0, state.homeScore || 0))
+    setPlayAwayScore(Math.max(0, state.awayScore || 0))
+    setLiveEvents(Array.isArray(state.events) ? state.events : [])
+    setPlayPhase(phase)
+  }, [compositionPlayerIds, tacticalTokens])
 
   useEffect(() => {
-    if (!id || !draft || !isPlayOverlayOpen) return
-    setPersistedLiveMatchState(id, {
+    if (!id || !match || !draft) return
+    if (liveRestoreAttemptedRef.current === id) return
+    liveRestoreAttemptedRef.current = id
+    let cancelled = false
+
+    function restore(state: PersistedLiveMatchState) {
+      applyLiveMatchState(state)
+      setPlayRemainingSeconds(resolveLiveMatchClock(state).remainingSeconds)
+      setGoalScorerId('')
+      setGoalAssistId('')
+      setGoalModalOpen(false)
+      setIsLiveQuitConfirmOpen(false)
+      setIsPlayOverlayOpen(true)
+    }
+
+    const persisted = getPersistedLiveMatchState(id)
+    if (persisted?.isOpen) {
+      restore(persisted)
+      return
+    }
+
+    // Aucun direct local: un autre membre du staff a peut-être lancé le match sur son téléphone.
+    void fetchRemoteLiveMatchState(LIVE_MATCH_SYNC_API, id)
+      .then((remote) => {
+        if (cancelled || !remote?.isOpen) return
+        setPersistedLiveMatchState(id, remote)
+        restore(remote)
+      })
+      .catch(() => undefined)
+    return () => { cancelled = true }
+  }, [applyLiveMatchState, draft, id, match])
+
+  const buildLiveMatchState = useCallback((): PersistedLiveMatchState | null => {
+    if (!draft) return null
+    const state: PersistedLiveMatchState = {
       isOpen: true,
       phase: playPhase,
       durationMinutes: playDurationMinutes,
@@ -1049,11 +1036,16 @@ export default function MatchDetailsPage() {
       homeSubs: draft.home.subs,
       scorers: draft.scorers,
       savedAt: Date.now(),
-    })
+      ...liveSessionRef.current,
+    }
+    const signature = liveMatchStateSignature(state)
+    if (signature !== liveSignatureRef.current) {
+      liveSignatureRef.current = signature
+      liveEditedAtRef.current = state.savedAt
+    }
+    return { ...state, editedAt: liveEditedAtRef.current }
   }, [
     draft,
-    id,
-    isPlayOverlayOpen,
     liveEvents,
     playAwayScore,
     playDurationMinutes,
@@ -1063,6 +1055,75 @@ export default function MatchDetailsPage() {
     slotAssignments,
   ])
 
+  useEffect(() => {
+    if (!id || !isPlayOverlayOpen) return
+    const state = buildLiveMatchState()
+    if (state) setPersistedLiveMatchState(id, state)
+  }, [buildLiveMatchState, id, isPlayOverlayOpen])
+
+  const syncLiveMatch = useCallback(async () => {
+    if (!id || liveSyncInFlightRef.current) return
+    const local = getPersistedLiveMatchState(id)
+    if (!local) return
+    liveSyncInFlightRef.current = true
+    try {
+      const result = await syncLiveMatchState(LIVE_MATCH_SYNC_API, id, local)
+      setLiveSyncStatus({ synced: result.synced, pendingCount: result.pendingCount })
+      if (!result.synced) return
+      const current = getPersistedLiveMatchState(id)
+      if (!current?.isOpen) return
+      if (!result.state.isOpen) {
+        // Le match a été clôturé depuis un autre appareil.
+        setPersistedLiveMatchState(id, result.state)
+        setIsLiveQuitConfirmOpen(false)
+        setIsPlayOverlayOpen(false)
+        return
+      }
+      if (liveMatchStateSignature(result.state) === liveMatchStateSignature(current)) return
+      setPersistedLiveMatchState(id, result.state)
+      applyLiveMatchState(result.state)
+    } finally {
+      liveSyncInFlightRef.current = false
+    }
+  }, [applyLiveMatchState, id])
+
+  useEffect(() => {
+    if (!isPlayOverlayOpen) {
+      setLiveSyncStatus(null)
+      return
+    }
+    const intervalId = window.setInterval(() => { void syncLiveMatch() }, LIVE_MATCH_SYNC_INTERVAL_MS)
+    const onOnline = () => { void syncLiveMatch() }
+    window.addEventListener('online', onOnline)
+    return () => {
+      window.clearInterval(intervalId)
+      window.removeEventListener('online', onOnline)
+    }
+  }, [isPlayOverlayOpen, syncLiveMatch])
+
+  // Envoie tout de suite une synchro différée plutôt que de la perdre quand on quitte la page.
+  const flushPendingLiveSync = useCallback(() => {
+    if (liveSyncTimeoutRef.current === null) return
+    window.clearTimeout(liveSyncTimeoutRef.current)
+    liveSyncTimeoutRef.current = null
+    void syncLiveMatch()
+  }, [syncLiveMatch])
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingLiveSync)
+    return () => {
+      window.removeEventListener('pagehide', flushPendingLiveSync)
+      flushPendingLiveSync()
+    }
+  }, [flushPendingLiveSync])
+
+  const pushClosedLiveMatchState = useCallback((matchId: string, state: PersistedLiveMatchState) => {
+    const closed = { ...state, isOpen: false, savedAt: Date.now(), editedAt: Date.now() }
+    void syncLiveMatchState(LIVE_MATCH_SYNC_API, matchId, closed).then((result) => {
+      if (result.synced && result.pendingCount === 0) clearLiveMatchQueue(matchId)
+    })
+  }, [])
+
   useEffect(() => {
     setSlotAssignments((prev) => {
       const activeMatchId = id || null
@@ -1123,6 +1184,10 @@ export default function MatchDetailsPage() {
           setDraft(buildDraft(updated))
           lastCompositionSignatureRef.current = compositionSaveSnapshot.signature
         } catch (err: unknown) {
+          if (err instanceof OfflineQueuedError) {
+            lastCompositionSignatureRef.current = compositionSaveSnapshot.signature
+            return
+          }
           uiAlert(`Erreur enregistrement composition: ${toErrorMessage(err)}`)
         } finally {
           setCompositionSaving(false)
@@ -1219,22 +1284,20 @@ export default function MatchDetailsPage() {
     return `${minutes}:${seconds}`
   }
 
-  async function persistLiveEvent(event: LiveMatchEvent) {
+  function persistLiveEvent(event: LiveMatchEvent) {
     if (!id) return
-    try {
-      const res = await fetch(apiUrl(`${apiRoutes.matches.byId(id)}/events`), {
-        method: 'POST',
-        credentials: 'include',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(event),
-      })
-      if (!res.ok) {
-        // Endpoint backend non disponible pour l'instant.
-        console.info('[live-match] events endpoint not ready', res.status)
-      }
-    } catch {
-      // Endpoint backend non disponible pour l'instant.
-    }
+    enqueueLiveMatchEvent(id, event)
+    setLiveSyncStatus((prev) => ({ synced: prev?.synced ?? true, pendingCount: countPendingLiveMatchChanges(id) }))
+    scheduleLiveSync()
+  }
+
+  // Laisse le temps à l'état local d'intégrer le changement avant de l'envoyer; une rafale d'événements part en une fois.
+  function scheduleLiveSync() {
+    if (liveSyncTimeoutRef.current !== null) window.clearTimeout(liveSyncTimeoutRef.current)
+    liveSyncTimeoutRef.current = window.setTimeout(() => {
+      liveSyncTimeoutRef.current = null
+      void syncLiveMatch()
+    }, LIVE_EVENT_SYNC_DELAY_MS)
   }
 
   function pushLiveEvent(event: Omit<LiveMatchEvent, 'id' | 'minute'>) {
@@ -1244,7 +1307,7 @@ export default function MatchDetailsPage() {
       minute: liveMinute,
     }
     setLiveEvents((prev) => [...prev, nextEvent])
-    void persistLiveEvent(nextEvent)
+    persistLiveEvent(nextEvent)
   }
 
   function openPlayOverlay() {
@@ -1280,6 +1343,13 @@ export default function MatchDetailsPage() {
     setGoalModalOpen(false)
     setIsLiveQuitConfirmOpen(false)
     setIsPlayOverlayOpen(true)
+    // Nouvelle session: l'ancien direct (quitté ou terminé) ne doit pas revenir par la synchro, on remplace l'état serveur.
+    liveSessionRef.current = startLiveMatchSession()
+    liveSignatureRef.current = null
+    if (id) {
+      clearLiveMatchQueue(id)
+      scheduleLiveSync()
+    }
   }
 
   function startKickoff() {
@@ -1327,17 +1397,37 @@ export default function MatchDetailsPage() {
     if (!markAsPlayed) {
       setIsLiveQuitConfirmOpen(false)
       setIsPlayOverlayOpen(false)
+      const liveState = buildLiveMatchState()
+      if (liveState) pushClosedLiveMatchState(id, liveState)
       clearPersistedLiveMatchState(id)
       return
     }
+    const sanitizedHomeStarters = draft.home.starters
+      .filter((playerId) => eligiblePlayerIdSet.has(playerId))
+      .slice(0, tacticalTokens.length)
+    const sanitizedStarterSet = new Set(sanitizedHomeStarters)
+    const sanitizedHomeSubs = draft.home.subs
+      .filter((playerId) => eligiblePlayerIdSet.has(playerId) && !sanitizedStarterSet.has(playerId))
+    const homeScorers = draft.scorers.filter((s) => s.side === 'home')
+    // Keep persisted live events as historical data for playtime computation.
+    const endedState: PersistedLiveMatchState = {
+      isOpen: false,
+      phase: 'ended',
+      durationMinutes: Math.max(1, playDurationMinutes),
+      remainingSeconds: 0,
+      homeScore: playHomeScore,
+      awayScore: playAwayScore,
+      events: liveEvents,
+      slotAssignments,
+      homeStarters: sanitizedHomeStarters,
+      homeSubs: sanitizedHomeSubs,
+      scorers: draft.scorers,
+      savedAt: Date.now(),
+      editedAt: Date.now(),
+      ...liveSessionRef.current,
+    }
     setLiveSaving(true)
     try {
-      const sanitizedHomeStarters = draft.home.starters
-        .filter((playerId) => eligiblePlayerIdSet.has(playerId))
-        .slice(0, tacticalTokens.length)
-      const sanitizedStarterSet = new Set(sanitizedHomeStarters)
-      const sanitizedHomeSubs = draft.home.subs
-        .filter((playerId) => eligiblePlayerIdSet.has(playerId) && !sanitizedStarterSet.has(playerId))
       const updated = await apiPut<MatchDetailsData>(apiRoutes.matches.byId(id), {
         type: match.type,
         matchdayId: match.matchdayId ?? undefined,
@@ -1352,9 +1442,7 @@ export default function MatchDetailsPage() {
           home: playHomeScore,
           away: playAwayScore,
         },
-        buteurs: draft.scorers
-          .filter((s) => s.side === 'home')
-          .map((s) => ({ side: s.side, playerId: s.playerId, assistId: s.assistId })),
+        buteurs: homeScorers.map((s) => ({ side: s.side, playerId: s.playerId, assistId: s.assistId })),
         opponentName: match.opponentName ?? '',
         played: true,
         tactic: {
@@ -1364,27 +1452,25 @@ export default function MatchDetailsPage() {
       })
       setMatch(updated)
       setDraft(buildDraft(updated))
-      // Keep persisted live events as historical data for playtime computation.
-      setPersistedLiveMatchState(id, {
-        isOpen: false,
-        phase: 'ended',
-        durationMinutes: Math.max(1, playDurationMinutes),
-        remainingSeconds: 0,
-        homeScore: playHomeScore,
-        awayScore: playAwayScore,
-        events: liveEvents,
-        slotAssignments,
-        homeStarters: sanitizedHomeStarters,
-        homeSubs: sanitizedHomeSubs,
-        scorers: draft.scorers,
-        savedAt: Date.now(),
-      })
     } catch (err: unknown) {
-      uiAlert(`Erreur mise à jour du match: ${toErrorMessage(err)}`)
-      return
+      if (!(err instanceof OfflineQueuedError)) {
+        uiAlert(`Erreur mise à jour du match: ${toErrorMessage(err)}`)
+        return
+      }
+      // Queued for replay: show the match as played right away, like the other offline edits of this page.
+      setMatch((prev) => (prev
+        ? {
+          ...prev,
+          played: true,
+          teams: prev.teams.map((team) => ({ ...team, score: team.side === 'home' ? playHomeScore : playAwayScore })),
+          scorers: homeScorers,
+        }
+        : prev))
     } finally {
       setLiveSaving(false)
     }
+    setPersistedLiveMatchState(id, endedState)
+    pushClosedLiveMatchState(id, endedState)
     setIsLiveQuitConfirmOpen(false)
     setIsPlayOverlayOpen(false)
   }
@@ -1626,6 +1712,23 @@ export default function MatchDetailsPage() {
       setIsOpponentNameModalOpen(false)
       setIsEditModalOpen(false)
     } catch (err: unknown) {
+      if (err instanceof OfflineQueuedError) {
+        const homeScoreValue = editIsPlayed ? Math.max(0, editHomeScore) : 0
+        const awayScoreValue = editIsPlayed ? Math.max(0, editAwayScore) : 0
+        setMatch((prev) => (prev
+          ? {
+            ...prev,
+            played: editIsPlayed,
+            opponentName: isManualMatch ? resolvedOpponentName : prev.opponentName,
+            teams: prev.teams.map((team) => ({ ...team, score: team.side === 'home' ? homeScoreValue : awayScoreValue })),
+            scorers: editIsPlayed ? draft.scorers.filter((s) => s.side === 'home') : [],
+          }
+          : prev))
+        setIsOpponentNameModalOpen(false)
+        setIsEditModalOpen(false)
+        uiAlert(err.message)
+        return
+      }
       uiAlert(`Erreur mise à jour du match: ${toErrorMessage(err)}`)
     } finally {
       setSaving(false)
@@ -1639,10 +1742,9 @@ export default function MatchDetailsPage() {
     try {
       let otherMatches = matchesOfDay
       if (match.matchdayId) {
-        const rawSummary = await apiGet(
-          appendQueryParams(apiRoutes.matchday.summary(match.matchdayId), { includeAllPlayers: true }),
+        const summary = await apiCall(
+          apiEndpoints.matchday.summary<MatchdaySummaryResponse>(match.matchdayId, { includeAllPlayers: true }),
         ).catch(() => null)
-        const summary = rawSummary ? normalizeMatchdayPayload<MatchdaySummaryResponse>(rawSummary) : null
         if (summary?.matches) {
           otherMatches = summary.matches.filter((matchItem) => matchItem.id !== match.id)
         }
@@ -1655,7 +1757,12 @@ export default function MatchDetailsPage() {
       const currentDraft = draft ?? buildDraft(match)
       const isGoalkeeperId = (playerId: string) => (playerById.get(playerId)?.primary_position || '').trim().toUpperCase() === 'GARDIEN'
       const preferredGoalkeeperId = currentDraft.home.starters.find((playerId) => isGoalkeeperId(playerId))
-      const nextHome = buildBalancedComposition(compositionPlayers, otherMatches, tacticalTokens.length, preferredGoalkeeperId)
+      const nextHome = buildBalancedComposition(
+        compositionPlayers.filter((player) => !unavailableReasonById.has(player.id)),
+        otherMatches,
+        tacticalTokens.length,
+        preferredGoalkeeperId,
+      )
       const nextAssignments: Record<string, string> = {}
       for (const tokenId of tacticalTokens) nextAssignments[tokenId] = ''
       const remainingStarters = nextHome.starters.slice()
@@ -2216,6 +2323,11 @@ export default function MatchDetailsPage() {
             <div ref={tacticalDragRootRef} className="match-tactical-layout">
               <div className="match-tactical-roster">
                 <p>Remplaçants</p>
+                {unavailableReasonById.size > 0 && (
+                  <p className="match-unavailable-note">
+                    Indisponibles: {compositionPlayers.filter((player) => unavailableReasonById.has(player.id)).map((player) => player.name).join(', ')}
+                  </p>
+                )}
                 <div
                   data-bench-drop="true"
                   className={`match-bench-grid ${dragState ? 'is-drop-active' : ''}`}
@@ -2226,9 +2338,9 @@ export default function MatchDetailsPage() {
                       <button
                         key={`page-bench-${player.id}`}
                         type="button"
-                        className="match-player-avatar-token"
+                        className={`match-player-avatar-token ${unavailableReasonById.has(player.id) ? 'is-unavailable' : ''}`}
                         data-bench-player-id={player.id}
-                        title={player.name}
+                        title={unavailableReasonById.has(player.id) ? `${player.name} · ${unavailableReasonById.get(player.id)}` : player.name}
                         onPointerDown={(event) => handleTokenPointerDown(event, player.id)}
                         onPointerMove={handleTokenPointerMove}
                         onPointerUp={handleTokenPointerUp}
@@ -2354,6 +2466,13 @@ export default function MatchDetailsPage() {
         <div className="live-overlay" role="dialog" aria-modal="true" aria-label="Jouer le match">
           <div className="live-overlay-head">
             <h2>Match en direct</h2>
+            {liveSyncStatus && (
+              <span className={`live-sync-status ${liveSyncStatus.synced ? 'is-synced' : 'is-offline'}`}>
+                {liveSyncStatus.synced
+                  ? (liveSyncStatus.pendingCount > 0 ? 'Synchronisation…' : 'Synchronisé')
+                  : `Hors ligne · ${liveSyncStatus.pendingCount} en attente`}
+              </span>
+            )}
             <button type="button" onClick={handleLiveCloseAction} disabled={liveSaving}>
               {playPhase === 'ended' ? 'Fermer' : 'Quitter'}
             </button>
@@ -2473,6 +2592,11 @@ export default function MatchDetailsPage() {
             <div ref={tacticalDragRootRef} className="match-tactical-layout">
               <div className="match-tactical-roster">
                 <p>Remplaçants</p>
+                {unavailableReasonById.size > 0 && (
+                  <p className="match-unavailable-note">
+                    Indisponibles: {compositionPlayers.filter((player) => unavailableReasonById.has(player.id)).map((player) => player.name).join(', ')}
+                  </p>
+                )}
                 <div data-bench-drop="true" className={`match-bench-grid ${dragState ? 'is-drop-active' : ''}`}>
                   {benchPlayers.map((player) => {
                     const avatar = getAvatarUrl(player)
@@ -2480,9 +2604,9 @@ export default function MatchDetailsPage() {
                       <button
                         key={`live-bench-${player.id}`}
                         type="button"
-                        className="match-player-avatar-token"
+                        className={`match-player-avatar-token ${unavailableReasonById.has(player.id) ? 'is-unavailable' : ''}`}
                         data-bench-player-id={player.id}
-                        title={player.name}
+                        title={unavailableReasonById.has(player.id) ? `${player.name} · ${unavailableReasonById.get(player.id)}` : player.name}
                         onPointerDown={(event) => handleTokenPointerDown(event, player.id)}
                         onPointerMove={handleTokenPointerMove}
                         onPointerUp={handleTokenPointerUp}
@@ -1,34 +1,13 @@
 import { Heart, Loader2, Send } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import type { FormEvent } from 'react'
-import { apiDelete, apiGet, apiPost } from '../apiClient'
+import { isAbortError } from '../adapters/requestPolicy'
+import { apiCall, apiDelete, apiPost } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
+import type { TeamMessage } from '../types/api'
 import { useAuth } from '../useAuth'
 
-type MessageAuthor = {
-  id: string
-  firstName: string | null
-  lastName: string | null
-  role: 'DIRECTION' | 'COACH' | 'PLAYER' | 'PARENT'
-}
-
-type TeamMessage = {
-  id: string
-  teamId: string
-  clubId: string
-  content: string
-  createdAt: string
-  updatedAt: string
-  author: MessageAuthor | null
-  likesCount: number
-  likedByMe: boolean
-}
-
-type TeamMessagesResponse = {
-  items: TeamMessage[]
-  pagination: { limit: number; offset: number; returned: number }
-}
-
 export default function MessagesPage() {
   const { me } = useAuth()
   const canPost = me?.role === 'DIRECTION' || me?.role === 'COACH'
@@ -39,22 +18,24 @@ export default function MessagesPage() {
   const [items, setItems] = useState<TeamMessage[]>([])
   const [likePendingIds, setLikePendingIds] = useState<Set<string>>(new Set())
 
-  const load = useCallback(async () => {
+  const load = useCallback(async (signal: AbortSignal) => {
     setLoading(true)
     setError(null)
     try {
-      const payload = await apiGet<TeamMessagesResponse>(apiRoutes.teamMessages.list)
-      setItems(payload.items)
+      setItems(await apiCall(apiEndpoints.teamMessages.list(), undefined, { signal }))
       window.dispatchEvent(new CustomEvent('izifoot:messages-unread-updated'))
     } catch (e) {
+      if (isAbortError(e)) return
       setError(e instanceof Error ? e.message : 'Impossible de charger les messages')
     } finally {
-      setLoading(false)
+      if (!signal.aborted) setLoading(false)
     }
   }, [])
 
   useEffect(() => {
-    void load()
+    const abort = new AbortController()
+    void load(abort.signal)
+    return () => abort.abort()
   }, [load])
 
   const orderedItems = useMemo(
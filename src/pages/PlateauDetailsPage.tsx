@@ -3,23 +3,32 @@ import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import QRCode from 'qrcode'
 import { api, type Planning } from '../api'
 import { apiGetAllItems } from '../adapters/pagination'
-import { apiDelete, apiGet, apiPost, apiPut } from '../apiClient'
+import { apiCall, apiDelete, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { canWrite } from '../authz'
 import type { PlanningData } from '../components/PlanningEditor'
 import { PlateauInfoSection, PlateauPageHeader, PlateauRotationContent } from '../components/PlateauSharedSections'
 import PlanningModal from '../components/PlanningModal'
 import PlayersPresenceSection from '../components/PlayersPresenceSection'
+import CarpoolSection from '../components/CarpoolSection'
 import CtaButton from '../components/CtaButton'
 import { ChevronLeftIcon, DotsHorizontalIcon } from '../components/icons'
+import RotationPlannerModal from '../components/RotationPlannerModal'
 import RoundIconButton from '../components/RoundIconButton'
+import TournamentBracket, { TournamentStandingsTable } from '../components/TournamentBracket'
 import { toErrorMessage } from '../errors'
+import { OfflineQueuedError } from '../adapters/offlineQueue'
 import { applyAttendanceValue, extractPresentPlayerIds, persistAttendanceToggle } from '../features/attendance'
+import { getMeetingDate, isAwayMatchday, type CarpoolOfferDraft } from '../features/carpool'
 import { readDefaultTactic } from '../features/defaultTactic'
 import { detectMatchdayMode } from '../features/matchdayMode'
+import { DEFAULT_MATCH_DURATION_MINUTES } from '../features/playingTime'
 import { linkRotationSlotsToMatches } from '../features/rotationLinking'
+import { buildLineupPayload, collectPlannableMatches, type PlannableMatch, type PlannedLineup } from '../features/rotationPlanner'
+import { hasStandingResults, resolveTournament, tournamentGameKey, type BracketTie } from '../features/tournament'
 import { playersOnFieldFromGameFormat } from '../features/teamFormat'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import {
   getStoredCancelledMatchIds,
   isMatchCancelled,
@@ -30,7 +39,7 @@ import { useAuth } from '../useAuth'
 import { useTeamScope } from '../useTeamScope'
 import { uiAlert, uiConfirm } from '../ui'
 import { formatMatchdayLocationLabel, getMatchdayMapQuery } from '../features/matchdayLocation'
-import type { AttendanceRow, ClubMe, MatchLite, Matchday, Player } from '../types/api'
+import type { CarpoolOffer, CarpoolRequest, MatchLite, Matchday, MatchdayCarpool, Player } from '../types/api'
 import './TrainingDetailsPage.css'
 
 const TEAM_COLORS = [
@@ -195,6 +204,7 @@ type PlanningTeamEntry = {
 }
 
 type MatchdaySummaryModeResponse = {
+  matchday: Matchday
   mode?: 'ROTATION' | 'MANUAL' | string
   matches?: MatchLite[]
   rotation?: {
@@ -235,6 +245,7 @@ export default function PlateauDetailsPage() {
   const [clubName, setClubName] = useState('')
   const [players, setPlayers] = useState<Player[]>([])
   const [plateauAttendance, setPlateauAttendance] = useState<Set<string>>(new Set())
+  const [carpool, setCarpool] = useState<MatchdayCarpool>({ offers: [], requests: [] })
   const [plateauMatches, setPlateauMatches] = useState<MatchLite[]>([])
   const [plateauPlannings, setPlateauPlannings] = useState<Planning[]>([])
   const [summaryRotation, setSummaryRotation] = useState<MatchdaySummaryModeResponse['rotation']>(null)
@@ -242,6 +253,8 @@ export default function PlateauDetailsPage() {
   const [isMatchModalOpen, setIsMatchModalOpen] = useState(false)
   const [isPlanningModalOpen, setIsPlanningModalOpen] = useState(false)
   const [isShareModalOpen, setIsShareModalOpen] = useState(false)
+  const [isRotationPlannerOpen, setIsRotationPlannerOpen] = useState(false)
+  const [pickingTieId, setPickingTieId] = useState<string | null>(null)
   const [isDeletePlateauModalOpen, setIsDeletePlateauModalOpen] = useState(false)
   const [deletingPlateau, setDeletingPlateau] = useState(false)
   const [shareLoading, setShareLoading] = useState(false)
@@ -296,19 +309,21 @@ export default function PlateauDetailsPage() {
         ? 'Défaite'
         : 'Nul'
 
-  const loadPlateau = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
+  const loadPlateau = useCallback(async ({ isCancelled, signal }: LoadContext) => {
     if (!id) return
-    const [p, ps, matches, attends, plannings, club, summary] = await Promise.all([
-      apiGet<Matchday>(apiRoutes.matchday.byId(id)),
-      apiGetAllItems<Player>(apiRoutes.players.list),
-      apiGetAllItems<MatchLite>(apiRoutes.matches.byMatchday(id)),
-      apiGetAllItems<AttendanceRow>(apiRoutes.attendance.bySession('PLATEAU', id)),
+    const [p, ps, matches, attends, plannings, club, summary, carpoolBoard] = await Promise.all([
+      apiCall(apiEndpoints.matchday.byId(id), undefined, { signal }),
+      apiGetAllItems(apiEndpoints.players.list(), { signal }),
+      apiGetAllItems<MatchLite>(apiRoutes.matches.byMatchday(id), { signal }),
+      apiGetAllItems(apiEndpoints.attendance.bySession('PLATEAU', id), { signal }),
       api.listPlannings(),
-      apiGet<ClubMe>(apiRoutes.clubs.me).catch(() => null),
-      apiGet<MatchdaySummaryModeResponse>(apiRoutes.matchday.summary(id)).catch(() => null),
+      apiCall(apiEndpoints.clubs.me(), undefined, { signal }).catch(() => null),
+      apiCall(apiEndpoints.matchday.summary<MatchdaySummaryModeResponse>(id), undefined, { signal }).catch(() => null),
+      apiCall(apiEndpoints.carpool.byMatchday(id), undefined, { signal }).catch(() => null),
     ])
     if (isCancelled()) return
     setPlateau(p)
+    setCarpool({ offers: carpoolBoard?.offers ?? [], requests: carpoolBoard?.requests ?? [] })
     setClubName(club?.name?.trim() || '')
     setPlayers(ps)
     const sourceMatches = (summary?.matches && summary.matches.length > 0) ? summary.matches : matches
@@ -357,6 +372,38 @@ export default function PlateauDetailsPage() {
     } satisfies PlanningData
   }, [plateauPlanning, summaryRotation])
   const isTournamentChampionship = isTournamentCompetition && (plateauPlanningData as PlanningData | null | undefined)?.tournamentFormat === 'CHAMPIONNAT'
+  const tournamentResolution = useMemo(() => {
+    if (!isTournamentCompetition || !plateauPlanningData?.slots?.length) return null
+    return resolveTournament({
+      slots: plateauPlanningData.slots,
+      matches: plateauMatches,
+      format: plateauPlanningData.tournamentFormat,
+      knockoutWinners: plateauPlanningData.knockoutWinners,
+      isCountable: (match) => !isPendingMatch(match, { referenceDate: plateau?.date ?? null, localCancelledIds: localCancelledMatchIds }),
+    })
+  }, [isTournamentCompetition, localCancelledMatchIds, plateau?.date, plateauMatches, plateauPlanningData])
+  // Display key of the rotation cards -> teams resolved from results (knockout placeholders) and score.
+  const tournamentGamesByDisplayKey = useMemo(() => {
+    const byKey = new Map<string, { A: string; B: string; score: { scoreA: number; scoreB: number } | null }>()
+    if (!tournamentResolution || !plateauPlanningData?.slots?.length) return byKey
+    plateauPlanningData.slots.forEach((slot, slotIndex) => slot.games.forEach((game, gameIndex) => {
+      const resolved = tournamentResolution.resolvedGames.get(tournamentGameKey(slotIndex, gameIndex))
+      if (resolved) byKey.set(`${slot.time}-${game.pitch}-${game.A}-${game.B}`, resolved)
+    }))
+    return byKey
+  }, [plateauPlanningData?.slots, tournamentResolution])
+  const planningTournamentDefaults = useMemo(() => {
+    const mode = plateau?.tournamentKnockoutMode
+    if (!isTournamentCompetition || !mode || mode === 'NONE') return undefined
+    return {
+      tournamentFormat: 'ELIMINATION' as const,
+      tournamentWithPools: Boolean(plateau?.tournamentHasGroupStage),
+      tournamentKnockoutMode: mode,
+    }
+  }, [isTournamentCompetition, plateau?.tournamentHasGroupStage, plateau?.tournamentKnockoutMode])
+  const hasTournamentBracket = Boolean(
+    tournamentResolution && (tournamentResolution.rounds.length > 0 || tournamentResolution.pools.some((pool) => pool.pool))
+  )
   const plateauPlanningTeams = useMemo(() => {
     if (!plateauPlanningData?.slots?.length) return [] as string[]
     const labels = new Set<string>()
@@ -531,13 +578,15 @@ export default function PlateauDetailsPage() {
           localCancelledIds: localCancelledMatchIds,
         })
         const isCancelled = cancelledByAbsence || cancelledByMatchStatus
+        const key = `${slot.time}-${game.pitch}-${game.A}-${game.B}`
+        const tournamentGame = tournamentGamesByDisplayKey.get(key)
         return {
-          key: `${slot.time}-${game.pitch}-${game.A}-${game.B}`,
+          key,
           pitch: game.pitch,
-          teamA: game.A,
-          teamB: game.B,
-          teamAColor: plateauPlanningTeamColorMap.get(game.A) ?? TEAM_COLORS[0],
-          teamBColor: plateauPlanningTeamColorMap.get(game.B) ?? TEAM_COLORS[1],
+          teamA: tournamentGame?.A ?? game.A,
+          teamB: tournamentGame?.B ?? game.B,
+          teamAColor: plateauPlanningTeamColorMap.get(tournamentGame?.A ?? game.A) ?? TEAM_COLORS[0],
+          teamBColor: plateauPlanningTeamColorMap.get(tournamentGame?.B ?? game.B) ?? TEAM_COLORS[1],
           isClickable: game.isClubGame && Boolean(game.linkedMatch) && !isCancelled,
           showLinkIndicator: game.isClubGame && Boolean(game.linkedMatch) && !isCancelled,
           isCancelled,
@@ -546,12 +595,12 @@ export default function PlateauDetailsPage() {
             && !isCancelled
             && !isPendingMatch(game.linkedMatch, { referenceDate: plateau?.date ?? null, localCancelledIds: localCancelledMatchIds })
             ? `${game.linkedMatch.teams.find((team) => team.side === 'home')?.score ?? 0} - ${game.linkedMatch.teams.find((team) => team.side === 'away')?.score ?? 0}`
-            : null,
+            : (tournamentGame?.score && !isCancelled ? `${tournamentGame.score.scoreA} - ${tournamentGame.score.scoreB}` : null),
           onOpen: game.isClubGame && game.linkedMatch && !isCancelled ? () => navigate(`/match/${game.linkedMatch?.id}`) : undefined,
         }
       }),
     }))
-  ), [absentTeamLabels, localCancelledMatchIds, navigate, plateau?.date, plateauPlanningTeamColorMap, visibleRotationMatches])
+  ), [absentTeamLabels, localCancelledMatchIds, navigate, plateau?.date, plateauPlanningTeamColorMap, tournamentGamesByDisplayKey, visibleRotationMatches])
   const manualDisplaySlots = useMemo(() => {
     if (matchSourceMode !== 'MANUAL' || plateauMatches.length === 0) return []
     const activePlateauTeamName = (() => {
@@ -583,91 +632,10 @@ export default function PlateauDetailsPage() {
       }),
     }]
   }, [clubName, localCancelledMatchIds, matchSourceMode, navigate, plateau?.date, plateau?.teamId, plateauMatches, selectedTeamId, teamOptions])
-  const tournamentStandings = useMemo(() => {
-    if (!isTournamentChampionship) return []
-    const allTeams = Array.from(new Set(
-      plateauPlanningTeams.length
-        ? plateauPlanningTeams
-        : (plateauPlanningData?.slots?.flatMap((slot) => slot.games.flatMap((game) => [game.A, game.B])) ?? [])
-    ))
-    if (!allTeams.length) return []
-
-    type StandingRow = { team: string; played: number; won: number; draw: number; lost: number; gf: number; ga: number; gd: number; points: number }
-    const table = new Map<string, StandingRow>(
-      allTeams.map((team) => [team, { team, played: 0, won: 0, draw: 0, lost: 0, gf: 0, ga: 0, gd: 0, points: 0 }])
-    )
-
-    const gameByKey = new Map<string, { A: string; B: string }>()
-    for (const [slotIndex, slot] of (plateauPlanningData?.slots ?? []).entries()) {
-      for (const [gameIndex, game] of slot.games.entries()) {
-        gameByKey.set(`slot:${slotIndex}:game:${gameIndex}`, { A: game.A, B: game.B })
-      }
-    }
-
-    for (const match of plateauMatches) {
-      if (isMatchCancelled(match, { localCancelledIds: localCancelledMatchIds })) continue
-      if (isPendingMatch(match, { referenceDate: plateau?.date ?? null, localCancelledIds: localCancelledMatchIds })) continue
-      const key = (match.rotationGameKey || '').trim()
-      let teamA = ''
-      let teamB = ''
-      if (key && gameByKey.has(key)) {
-        const mapped = gameByKey.get(key)!
-        teamA = mapped.A
-        teamB = mapped.B
-      } else {
-        const parsed = (match.opponentName || '').match(/^(.+)\s+vs\s+(.+)$/i)
-        if (parsed) {
-          teamA = parsed[1].trim()
-          teamB = parsed[2].trim()
-        }
-      }
-      if (!teamA || !teamB) continue
-      if (!table.has(teamA)) table.set(teamA, { team: teamA, played: 0, won: 0, draw: 0, lost: 0, gf: 0, ga: 0, gd: 0, points: 0 })
-      if (!table.has(teamB)) table.set(teamB, { team: teamB, played: 0, won: 0, draw: 0, lost: 0, gf: 0, ga: 0, gd: 0, points: 0 })
-
-      const homeScore = match.teams.find((team) => team.side === 'home')?.score ?? 0
-      const awayScore = match.teams.find((team) => team.side === 'away')?.score ?? 0
-
-      const rowA = table.get(teamA)!
-      const rowB = table.get(teamB)!
-      rowA.played += 1
-      rowB.played += 1
-      rowA.gf += homeScore
-      rowA.ga += awayScore
-      rowB.gf += awayScore
-      rowB.ga += homeScore
-      if (homeScore > awayScore) {
-        rowA.won += 1
-        rowA.points += 3
-        rowB.lost += 1
-      } else if (homeScore < awayScore) {
-        rowB.won += 1
-        rowB.points += 3
-        rowA.lost += 1
-      } else {
-        rowA.draw += 1
-        rowB.draw += 1
-        rowA.points += 1
-        rowB.points += 1
-      }
-    }
-
-    return Array.from(table.values())
-      .map((row) => ({ ...row, gd: row.gf - row.ga }))
-      .sort((lhs, rhs) =>
-        rhs.points - lhs.points
-        || rhs.gd - lhs.gd
-        || rhs.gf - lhs.gf
-        || lhs.team.localeCompare(rhs.team, 'fr-FR')
-      )
-  }, [
-    isTournamentChampionship,
-    localCancelledMatchIds,
-    plateau?.date,
-    plateauMatches,
-    plateauPlanningData?.slots,
-    plateauPlanningTeams,
-  ])
+  const tournamentStandings = useMemo(
+    () => (isTournamentChampionship ? (tournamentResolution?.pools[0]?.standings ?? []) : []),
+    [isTournamentChampionship, tournamentResolution],
+  )
   const activeTeamName = useMemo(() => {
     const activeId = selectedTeamId || plateau?.teamId
     if (!activeId) return ''
@@ -677,6 +645,22 @@ export default function PlateauDetailsPage() {
     if (plateauPlanningTeams.length === 0) return ''
     return findPlanningTeamLabel(plateauPlanningTeams, [clubName, activeTeamName])
   }, [activeTeamName, clubName, plateauPlanningTeams])
+  const plannableRotationMatches = useMemo(() => {
+    if (!plateauPlanningData?.slots?.length || !inferredPlanningTeamLabel) return [] as PlannableMatch[]
+    const linked = linkRotationSlotsToMatches({
+      slots: plateauPlanningData.slots,
+      matches: plateauMatches,
+      clubPlanningTeam: inferredPlanningTeamLabel,
+    })
+    return collectPlannableMatches(linked.slots).filter((planned) => (
+      !absentTeamLabels.has(planned.opponent)
+      && !isMatchCancelled(planned.match, { localCancelledIds: localCancelledMatchIds })
+    ))
+  }, [absentTeamLabels, inferredPlanningTeamLabel, localCancelledMatchIds, plateauMatches, plateauPlanningData?.slots])
+  const presentPlayers = useMemo(
+    () => players.filter((player) => plateauAttendance.has(player.id)),
+    [plateauAttendance, players],
+  )
   const plateauStartTimeLabel = useMemo(() => {
     if (plateau?.startTime) return plateau.startTime
     if (plateauPlanningData?.start) return plateauPlanningData.start
@@ -716,6 +700,50 @@ export default function PlateauDetailsPage() {
   }, [plateau?.date, plateau?.meetingTime, plateauPlanningData?.start])
   const publicPlateauUrl = useMemo(() => sharedPublicUrl, [sharedPublicUrl])
   const writable = me ? canWrite(me.role) && (!requiresSelection || Boolean(selectedTeamId)) : false
+  const showCarpool = plateau ? isAwayMatchday(plateau) : false
+  const carpoolMeetingDate = useMemo(() => getMeetingDate(plateau?.date, rendezVousTimeLabel), [plateau?.date, rendezVousTimeLabel])
+
+  const reloadCarpool = useCallback(async () => {
+    if (!id) return
+    const next = await apiCall(apiEndpoints.carpool.byMatchday(id))
+    setCarpool({ offers: next.offers ?? [], requests: next.requests ?? [] })
+  }, [id])
+
+  async function createCarpoolOffer(draft: CarpoolOfferDraft) {
+    if (!id) return
+    const driverName = [me?.firstName, me?.lastName].filter(Boolean).join(' ').trim() || me?.email || 'Parent'
+    await apiPost<CarpoolOffer>(apiRoutes.carpool.offers(id), {
+      driverName,
+      seats: draft.seats,
+      departurePoint: draft.departurePoint.trim(),
+      departureTime: draft.departureTime,
+      playerId: draft.playerId || null,
+      note: draft.note.trim() || null,
+    })
+    await reloadCarpool()
+  }
+
+  async function deleteCarpoolOffer(offer: CarpoolOffer) {
+    if (!uiConfirm(`Supprimer la voiture de ${offer.driverName} ?`)) return
+    await apiDelete(apiRoutes.carpool.offerById(offer.id))
+    await reloadCarpool()
+  }
+
+  async function requestCarpoolSeat(playerId: string, note: string) {
+    if (!id) return
+    await apiPost<CarpoolRequest>(apiRoutes.carpool.requests(id), { playerId, note: note || null })
+    await reloadCarpool()
+  }
+
+  async function cancelCarpoolRequest(request: CarpoolRequest) {
+    await apiDelete(apiRoutes.carpool.requestById(request.id))
+    await reloadCarpool()
+  }
+
+  async function assignCarpoolRequest(request: CarpoolRequest, offerId: string | null) {
+    await apiPut<CarpoolRequest>(apiRoutes.carpool.requestById(request.id), { offerId })
+    await reloadCarpool()
+  }
 
   useEffect(() => {
     if (isMatchCompetition && matchSourceMode !== 'MANUAL') {
@@ -970,6 +998,35 @@ export default function PlateauDetailsPage() {
     }
   }
 
+  // Drawn knockout tie (penalties): the qualified team is saved on the planning so every device agrees.
+  async function pickKnockoutWinner(tie: BracketTie, team: string) {
+    if (!writable || !plateauPlanning) return
+    const data = plateauPlanning.data as PlanningData
+    setPickingTieId(tie.tieId)
+    try {
+      const saved = await api.updatePlanning(plateauPlanning.id, {
+        ...data,
+        knockoutWinners: { ...data.knockoutWinners, [tie.tieId]: team },
+      })
+      setPlateauPlannings([saved])
+    } catch (err: unknown) {
+      uiAlert(`Erreur enregistrement du qualifié: ${toErrorMessage(err)}`)
+    } finally {
+      setPickingTieId(null)
+    }
+  }
+
+  async function acceptPlannedLineup(planned: PlannableMatch, lineup: PlannedLineup) {
+    const current = await apiCall(apiEndpoints.matches.byId(planned.matchId))
+    try {
+      const updated = await apiPut<MatchLite>(apiRoutes.matches.byId(planned.matchId), buildLineupPayload(current, lineup))
+      setPlateauMatches((prev) => prev.map((match) => (match.id === updated.id ? { ...match, ...updated } : match)))
+    } catch (err: unknown) {
+      // Hors connexion, la composition part dans la file d'attente: on la considère acceptée.
+      if (!(err instanceof OfflineQueuedError)) throw err
+    }
+  }
+
   async function syncTeamAbsence(teamLabel: string, absent: boolean) {
     if (!writable) return
     if (!id || !plateauPlanningData) return
@@ -978,7 +1035,7 @@ export default function PlateauDetailsPage() {
     setAbsentTeamsSaving((prev) => new Set(prev).add(normalizedLabel))
     try {
       await apiPost(apiRoutes.matchday.teamsAbsence(id), { teamLabel: normalizedLabel, absent })
-      const refreshed = await apiGet<MatchdaySummaryModeResponse>(apiRoutes.matchday.summary(id)).catch(() => null)
+      const refreshed = await apiCall(apiEndpoints.matchday.summary<MatchdaySummaryModeResponse>(id)).catch(() => null)
       if (refreshed?.rotation) setSummaryRotation(refreshed.rotation)
       if (refreshed?.matches) setPlateauMatches(refreshed.matches)
 
@@ -1278,6 +1335,24 @@ export default function PlateauDetailsPage() {
             />
           </div>
 
+          {showCarpool && (
+            <CarpoolSection
+              carpool={carpool}
+              players={players}
+              expectedPlayerIds={plateauAttendance}
+              destination={plateauMapQuery}
+              meetingTimeLabel={rendezVousTimeLabel}
+              meetingDate={carpoolMeetingDate}
+              currentUserId={me?.id ?? null}
+              canManage={writable}
+              onCreateOffer={createCarpoolOffer}
+              onDeleteOffer={deleteCarpoolOffer}
+              onRequestSeat={requestCarpoolSeat}
+              onCancelRequest={cancelCarpoolRequest}
+              onAssignRequest={assignCarpoolRequest}
+            />
+          )}
+
           <section className="details-card">
             <div className="card-head matches-card-head">
               <h3>Matchs</h3>
@@ -1358,6 +1433,11 @@ export default function PlateauDetailsPage() {
                           </button>
                         ) : undefined}
                       />
+                      {writable && plannableRotationMatches.length > 0 && (
+                        <CtaButton type="button" onClick={() => setIsRotationPlannerOpen(true)} style={{ width: '100%' }}>
+                          Planifier les compositions
+                        </CtaButton>
+                      )}
                       {unmatchedRotationDisplaySlots.length > 0 && (
                         <PlateauRotationContent
                           updatedAtLabel="Matchs non rattachés à la grille"
@@ -1420,46 +1500,27 @@ export default function PlateauDetailsPage() {
               <div className="card-head matches-card-head">
                 <h3>Classement</h3>
               </div>
-              {tournamentStandings.length === 0 ? (
+              {!hasStandingResults(tournamentStandings) ? (
                 <div className="matches-empty-state">Aucun match joué pour le moment.</div>
               ) : (
-                <div style={{ overflowX: 'auto' }}>
-                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
-                    <thead>
-                      <tr style={{ textAlign: 'left', color: '#64748b' }}>
-                        <th style={{ padding: '8px 6px' }}>#</th>
-                        <th style={{ padding: '8px 6px' }}>Équipe</th>
-                        <th style={{ padding: '8px 6px' }}>Pts</th>
-                        <th style={{ padding: '8px 6px' }}>J</th>
-                        <th style={{ padding: '8px 6px' }}>G</th>
-                        <th style={{ padding: '8px 6px' }}>N</th>
-                        <th style={{ padding: '8px 6px' }}>P</th>
-                        <th style={{ padding: '8px 6px' }}>BP</th>
-                        <th style={{ padding: '8px 6px' }}>BC</th>
-                        <th style={{ padding: '8px 6px' }}>Diff</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {tournamentStandings.map((row, index) => (
-                        <tr key={`standing-${row.team}`} style={{ borderTop: '1px solid #e5e7eb' }}>
-                          <td style={{ padding: '8px 6px', fontWeight: 700 }}>{index + 1}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.team}</td>
-                          <td style={{ padding: '8px 6px', fontWeight: 700 }}>{row.points}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.played}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.won}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.draw}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.lost}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.gf}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.ga}</td>
-                          <td style={{ padding: '8px 6px' }}>{row.gd > 0 ? `+${row.gd}` : row.gd}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
+                <TournamentStandingsTable rows={tournamentStandings} />
               )}
             </section>
           )}
+
+          {hasTournamentBracket && tournamentResolution && (
+            <section className="details-card">
+              <div className="card-head matches-card-head">
+                <h3>{tournamentResolution.rounds.length > 0 ? 'Tableau final' : 'Poules'}</h3>
+              </div>
+              <TournamentBracket
+                resolution={tournamentResolution}
+                qualifiedPerPool={plateauPlanningData?.qualifiersPerPool ?? 0}
+                pickingTieId={pickingTieId}
+                onPickWinner={writable && plateauPlanning ? (tie, team) => { void pickKnockoutWinner(tie, team) } : undefined}
+              />
+            </section>
+          )}
         </>
       )}
 
@@ -1678,6 +1739,7 @@ export default function PlateauDetailsPage() {
           planning={editingPlanning}
           initialTeamLabel={clubName || activeTeamName}
           competitionType={(plateau.competitionType as 'PLATEAU' | 'MATCH' | 'TOURNOI' | undefined) ?? 'PLATEAU'}
+          tournamentDefaults={planningTournamentDefaults}
           onClose={closePlanningModal}
           onSaved={upsertPlanning}
         />
@@ -1759,6 +1821,17 @@ export default function PlateauDetailsPage() {
         </>
       )}
 
+      {writable && isRotationPlannerOpen && (
+        <RotationPlannerModal
+          matches={plannableRotationMatches}
+          players={presentPlayers}
+          startersPerMatch={playersOnFieldFromGameFormat(matchdayTeamFormat, 5)}
+          matchMinutes={plateauPlanningData?.matchMin || DEFAULT_MATCH_DURATION_MINUTES}
+          onAccept={acceptPlannedLineup}
+          onClose={() => setIsRotationPlannerOpen(false)}
+        />
+      )}
+
       {writable && !isMatchCompetition && matchModeConfirm && (
         <>
           <div className="modal-overlay" onClick={closeMatchModeConfirmModal} />
@@ -1,16 +1,63 @@
 import { useEffect, useMemo, useState } from 'react'
-import { Building2, CalendarCheck2, IdCard, Mail, Phone, ShieldCheck, UserRoundCheck, Users } from 'lucide-react'
+import { Building2, CalendarCheck2, FileCheck2, HeartPulse, IdCard, Mail, Phone, ShieldCheck, UserRoundCheck, Users } from 'lucide-react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { API_BASE, HttpError } from '../api'
 import { apiGetAllItems, appendQueryParams } from '../adapters/pagination'
-import { apiDelete, apiGet, apiPost, apiPut } from '../apiClient'
+import { apiCall, apiDelete, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
+import AttendanceHeatmap from '../components/AttendanceHeatmap'
+import CalendarExportModal from '../components/CalendarExportModal'
+import PlayerDocumentsChecklist from '../components/PlayerDocumentsChecklist'
 import { ChevronLeftIcon, DotsHorizontalIcon } from '../components/icons'
 import RoundIconButton from '../components/RoundIconButton'
 import { toErrorMessage } from '../errors'
+import { formatAbsenceReasonCounts } from '../features/absenceReasons'
+import {
+  buildAttendanceHeatmap,
+  buildMonthlyAttendanceRates,
+  buildPlayerAttendanceTimeline,
+  listAttendanceSessions,
+  readAbsenceStreakAlert,
+  summarizeAttendance,
+} from '../features/attendanceAnalytics'
+import { getSeasonDateRange, toDayKey } from '../features/curriculum'
+import { shareOrDownloadFile } from '../features/diagramExport'
+import {
+  ICALENDAR_MIME_TYPE,
+  buildCalendarEvents,
+  buildCalendarFileName,
+  buildICalendar,
+  resolveCalendarFeedUrl,
+} from '../features/icalendar'
+import {
+  createInjuryDraft,
+  formatAvailabilityDay,
+  formatAvailabilityIssues,
+  getPlayerAvailability,
+  validateInjuryDraft,
+  type InjuryDraft,
+} from '../features/playerAvailability'
+import { buildDocumentChecklist, readDocumentAttachment } from '../features/playerDocuments'
+import { isPlayerActive } from '../features/playerRoster'
+import { buildPlayingTimeReport, readMinPlayingShare } from '../features/playingTime'
+import { selectPlayedMatches } from '../features/seasonStats'
+import { useLiveMatchStates } from '../hooks/useLiveMatchStates'
 import { uiAlert } from '../ui'
 import { useTeamScope } from '../useTeamScope'
-import type { AttendanceRow, ClubMe, MatchLite, Player, Training } from '../types/api'
+import type {
+  AttendanceRow,
+  CalendarFeedShare,
+  MatchLite,
+  Matchday,
+  Player,
+  PlayerDocument,
+  PlayerDocumentStatus,
+  PlayerDocumentType,
+  PlayerInjury,
+  PlayerInvitationStatus,
+  Training,
+} from '../types/api'
 import './PlayerDetailsPage.css'
 
 const POSITIONS = ['GARDIEN', 'DEFENSEUR', 'MILIEU', 'ATTAQUANT'] as const
@@ -46,12 +93,6 @@ function getPlayerDisplayName(player: Player): string {
   return fullName || player.name || 'Joueur'
 }
 
-function isPlayerActive(player: Player): boolean {
-  if (typeof player.isActive === 'boolean') return player.isActive
-  if (typeof player.is_active === 'boolean') return player.is_active
-  return true
-}
-
 function getInitials(fullName: string) {
   const parts = fullName.trim().split(/\s+/).filter(Boolean)
   if (!parts.length) return '?'
@@ -138,16 +179,9 @@ function formatFieldList(fields: string[]): string {
   return `${fields.slice(0, -1).join(', ')} et ${fields[fields.length - 1]}`
 }
 
-type InvitationStatusValue = 'NONE' | 'PENDING' | 'ACCEPTED'
-type ParentInvitationStatusValue = InvitationStatusValue | 'EXPIRED' | 'CANCELLED'
-type PlayerInvitationStatusResponse = {
-  playerId: string
-  status: InvitationStatusValue
-  lastInvitationAt?: string | null
-  invitationId?: string | null
-}
+type ParentInvitationStatusValue = PlayerInvitationStatus | 'EXPIRED' | 'CANCELLED'
 type PlayerInviteResponse = {
-  status: InvitationStatusValue
+  status: PlayerInvitationStatus
   invitationId?: string | null
   sentAt?: string | null
   expiresAt?: string | null
@@ -159,7 +193,7 @@ type PlayerInviteRequest = {
   parentId?: string
 }
 
-function normalizeInvitationStatus(value: unknown): InvitationStatusValue {
+function normalizeInvitationStatus(value: unknown): PlayerInvitationStatus {
   const normalized = typeof value === 'string' ? value.trim().toUpperCase() : ''
   if (normalized === 'PENDING' || normalized === 'ACCEPTED') return normalized
   return 'NONE'
@@ -213,14 +247,16 @@ export default function PlayerDetailsPage() {
   const [error, setError] = useState<string | null>(null)
   const [actionsMenuOpen, setActionsMenuOpen] = useState(false)
   const [editModalOpen, setEditModalOpen] = useState(false)
+  const [calendarExportOpen, setCalendarExportOpen] = useState(false)
   const [rosterStatusAction, setRosterStatusAction] = useState<'remove' | 'reintegrate' | null>(null)
   const [saving, setSaving] = useState(false)
   const [updatingRosterStatus, setUpdatingRosterStatus] = useState(false)
   const [matches, setMatches] = useState<MatchLite[]>([])
   const [attendanceRows, setAttendanceRows] = useState<AttendanceRow[]>([])
   const [trainings, setTrainings] = useState<Training[]>([])
+  const [matchdays, setMatchdays] = useState<Matchday[]>([])
   const [inviteSending, setInviteSending] = useState(false)
-  const [invitationStatus, setInvitationStatus] = useState<InvitationStatusValue | null>(null)
+  const [invitationStatus, setInvitationStatus] = useState<PlayerInvitationStatus | null>(null)
   const [invitationLoading, setInvitationLoading] = useState(false)
   const [invitationStatusError, setInvitationStatusError] = useState<string | null>(null)
   const [inviteUrl, setInviteUrl] = useState<string | null>(null)
@@ -230,6 +266,12 @@ export default function PlayerDetailsPage() {
   const [inviteParentPhone, setInviteParentPhone] = useState('')
   const [deletingParentId, setDeletingParentId] = useState<string | null>(null)
   const [clubName, setClubName] = useState('')
+  const [seasonRange, setSeasonRange] = useState(() => getSeasonDateRange(null))
+  const [injuries, setInjuries] = useState<PlayerInjury[]>([])
+  const [injuryDraft, setInjuryDraft] = useState<InjuryDraft | null>(null)
+  const [returnDateDraft, setReturnDateDraft] = useState('')
+  const [certificateDraft, setCertificateDraft] = useState('')
+  const [savingAvailability, setSavingAvailability] = useState(false)
 
   const [firstName, setFirstName] = useState('')
   const [lastName, setLastName] = useState('')
@@ -245,7 +287,7 @@ export default function PlayerDetailsPage() {
     setInvitationLoading(true)
     setInvitationStatusError(null)
     try {
-      const response = await apiGet<PlayerInvitationStatusResponse>(apiRoutes.players.invitationStatus(playerId))
+      const response = await apiCall(apiEndpoints.players.invitationStatus(playerId))
       setInvitationStatus(normalizeInvitationStatus(response?.status))
     } catch (err: unknown) {
       setInvitationStatus(null)
@@ -269,22 +311,29 @@ export default function PlayerDetailsPage() {
       setInvitationStatusError(null)
       setInviteUrl(null)
       try {
-        const clubPayload = await apiGet<ClubMe>(apiRoutes.clubs.me).catch(() => null)
+        const clubPayload = await apiCall(apiEndpoints.clubs.me()).catch(() => null)
         const seasonId = clubPayload?.currentSeason?.id ?? null
         const withSeason = (path: string) => seasonId ? appendQueryParams(path, { seasonId }) : path
-        const [playerData, matchData, attendanceData, trainingData, clubData] = await Promise.all([
-          apiGet<Player>(apiRoutes.players.byId(id)),
+        const [playerData, matchData, attendanceData, trainingData, matchdayData, clubData, injuryData] = await Promise.all([
+          apiCall(apiEndpoints.players.byId(id)),
           apiGetAllItems<MatchLite>(withSeason(apiRoutes.matches.list)).catch(() => []),
           apiGetAllItems<AttendanceRow>(withSeason(apiRoutes.attendance.list)).catch(() => []),
           apiGetAllItems<Training>(withSeason(apiRoutes.trainings.list)).catch(() => []),
+          apiGetAllItems<Matchday>(withSeason(apiRoutes.matchday.list)).catch(() => []),
           Promise.resolve(clubPayload),
+          apiGetAllItems<PlayerInjury>(apiRoutes.players.injuries(id)).catch(() => []),
         ])
         if (!cancelled) {
           setPlayer(playerData)
+          setInjuries(injuryData)
+          setReturnDateDraft((playerData.currentInjury?.expectedReturnDate || '').slice(0, 10))
+          setCertificateDraft((playerData.medicalCertificateExpiresAt || '').slice(0, 10))
           setMatches(matchData)
+          setMatchdays(matchdayData)
           setAttendanceRows(attendanceData)
           setTrainings(trainingData)
           setClubName((clubData?.name || '').trim())
+          setSeasonRange(getSeasonDateRange(clubData))
           if (isChildPlayer(playerData)) {
             setInvitationLoading(false)
             setInvitationStatus(null)
@@ -389,7 +438,43 @@ export default function PlayerDetailsPage() {
     if (totalActiveTrainings <= 0) return 0
     return Math.round((attendedTrainings / totalActiveTrainings) * 100)
   }, [attendedTrainings, totalActiveTrainings])
+  const attendance = useMemo(() => {
+    if (!player) return null
+    const sessions = listAttendanceSessions({ trainings, matchdays }, { teamId: player.teamId })
+    const timeline = buildPlayerAttendanceTimeline(player.id, sessions, attendanceRows)
+    const today = toDayKey(new Date())
+    const endDate = seasonRange.endDate < today ? seasonRange.endDate : today
+    return {
+      summary: summarizeAttendance(timeline),
+      monthly: buildMonthlyAttendanceRates(timeline),
+      heatmap: buildAttendanceHeatmap(timeline, { startDate: seasonRange.startDate, endDate }),
+      streakAlert: readAbsenceStreakAlert(),
+    }
+  }, [attendanceRows, matchdays, player, seasonRange, trainings])
+  const playedMatchIds = useMemo(() => selectPlayedMatches(matches, matchdays).map((match) => match.id), [matchdays, matches])
+  const liveStates = useLiveMatchStates(playedMatchIds)
+  const playingTime = useMemo(() => {
+    if (!player) return null
+    const rows = buildPlayingTimeReport({
+      matches,
+      matchdays,
+      attendance: attendanceRows,
+      players: [player],
+      liveStates,
+      minShare: readMinPlayingShare(),
+    })
+    return rows.find((row) => row.playerId === player.id) ?? null
+  }, [attendanceRows, liveStates, matchdays, matches, player])
   const rosterStatusLabel = playerIsActive ? 'Dans l’effectif' : 'Hors effectif'
+  const availability = useMemo(() => (player ? getPlayerAvailability(player) : null), [player])
+  const documentRows = useMemo(() => (player ? buildDocumentChecklist(player) : []), [player])
+  const incompleteDocumentCount = documentRows.filter((row) => row.state !== 'VALID').length
+  const pastInjuries = useMemo(
+    () => injuries
+      .filter((injury) => injury.id !== player?.currentInjury?.id)
+      .sort((a, b) => b.startDate.localeCompare(a.startDate)),
+    [injuries, player?.currentInjury?.id],
+  )
   const rosterStatusButtonLabel = playerIsActive ? 'Retirer de l’effectif' : 'Réintégrer dans l’effectif'
   const rosterStatusModalTitle = rosterStatusAction === 'reintegrate'
     ? 'Réintégrer le joueur'
@@ -504,6 +589,94 @@ export default function PlayerDetailsPage() {
     }
   }
 
+  // The player's team sessions, already loaded for the season stats.
+  async function declareInjury(event: React.FormEvent) {
+    event.preventDefault()
+    if (!player?.id || !injuryDraft) return
+    const validationError = validateInjuryDraft(injuryDraft)
+    if (validationError) {
+      uiAlert(validationError)
+      return
+    }
+    setSavingAvailability(true)
+    try {
+      const created = await apiPost<PlayerInjury>(apiRoutes.players.injuries(player.id), {
+        description: injuryDraft.description.trim(),
+        startDate: injuryDraft.startDate,
+        expectedReturnDate: injuryDraft.expectedReturnDate || null,
+        note: injuryDraft.note.trim() || null,
+      })
+      setPlayer({ ...player, currentInjury: created })
+      setInjuries((prev) => [created, ...prev.filter((injury) => injury.id !== created.id)])
+      setReturnDateDraft((created.expectedReturnDate || '').slice(0, 10))
+      setInjuryDraft(null)
+    } catch (err: unknown) {
+      uiAlert(`Erreur enregistrement blessure: ${toErrorMessage(err)}`)
+    } finally {
+      setSavingAvailability(false)
+    }
+  }
+
+  async function updateCurrentInjury(changes: Partial<Pick<PlayerInjury, 'expectedReturnDate' | 'endedAt'>>) {
+    const current = player?.currentInjury
+    if (!player?.id || !current) return
+    setSavingAvailability(true)
+    try {
+      const updated = await apiPut<PlayerInjury>(apiRoutes.players.injuryById(player.id, current.id), changes)
+      setPlayer({ ...player, currentInjury: updated.endedAt ? null : updated })
+      setInjuries((prev) => prev.map((injury) => (injury.id === updated.id ? updated : injury)))
+    } catch (err: unknown) {
+      uiAlert(`Erreur mise à jour blessure: ${toErrorMessage(err)}`)
+    } finally {
+      setSavingAvailability(false)
+    }
+  }
+
+  async function saveCertificateExpiry() {
+    if (!player?.id) return
+    setSavingAvailability(true)
+    try {
+      const updated = await apiPut<Player>(apiRoutes.players.byId(player.id), { medicalCertificateExpiresAt: certificateDraft || null })
+      setPlayer(updated)
+    } catch (err: unknown) {
+      uiAlert(`Erreur certificat médical: ${toErrorMessage(err)}`)
+    } finally {
+      setSavingAvailability(false)
+    }
+  }
+
+  function replaceDocument(document: PlayerDocument) {
+    setPlayer((prev) => (prev
+      ? { ...prev, documents: [...(prev.documents ?? []).filter((item) => item.type !== document.type), document] }
+      : prev))
+  }
+
+  // Errors are shown by the checklist next to the document.
+  async function saveDocument(type: PlayerDocumentType, changes: { status: PlayerDocumentStatus; expiresAt: string | null }) {
+    if (!player?.id) return
+    replaceDocument(await apiPut<PlayerDocument>(apiRoutes.players.documentByType(player.id, type), changes))
+  }
+
+  async function uploadDocument(type: PlayerDocumentType, file: File) {
+    if (!player?.id) return
+    const attachment = await readDocumentAttachment(file)
+    replaceDocument(await apiPost<PlayerDocument>(apiRoutes.players.documentAttachment(player.id, type), attachment))
+  }
+
+  async function downloadPlayerCalendar() {
+    if (!player) return
+    const calendarName = `Planning ${getPlayerDisplayName(player)}`
+    const events = buildCalendarEvents({ trainings, matchdays }, { teamId: player.teamId })
+    const blob = new Blob([buildICalendar(events, calendarName)], { type: ICALENDAR_MIME_TYPE })
+    await shareOrDownloadFile(blob, buildCalendarFileName(calendarName), calendarName)
+  }
+
+  async function createPlayerCalendarFeed() {
+    if (!player) throw new Error('Joueur introuvable.')
+    const feed = await apiPost<CalendarFeedShare>(apiRoutes.calendarFeeds.share, { playerId: player.id })
+    return resolveCalendarFeedUrl(feed, API_BASE)
+  }
+
   async function sendPlayerInvitation(payloadOverride?: PlayerInviteRequest) {
     if (!player?.id) return
     if (isChildPlayer(player) && !payloadOverride) {
@@ -523,7 +696,7 @@ export default function PlayerDetailsPage() {
       const payload: PlayerInviteRequest = payloadOverride || {}
       const response = await apiPost<PlayerInviteResponse>(apiRoutes.players.invite(player.id), payload)
       if (isChildPlayer(player)) {
-        const refreshed = await apiGet<Player>(apiRoutes.players.byId(player.id))
+        const refreshed = await apiCall(apiEndpoints.players.byId(player.id))
         setPlayer(refreshed)
       } else {
         await refreshInvitationStatus(player.id)
@@ -539,7 +712,7 @@ export default function PlayerDetailsPage() {
       if (err instanceof HttpError && err.status === 409) {
         uiAlert(isChildPlayer(player) ? 'Compte parent déjà activé.' : 'Compte déjà activé.')
         if (isChildPlayer(player)) {
-          const refreshed = await apiGet<Player>(apiRoutes.players.byId(player.id))
+          const refreshed = await apiCall(apiEndpoints.players.byId(player.id))
           setPlayer(refreshed)
         } else {
           await refreshInvitationStatus(player.id)
@@ -600,7 +773,7 @@ export default function PlayerDetailsPage() {
     setDeletingParentId(parentId)
     try {
       await apiDelete(apiRoutes.players.parentById(player.id, parentId))
-      const refreshed = await apiGet<Player>(apiRoutes.players.byId(player.id))
+      const refreshed = await apiCall(apiEndpoints.players.byId(player.id))
       setPlayer(refreshed)
       uiAlert('Parent retiré.')
     } catch (err: unknown) {
@@ -638,6 +811,13 @@ export default function PlayerDetailsPage() {
                   <span><ShieldCheck size={13} />{hasLicence ? 'Licence OK' : 'Licence manquante'}</span>
                   <span><CalendarCheck2 size={13} />{trainingAttendanceRate}% assiduité</span>
                   <span><Users size={13} />{rosterStatusLabel}</span>
+                  <span className={incompleteDocumentCount > 0 ? 'is-alert' : ''}>
+                    <FileCheck2 size={13} />
+                    {incompleteDocumentCount > 0 ? `Dossier incomplet (${incompleteDocumentCount})` : 'Dossier complet'}
+                  </span>
+                  {availability && !availability.available && (
+                    <span className="is-alert"><HeartPulse size={13} />{formatAvailabilityIssues(availability)}</span>
+                  )}
                 </div>
                 {!isChildPlayer(player) && invitationLoading && (
                   <div className="player-invite-row">
@@ -720,6 +900,15 @@ export default function PlayerDetailsPage() {
                       >
                         Modifier
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setActionsMenuOpen(false)
+                          setCalendarExportOpen(true)
+                        }}
+                      >
+                        Exporter son planning
+                      </button>
                       <button
                         type="button"
                         className={playerIsActive ? 'danger' : ''}
@@ -756,6 +945,69 @@ export default function PlayerDetailsPage() {
             </article>
           </div>
 
+          {attendance && attendance.summary.sessions > 0 && (
+            <div className="player-attendance">
+              <div className="player-attendance-head">
+                <strong>Présences de la saison</strong>
+                <span>
+                  {attendance.summary.present}/{attendance.summary.sessions} séances
+                  {' · '}
+                  {attendance.summary.excused} absence{attendance.summary.excused > 1 ? 's' : ''} excusée{attendance.summary.excused > 1 ? 's' : ''}
+                  {' · '}
+                  {attendance.summary.unexcused} non excusée{attendance.summary.unexcused > 1 ? 's' : ''}
+                </span>
+              </div>
+              {attendance.summary.currentAbsenceStreak >= attendance.streakAlert && (
+                <p className="player-playing-time-alert">
+                  {attendance.summary.currentAbsenceStreak} absences consécutives: prendre des nouvelles du joueur.
+                </p>
+              )}
+              {formatAbsenceReasonCounts(attendance.summary.absenceReasons) && (
+                <p className="player-playing-time-note">Motifs d’absence: {formatAbsenceReasonCounts(attendance.summary.absenceReasons)}</p>
+              )}
+              <AttendanceHeatmap weeks={attendance.heatmap} />
+              <div className="player-attendance-months">
+                {attendance.monthly.map((point) => (
+                  <span key={point.month} className="player-attendance-month">
+                    {new Intl.DateTimeFormat('fr-FR', { month: 'short' }).format(new Date(`${point.month}-01T12:00:00`))}
+                    <strong>{point.rate == null ? '—' : `${Math.round(point.rate * 100)}%`}</strong>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {playingTime && (
+            <div className="player-playing-time">
+              <div className="player-profile-stats-grid">
+                <article className="player-stat-card">
+                  <strong>Minutes jouées</strong>
+                  <p>{Math.round(playingTime.minutes)}{playingTime.estimated ? '*' : ''}</p>
+                </article>
+                <article className="player-stat-card">
+                  <strong>Part du temps de jeu</strong>
+                  <p>{playingTime.share == null ? '—' : `${Math.round(playingTime.share * 100)}%`}</p>
+                </article>
+                <article className="player-stat-card">
+                  <strong>Titulaire / Remplaçant</strong>
+                  <p>{playingTime.starts}/{playingTime.subAppearances}</p>
+                </article>
+                <article className="player-stat-card">
+                  <strong>Plateaux présents / convoqués</strong>
+                  <p>{playingTime.matchdaysAttended}/{playingTime.matchdaysConvened}</p>
+                </article>
+              </div>
+              {playingTime.belowThreshold && (
+                <p className="player-playing-time-alert">
+                  Temps de jeu sous le seuil d’équité fixé dans les statistiques de l’équipe.
+                </p>
+              )}
+              {playingTime.estimated && (
+                <p className="player-playing-time-note">* Estimation d’après la composition pour les matchs non suivis en direct : les titulaires comptent pour tout le match, les remplaçants sans changement enregistré pour 0 minute.</p>
+              )}
+            </div>
+          )}
+
           <div className="player-details-grid">
             <div className="player-details-roster-card">
               <span className="player-info-icon"><Users size={15} /></span>
@@ -779,6 +1031,110 @@ export default function PlayerDetailsPage() {
                 </p>
               )}
             </div>
+            <div className="player-details-medical-card">
+              <span className="player-info-icon"><HeartPulse size={15} /></span>
+              <strong>Disponibilité médicale</strong>
+              {player.currentInjury ? (
+                <div className="player-medical-injury">
+                  <p>
+                    {player.currentInjury.description} · depuis le {formatAvailabilityDay(player.currentInjury.startDate)}
+                  </p>
+                  {player.currentInjury.note && <p className="player-roster-note">{player.currentInjury.note}</p>}
+                  <label className="player-medical-field">
+                    Retour prévu
+                    <input type="date" value={returnDateDraft} onChange={(event) => setReturnDateDraft(event.target.value)} />
+                  </label>
+                  <div className="player-roster-actions">
+                    <button
+                      type="button"
+                      className="player-invite-btn secondary"
+                      onClick={() => { void updateCurrentInjury({ expectedReturnDate: returnDateDraft || null }) }}
+                      disabled={savingAvailability}
+                    >
+                      Mettre à jour le retour
+                    </button>
+                    <button
+                      type="button"
+                      className="players-primary-btn"
+                      onClick={() => { void updateCurrentInjury({ endedAt: toDayKey(new Date()) }) }}
+                      disabled={savingAvailability}
+                    >
+                      Déclarer rétabli
+                    </button>
+                  </div>
+                </div>
+              ) : injuryDraft ? (
+                <form className="player-medical-form" onSubmit={(event) => { void declareInjury(event) }}>
+                  <label className="player-medical-field">
+                    Blessure
+                    <input
+                      value={injuryDraft.description}
+                      placeholder="Ex: entorse cheville"
+                      onChange={(event) => setInjuryDraft({ ...injuryDraft, description: event.target.value })}
+                    />
+                  </label>
+                  <label className="player-medical-field">
+                    Depuis le
+                    <input type="date" value={injuryDraft.startDate} onChange={(event) => setInjuryDraft({ ...injuryDraft, startDate: event.target.value })} />
+                  </label>
+                  <label className="player-medical-field">
+                    Retour prévu
+                    <input
+                      type="date"
+                      value={injuryDraft.expectedReturnDate}
+                      onChange={(event) => setInjuryDraft({ ...injuryDraft, expectedReturnDate: event.target.value })}
+                    />
+                  </label>
+                  <label className="player-medical-field">
+                    Note
+                    <input value={injuryDraft.note} onChange={(event) => setInjuryDraft({ ...injuryDraft, note: event.target.value })} />
+                  </label>
+                  <div className="player-roster-actions">
+                    <button type="button" className="player-invite-btn secondary" onClick={() => setInjuryDraft(null)} disabled={savingAvailability}>
+                      Annuler
+                    </button>
+                    <button type="submit" className="players-primary-btn" disabled={savingAvailability}>
+                      {savingAvailability ? 'Enregistrement...' : 'Enregistrer'}
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="player-roster-actions">
+                  <p>Aucune blessure en cours.</p>
+                  <button type="button" className="player-invite-btn secondary" onClick={() => setInjuryDraft(createInjuryDraft())}>
+                    Déclarer une blessure
+                  </button>
+                </div>
+              )}
+              <div className="player-medical-certificate">
+                <label className="player-medical-field">
+                  Certificat médical valable jusqu’au
+                  <input type="date" value={certificateDraft} onChange={(event) => setCertificateDraft(event.target.value)} />
+                </label>
+                <button
+                  type="button"
+                  className="player-invite-btn secondary"
+                  onClick={() => { void saveCertificateExpiry() }}
+                  disabled={savingAvailability || certificateDraft === (player.medicalCertificateExpiresAt || '').slice(0, 10)}
+                >
+                  Enregistrer
+                </button>
+              </div>
+              {pastInjuries.length > 0 && (
+                <ul className="player-medical-history">
+                  {pastInjuries.map((injury) => (
+                    <li key={injury.id}>
+                      {injury.description} · {formatAvailabilityDay(injury.startDate)} → {formatAvailabilityDay(injury.endedAt || injury.expectedReturnDate)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="player-details-documents-card">
+              <span className="player-info-icon"><FileCheck2 size={15} /></span>
+              <strong>Dossier d’inscription</strong>
+              <PlayerDocumentsChecklist rows={documentRows} onSave={saveDocument} onUpload={uploadDocument} />
+            </div>
             {isChildPlayer(player) && (
               <div className="player-details-parent-card">
                 <span className="player-info-icon"><Users size={15} /></span>
@@ -1032,6 +1388,15 @@ export default function PlayerDetailsPage() {
         </>
       )}
 
+      {calendarExportOpen && player && (
+        <CalendarExportModal
+          title={`Planning de ${getPlayerDisplayName(player)}`}
+          onDownload={downloadPlayerCalendar}
+          onCreateFeed={createPlayerCalendarFeed}
+          onClose={() => setCalendarExportOpen(false)}
+        />
+      )}
+
       {inviteModalOpen && player && inviteUrl && (
         <>
           <div className="player-modal-overlay" onClick={() => setInviteModalOpen(false)} />
@@ -1,16 +1,26 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import FloatingPlusButton from '../components/FloatingPlusButton'
+import RosterImportModal, { type RosterImportItem } from '../components/RosterImportModal'
 import SearchInput from '../components/SearchInput'
-import { appendQueryParams, canLoadMore, mergeById, nextOffset, normalizePaginatedResponse, withPagination } from '../adapters/pagination'
-import { apiGet, apiPost, apiPut } from '../apiClient'
+import { apiGetAllItems, canLoadMore, mergeById, nextOffset } from '../adapters/pagination'
+import { apiCall, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { canWrite } from '../authz'
 import { toErrorMessage } from '../errors'
 import { readDefaultTactic, saveDefaultTactic } from '../features/defaultTactic'
+import {
+  formatAvailabilityDay,
+  formatAvailabilityIssues,
+  listExpiringCertificates,
+  listUnavailableThisWeek,
+} from '../features/playerAvailability'
+import { listIncompleteDocuments } from '../features/playerDocuments'
+import { isPlayerActive } from '../features/playerRoster'
 import { buildPointsMap, buildTacticalFormations, buildTacticalTokens, type TacticalPoint } from '../features/tactical'
 import { playersOnFieldFromGameFormat } from '../features/teamFormat'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { useAuth } from '../useAuth'
 import { useTeamScope } from '../useTeamScope'
 import { uiAlert, uiConfirm } from '../ui'
@@ -21,6 +31,8 @@ const POSITIONS = ['GARDIEN', 'DEFENSEUR', 'MILIEU', 'ATTAQUANT'] as const
 const POSITION_UNDEFINED = 'NON DEFINI'
 const POSITION_FILTERS = [POSITION_UNDEFINED, ...POSITIONS] as const
 const PLAYERS_PAGE_LIMIT = 50
+// Former players stay listed so they can be reactivated, and so imports spot them as duplicates.
+const ROSTER_QUERY = { rosterStatus: 'all' }
 
 type SortKey = 'name' | 'position'
 type TeamTab = 'EFFECTIF' | 'TACTIQUE'
@@ -153,12 +165,6 @@ function getPlayerDisplayName(player: Player): string {
   return fullName || player.name || '—'
 }
 
-function isPlayerActive(player: Player): boolean {
-  if (typeof player.isActive === 'boolean') return player.isActive
-  if (typeof player.is_active === 'boolean') return player.is_active
-  return true
-}
-
 function getPlayerTeamLabel(player: Player): string {
   const teamName = typeof player.teamName === 'string' ? player.teamName.trim() : ''
   if (teamName) return teamName
@@ -184,11 +190,6 @@ export default function PlayersPage() {
   const { me } = useAuth()
   const { selectedTeamId, selectedTeamFormat, requiresSelection } = useTeamScope()
   const navigate = useNavigate()
-  const playersListPath = useMemo(
-    () => appendQueryParams(apiRoutes.players.list, { rosterStatus: 'all' }),
-    [],
-  )
-
   const playersOnField = useMemo(() => playersOnFieldFromGameFormat(selectedTeamFormat, 5), [selectedTeamFormat])
   const tacticalTokens = useMemo(() => buildTacticalTokens(playersOnField), [playersOnField])
   const tacticalFormations = useMemo(() => buildTacticalFormations(playersOnField), [playersOnField])
@@ -198,6 +199,8 @@ export default function PlayersPage() {
   const [playersPagination, setPlayersPagination] = useState({ limit: PLAYERS_PAGE_LIMIT, offset: 0, returned: 0 })
   const [loadingMorePlayers, setLoadingMorePlayers] = useState(false)
   const [modalOpen, setModalOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [importRoster, setImportRoster] = useState<Player[] | null>(null)
   const [activeTab, setActiveTab] = useState<TeamTab>('EFFECTIF')
   const [tacticalFormation, setTacticalFormation] = useState<string>(defaultFormation?.key || '')
   const [tacticalPresetValue, setTacticalPresetValue] = useState(
@@ -222,19 +225,19 @@ export default function PlayersPage() {
 
   const [q, setQ] = useState('')
   const [posFilter, setPosFilter] = useState('')
+  const [incompleteFilesOnly, setIncompleteFilesOnly] = useState(false)
   const [sortKey, setSortKey] = useState<SortKey>('name')
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc')
 
   const writable = me ? canWrite(me.role) : false
   const teamScopedWritable = writable && (!requiresSelection || Boolean(selectedTeamId))
 
-  const loadPlayers = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    const raw = await apiGet<unknown>(withPagination(playersListPath, { limit: PLAYERS_PAGE_LIMIT, offset: 0 }))
-    const page = normalizePaginatedResponse<Player>(raw, { limit: PLAYERS_PAGE_LIMIT, offset: 0 })
+  const loadPlayers = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const page = await apiCall(apiEndpoints.players.page({ limit: PLAYERS_PAGE_LIMIT, offset: 0 }, ROSTER_QUERY), undefined, { signal })
     if (isCancelled()) return
     setPlayers(page.items)
     setPlayersPagination(page.pagination)
-  }, [playersListPath])
+  }, [])
 
   const { loading, error } = useAsyncLoader(loadPlayers)
   const canLoadMorePlayers = useMemo(() => canLoadMore(playersPagination), [playersPagination])
@@ -244,8 +247,7 @@ export default function PlayersPage() {
     const offset = nextOffset(playersPagination)
     setLoadingMorePlayers(true)
     try {
-      const raw = await apiGet<unknown>(withPagination(playersListPath, { limit: PLAYERS_PAGE_LIMIT, offset }))
-      const page = normalizePaginatedResponse<Player>(raw, { limit: PLAYERS_PAGE_LIMIT, offset })
+      const page = await apiCall(apiEndpoints.players.page({ limit: PLAYERS_PAGE_LIMIT, offset }, ROSTER_QUERY))
       setPlayers((prev) => mergeById(prev, page.items))
       setPlayersPagination(page.pagination)
     } catch (err: unknown) {
@@ -255,12 +257,22 @@ export default function PlayersPage() {
     }
   }
 
-  const filtered = useMemo(() => {
-    let items = requiresSelection && !selectedTeamId
+  const teamPlayers = useMemo(() => (
+    requiresSelection && !selectedTeamId
       ? []
       : selectedTeamId
         ? players.filter((p) => !p.teamId || p.teamId === selectedTeamId)
         : players
+  ), [players, requiresSelection, selectedTeamId])
+  const unavailableThisWeek = useMemo(() => listUnavailableThisWeek(teamPlayers), [teamPlayers])
+  const unavailableLabelById = useMemo(
+    () => new Map(unavailableThisWeek.map((row) => [row.player.id, formatAvailabilityIssues(row)] as const)),
+    [unavailableThisWeek],
+  )
+  const expiringCertificates = useMemo(() => listExpiringCertificates(teamPlayers), [teamPlayers])
+
+  const filtered = useMemo(() => {
+    let items = teamPlayers
     if (q.trim()) {
       const needle = q.toLowerCase()
       items = items.filter((p) => getPlayerDisplayName(p).toLowerCase().includes(needle))
@@ -275,8 +287,11 @@ export default function PlayersPage() {
         items = items.filter((p) => p.primary_position === posFilter)
       }
     }
+    if (incompleteFilesOnly) {
+      items = items.filter((p) => listIncompleteDocuments(p).length > 0)
+    }
     return items
-  }, [players, q, posFilter, requiresSelection, selectedTeamId])
+  }, [teamPlayers, q, posFilter, incompleteFilesOnly])
 
   const sortedPlayers = useMemo(() => {
     const sorted = [...filtered].sort((a, b) => {
@@ -292,7 +307,7 @@ export default function PlayersPage() {
     return sorted
   }, [filtered, sortDir, sortKey])
 
-  const hasActiveFilters = Boolean(q.trim() || posFilter)
+  const hasActiveFilters = Boolean(q.trim() || posFilter || incompleteFilesOnly)
   const activePlayers = useMemo(
     () => sortedPlayers.filter(isPlayerActive),
     [sortedPlayers],
@@ -451,6 +466,34 @@ export default function PlayersPage() {
     }
   }
 
+  // The list is paginated: duplicate detection needs the whole roster, former players included.
+  function openImport() {
+    setImportRoster(null)
+    setImportOpen(true)
+    apiGetAllItems(apiEndpoints.players.list(ROSTER_QUERY))
+      .then(setImportRoster)
+      .catch((err: unknown) => {
+        setImportOpen(false)
+        uiAlert(`Erreur chargement joueurs: ${toErrorMessage(err)}`)
+      })
+  }
+
+  async function importPlayers(items: RosterImportItem[], onImported: (item: RosterImportItem) => void) {
+    try {
+      for (const item of items) {
+        if (item.playerId) await apiPut<Player>(apiRoutes.players.byId(item.playerId), item.payload)
+        else await apiPost<Player>(apiRoutes.players.list, item.payload)
+        onImported(item)
+      }
+    } finally {
+      // Also after a failure midway: the list and the duplicate check must see the players already saved.
+      await Promise.all([
+        loadPlayers({ isCancelled: () => false }).catch(() => undefined),
+        apiGetAllItems(apiEndpoints.players.list(ROSTER_QUERY)).then(setImportRoster).catch(() => undefined),
+      ])
+    }
+  }
+
   async function updatePlayerRosterStatus(player: Player, nextIsActive: boolean) {
     if (!teamScopedWritable) return
     const playerName = getPlayerDisplayName(player)
@@ -469,6 +512,7 @@ export default function PlayersPage() {
   function resetFilters() {
     setQ('')
     setPosFilter('')
+    setIncompleteFilesOnly(false)
   }
 
   function toggleSort(nextKey: SortKey) {
@@ -620,8 +664,44 @@ export default function PlayersPage() {
                 {formatPositionLabel(position)}
               </button>
             ))}
+            <button
+              type="button"
+              aria-pressed={incompleteFilesOnly}
+              className={`players-filter-btn ${incompleteFilesOnly ? 'is-active' : ''}`}
+              onClick={() => setIncompleteFilesOnly((prev) => !prev)}
+            >
+              Dossiers incomplets
+            </button>
           </div>
 
+          {writable && (unavailableThisWeek.length > 0 || expiringCertificates.length > 0) && (
+            <section className="players-panel players-panel--effectif players-availability-panel">
+              <div className="players-meta-row">
+                <p className="panel-note">Indisponibles cette semaine · {formatPlayersCount(unavailableThisWeek.length)}</p>
+              </div>
+              {unavailableThisWeek.length > 0 && (
+                <ul className="players-availability-list">
+                  {unavailableThisWeek.map((row) => (
+                    <li key={row.player.id}>
+                      <button type="button" onClick={() => navigate(`/effectif/${encodeURIComponent(row.player.id)}`)}>
+                        {getPlayerDisplayName(row.player)}
+                      </button>
+                      <span>{formatAvailabilityIssues(row)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {expiringCertificates.length > 0 && (
+                <p className="players-availability-note">
+                  Certificats médicaux à renouveler:{' '}
+                  {expiringCertificates
+                    .map((player) => `${getPlayerDisplayName(player)} (${formatAvailabilityDay(player.medicalCertificateExpiresAt)})`)
+                    .join(', ')}
+                </p>
+              )}
+            </section>
+          )}
+
           <section className="players-panel players-panel--effectif">
             <div className="players-meta-row">
               <p className="panel-note">{inactivePlayers.length > 0 ? `${activePlayersCountLabel} dans l'effectif` : playersCountLabel}</p>
@@ -631,6 +711,11 @@ export default function PlayersPage() {
                     Reinitialiser les filtres
                   </button>
                 )}
+                {teamScopedWritable && (
+                  <button type="button" className="players-secondary-btn" onClick={openImport}>
+                    Importer
+                  </button>
+                )}
                 {(loading || loadingMorePlayers) && <div className="players-loading">Chargement...</div>}
               </div>
             </div>
@@ -668,6 +753,14 @@ export default function PlayersPage() {
                         <div className="players-name-cell">
                           <PlayerAvatar player={player} />
                           <span>{getPlayerDisplayName(player)}</span>
+                          {unavailableLabelById.has(player.id) && (
+                            <span className="players-unavailable-tag" title={unavailableLabelById.get(player.id)}>Indisponible</span>
+                          )}
+                          {incompleteFilesOnly && (
+                            <span className="players-missing-documents">
+                              {listIncompleteDocuments(player).map((row) => row.label).join(', ')}
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="players-row-actions">
@@ -969,6 +1062,18 @@ export default function PlayersPage() {
       {activeTab === 'EFFECTIF' && teamScopedWritable && (
         <FloatingPlusButton ariaLabel="Ajouter un joueur" onClick={() => setModalOpen(true)} />
       )}
+
+      {teamScopedWritable && importOpen && (
+        <RosterImportModal
+          existingPlayers={importRoster}
+          positions={POSITIONS}
+          undefinedPosition={POSITION_UNDEFINED}
+          teamId={selectedTeamId}
+          formatPosition={formatPositionLabel}
+          onImport={importPlayers}
+          onClose={() => setImportOpen(false)}
+        />
+      )}
     </div>
   )
 }
@@ -1,15 +1,23 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useParams } from 'react-router-dom'
 import QRCode from 'qrcode'
-import { apiGet } from '../apiClient'
-import { normalizeMatchdayPayload } from '../adapters/matchday'
-import { apiRoutes } from '../apiRoutes'
+import { apiCall } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { PlateauInfoSection, PlateauPageHeader, PlateauRotationContent } from '../components/PlateauSharedSections'
 import { WarningIcon } from '../components/icons'
+import TournamentBracket, { TournamentStandingsTable } from '../components/TournamentBracket'
 import { formatMatchdayLocationLabel, getMatchdayMapQuery } from '../features/matchdayLocation'
+import {
+  createScoreboardPoller,
+  findCurrentSlotIndex,
+  formatLastUpdated,
+  isSameLocalDay,
+} from '../features/publicScoreboard'
 import { linkRotationSlotsToMatches } from '../features/rotationLinking'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
-import { isMatchCancelled } from '../matchStatus'
+import { hasStandingResults, resolveTournament, tournamentGameKey, type TournamentGameMeta } from '../features/tournament'
+import { toErrorMessage } from '../errors'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
+import { isMatchCancelled, isMatchNotPlayed } from '../matchStatus'
 import type { MatchLite, Matchday } from '../types/api'
 import './TrainingDetailsPage.css'
 
@@ -17,7 +25,7 @@ type RotationGame = {
   pitch: string | number
   A: string
   B: string
-}
+} & TournamentGameMeta
 
 type RotationSlot = {
   time: string
@@ -37,6 +45,9 @@ type PublicPlateauResponse = {
     updatedAt: string
     teams?: RotationTeam[]
     slots: RotationSlot[]
+    tournamentFormat?: 'ELIMINATION' | 'CHAMPIONNAT'
+    qualifiersPerPool?: number
+    knockoutWinners?: Record<string, string>
   } | null
 }
 
@@ -58,18 +69,70 @@ export default function PublicPlateauPage() {
   const [shareCopied, setShareCopied] = useState(false)
   const [shareQrDataUrl, setShareQrDataUrl] = useState('')
   const [shareQrLoading, setShareQrLoading] = useState(false)
+  const [liveEnabled, setLiveEnabled] = useState(true)
+  const [liveError, setLiveError] = useState<string | null>(null)
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  const fetchPublicPlateau = useCallback(async (signal?: AbortSignal) => {
+    if (!token) return null
+    return apiCall(apiEndpoints.public.matchdayByToken<PublicPlateauResponse>(token), undefined, { signal })
+  }, [token])
 
-  const loadPublicPlateau = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    if (!token) return
-    const data = normalizeMatchdayPayload<PublicPlateauResponse>(await apiGet(apiRoutes.public.matchdayByToken(token)))
-    if (isCancelled()) return
+  const applyPublicPlateau = useCallback((data: PublicPlateauResponse, updatedAt: number) => {
     setMatchday(data.matchday)
     setMatches(data.matches || [])
     setRotation(data.rotation)
-  }, [token])
+    setLastUpdatedAt(updatedAt)
+  }, [])
+
+  const loadPublicPlateau = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const data = await fetchPublicPlateau(signal)
+    if (!data || isCancelled()) return
+    applyPublicPlateau(data, Date.now())
+  }, [applyPublicPlateau, fetchPublicPlateau])
 
   const { loading, error } = useAsyncLoader(loadPublicPlateau)
 
+  // Live mode only makes sense on the matchday itself: scores and slot progress are polled while the
+  // page is visible, and refreshed as soon as it comes back to the foreground.
+  const isMatchdayToday = isSameLocalDay(matchday?.date, new Date(now))
+  const isLive = isMatchdayToday && liveEnabled
+
+  useEffect(() => {
+    if (!matchday) return
+    const timerId = window.setInterval(() => setNow(Date.now()), 15000)
+    return () => window.clearInterval(timerId)
+  }, [matchday])
+
+  useEffect(() => {
+    if (!isLive) return
+    const poller = createScoreboardPoller({
+      load: fetchPublicPlateau,
+      onUpdate: (data, updatedAt) => {
+        if (data) applyPublicPlateau(data, updatedAt)
+        setLiveError(null)
+      },
+      onError: (err, retryInMs) => {
+        setLiveError(`${toErrorMessage(err)} · nouvel essai dans ${Math.round(retryInMs / 1000)} s`)
+      },
+    })
+    function onVisibilityChange() {
+      if (document.visibilityState === 'visible') {
+        poller.start()
+        poller.refreshNow()
+      } else {
+        poller.stop()
+      }
+    }
+    if (document.visibilityState === 'visible') poller.start()
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      poller.stop()
+    }
+  }, [applyPublicPlateau, fetchPublicPlateau, isLive])
+
   const dateLabel = useMemo(() => {
     if (!matchday?.date) return ''
     return new Date(matchday.date).toLocaleDateString('fr-FR', {
@@ -170,6 +233,32 @@ export default function PublicPlateauPage() {
     if (typeof window === 'undefined') return ''
     return `${window.location.origin}/matchday/public/${encodeURIComponent(token)}`
   }, [token])
+  const isTournament = normalizedCompetitionType === 'TOURNOI'
+  // Plateaux are scored like a single championship pool, which gives the running standings per team.
+  const scoreboard = useMemo(() => {
+    if (!rotation?.slots?.length) return null
+    return resolveTournament({
+      slots: rotation.slots,
+      matches,
+      format: isTournament ? rotation.tournamentFormat : 'CHAMPIONNAT',
+      knockoutWinners: rotation.knockoutWinners,
+      isCountable: (match) => !isMatchNotPlayed(match, { referenceDate: matchday?.date ?? null }),
+    })
+  }, [isTournament, matchday?.date, matches, rotation])
+  const scoreboardGamesByDisplayKey = useMemo(() => {
+    const byKey = new Map<string, { A: string; B: string; score: { scoreA: number; scoreB: number } | null }>()
+    if (!scoreboard || !rotation?.slots?.length) return byKey
+    rotation.slots.forEach((slot, slotIndex) => slot.games.forEach((game, gameIndex) => {
+      const resolved = scoreboard.resolvedGames.get(tournamentGameKey(slotIndex, gameIndex))
+      if (resolved) byKey.set(`${slot.time}-${game.pitch}-${game.A}-${game.B}`, resolved)
+    }))
+    return byKey
+  }, [rotation?.slots, scoreboard])
+  const currentSlotTime = useMemo(() => {
+    if (!rotation?.slots?.length) return null
+    const index = findCurrentSlotIndex(rotation.slots, { date: matchday?.date, now: new Date(now) })
+    return index == null ? null : rotation.slots[index].time
+  }, [matchday?.date, now, rotation?.slots])
   const rotationDisplaySlots = useMemo(() => (
     (() => {
       const linked = linkRotationSlotsToMatches({
@@ -181,18 +270,36 @@ export default function PublicPlateauPage() {
       return linked.slots.map((slot) => ({
       key: slot.time,
       time: slot.time,
-      games: slot.games.map((game) => ({
-        key: `${slot.time}-${game.pitch}-${game.A}-${game.B}`,
-        pitch: game.pitch,
-        teamA: game.A,
-        teamB: game.B,
-        teamAColor: teamColorMap.get(game.A) ?? TEAM_COLORS[0],
-        teamBColor: teamColorMap.get(game.B) ?? TEAM_COLORS[1],
-        isCancelled: absentTeamLabels.has(game.A) || absentTeamLabels.has(game.B) || (game.linkedMatch ? isMatchCancelled(game.linkedMatch) : false),
-      })),
+      isCurrent: slot.time === currentSlotTime,
+      games: slot.games.map((game) => {
+        const key = `${slot.time}-${game.pitch}-${game.A}-${game.B}`
+        const tournamentGame = scoreboardGamesByDisplayKey.get(key)
+        const isCancelled = absentTeamLabels.has(game.A) || absentTeamLabels.has(game.B) || (game.linkedMatch ? isMatchCancelled(game.linkedMatch) : false)
+        return {
+          key,
+          pitch: game.pitch,
+          teamA: tournamentGame?.A ?? game.A,
+          teamB: tournamentGame?.B ?? game.B,
+          teamAColor: teamColorMap.get(tournamentGame?.A ?? game.A) ?? TEAM_COLORS[0],
+          teamBColor: teamColorMap.get(tournamentGame?.B ?? game.B) ?? TEAM_COLORS[1],
+          scoreLabel: tournamentGame?.score && !isCancelled ? `${tournamentGame.score.scoreA} - ${tournamentGame.score.scoreB}` : null,
+          isCancelled,
+        }
+      }),
     }))
     })()
-  ), [absentTeamLabels, matches, teamColorMap, visibleSlots])
+  ), [absentTeamLabels, currentSlotTime, matches, scoreboardGamesByDisplayKey, teamColorMap, visibleSlots])
+  const standings = useMemo(() => {
+    if (!scoreboard) return []
+    if (isTournament && rotation?.tournamentFormat !== 'CHAMPIONNAT') return []
+    const rows = scoreboard.pools[0]?.standings ?? []
+    // A plateau without any entered score has nothing to rank yet.
+    return isTournament || hasStandingResults(rows) ? rows : []
+  }, [isTournament, rotation?.tournamentFormat, scoreboard])
+  const tournamentResolution = isTournament ? scoreboard : null
+  const hasTournamentBracket = Boolean(
+    tournamentResolution && (tournamentResolution.rounds.length > 0 || tournamentResolution.pools.some((pool) => pool.pool))
+  )
   const absentTeamsCount = absentTeamLabels.size
 
   useEffect(() => {
@@ -281,6 +388,18 @@ export default function PublicPlateauPage() {
             <div className="card-head">
               <h3>Organiser</h3>
             </div>
+            {isMatchdayToday && (
+              <div className={`public-scoreboard-status ${isLive ? 'is-live' : ''}`} aria-live="polite">
+                <span>
+                  {isLive ? 'En direct · ' : ''}
+                  {formatLastUpdated(lastUpdatedAt, now)}
+                  {liveError ? ` · ${liveError}` : ''}
+                </span>
+                <button type="button" onClick={() => setLiveEnabled((prev) => !prev)}>
+                  {liveEnabled ? 'Mettre le direct en pause' : 'Reprendre le direct'}
+                </button>
+              </div>
+            )}
             {rotation ? (
               <PlateauRotationContent
                 updatedAtLabel={`Mise à jour le ${new Date(rotation.updatedAt).toLocaleString()}`}
@@ -296,6 +415,29 @@ export default function PublicPlateauPage() {
               </div>
             )}
           </section>
+
+          {standings.length > 0 && (
+            <section className="details-card">
+              <div className="card-head">
+                <h3>{isTournament ? 'Classement' : 'Classement provisoire'}</h3>
+              </div>
+              {!isTournament && <p className="muted-line">Calculé à partir des scores saisis par les équipes.</p>}
+              {hasStandingResults(standings) ? (
+                <TournamentStandingsTable rows={standings} />
+              ) : (
+                <div className="matches-empty-state">Aucun match joué pour le moment.</div>
+              )}
+            </section>
+          )}
+
+          {hasTournamentBracket && tournamentResolution && (
+            <section className="details-card">
+              <div className="card-head">
+                <h3>{tournamentResolution.rounds.length > 0 ? 'Tableau final' : 'Poules'}</h3>
+              </div>
+              <TournamentBracket resolution={tournamentResolution} qualifiedPerPool={rotation?.qualifiersPerPool ?? 0} />
+            </section>
+          )}
         </>
       )}
 
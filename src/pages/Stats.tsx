@@ -1,23 +1,40 @@
 
 
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useMemo, useRef, useState } from 'react'
 import { apiGetAllItems, appendQueryParams } from '../adapters/pagination'
 import { apiRoutes } from '../apiRoutes'
-import { apiGet } from '../apiClient'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
-import { isMatchNotPlayed } from '../matchStatus'
-import type { AttendanceRow, ClubMe, MatchLite, Matchday, Player, Season } from '../types/api'
+import { apiCall } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
+import {
+  defaultComparisonSeasonId,
+  selectPlayedMatches,
+  sortSeasons,
+  summarizeSeason,
+  type SeasonDataset,
+  type SeriesPoint,
+  type StatsViewMode,
+} from '../features/seasonStats'
+import { formatAbsenceReasonCounts } from '../features/absenceReasons'
+import {
+  buildAttendanceReport,
+  buildTeamMonthlyAttendanceRates,
+  listAttendanceSessions,
+  readAbsenceStreakAlert,
+  writeAbsenceStreakAlert,
+  type PlayerAttendanceRow,
+} from '../features/attendanceAnalytics'
+import { buildPlayingTimeReport, readMinPlayingShare, writeMinPlayingShare } from '../features/playingTime'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
+import { useLiveMatchStates } from '../hooks/useLiveMatchStates'
+import type { AttendanceRow, MatchLite, Matchday, Player, Season, Training } from '../types/api'
 
 // ---- Helpers ----
-function sortByDateAsc<T extends { createdAt: string }>(arr: T[]) { return arr.slice().sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()) }
-
-type SeriesPoint = { x: number; y: number }
-function buildLinePath(points: SeriesPoint[], w: number, h: number, pad = 24) {
+function buildLinePath(points: SeriesPoint[], w: number, h: number, pad = 24, bounds?: { minX: number; maxX: number; maxY: number }) {
   if (!points.length) return ''
   const xs = points.map(p => p.x), ys = points.map(p => p.y)
-  const minX = Math.min(...xs), maxX = Math.max(...xs)
+  const minX = bounds?.minX ?? Math.min(...xs), maxX = bounds?.maxX ?? Math.max(...xs)
   const minY = 0
-  const maxY = Math.max(...ys, 1)
+  const maxY = bounds?.maxY ?? Math.max(...ys, 1)
   const spanX = Math.max(1, maxX - minX)
   const spanY = Math.max(1e-9, maxY - minY)
   const sx = (x: number) => pad + ((x - minX) / spanX) * (w - 2 * pad)
@@ -28,197 +45,163 @@ function buildLinePath(points: SeriesPoint[], w: number, h: number, pad = 24) {
 }
 
 function prettyAvg(v: number) { return (Math.round(v * 100) / 100).toFixed(2) }
-function getVisiblePlayerName(name?: string | null) {
-  return typeof name === 'string' && name.trim() ? name.trim() : 'Joueur inconnu'
+function prettyRate(v: number | null) { return v == null ? '–' : `${Math.round(v * 100)} %` }
+function formatMonth(month: string) {
+  return new Date(`${month}-01T12:00:00`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' })
+}
+function formatSeasonRange(season: Season) {
+  return `${new Date(season.startDate).toLocaleDateString('fr-FR')} - ${new Date(season.endDate).toLocaleDateString('fr-FR')}`
+}
+
+const EMPTY_DATASET: SeasonDataset = { matches: [], matchdays: [], trainings: [], attendance: [] }
+
+async function fetchSeasonDataset(seasonId: string | null): Promise<SeasonDataset> {
+  const withSeason = (path: string) => seasonId ? appendQueryParams(path, { seasonId }) : path
+  const [matches, matchdays, trainings, attendance] = await Promise.all([
+    apiGetAllItems<MatchLite>(withSeason(apiRoutes.matches.list)),
+    apiGetAllItems<Matchday>(withSeason(apiRoutes.matchday.list)),
+    apiGetAllItems<Training>(withSeason(apiRoutes.trainings.list)),
+    apiGetAllItems<AttendanceRow>(withSeason(apiRoutes.attendance.list)),
+  ])
+  return { matches, matchdays, trainings, attendance }
 }
 
 export default function StatsPage() {
-  const [matches, setMatches] = useState<MatchLite[]>([])
   const [players, setPlayers] = useState<Player[]>([])
-  const [matchdays, setMatchdays] = useState<Matchday[]>([])
-  const [attendance, setAttendance] = useState<AttendanceRow[]>([])
-  const [season, setSeason] = useState<Season | null>(null)
-  const [viewMode, setViewMode] = useState<'match' | 'plateau'>('match')
-  const [rankTab, setRankTab] = useState<'buteurs' | 'entrainements' | 'plateaux'>('buteurs')
-
-  const loadStats = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    const clubData = await apiGet<ClubMe>(apiRoutes.clubs.me).catch(() => null)
-    const currentSeasonId = clubData?.currentSeason?.id ?? null
-    const withSeason = (path: string) => currentSeasonId ? appendQueryParams(path, { seasonId: currentSeasonId }) : path
-    const [rows, plist, plats, attends] = await Promise.all([
-      apiGetAllItems<MatchLite>(withSeason(apiRoutes.matches.list)),
-      apiGetAllItems<Player>(appendQueryParams(apiRoutes.players.list, { rosterStatus: 'all' })),
-      apiGetAllItems<Matchday>(withSeason(apiRoutes.matchday.list)),
-      apiGetAllItems<AttendanceRow>(withSeason(apiRoutes.attendance.list)),
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const [seasonsReady, setSeasonsReady] = useState(false)
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null)
+  const [currentSeasonId, setCurrentSeasonId] = useState<string | null>(null)
+  const [compareSeasonId, setCompareSeasonId] = useState<string | null>(null)
+  const [dataset, setDataset] = useState<SeasonDataset>(EMPTY_DATASET)
+  const [compareDataset, setCompareDataset] = useState<SeasonDataset | null>(null)
+  const [viewMode, setViewMode] = useState<StatsViewMode>('match')
+  const [rankTab, setRankTab] = useState<'buteurs' | 'entrainements' | 'plateaux' | 'tempsDeJeu'>('buteurs')
+  const [minPlayingShare, setMinPlayingShare] = useState(() => readMinPlayingShare())
+  const [absenceStreakAlert, setAbsenceStreakAlert] = useState(() => readAbsenceStreakAlert())
+  // Past seasons never change during a visit: keep them to switch the comparison back and forth for free.
+  // The current season (and the no-season view, which includes it) is fetched again each time.
+  const datasetCacheRef = useRef(new Map<string, SeasonDataset>())
+
+  const loadSeasons = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const [clubData, seasonList, plist] = await Promise.all([
+      apiCall(apiEndpoints.clubs.me(), undefined, { signal }).catch(() => null),
+      apiCall(apiEndpoints.clubs.seasons(), undefined, { signal }).catch((): Season[] => []),
+      apiGetAllItems(apiEndpoints.players.list({ rosterStatus: 'all' }), { signal }),
     ])
     if (isCancelled()) return
-    setMatches(rows)
+    const currentSeason = clubData?.currentSeason ?? null
+    const ordered = sortSeasons(currentSeason && !seasonList.some((s) => s.id === currentSeason.id) ? [...seasonList, currentSeason] : seasonList)
     setPlayers(plist)
-    setMatchdays(plats)
-    setAttendance(attends)
-    setSeason(clubData?.currentSeason ?? null)
+    setSeasons(ordered)
+    setCurrentSeasonId(currentSeason?.id ?? null)
+    setSelectedSeasonId(currentSeason?.id ?? ordered[0]?.id ?? null)
+    setSeasonsReady(true)
   }, [])
 
-  const { loading, error } = useAsyncLoader(loadStats)
-
-  const ordered = useMemo(() => sortByDateAsc(matches), [matches])
-  const plateauDateById = useMemo(() => new Map(matchdays.map((p) => [p.id, p.date] as const)), [matchdays])
-  const playedMatches = useMemo(
-    () => ordered.filter((m) => !isMatchNotPlayed(m, { referenceDate: m.matchdayId ? (plateauDateById.get(m.matchdayId) ?? null) : null })),
-    [ordered, plateauDateById]
+  const loadSelection = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
+    if (!seasonsReady) return
+    const cache = datasetCacheRef.current
+    const load = async (seasonId: string | null) => {
+      const cacheable = seasonId !== null && seasonId !== currentSeasonId
+      const cached = cacheable ? cache.get(seasonId) : undefined
+      if (cached) return cached
+      const next = await fetchSeasonDataset(seasonId)
+      if (cacheable) cache.set(seasonId, next)
+      return next
+    }
+    const [primary, compared] = await Promise.all([
+      load(selectedSeasonId),
+      compareSeasonId ? load(compareSeasonId) : Promise.resolve(null),
+    ])
+    if (isCancelled()) return
+    setDataset(primary)
+    setCompareDataset(compared)
+  }, [compareSeasonId, currentSeasonId, seasonsReady, selectedSeasonId])
+
+  const seasonsLoader = useAsyncLoader(loadSeasons)
+  const selectionLoader = useAsyncLoader(loadSelection)
+  const loading = seasonsLoader.loading || selectionLoader.loading
+  const error = seasonsLoader.error || selectionLoader.error
+
+  const season = useMemo(() => seasons.find((s) => s.id === selectedSeasonId) ?? null, [seasons, selectedSeasonId])
+  const compareSeason = useMemo(() => seasons.find((s) => s.id === compareSeasonId) ?? null, [seasons, compareSeasonId])
+  const summary = useMemo(() => summarizeSeason(dataset, players, viewMode), [dataset, players, viewMode])
+  const compareSummary = useMemo(
+    () => (compareDataset && compareSeason ? summarizeSeason(compareDataset, players, viewMode) : null),
+    [compareDataset, compareSeason, players, viewMode]
+  )
+  const { playedMatches, plateauGroups, wins, draws, losses, totalFor, totalAgainst, avgForSeries, avgAgainstSeries } = summary
+  const scorerTable = summary.scorers
+  const lastAvgFor = avgForSeries.length ? avgForSeries[avgForSeries.length - 1].y : 0
+  const lastAvgAgainst = avgAgainstSeries.length ? avgAgainstSeries[avgAgainstSeries.length - 1].y : 0
+  const compareLabel = compareSeason?.label ?? ''
+  const compareLast = (series: SeriesPoint[] | undefined) => (series && series.length ? series[series.length - 1].y : 0)
+
+  const playedMatchIds = useMemo(
+    () => selectPlayedMatches(dataset.matches, dataset.matchdays).map((match) => match.id),
+    [dataset],
+  )
+  const liveStates = useLiveMatchStates(playedMatchIds)
+  const playingTimeRows = useMemo(() => buildPlayingTimeReport({
+    ...dataset,
+    players,
+    liveStates,
+    minShare: minPlayingShare,
+  }), [dataset, liveStates, minPlayingShare, players])
+  const playingTimeAlerts = playingTimeRows.filter((row) => row.belowThreshold)
+
+  function handleMinPlayingShareChange(percent: number) {
+    if (!Number.isFinite(percent)) return
+    const next = Math.max(0, Math.min(100, percent)) / 100
+    setMinPlayingShare(next)
+    writeMinPlayingShare(next)
+  }
+
+  const compareGoalsByPlayerId = useMemo(
+    () => new Map((compareSummary?.scorers ?? []).map((r) => [r.playerId, r.goals] as const)),
+    [compareSummary]
   )
 
-  // Group matches by plateau (only type PLATEAU) and order groups by earliest createdAt, with plateau label
-  const plateauGroups = useMemo(() => {
-    const plateauById = new Map(matchdays.map(p => [p.id, p]))
-    const byId = new Map<string, { id: string; createdAt: number; matches: MatchLite[]; label: string }>()
-    for (const m of playedMatches) {
-      if (m.type !== 'PLATEAU') continue
-      const pid = m.matchdayId ?? undefined
-      const key = pid || `__no_plateau__:${m.id}`
-      const label = pid ? (plateauById.get(pid)?.lieu || 'Plateau') : 'Plateau'
-      const rec = byId.get(key) || { id: key, createdAt: new Date(m.createdAt).getTime(), matches: [], label }
-      rec.matches.push(m)
-      if (!byId.has(key)) byId.set(key, rec)
-      rec.createdAt = Math.min(rec.createdAt, new Date(m.createdAt).getTime())
-    }
-    return Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt)
-  }, [playedMatches, matchdays])
   const plateauBands = useMemo(() => {
     const palette = ['#fef3c7', '#e0f2fe', '#e9d5ff', '#dcfce7', '#ffe4e6']
     return plateauGroups.map((g, i) => ({ index: i + 1, label: g.label, color: palette[i % palette.length] }))
   }, [plateauGroups])
 
-  // KPIs computed per match (home = nous)
-  const { wins, draws, losses } = useMemo(() => {
-    let w = 0, d = 0, l = 0
-    playedMatches.forEach((m) => {
-      const home = m.teams.find(t => t.side === 'home')
-      const away = m.teams.find(t => t.side === 'away')
-      const gf = home?.score ?? 0
-      const ga = away?.score ?? 0
-      if (gf > ga) w++; else if (gf === ga) d++; else l++
-    })
-    return { wins: w, draws: d, losses: l }
-  }, [playedMatches])
-
-  // Total goals scored and conceded (home = nous)
-  const { totalFor, totalAgainst } = useMemo(() => {
-    let totalFor = 0, totalAgainst = 0
-    playedMatches.forEach((m) => {
-      const home = m.teams.find(t => t.side === 'home')
-      const away = m.teams.find(t => t.side === 'away')
-      totalFor += home?.score ?? 0
-      totalAgainst += away?.score ?? 0
-    })
-    return { totalFor, totalAgainst }
-  }, [playedMatches])
-
-  // Build series for charts, switchable per match / per plateau
-  const { avgForSeries, avgAgainstSeries, lastAvgFor, lastAvgAgainst } = useMemo(() => {
-    // per-match cumulative averages
-    const pm_for: { x: number; y: number }[] = []
-    const pm_against: { x: number; y: number }[] = []
-    let sumFor = 0, sumAgainst = 0
-    playedMatches.forEach((m, i) => {
-      const gf = m.teams.find(t => t.side === 'home')?.score ?? 0
-      const ga = m.teams.find(t => t.side === 'away')?.score ?? 0
-      sumFor += gf; sumAgainst += ga
-      const idx = i + 1
-      pm_for.push({ x: idx, y: sumFor / idx })
-      pm_against.push({ x: idx, y: sumAgainst / idx })
-    })
-
-    // per-plateau: average goals per plateau, then cumulative average across plateaus
-    const pp_for: { x: number; y: number }[] = []
-    const pp_against: { x: number; y: number }[] = []
-    let psFor = 0, psAgainst = 0
-    plateauGroups.forEach((g, i) => {
-      if (g.matches.length === 0) return
-      let gfSum = 0, gaSum = 0
-      for (const m of g.matches) {
-        gfSum += m.teams.find(t => t.side === 'home')?.score ?? 0
-        gaSum += m.teams.find(t => t.side === 'away')?.score ?? 0
-      }
-      const gfAvg = gfSum / g.matches.length
-      const gaAvg = gaSum / g.matches.length
-      psFor += gfAvg; psAgainst += gaAvg
-      const idx = i + 1
-      pp_for.push({ x: idx, y: psFor / idx })
-      pp_against.push({ x: idx, y: psAgainst / idx })
-    })
-
-    const usePlateau = viewMode === 'plateau'
-    const F = usePlateau ? pp_for : pm_for
-    const A = usePlateau ? pp_against : pm_against
-    return {
-      avgForSeries: F,
-      avgAgainstSeries: A,
-      lastAvgFor: F.length ? F[F.length - 1].y : 0,
-      lastAvgAgainst: A.length ? A[A.length - 1].y : 0
-    }
-  }, [playedMatches, plateauGroups, viewMode])
-
-  const scorerTable = useMemo(() => {
-    // Map playerId -> goals (we count only 'home' side as notre équipe)
-    const tally = new Map<string, number>()
-    const scorerNameById = new Map<string, string>()
-    for (const m of playedMatches) {
-      const list = m.scorers || []
-      for (const s of list) {
-        if (s.side !== 'home') continue
-        tally.set(s.playerId, (tally.get(s.playerId) || 0) + 1)
-        if (!scorerNameById.has(s.playerId) && typeof s.playerName === 'string' && s.playerName.trim()) {
-          scorerNameById.set(s.playerId, s.playerName.trim())
-        }
-      }
+  function handleSeasonChange(nextId: string) {
+    setSelectedSeasonId(nextId)
+    if (compareSeasonId === nextId) setCompareSeasonId(defaultComparisonSeasonId(seasons, nextId))
+  }
+
+  function handleCompareToggle() {
+    if (compareSeasonId) {
+      setCompareSeasonId(null)
+      return
     }
-    // Join with player names
-    const nameById = new Map(players.map(p => [p.id, p.name] as const))
-    const rows = Array.from(tally.entries()).map(([playerId, goals]) => ({
-      playerId,
-      name: getVisiblePlayerName(nameById.get(playerId) || scorerNameById.get(playerId)),
-      goals
-    }))
-    rows.sort((a, b) => b.goals - a.goals || a.name.localeCompare(b.name))
-    return rows
-  }, [playedMatches, players])
-
-  // Attendance presence rankings
-  const { trainingPresence, plateauPresence } = useMemo(() => {
-    const nameById = new Map(players.map(p => [p.id, p.name] as const))
-
-    // Initialize everyone to 0 so players with zero are included
-    const tCount = new Map<string, number>()
-    const pCount = new Map<string, number>()
-    for (const p of players) { tCount.set(p.id, 0); pCount.set(p.id, 0) }
-
-    for (const a of attendance) {
-      if (a.present !== true) continue
-      if (a.session_type === 'TRAINING') {
-        tCount.set(a.playerId, (tCount.get(a.playerId) || 0) + 1)
-      } else if (a.session_type === 'PLATEAU') {
-        pCount.set(a.playerId, (pCount.get(a.playerId) || 0) + 1)
-      }
+    setCompareSeasonId(defaultComparisonSeasonId(seasons, selectedSeasonId) ?? seasons.find((s) => s.id !== selectedSeasonId)?.id ?? null)
+  }
+
+  // Attendance rankings: rate over the sessions where attendance was taken, not raw counts.
+  const { trainingPresence, plateauPresence, teamAttendanceSeries, teamAttendanceMonths } = useMemo(() => {
+    const { trainings, matchdays, attendance } = dataset
+    const sessions = listAttendanceSessions({ trainings, matchdays })
+    const monthly = buildTeamMonthlyAttendanceRates(players, sessions.filter((s) => s.type === 'TRAINING'), attendance)
+      .filter((point) => point.rate != null)
+    return {
+      trainingPresence: buildAttendanceReport(players, sessions, attendance, { sessionType: 'TRAINING', streakAlert: absenceStreakAlert }),
+      plateauPresence: buildAttendanceReport(players, sessions, attendance, { sessionType: 'PLATEAU', streakAlert: absenceStreakAlert }),
+      teamAttendanceSeries: monthly.map((point, index) => ({ x: index + 1, y: Math.round((point.rate ?? 0) * 100) })),
+      teamAttendanceMonths: monthly.map((point) => point.month),
     }
+  }, [absenceStreakAlert, dataset, players])
+  const absenceStreakAlerts = trainingPresence.filter((row) => row.streakAlert)
 
-    // Include ALL players (even 0) for both rankings
-    const trainingPresence = players.map(p => ({
-      playerId: p.id,
-      name: nameById.get(p.id) || p.id,
-      count: tCount.get(p.id) || 0
-    }))
-
-    const plateauPresence = players.map(p => ({
-      playerId: p.id,
-      name: nameById.get(p.id) || p.id,
-      count: pCount.get(p.id) || 0
-    }))
-
-    trainingPresence.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
-    plateauPresence.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
-    return { trainingPresence, plateauPresence }
-  }, [attendance, players])
+  function handleAbsenceStreakAlertChange(value: number) {
+    if (!Number.isFinite(value)) return
+    const next = Math.max(2, Math.round(value))
+    setAbsenceStreakAlert(next)
+    writeAbsenceStreakAlert(next)
+  }
 
   return (
     <div className="page-shell">
@@ -229,30 +212,73 @@ export default function StatsPage() {
         </div>
         <p className="page-subtitle">
           Vue synthétique des résultats, classements et évolutions.
-          {season ? ` Saison active: ${season.label} (${new Date(season.startDate).toLocaleDateString('fr-FR')} - ${new Date(season.endDate).toLocaleDateString('fr-FR')}).` : ''}
+          {season ? ` Saison: ${season.label} (${formatSeasonRange(season)}).` : ''}
+          {compareSeason ? ` Comparée à ${compareSeason.label} (${formatSeasonRange(compareSeason)}).` : ''}
         </p>
       </header>
 
+      {seasons.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+          <label style={{ display: 'inline-flex', gap: 6, alignItems: 'center', fontSize: 13, color: '#374151' }}>
+            Saison
+            <select value={selectedSeasonId ?? ''} onChange={(e) => handleSeasonChange(e.target.value)}>
+              {seasons.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </label>
+          {seasons.length > 1 && (
+            <button onClick={handleCompareToggle} style={{ border: '1px solid #d1d5db', borderRadius: 6, padding: '6px 10px', background: compareSeasonId ? '#e0f2fe' : '#fff' }}>
+              Comparer
+            </button>
+          )}
+          {compareSeasonId && (
+            <label style={{ display: 'inline-flex', gap: 6, alignItems: 'center', fontSize: 13, color: '#374151' }}>
+              avec
+              <select value={compareSeasonId} onChange={(e) => setCompareSeasonId(e.target.value)}>
+                {seasons.filter((s) => s.id !== selectedSeasonId).map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
       {loading && <div style={{ color: '#9ca3af' }}>Chargement…</div>}
       {error && <div className="inline-alert error">{error}</div>}
 
       {/* KPI: Buts marqués / encaissés */}
       <section className="page-metrics" style={{ gridTemplateColumns: 'repeat(2, minmax(0, 1fr))' }}>
-        <KpiCard label="Buts marqués" value={totalFor} />
-        <KpiCard label="Buts encaissés" value={totalAgainst} />
+        <KpiCard label="Buts marqués" value={totalFor} compare={compareSummary ? { value: compareSummary.totalFor, label: compareLabel } : undefined} />
+        <KpiCard label="Buts encaissés" value={totalAgainst} compare={compareSummary ? { value: compareSummary.totalAgainst, label: compareLabel } : undefined} />
       </section>
 
       <section className="page-metrics">
-        <KpiCard label="Victoires" value={wins} tone="#1d4ed8" />
-        <KpiCard label="Nuls" value={draws} tone="#6b7280" />
-        <KpiCard label="Défaites" value={losses} tone="#334155" />
+        <KpiCard label="Victoires" value={wins} tone="#1d4ed8" compare={compareSummary ? { value: compareSummary.wins, label: compareLabel } : undefined} />
+        <KpiCard label="Nuls" value={draws} tone="#6b7280" compare={compareSummary ? { value: compareSummary.draws, label: compareLabel } : undefined} />
+        <KpiCard label="Défaites" value={losses} tone="#334155" compare={compareSummary ? { value: compareSummary.losses, label: compareLabel } : undefined} />
+      </section>
+
+      <section className="page-metrics" style={{ gridTemplateColumns: 'repeat(2, minmax(0, 1fr))' }}>
+        <KpiCard
+          label="Taux de présence (Entraînements)"
+          value={prettyRate(summary.trainingAttendanceRate)}
+          compare={compareSummary ? { value: prettyRate(compareSummary.trainingAttendanceRate), label: compareLabel } : undefined}
+        />
+        <KpiCard
+          label="Taux de présence (Plateaux)"
+          value={prettyRate(summary.plateauAttendanceRate)}
+          compare={compareSummary ? { value: prettyRate(compareSummary.plateauAttendanceRate), label: compareLabel } : undefined}
+        />
       </section>
 
       {/* Classements (onglets) */}
       <div style={{ display: 'inline-flex', gap: 8, margin: '4px 0 0', flexWrap: 'wrap' }}>
         <button onClick={() => setRankTab('buteurs')} style={{ border: '1px solid #d1d5db', borderRadius: 6, padding: '6px 10px', background: rankTab === 'buteurs' ? '#e0f2fe' : '#fff' }}>Buteurs</button>
-        <button onClick={() => setRankTab('entrainements')} style={{ border: '1px solid #d1d5db', borderRadius: 6, padding: '6px 10px', background: rankTab === 'entrainements' ? '#e0f2fe' : '#fff' }}>Présences (Entraînements)</button>
+        <button onClick={() => setRankTab('entrainements')} style={{ border: '1px solid #d1d5db', borderRadius: 6, padding: '6px 10px', background: rankTab === 'entrainements' ? '#e0f2fe' : '#fff' }}>
+          Présences (Entraînements){absenceStreakAlerts.length > 0 ? ` (${absenceStreakAlerts.length} ⚠)` : ''}
+        </button>
         <button onClick={() => setRankTab('plateaux')} style={{ border: '1px solid #d1d5db', borderRadius: 6, padding: '6px 10px', background: rankTab === 'plateaux' ? '#e0f2fe' : '#fff' }}>Présences (Plateaux)</button>
+        <button onClick={() => setRankTab('tempsDeJeu')} style={{ border: '1px solid #d1d5db', borderRadius: 6, padding: '6px 10px', background: rankTab === 'tempsDeJeu' ? '#e0f2fe' : '#fff' }}>
+          Temps de jeu{playingTimeAlerts.length > 0 ? ` (${playingTimeAlerts.length} ⚠)` : ''}
+        </button>
       </div>
 
       {rankTab === 'buteurs' && (
@@ -261,6 +287,11 @@ export default function StatsPage() {
             <h3 style={{ margin: 0 }}>Classement des buteurs</h3>
             <span style={{ fontSize: 12, color: '#6b7280' }}>Notre équipe (buts côté Home)</span>
           </div>
+          {compareSummary && compareSummary.scorers.length > 0 && (
+            <div style={{ fontSize: 12, color: '#6b7280', marginTop: 6 }}>
+              Meilleurs buteurs {compareLabel}: {compareSummary.scorers.slice(0, 3).map((r) => `${r.name} (${r.goals})`).join(', ')}
+            </div>
+          )}
           {scorerTable.length === 0 ? (
             <div style={{ fontSize: 13, color: '#6b7280', marginTop: 8 }}>Pas encore de buteurs enregistrés.</div>
           ) : (
@@ -270,6 +301,9 @@ export default function StatsPage() {
                   <th style={{ textAlign: 'left', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>#</th>
                   <th style={{ textAlign: 'left', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Joueur</th>
                   <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Buts</th>
+                  {compareSummary && (
+                    <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>{compareLabel}</th>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -278,6 +312,11 @@ export default function StatsPage() {
                     <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6' }}>{i + 1}</td>
                     <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6' }}>{r.name}</td>
                     <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right', fontWeight: 700 }}>{r.goals}</td>
+                    {compareSummary && (
+                      <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right', color: '#6b7280' }}>
+                        {compareGoalsByPlayerId.get(r.playerId) ?? 0}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -288,63 +327,108 @@ export default function StatsPage() {
 
       {rankTab === 'entrainements' && (
         <section className="panel" style={{ marginBottom: 0 }}>
-          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8, flexWrap: 'wrap' }}>
             <h3 style={{ margin: 0 }}>Présences aux entraînements</h3>
-            <span style={{ fontSize: 12, color: '#6b7280' }}>Nombre de séances</span>
+            <label style={{ fontSize: 12, color: '#6b7280', display: 'inline-flex', gap: 6, alignItems: 'center' }}>
+              Alerte dès
+              <input
+                type="number"
+                min={2}
+                max={10}
+                step={1}
+                value={absenceStreakAlert}
+                onChange={(e) => handleAbsenceStreakAlertChange(Number(e.target.value))}
+                style={{ width: 48 }}
+              />
+              absences consécutives
+            </label>
           </div>
-          {trainingPresence.length === 0 ? (
-            <div style={{ fontSize: 13, color: '#6b7280', marginTop: 8 }}>Aucune présence enregistrée.</div>
-          ) : (
-            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
-              <thead>
-                <tr>
-                  <th style={{ textAlign: 'left', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>#</th>
-                  <th style={{ textAlign: 'left', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Joueur</th>
-                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Présences</th>
-                </tr>
-              </thead>
-              <tbody>
-                {trainingPresence.map((r, i) => (
-                  <tr key={`tp-${r.playerId}`}>
-                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6' }}>{i + 1}</td>
-                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6' }}>{r.name}</td>
-                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right', fontWeight: 700 }}>{r.count}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+          {absenceStreakAlerts.length > 0 && (
+            <div className="inline-alert error" style={{ marginTop: 8 }}>
+              {absenceStreakAlerts.length} joueur(s) absent(s) plusieurs fois de suite: {absenceStreakAlerts.map((row) => `${row.name} (${row.currentAbsenceStreak})`).join(', ')}
+            </div>
           )}
+          <AttendanceTable rows={trainingPresence} />
         </section>
       )}
 
+      {rankTab === 'entrainements' && (
+        <Chart
+          title={`Taux de présence de l’équipe aux entraînements par mois (%)${teamAttendanceMonths.length ? ` – ${teamAttendanceMonths.map(formatMonth).join(', ')}` : ''}`}
+          series={teamAttendanceSeries}
+        />
+      )}
+
       {rankTab === 'plateaux' && (
         <section className="panel" style={{ marginBottom: 0 }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
             <h3 style={{ margin: 0 }}>Présences aux plateaux</h3>
-            <span style={{ fontSize: 12, color: '#6b7280' }}>Nombre de plateaux</span>
+            <span style={{ fontSize: 12, color: '#6b7280' }}>Plateaux passés de l’équipe du joueur</span>
           </div>
-          {plateauPresence.length === 0 ? (
-            <div style={{ fontSize: 13, color: '#6b7280', marginTop: 8 }}>Aucune présence enregistrée.</div>
+          <AttendanceTable rows={plateauPresence} />
+        </section>
+      )}
+
+      {rankTab === 'tempsDeJeu' && (
+        <section className="panel" style={{ marginBottom: 0 }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8, flexWrap: 'wrap' }}>
+            <h3 style={{ margin: 0 }}>Équité du temps de jeu</h3>
+            <label style={{ fontSize: 12, color: '#6b7280', display: 'inline-flex', gap: 6, alignItems: 'center' }}>
+              Alerte sous
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(minPlayingShare * 100)}
+                onChange={(e) => handleMinPlayingShareChange(Number(e.target.value))}
+                style={{ width: 56 }}
+              />
+              % du temps disponible
+            </label>
+          </div>
+          {playingTimeAlerts.length > 0 && (
+            <div className="inline-alert error" style={{ marginTop: 8 }}>
+              {playingTimeAlerts.length} joueur(s) sous le seuil: {playingTimeAlerts.map((row) => row.name).join(', ')}
+            </div>
+          )}
+          {playingTimeRows.length === 0 ? (
+            <div style={{ fontSize: 13, color: '#6b7280', marginTop: 8 }}>Aucun temps de jeu enregistré.</div>
           ) : (
             <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
               <thead>
                 <tr>
-                  <th style={{ textAlign: 'left', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>#</th>
                   <th style={{ textAlign: 'left', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Joueur</th>
-                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Présences</th>
+                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Minutes</th>
+                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Part</th>
+                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Titulaire</th>
+                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Remplaçant</th>
+                  <th style={{ textAlign: 'right', fontSize: 12, color: '#6b7280', padding: '6px 4px' }}>Plateaux présents / convoqués</th>
                 </tr>
               </thead>
               <tbody>
-                {plateauPresence.map((r, i) => (
-                  <tr key={`pp-${r.playerId}`}>
-                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6' }}>{i + 1}</td>
+                {playingTimeRows.map((r) => (
+                  <tr key={`pt-${r.playerId}`} style={r.belowThreshold ? { background: '#fef2f2' } : undefined}>
                     <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6' }}>{r.name}</td>
-                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right', fontWeight: 700 }}>{r.count}</td>
+                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right' }}>
+                      {Math.round(r.minutes)}{r.estimated ? '*' : ''}
+                    </td>
+                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right', fontWeight: 700, color: r.belowThreshold ? '#b91c1c' : undefined }}>
+                      {prettyRate(r.share)}
+                    </td>
+                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right' }}>{r.starts}</td>
+                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right' }}>{r.subAppearances}</td>
+                    <td style={{ padding: '6px 4px', borderTop: '1px solid #f3f4f6', textAlign: 'right' }}>{r.matchdaysAttended}/{r.matchdaysConvened}</td>
                   </tr>
                 ))}
               </tbody>
             </table>
           )}
+          {playingTimeRows.some((r) => r.estimated) && (
+            <div style={{ fontSize: 12, color: '#6b7280', marginTop: 6 }}>
+              * Estimation d’après la composition pour les matchs non suivis en direct : les titulaires comptent pour tout le match, les remplaçants sans changement enregistré pour 0 minute.
+            </div>
+          )}
         </section>
       )}
 
@@ -357,38 +441,107 @@ export default function StatsPage() {
         <Chart
           title={`Évolution du nombre moyen de buts marqués (${viewMode === 'match' ? 'par match' : 'par plateau'} – actuel: ${prettyAvg(lastAvgFor)})`}
           series={avgForSeries}
-          bands={viewMode === 'plateau' ? plateauBands : undefined}
+          bands={viewMode === 'plateau' && !compareSummary ? plateauBands : undefined}
+          compare={compareSummary ? { label: `${compareLabel} – fin: ${prettyAvg(compareLast(compareSummary.avgForSeries))}`, series: compareSummary.avgForSeries } : undefined}
+          seriesLabel={season?.label}
         />
         <Chart
           title={`Évolution du nombre moyen de buts encaissés (${viewMode === 'match' ? 'par match' : 'par plateau'} – actuel: ${prettyAvg(lastAvgAgainst)})`}
           series={avgAgainstSeries}
-          bands={viewMode === 'plateau' ? plateauBands : undefined}
+          bands={viewMode === 'plateau' && !compareSummary ? plateauBands : undefined}
+          compare={compareSummary ? { label: `${compareLabel} – fin: ${prettyAvg(compareLast(compareSummary.avgAgainstSeries))}`, series: compareSummary.avgAgainstSeries } : undefined}
+          seriesLabel={season?.label}
         />
       </section>
     </div>
   )
 }
 
-function KpiCard({ label, value, tone }: { label: string; value: number | string; tone?: string }) {
+function AttendanceTable({ rows }: { rows: PlayerAttendanceRow[] }) {
+  const tracked = rows.filter((r) => r.sessions > 0)
+  if (tracked.length === 0) {
+    return <div style={{ fontSize: 13, color: '#6b7280', marginTop: 8 }}>Aucune présence enregistrée.</div>
+  }
+  const headStyle = { fontSize: 12, color: '#6b7280', padding: '6px 4px' }
+  const cellStyle = { padding: '6px 4px', borderTop: '1px solid #f3f4f6' }
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+      <thead>
+        <tr>
+          <th style={{ ...headStyle, textAlign: 'left' }}>#</th>
+          <th style={{ ...headStyle, textAlign: 'left' }}>Joueur</th>
+          <th style={{ ...headStyle, textAlign: 'right' }}>Taux</th>
+          <th style={{ ...headStyle, textAlign: 'right' }}>Présences</th>
+          <th style={{ ...headStyle, textAlign: 'right' }}>Excusées</th>
+          <th style={{ ...headStyle, textAlign: 'right' }}>Non excusées</th>
+          <th style={{ ...headStyle, textAlign: 'left' }}>Motifs</th>
+          <th style={{ ...headStyle, textAlign: 'right' }}>Série d’absences</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tracked.map((r, i) => (
+          <tr key={r.playerId} style={r.streakAlert ? { background: '#fef2f2' } : undefined}>
+            <td style={cellStyle}>{i + 1}</td>
+            <td style={cellStyle}>{r.name}</td>
+            <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 700 }}>{prettyRate(r.rate)}</td>
+            <td style={{ ...cellStyle, textAlign: 'right' }}>{r.present}/{r.sessions}</td>
+            <td style={{ ...cellStyle, textAlign: 'right' }}>{r.excused}</td>
+            <td style={{ ...cellStyle, textAlign: 'right' }}>{r.unexcused}</td>
+            <td style={{ ...cellStyle, fontSize: 12, color: '#6b7280' }}>{formatAbsenceReasonCounts(r.absenceReasons) || '—'}</td>
+            <td style={{ ...cellStyle, textAlign: 'right', color: r.streakAlert ? '#b91c1c' : undefined }}>
+              {r.currentAbsenceStreak}{r.longestAbsenceStreak > r.currentAbsenceStreak ? ` (max ${r.longestAbsenceStreak})` : ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function KpiCard({ label, value, tone, compare }: {
+  label: string
+  value: number | string
+  tone?: string
+  compare?: { value: number | string; label: string }
+}) {
+  const delta = compare && typeof value === 'number' && typeof compare.value === 'number' ? value - compare.value : null
   return (
     <div className="metric-card">
       <div style={{ fontSize: 12, color: '#6b7280' }}>{label}</div>
       <div style={{ fontSize: 28, fontWeight: 700, color: tone || '#111827' }}>{value}</div>
+      {compare && (
+        <div style={{ fontSize: 12, color: '#6b7280' }}>
+          {compare.label}: {compare.value}
+          {delta != null && delta !== 0 ? ` (${delta > 0 ? '+' : ''}${delta})` : ''}
+        </div>
+      )}
     </div>
   )
 }
 
-function Chart({ title, series, bands }: { title: string; series: SeriesPoint[]; bands?: { index: number; label?: string; color?: string }[] }) {
+function Chart({ title, series, bands, compare, seriesLabel }: {
+  title: string
+  series: SeriesPoint[]
+  bands?: { index: number; label?: string; color?: string }[]
+  compare?: { label: string; series: SeriesPoint[] }
+  seriesLabel?: string
+}) {
   const w = 720, h = 220, pad = 28
-  const d = buildLinePath(series, w, h, pad)
   // axes limits and value stats for y-axis
   const values = series.map(p => p.y)
   const minY = values.length > 0 ? Math.min(...values) : 0
-  const maxY = values.length > 0 ? Math.max(...values) : 1
   const avgY = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+  // Both seasons share one scale so the overlay reads as a like-for-like comparison.
+  const allPoints = compare ? [...series, ...compare.series] : series
+  const maxY = allPoints.length > 0 ? Math.max(...allPoints.map(p => p.y)) : 1
+  const bounds = compare && allPoints.length > 0
+    ? { minX: Math.min(...allPoints.map(p => p.x)), maxX: Math.max(...allPoints.map(p => p.x)), maxY: Math.max(maxY, 1) }
+    : undefined
+  const d = buildLinePath(series, w, h, pad, bounds)
+  const compareD = compare ? buildLinePath(compare.series, w, h, pad, bounds) : ''
   // x scale helpers
-  const minX = series.length > 0 ? series[0].x : 1
-  const spanX = Math.max(1, (series.length > 0 ? series[series.length - 1].x : 1) - minX)
+  const minX = bounds?.minX ?? (series.length > 0 ? series[0].x : 1)
+  const spanX = Math.max(1, (bounds?.maxX ?? (series.length > 0 ? series[series.length - 1].x : 1)) - minX)
   const sx = (x: number) => pad + ((x - minX) / spanX) * (w - 2 * pad)
 
   return (
@@ -419,7 +572,8 @@ function Chart({ title, series, bands }: { title: string; series: SeriesPoint[];
         )}
         {/* horizontal gridlines and labels for min/avg/max */}
         {series.length > 0 && (() => {
-          const sy = (y: number) => (h - pad) - ((y - 0) / Math.max(1e-9, maxY - 0)) * (h - 2 * pad)
+          const scaleMaxY = bounds?.maxY ?? maxY
+          const sy = (y: number) => (h - pad) - ((y - 0) / Math.max(1e-9, scaleMaxY - 0)) * (h - 2 * pad)
           const labelStyle = { fontSize: 10, fill: '#6b7280' }
           return (
             <g>
@@ -442,19 +596,15 @@ function Chart({ title, series, bands }: { title: string; series: SeriesPoint[];
           </g>
         ))}
         {/* per-match markers on x-axis */}
-        {series.length > 0 && !bands && (() => {
-          const minX = series[0].x
-          const maxX = series[series.length - 1].x
-          const spanX = Math.max(1, maxX - minX)
-          const sx = (x: number) => pad + ((x - minX) / spanX) * (w - 2 * pad)
-          return (
-            <g>
-              {series.map((p, idx) => (
-                <line key={`m-${idx}`} x1={sx(p.x)} y1={h - pad} x2={sx(p.x)} y2={h - pad + 6} stroke="#cbd5e1" />
-              ))}
-            </g>
-          )
-        })()}
+        {series.length > 0 && !bands && (
+          <g>
+            {series.map((p, idx) => (
+              <line key={`m-${idx}`} x1={sx(p.x)} y1={h - pad} x2={sx(p.x)} y2={h - pad + 6} stroke="#cbd5e1" />
+            ))}
+          </g>
+        )}
+        {/* comparison season, drawn under the selected one */}
+        {compareD && <path d={compareD} fill="none" stroke="#f59e0b" strokeWidth={2} strokeDasharray="6 4" />}
         {/* line */}
         {series.length > 0 ? (
           <path d={d} fill="none" stroke="#2563eb" strokeWidth={2} />
@@ -462,6 +612,12 @@ function Chart({ title, series, bands }: { title: string; series: SeriesPoint[];
           <text x={w / 2} y={h / 2} textAnchor="middle" fill="#9ca3af">Pas encore de données</text>
         )}
       </svg>
+      {compare && (
+        <div style={{ display: 'flex', gap: 12, fontSize: 12, color: '#6b7280', marginTop: 6, flexWrap: 'wrap' }}>
+          <span><span style={{ color: '#2563eb', fontWeight: 700 }}>━</span> {seriesLabel || 'Saison sélectionnée'}</span>
+          <span><span style={{ color: '#f59e0b', fontWeight: 700 }}>┅</span> {compare.label}</span>
+        </div>
+      )}
     </div>
   )
 }
@@ -2,22 +2,45 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { HttpError } from '../api'
 import { apiGetAllItems } from '../adapters/pagination'
-import { apiDelete, apiGet, apiPost, apiPut } from '../apiClient'
+import { apiCall, apiDelete, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { canWrite } from '../authz'
 import AttendanceAccordion from '../components/AttendanceAccordion'
 import PlayersPresenceSection from '../components/PlayersPresenceSection'
 import SelectionModal from '../components/SelectionModal'
+import TrainingSessionSheet from '../components/TrainingSessionSheet'
+import { normalizeDiagramData } from '../components/diagramShared'
 import { ChevronLeftIcon, CloseIcon, DiceIcon, DotsHorizontalIcon, SparklesIcon } from '../components/icons'
 import RoundIconButton from '../components/RoundIconButton'
 import { toErrorMessage } from '../errors'
-import { applyAttendanceValue, extractPresentPlayerIds, persistAttendanceToggle } from '../features/attendance'
+import { countAbsenceReasons, formatAbsenceReasonCounts, isAbsenceReason, type AbsenceReasonCounts } from '../features/absenceReasons'
+import { applyAttendanceValue, extractExcusedPlayerIds, extractPresentPlayerIds, persistAttendanceToggle } from '../features/attendance'
+import { buildSessionStartDate, toDayKey } from '../features/curriculum'
 import { mapTrainingAiError } from '../features/trainingAi'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import {
+  buildTrainingSheetTimeline,
+  groupExpectedAttendance,
+  pickFirstDiagramData,
+  printHtmlDocument,
+  TRAINING_SHEET_PRINT_CSS,
+} from '../features/trainingSheet'
+import {
+  applyTrainingSeriesSync,
+  clearTrainingSeriesException,
+  describeTrainingSeries,
+  endTrainingSeries,
+  getTrainingSeriesDate,
+  normalizeTrainingSeries,
+  planTrainingSeriesSync,
+  setTrainingSeriesException,
+  splitTrainingSeries,
+} from '../features/trainingSeries'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { useAuth } from '../useAuth'
 import { useTeamScope } from '../useTeamScope'
 import { uiAlert, uiConfirm } from '../ui'
-import type { AttendanceRow, Drill, GenerateTrainingDrillsResponse, Player, Training, TrainingDrill, TrainingRolesResponse } from '../types/api'
+import type { AbsenceReason, Drill, GenerateTrainingDrillsResponse, Player, Training, TrainingDrill, TrainingRolesResponse, TrainingSeries } from '../types/api'
 import './TrainingDetailsPage.css'
 
 function toPlanningUrl(dateISO?: string | null, fallbackDate?: string | null) {
@@ -45,16 +68,19 @@ function formatTrainingTimeInput(dateISO?: string | null) {
   return `${hh}:${mm}`
 }
 
-function mergeTrainingDateAndTime(dateISO: string, timeHHMM: string) {
-  const [hoursRaw, minutesRaw] = timeHHMM.split(':')
-  const hours = Number(hoursRaw)
-  const minutes = Number(minutesRaw)
-  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null
+function mergeTrainingDateAndTime(dayKey: string, timeHHMM: string) {
+  if (!/^\d{2}:\d{2}$/.test(timeHHMM)) return null
+  try {
+    return buildSessionStartDate(dayKey, timeHHMM)
+  } catch {
+    return null
+  }
+}
 
+function formatTrainingDateInput(dateISO?: string | null) {
+  if (!dateISO) return ''
   const date = new Date(dateISO)
-  if (Number.isNaN(date.getTime())) return null
-  date.setHours(hours, minutes, 0, 0)
-  return date.toISOString()
+  return Number.isNaN(date.getTime()) ? '' : toDayKey(date)
 }
 
 function sortTrainingDrills(items: TrainingDrill[]) {
@@ -129,19 +155,6 @@ type TrainingRoleLine = {
   playerId: string
 }
 
-type TrainingIntentResponse = {
-  trainingId: string
-  summary: {
-    presentCount: number
-    absentCount: number
-    unknownCount: number
-    totalPlayers: number
-  }
-  myIntent: 'PRESENT' | 'ABSENT' | null
-  canRespond: boolean
-  items?: Array<{ playerId: string; intent: 'PRESENT' | 'ABSENT' | 'UNKNOWN' }>
-}
-
 function makeRoleLine(role = '', playerId = ''): TrainingRoleLine {
   return { id: `role-${Math.random().toString(36).slice(2, 10)}`, role, playerId }
 }
@@ -163,19 +176,23 @@ export default function TrainingDetailsPage() {
   const [searchParams] = useSearchParams()
 
   const [training, setTraining] = useState<Training | null>(null)
+  const [series, setSeries] = useState<TrainingSeries | null>(null)
   const [players, setPlayers] = useState<Player[]>([])
   const [attendance, setAttendance] = useState<Set<string>>(new Set())
+  const [excusedAbsences, setExcusedAbsences] = useState<Set<string>>(new Set())
   const [drills, setDrills] = useState<TrainingDrill[]>([])
   const [catalog, setCatalog] = useState<Drill[]>([])
   const [query, setQuery] = useState('')
   const [rolesOpen, setRolesOpen] = useState(false)
   const [manageDrillsOpen, setManageDrillsOpen] = useState(false)
   const [actionsMenuOpen, setActionsMenuOpen] = useState(false)
+  const [printingSheet, setPrintingSheet] = useState(false)
   const [draggedDrillId, setDraggedDrillId] = useState<string | null>(null)
   const [dragOverDrillId, setDragOverDrillId] = useState<string | null>(null)
   const [savingDrillOrder, setSavingDrillOrder] = useState(false)
   const [trainingObjective, setTrainingObjective] = useState('')
   const [sendingObjective, setSendingObjective] = useState(false)
+  const [trainingDate, setTrainingDate] = useState('')
   const [trainingTime, setTrainingTime] = useState('')
   const [trainingEndTime, setTrainingEndTime] = useState('')
   const [savingTrainingInfo, setSavingTrainingInfo] = useState(false)
@@ -184,6 +201,8 @@ export default function TrainingDetailsPage() {
   const [savingRoles, setSavingRoles] = useState(false)
   const [rolesError, setRolesError] = useState<string | null>(null)
   const [intentByPlayerId, setIntentByPlayerId] = useState<Record<string, 'PRESENT' | 'ABSENT' | 'UNKNOWN'>>({})
+  const [absenceReasonByPlayerId, setAbsenceReasonByPlayerId] = useState<Record<string, { reason: AbsenceReason | null; note: string | null }>>({})
+  const [absenceReasonCounts, setAbsenceReasonCounts] = useState<AbsenceReasonCounts>({})
   const [roleModalOpen, setRoleModalOpen] = useState(false)
   const [roleModalMode, setRoleModalMode] = useState<'add' | 'edit'>('add')
   const [roleEditLineId, setRoleEditLineId] = useState<string | null>(null)
@@ -200,30 +219,42 @@ export default function TrainingDetailsPage() {
     () => TRAINING_OBJECTIVE_PLACEHOLDERS[Math.floor(Math.random() * TRAINING_OBJECTIVE_PLACEHOLDERS.length)],
   )
 
-  const loadTraining = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
+  const loadTraining = useCallback(async ({ isCancelled, signal }: LoadContext) => {
     if (!id) return
     rolesHydratedRef.current = false
     const [t, ps, dr, ds, att, roles, intents] = await Promise.all([
-      apiGet<Training>(apiRoutes.trainings.byId(id)),
-      apiGetAllItems<Player>(apiRoutes.players.list),
-      apiGetAllItems<Drill>(apiRoutes.drills.list),
-      apiGet<TrainingDrill[]>(apiRoutes.trainings.drills(id)),
-      apiGetAllItems<AttendanceRow>(apiRoutes.attendance.bySession('TRAINING', id)),
-      apiGet<TrainingRolesResponse>(apiRoutes.trainings.roles(id)),
-      apiGet<TrainingIntentResponse>(apiRoutes.trainings.intent(id)).catch(() => null),
+      apiCall(apiEndpoints.trainings.byId(id), undefined, { signal }),
+      apiGetAllItems(apiEndpoints.players.list(), { signal }),
+      apiGetAllItems<Drill>(apiRoutes.drills.list, { signal }),
+      apiCall(apiEndpoints.trainings.drills(id), undefined, { signal }),
+      apiGetAllItems(apiEndpoints.attendance.bySession('TRAINING', id), { signal }),
+      apiCall(apiEndpoints.trainings.roles(id), undefined, { signal }),
+      apiCall(apiEndpoints.trainings.intent(id), undefined, { signal }).catch(() => null),
     ])
 
+    const loadedSeries = t.seriesId
+      ? await apiCall(apiEndpoints.trainingSeries.byId(t.seriesId), undefined, { signal }).catch(() => null)
+      : null
+
     if (isCancelled()) return
     setTraining(t)
+    setSeries(loadedSeries ? normalizeTrainingSeries(loadedSeries) : null)
     setPlayers(ps)
     setCatalog(dr)
     setDrills(sortTrainingDrills(ds))
     setAttendance(extractPresentPlayerIds(att))
+    setExcusedAbsences(extractExcusedPlayerIds(att))
     const nextIntentByPlayerId: Record<string, 'PRESENT' | 'ABSENT' | 'UNKNOWN'> = {}
+    const nextAbsenceReasons: Record<string, { reason: AbsenceReason | null; note: string | null }> = {}
     for (const item of intents?.items ?? []) {
       nextIntentByPlayerId[item.playerId] = item.intent
+      if (item.intent === 'ABSENT') {
+        nextAbsenceReasons[item.playerId] = { reason: isAbsenceReason(item.reason) ? item.reason : null, note: item.note ?? null }
+      }
     }
     setIntentByPlayerId(nextIntentByPlayerId)
+    setAbsenceReasonByPlayerId(nextAbsenceReasons)
+    setAbsenceReasonCounts(intents?.summary.absenceReasons ?? countAbsenceReasons(intents?.items ?? []))
     const initialRoleLines = ensureTrailingEmptyRoleLine(
       roles.items.map((item) => makeRoleLine(item.role, item.playerId)),
     )
@@ -238,6 +269,7 @@ export default function TrainingDetailsPage() {
   const { loading, error } = useAsyncLoader(loadTraining)
 
   useEffect(() => {
+    setTrainingDate(formatTrainingDateInput(training?.date || null))
     setTrainingTime(formatTrainingTimeInput(training?.date || null))
     setTrainingEndTime(training?.endTime || '')
   }, [training?.date, training?.endTime])
@@ -348,6 +380,11 @@ export default function TrainingDetailsPage() {
     setRoleRandomOverlayName('')
   }, [roleModalOpen])
 
+  async function saveSeries(next: TrainingSeries) {
+    const saved = await apiPut<TrainingSeries>(apiRoutes.trainingSeries.byId(next.id), next)
+    setSeries(normalizeTrainingSeries(saved))
+  }
+
   async function setTrainingStatus(cancelled: boolean) {
     if (!writable) return
     if (!training) return
@@ -356,11 +393,57 @@ export default function TrainingDetailsPage() {
         status: cancelled ? 'CANCELLED' : 'PLANNED',
       })
       setTraining(updated)
+      // Recorded on the series too, otherwise the next sync of the series would restore the session.
+      if (series) {
+        const seriesDate = getTrainingSeriesDate(training)
+        await saveSeries(cancelled
+          ? setTrainingSeriesException(series, { date: seriesDate, kind: 'CANCELLED' })
+          : clearTrainingSeriesException(series, seriesDate))
+      }
     } catch (err: unknown) {
       uiAlert(`Erreur mise à jour statut: ${toErrorMessage(err, 'Erreur', 'Erreur serveur')}`)
     }
   }
 
+  async function printTrainingSheet() {
+    if (!training) return
+    const popup = window.open('', '_blank')
+    if (!popup) {
+      uiAlert('Autorisez les fenêtres pop-up pour imprimer la fiche de séance.')
+      return
+    }
+    setPrintingSheet(true)
+    try {
+      const timeline = buildTrainingSheetTimeline(drills, { startTime: formatTrainingTimeInput(training.date), catalogById })
+      // Session-specific diagram first, the library drill diagram otherwise.
+      const diagramEntries = await Promise.all(drills.map(async (row) => {
+        const own = pickFirstDiagramData(await apiCall(apiEndpoints.trainingDrills.diagrams(row.id)).catch(() => null))
+        const data = own ?? pickFirstDiagramData(await apiCall(apiEndpoints.drills.diagrams(row.drillId)).catch(() => null))
+        return data == null ? null : [row.id, normalizeDiagramData(data)] as const
+      }))
+      const { renderToStaticMarkup } = await import('react-dom/server')
+      const playerNameById = new Map(players.map((player) => [player.id, player.name] as const))
+      const bodyHtml = renderToStaticMarkup(
+        <TrainingSessionSheet
+          title="Fiche de séance"
+          dateLabel={trainingDateLabel}
+          timeLabel={[formatTrainingTimeInput(training.date), training.endTime || timeline.endLabel].filter(Boolean).join(' – ')}
+          cancelled={isCancelled}
+          timeline={timeline}
+          diagramsByTrainingDrillId={new Map(diagramEntries.filter((entry) => entry !== null))}
+          roles={roleLines.filter((line) => line.role && line.playerId).map((line) => ({ role: line.role, playerName: playerNameById.get(line.playerId) || 'Joueur introuvable' }))}
+          attendance={groupExpectedAttendance(players, intentByPlayerId, attendance)}
+        />,
+      )
+      printHtmlDocument(popup, { title: `Séance du ${trainingDateLabel}`, css: TRAINING_SHEET_PRINT_CSS, bodyHtml })
+    } catch (err: unknown) {
+      popup.close()
+      uiAlert(`Erreur impression: ${toErrorMessage(err, 'Erreur', 'Erreur serveur')}`)
+    } finally {
+      setPrintingSheet(false)
+    }
+  }
+
   async function deleteTraining() {
     if (!writable) return
     if (!training) return
@@ -373,17 +456,38 @@ export default function TrainingDetailsPage() {
     }
   }
 
+  async function toggleExcusedAbsence(playerId: string, excused: boolean) {
+    if (!writable || !training) return
+    setExcusedAbsences((prev) => applyAttendanceValue(prev, playerId, excused))
+    try {
+      await persistAttendanceToggle(apiPost, {
+        sessionType: 'TRAINING',
+        sessionId: training.id,
+        playerId,
+        present: false,
+        excused,
+        absenceReason: absenceReasonByPlayerId[playerId]?.reason ?? null,
+      })
+    } catch (err: unknown) {
+      setExcusedAbsences((prev) => applyAttendanceValue(prev, playerId, !excused))
+      uiAlert(`Erreur absence: ${toErrorMessage(err, 'Erreur', 'Erreur serveur')}`)
+    }
+  }
+
   async function togglePresence(playerId: string, present: boolean) {
     if (!writable) return
     if (!training) return
     const previousPresent = attendance.has(playerId)
     setAttendance((prev) => applyAttendanceValue(prev, playerId, present))
+    if (present) setExcusedAbsences((prev) => applyAttendanceValue(prev, playerId, false))
     try {
       const payload = await persistAttendanceToggle(apiPost, {
         sessionType: 'TRAINING',
         sessionId: training.id,
         playerId,
         present,
+        // Recording the absence keeps the reason the family declared.
+        absenceReason: absenceReasonByPlayerId[playerId]?.reason || undefined,
       })
       console.debug('[attendance][training] POST /attendance payload', payload)
     } catch (err: unknown) {
@@ -392,20 +496,70 @@ export default function TrainingDetailsPage() {
     }
   }
 
-  async function saveTrainingInfo() {
-    if (!writable || !training || !trainingTime) return
-    const nextDateISO = mergeTrainingDateAndTime(training.date, trainingTime)
+  async function stopSeriesFromHere() {
+    if (!writable || !training || !series) return
+    if (!uiConfirm('Supprimer cette séance et toutes les suivantes de la série ?')) return
+    const fromDayKey = getTrainingSeriesDate(training)
+    try {
+      const ended = endTrainingSeries(series, fromDayKey)
+      const allTrainings = await apiGetAllItems<Training>(apiRoutes.trainings.list)
+      const plan = planTrainingSeriesSync(ended ?? { ...series, weekdays: [] }, allTrainings, { fromDayKey })
+      await applyTrainingSeriesSync({ post: apiPost, put: apiPut, delete: apiDelete }, series, plan)
+      if (ended) await apiPut(apiRoutes.trainingSeries.byId(series.id), ended)
+      else await apiDelete(apiRoutes.trainingSeries.byId(series.id))
+      navigate(backToPlanningUrl)
+    } catch (err: unknown) {
+      uiAlert(`Erreur arrêt de la série: ${toErrorMessage(err, 'Erreur', 'Erreur serveur')}`)
+    }
+  }
+
+  // New times apply from this occurrence on; sessions moved one by one keep their own time.
+  async function updateFollowingOccurrences(current: TrainingSeries, occurrence: Training) {
+    const fromDayKey = getTrainingSeriesDate(occurrence)
+    const { previous, next } = splitTrainingSeries(current, fromDayKey, { startTime: trainingTime, endTime: trainingEndTime || null })
+    const nextDraft = clearTrainingSeriesException(next, fromDayKey)
+    if (previous) await apiPut(apiRoutes.trainingSeries.byId(previous.id), previous)
+    const nextSeries = normalizeTrainingSeries(nextDraft.id
+      ? await apiPut<TrainingSeries>(apiRoutes.trainingSeries.byId(nextDraft.id), nextDraft)
+      : await apiPost<TrainingSeries>(apiRoutes.trainingSeries.list, nextDraft))
+    const allTrainings = await apiGetAllItems<Training>(apiRoutes.trainings.list)
+    const plan = planTrainingSeriesSync(nextSeries, allTrainings, { fromDayKey, adoptSeriesIds: [current.id] })
+    const { saved } = await applyTrainingSeriesSync(
+      { post: apiPost, put: apiPut, delete: apiDelete },
+      nextSeries,
+      plan,
+      { teamId: occurrence.teamId || undefined, team_id: occurrence.teamId || undefined },
+    )
+    setSeries(nextSeries)
+    setTraining(saved.find((item) => item.id === occurrence.id) ?? occurrence)
+  }
+
+  async function saveTrainingInfo(scope: 'occurrence' | 'following' = 'occurrence') {
+    if (!writable || !training || !trainingTime || !trainingDate) return
+    const nextDateISO = mergeTrainingDateAndTime(trainingDate, trainingTime)
     if (!nextDateISO) {
       uiAlert('Horaire invalide.')
       return
     }
     setSavingTrainingInfo(true)
     try {
+      if (series && scope === 'following') {
+        await updateFollowingOccurrences(series, training)
+        return
+      }
       const updated = await apiPut<Training>(apiRoutes.trainings.byId(training.id), {
         date: nextDateISO,
         endTime: trainingEndTime || null,
       })
       setTraining(updated)
+      if (series) {
+        await saveSeries(setTrainingSeriesException(series, {
+          date: getTrainingSeriesDate(training),
+          kind: 'MOVED',
+          movedTo: nextDateISO,
+          endTime: trainingEndTime || null,
+        }))
+      }
     } catch (err: unknown) {
       uiAlert(`Erreur mise à jour horaire: ${toErrorMessage(err, 'Erreur', 'Erreur serveur')}`)
     } finally {
@@ -690,6 +844,18 @@ export default function TrainingDetailsPage() {
                       onClick={() => setActionsMenuOpen(false)}
                     />
                     <div className="floating-menu">
+                      {training && (
+                        <button
+                          type="button"
+                          disabled={printingSheet}
+                          onClick={() => {
+                            setActionsMenuOpen(false)
+                            void printTrainingSheet()
+                          }}
+                        >
+                          {printingSheet ? 'Préparation de la fiche…' : 'Imprimer la fiche de séance (PDF)'}
+                        </button>
+                      )}
                       {training && (
                         <button
                           type="button"
@@ -701,6 +867,18 @@ export default function TrainingDetailsPage() {
                           {training.status === 'CANCELLED' ? 'Rétablir l’entrainement' : 'Annuler l’entrainement'}
                         </button>
                       )}
+                      {series && (
+                        <button
+                          type="button"
+                          className="danger"
+                          onClick={() => {
+                            setActionsMenuOpen(false)
+                            void stopSeriesFromHere()
+                          }}
+                        >
+                          Arrêter la série à partir de cette séance
+                        </button>
+                      )}
                       <button
                         type="button"
                         className="danger"
@@ -729,8 +907,23 @@ export default function TrainingDetailsPage() {
             <div className="card-head">
               <h3>Informations</h3>
             </div>
+            {series && (
+              <p className="muted-line">
+                Série: {describeTrainingSeries(series)}
+                {training.seriesDate && formatTrainingDateInput(training.date) !== training.seriesDate ? ` · séance déplacée (prévue le ${training.seriesDate.split('-').reverse().join('/')})` : ''}
+              </p>
+            )}
             {writable ? (
               <div style={{ display: 'grid', gap: 8 }}>
+                <label style={{ display: 'grid', gap: 4 }}>
+                  <span style={{ fontSize: 13, color: '#64748b' }}>Date</span>
+                  <input
+                    type="date"
+                    value={trainingDate}
+                    onChange={(event) => setTrainingDate(event.target.value)}
+                    disabled={isCancelled || savingTrainingInfo}
+                  />
+                </label>
                 <label style={{ display: 'grid', gap: 4 }}>
                   <span style={{ fontSize: 13, color: '#64748b' }}>Horaire</span>
                   <input
@@ -749,15 +942,26 @@ export default function TrainingDetailsPage() {
                     disabled={isCancelled || savingTrainingInfo}
                   />
                 </label>
-                <div>
+                <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
                   <button
                     type="button"
                     onClick={() => { void saveTrainingInfo() }}
-                    disabled={isCancelled || savingTrainingInfo || !trainingTime}
+                    disabled={isCancelled || savingTrainingInfo || !trainingTime || !trainingDate}
                     style={{ padding: '8px 12px', borderRadius: 10, border: '1px solid #dbe3ef', background: '#fff' }}
                   >
-                    {savingTrainingInfo ? 'Enregistrement…' : 'Enregistrer'}
+                    {savingTrainingInfo ? 'Enregistrement…' : series ? 'Cette séance' : 'Enregistrer'}
                   </button>
+                  {series && (
+                    <button
+                      type="button"
+                      onClick={() => { void saveTrainingInfo('following') }}
+                      disabled={isCancelled || savingTrainingInfo || !trainingTime || trainingDate !== formatTrainingDateInput(training.date)}
+                      title="Change l’horaire de cette séance et des suivantes de la série"
+                      style={{ padding: '8px 12px', borderRadius: 10, border: '1px solid #dbe3ef', background: '#fff' }}
+                    >
+                      Cette séance et les suivantes
+                    </button>
+                  )}
                 </div>
               </div>
             ) : (
@@ -772,6 +976,10 @@ export default function TrainingDetailsPage() {
             presentPlayerIds={attendance}
             intentByPlayerId={intentByPlayerId}
             onTogglePresence={togglePresence}
+            excusedPlayerIds={excusedAbsences}
+            onToggleExcused={toggleExcusedAbsence}
+            absenceReasonByPlayerId={absenceReasonByPlayerId}
+            absenceSummary={formatAbsenceReasonCounts(absenceReasonCounts)}
             cardDisabled={isCancelled || !writable}
             selectionDisabled={isCancelled || !writable}
             selectionDisabledMessage={(
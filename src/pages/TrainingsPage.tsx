@@ -1,19 +1,56 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { Link, useNavigate, useSearchParams } from 'react-router-dom'
-import { canLoadMore, mergeById, nextOffset, normalizePaginatedResponse, withPagination } from '../adapters/pagination'
-import { apiGet, apiPost } from '../apiClient'
+import { OfflineQueuedError } from '../adapters/offlineQueue'
+import { apiGetAllItems, canLoadMore, mergeById, nextOffset } from '../adapters/pagination'
+import { API_BASE, apiCall, apiDelete, apiPost, apiPut } from '../apiClient'
+import { apiEndpoints } from '../apiEndpoints'
 import { apiRoutes } from '../apiRoutes'
 import { canWrite } from '../authz'
+import AbsenceReasonModal from '../components/AbsenceReasonModal'
+import CalendarExportModal from '../components/CalendarExportModal'
 import CtaButton from '../components/CtaButton'
-import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon, SoccerBallIcon, TrophyIcon } from '../components/icons'
+import CurriculumPlannerModal from '../components/CurriculumPlannerModal'
+import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon, DownloadIcon, SoccerBallIcon, TrophyIcon } from '../components/icons'
 import RoundIconButton from '../components/RoundIconButton'
+import TrainingSeriesModal from '../components/TrainingSeriesModal'
 import { toErrorMessage } from '../errors'
+import {
+  ABSENCE_REASON_LABELS,
+  applyIntentChange,
+  buildTrainingIntentPayload,
+  formatAbsenceReasonCounts,
+} from '../features/absenceReasons'
+import {
+  buildSessionStartDate,
+  createCurriculumDraft,
+  getSeasonDateRange,
+  normalizeCurriculum,
+  type CurriculumDraft,
+  type PlannedCurriculumSession,
+  type SeasonDateRange,
+} from '../features/curriculum'
+import { shareOrDownloadFile } from '../features/diagramExport'
+import { isDrillVisibleForTeam } from '../features/drillLibrary'
+import {
+  ICALENDAR_MIME_TYPE,
+  buildCalendarEvents,
+  buildCalendarFileName,
+  buildICalendar,
+  resolveCalendarFeedUrl,
+} from '../features/icalendar'
 import { formatMatchdayLocationLabel } from '../features/matchdayLocation'
-import { useAsyncLoader } from '../hooks/useAsyncLoader'
+import {
+  applyTrainingSeriesSync,
+  createTrainingSeriesDraft,
+  normalizeTrainingSeries,
+  planTrainingSeriesSync,
+  type TrainingSeriesDraft,
+} from '../features/trainingSeries'
+import { useAsyncLoader, type LoadContext } from '../hooks/useAsyncLoader'
 import { useAuth } from '../useAuth'
 import { useTeamScope } from '../useTeamScope'
 import { uiAlert } from '../ui'
-import type { Matchday, Training } from '../types/api'
+import type { AbsenceReason, CalendarFeedShare, Curriculum, Drill, Matchday, Training, TrainingSeries } from '../types/api'
 import './TrainingsPage.css'
 
 const LAST_PLANNING_DATE_KEY = 'izifoot.planning.lastDate'
@@ -21,6 +58,12 @@ const LAST_PLANNING_DATE_SAVED_ON_KEY = 'izifoot.planning.lastDateSavedOn'
 const TRAININGS_PAGE_LIMIT = 30
 const MATCHDAYS_PAGE_LIMIT = 30
 type MatchVenueChoice = 'HOME' | 'AWAY'
+type CurriculumPlannerState = {
+  initial: CurriculumDraft
+  season: SeasonDateRange
+  drills: Drill[]
+  existingDayKeys: Set<string>
+}
 
 function yyyyMmDd(d: Date) {
   const y = d.getFullYear()
@@ -118,6 +161,12 @@ export default function TrainingsPage() {
   const [competitionType, setCompetitionType] = useState<'PLATEAU' | 'MATCH' | 'TOURNOI'>('PLATEAU')
   const [competitionMatchVenue, setCompetitionMatchVenue] = useState<MatchVenueChoice | ''>('')
   const [isCreatingCompetition, setIsCreatingCompetition] = useState(false)
+  const [curriculumPlanner, setCurriculumPlanner] = useState<CurriculumPlannerState | null>(null)
+  const [isOpeningCurriculum, setIsOpeningCurriculum] = useState(false)
+  const [seriesDraft, setSeriesDraft] = useState<TrainingSeriesDraft | null>(null)
+  const [isOpeningSeries, setIsOpeningSeries] = useState(false)
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false)
+  const [absenceTraining, setAbsenceTraining] = useState<Training | null>(null)
   const [pickerMonth, setPickerMonth] = useState<Date>(() => {
     const now = new Date()
     return new Date(now.getFullYear(), now.getMonth(), 1)
@@ -135,13 +184,11 @@ export default function TrainingsPage() {
   const canLoadMoreMatchdays = useMemo(() => canLoadMore(matchdaysPagination), [matchdaysPagination])
 
   // Load trainings + matchdays
-  const loadTrainings = useCallback(async ({ isCancelled }: { isCancelled: () => boolean }) => {
-    const [rawTrainings, rawMatchdays] = await Promise.all([
-      apiGet<unknown>(withPagination(apiRoutes.trainings.list, { limit: TRAININGS_PAGE_LIMIT, offset: 0 })),
-      apiGet<unknown>(withPagination(apiRoutes.matchday.list, { limit: MATCHDAYS_PAGE_LIMIT, offset: 0 })),
+  const loadTrainings = useCallback(async ({ isCancelled, signal }: LoadContext) => {
+    const [trainingsPage, matchdaysPage] = await Promise.all([
+      apiCall(apiEndpoints.trainings.page({ limit: TRAININGS_PAGE_LIMIT, offset: 0 }), undefined, { signal }),
+      apiCall(apiEndpoints.matchday.page({ limit: MATCHDAYS_PAGE_LIMIT, offset: 0 }), undefined, { signal }),
     ])
-    const trainingsPage = normalizePaginatedResponse<Training>(rawTrainings, { limit: TRAININGS_PAGE_LIMIT, offset: 0 })
-    const matchdaysPage = normalizePaginatedResponse<Matchday>(rawMatchdays, { limit: MATCHDAYS_PAGE_LIMIT, offset: 0 })
     if (isCancelled()) return
     const filteredByCoachTrainings = coachManagedTeams
       ? trainingsPage.items.filter((training) => !training.teamId || coachManagedTeams.has(training.teamId))
@@ -203,8 +250,7 @@ export default function TrainingsPage() {
     const offset = nextOffset(trainingsPagination)
     setLoadingMoreTrainings(true)
     try {
-      const raw = await apiGet<unknown>(withPagination(apiRoutes.trainings.list, { limit: TRAININGS_PAGE_LIMIT, offset }))
-      const page = normalizePaginatedResponse<Training>(raw, { limit: TRAININGS_PAGE_LIMIT, offset })
+      const page = await apiCall(apiEndpoints.trainings.page({ limit: TRAININGS_PAGE_LIMIT, offset }))
       const byCoach = coachManagedTeams
         ? page.items.filter((training) => !training.teamId || coachManagedTeams.has(training.teamId))
         : page.items
@@ -230,8 +276,7 @@ export default function TrainingsPage() {
     const offset = nextOffset(matchdaysPagination)
     setLoadingMoreMatchdays(true)
     try {
-      const raw = await apiGet<unknown>(withPagination(apiRoutes.matchday.list, { limit: MATCHDAYS_PAGE_LIMIT, offset }))
-      const page = normalizePaginatedResponse<Matchday>(raw, { limit: MATCHDAYS_PAGE_LIMIT, offset })
+      const page = await apiCall(apiEndpoints.matchday.page({ limit: MATCHDAYS_PAGE_LIMIT, offset }))
       const byCoach = coachManagedTeams
         ? page.items.filter((plateau) => !plateau.teamId || coachManagedTeams.has(plateau.teamId))
         : page.items
@@ -256,7 +301,10 @@ export default function TrainingsPage() {
     return matchdays.filter(p => yyyyMmDd(toDateOnly(p.date)) === selectedDayKey)
   }, [matchdays, selectedDayKey])
   const trainingDayKeys = useMemo(() => {
-    return new Set(trainings.map((t) => yyyyMmDd(toDateOnly(t.date))))
+    return new Set(trainings.filter((t) => !t.seriesId).map((t) => yyyyMmDd(toDateOnly(t.date))))
+  }, [trainings])
+  const seriesDayKeys = useMemo(() => {
+    return new Set(trainings.filter((t) => t.seriesId).map((t) => yyyyMmDd(toDateOnly(t.date))))
   }, [trainings])
   const matchdayDayKeys = useMemo(() => {
     return new Set(matchdays.map((p) => yyyyMmDd(toDateOnly(p.date))))
@@ -370,31 +418,162 @@ export default function TrainingsPage() {
     }
   }
 
-  async function setTrainingIntent(trainingId: string, present: boolean) {
+  // The planner needs the whole team calendar and library, not just the loaded pages.
+  async function openCurriculumPlanner() {
+    if (!teamScopedWritable || !selectedTeamId || isOpeningCurriculum) return
+    setIsOpeningCurriculum(true)
+    try {
+      const [club, curriculums, drills, teamTrainings] = await Promise.all([
+        apiCall(apiEndpoints.clubs.me()),
+        apiGetAllItems<Curriculum>(apiRoutes.curriculums.list),
+        apiGetAllItems<Drill>(apiRoutes.drills.list),
+        apiGetAllItems<Training>(apiRoutes.trainings.list),
+      ])
+      const season = getSeasonDateRange(club)
+      const seasonId = club.currentSeason?.id ?? null
+      const existing = curriculums.find((curriculum) => (
+        curriculum.teamId === selectedTeamId && (!curriculum.seasonId || !seasonId || curriculum.seasonId === seasonId)
+      ))
+      setCurriculumPlanner({
+        initial: existing ? normalizeCurriculum(existing) : createCurriculumDraft(selectedTeamId, seasonId, season),
+        season,
+        drills: drills.filter((drill) => isDrillVisibleForTeam(drill, selectedTeamId)),
+        existingDayKeys: new Set(
+          teamTrainings
+            .filter((training) => training.teamId === selectedTeamId)
+            .map((training) => yyyyMmDd(toDateOnly(training.date))),
+        ),
+      })
+    } catch (err: unknown) {
+      uiAlert(`Erreur chargement programme: ${toErrorMessage(err)}`)
+    } finally {
+      setIsOpeningCurriculum(false)
+    }
+  }
+
+  async function saveCurriculum(draft: CurriculumDraft): Promise<Curriculum> {
+    const saved = draft.id
+      ? await apiPut<Curriculum>(apiRoutes.curriculums.byId(draft.id), draft)
+      : await apiPost<Curriculum>(apiRoutes.curriculums.list, draft)
+    return normalizeCurriculum(saved)
+  }
+
+  async function generateCurriculumSessions(
+    curriculum: CurriculumDraft,
+    sessions: PlannedCurriculumSession[],
+    onProgress: (done: number, total: number) => void,
+  ) {
+    const activeTeam = teamOptions.find((team) => team.id === selectedTeamId)
+    const created: Training[] = []
+    try {
+      for (const [index, session] of sessions.entries()) {
+        onProgress(index + 1, sessions.length)
+        const training = await apiPost<Training>(apiRoutes.trainings.list, {
+          date: buildSessionStartDate(session.dayKey, curriculum.startTime),
+          endTime: curriculum.endTime || undefined,
+          teamId: selectedTeamId || undefined,
+          team_id: selectedTeamId || undefined,
+          teamName: activeTeam?.name || undefined,
+          activeTeamId: selectedTeamId || undefined,
+          active_team_id: selectedTeamId || undefined,
+          curriculumId: curriculum.id ?? undefined,
+          curriculumCycleId: session.cycleId,
+        })
+        created.push(training)
+        for (const drillId of session.drillIds) {
+          await apiPost(apiRoutes.trainings.drills(training.id), { drillId })
+        }
+      }
+    } finally {
+      // Days created before a failure count as planned, a retry only creates the remaining ones.
+      setTrainings((prev) => mergeById(prev, created).sort((a, b) => +new Date(b.date) - +new Date(a.date)))
+      setCurriculumPlanner((prev) => prev && {
+        ...prev,
+        existingDayKeys: new Set([...prev.existingDayKeys, ...created.map((training) => yyyyMmDd(toDateOnly(training.date)))]),
+      })
+    }
+  }
+
+  async function openSeriesModal() {
+    if (!teamScopedWritable || !selectedTeamId || isOpeningSeries) return
+    setIsOpeningSeries(true)
+    try {
+      const club = await apiCall(apiEndpoints.clubs.me()).catch(() => null)
+      setSeriesDraft(createTrainingSeriesDraft(selectedTeamId, selectedDate, getSeasonDateRange(club)))
+    } finally {
+      setIsOpeningSeries(false)
+    }
+  }
+
+  async function createTrainingSeries(draft: TrainingSeriesDraft) {
+    const activeTeam = teamOptions.find((team) => team.id === selectedTeamId)
+    const series = normalizeTrainingSeries(await apiPost<TrainingSeries>(apiRoutes.trainingSeries.list, draft))
+    const plan = planTrainingSeriesSync(series, [], { fromDayKey: series.startDate })
+    const { saved } = await applyTrainingSeriesSync({ post: apiPost, put: apiPut, delete: apiDelete }, series, plan, {
+      teamId: selectedTeamId || undefined,
+      team_id: selectedTeamId || undefined,
+      teamName: activeTeam?.name || undefined,
+      activeTeamId: selectedTeamId || undefined,
+      active_team_id: selectedTeamId || undefined,
+    })
+    setTrainings((prev) => mergeById(prev, saved).sort((a, b) => +new Date(b.date) - +new Date(a.date)))
+  }
+
+  const calendarName = selectedTeamId && teamNameById.get(selectedTeamId)
+    ? `Planning ${teamNameById.get(selectedTeamId)}`
+    : 'Planning'
+
+  // The file covers the whole season, not just the pages loaded on screen.
+  async function downloadCalendar() {
+    const [allTrainings, allMatchdays] = await Promise.all([
+      apiGetAllItems<Training>(apiRoutes.trainings.list),
+      apiGetAllItems<Matchday>(apiRoutes.matchday.list),
+    ])
+    const inCoachScope = (teamId?: string | null) => !coachManagedTeams || !teamId || coachManagedTeams.has(teamId)
+    const events = buildCalendarEvents(
+      {
+        trainings: allTrainings.filter((training) => inCoachScope(training.teamId)),
+        matchdays: allMatchdays.filter((matchday) => inCoachScope(matchday.teamId)),
+      },
+      { teamId: selectedTeamId, teamNames: selectedTeamId ? null : teamNameById },
+    )
+    const blob = new Blob([buildICalendar(events, calendarName)], { type: ICALENDAR_MIME_TYPE })
+    await shareOrDownloadFile(blob, buildCalendarFileName(calendarName), calendarName)
+  }
+
+  // Without an active team the backend scopes the feed to the account (a parent's child, a player's team).
+  async function createCalendarFeed() {
+    const feed = await apiPost<CalendarFeedShare>(apiRoutes.calendarFeeds.share, selectedTeamId ? { teamId: selectedTeamId } : {})
+    return resolveCalendarFeedUrl(feed, API_BASE)
+  }
+
+  async function setTrainingIntent(trainingId: string, present: boolean, reason: AbsenceReason | null = null, note = '') {
     setUpdatingIntentTrainingIds((prev) => new Set(prev).add(trainingId))
     const previousTrainings = trainings
+    const payload = buildTrainingIntentPayload(present, reason, note)
     setTrainings((prev) => prev.map((training) => {
       if (training.id !== trainingId) return training
-      const previousIntent = training.myTrainingIntent ?? null
-      const previousSummary = training.intentSummary ?? null
       const nextIntent: Training['myTrainingIntent'] = present ? 'PRESENT' : 'ABSENT'
-      let nextSummary = previousSummary
-      if (previousSummary) {
-        let presentCount = previousSummary.presentCount
-        let absentCount = previousSummary.absentCount
-        if (previousIntent === 'PRESENT') presentCount = Math.max(0, presentCount - 1)
-        if (previousIntent === 'ABSENT') absentCount = Math.max(0, absentCount - 1)
-        if (nextIntent === 'PRESENT') presentCount += 1
-        if (nextIntent === 'ABSENT') absentCount += 1
-        const unknownCount = Math.max(0, previousSummary.totalPlayers - presentCount - absentCount)
-        nextSummary = { ...previousSummary, presentCount, absentCount, unknownCount }
+      const nextSummary = training.intentSummary
+        ? applyIntentChange(
+          training.intentSummary,
+          { intent: training.myTrainingIntent ?? null, reason: training.myAbsenceReason },
+          { intent: nextIntent, reason: payload.reason },
+        )
+        : null
+      return {
+        ...training,
+        myTrainingIntent: nextIntent,
+        myAbsenceReason: payload.reason ?? null,
+        myAbsenceNote: payload.note ?? null,
+        intentSummary: nextSummary,
       }
-      return { ...training, myTrainingIntent: nextIntent, intentSummary: nextSummary }
     }))
 
     try {
-      await apiPost(apiRoutes.trainings.intent(trainingId), { present })
+      await apiPost(apiRoutes.trainings.intent(trainingId), payload)
     } catch (err: unknown) {
+      if (err instanceof OfflineQueuedError) return
       setTrainings(previousTrainings)
       uiAlert(`Erreur intention de présence: ${toErrorMessage(err)}`)
     } finally {
@@ -435,6 +614,11 @@ export default function TrainingsPage() {
               >
                 <CalendarIcon size={18} />
               </RoundIconButton>
+              {(!requiresSelection || selectedTeamId) && (
+                <RoundIconButton ariaLabel="Exporter le planning vers un agenda" onClick={() => setIsCalendarExportOpen(true)}>
+                  <DownloadIcon size={18} />
+                </RoundIconButton>
+              )}
             </div>
           </div>
         </header>
@@ -460,7 +644,10 @@ export default function TrainingsPage() {
                   <span className="trainings-item-left">
                     {t.status === 'CANCELLED' ? <span style={{ fontSize: 24 }}>❌</span> : <SoccerBallIcon size={24} />}
                     <span style={{ display: 'grid', gap: 2 }}>
-                      <span>Entraînement</span>
+                      <span>
+                        Entraînement
+                        {t.seriesId && <span className="trainings-series-badge">Série</span>}
+                      </span>
                       {formatTrainingTimeRange(t.date, t.endTime) && (
                         <small style={{ color: '#64748b' }}>
                           Horaire: {formatTrainingTimeRange(t.date, t.endTime)}
@@ -469,6 +656,7 @@ export default function TrainingsPage() {
                       {(me?.role === 'COACH' || me?.role === 'DIRECTION') && t.intentSummary && (
                         <small style={{ color: '#64748b' }}>
                           Intentions: {t.intentSummary.presentCount}/{t.intentSummary.totalPlayers} présents
+                          {formatAbsenceReasonCounts(t.intentSummary.absenceReasons) && ` · Absences: ${formatAbsenceReasonCounts(t.intentSummary.absenceReasons)}`}
                         </small>
                       )}
                       {me?.role === 'DIRECTION' && (
@@ -513,7 +701,7 @@ export default function TrainingsPage() {
                       <button
                         type="button"
                         disabled={!canSetIntent || isLoadingIntent}
-                        onClick={() => { void setTrainingIntent(training.id, false) }}
+                        onClick={() => setAbsenceTraining(training)}
                         style={{
                           padding: '8px 12px',
                           borderRadius: 10,
@@ -525,6 +713,11 @@ export default function TrainingsPage() {
                         Absent
                       </button>
                     </div>
+                    {training.myTrainingIntent === 'ABSENT' && (training.myAbsenceReason || training.myAbsenceNote) && (
+                      <div style={{ fontSize: 13, color: '#64748b' }}>
+                        Motif: {[training.myAbsenceReason ? ABSENCE_REASON_LABELS[training.myAbsenceReason] : '', training.myAbsenceNote ?? ''].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
                   </div>
                 )
               })}
@@ -537,6 +730,26 @@ export default function TrainingsPage() {
                   Ajouter un entraînement
                 </CtaButton>
               )}
+              {teamScopedWritable && selectedTeamId && (
+                <button
+                  type="button"
+                  onClick={() => { void openCurriculumPlanner() }}
+                  disabled={isOpeningCurriculum}
+                  className="trainings-secondary-btn"
+                >
+                  {isOpeningCurriculum ? 'Chargement…' : 'Programme de la saison'}
+                </button>
+              )}
+              {teamScopedWritable && selectedTeamId && (
+                <button
+                  type="button"
+                  onClick={() => { void openSeriesModal() }}
+                  disabled={isOpeningSeries}
+                  className="trainings-secondary-btn"
+                >
+                  {isOpeningSeries ? 'Chargement…' : 'Créer une série'}
+                </button>
+              )}
               {canLoadMoreTrainings && (
                 <button
                   type="button"
@@ -642,6 +855,7 @@ export default function TrainingsPage() {
                 const dayKey = yyyyMmDd(candidate)
                 const isSelected = dayKey === selectedDayKey
                 const hasTraining = trainingDayKeys.has(dayKey)
+                const hasSeriesTraining = seriesDayKeys.has(dayKey)
                 const hasMatchday = matchdayDayKeys.has(dayKey)
                 return (
                   <button
@@ -656,6 +870,7 @@ export default function TrainingsPage() {
                     <span>{day}</span>
                     <span className="trainings-day-dots">
                       {hasTraining && <span className="trainings-dot-training" />}
+                      {hasSeriesTraining && <span className="trainings-dot-series" />}
                       {hasMatchday && <span className="trainings-dot-plateau" />}
                     </span>
                   </button>
@@ -668,6 +883,10 @@ export default function TrainingsPage() {
                 <span className="trainings-legend-dot-training" />
                 Entraînement
               </span>
+              <span className="trainings-legend-item">
+                <span className="trainings-legend-dot-series" />
+                Série
+              </span>
               <span className="trainings-legend-item">
                 <span className="trainings-legend-dot-plateau" />
                 Compétition
@@ -677,6 +896,44 @@ export default function TrainingsPage() {
         </div>
       )}
 
+      {teamScopedWritable && curriculumPlanner && (
+        <CurriculumPlannerModal
+          initial={curriculumPlanner.initial}
+          season={curriculumPlanner.season}
+          drills={curriculumPlanner.drills}
+          existingDayKeys={curriculumPlanner.existingDayKeys}
+          onSave={saveCurriculum}
+          onGenerate={generateCurriculumSessions}
+          onClose={() => setCurriculumPlanner(null)}
+        />
+      )}
+
+      {absenceTraining && (
+        <AbsenceReasonModal
+          initialReason={absenceTraining.myAbsenceReason}
+          initialNote={absenceTraining.myAbsenceNote}
+          onSubmit={(reason, note) => setTrainingIntent(absenceTraining.id, false, reason, note)}
+          onClose={() => setAbsenceTraining(null)}
+        />
+      )}
+
+      {isCalendarExportOpen && (
+        <CalendarExportModal
+          title={`Exporter: ${calendarName}`}
+          onDownload={downloadCalendar}
+          onCreateFeed={createCalendarFeed}
+          onClose={() => setIsCalendarExportOpen(false)}
+        />
+      )}
+
+      {teamScopedWritable && seriesDraft && (
+        <TrainingSeriesModal
+          initial={seriesDraft}
+          onCreate={createTrainingSeries}
+          onClose={() => setSeriesDraft(null)}
+        />
+      )}
+
       {teamScopedWritable && isCompetitionModalOpen && (
         <div onClick={closeCompetitionModal} className="trainings-overlay">
           <div
@@ -69,8 +69,58 @@ export interface Player {
   is_active?: boolean | null
   deactivatedAt?: string | null
   deactivated_at?: string | null
+  currentInjury?: PlayerInjury | null
+  medicalCertificateExpiresAt?: string | null
+  documents?: PlayerDocument[]
 }
 
+export type PlayerDocumentType = 'LICENCE' | 'PARENTAL_AUTHORISATION' | 'MEDICAL_QUESTIONNAIRE' | 'PHOTO_CONSENT'
+
+export type PlayerDocumentStatus = 'MISSING' | 'PENDING' | 'VALID' | 'REJECTED'
+
+export interface PlayerDocument {
+  type: PlayerDocumentType
+  status: PlayerDocumentStatus
+  expiresAt?: string | null
+  attachmentUrl?: string | null
+  attachmentName?: string | null
+  note?: string | null
+  updatedAt?: string | null
+}
+
+export interface PlayerInjury {
+  id: string
+  playerId: string
+  description: string
+  startDate: string
+  expectedReturnDate?: string | null
+  // Set when the staff declares the player fit again, possibly before the expected return.
+  endedAt?: string | null
+  note?: string | null
+}
+
+export type PlayerInvitationStatus = 'NONE' | 'PENDING' | 'ACCEPTED'
+
+export interface PlayerInvitationStatusResponse {
+  playerId: string
+  status: PlayerInvitationStatus
+  lastInvitationAt?: string | null
+  invitationId?: string | null
+}
+
+// The child account linked to a parent, as returned by `/me/child`.
+export interface LinkedChild {
+  id: string
+  name: string | null
+  firstName: string | null
+  lastName: string | null
+  licence: string | null
+  teamId: string | null
+  teamName: string | null
+}
+
+export type AbsenceReason = 'INJURY' | 'ILLNESS' | 'SCHOOL' | 'FAMILY' | 'OTHER'
+
 export interface Training {
   id: string
   date: string
@@ -84,9 +134,84 @@ export interface Training {
     absentCount: number
     unknownCount: number
     totalPlayers: number
+    // Declared absences per reason; absences without reason are not counted here.
+    absenceReasons?: Partial<Record<AbsenceReason, number>> | null
   } | null
   myTrainingIntent?: 'PRESENT' | 'ABSENT' | null
+  myAbsenceReason?: AbsenceReason | null
+  myAbsenceNote?: string | null
   canSetTrainingIntent?: boolean
+  // Set on sessions generated from a season curriculum.
+  curriculumId?: string | null
+  curriculumCycleId?: string | null
+  // Set on occurrences of a recurring series; `seriesDate` is the rule date, kept when the session is moved.
+  seriesId?: string | null
+  seriesDate?: string | null
+}
+
+export interface TrainingIntentItem {
+  playerId: string
+  intent: 'PRESENT' | 'ABSENT' | 'UNKNOWN'
+  reason?: AbsenceReason | null
+  note?: string | null
+}
+
+export interface TrainingIntentResponse {
+  trainingId: string
+  summary: NonNullable<Training['intentSummary']>
+  myIntent: 'PRESENT' | 'ABSENT' | null
+  canRespond: boolean
+  items?: TrainingIntentItem[]
+}
+
+export interface TrainingSeriesException {
+  date: string
+  kind: 'CANCELLED' | 'MOVED'
+  movedTo?: string | null
+  endTime?: string | null
+}
+
+export interface TrainingSeries {
+  id: string
+  teamId?: string | null
+  // ISO weekdays: 1 = Monday … 7 = Sunday.
+  weekdays: number[]
+  startTime: string
+  endTime?: string | null
+  startDate: string
+  endDate: string
+  exceptions: TrainingSeriesException[]
+}
+
+export interface CurriculumCycle {
+  id: string
+  title: string
+  objectives: string
+  // Drill ids for each week of the cycle, one entry per week.
+  weeks: string[][]
+}
+
+export interface HolidayPeriod {
+  id: string
+  label: string
+  startDate: string
+  endDate: string
+}
+
+export interface Curriculum {
+  id: string
+  teamId?: string | null
+  seasonId?: string | null
+  title: string
+  // ISO weekdays: 1 = Monday … 7 = Sunday.
+  weekdays: number[]
+  startTime: string
+  endTime?: string | null
+  startDate: string
+  endDate: string
+  cycles: CurriculumCycle[]
+  holidays: HolidayPeriod[]
+  updatedAt?: string | null
 }
 
 export interface Matchday {
@@ -103,6 +228,42 @@ export interface Matchday {
   matchVenue?: 'HOME' | 'AWAY' | null
   tournamentHasGroupStage?: boolean | null
   tournamentKnockoutMode?: 'NONE' | 'SINGLE' | 'HOME_AWAY' | null
+  // Set when the coach sends the convocations; answers are closed after it.
+  rsvpDeadline?: string | null
+}
+
+export interface CarpoolOffer {
+  id: string
+  matchdayId: string
+  ownerUserId?: string | null
+  driverName: string
+  // Child of the driver: already in the car, not counted in `seats`.
+  playerId?: string | null
+  seats: number
+  departurePoint: string
+  departureTime: string
+  note?: string | null
+}
+
+export interface CarpoolRequest {
+  id: string
+  matchdayId: string
+  ownerUserId?: string | null
+  playerId: string
+  note?: string | null
+  // Set once the child has a seat in that offer.
+  offerId?: string | null
+}
+
+export interface MatchdayCarpool {
+  offers: CarpoolOffer[]
+  requests: CarpoolRequest[]
+}
+
+// Tokenized public `.ics` feed; `url` may be omitted by older backends.
+export interface CalendarFeedShare {
+  token: string
+  url?: string | null
 }
 
 export interface ClubMe {
@@ -171,14 +332,40 @@ export interface ClubCoach {
   expiresAt?: string | null
 }
 
+export interface TeamMessageAuthor {
+  id: string
+  firstName: string | null
+  lastName: string | null
+  role: 'DIRECTION' | 'COACH' | 'PLAYER' | 'PARENT'
+}
+
+export interface TeamMessage {
+  id: string
+  teamId: string
+  clubId: string
+  content: string
+  createdAt: string
+  updatedAt: string
+  author: TeamMessageAuthor | null
+  likesCount: number
+  likedByMe: boolean
+}
+
 export interface AttendanceRow {
   id?: string
   session_type: 'TRAINING' | 'PLATEAU'
   session_id: string
   playerId: string
   present: boolean
+  // Only meaningful for absences: the coach accepted the reason.
+  excused?: boolean | null
+  // Reason declared with the training intent, copied when the coach records the absence.
+  absenceReason?: AbsenceReason | null
 }
 
+// TEAM: private to `teamId`; CLUB: shared with the whole club; OFFICIAL: curated by DIRECTION, locked for coaches.
+export type DrillVisibility = 'TEAM' | 'CLUB' | 'OFFICIAL'
+
 export interface Drill {
   id: string
   title: string
@@ -189,6 +376,11 @@ export interface Drill {
   descriptionHtml?: string | null
   tags: string[]
   teamId?: string | null
+  visibility?: DrillVisibility | null
+  // Set on forks: the club drill it was copied from and that drill's updatedAt at the last sync.
+  sourceDrillId?: string | null
+  sourceUpdatedAt?: string | null
+  updatedAt?: string | null
 }
 
 export interface DrillsResponse {
@@ -198,6 +390,12 @@ export interface DrillsResponse {
   pagination?: PaginationMeta
 }
 
+export interface DiagramSummary {
+  id: string
+  title?: string
+  data?: unknown
+}
+
 export interface TrainingDrill {
   id: string
   trainingId: string
@@ -281,3 +479,8 @@ export interface MatchLite {
   scorers: MatchScorer[]
   opponentName?: string | null
 }
+
+// GET /matches/:id also embeds the players of both line-ups.
+export type MatchDetails = MatchLite & {
+  playersById?: Record<string, Player>
+}
@@ -1,6 +1,6 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
-import { apiGet } from './apiClient'
-import { apiRoutes } from './apiRoutes'
+import { apiCall } from './apiClient'
+import { apiEndpoints } from './apiEndpoints'
 import { normalizeGameFormat, type GameFormat } from './features/teamFormat'
 import { useAuth } from './useAuth'
 import type { Team } from './types/api'
@@ -73,7 +73,7 @@ export function TeamScopeProvider({ children }: { children: React.ReactNode }) {
 
     setLoading(true)
     try {
-      const fetchedTeams = await apiGet<Team[]>(apiRoutes.teams.list).catch(() => [])
+      const fetchedTeams = await apiCall(apiEndpoints.teams.list()).catch((): Team[] => [])
       const normalized = (Array.isArray(fetchedTeams) ? fetchedTeams : [])
         .map(toTeamOption)
         .filter((team): team is TeamOption => Boolean(team))